@@ -1,20 +1,36 @@
 import context from '../../typings/js-slang/context';
+import { CrdtGlobalStateController } from './CrdtGlobalStateController';
 import { GlobalStateController } from './GlobalStateController';
+import { getInMemoryBroker, InMemoryTransport } from './InMemoryTransport';
 import { MultiUserController } from './MultiUserController';
-import { RpcController } from './RpcController';
+import { DEFAULT_TIMEOUT, RpcController } from './RpcController';
+import type { TransportFactory } from './Transport';
+import { WebSocketTransport } from './WebSocketTransport';
 
 class CommunicationModuleState {
   multiUser: MultiUserController;
-  globalState: GlobalStateController | null = null;
+  globalState: CrdtGlobalStateController | GlobalStateController | null = null;
   rpc: RpcController | null = null;
 
-  constructor(address: string, port: number, user: string, password: string) {
-    const multiUser = new MultiUserController();
-    multiUser.setupController(address, port, user, password);
+  constructor(multiUser: MultiUserController) {
     this.multiUser = multiUser;
   }
 }
 
+/**
+ * Sets up the module state with a new connection, unless already initialized.
+ */
+function initModuleState(setup: (multiUser: MultiUserController) => void) {
+  if (getModuleState() instanceof CommunicationModuleState) {
+    return;
+  }
+  const multiUser = new MultiUserController();
+  setup(multiUser);
+  context.moduleContexts.communication.state = new CommunicationModuleState(
+    multiUser,
+  );
+}
+
 /**
  * Initializes connection with MQTT broker.
  * Currently only supports WebSocket.
@@ -30,16 +46,47 @@ export function initCommunications(
   user: string,
   password: string,
 ) {
-  if (getModuleState() instanceof CommunicationModuleState) {
-    return;
-  }
-  const newModuleState = new CommunicationModuleState(
-    address,
-    port,
-    user,
-    password,
+  initModuleState((multiUser) => {
+    multiUser.setupController(address, port, user, password);
+  });
+}
+
+/**
+ * Initializes communication through a broker that runs in the browser,
+ * without a network connection.
+ * Programs in the same tab, and in other tabs of the same browser, that use
+ * the same broker name can communicate with each other.
+ *
+ * @param name Name of the broker, use the same name on all devices.
+ */
+export function initLocalCommunications(name: string) {
+  const createTransport: TransportFactory = (connectionCallback, messageCallback) => new InMemoryTransport(
+    getInMemoryBroker(name),
+    connectionCallback,
+    messageCallback,
+  );
+  initModuleState((multiUser) => {
+    multiUser.setupTransport(createTransport);
+  });
+}
+
+/**
+ * Initializes communication through a plain WebSocket server.
+ * The server relays JSON messages of the form
+ * `{ type: 'publish', topic, message, retain }`
+ * to the clients that sent `{ type: 'subscribe', topic }`.
+ *
+ * @param url WebSocket URL of the server, starting with ws:// or wss://.
+ */
+export function initWebSocketCommunications(url: string) {
+  const createTransport: TransportFactory = (connectionCallback, messageCallback) => new WebSocketTransport(
+    url,
+    connectionCallback,
+    messageCallback,
   );
-  context.moduleContexts.communication.state = newModuleState;
+  initModuleState((multiUser) => {
+    multiUser.setupTransport(createTransport);
+  });
 }
 
 function getModuleState() {
@@ -81,7 +128,7 @@ export function initGlobalState(
 ) {
   const moduleState = getModuleState();
   if (moduleState instanceof CommunicationModuleState) {
-    if (moduleState.globalState instanceof GlobalStateController) {
+    if (moduleState.globalState !== null) {
       return;
     }
     moduleState.globalState = new GlobalStateController(
@@ -94,6 +141,34 @@ export function initGlobalState(
   throw new Error('Error: Communication module not initialized.');
 }
 
+/**
+ * Initializes global state where updates from different devices are merged
+ * instead of overwriting each other, so that all devices end up with the
+ * same state. Also allows "incrementGlobalState" and "pushGlobalState".
+ * Devices that join later receive the current state from the others.
+ *
+ * @param topicHeader Topic to use for global state.
+ * @param callback Callback to receive updates of global state.
+ */
+export function initCrdtGlobalState(
+  topicHeader: string,
+  callback: (state: any) => void,
+) {
+  const moduleState = getModuleState();
+  if (moduleState instanceof CommunicationModuleState) {
+    if (moduleState.globalState !== null) {
+      return;
+    }
+    moduleState.globalState = new CrdtGlobalStateController(
+      topicHeader,
+      moduleState.multiUser,
+      callback,
+    );
+    return;
+  }
+  throw new Error('Error: Communication module not initialized.');
+}
+
 /**
  * Obtains the current global state.
  *
@@ -123,6 +198,41 @@ export function updateGlobalState(path: string, updatedState: any) {
   throw new Error('Error: Communication module not initialized.');
 }
 
+/**
+ * Obtains the global state controller that merges updates.
+ */
+function getCrdtGlobalState(name: string) {
+  const moduleState = getModuleState();
+  if (moduleState instanceof CommunicationModuleState) {
+    if (moduleState.globalState instanceof CrdtGlobalStateController) {
+      return moduleState.globalState;
+    }
+    throw new Error(`Error: ${name} requires global state initialized with initCrdtGlobalState.`);
+  }
+  throw new Error('Error: Communication module not initialized.');
+}
+
+/**
+ * Adds to the number in the global state, counting increments from all devices.
+ *
+ * @param path Path within the json state.
+ * @param amount Amount to add, may be negative.
+ */
+export function incrementGlobalState(path: string, amount: number) {
+  getCrdtGlobalState(incrementGlobalState.name).incrementGlobalState(path, amount);
+}
+
+/**
+ * Appends to the array in the global state, keeping values appended by all
+ * devices in the same order on every device.
+ *
+ * @param path Path within the json state.
+ * @param value Value to append.
+ */
+export function pushGlobalState(path: string, value: any) {
+  getCrdtGlobalState(pushGlobalState.name).pushGlobalState(path, value);
+}
+
 // Rpc
 
 /**
@@ -177,23 +287,82 @@ export function expose(name: string, func: (...args: any[]) => any) {
   throw new Error('Error: Communication module not initialized.');
 }
 
+/**
+ * Reports a failed call to the error callback, or to the console if there is none.
+ */
+function handleRpcError(
+  promise: Promise<any>,
+  errorCallback?: (message: string) => void,
+) {
+  promise.catch((error: Error) => {
+    const message = `${error.name}: ${error.message}`;
+    if (errorCallback) {
+      errorCallback(message);
+    } else {
+      console.error(message);
+    }
+  });
+}
+
 /**
  * Calls a function exposed by another user.
+ * The call fails if the function throws an error, if it is not exposed, or if
+ * no return value is received within the timeout, e.g. because the user is
+ * offline.
  *
  * @param receiver Identifier for the user whose function we want to call.
  * @param name Identifier for function to call.
  * @param args Array of arguments to pass into the function.
  * @param callback Callback with return value.
+ * @param errorCallback Callback with the error message if the call fails.
+ * @param timeout Time to wait for the return value in milliseconds, 10 seconds by default.
  */
 export function callFunction(
   receiver: string,
   name: string,
   args: any[],
   callback: (args: any[]) => void,
+  errorCallback?: (message: string) => void,
+  timeout: number = DEFAULT_TIMEOUT,
 ) {
   const moduleState = getModuleState();
   if (moduleState instanceof CommunicationModuleState) {
-    moduleState.rpc?.callFunction(receiver, name, args, callback);
+    if (!moduleState.rpc) {
+      throw new Error('Error: RPC not initialized.');
+    }
+    handleRpcError(
+      moduleState.rpc.callFunction(receiver, name, args, callback, timeout),
+      errorCallback,
+    );
+    return;
+  }
+  throw new Error('Error: Communication module not initialized.');
+}
+
+/**
+ * Obtains the names of the functions exposed by another user.
+ *
+ * @param receiver Identifier for the user.
+ * @param callback Callback with the array of function names.
+ * @param errorCallback Callback with the error message if the user could not be reached.
+ * @param timeout Time to wait for a response in milliseconds, 10 seconds by default.
+ */
+export function getExposedFunctions(
+  receiver: string,
+  callback: (names: string[]) => void,
+  errorCallback?: (message: string) => void,
+  timeout: number = DEFAULT_TIMEOUT,
+) {
+  const moduleState = getModuleState();
+  if (moduleState instanceof CommunicationModuleState) {
+    if (!moduleState.rpc) {
+      throw new Error('Error: RPC not initialized.');
+    }
+    handleRpcError(
+      moduleState.rpc.listFunctions(receiver, timeout)
+        .then(callback),
+      errorCallback,
+    );
     return;
   }
   throw new Error('Error: Communication module not initialized.');
@@ -0,0 +1,179 @@
+/**
+ * Lamport timestamp of an operation. Operations are totally ordered by
+ * counter, then by replica ID, so every device orders them the same way.
+ */
+export type Stamp = {
+  counter: number;
+  replica: string;
+};
+
+/**
+ * Operations on the shared JSON state, at a path of object keys.
+ * - set: Replaces the value at the path. Leaving out the value removes the path.
+ * - increment: Adds to the number at the path, which starts at 0.
+ * - push: Appends to the array at the path, which starts empty.
+ */
+export type CrdtOperation = { path: string[]; stamp: Stamp } & (
+  | { type: 'increment'; amount: number }
+  | { type: 'push'; value: any }
+  | { type: 'set'; value?: any }
+);
+
+export function compareStamps(a: Stamp, b: Stamp) {
+  if (a.counter !== b.counter) return a.counter - b.counter;
+  if (a.replica === b.replica) return 0;
+  return a.replica < b.replica ? -1 : 1;
+}
+
+const stampKey = (stamp: Stamp) => `${stamp.counter}@${stamp.replica}`;
+
+const pathKey = (path: string[]) => JSON.stringify(path);
+
+const isPrefix = (prefix: string[], path: string[]) => prefix.length <= path.length
+  && prefix.every((segment, i) => segment === path[i]);
+
+/**
+ * Splits a '/' separated path into keys, ignoring empty keys.
+ *
+ * @param path Path within the JSON state, e.g. "players/alice/score".
+ */
+export function splitPath(path: string) {
+  return path.split('/')
+    .filter((segment) => segment.length > 0);
+}
+
+const isObject = (value: any) => value instanceof Object && !(value instanceof Array);
+
+/**
+ * Returns a copy of the state with the operation applied.
+ */
+function applyToState(state: any, operation: CrdtOperation): any {
+  const [key, ...rest] = operation.path;
+  if (key === undefined) {
+    switch (operation.type) {
+      case 'set':
+        return operation.value;
+      case 'increment':
+        return (typeof state === 'number' ? state : 0) + operation.amount;
+      case 'push':
+        return [...(state instanceof Array ? state : []), operation.value];
+    }
+  }
+  const newState = isObject(state) ? { ...state } : {};
+  const newValue = applyToState(newState[key], {
+    ...operation,
+    path: rest,
+  });
+  if (newValue === undefined) {
+    delete newState[key];
+  } else {
+    newState[key] = newValue;
+  }
+  return newState;
+}
+
+/**
+ * JSON state that can be updated concurrently by several devices, and
+ * converges to the same value on all of them once they have received the
+ * same operations, in any order and with duplicates.
+ *
+ * The document keeps every operation that still affects the state. The state
+ * is obtained by applying them in stamp order, skipping operations under a
+ * path that has since been set.
+ *
+ * @param replica ID of this device, must be unique.
+ */
+export class CrdtDocument {
+  private replica: string;
+  private clock = 0;
+  private operations = new Map<string, CrdtOperation>();
+  // Latest set operation for each path
+  private latestSets = new Map<string, CrdtOperation>();
+
+  constructor(replica: string) {
+    this.replica = replica;
+  }
+
+  /**
+   * Creates a new operation from this device.
+   */
+  createOperation(
+    operation:
+      | { type: 'increment'; path: string[]; amount: number }
+      | { type: 'push'; path: string[]; value: any }
+      | { type: 'set'; path: string[]; value?: any },
+  ): CrdtOperation {
+    this.clock += 1;
+    return {
+      ...operation,
+      stamp: {
+        counter: this.clock,
+        replica: this.replica,
+      },
+    };
+  }
+
+  /**
+   * Checks whether an operation is replaced by a later set operation on its
+   * path or a parent path.
+   */
+  private isOverwritten(operation: CrdtOperation) {
+    for (let i = 0; i <= operation.path.length; i++) {
+      const latestSet = this.latestSets.get(pathKey(operation.path.slice(0, i)));
+      if (
+        latestSet
+        && latestSet !== operation
+        && compareStamps(latestSet.stamp, operation.stamp) > 0
+      ) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Merges an operation into the document. Applying an operation again has no effect.
+   *
+   * @returns Whether the operation was new.
+   */
+  apply(operation: CrdtOperation) {
+    const key = stampKey(operation.stamp);
+    if (this.operations.has(key)) return false;
+    this.clock = Math.max(this.clock, operation.stamp.counter);
+    if (this.isOverwritten(operation)) return false;
+
+    this.operations.set(key, operation);
+    if (operation.type === 'set') {
+      this.latestSets.set(pathKey(operation.path), operation);
+      // Operations under the path no longer affect the state
+      this.operations.forEach((other, otherKey) => {
+        if (
+          isPrefix(operation.path, other.path)
+          && compareStamps(other.stamp, operation.stamp) < 0
+        ) {
+          this.operations.delete(otherKey);
+          if (this.latestSets.get(pathKey(other.path)) === other) {
+            this.latestSets.delete(pathKey(other.path));
+          }
+        }
+      });
+    }
+    return true;
+  }
+
+  /**
+   * Obtains the operations needed to rebuild the state, to send to devices that join later.
+   */
+  getSnapshot(): CrdtOperation[] {
+    return [...this.operations.values()];
+  }
+
+  /**
+   * Computes the current state.
+   */
+  getState(): any {
+    return [...this.operations.values()]
+      .sort((a, b) => compareStamps(a.stamp, b.stamp))
+      .reduce(applyToState, undefined);
+  }
+}
@@ -0,0 +1,159 @@
+import uniqid from 'uniqid';
+import { CrdtDocument, splitPath, type CrdtOperation } from './Crdt';
+import type { MultiUserController } from './MultiUserController';
+import { STATE_CONNECTED } from './Transport';
+
+/**
+ * Controller for maintaining a global state across all devices, where
+ * concurrent updates are merged instead of overwriting each other.
+ * Updates are sent as operations on a CrdtDocument. Devices that join later
+ * request a snapshot of the operations from the devices already present.
+ *
+ * @param topicHeader Identifier for all global state messages, must not include '/'.
+ * @param multiUser Instance of multi user controller.
+ * @param callback Callback called when the global state changes.
+ */
+export class CrdtGlobalStateController {
+  private topicHeader: string;
+  private multiUser: MultiUserController;
+  private callback: (state: any) => void;
+  private document: CrdtDocument;
+  globalState: any;
+
+  constructor(
+    topicHeader: string,
+    multiUser: MultiUserController,
+    callback: (state: any) => void,
+  ) {
+    this.topicHeader = topicHeader;
+    this.multiUser = multiUser;
+    this.callback = callback;
+    this.document = new CrdtDocument(uniqid());
+    this.setupGlobalState();
+  }
+
+  /**
+   * Sets up callback for global state messages, and requests a snapshot.
+   */
+  private setupGlobalState() {
+    if (this.topicHeader.length <= 0) return;
+    this.multiUser.addMessageCallback(this.topicHeader, (topic, message) => {
+      const shortenedTopic = topic.substring(
+        this.topicHeader.length,
+        topic.length,
+      );
+      this.parseGlobalStateMessage(shortenedTopic, message);
+    });
+    this.publish('/sync', '');
+    // Messages sent while disconnected may have been missed
+    this.multiUser.addConnectionCallback((status) => {
+      if (status === STATE_CONNECTED) {
+        this.publish('/sync', '');
+      }
+    });
+  }
+
+  private publish(subTopic: string, message: string) {
+    this.multiUser.controller?.publish(
+      `${this.topicHeader}${subTopic}`,
+      message,
+      false,
+    );
+  }
+
+  /**
+   * Handles operations, snapshots and snapshot requests.
+   *
+   * @param shortenedTopic Type of message.
+   * @param message Contents of the message.
+   */
+  public parseGlobalStateMessage(shortenedTopic: string, message: string) {
+    try {
+      switch (shortenedTopic) {
+        case '/operation':
+          this.applyOperations([JSON.parse(message)]);
+          break;
+        case '/snapshot':
+          this.applyOperations(JSON.parse(message));
+          break;
+        case '/sync':
+          if (this.document.getSnapshot().length > 0) {
+            this.publish('/snapshot', JSON.stringify(this.document.getSnapshot()));
+          }
+          break;
+      }
+    } catch (error) {
+      console.log('Failed to parse message', error);
+    }
+  }
+
+  /**
+   * Merges operations into the document, and notifies changes.
+   *
+   * @param operations Operations received.
+   */
+  private applyOperations(operations: CrdtOperation[]) {
+    let changed = false;
+    operations.forEach((operation) => {
+      changed = this.document.apply(operation) || changed;
+    });
+    if (changed) {
+      this.globalState = this.document.getState();
+      this.callback(this.globalState);
+    }
+  }
+
+  /**
+   * Applies an operation from this device and broadcasts it to all devices.
+   */
+  private broadcast(operation: CrdtOperation) {
+    if (this.topicHeader.length === 0) return;
+    this.applyOperations([operation]);
+    this.publish('/operation', JSON.stringify(operation));
+  }
+
+  /**
+   * Sets the value at a path of the global state.
+   * Concurrent updates to different paths are all kept.
+   *
+   * @param path Path within the json state.
+   * @param updatedState Replacement value at specified path, undefined to remove the path.
+   */
+  public updateGlobalState(path: string, updatedState: any) {
+    this.broadcast(this.document.createOperation({
+      type: 'set',
+      path: splitPath(path),
+      value: updatedState,
+    }));
+  }
+
+  /**
+   * Adds to the number at a path of the global state.
+   * Concurrent increments are all counted.
+   *
+   * @param path Path within the json state.
+   * @param amount Amount to add, may be negative.
+   */
+  public incrementGlobalState(path: string, amount: number) {
+    this.broadcast(this.document.createOperation({
+      type: 'increment',
+      path: splitPath(path),
+      amount,
+    }));
+  }
+
+  /**
+   * Appends to the array at a path of the global state.
+   * Concurrent appends are all kept, in the same order on every device.
+   *
+   * @param path Path within the json state.
+   * @param value Value to append.
+   */
+  public pushGlobalState(path: string, value: any) {
+    this.broadcast(this.document.createOperation({
+      type: 'push',
+      path: splitPath(path),
+      value,
+    }));
+  }
+}
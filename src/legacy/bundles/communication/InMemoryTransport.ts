@@ -0,0 +1,189 @@
+import {
+  STATE_CONNECTED,
+  STATE_DISCONNECTED,
+  topicMatches,
+  type ConnectionCallback,
+  type MessageCallback,
+  type Transport,
+} from './Transport';
+
+type BrokerMessage = {
+  topic: string;
+  message: string;
+  isRetain: boolean;
+};
+
+/**
+ * Message broker that runs in the page, for use without a network.
+ * Every transport connected to a broker with the same name receives the
+ * messages published to it. Brokers in other tabs of the same origin are
+ * kept in sync through a BroadcastChannel, where available.
+ *
+ * @param name Name of the broker, shared by all devices that communicate.
+ */
+export class InMemoryBroker {
+  private clients = new Map<InMemoryTransport, Set<string>>();
+  private retained = new Map<string, string>();
+  private channel: BroadcastChannel | null = null;
+
+  constructor(name: string) {
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(`communication/${name}`);
+      this.channel.onmessage = (event: MessageEvent<BrokerMessage>) => {
+        this.deliver(event.data);
+      };
+    }
+  }
+
+  connect(client: InMemoryTransport) {
+    this.clients.set(client, new Set());
+  }
+
+  disconnect(client: InMemoryTransport) {
+    this.clients.delete(client);
+  }
+
+  /**
+   * Subscribes a client to a topic, and sends it the matching retained messages.
+   */
+  subscribe(client: InMemoryTransport, topic: string) {
+    const subscriptions = this.clients.get(client);
+    if (!subscriptions) return;
+    subscriptions.add(topic);
+    this.retained.forEach((message, retainedTopic) => {
+      if (topicMatches(topic, retainedTopic)) {
+        queueMicrotask(() => {
+          if (this.clients.has(client)) client.receive(retainedTopic, message);
+        });
+      }
+    });
+  }
+
+  unsubscribe(client: InMemoryTransport, topic: string) {
+    this.clients.get(client)
+      ?.delete(topic);
+  }
+
+  publish(topic: string, message: string, isRetain: boolean) {
+    const brokerMessage = {
+      topic,
+      message,
+      isRetain,
+    };
+    this.channel?.postMessage(brokerMessage);
+    this.deliver(brokerMessage);
+  }
+
+  /**
+   * Delivers a message to every subscribed client.
+   * Delivery is asynchronous, like that of a network broker, so that
+   * clients can publish from within their message callbacks.
+   */
+  private deliver({ topic, message, isRetain }: BrokerMessage) {
+    if (isRetain) {
+      // As in MQTT, an empty retained message clears the retained message
+      if (message.length === 0) {
+        this.retained.delete(topic);
+      } else {
+        this.retained.set(topic, message);
+      }
+    }
+    this.clients.forEach((subscriptions, client) => {
+      for (const subscription of subscriptions) {
+        if (topicMatches(subscription, topic)) {
+          queueMicrotask(() => {
+            if (this.clients.has(client)) client.receive(topic, message);
+          });
+          return;
+        }
+      }
+    });
+  }
+
+  /**
+   * Disconnects all clients and stops listening to other tabs.
+   */
+  close() {
+    this.clients.clear();
+    this.retained.clear();
+    this.channel?.close();
+    this.channel = null;
+  }
+}
+
+const brokers = new Map<string, InMemoryBroker>();
+
+/**
+ * Obtains the broker with the given name, creating it if needed.
+ *
+ * @param name Name of the broker.
+ */
+export function getInMemoryBroker(name: string) {
+  let broker = brokers.get(name);
+  if (!broker) {
+    broker = new InMemoryBroker(name);
+    brokers.set(name, broker);
+  }
+  return broker;
+}
+
+/**
+ * Transport connected to an InMemoryBroker.
+ *
+ * @param broker Broker to connect to.
+ * @param connectionCallback Callback when the connection state changed.
+ * @param messageCallback Callback when a message has been received.
+ */
+export class InMemoryTransport implements Transport {
+  private broker: InMemoryBroker;
+  private connectionCallback: ConnectionCallback;
+  private messageCallback: MessageCallback;
+  private isConnected = false;
+
+  constructor(
+    broker: InMemoryBroker,
+    connectionCallback: ConnectionCallback,
+    messageCallback: MessageCallback,
+  ) {
+    this.broker = broker;
+    this.connectionCallback = connectionCallback;
+    this.messageCallback = messageCallback;
+  }
+
+  public connect() {
+    if (this.isConnected) return;
+    this.isConnected = true;
+    this.broker.connect(this);
+    this.connectionCallback(STATE_CONNECTED);
+  }
+
+  public disconnect() {
+    if (this.isConnected) {
+      this.broker.disconnect(this);
+      this.connectionCallback(STATE_DISCONNECTED);
+    }
+    this.isConnected = false;
+    this.connectionCallback = () => {};
+    this.messageCallback = () => {};
+  }
+
+  public publish(topic: string, message: string, isRetain: boolean) {
+    if (!this.isConnected) return;
+    this.broker.publish(topic, message, isRetain);
+  }
+
+  public subscribe(topic: string) {
+    this.broker.subscribe(this, topic);
+  }
+
+  public unsubscribe(topic: string) {
+    this.broker.unsubscribe(this, topic);
+  }
+
+  /**
+   * Called by the broker when a message is received.
+   */
+  public receive(topic: string, message: string) {
+    this.messageCallback(topic, message);
+  }
+}
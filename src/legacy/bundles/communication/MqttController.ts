@@ -1,10 +1,14 @@
 import { connect, type MqttClient } from 'mqtt/dist/mqtt';
 // Need to use "mqtt/dist/mqtt" as "mqtt" requires global, which SA's compiller does not define.
-
-export const STATE_CONNECTED = 'Connected';
-export const STATE_DISCONNECTED = 'Disconnected';
-export const STATE_RECONNECTING = 'Reconnecting';
-export const STATE_OFFLINE = 'Offline';
+import {
+  STATE_CONNECTED,
+  STATE_DISCONNECTED,
+  STATE_OFFLINE,
+  STATE_RECONNECTING,
+  type ConnectionCallback,
+  type MessageCallback,
+  type Transport,
+} from './Transport';
 
 /**
  * Abstraction of MQTT for web.
@@ -14,10 +18,10 @@ export const STATE_OFFLINE = 'Offline';
  * @param connectionCallback Callback when the connection state changed.
  * @param messageCallback Callback when a message has been received.
  */
-export class MqttController {
+export class MqttController implements Transport {
   private client: MqttClient | null = null;
-  private connectionCallback: (status: string) => void;
-  private messageCallback: (topic: string, message: string) => void;
+  private connectionCallback: ConnectionCallback;
+  private messageCallback: MessageCallback;
 
   address: string = '';
   port: number = 443;
@@ -25,8 +29,8 @@ export class MqttController {
   password: string = '';
 
   constructor(
-    connectionCallback: (status: string) => void,
-    messageCallback: (topic: string, message: string) => void,
+    connectionCallback: ConnectionCallback,
+    messageCallback: MessageCallback,
   ) {
     this.connectionCallback = connectionCallback;
     this.messageCallback = messageCallback;
@@ -36,7 +40,7 @@ export class MqttController {
    * Sets up MQTT client link and connects to it.
    * Also handles connection status callbacks.
    */
-  public async connectClient() {
+  public connect() {
     if (this.client !== null) return;
     if (this.address.length === 0) return;
     const link = `wss://${this.user}:${this.password}@${this.address}:${this.port}/mqtt`;
@@ -1,20 +1,26 @@
-import { MqttController, STATE_DISCONNECTED } from './MqttController';
+import { MqttController } from './MqttController';
+import {
+  STATE_DISCONNECTED,
+  type ConnectionCallback,
+  type MessageCallback,
+  type Transport,
+  type TransportFactory,
+} from './Transport';
 
 /**
- * Controller with implementation of MQTT.
+ * Controller for the connection to a message broker.
  * Required by both GlobalStateController and RpcController.
  */
 export class MultiUserController {
-  controller: MqttController | null = null;
+  controller: Transport | null = null;
   connectionState: string = STATE_DISCONNECTED;
-  messageCallbacks: Map<string, (topic: string, message: string) => void> =
-    new Map();
+  messageCallbacks: Map<string, MessageCallback> = new Map();
+  connectionCallbacks: Set<ConnectionCallback> = new Set();
 
   /**
    * Sets up and connect to the MQTT link.
    * Uses websocket implementation.
    *
-   * @param isPrivate Whether to use NUS private broker.
    * @param address Address to connect to.
    * @param port MQTT port number.
    * @param user Username of account, leave empty if not required.
@@ -26,27 +32,60 @@ export class MultiUserController {
     user: string,
     password: string,
   ) {
-    let currentController = this.controller;
-    if (currentController) {
-      currentController.disconnect();
-      this.connectionState = STATE_DISCONNECTED;
-    } else {
-      currentController = new MqttController(
-        (status: string) => {
-          this.connectionState = status;
-          console.log(status);
-        },
-        (topic: string, message: string) => {
-          this.handleIncomingMessage(topic, message);
-        },
-      );
-      this.controller = currentController;
+    this.setupTransport((connectionCallback, messageCallback) => {
+      const controller = new MqttController(connectionCallback, messageCallback);
+      controller.address = address;
+      controller.port = port;
+      controller.user = user;
+      controller.password = password;
+      return controller;
+    });
+  }
+
+  /**
+   * Replaces the current transport with a new one and connects it.
+   * Existing message callbacks are subscribed to on the new transport.
+   *
+   * @param createTransport Creates the transport to use.
+   */
+  public setupTransport(createTransport: TransportFactory) {
+    if (this.controller) {
+      this.controller.disconnect();
+      this.setConnectionState(STATE_DISCONNECTED);
     }
-    currentController.address = address;
-    currentController.port = port;
-    currentController.user = user;
-    currentController.password = password;
-    currentController.connectClient();
+    const controller = createTransport(
+      (status: string) => {
+        this.setConnectionState(status);
+        console.log(status);
+      },
+      (topic: string, message: string) => {
+        this.handleIncomingMessage(topic, message);
+      },
+    );
+    this.controller = controller;
+    controller.connect();
+    this.messageCallbacks.forEach((_, identifier) => {
+      controller.subscribe(`${identifier}/#`);
+    });
+  }
+
+  /**
+   * Stores the new connection state and notifies connection callbacks.
+   *
+   * @param status New connection state.
+   */
+  private setConnectionState(status: string) {
+    this.connectionState = status;
+    this.connectionCallbacks.forEach((callback) => callback(status));
+  }
+
+  /**
+   * Adds a callback for connection state changes.
+   *
+   * @param callback Callback called with the new connection state.
+   */
+  public addConnectionCallback(callback: ConnectionCallback) {
+    this.connectionCallbacks.add(callback);
   }
 
   /**
@@ -75,7 +114,7 @@ export class MultiUserController {
    */
   public addMessageCallback(
     identifier: string,
-    callback: (topic: string, message: string) => void,
+    callback: MessageCallback,
   ) {
     this.controller?.subscribe(`${identifier}/#`);
     this.messageCallbacks.set(identifier, callback);
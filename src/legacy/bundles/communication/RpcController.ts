@@ -1,11 +1,40 @@
 import uniqid from 'uniqid';
 import type { MultiUserController } from './MultiUserController';
+import { STATE_DISCONNECTED, STATE_OFFLINE } from './Transport';
+
+// Time to wait for the result of a call, in milliseconds
+export const DEFAULT_TIMEOUT = 10000;
 
 type DeclaredFunction = {
   name: string;
   func: (...args: any[]) => any;
 };
 
+type PendingCall = {
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  timeout: number;
+};
+
+/**
+ * Error sent back in place of a result, when the call failed on the callee.
+ */
+type ErrorResponse = {
+  name: string;
+  message: string;
+};
+
+/**
+ * Error for calls that failed, either on the callee or because it could not be reached.
+ * For errors thrown by the called function, the name is that of the original error.
+ */
+export class RpcError extends Error {
+  constructor(message: string, name: string = 'RpcError') {
+    super(message);
+    this.name = name;
+  }
+}
+
 /**
  * Controller for RPC communication between 2 devices.
  *
@@ -18,7 +47,7 @@ export class RpcController {
   private multiUser: MultiUserController;
   private userId: string;
   private functions = new Map<string, DeclaredFunction>();
-  private pendingReturns = new Map<string, (args: any[]) => void>();
+  private pendingReturns = new Map<string, PendingCall>();
   private returnTopic: string;
 
   constructor(
@@ -33,10 +62,32 @@ export class RpcController {
     this.multiUser.addMessageCallback(this.returnTopic, (topic, message) => {
       const messageJson = JSON.parse(message);
       const callId = messageJson.callId;
-      const callback = this.pendingReturns.get(callId);
-      if (callback) {
-        this.pendingReturns.delete(callId);
-        callback(messageJson.result);
+      const pendingCall = this.pendingReturns.get(callId);
+      if (!pendingCall) return;
+      this.pendingReturns.delete(callId);
+      window.clearTimeout(pendingCall.timeout);
+      const error: ErrorResponse | undefined = messageJson.error;
+      if (error) {
+        pendingCall.reject(new RpcError(error.message, error.name));
+      } else {
+        pendingCall.resolve(messageJson.result);
+      }
+    });
+    this.multiUser.addMessageCallback(
+      `${this.topicHeader}/${this.userId}`,
+      (topic, message) => this.handleCall(topic, message),
+    );
+    this.multiUser.addMessageCallback(
+      `${this.topicHeader}_discover/${this.userId}`,
+      (topic, message) => {
+        const { callId, sender } = JSON.parse(message);
+        if (!callId || !sender) return;
+        this.returnResponse(sender, callId, [...this.functions.keys()]);
+      },
+    );
+    this.multiUser.addConnectionCallback((status) => {
+      if (status === STATE_DISCONNECTED || status === STATE_OFFLINE) {
+        this.cancelPendingCalls(new RpcError(`Connection lost (${status}).`));
       }
     });
   }
@@ -57,6 +108,59 @@ export class RpcController {
     this.multiUser.controller?.publish(topic, JSON.stringify(message), false);
   }
 
+  /**
+   * Sends an error back to caller.
+   *
+   * @param sender ID of caller.
+   * @param callId ID of function call.
+   * @param error Error thrown by the function call.
+   */
+  private returnError(sender: string, callId: string, error: any) {
+    const message: { callId: string; error: ErrorResponse } = {
+      callId,
+      error: {
+        name: error instanceof Error ? error.name : 'Error',
+        message: error instanceof Error ? error.message : String(error),
+      },
+    };
+    const topic = `${this.topicHeader}_return/${sender}`;
+    this.multiUser.controller?.publish(topic, JSON.stringify(message), false);
+  }
+
+  /**
+   * Runs the function called by another device and sends back its return value,
+   * or the error if it could not be run.
+   *
+   * @param topic Topic of the call, ending with the function name.
+   * @param message Contents of the call.
+   */
+  private async handleCall(topic: string, message: string) {
+    const splitTopic = topic.split('/');
+    if (splitTopic.length !== 3) {
+      return;
+    }
+    const parsedMessage = JSON.parse(message);
+    const callId = parsedMessage.callId;
+    const sender = parsedMessage.sender;
+    if (!callId || !sender) return;
+    const calledName = splitTopic[2];
+    const calledFunc = this.functions.get(calledName);
+    if (!calledFunc) {
+      this.returnError(
+        sender,
+        callId,
+        new RpcError(`Function "${calledName}" is not exposed by user "${this.userId}".`),
+      );
+      return;
+    }
+    try {
+      const result = await calledFunc.func(...parsedMessage.args);
+      this.returnResponse(sender, callId, result);
+    } catch (error) {
+      this.returnError(sender, callId, error);
+    }
+  }
+
   /**
    * Obtains user ID for RPC.
    *
@@ -68,9 +172,10 @@ export class RpcController {
 
   /**
    * Exposes a function to other callers.
+   * Errors thrown by the function are sent back to the caller.
    *
    * @param name Name for the function, cannot include '/'.
-   * @param func Function to run.
+   * @param func Function to run, may return a promise.
    */
   public expose(name: string, func: (...args: any[]) => any) {
     const item = {
@@ -78,28 +183,46 @@ export class RpcController {
       func,
     };
     this.functions.set(name, item);
-    const functionTopic = `${this.topicHeader}/${this.userId}/${name}`;
-    this.multiUser.addMessageCallback(functionTopic, (topic, message) => {
-      const splitTopic = topic.split('/');
-      if (splitTopic.length !== 3) {
-        return;
-      }
-      const parsedMessage = JSON.parse(message);
-      const callId = parsedMessage.callId;
-      const sender = parsedMessage.sender;
-      if (!callId || !sender) return;
-      const calledName = splitTopic[2];
-      const calledFunc = this.functions.get(calledName);
-      if (!calledFunc) {
-        this.returnResponse(sender, callId, null);
+  }
+
+  /**
+   * Publishes a request, and waits for the response on the return topic.
+   *
+   * @param topic Topic to publish the request to.
+   * @param description Description of the call for error messages.
+   * @param message Contents of the request, without sender and call ID.
+   * @param timeout Time to wait for the response, in milliseconds.
+   */
+  private request(
+    topic: string,
+    description: string,
+    message: object,
+    timeout: number,
+  ) {
+    return new Promise<any>((resolve, reject) => {
+      if (!this.multiUser.controller) {
+        reject(new RpcError(`Cannot ${description}: not connected.`));
         return;
       }
-      try {
-        const result = calledFunc?.func(...parsedMessage.args);
-        this.returnResponse(sender, callId, result);
-      } catch {
-        this.returnResponse(sender, callId, null);
-      }
+      const callId = uniqid();
+      this.pendingReturns.set(callId, {
+        resolve,
+        reject,
+        timeout: window.setTimeout(() => {
+          this.pendingReturns.delete(callId);
+          reject(
+            new RpcError(
+              `Timed out after ${timeout} ms waiting to ${description}. The user may be offline.`,
+            ),
+          );
+        }, timeout),
+      });
+      const messageJson = {
+        ...message,
+        sender: this.userId,
+        callId,
+      };
+      this.multiUser.controller.publish(topic, JSON.stringify(messageJson), false);
     });
   }
 
@@ -110,22 +233,58 @@ export class RpcController {
    * @param name Name of the function to call.
    * @param args Argument values of the function.
    * @param callback Callback for return value received.
+   * @param timeout Time to wait for the return value, in milliseconds.
+   * @returns Promise of the return value, rejected with an RpcError if the call
+   *          failed, timed out or the connection was lost.
    */
   public callFunction(
     receiver: string,
     name: string,
     args: any[],
-    callback: (args: any[]) => void,
+    callback?: (args: any[]) => void,
+    timeout: number = DEFAULT_TIMEOUT,
   ) {
     const topic = `${this.topicHeader}/${receiver}/${name}`;
-    const callId = uniqid();
-    this.pendingReturns.set(callId, callback);
-    const messageJson = {
-      sender: this.userId,
-      callId,
-      args,
-    };
-    const messageString = JSON.stringify(messageJson);
-    this.multiUser.controller?.publish(topic, messageString, false);
+    const result = this.request(
+      topic,
+      `call "${name}" on user "${receiver}"`,
+      { args },
+      timeout,
+    );
+    return callback ? result.then((value) => {
+      callback(value);
+      return value;
+    }) : result;
+  }
+
+  /**
+   * Obtains the names of the functions exposed by another device.
+   *
+   * @param receiver ID of the other device.
+   * @param timeout Time to wait for the response, in milliseconds.
+   * @returns Promise of the function names.
+   */
+  public listFunctions(receiver: string, timeout: number = DEFAULT_TIMEOUT) {
+    const topic = `${this.topicHeader}_discover/${receiver}`;
+    return this.request(
+      topic,
+      `list the functions of user "${receiver}"`,
+      {},
+      timeout,
+    ) as Promise<string[]>;
+  }
+
+  /**
+   * Fails all calls still waiting for a return value.
+   *
+   * @param error Error to fail the calls with.
+   */
+  public cancelPendingCalls(error: Error) {
+    const pendingCalls = [...this.pendingReturns.values()];
+    this.pendingReturns.clear();
+    pendingCalls.forEach((pendingCall) => {
+      window.clearTimeout(pendingCall.timeout);
+      pendingCall.reject(error);
+    });
   }
 }
@@ -0,0 +1,77 @@
+export const STATE_CONNECTED = 'Connected';
+export const STATE_DISCONNECTED = 'Disconnected';
+export const STATE_RECONNECTING = 'Reconnecting';
+export const STATE_OFFLINE = 'Offline';
+
+export type ConnectionCallback = (status: string) => void;
+export type MessageCallback = (topic: string, message: string) => void;
+
+/**
+ * Publish/subscribe connection used by MultiUserController.
+ * Topics are '/' separated, and subscriptions may use the MQTT wildcards
+ * '+' (one level) and '#' (any number of trailing levels).
+ */
+export interface Transport {
+  /**
+   * Connects to the broker. Connection state changes are reported through
+   * the connection callback the transport was created with.
+   */
+  connect(): void;
+
+  /**
+   * Disconnects from the broker. No callbacks are called afterwards.
+   */
+  disconnect(): void;
+
+  /**
+   * Broadcasts message to topic.
+   *
+   * @param topic Identifier for group of devices to broadcast to.
+   * @param message Message to broadcast.
+   * @param isRetain Whether the message should be retained.
+   * @param qos Quality of service, for transports that support it.
+   */
+  publish(topic: string, message: string, isRetain: boolean, qos?: number): void;
+
+  /**
+   * Subscribes to a topic.
+   *
+   * @param topic Topic, may include wildcards.
+   * @param qos Quality of service, for transports that support it.
+   */
+  subscribe(topic: string, qos?: number): void;
+
+  /**
+   * Unsubscribes from a topic.
+   *
+   * @param topic Topic previously subscribed to.
+   */
+  unsubscribe(topic: string): void;
+}
+
+/**
+ * Creates a transport that reports to the given callbacks.
+ */
+export type TransportFactory = (
+  connectionCallback: ConnectionCallback,
+  messageCallback: MessageCallback,
+) => Transport;
+
+/**
+ * Checks whether a topic matches a subscription, following MQTT wildcard rules.
+ *
+ * @param filter Subscribed topic, may include wildcards.
+ * @param topic Topic of a message.
+ */
+export function topicMatches(filter: string, topic: string) {
+  const splitFilter = filter.split('/');
+  const splitTopic = topic.split('/');
+  for (let i = 0; i < splitFilter.length; i++) {
+    if (splitFilter[i] === '#') return true;
+    if (i >= splitTopic.length) return false;
+    if (splitFilter[i] !== '+' && splitFilter[i] !== splitTopic[i]) {
+      return false;
+    }
+  }
+  return splitFilter.length === splitTopic.length;
+}
@@ -0,0 +1,146 @@
+import {
+  STATE_CONNECTED,
+  STATE_DISCONNECTED,
+  STATE_OFFLINE,
+  STATE_RECONNECTING,
+  type ConnectionCallback,
+  type MessageCallback,
+  type Transport,
+} from './Transport';
+
+// Delay before reconnecting after the connection is lost, in milliseconds
+const RECONNECT_DELAY = 1000;
+
+/**
+ * Messages exchanged with the server, encoded as JSON.
+ * The client sends subscribe, unsubscribe and publish messages,
+ * and the server sends a publish message for every message received on a
+ * subscribed topic.
+ */
+type WebSocketMessage =
+  | { type: 'publish'; topic: string; message: string; retain: boolean }
+  | { type: 'subscribe'; topic: string }
+  | { type: 'unsubscribe'; topic: string };
+
+/**
+ * Transport over a plain WebSocket, for brokers that do not speak MQTT.
+ * Subscriptions are restored and queued messages are sent when the
+ * connection is reestablished.
+ *
+ * @param url WebSocket URL of the server, starting with ws:// or wss://.
+ * @param connectionCallback Callback when the connection state changed.
+ * @param messageCallback Callback when a message has been received.
+ */
+export class WebSocketTransport implements Transport {
+  private socket: WebSocket | null = null;
+  private url: string;
+  private connectionCallback: ConnectionCallback;
+  private messageCallback: MessageCallback;
+  private subscriptions = new Set<string>();
+  private queue: WebSocketMessage[] = [];
+  private reconnectTimeout: number | undefined;
+
+  constructor(
+    url: string,
+    connectionCallback: ConnectionCallback,
+    messageCallback: MessageCallback,
+  ) {
+    this.url = url;
+    this.connectionCallback = connectionCallback;
+    this.messageCallback = messageCallback;
+  }
+
+  public connect() {
+    if (this.socket !== null) return;
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+    socket.onopen = () => {
+      this.connectionCallback(STATE_CONNECTED);
+      this.subscriptions.forEach((topic) => {
+        this.send({
+          type: 'subscribe',
+          topic,
+        });
+      });
+      const queue = this.queue;
+      this.queue = [];
+      queue.forEach((message) => this.send(message));
+    };
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.connectionCallback(STATE_RECONNECTING);
+      this.reconnectTimeout = window.setTimeout(() => {
+        this.reconnectTimeout = undefined;
+        this.connect();
+      }, RECONNECT_DELAY);
+    };
+    socket.onerror = () => {
+      this.connectionCallback(STATE_OFFLINE);
+    };
+    socket.onmessage = (event: MessageEvent<string>) => {
+      try {
+        const data: WebSocketMessage = JSON.parse(event.data);
+        if (data.type === 'publish') {
+          this.messageCallback(data.topic, data.message);
+        }
+      } catch (error) {
+        console.log('Failed to parse message', error);
+      }
+    };
+  }
+
+  public disconnect() {
+    window.clearTimeout(this.reconnectTimeout);
+    this.reconnectTimeout = undefined;
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+    if (socket) {
+      this.connectionCallback(STATE_DISCONNECTED);
+    }
+    this.queue = [];
+    this.connectionCallback = () => {};
+    this.messageCallback = () => {};
+  }
+
+  /**
+   * Sends a message to the server, or queues it until the connection is open.
+   */
+  private send(message: WebSocketMessage) {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    } else {
+      this.queue.push(message);
+    }
+  }
+
+  public publish(topic: string, message: string, isRetain: boolean) {
+    this.send({
+      type: 'publish',
+      topic,
+      message,
+      retain: isRetain,
+    });
+  }
+
+  public subscribe(topic: string) {
+    this.subscriptions.add(topic);
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.send({
+        type: 'subscribe',
+        topic,
+      });
+    }
+  }
+
+  public unsubscribe(topic: string) {
+    this.subscriptions.delete(topic);
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.send({
+        type: 'unsubscribe',
+        topic,
+      });
+    }
+  }
+}
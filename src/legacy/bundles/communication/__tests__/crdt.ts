@@ -0,0 +1,152 @@
+import { CrdtDocument, type CrdtOperation } from '../Crdt';
+import { CrdtGlobalStateController } from '../CrdtGlobalStateController';
+import { InMemoryBroker, InMemoryTransport } from '../InMemoryTransport';
+import { MultiUserController } from '../MultiUserController';
+
+// Messages are delivered asynchronously
+const flushMessages = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+/**
+ * Applies the operations in every order, and checks that all documents end
+ * up with the same state.
+ */
+const expectConvergence = (operations: CrdtOperation[], expected: any) => {
+  const permutations = (items: CrdtOperation[]): CrdtOperation[][] => (items.length <= 1
+    ? [items]
+    : items.flatMap((item, i) => permutations([...items.slice(0, i), ...items.slice(i + 1)])
+      .map((rest) => [item, ...rest])));
+  permutations(operations)
+    .forEach((ordering) => {
+      const document = new CrdtDocument('observer');
+      ordering.forEach((operation) => document.apply(operation));
+      expect(document.getState()).toEqual(expected);
+    });
+};
+
+test('Concurrent Sets On Different Paths Are Kept', () => {
+  const alice = new CrdtDocument('alice');
+  const bob = new CrdtDocument('bob');
+  expectConvergence([
+    alice.createOperation({ type: 'set', path: ['a'], value: 1 }),
+    bob.createOperation({ type: 'set', path: ['b'], value: 2 }),
+  ], { a: 1, b: 2 });
+});
+
+test('Concurrent Sets On The Same Path Pick The Same Winner', () => {
+  const alice = new CrdtDocument('alice');
+  const bob = new CrdtDocument('bob');
+  expectConvergence([
+    alice.createOperation({ type: 'set', path: ['a'], value: 1 }),
+    bob.createOperation({ type: 'set', path: ['a'], value: 2 }),
+  ], { a: 2 });
+});
+
+test('Set On Parent Path Overwrites Earlier Children', () => {
+  const alice = new CrdtDocument('alice');
+  const first = alice.createOperation({ type: 'set', path: ['a', 'b'], value: 1 });
+  const second = alice.createOperation({ type: 'set', path: ['a'], value: { c: 2 } });
+  const third = alice.createOperation({ type: 'set', path: ['a', 'd'], value: 3 });
+  expectConvergence([first, second, third], { a: { c: 2, d: 3 } });
+});
+
+test('Concurrent Increments Are All Counted', () => {
+  const alice = new CrdtDocument('alice');
+  const bob = new CrdtDocument('bob');
+  expectConvergence([
+    alice.createOperation({ type: 'increment', path: ['score'], amount: 1 }),
+    alice.createOperation({ type: 'increment', path: ['score'], amount: 2 }),
+    bob.createOperation({ type: 'increment', path: ['score'], amount: -1 }),
+  ], { score: 2 });
+});
+
+test('Concurrent Pushes Are All Kept In The Same Order', () => {
+  const alice = new CrdtDocument('alice');
+  const bob = new CrdtDocument('bob');
+  expectConvergence([
+    alice.createOperation({ type: 'push', path: ['strokes'], value: 'a' }),
+    bob.createOperation({ type: 'push', path: ['strokes'], value: 'b' }),
+    bob.createOperation({ type: 'push', path: ['strokes'], value: 'c' }),
+  ], { strokes: ['a', 'b', 'c'] });
+});
+
+test('Set Without Value Removes Path', () => {
+  const alice = new CrdtDocument('alice');
+  expectConvergence([
+    alice.createOperation({ type: 'set', path: ['a'], value: 1 }),
+    alice.createOperation({ type: 'set', path: ['b'], value: 2 }),
+    alice.createOperation({ type: 'set', path: ['a'] }),
+  ], { b: 2 });
+});
+
+test('Duplicate Operations Are Ignored', () => {
+  const alice = new CrdtDocument('alice');
+  const operation = alice.createOperation({ type: 'increment', path: [], amount: 1 });
+  const document = new CrdtDocument('observer');
+  expect(document.apply(operation)).toBe(true);
+  expect(document.apply(operation)).toBe(false);
+  expect(document.getState()).toBe(1);
+});
+
+test('Overwritten Operations Are Not Kept In Snapshot', () => {
+  const alice = new CrdtDocument('alice');
+  alice.apply(alice.createOperation({ type: 'push', path: ['a'], value: 1 }));
+  alice.apply(alice.createOperation({ type: 'set', path: [], value: { b: 2 } }));
+  expect(alice.getSnapshot().length).toBe(1);
+});
+
+describe('CrdtGlobalStateController', () => {
+  let broker: InMemoryBroker;
+
+  const createController = () => {
+    const multiUser = new MultiUserController();
+    multiUser.setupTransport((connectionCallback, messageCallback) => new InMemoryTransport(
+      broker,
+      connectionCallback,
+      messageCallback,
+    ));
+    return new CrdtGlobalStateController('game', multiUser, () => {});
+  };
+
+  beforeEach(() => {
+    broker = new InMemoryBroker('crdt-test');
+  });
+
+  afterEach(() => {
+    broker.close();
+  });
+
+  test('Simultaneous Updates Converge', async () => {
+    const alice = createController();
+    const bob = createController();
+    await flushMessages();
+
+    alice.updateGlobalState('players/alice', { x: 1 });
+    bob.updateGlobalState('players/bob', { x: 2 });
+    alice.incrementGlobalState('turns', 1);
+    bob.incrementGlobalState('turns', 1);
+    await flushMessages();
+
+    const expected = {
+      players: {
+        alice: { x: 1 },
+        bob: { x: 2 },
+      },
+      turns: 2,
+    };
+    expect(alice.globalState).toEqual(expected);
+    expect(bob.globalState).toEqual(expected);
+  });
+
+  test('Late Joiner Receives Snapshot', async () => {
+    const alice = createController();
+    alice.pushGlobalState('strokes', [0, 0]);
+    alice.pushGlobalState('strokes', [1, 1]);
+    await flushMessages();
+
+    const bob = createController();
+    await flushMessages();
+    await flushMessages();
+
+    expect(bob.globalState).toEqual({ strokes: [[0, 0], [1, 1]] });
+  });
+});
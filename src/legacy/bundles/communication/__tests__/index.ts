@@ -1,8 +1,13 @@
 import { GlobalStateController } from '../GlobalStateController';
+import { getInMemoryBroker, InMemoryTransport } from '../InMemoryTransport';
 import { MultiUserController } from '../MultiUserController';
 
 const multiUser = new MultiUserController();
-multiUser.setupController('broker.hivemq.com', 8884, '', '');
+multiUser.setupTransport((connectionCallback, messageCallback) => new InMemoryTransport(
+  getInMemoryBroker('test'),
+  connectionCallback,
+  messageCallback,
+));
 const globalStateController = new GlobalStateController(
   'test',
   multiUser,
@@ -0,0 +1,78 @@
+import { InMemoryBroker, InMemoryTransport } from '../InMemoryTransport';
+import { MultiUserController } from '../MultiUserController';
+import { RpcController, RpcError } from '../RpcController';
+
+let broker: InMemoryBroker;
+let callerMultiUser: MultiUserController;
+let caller: RpcController;
+let callee: RpcController;
+
+const createMultiUser = () => {
+  const multiUser = new MultiUserController();
+  multiUser.setupTransport((connectionCallback, messageCallback) => new InMemoryTransport(
+    broker,
+    connectionCallback,
+    messageCallback,
+  ));
+  return multiUser;
+};
+
+beforeEach(() => {
+  broker = new InMemoryBroker('rpc-test');
+  callerMultiUser = createMultiUser();
+  caller = new RpcController('rpc', callerMultiUser, 'caller');
+  callee = new RpcController('rpc', createMultiUser(), 'callee');
+});
+
+afterEach(() => {
+  broker.close();
+});
+
+test('Call Resolves With Return Value', async () => {
+  callee.expose('add', (a: number, b: number) => a + b);
+  const callback = jest.fn();
+  await expect(caller.callFunction('callee', 'add', [1, 2], callback)).resolves.toBe(3);
+  expect(callback).toHaveBeenCalledWith(3);
+});
+
+test('Call Resolves With Awaited Return Value', async () => {
+  callee.expose('later', async () => 'done');
+  await expect(caller.callFunction('callee', 'later', [])).resolves.toBe('done');
+});
+
+test('Call Rejects With Remote Error', async () => {
+  callee.expose('fail', () => {
+    throw new TypeError('bad argument');
+  });
+  const call = caller.callFunction('callee', 'fail', []);
+  await expect(call).rejects.toBeInstanceOf(RpcError);
+  await expect(call).rejects.toMatchObject({
+    name: 'TypeError',
+    message: 'bad argument',
+  });
+});
+
+test('Call Rejects For Function Not Exposed', async () => {
+  callee.expose('add', (a: number, b: number) => a + b);
+  await expect(caller.callFunction('callee', 'subtract', [])).rejects.toThrow(
+    'Function "subtract" is not exposed by user "callee".',
+  );
+});
+
+test('Call To Offline User Times Out', async () => {
+  await expect(caller.callFunction('nobody', 'add', [], undefined, 20)).rejects.toThrow(
+    'Timed out after 20 ms waiting to call "add" on user "nobody". The user may be offline.',
+  );
+});
+
+test('Pending Calls Are Cancelled On Disconnect', async () => {
+  const call = caller.callFunction('nobody', 'add', []);
+  callerMultiUser.controller?.disconnect();
+  await expect(call).rejects.toThrow('Connection lost (Disconnected).');
+});
+
+test('Exposed Functions Can Be Listed', async () => {
+  callee.expose('add', (a: number, b: number) => a + b);
+  callee.expose('fail', () => {});
+  await expect(caller.listFunctions('callee')).resolves.toEqual(['add', 'fail']);
+});
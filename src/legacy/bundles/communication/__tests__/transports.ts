@@ -0,0 +1,105 @@
+import { GlobalStateController } from '../GlobalStateController';
+import { InMemoryBroker, InMemoryTransport } from '../InMemoryTransport';
+import { MultiUserController } from '../MultiUserController';
+import { RpcController } from '../RpcController';
+import { STATE_CONNECTED, topicMatches } from '../Transport';
+
+// Messages are delivered asynchronously
+const flushMessages = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+let broker: InMemoryBroker;
+
+const createMultiUser = () => {
+  const multiUser = new MultiUserController();
+  multiUser.setupTransport((connectionCallback, messageCallback) => new InMemoryTransport(
+    broker,
+    connectionCallback,
+    messageCallback,
+  ));
+  return multiUser;
+};
+
+beforeEach(() => {
+  broker = new InMemoryBroker('transports-test');
+});
+
+afterEach(() => {
+  broker.close();
+});
+
+test('Topic Matching', () => {
+  expect(topicMatches('a/b', 'a/b')).toBe(true);
+  expect(topicMatches('a/b', 'a/b/c')).toBe(false);
+  expect(topicMatches('a/+/c', 'a/b/c')).toBe(true);
+  expect(topicMatches('a/+', 'a/b/c')).toBe(false);
+  expect(topicMatches('a/#', 'a')).toBe(true);
+  expect(topicMatches('a/#', 'a/b/c')).toBe(true);
+  expect(topicMatches('a/#', 'b/c')).toBe(false);
+});
+
+test('In-Memory Transport Connects', () => {
+  const multiUser = createMultiUser();
+  expect(multiUser.connectionState).toBe(STATE_CONNECTED);
+});
+
+test('In-Memory Transport Delivers To Subscribers Only', async () => {
+  const received: string[] = [];
+  const subscriber = new InMemoryTransport(broker, () => {}, (topic) => received.push(topic));
+  subscriber.connect();
+  subscriber.subscribe('a/#');
+  const publisher = new InMemoryTransport(broker, () => {}, () => {});
+  publisher.connect();
+
+  publisher.publish('a/b', '1', false);
+  publisher.publish('c', '2', false);
+  await flushMessages();
+  expect(received).toEqual(['a/b']);
+
+  subscriber.disconnect();
+  publisher.publish('a/b', '3', false);
+  await flushMessages();
+  expect(received).toEqual(['a/b']);
+});
+
+test('In-Memory Transport Sends Retained Messages On Subscribe', async () => {
+  const publisher = new InMemoryTransport(broker, () => {}, () => {});
+  publisher.connect();
+  publisher.publish('a/b', 'retained', true);
+
+  const received: string[] = [];
+  const subscriber = new InMemoryTransport(broker, () => {}, (_, message) => received.push(message));
+  subscriber.connect();
+  subscriber.subscribe('a/#');
+  await flushMessages();
+  expect(received).toEqual(['retained']);
+});
+
+test('Global State Is Shared Between Devices', async () => {
+  const states: any[] = [];
+  const first = new GlobalStateController('game', createMultiUser(), () => {});
+  const second = new GlobalStateController('game', createMultiUser(), (state) => states.push(state));
+
+  first.updateGlobalState('', { score: 1 });
+  await flushMessages();
+  first.updateGlobalState('player/name', 'a');
+  await flushMessages();
+
+  expect(second.globalState).toEqual({
+    score: 1,
+    player: { name: 'a' },
+  });
+  expect(states.length).toBe(2);
+});
+
+test('RPC Calls Function On Other Device', async () => {
+  const callee = new RpcController('rpc', createMultiUser(), 'callee');
+  const caller = new RpcController('rpc', createMultiUser(), 'caller');
+  callee.expose('add', (a: number, b: number) => a + b);
+
+  const callback = jest.fn();
+  caller.callFunction('callee', 'add', [1, 2], callback);
+  await flushMessages();
+  await flushMessages();
+
+  expect(callback).toHaveBeenCalledWith(3);
+});
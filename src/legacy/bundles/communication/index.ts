@@ -5,6 +5,9 @@
  * 1. RPC - Call functions on another device.
  * 2. Global State - Maintain a global state on all devices.
  *
+ * Devices connect through an MQTT broker, a plain WebSocket server, or a
+ * broker in the browser for use without a network.
+ *
  * @module communication
  * @author Chong Wen Hao
  */
@@ -14,17 +17,23 @@ export {
   STATE_DISCONNECTED,
   STATE_OFFLINE,
   STATE_RECONNECTING,
-} from './MqttController';
+} from './Transport';
 
 export {
   initCommunications,
+  initLocalCommunications,
+  initWebSocketCommunications,
   initGlobalState,
+  initCrdtGlobalState,
   getGlobalState,
   updateGlobalState,
+  incrementGlobalState,
+  pushGlobalState,
   initRpc,
   getUserId,
   expose,
   callFunction,
+  getExposedFunctions,
   keepRunning,
   stopRunning,
 } from './Communications';
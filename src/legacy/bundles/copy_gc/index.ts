@@ -1,58 +1,39 @@
-import { COMMAND, type CommandHeapObject, type Memory, type MemoryHeaps, type Tag } from './types';
-
-// Global Variables
-let ROW: number = 10;
-const COLUMN: number = 32;
-let MEMORY_SIZE: number = -99;
+import {
+  assignCommand,
+  HeapTimeline,
+  popCommand,
+  pushCommand,
+  type HeapCommand,
+  type HeapTimelineData
+} from '../../common/heapTimeline';
+import { COMMAND, type CommandHeapObject, type MemoryHeaps, type Tag } from './types';
+
+const timeline = new HeapTimeline<CommandHeapObject>(
+  {
+    TAG_SLOT: 0,
+    SIZE_SLOT: 1,
+    FIRST_CHILD_SLOT: 2,
+    LAST_CHILD_SLOT: 3
+  },
+  ['flips']
+);
 let TO_SPACE: number;
 let FROM_SPACE: number;
-let memory: Memory;
-let memoryHeaps: Memory[] = [];
-const commandHeap: CommandHeapObject[] = [];
-let toMemoryMatrix: number[][];
-let fromMemoryMatrix: number[][];
-let tags: Tag[];
-let typeTag: string[];
-const flips: number[] = [];
-let TAG_SLOT: number = 0;
-let SIZE_SLOT: number = 1;
-let FIRST_CHILD_SLOT: number = 2;
-let LAST_CHILD_SLOT: number = 3;
-let ROOTS: number[] = [];
 
 function initialize_tag(allTag: number[], types: string[]): void {
-  tags = allTag;
-  typeTag = types;
+  timeline.setTags(allTag, types);
 }
 
 function allHeap(newHeap: number[][]): void {
-  memoryHeaps = newHeap;
+  timeline.memoryHeaps = newHeap;
 }
 
 function updateFlip(): void {
-  flips.push(commandHeap.length - 1);
+  timeline.mark('flips');
 }
 
 function generateMemory(): void {
-  toMemoryMatrix = [];
-  for (let i = 0; i < ROW / 2; i += 1) {
-    memory = [];
-    for (let j = 0; j < COLUMN && i * COLUMN + j < MEMORY_SIZE / 2; j += 1) {
-      memory.push(i * COLUMN + j);
-    }
-    toMemoryMatrix.push(memory);
-  }
-
-  fromMemoryMatrix = [];
-  for (let i = ROW / 2; i < ROW; i += 1) {
-    memory = [];
-    for (let j = 0; j < COLUMN && i * COLUMN + j < MEMORY_SIZE; j += 1) {
-      memory.push(i * COLUMN + j);
-    }
-    fromMemoryMatrix.push(memory);
-  }
-
-  const obj: CommandHeapObject = {
+  timeline.record({
     type: COMMAND.INIT,
     to: TO_SPACE,
     from: FROM_SPACE,
@@ -66,103 +47,106 @@ function generateMemory(): void {
     rightDesc: '',
     scan: -1,
     free: -1
-  };
-
-  commandHeap.push(obj);
+  });
 }
 
-function resetFromSpace(fromSpace, heap): number[] {
-  const newHeap: number[] = [];
-  if (fromSpace > 0) {
-    for (let i = 0; i < MEMORY_SIZE / 2; i += 1) {
-      newHeap.push(heap[i]);
-    }
-    for (let i = MEMORY_SIZE / 2; i < MEMORY_SIZE; i += 1) {
-      newHeap.push(0);
-    }
-  } else {
-    // to space between 0...M/2
-    for (let i = 0; i < MEMORY_SIZE / 2; i += 1) {
-      newHeap.push(0);
-    }
-    for (let i = MEMORY_SIZE / 2; i < MEMORY_SIZE; i += 1) {
-      newHeap.push(heap[i]);
-    }
-  }
-  return newHeap;
+function resetFromSpace(fromSpace: number, heap: number[]): number[] {
+  const half = timeline.memorySize / 2;
+  // Keeps the half of memory that is the to space, and clears the other half
+  return Array.from(
+    { length: timeline.memorySize },
+    (_, i) => ((fromSpace > 0) === (i < half) ? heap[i] : 0)
+  );
 }
 
 function initialize_memory(memorySize: number): void {
-  MEMORY_SIZE = memorySize;
-  ROW = MEMORY_SIZE / COLUMN;
+  timeline.initialize(memorySize, 1, [
+    { title: 'To Space', start: 0, end: memorySize / 2 },
+    { title: 'From Space', start: memorySize / 2, end: memorySize }
+  ]);
   TO_SPACE = 0;
-  FROM_SPACE = MEMORY_SIZE / 2;
+  FROM_SPACE = memorySize / 2;
   generateMemory();
 }
 
 function newCommand(
-  type,
-  toSpace,
-  fromSpace,
-  left,
-  right,
-  sizeLeft,
-  sizeRight,
-  heap,
-  description,
-  firstDesc,
-  lastDesc
+  type: COMMAND,
+  toSpace: number,
+  fromSpace: number,
+  left: number,
+  right: number,
+  sizeLeft: number,
+  sizeRight: number,
+  heap: number[],
+  description: string,
+  firstDesc: string,
+  lastDesc: string
 ): void {
-  const newType = type;
-  const newToSpace = toSpace;
-  const newFromSpace = fromSpace;
-  const newLeft = left;
-  const newRight = right;
-  const newSizeLeft = sizeLeft;
-  const newSizeRight = sizeRight;
-  const newDesc = description;
-  const newFirstDesc = firstDesc;
-  const newLastDesc = lastDesc;
-
-  memory = [];
-  for (let j = 0; j < heap.length; j += 1) {
-    memory.push(heap[j]);
-  }
-
-  const obj: CommandHeapObject = {
-    type: newType,
-    to: newToSpace,
-    from: newFromSpace,
-    heap: memory,
-    left: newLeft,
-    right: newRight,
-    sizeLeft: newSizeLeft,
-    sizeRight: newSizeRight,
-    desc: newDesc,
-    leftDesc: newFirstDesc,
-    rightDesc: newLastDesc,
+  timeline.record({
+    type,
+    to: toSpace,
+    from: fromSpace,
+    heap,
+    left,
+    right,
+    sizeLeft,
+    sizeRight,
+    desc: description,
+    leftDesc: firstDesc,
+    rightDesc: lastDesc,
     scan: -1,
     free: -1
-  };
-
-  commandHeap.push(obj);
+  });
+}
+
+/**
+ * Records a command in the same spaces as the previous command.
+ */
+function newSpaceCommand(
+  type: COMMAND,
+  left: number,
+  right: number,
+  sizeLeft: number,
+  sizeRight: number,
+  heap: number[],
+  description: string,
+  firstDesc: string,
+  lastDesc: string
+): void {
+  recordSpaceCommand({
+    type,
+    heap,
+    left,
+    right,
+    sizeLeft,
+    sizeRight,
+    desc: description,
+    leftDesc: firstDesc,
+    rightDesc: lastDesc
+  });
+}
+
+// Records a command in the same semispaces as the previous one
+function recordSpaceCommand(command: HeapCommand<COMMAND>): void {
+  const { to, from } = timeline.last()!;
+  timeline.record({
+    ...command,
+    to,
+    from,
+    scan: -1,
+    free: -1
+  });
 }
 
-function newCopy(left, right, heap): void {
-  const { length } = commandHeap;
-  const toSpace = commandHeap[length - 1].to;
-  const fromSpace = commandHeap[length - 1].from;
-  const newSizeLeft = heap[left + SIZE_SLOT];
-  const newSizeRight = heap[right + SIZE_SLOT];
+function newCopy(left: number, right: number, heap: number[]): void {
+  const { SIZE_SLOT } = timeline.slots;
   const desc = `Copying node ${left} to ${right}`;
-  newCommand(
+  newSpaceCommand(
     COMMAND.COPY,
-    toSpace,
-    fromSpace,
     left,
     right,
-    newSizeLeft,
-    newSizeRight,
+    heap[left + SIZE_SLOT],
+    heap[right + SIZE_SLOT],
     heap,
     desc,
     'index',
@@ -170,19 +154,13 @@ function newCopy(left, right, heap): void {
   );
 }
 
-function endFlip(left, heap): void {
-  const { length } = commandHeap;
-  const fromSpace = commandHeap[length - 1].from;
-  const toSpace = commandHeap[length - 1].to;
-  const newSizeLeft = heap[left + SIZE_SLOT];
+function endFlip(left: number, heap: number[]): void {
   const desc = 'Flip finished';
-  newCommand(
+  newSpaceCommand(
     COMMAND.FLIP,
-    toSpace,
-    fromSpace,
     left,
     -1,
-    newSizeLeft,
+    heap[left + timeline.slots.SIZE_SLOT],
     0,
     heap,
     desc,
@@ -192,20 +170,18 @@ function endFlip(left, heap): void {
   updateFlip();
 }
 
-function updateRoots(array): void {
-  for (let i = 0; i < array.length; i += 1) {
-    ROOTS.push(array[i]);
-  }
+function updateRoots(array: number[]): void {
+  timeline.roots.push(...array);
 }
 
 function resetRoots(): void {
-  ROOTS = [];
+  timeline.roots = [];
 }
 
-function startFlip(toSpace, fromSpace, heap): void {
+function startFlip(toSpace: number, fromSpace: number, heap: number[]): void {
   const desc = 'Memory is exhausted. Start stop and copy garbage collector.';
   newCommand(
-    'Start of Cheneys',
+    COMMAND.START,
     toSpace,
     fromSpace,
     -1,
@@ -220,55 +196,20 @@ function startFlip(toSpace, fromSpace, heap): void {
   updateFlip();
 }
 
-function newPush(left, right, heap): void {
-  const { length } = commandHeap;
-  const toSpace = commandHeap[length - 1].to;
-  const fromSpace = commandHeap[length - 1].from;
-  const desc = `Push OS update memory ${left} and ${right}.`;
-  newCommand(
-    COMMAND.PUSH,
-    toSpace,
-    fromSpace,
-    left,
-    right,
-    1,
-    1,
-    heap,
-    desc,
-    'last child address slot',
-    'new child pushed'
-  );
+function newPush(left: number, right: number, heap: number[]): void {
+  recordSpaceCommand(pushCommand(COMMAND.PUSH, left, right, heap));
 }
 
-function newPop(res, left, right, heap): void {
-  const { length } = commandHeap;
-  const toSpace = commandHeap[length - 1].to;
-  const fromSpace = commandHeap[length - 1].from;
-  const newRes = res;
-  const desc = `Pop OS from memory ${left}, with value ${newRes}.`;
-  newCommand(
-    COMMAND.POP,
-    toSpace,
-    fromSpace,
-    left,
-    right,
-    1,
-    1,
-    heap,
-    desc,
-    'popped memory',
-    'last child address slot'
-  );
+function newPop(res: number, left: number, right: number, heap: number[]): void {
+  recordSpaceCommand(popCommand(COMMAND.POP, res, left, right, heap));
 }
 
-function doneShowRoot(heap): void {
-  const toSpace = 0;
-  const fromSpace = 0;
+function doneShowRoot(heap: number[]): void {
   const desc = 'All root nodes are copied';
   newCommand(
-    'Copied Roots',
-    toSpace,
-    fromSpace,
+    COMMAND.COPIED_ROOTS,
+    0,
+    0,
     -1,
     -1,
     0,
@@ -280,19 +221,13 @@ function doneShowRoot(heap): void {
   );
 }
 
-function showRoots(left, heap): void {
-  const { length } = commandHeap;
-  const toSpace = commandHeap[length - 1].to;
-  const fromSpace = commandHeap[length - 1].from;
-  const newSizeLeft = heap[left + SIZE_SLOT];
+function showRoots(left: number, heap: number[]): void {
   const desc = `Roots: node ${left}`;
-  newCommand(
-    'Showing Roots',
-    toSpace,
-    fromSpace,
+  newSpaceCommand(
+    COMMAND.SHOW_ROOTS,
     left,
     -1,
-    newSizeLeft,
+    heap[left + timeline.slots.SIZE_SLOT],
     0,
     heap,
     desc,
@@ -301,40 +236,17 @@ function showRoots(left, heap): void {
   );
 }
 
-function newAssign(res, left, heap): void {
-  const { length } = commandHeap;
-  const toSpace = commandHeap[length - 1].to;
-  const fromSpace = commandHeap[length - 1].from;
-  const newRes = res;
-  const desc = `Assign memory [${left}] with ${newRes}.`;
-  newCommand(
-    COMMAND.ASSIGN,
-    toSpace,
-    fromSpace,
-    left,
-    -1,
-    1,
-    1,
-    heap,
-    desc,
-    'assigned memory',
-    ''
-  );
+function newAssign(res: number, left: number, heap: number[]): void {
+  recordSpaceCommand(assignCommand(COMMAND.ASSIGN, res, left, heap));
 }
 
-function newNew(left, heap): void {
-  const { length } = commandHeap;
-  const toSpace = commandHeap[length - 1].to;
-  const fromSpace = commandHeap[length - 1].from;
-  const newSizeLeft = heap[left + SIZE_SLOT];
+function newNew(left: number, heap: number[]): void {
   const desc = `New node starts in [${left}].`;
-  newCommand(
+  newSpaceCommand(
     COMMAND.NEW,
-    toSpace,
-    fromSpace,
     left,
     -1,
-    newSizeLeft,
+    heap[left + timeline.slots.SIZE_SLOT],
     0,
     heap,
     desc,
@@ -343,47 +255,38 @@ function newNew(left, heap): void {
   );
 }
 
-function scanFlip(left, right, scan, free, heap): void {
-  const { length } = commandHeap;
-  const toSpace = commandHeap[length - 1].to;
-  const fromSpace = commandHeap[length - 1].from;
-  memory = [];
-  for (let j = 0; j < heap.length; j += 1) {
-    memory.push(heap[j]);
-  }
-
-  const newLeft = left;
-  const newRight = right;
-  const newScan = scan;
-  const newFree = free;
-  let newDesc = `Scanning node at ${left} for children node ${scan} and ${free}`;
+function scanFlip(
+  left: number,
+  right: number,
+  scan: number,
+  free: number,
+  heap: number[]
+): void {
+  const { to, from } = timeline.last()!;
+  let desc = `Scanning node at ${left} for children node ${scan} and ${free}`;
   if (scan) {
-    if (free) {
-      newDesc = `Scanning node at ${left} for children node ${scan} and ${free}`;
-    } else {
-      newDesc = `Scanning node at ${left} for children node ${scan}`;
+    if (!free) {
+      desc = `Scanning node at ${left} for children node ${scan}`;
     }
   } else if (free) {
-    newDesc = `Scanning node at ${left} for children node ${free}`;
+    desc = `Scanning node at ${left} for children node ${free}`;
   }
 
-  const obj: CommandHeapObject = {
+  timeline.record({
     type: COMMAND.SCAN,
-    to: toSpace,
-    from: fromSpace,
-    heap: memory,
-    left: newLeft,
-    right: newRight,
+    to,
+    from,
+    heap,
+    left,
+    right,
     sizeLeft: 1,
     sizeRight: 1,
-    scan: newScan,
-    free: newFree,
-    desc: newDesc,
+    scan,
+    free,
+    desc,
     leftDesc: 'scan',
     rightDesc: 'free'
-  };
-
-  commandHeap.push(obj);
+  });
 }
 
 function updateSlotSegment(
@@ -392,38 +295,32 @@ function updateSlotSegment(
   first: number,
   last: number
 ): void {
-  if (tag >= 0) {
-    TAG_SLOT = tag;
-  }
-  if (size >= 0) {
-    SIZE_SLOT = size;
-  }
-  if (first >= 0) {
-    FIRST_CHILD_SLOT = first;
-  }
-  if (last >= 0) {
-    LAST_CHILD_SLOT = last;
-  }
+  timeline.updateSlots({
+    TAG_SLOT: tag,
+    SIZE_SLOT: size,
+    FIRST_CHILD_SLOT: first,
+    LAST_CHILD_SLOT: last
+  });
 }
 
 function get_memory_size(): number {
-  return MEMORY_SIZE;
+  return timeline.memorySize;
 }
 
 function get_tags(): Tag[] {
-  return tags;
+  return timeline.tags;
 }
 
 function get_command(): CommandHeapObject[] {
-  return commandHeap;
+  return timeline.commands;
 }
 
 function get_flips(): number[] {
-  return flips;
+  return timeline.markers.flips;
 }
 
 function get_types(): string[] {
-  return typeTag;
+  return timeline.types;
 }
 
 function get_from_space(): number {
@@ -431,23 +328,25 @@ function get_from_space(): number {
 }
 
 function get_memory_heap(): MemoryHeaps {
-  return memoryHeaps;
+  return timeline.memoryHeaps;
 }
 
 function get_to_memory_matrix(): MemoryHeaps {
-  return toMemoryMatrix;
+  const [toRegion] = timeline.regions;
+  return timeline.getMatrix(toRegion.start, toRegion.end);
 }
 
 function get_from_memory_matrix(): MemoryHeaps {
-  return fromMemoryMatrix;
+  const [, fromRegion] = timeline.regions;
+  return timeline.getMatrix(fromRegion.start, fromRegion.end);
 }
 
 function get_roots(): number[] {
-  return ROOTS;
+  return timeline.roots;
 }
 
 function get_slots(): number[] {
-  return [TAG_SLOT, SIZE_SLOT, FIRST_CHILD_SLOT, LAST_CHILD_SLOT];
+  return timeline.getSlotList();
 }
 
 function get_to_space(): number {
@@ -455,11 +354,15 @@ function get_to_space(): number {
 }
 
 function get_column_size(): number {
-  return COLUMN;
+  return timeline.column;
 }
 
 function get_row_size(): number {
-  return ROW;
+  return timeline.rows;
+}
+
+function get_timeline(): HeapTimelineData<CommandHeapObject> {
+  return timeline.toData();
 }
 
 function init() {
@@ -478,7 +381,8 @@ function init() {
     get_flips,
     get_slots,
     get_command,
-    get_roots
+    get_roots,
+    get_timeline
   };
 }
 
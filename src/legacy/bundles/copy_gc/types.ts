@@ -1,6 +1,6 @@
-export type Memory = number[];
-export type MemoryHeaps = Memory[];
-export type Tag = number;
+import type { HeapCommand, TimelineRules } from '../../common/heapTimeline';
+
+export type { Memory, MemoryHeaps, Tag } from '../../common/heapTimeline';
 
 // command type
 
@@ -12,21 +12,25 @@ export enum COMMAND {
   ASSIGN = 'Assign',
   NEW = 'New',
   SCAN = 'Scan',
+  START = 'Start of Cheneys',
+  SHOW_ROOTS = 'Showing Roots',
+  COPIED_ROOTS = 'Copied Roots',
   INIT = 'Initialize Memory',
 }
 
-export type CommandHeapObject = {
-  type: string;
+export type CommandHeapObject = HeapCommand<COMMAND> & {
   to: number;
   from: number;
-  heap: number[];
-  left: number;
-  right: number;
-  sizeLeft: number;
-  sizeRight: number;
-  desc: string;
   scan: number;
-  leftDesc: string;
-  rightDesc: string;
   free: number;
 };
+
+export const TIMELINE_RULES: TimelineRules = {
+  types: Object.values(COMMAND),
+  initType: COMMAND.INIT,
+  phases: [{
+    start: [COMMAND.START],
+    end: [COMMAND.FLIP],
+    inner: [COMMAND.COPY, COMMAND.SCAN]
+  }]
+};
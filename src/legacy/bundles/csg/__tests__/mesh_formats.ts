@@ -0,0 +1,147 @@
+import { geom3 } from '@jscad/modeling/src/geometries';
+import { cube, import_obj, import_stl, sphere, subtract, translate, union } from '../functions';
+import { isFileText, parseStl, shapesTo3mf, shapesToAmf, shapesToGltf, shapesToObj } from '../mesh_formats';
+import type { Shape } from '../utilities';
+
+const triangleCount = (text: string) => text.split('\n')
+  .filter((line) => line.startsWith('f '))
+  .length;
+
+const ASCII_STL = `solid triangle
+facet normal 0 0 1
+  outer loop
+    vertex 0 0 0
+    vertex 1 0 0
+    vertex 0 1 0
+  endloop
+endfacet
+endsolid triangle
+`;
+
+describe('OBJ', () => {
+  test('round trips a Shape', () => {
+    const obj = shapesToObj([cube('#ff0000')]);
+    // Six square faces, split into two triangles each
+    expect(triangleCount(obj))
+      .toEqual(12);
+    expect(geom3.toPolygons(import_obj(obj).solid, false))
+      .toHaveLength(12);
+  });
+
+  test('writes one part per color', () => {
+    const shape = union(cube('#ff0000'), translate(sphere('#0000ff'), 0.5, 0, 0) as Shape);
+    const obj = shapesToObj([shape]);
+    expect(obj.split('\n')
+      .filter((line) => line.startsWith('g ')))
+      .toEqual(['g part_1', 'g part_2']);
+  });
+
+  test('keeps vertex colors', () => {
+    const shape = import_obj(shapesToObj([cube('#ff0000')]));
+    geom3.toPolygons(shape.solid, false)
+      .forEach((polygon) => expect(polygon.color)
+        .toEqual([1, 0, 0, 1]));
+  });
+
+  test('reports the line of a missing vertex', () => {
+    expect(() => import_obj('v 0 0 0\nf 1 2 3\n'))
+      .toThrow('Failed to import, line 2 of the OBJ file refers to a missing vertex');
+  });
+});
+
+describe('STL', () => {
+  test('reads ASCII files', () => {
+    expect(geom3.toPolygons(import_stl(ASCII_STL).solid, false))
+      .toHaveLength(1);
+  });
+
+  test('reads binary files', () => {
+    const data = new Uint8Array(84 + 50);
+    const view = new DataView(data.buffer);
+    view.setUint32(80, 1, true);
+    [[0, 0, 0], [1, 0, 0], [0, 1, 0]].forEach((vertex, v) => vertex.forEach((value, axis) => view.setFloat32(84 + 12 + v * 12 + axis * 4, value, true)));
+
+    const [polygon] = geom3.toPolygons(parseStl(data), false);
+    expect(polygon.vertices.map((vertex) => Array.from(vertex)))
+      .toEqual([[0, 0, 0], [1, 0, 0], [0, 1, 0]]);
+  });
+
+  test('tells file text apart from URLs', () => {
+    expect(isFileText('solid triangle facet normal 0 0 1 outer loop vertex 0 0 0 vertex 1 0 0 vertex 0 1 0 endloop endfacet endsolid'))
+      .toBe(true);
+    expect(isFileText('# cube\nv 0 0 0'))
+      .toBe(true);
+    expect(isFileText('https://example.com/solid.stl'))
+      .toBe(false);
+    expect(isFileText('models/v 2.obj'))
+      .toBe(false);
+  });
+
+  test('imports single-line ASCII files', () => {
+    expect(geom3.toPolygons(import_stl(ASCII_STL.replace(/\s+/g, ' ')).solid, false))
+      .toHaveLength(1);
+  });
+
+  test('imports Shapes that work with boolean operations', () => {
+    const imported = import_obj(shapesToObj([cube('#ff0000')]));
+    expect(() => subtract(imported, sphere('#0000ff')))
+      .not
+      .toThrow();
+  });
+});
+
+test('3MF files are zip archives with a model part', () => {
+  const data = shapesTo3mf([cube('#ff0000')]);
+  const text = new TextDecoder()
+    .decode(data);
+  expect(Array.from(data.subarray(0, 4)))
+    .toEqual([0x50, 0x4b, 0x03, 0x04]);
+  expect(text)
+    .toContain('3D/3dmodel.model');
+  expect(text)
+    .toContain('displaycolor="#FF0000FF"');
+});
+
+test('AMF files have a volume and material per color', () => {
+  const shape = union(cube('#ff0000'), translate(cube('#0000ff'), 2, 0, 0) as Shape);
+  const amf = new DOMParser()
+    .parseFromString(shapesToAmf([shape]), 'application/xml');
+  const vertexCount = amf.querySelectorAll('vertices > vertex').length;
+  const volumes = Array.from(amf.querySelectorAll('volume'));
+
+  expect(vertexCount)
+    .toEqual(16);
+  expect(volumes.map((volume) => volume.getAttribute('materialid')))
+    .toEqual(['1', '2']);
+  volumes.forEach((volume) => expect(volume.querySelectorAll('triangle'))
+    .toHaveLength(12));
+  amf.querySelectorAll('triangle > *')
+    .forEach((index) => expect(Number(index.textContent))
+      .toBeLessThan(vertexCount));
+  expect(Array.from(amf.querySelectorAll('material'), (material) => material.getAttribute('id')))
+    .toEqual(['1', '2']);
+  expect(amf.querySelector('material[id="1"] r')!.textContent)
+    .toEqual('1');
+});
+
+test('glTF files embed a buffer that matches their accessors', () => {
+  const gltf = JSON.parse(shapesToGltf([cube('#ff0000')]));
+  const [buffer] = gltf.buffers;
+  const data = atob(buffer.uri.split(',')[1]);
+  const [positions, indices] = gltf.accessors;
+
+  expect(gltf.asset.version)
+    .toEqual('2.0');
+  expect(data.length)
+    .toEqual(buffer.byteLength);
+  expect(gltf.meshes[0].primitives)
+    .toEqual([{ attributes: { POSITION: 0 }, indices: 1, material: 0 }]);
+  expect([positions.count, indices.count])
+    .toEqual([8, 36]);
+  expect(gltf.bufferViews.map(({ byteOffset, byteLength }) => [byteOffset, byteLength]))
+    .toEqual([[0, 8 * 12], [8 * 12, 36 * 4]]);
+  expect([positions.min, positions.max])
+    .toEqual([[0, 0, 0], [1, 1, 1]]);
+  expect(gltf.materials[0].pbrMetallicRoughness.baseColorFactor)
+    .toEqual([1, 0, 0, 1]);
+});
@@ -0,0 +1,85 @@
+import { measureArea, measureBoundingBox, measureVolume } from '@jscad/modeling/src/measurements';
+import { list, pair } from 'js-slang/dist/stdlib/list';
+import {
+  circle,
+  extrude_from_slices,
+  extrude_linear,
+  extrude_rotate,
+  polygon,
+  rectangle,
+  sketch_subtract,
+  sketch_union,
+  union
+} from '../functions';
+
+const square = polygon(list(pair(0, 0), pair(0, 1), pair(1, 1), pair(1, 0)));
+
+describe('polygon', () => {
+  test('accepts points in either direction', () => {
+    expect(measureVolume(extrude_linear(square, 2, '#ff0000').solid))
+      .toBeCloseTo(2);
+  });
+
+  test('accepts points given as lists', () => {
+    const triangle = polygon(list(list(0, 0), list(1, 0), list(0, 1)));
+    expect(measureArea(triangle.outline))
+      .toBeCloseTo(0.5);
+  });
+
+  test('rejects points without an area', () => {
+    expect(() => polygon(list(pair(0, 0), pair(1, 1), pair(2, 2))))
+      .toThrow('Failed to create polygon, the points must enclose an area');
+  });
+});
+
+test('Sketches can be combined', () => {
+  const combined = sketch_union(rectangle(0, 0, 2, 1), rectangle(1, 0, 2, 1));
+  expect(measureArea(combined.outline))
+    .toBeCloseTo(3);
+
+  const cut = sketch_subtract(rectangle(0, 0, 2, 2), rectangle(0, 0, 1, 1));
+  expect(measureArea(cut.outline))
+    .toBeCloseTo(3);
+});
+
+test('extrude_linear starts from the XY-plane', () => {
+  const shape = extrude_linear(rectangle(1, 2, 3, 4), 5, '#ff0000');
+  expect(measureBoundingBox(shape.solid))
+    .toEqual([[1, 2, 0], [4, 6, 5]]);
+});
+
+test('extrude_rotate revolves about the z axis', () => {
+  // A full revolution of the square from x = 1 to 2 is a ring of volume 3π,
+  // slightly less as circles are drawn with straight sides
+  const ring = extrude_rotate(rectangle(1, 0, 1, 1), 2 * Math.PI, '#ff0000');
+  const [min, max] = measureBoundingBox(ring.solid);
+  expect(min[2])
+    .toBeCloseTo(0);
+  expect(max[2])
+    .toBeCloseTo(1);
+  expect(measureVolume(ring.solid) / (3 * Math.PI))
+    .toBeGreaterThan(0.99);
+});
+
+test('extrude_from_slices joins the slices', () => {
+  const frustum = extrude_from_slices((t) => circle(0, 0, 1 - t / 2), 2, 1, '#ff0000');
+  expect(measureBoundingBox(frustum.solid)[1][2])
+    .toBeCloseTo(1);
+  // Volume of a cone with radii 1 and 0.5, and height 1
+  expect(measureVolume(frustum.solid) / (7 * Math.PI / 12))
+    .toBeGreaterThan(0.98);
+
+  // Extruded Shapes work with the Shape operations
+  expect(() => union(frustum, extrude_linear(square, 1, '#0000ff')))
+    .not
+    .toThrow();
+});
+
+test('extrusions check their arguments', () => {
+  expect(() => extrude_linear(square, 0, '#ff0000'))
+    .toThrow('Failed to extrude, height must be greater than 0');
+  expect(() => extrude_from_slices(() => square, 1, 1, '#ff0000'))
+    .toThrow('Failed to extrude, number of slices must be an integer of at least 2');
+  expect(() => extrude_from_slices((() => 1) as any, 2, 1, '#ff0000'))
+    .toThrow('Failed to extrude, the slice function must return Sketches');
+});
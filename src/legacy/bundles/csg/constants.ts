@@ -3,6 +3,9 @@
 // Renderer default colour. Bright aquamarine makes bugs easier to spot
 export const DEFAULT_COLOR = '#55ffaa';
 
+// Number of sides used for circles and revolutions in Sketches
+export const SKETCH_SEGMENTS: number = 32;
+
 // Renderer grid constants
 export const MAIN_TICKS: number = 1;
 export const SUB_TICKS: number = MAIN_TICKS / 4;
@@ -1,7 +1,8 @@
 /* [Imports] */
 import { primitives } from '@jscad/modeling';
 import { colorize as colorSolid } from '@jscad/modeling/src/colors';
-import { geom3 } from '@jscad/modeling/src/geometries';
+import { geom2, geom3 } from '@jscad/modeling/src/geometries';
+import mat4 from '@jscad/modeling/src/maths/mat4';
 import {
   measureBoundingBox,
   type BoundingBox
@@ -11,25 +12,45 @@ import {
   subtract as _subtract,
   union as _union
 } from '@jscad/modeling/src/operations/booleans';
-import { extrudeLinear } from '@jscad/modeling/src/operations/extrusions';
+import {
+  extrudeFromSlices,
+  extrudeLinear,
+  extrudeRotate,
+  slice
+} from '@jscad/modeling/src/operations/extrusions';
+import type { Slice } from '@jscad/modeling/src/operations/extrusions/slice';
 import { serialize } from '@jscad/stl-serializer';
 import {
   head,
   list,
   tail,
   type List,
-  is_list
+  is_list,
+  is_pair
 } from 'js-slang/dist/stdlib/list';
 import save from 'save-file';
 import { degreesToRadians, hexToColor } from '../../common/utilities';
+import { SKETCH_SEGMENTS } from './constants';
 import { Core } from './core';
-import type { Solid } from './jscad/types';
+import type { Numbers2, Outline, Solid } from './jscad/types';
+import {
+  isFileText,
+  loadFileSync,
+  parseObj,
+  parseStl,
+  shapesTo3mf,
+  shapesToAmf,
+  shapesToGltf,
+  shapesToObj
+} from './mesh_formats';
 import {
   Group,
   Shape,
+  Sketch,
   type Operable,
   type RenderGroup,
-  centerPrimitive
+  centerPrimitive,
+  flattenOperable
 } from './utilities';
 
 /* [Main] */
@@ -530,6 +551,333 @@ export function scale(
   return operable.scale([xFactor, yFactor, zFactor]);
 }
 
+// [Functions - Sketches]
+
+function checkSketches(operation: string, ...sketches: Sketch[]): void {
+  if (!sketches.every((sketch) => sketch instanceof Sketch)) {
+    throw new Error(`Failed to ${operation}, only Sketches can be operated on`);
+  }
+}
+
+/**
+ * Returns a flat Sketch of the polygon with the specified corners, on the
+ * XY-plane.
+ *
+ * Each corner is a pair of its x and y coordinates, such as `pair(1, 0)`. The
+ * corners may go around the polygon in either direction, but its sides must
+ * not cross each other.
+ *
+ * ```js
+ * // Sample usage
+ * const triangle = polygon(list(pair(0, 0), pair(1, 0), pair(0, 1)));
+ * ```
+ *
+ * @param points list of corners
+ * @returns polygon Sketch
+ *
+ * @category Sketches
+ */
+export function polygon(points: List): Sketch {
+  if (!is_list(points)) {
+    throw new Error('Failed to create polygon, expected a list of points');
+  }
+
+  const corners: Numbers2[] = [];
+  for (let l = points; l !== null; l = tail(l)) {
+    const point: unknown = head(l);
+    // Points may also be given as lists, like list(1, 0)
+    const x: unknown = is_pair(point) ? head(point) : undefined;
+    const rest: unknown = is_pair(point) ? tail(point) : undefined;
+    const y: unknown = is_pair(rest) ? head(rest) : rest;
+    if (typeof x !== 'number' || typeof y !== 'number') {
+      throw new Error(
+        'Failed to create polygon, each point must be a pair of x and y coordinates'
+      );
+    }
+    corners.push([x, y]);
+  }
+  if (corners.length < 3) {
+    throw new Error('Failed to create polygon, at least 3 points are needed');
+  }
+
+  // Outlines go anticlockwise, or extruding them turns the Shape inside out
+  const doubleArea: number = corners.reduce(
+    (sum, [x1, y1], i) => {
+      const [x2, y2] = corners[(i + 1) % corners.length];
+      return sum + x1 * y2 - x2 * y1;
+    },
+    0
+  );
+  if (doubleArea === 0) {
+    throw new Error('Failed to create polygon, the points must enclose an area');
+  }
+  if (doubleArea < 0) corners.reverse();
+
+  return new Sketch(primitives.polygon({ points: corners }));
+}
+
+/**
+ * Returns a flat Sketch of a circle on the XY-plane.
+ *
+ * @param x x coordinate of the center
+ * @param y y coordinate of the center
+ * @param radius radius of the circle
+ * @returns circle Sketch
+ *
+ * @category Sketches
+ */
+export function circle(x: number, y: number, radius: number): Sketch {
+  if (radius <= 0) {
+    throw new Error('Failed to create circle, radius must be greater than 0');
+  }
+
+  return new Sketch(primitives.circle({
+    center: [x, y],
+    radius,
+    segments: SKETCH_SEGMENTS
+  }));
+}
+
+/**
+ * Returns a flat Sketch of a rectangle on the XY-plane, with sides parallel
+ * to the x and y axes.
+ *
+ * @param x x coordinate of the bottom left corner
+ * @param y y coordinate of the bottom left corner
+ * @param width length along the x axis
+ * @param height length along the y axis
+ * @returns rectangle Sketch
+ *
+ * @category Sketches
+ */
+export function rectangle(
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): Sketch {
+  if (width <= 0 || height <= 0) {
+    throw new Error(
+      'Failed to create rectangle, width and height must be greater than 0'
+    );
+  }
+
+  return new Sketch(primitives.rectangle({
+    center: [x + width / 2, y + height / 2],
+    size: [width, height]
+  }));
+}
+
+/**
+ * Returns the union of the two specified Sketches.
+ *
+ * @param first first Sketch
+ * @param second second Sketch
+ * @returns unioned Sketch
+ *
+ * @category Sketches
+ */
+export function sketch_union(first: Sketch, second: Sketch): Sketch {
+  checkSketches('union', first, second);
+
+  const outline: Outline = _union(first.outline, second.outline);
+  return new Sketch(outline);
+}
+
+/**
+ * Subtracts the second Sketch from the first Sketch, returning the resultant
+ * Sketch.
+ *
+ * @param target target Sketch to be subtracted from
+ * @param subtractedSketch Sketch to remove from the first Sketch
+ * @returns subtracted Sketch
+ *
+ * @category Sketches
+ */
+export function sketch_subtract(
+  target: Sketch,
+  subtractedSketch: Sketch
+): Sketch {
+  checkSketches('subtract', target, subtractedSketch);
+
+  const outline: Outline = _subtract(target.outline, subtractedSketch.outline);
+  return new Sketch(outline);
+}
+
+/**
+ * Returns the intersection of the two specified Sketches.
+ *
+ * @param first first Sketch
+ * @param second second Sketch
+ * @returns intersected Sketch
+ *
+ * @category Sketches
+ */
+export function sketch_intersect(first: Sketch, second: Sketch): Sketch {
+  checkSketches('intersect', first, second);
+
+  const outline: Outline = _intersect(first.outline, second.outline);
+  return new Sketch(outline);
+}
+
+/**
+ * Checks if the given parameter is a Sketch.
+ *
+ * @param parameter parameter to check
+ * @returns whether parameter is a Sketch
+ *
+ * @category Sketches
+ */
+export function is_sketch(parameter: unknown): boolean {
+  return parameter instanceof Sketch;
+}
+
+// [Functions - Extrusions]
+
+function checkExtrudable(sketch: Sketch): void {
+  checkSketches('extrude', sketch);
+  if (geom2.toSides(sketch.outline).length === 0) {
+    throw new Error('Failed to extrude, the Sketch is empty');
+  }
+}
+
+function toSlice(sketch: Sketch, z: number): Slice {
+  return slice.transform(
+    mat4.fromTranslation(mat4.create(), [0, 0, z]),
+    slice.fromSides(geom2.toSides(sketch.outline))
+  );
+}
+
+/**
+ * Extrudes the specified Sketch straight upwards, returning a Shape in the
+ * specified color.
+ *
+ * The Shape starts on the XY-plane and ends at the specified height.
+ *
+ * @param sketch Sketch to extrude
+ * @param height height of the Shape
+ * @param hex hex color code
+ * @returns extruded Shape
+ *
+ * @category Extrusions
+ */
+export function extrude_linear(
+  sketch: Sketch,
+  height: number,
+  hex: string
+): Shape {
+  checkExtrudable(sketch);
+  if (height <= 0) {
+    throw new Error('Failed to extrude, height must be greater than 0');
+  }
+
+  const solid: Solid = extrudeLinear({ height }, sketch.outline);
+  return new Shape(colorSolid(hexToColor(hex), solid));
+}
+
+/**
+ * Revolves the specified Sketch about the z axis by the specified angle, in
+ * radians (i.e. 2π represents a full revolution), returning a Shape in the
+ * specified color.
+ *
+ * The Sketch is first stood up, so that its x coordinates become distances
+ * from the z axis and its y coordinates become heights. Parts of the Sketch
+ * with negative x coordinates are flattened onto the axis, so Sketches should
+ * lie to the right of the y axis.
+ *
+ * ```js
+ * // Sample usage
+ * const ring = extrude_rotate(circle(1, 0, 0.25), 2 * math_PI, silver);
+ * ```
+ *
+ * @param sketch Sketch to revolve
+ * @param angle angle of revolution in radians
+ * @param hex hex color code
+ * @returns revolved Shape
+ *
+ * @category Extrusions
+ */
+export function extrude_rotate(
+  sketch: Sketch,
+  angle: number,
+  hex: string
+): Shape {
+  checkExtrudable(sketch);
+  if (angle <= 0) {
+    throw new Error('Failed to extrude, angle must be greater than 0');
+  }
+
+  const solid: Solid = extrudeRotate(
+    {
+      angle: Math.min(angle, 2 * Math.PI),
+      segments: SKETCH_SEGMENTS
+    },
+    sketch.outline
+  );
+  return new Shape(colorSolid(hexToColor(hex), solid));
+}
+
+/**
+ * Extrudes a Shape in the specified color upwards through a series of
+ * Sketches, joining each Sketch to the next with walls.
+ *
+ * The slice function is given a number from 0 to 1, which says how far up
+ * the Shape the slice is, and returns the Sketch to use there. The slices are
+ * spaced evenly from the XY-plane to the specified height. Walls join best
+ * when every slice has the same number of corners.
+ *
+ * ```js
+ * // Sample usage, for a vase that bulges in the middle
+ * const vase = extrude_from_slices(
+ *     t => circle(0, 0, 0.3 + 0.2 * math_sin(t * math_PI)),
+ *     16, 1, teal
+ * );
+ * ```
+ *
+ * @param slice_function function of type number → Sketch
+ * @param number_of_slices number of slices, at least 2
+ * @param height height of the Shape
+ * @param hex hex color code
+ * @returns extruded Shape
+ *
+ * @category Extrusions
+ */
+export function extrude_from_slices(
+  slice_function: (progress: number) => Sketch,
+  number_of_slices: number,
+  height: number,
+  hex: string
+): Shape {
+  if (typeof slice_function !== 'function') {
+    throw new Error('Failed to extrude, expected a function that returns Sketches');
+  }
+  if (!Number.isInteger(number_of_slices) || number_of_slices < 2) {
+    throw new Error('Failed to extrude, number of slices must be an integer of at least 2');
+  }
+  if (height <= 0) {
+    throw new Error('Failed to extrude, height must be greater than 0');
+  }
+
+  const sliceAt = (progress: number): Slice => {
+    const sketch: Sketch = slice_function(progress);
+    if (!(sketch instanceof Sketch)) {
+      throw new Error('Failed to extrude, the slice function must return Sketches');
+    }
+    checkExtrudable(sketch);
+    return toSlice(sketch, progress * height);
+  };
+
+  const solid: Solid = extrudeFromSlices(
+    {
+      numberOfSlices: number_of_slices,
+      // The first slice is the base, which gets its gaps repaired
+      callback: (progress: number, index: number, base: Slice) => (index === 0 ? base : sliceAt(progress))
+    },
+    sliceAt(0)
+  );
+  return new Shape(colorSolid(hexToColor(hex), solid));
+}
+
 // [Functions - Utilities]
 
 /**
@@ -696,6 +1044,144 @@ export async function download_shape_stl(shape: Shape): Promise<void> {
   );
 }
 
+function checkExportable(operable: Operable, format: string): Shape[] {
+  if (!(operable instanceof Shape || operable instanceof Group)) {
+    throw new Error(`Failed to export, only Operables can be converted to ${format}`);
+  }
+  return flattenOperable(operable);
+}
+
+/**
+ * Exports the specified Shape or Group as an OBJ file, downloaded to your
+ * device.
+ *
+ * The color of each vertex is written after its coordinates, which most
+ * modeling programs read as vertex colors.
+ *
+ * @param operable Shape or Group to export
+ *
+ * @category Utilities
+ */
+export async function download_shape_obj(operable: Operable): Promise<void> {
+  const shapes = checkExportable(operable, 'OBJ');
+
+  await save(
+    new Blob([shapesToObj(shapes)], { type: 'model/obj' }),
+    'Source Academy CSG Shape.obj'
+  );
+}
+
+/**
+ * Exports the specified Shape or Group as a 3MF file, downloaded to your
+ * device.
+ *
+ * The file keeps the colors of the Shapes, for use with slicers that print in
+ * multiple colors.
+ *
+ * @param operable Shape or Group to export
+ *
+ * @category Utilities
+ */
+export async function download_shape_3mf(operable: Operable): Promise<void> {
+  const shapes = checkExportable(operable, '3MF');
+
+  await save(
+    new Blob([shapesTo3mf(shapes)], { type: 'model/3mf' }),
+    'Source Academy CSG Shape.3mf'
+  );
+}
+
+/**
+ * Exports the specified Shape or Group as an AMF file, downloaded to your
+ * device.
+ *
+ * The file keeps the colors of the Shapes, for use with slicers that print in
+ * multiple colors.
+ *
+ * @param operable Shape or Group to export
+ *
+ * @category Utilities
+ */
+export async function download_shape_amf(operable: Operable): Promise<void> {
+  const shapes = checkExportable(operable, 'AMF');
+
+  await save(
+    new Blob([shapesToAmf(shapes)], { type: 'application/x-amf' }),
+    'Source Academy CSG Shape.amf'
+  );
+}
+
+/**
+ * Exports the specified Shape or Group as a glTF file, downloaded to your
+ * device.
+ *
+ * The file keeps the colors of the Shapes, and can be opened in 3D viewers,
+ * game engines and web pages.
+ *
+ * @param operable Shape or Group to export
+ *
+ * @category Utilities
+ */
+export async function download_shape_gltf(operable: Operable): Promise<void> {
+  const shapes = checkExportable(operable, 'glTF');
+
+  await save(
+    new Blob([shapesToGltf(shapes)], { type: 'model/gltf+json' }),
+    'Source Academy CSG Shape.gltf'
+  );
+}
+
+/**
+ * Imports the triangles of an STL file as a Shape, which can be operated on
+ * like any other Shape.
+ *
+ * The file is either loaded from a URL or given as the text of an ASCII STL
+ * file. Boolean operations only work as expected on closed meshes, and the
+ * Shape is drawn in the default color. The page does not respond while the
+ * file is loaded from a URL.
+ *
+ * @param url_or_text URL of the STL file, or its text
+ * @returns imported Shape
+ *
+ * @category Utilities
+ */
+export function import_stl(url_or_text: string): Shape {
+  if (typeof url_or_text !== 'string') {
+    throw new Error('Failed to import, expected a URL or the text of an STL file');
+  }
+
+  const solid: Solid = parseStl(
+    isFileText(url_or_text) ? url_or_text : loadFileSync(url_or_text)
+  );
+  return new Shape(solid);
+}
+
+/**
+ * Imports the faces of an OBJ file as a Shape, which can be operated on like
+ * any other Shape.
+ *
+ * The file is either loaded from a URL or given as its text. Vertex colors
+ * are kept, while materials and textures are not. Boolean operations only
+ * work as expected on closed meshes. The page does not respond while the file
+ * is loaded from a URL.
+ *
+ * @param url_or_text URL of the OBJ file, or its text
+ * @returns imported Shape
+ *
+ * @category Utilities
+ */
+export function import_obj(url_or_text: string): Shape {
+  if (typeof url_or_text !== 'string') {
+    throw new Error('Failed to import, expected a URL or the text of an OBJ file');
+  }
+
+  const text: string = isFileText(url_or_text)
+    ? url_or_text
+    : new TextDecoder()
+      .decode(loadFileSync(url_or_text));
+  return new Shape(parseObj(text));
+}
+
 // [Functions - Rendering]
 
 /**
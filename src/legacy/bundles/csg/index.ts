@@ -6,6 +6,11 @@
  * The main objects in use are called Shapes. Users can create, operate on,
  * transform, and finally render these Shapes.
  *
+ * Shapes can also be made from Sketches, which are flat outlines on the
+ * XY-plane. Sketches can be combined like Shapes, then extruded upwards,
+ * revolved about the z axis, or extruded through a series of Sketches to
+ * become Shapes.
+ *
  * There are also Groups, which contain Shapes, but can also contain other
  * nested Groups. Groups allow many Shapes to be transformed in tandem, as
  * opposed to having to call transform functions on each Shape individually.
@@ -111,6 +116,20 @@ export {
   rotate,
   scale,
 
+  // Sketches
+  polygon,
+  circle,
+  rectangle,
+  sketch_union,
+  sketch_subtract,
+  sketch_intersect,
+  is_sketch,
+
+  // Extrusions
+  extrude_linear,
+  extrude_rotate,
+  extrude_from_slices,
+
   // Utilities
   group,
   ungroup,
@@ -119,6 +138,12 @@ export {
   bounding_box,
   rgb,
   download_shape_stl,
+  download_shape_obj,
+  download_shape_3mf,
+  download_shape_amf,
+  download_shape_gltf,
+  import_stl,
+  import_obj,
 
   // Rendering
   render,
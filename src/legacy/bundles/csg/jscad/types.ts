@@ -1,6 +1,6 @@
 /* [Import] */
 import type { RGB, RGBA } from '@jscad/modeling/src/colors/types';
-import type { Geom3 } from '@jscad/modeling/src/geometries/types';
+import type { Geom2, Geom3 } from '@jscad/modeling/src/geometries/types';
 import { type cameras, type drawCommands, controls } from '@jscad/regl-renderer';
 import type makeDrawMultiGrid from '@jscad/regl-renderer/types/rendering/commands/drawGrid/multi';
 
@@ -219,6 +219,7 @@ export type ControlsState = Omit<
   };
 
 export type Solid = Geom3;
+export type Outline = Geom2;
 
 // @jscad\regl-renderer\src\geometry-utils-V2\entitiesFromSolids.js
 /*
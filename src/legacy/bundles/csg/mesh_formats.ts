@@ -0,0 +1,446 @@
+/* [Imports] */
+import { geom3, poly3 } from '@jscad/modeling/src/geometries';
+import type { Poly3 } from '@jscad/modeling/src/geometries/types';
+import { hexToColor } from '../../common/utilities';
+import { createZip } from '../../common/zip';
+import { DEFAULT_COLOR } from './constants';
+import type { AlphaColor, Coordinates, Solid } from './jscad/types';
+import type { Shape } from './utilities';
+
+/* [Main] */
+/* NOTE
+  Exports turn Shapes into triangle meshes with one part per color, as the
+  colors of a Shape are kept on its polygons once Shapes of different colors
+  are combined. Imports do the reverse, with one polygon per triangle.
+*/
+type MeshPart = {
+  color: AlphaColor;
+  vertices: Coordinates[];
+  // Indices into vertices, three per triangle
+  triangles: number[];
+};
+
+const formatNumber = (n: number) => `${Math.round(n * 1e6) / 1e6}`;
+
+const toHex = (value: number) => Math.round(value * 255)
+  .toString(16)
+  .padStart(2, '0');
+
+function toAlphaColor(color: number[] | undefined): AlphaColor {
+  const [r, g, b, a = 1] = color ?? hexToColor(DEFAULT_COLOR);
+  return [r, g, b, a];
+}
+
+function toMeshParts(shapes: Shape[]): MeshPart[] {
+  const parts = new Map<string, MeshPart & { indexOf: Map<string, number> }>();
+  shapes.forEach((shape: Shape) => {
+    geom3.toPolygons(shape.solid, true)
+      .forEach((polygon: Poly3) => {
+        const color = toAlphaColor(polygon.color);
+        const key = color.join(',');
+        let part = parts.get(key);
+        if (!part) {
+          part = {
+            color,
+            vertices: [],
+            triangles: [],
+            indexOf: new Map()
+          };
+          parts.set(key, part);
+        }
+
+        const { vertices, indexOf } = part;
+        const indices = polygon.vertices.map((vertex) => {
+          const vertexKey = vertex.join(',');
+          let index = indexOf.get(vertexKey);
+          if (index === undefined) {
+            index = vertices.length;
+            vertices.push([vertex[0], vertex[1], vertex[2]]);
+            indexOf.set(vertexKey, index);
+          }
+          return index;
+        });
+        // Polygons are convex, so they can be split into a fan of triangles
+        for (let i = 1; i < indices.length - 1; i += 1) {
+          part.triangles.push(indices[0], indices[i], indices[i + 1]);
+        }
+      });
+  });
+  return Array.from(parts.values())
+    .map(({ color, vertices, triangles }) => ({
+      color,
+      vertices,
+      triangles
+    }));
+}
+
+/* [Exports] */
+
+// [Exports - Serializers]
+
+/**
+ * Wavefront OBJ, with colors given after the coordinates of each vertex.
+ */
+export function shapesToObj(shapes: Shape[]): string {
+  const lines: string[] = ['# Source Academy CSG Shape'];
+  let offset = 1;
+  toMeshParts(shapes)
+    .forEach(({ color, vertices, triangles }, i) => {
+      const rgb = color.slice(0, 3)
+        .map(formatNumber)
+        .join(' ');
+      lines.push(`g part_${i + 1}`);
+      vertices.forEach((vertex) => {
+        lines.push(`v ${vertex.map(formatNumber)
+          .join(' ')} ${rgb}`);
+      });
+      for (let t = 0; t < triangles.length; t += 3) {
+        lines.push(`f ${triangles[t] + offset} ${triangles[t + 1] + offset} ${triangles[t + 2] + offset}`);
+      }
+      offset += vertices.length;
+    });
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * 3D Manufacturing Format, a zip archive holding one object that uses a
+ * material for each color.
+ */
+export function shapesTo3mf(shapes: Shape[]): Uint8Array<ArrayBuffer> {
+  const parts = toMeshParts(shapes);
+  const materials = parts.map(({ color }, i) => `<base name="Color ${i + 1}" displaycolor="#${color.map(toHex)
+    .join('')
+    .toUpperCase()}"/>`);
+  const vertices: string[] = [];
+  const triangles: string[] = [];
+  parts.forEach((part, i) => {
+    const offset = vertices.length;
+    part.vertices.forEach(([x, y, z]) => {
+      vertices.push(`<vertex x="${formatNumber(x)}" y="${formatNumber(y)}" z="${formatNumber(z)}"/>`);
+    });
+    for (let t = 0; t < part.triangles.length; t += 3) {
+      triangles.push(`<triangle v1="${part.triangles[t] + offset}" v2="${part.triangles[t + 1] + offset}" v3="${part.triangles[t + 2] + offset}" pid="1" p1="${i}"/>`);
+    }
+  });
+
+  const model = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<model unit="millimeter" xml:lang="en-US" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02">',
+    '<resources>',
+    `<basematerials id="1">${materials.join('')}</basematerials>`,
+    '<object id="2" type="model" pid="1" pindex="0"><mesh>',
+    `<vertices>${vertices.join('\n')}</vertices>`,
+    `<triangles>${triangles.join('\n')}</triangles>`,
+    '</mesh></object>',
+    '</resources>',
+    '<build><item objectid="2"/></build>',
+    '</model>'
+  ].join('\n');
+  const contentTypes = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">',
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>',
+    '<Default Extension="model" ContentType="application/vnd.ms-package.3dmanufacturing-3dmodel+xml"/>',
+    '</Types>'
+  ].join('\n');
+  const relationships = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+    '<Relationship Target="/3D/3dmodel.model" Id="rel0" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel"/>',
+    '</Relationships>'
+  ].join('\n');
+
+  const encoder = new TextEncoder();
+  return createZip([
+    {
+      name: '[Content_Types].xml',
+      data: encoder.encode(contentTypes)
+    },
+    {
+      name: '_rels/.rels',
+      data: encoder.encode(relationships)
+    },
+    {
+      name: '3D/3dmodel.model',
+      data: encoder.encode(model)
+    }
+  ]);
+}
+
+/**
+ * Additive Manufacturing File Format, with one volume and material per color.
+ */
+export function shapesToAmf(shapes: Shape[]): string {
+  const parts = toMeshParts(shapes);
+  const vertices: string[] = [];
+  const volumes: string[] = [];
+  parts.forEach((part, i) => {
+    const offset = vertices.length;
+    part.vertices.forEach(([x, y, z]) => {
+      vertices.push(`<vertex><coordinates><x>${formatNumber(x)}</x><y>${formatNumber(y)}</y><z>${formatNumber(z)}</z></coordinates></vertex>`);
+    });
+    const triangles: string[] = [];
+    for (let t = 0; t < part.triangles.length; t += 3) {
+      triangles.push(`<triangle><v1>${part.triangles[t] + offset}</v1><v2>${part.triangles[t + 1] + offset}</v2><v3>${part.triangles[t + 2] + offset}</v3></triangle>`);
+    }
+    // Material 0 is reserved, so materials are numbered from 1
+    volumes.push(`<volume materialid="${i + 1}">\n${triangles.join('\n')}\n</volume>`);
+  });
+  const materials = parts.map(({ color: [r, g, b, a] }, i) => `<material id="${i + 1}"><color><r>${formatNumber(r)}</r><g>${formatNumber(g)}</g><b>${formatNumber(b)}</b><a>${formatNumber(a)}</a></color></material>`);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<amf unit="millimeter" version="1.1">',
+    '<object id="0"><mesh>',
+    `<vertices>\n${vertices.join('\n')}\n</vertices>`,
+    ...volumes,
+    '</mesh></object>',
+    ...materials,
+    '</amf>'
+  ].join('\n');
+}
+
+/**
+ * glTF 2.0 with its buffer embedded, using a primitive and material per color.
+ * glTF is y-up, so the mesh is turned to keep the z axis of the Shape upwards.
+ */
+export function shapesToGltf(shapes: Shape[]): string {
+  const parts = toMeshParts(shapes);
+  const byteLength = parts.reduce((total, { vertices, triangles }) => total + vertices.length * 12 + triangles.length * 4, 0);
+  const buffer = new ArrayBuffer(byteLength);
+  const bufferViews: object[] = [];
+  const accessors: object[] = [];
+  const primitives: object[] = [];
+  // Colors are linear in glTF, but sRGB everywhere else
+  const toLinear = (c: number) => (c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4);
+
+  let byteOffset = 0;
+  parts.forEach(({ vertices, triangles }, i) => {
+    const positions = new Float32Array(buffer, byteOffset, vertices.length * 3);
+    const min = [Infinity, Infinity, Infinity];
+    const max = [-Infinity, -Infinity, -Infinity];
+    vertices.forEach((vertex, v) => {
+      positions.set(vertex, v * 3);
+      // Bounds must match the stored values, so they are taken after rounding
+      for (let axis = 0; axis < 3; axis += 1) {
+        min[axis] = Math.min(min[axis], positions[v * 3 + axis]);
+        max[axis] = Math.max(max[axis], positions[v * 3 + axis]);
+      }
+    });
+    bufferViews.push({
+      buffer: 0,
+      byteOffset,
+      byteLength: positions.byteLength,
+      target: 34962
+    });
+    byteOffset += positions.byteLength;
+
+    const indices = new Uint32Array(buffer, byteOffset, triangles.length);
+    indices.set(triangles);
+    bufferViews.push({
+      buffer: 0,
+      byteOffset,
+      byteLength: indices.byteLength,
+      target: 34963
+    });
+    byteOffset += indices.byteLength;
+
+    accessors.push(
+      {
+        bufferView: i * 2,
+        componentType: 5126,
+        count: vertices.length,
+        type: 'VEC3',
+        min,
+        max
+      },
+      {
+        bufferView: i * 2 + 1,
+        componentType: 5125,
+        count: triangles.length,
+        type: 'SCALAR'
+      }
+    );
+    primitives.push({
+      attributes: { POSITION: i * 2 },
+      indices: i * 2 + 1,
+      material: i
+    });
+  });
+
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+
+  return JSON.stringify({
+    asset: {
+      version: '2.0',
+      generator: 'Source Academy CSG'
+    },
+    scene: 0,
+    scenes: [{ nodes: [0] }],
+    nodes: [{
+      mesh: 0,
+      rotation: [-Math.SQRT1_2, 0, 0, Math.SQRT1_2]
+    }],
+    meshes: [{ primitives }],
+    materials: parts.map(({ color: [r, g, b, a] }) => ({
+      pbrMetallicRoughness: {
+        baseColorFactor: [toLinear(r), toLinear(g), toLinear(b), a],
+        metallicFactor: 0,
+        roughnessFactor: 1
+      },
+      alphaMode: a < 1 ? 'BLEND' : 'OPAQUE',
+      doubleSided: true
+    })),
+    accessors,
+    bufferViews,
+    buffers: [{
+      byteLength,
+      uri: `data:application/octet-stream;base64,${btoa(binary)}`
+    }]
+  });
+}
+
+// [Exports - Parsers]
+
+function toSolid(triangles: Coordinates[][], colors?: (AlphaColor | undefined)[]): Solid {
+  const polygons: Poly3[] = [];
+  triangles.forEach(([a, b, c], i) => {
+    // Skip triangles without area, which have no plane for boolean operations
+    const u = [b[0] - a[0], b[1] - a[1], b[2] - a[2]];
+    const v = [c[0] - a[0], c[1] - a[1], c[2] - a[2]];
+    const normal = [u[1] * v[2] - u[2] * v[1], u[2] * v[0] - u[0] * v[2], u[0] * v[1] - u[1] * v[0]];
+    if (normal.every((n) => n === 0)) return;
+
+    const polygon = poly3.create([a, b, c]);
+    const color = colors?.[i];
+    polygons.push(color ? {
+      ...polygon,
+      color
+    } : polygon);
+  });
+  if (polygons.length === 0) {
+    throw new Error('Failed to import, the file has no triangles');
+  }
+  return geom3.create(polygons);
+}
+
+/**
+ * Reads an STL file, either binary or ASCII. ASCII files may also be given as
+ * their text.
+ */
+export function parseStl(data: Uint8Array | string): Solid {
+  if (typeof data !== 'string') {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const count = data.byteLength >= 84 ? view.getUint32(80, true) : -1;
+    if (data.byteLength === 84 + count * 50) {
+      const triangles: Coordinates[][] = [];
+      for (let t = 0; t < count; t += 1) {
+        // Each triangle is a normal, three vertices and two bytes of attributes
+        const start = 84 + t * 50 + 12;
+        triangles.push([0, 1, 2].map((v) => [0, 1, 2].map((axis) => view.getFloat32(start + v * 12 + axis * 4, true)) as Coordinates));
+      }
+      return toSolid(triangles);
+    }
+    return parseStl(new TextDecoder()
+      .decode(data));
+  }
+
+  const number = '([-+]?(?:\\d+\\.?\\d*|\\.\\d+)(?:[eE][-+]?\\d+)?)';
+  const vertexPattern = new RegExp(`vertex\\s+${number}\\s+${number}\\s+${number}`, 'g');
+  const vertices = Array.from(data.matchAll(vertexPattern), (match) => [Number(match[1]), Number(match[2]), Number(match[3])] as Coordinates);
+  if (vertices.length % 3 !== 0) {
+    throw new Error('Failed to import, the STL file has an incomplete triangle');
+  }
+  const triangles: Coordinates[][] = [];
+  for (let i = 0; i < vertices.length; i += 3) {
+    triangles.push(vertices.slice(i, i + 3));
+  }
+  return toSolid(triangles);
+}
+
+/**
+ * Reads the vertices and faces of an OBJ file. Vertex colors are averaged into
+ * the color of each face, while materials and texture coordinates are ignored.
+ */
+export function parseObj(text: string): Solid {
+  const vertices: Coordinates[] = [];
+  const vertexColors: (AlphaColor | undefined)[] = [];
+  const triangles: Coordinates[][] = [];
+  const colors: (AlphaColor | undefined)[] = [];
+
+  text.split(/\r?\n/)
+    .forEach((line, lineNumber) => {
+      const [keyword, ...values] = line.trim()
+        .split(/\s+/);
+      if (keyword === 'v') {
+        const numbers = values.map(Number);
+        if (numbers.length < 3 || numbers.some(Number.isNaN)) {
+          throw new Error(`Failed to import, line ${lineNumber + 1} of the OBJ file is not a valid vertex`);
+        }
+        vertices.push([numbers[0], numbers[1], numbers[2]]);
+        vertexColors.push(numbers.length >= 6 ? [numbers[3], numbers[4], numbers[5], 1] : undefined);
+      } else if (keyword === 'f') {
+        // Each value is vertex/texture/normal, and negative indices count from the end
+        const indices = values.map((value) => {
+          const index = parseInt(value.split('/')[0], 10);
+          const resolved = index < 0 ? vertices.length + index : index - 1;
+          if (Number.isNaN(index) || resolved < 0 || resolved >= vertices.length) {
+            throw new Error(`Failed to import, line ${lineNumber + 1} of the OBJ file refers to a missing vertex`);
+          }
+          return resolved;
+        });
+        for (let i = 1; i < indices.length - 1; i += 1) {
+          const corners = [indices[0], indices[i], indices[i + 1]];
+          triangles.push(corners.map((index) => vertices[index]));
+          const cornerColors = corners.map((index) => vertexColors[index]);
+          colors.push(cornerColors.every((color) => color !== undefined)
+            ? [0, 1, 2, 3].map((channel) => cornerColors.reduce((sum, color) => sum + color![channel], 0) / 3) as AlphaColor
+            : undefined);
+        }
+      }
+    });
+  return toSolid(triangles, colors);
+}
+
+// [Exports - Loading]
+
+/**
+ * Whether a string given to an import function is the file itself rather than
+ * a URL. ASCII STL files start with `solid`, and OBJ files have vertex or face
+ * lines, neither of which a URL has.
+ */
+export function isFileText(urlOrText: string): boolean {
+  return /^\s*solid(\s|$)/.test(urlOrText) || /^\s*[vf]\s/m.test(urlOrText);
+}
+
+/**
+ * Loads a file synchronously, as Shapes are returned straight away by the
+ * import functions. The page does not respond until the file has loaded, so
+ * large files and slow servers freeze it for a while.
+ */
+export function loadFileSync(url: string): Uint8Array {
+  const request = new XMLHttpRequest();
+  try {
+    request.open('GET', url, false);
+    // Keeps every byte of binary files as one character of the response
+    request.overrideMimeType('text/plain; charset=x-user-defined');
+    request.send();
+  } catch {
+    throw new Error(`Failed to import, unable to load ${url}`);
+  }
+  // Local and data URLs have a status of 0
+  if (request.status !== 200 && request.status !== 0) {
+    throw new Error(`Failed to import, loading ${url} gave status ${request.status}`);
+  }
+
+  const text = request.responseText;
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i += 1) {
+    bytes[i] = text.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+}
@@ -41,6 +41,20 @@ import {
     rotate,
     scale,
 
+    // Sketch
+    polygon,
+    circle,
+    rectangle,
+    sketch_union,
+    sketch_subtract,
+    sketch_intersect,
+    is_sketch,
+
+    // Extrusion
+    extrude_linear,
+    extrude_rotate,
+    extrude_from_slices,
+
     // Utility
     group,
     ungroup,
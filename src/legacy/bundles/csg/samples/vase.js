@@ -0,0 +1,36 @@
+// Source §2
+// Vase with handles, built from Sketches
+
+import {
+    teal, orange,
+    circle,
+    extrude_from_slices, extrude_rotate,
+    union, subtract, rotate, translate,
+    render_grid_axes
+} from "csg";
+
+function radius_at(t) {
+    return 0.25 + 0.1 * math_sin(t * 1.5 * math_PI);
+}
+
+const body = extrude_from_slices(
+    t => circle(0, 0, radius_at(t)),
+    24, 1, teal
+);
+const hollow = extrude_from_slices(
+    t => circle(0, 0, radius_at(t) - 0.03),
+    24, 1, teal
+);
+const vase = subtract(body, translate(hollow, 0, 0, 0.05));
+
+// Half a ring, turned to face +x, then stood upright
+const half_ring = extrude_rotate(circle(0.1, 0, 0.02), math_PI, orange);
+const handle = rotate(rotate(half_ring, 0, 0, -math_PI / 2), math_PI / 2, 0, 0);
+
+render_grid_axes(union(
+    vase,
+    union(
+        translate(handle, radius_at(0.6), 0, 0.6),
+        translate(rotate(handle, 0, 0, math_PI), -radius_at(0.6), 0, 0.6)
+    )
+));
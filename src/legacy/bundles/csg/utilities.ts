@@ -1,4 +1,5 @@
 /* [Imports] */
+import geom2 from '@jscad/modeling/src/geometries/geom2';
 import geom3, {
   transform as _transform
 } from '@jscad/modeling/src/geometries/geom3';
@@ -12,7 +13,7 @@ import {
 import { hexToColor } from '../../common/utilities';
 import type { ReplResult } from '../../typings/type_helpers';
 import { Core } from './core';
-import type { AlphaColor, Color, Solid } from './jscad/types';
+import type { AlphaColor, Color, Outline, Solid } from './jscad/types';
 
 /* [Exports] */
 export interface Operable {
@@ -132,6 +133,16 @@ export class Shape implements Operable, ReplResult {
   }
 }
 
+// Sketches are flat and only become Shapes once extruded, so they are not
+// Operables and cannot be rendered
+export class Sketch implements ReplResult {
+  constructor(public outline: Outline = geom2.create()) {}
+
+  toReplString(): string {
+    return '<Sketch>';
+  }
+}
+
 export class RenderGroup implements ReplResult {
   render: boolean = false;
   hasGrid: boolean = true;
@@ -208,6 +219,16 @@ export class CsgModuleState {
   }
 }
 
+// Returns the Shapes within an Operable, with the transforms of any Groups
+// applied to them
+export function flattenOperable(operable: Operable): Shape[] {
+  if (operable instanceof Shape) {
+    return [operable];
+  }
+  return (operable as Group).ungroup()
+    .flatMap(flattenOperable);
+}
+
 export function centerPrimitive(shape: Shape) {
   // Move centre of Shape to 0.5, 0.5, 0.5
   const solid: Solid = _center(
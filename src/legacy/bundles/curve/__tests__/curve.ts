@@ -1,6 +1,16 @@
 import { stringify } from 'js-slang/dist/utils/stringify';
-import { generateCurve, type Curve } from '../curves_webgl';
-import { animate_3D_curve, animate_curve, draw_3D_connected, draw_connected, make_point } from '../functions';
+import { generateCurve, generateSurface, type Curve } from '../curves_webgl';
+import {
+  animate_3D_curve,
+  animate_curve,
+  draw_3D_connected,
+  draw_connected,
+  draw_surface,
+  draw_surface_wireframe,
+  make_3D_point,
+  make_point,
+  save_animation
+} from '../functions';
 
 function evalCurve(curve: Curve, numPoints: number) {
   generateCurve('none', 'points', numPoints, curve, '2D', false);
@@ -21,6 +31,32 @@ test('Using 2D render functions with animate_3D_curve should throw errors', () =
     .toThrowErrorMatchingInlineSnapshot('"animate_3D_curve cannot be used with 2D draw function!"');
 });
 
+test('save_animation only accepts the supported formats', () => {
+  const anim = animate_curve(1, 60, draw_connected(200), (t0) => (t1) => make_point(t0, t1));
+  expect(() => save_animation(anim, 'mp4'))
+    .toThrowErrorMatchingInlineSnapshot('"save_animation expects the format to be one of "gif", "png", "webm""');
+});
+
 test('Render functions have nice string representations', () => {
   expect(stringify(draw_connected(200))).toEqual('<RenderFunction(200)>');
 });
+
+test('Ensure that invalid surfaces error gracefully', () => {
+  expect(() => generateSurface('fit', 'shaded', 2, 2, () => 1 as any))
+    .toThrowErrorMatchingInlineSnapshot('"Expected surface to return a point, got \'1\' at u=0, v=0"');
+});
+
+test('Surfaces are sampled on a grid', () => {
+  const plane = (u: number, v: number) => make_3D_point(u, v, 0);
+  // Two triangles for each of the 2 x 3 cells
+  expect(draw_surface(2, 3)(plane).numVertices).toEqual(36);
+  // Lines of constant u: 3 x 3 segments, lines of constant v: 2 x 4 segments
+  expect(draw_surface_wireframe(2, 3)(plane).numVertices).toEqual(34);
+});
+
+test('Surface draw functions expect positive integer sample counts', () => {
+  expect(() => draw_surface(0, 10))
+    .toThrowErrorMatchingInlineSnapshot('"draw_surface expects the numbers of samples to be positive integers"');
+  expect(() => draw_surface_wireframe(10, 1.5))
+    .toThrowErrorMatchingInlineSnapshot('"draw_surface_wireframe expects the numbers of samples to be positive integers"');
+});
@@ -0,0 +1,65 @@
+import { list_to_vector } from 'js-slang/dist/stdlib/list';
+import { curveToSvg, getCurvePoints } from '../curves_export';
+import type { Point } from '../curves_webgl';
+import { curve_points, curve_to_svg, make_color_point, make_point, unit_line } from '../functions';
+
+const coordinates = (points: { x: number, y: number }[]) => points.map(({ x, y }) => [x, y]);
+
+const getPolylines = (svg: string) => Array.from(svg.matchAll(/<polyline points="([^"]*)" fill="none" stroke="([^"]*)"/g))
+  .map(([, points, stroke]) => ({
+    points: points.split(' ')
+      .map(point => point.split(',')
+        .map(Number)),
+    stroke
+  }));
+
+test('curve_points returns the sample points as a list', () => {
+  expect(coordinates(list_to_vector(curve_points(unit_line, 2)) as Point[]))
+    .toEqual([[0, 0], [0.5, 0], [1, 0]]);
+});
+
+test('getCurvePoints scales points like the draw functions', () => {
+  const curve = (t: number) => make_point(2 * t, t);
+
+  // Proportional, so the x extent with padding fills the square
+  const fit = coordinates(getCurvePoints(curve, 1, 'fit'));
+  expect(fit[0][0])
+    .toBeCloseTo(0.05 / 1.1);
+  expect(fit[1][0])
+    .toBeCloseTo(1.05 / 1.1);
+  expect(fit[1][1] - fit[0][1])
+    .toBeCloseTo(0.5 / 1.1);
+
+  // Stretched, so both extents fill the square
+  const stretch = coordinates(getCurvePoints(curve, 1, 'stretch'));
+  expect(stretch[0][1])
+    .toBeCloseTo(0.05 / 1.1);
+  expect(stretch[1][1])
+    .toBeCloseTo(1.05 / 1.1);
+});
+
+test('curveToSvg joins lines of the same colour into one polyline', () => {
+  const curve = (t: number) => (t < 0.5
+    ? make_color_point(t, t, 255, 0, 0)
+    : make_color_point(t, 1 - t, 0, 0, 255));
+  const polylines = getPolylines(curveToSvg(curve, 4, 'none', 100));
+
+  expect(polylines)
+    .toEqual([
+      {
+        points: [[0, 100], [25, 75], [50, 50]],
+        stroke: 'rgb(255,0,0)'
+      },
+      {
+        points: [[50, 50], [75, 75], [100, 100]],
+        stroke: 'rgb(0,0,255)'
+      }
+    ]);
+});
+
+test('curve_to_svg checks its arguments', () => {
+  expect(() => curve_to_svg(unit_line, 0))
+    .toThrowErrorMatchingInlineSnapshot('"curve_to_svg expects the number of points to be a positive integer"');
+  expect(() => curve_to_svg(unit_line, 10, 'zoom'))
+    .toThrowErrorMatchingInlineSnapshot('"curve_to_svg expects the scale mode to be one of "fit", "stretch", "none""');
+});
@@ -0,0 +1,87 @@
+/**
+ * This file contains the module's private functions that export Curves as
+ * point lists and image files.
+ */
+import save from 'save-file';
+import { type Curve, Point, sampleCurve } from './curves_webgl';
+import type { ScaleMode } from './types';
+
+export const SCALE_MODES: ScaleMode[] = ['fit', 'stretch', 'none'];
+
+const formatNumber = (n: number) => `${Math.round(n * 1000) / 1000}`;
+
+const toSvgColor = ([r, g, b]: number[]) => `rgb(${[r, g, b].map((c) => Math.round(c * 255))
+  .join(',')})`;
+
+/**
+ * Samples a Curve the way the 2D draw functions do, and returns the points
+ * where they are drawn, in the square from (0, 0) to (1, 1) that the display
+ * shows. z coordinates and colors are left as they are.
+ * @param curve - The Curve to sample
+ * @param numPoints - Number of intervals between the `numPoints + 1` sample points
+ * @param scaleMode - How the draw function scales the Curve
+ */
+export function getCurvePoints(curve: Curve, numPoints: number, scaleMode: ScaleMode): Point[] {
+  const { points, curvePosArray } = sampleCurve(
+    scaleMode,
+    numPoints,
+    curve,
+    '2D',
+    scaleMode !== 'none'
+  );
+  if (scaleMode === 'none') {
+    return points;
+  }
+  return points.map((point, i) => new Point(
+    (curvePosArray[i * 2] + 1) / 2,
+    (curvePosArray[i * 2 + 1] + 1) / 2,
+    point.z,
+    point.color
+  ));
+}
+
+/**
+ * Converts a Curve into an SVG image, connecting the sample points with lines
+ * in the color of the point each line starts from.
+ * @param curve - The Curve to convert
+ * @param numPoints - Number of intervals between the `numPoints + 1` sample points
+ * @param scaleMode - How the draw function scales the Curve
+ * @param size - The width and height of the image in pixels
+ */
+export function curveToSvg(curve: Curve, numPoints: number, scaleMode: ScaleMode, size: number): string {
+  const points = getCurvePoints(curve, numPoints, scaleMode);
+  const coordinates = (point: Point) => `${formatNumber(point.x * size)},${formatNumber((1 - point.y) * size)}`;
+
+  // Consecutive lines of the same color are joined into one polyline
+  const polylines: string[] = [];
+  let start = 0;
+  for (let i = 1; i < points.length; i += 1) {
+    const color = points[start].color;
+    const isLast = i === points.length - 1;
+    if (isLast || points[i].color.some((c, j) => c !== color[j])) {
+      const pointList = points.slice(start, i + 1)
+        .map(coordinates)
+        .join(' ');
+      const opacity = color[3] < 1 ? ` stroke-opacity="${formatNumber(color[3])}"` : '';
+      polylines.push(`<polyline points="${pointList}" fill="none" stroke="${toSvgColor(color)}"${opacity} stroke-linejoin="round" stroke-linecap="round"/>`);
+      start = i;
+    }
+  }
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${size} ${size}">`,
+    `<rect width="${size}" height="${size}" fill="white"/>`,
+    ...polylines,
+    '</svg>'
+  ].join('\n');
+}
+
+/**
+ * Downloads a Curve as an SVG image.
+ */
+export async function saveCurveSvg(curve: Curve, numPoints: number, scaleMode: ScaleMode): Promise<void> {
+  await save(
+    new Blob([curveToSvg(curve, numPoints, scaleMode, 512)], { type: 'image/svg+xml' }),
+    'Source Academy Curve.svg'
+  );
+}
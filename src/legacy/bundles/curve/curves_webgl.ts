@@ -2,7 +2,7 @@ import { mat4, vec3 } from 'gl-matrix';
 import { stringify } from 'js-slang/dist/utils/stringify';
 
 import type { ReplResult } from '../../typings/type_helpers';
-import type { CurveSpace, DrawMode, ScaleMode } from './types';
+import type { CurveSpace, DrawMode, ScaleMode, SurfaceMode } from './types';
 
 /** @hidden */
 export const drawnCurves: CurveDrawn[] = [];
@@ -30,6 +30,32 @@ void main() {
   gl_FragColor = aColor;
 }`;
 
+// Vertex shader program for shaded surfaces, lit from the front on both sides
+const litVsS: string = `
+attribute vec4 aFragColor;
+attribute vec4 aVertexPosition;
+attribute vec3 aVertexNormal;
+uniform mat4 uModelViewMatrix;
+uniform mat4 uProjectionMatrix;
+
+varying lowp vec4 aColor;
+
+void main() {
+  vec3 normal = normalize((uModelViewMatrix * vec4(aVertexNormal, 0.0)).xyz);
+  vec3 lightDirection = normalize(vec3(-0.4, 0.5, 1.0));
+  float light = 0.35 + 0.65 * abs(dot(normal, lightDirection));
+  aColor = vec4(aFragColor.rgb * light, aFragColor.a);
+  gl_Position = uProjectionMatrix * uModelViewMatrix * aVertexPosition;
+}`;
+
+// Edges of the bounding cube drawn around 3D scenes, as one line strip
+const CUBE_VERTICES = [
+  -1, 1, 1, -1, -1, 1, -1, -1, -1, -1, 1, -1,
+  1, 1, -1, 1, -1, -1, -1, -1, -1, 1, -1, -1,
+  1, -1, 1, -1, -1, 1, 1, -1, 1, 1, 1, 1,
+  -1, 1, 1, -1, 1, -1, 1, 1, -1, 1, 1, 1
+];
+
 // =============================================================================
 // Module's Private Functions
 //
@@ -94,6 +120,8 @@ type ProgramInfo = {
   attribLocations: {
     vertexPosition: number;
     vertexColor: number;
+    /** -1 for programs without lighting */
+    vertexNormal: number;
   };
   uniformLocations: {
     projectionMatrix: WebGLUniformLocation | null;
@@ -107,11 +135,158 @@ type BufferInfo = {
   curveColorBuffer: WebGLBuffer | null;
 };
 
+function createProgramInfo(
+  gl: WebGLRenderingContext,
+  vsSource: string,
+  fsSource: string
+): ProgramInfo {
+  const shaderProgram = initShaderProgram(gl, vsSource, fsSource);
+  return {
+    program: shaderProgram,
+    attribLocations: {
+      vertexPosition: gl.getAttribLocation(shaderProgram, 'aVertexPosition'),
+      vertexColor: gl.getAttribLocation(shaderProgram, 'aFragColor'),
+      vertexNormal: gl.getAttribLocation(shaderProgram, 'aVertexNormal')
+    },
+    uniformLocations: {
+      projectionMatrix: gl.getUniformLocation(shaderProgram, 'uProjectionMatrix'),
+      modelViewMatrix: gl.getUniformLocation(shaderProgram, 'uModelViewMatrix')
+    }
+  };
+}
+
+function createArrayBuffer(gl: WebGLRenderingContext, data: number[]): WebGLBuffer | null {
+  const buffer = gl.createBuffer();
+  gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+  gl.bufferData(gl.ARRAY_BUFFER, new Float32Array(data), gl.STATIC_DRAW);
+  return buffer;
+}
+
+/**
+ * Clears the canvas and sets up the program to draw with. 3D scenes are seen
+ * in perspective and rotated about the z axis by the given angle.
+ */
+function beginScene(
+  gl: WebGLRenderingContext,
+  programs: ProgramInfo,
+  space: CurveSpace,
+  angle: number
+): void {
+  gl.clearColor(1, 1, 1, 1); // Clear to white, fully opaque
+  gl.clearDepth(1.0); // Clear everything
+  gl.enable(gl.DEPTH_TEST); // Enable depth testing
+  gl.depthFunc(gl.LEQUAL); // Near things obscure far things
+  gl.clear(gl.COLOR_BUFFER_BIT | gl.DEPTH_BUFFER_BIT);
+  useProgram(gl, programs, space, angle);
+}
+
+function useProgram(
+  gl: WebGLRenderingContext,
+  programs: ProgramInfo,
+  space: CurveSpace,
+  angle: number
+): void {
+  const transMat = mat4.create();
+  const projMat = mat4.create();
+
+  if (space === '3D') {
+    const padding = Math.sqrt(1 / 3.1);
+    mat4.scale(
+      transMat,
+      transMat,
+      vec3.fromValues(padding, padding, padding)
+    );
+    mat4.translate(transMat, transMat, [0, 0, -5]);
+    mat4.rotate(transMat, transMat, -(Math.PI / 2), [1, 0, 0]); // axis to rotate around X (static)
+    mat4.rotate(transMat, transMat, angle, [0, 0, 1]); // axis to rotate around Z (dynamic)
+
+    const fieldOfView = (45 * Math.PI) / 180;
+    const aspect = gl.canvas.width / gl.canvas.height;
+    const zNear = 0.01; // Must not be zero, depth testing loses precision proportional to log(zFar / zNear)
+    const zFar = 50.0;
+    mat4.perspective(projMat, fieldOfView, aspect, zNear, zFar);
+  }
+
+  gl.useProgram(programs.program);
+  gl.uniformMatrix4fv(
+    programs.uniformLocations.projectionMatrix,
+    false,
+    projMat
+  );
+  gl.uniformMatrix4fv(
+    programs.uniformLocations.modelViewMatrix,
+    false,
+    transMat
+  );
+  gl.enableVertexAttribArray(programs.attribLocations.vertexPosition);
+  gl.enableVertexAttribArray(programs.attribLocations.vertexColor);
+}
+
+function drawCube(
+  gl: WebGLRenderingContext,
+  programs: ProgramInfo,
+  cubeBuffer: WebGLBuffer | null
+): void {
+  gl.bindBuffer(gl.ARRAY_BUFFER, cubeBuffer);
+  gl.vertexAttribPointer(
+    programs.attribLocations.vertexPosition,
+    3,
+    gl.FLOAT,
+    false,
+    0,
+    0
+  );
+  const colors: number[] = [];
+  for (let i = 0; i < 16; i += 1) {
+    colors.push(0.6, 0.6, 0.6, 1);
+  }
+  const colorBuffer = gl.createBuffer();
+  gl.bindBuffer(gl.ARRAY_BUFFER, colorBuffer);
+  gl.bufferData(gl.ARRAY_BUFFER, new Float32Array(colors), gl.STATIC_DRAW);
+  gl.vertexAttribPointer(programs.attribLocations.vertexColor, 4, gl.FLOAT, false, 0, 0);
+  gl.drawArrays(gl.LINE_STRIP, 0, 16);
+  gl.deleteBuffer(colorBuffer);
+}
+
+/**
+ * Moves points so that their bounding box is centred on the origin, and
+ * scales them to fill [-1, 1] along every axis when stretching, or along the
+ * longest axis when fitting.
+ *
+ * @param positions - coordinates of the points, `itemSize` numbers per point
+ * @param min - smallest coordinate along each axis
+ * @param max - largest coordinate along each axis
+ */
+function rescale(
+  positions: number[],
+  itemSize: number,
+  scaleMode: ScaleMode,
+  min: number[],
+  max: number[]
+): void {
+  if (scaleMode === 'none') return;
+
+  const ranges = min.map((lowest, axis) => max[axis] - lowest);
+  const longest = Math.max(...ranges);
+  const scales = ranges.map((range) => {
+    const scale = scaleMode === 'fit' ? longest : range;
+    return scale === 0 ? 1 : scale;
+  });
+  for (let i = 0; i < positions.length; i += 1) {
+    const axis = i % itemSize;
+    positions[i] -= (min[axis] + max[axis]) / 2;
+    positions[i] /= scales[axis] / 2;
+  }
+}
+
 /** A function that takes in number from 0 to 1 and returns a Point. */
 export type Curve = ((u: number) => Point) & {
   shouldNotAppend?: boolean;
 };
 
+/** A function that takes in two numbers from 0 to 1 and returns a Point. */
+export type Surface = (u: number, v: number) => Point;
+
 type Color = [r: number, g: number, b: number, t: number];
 
 /** Encapsulates 3D point with RGB values. */
@@ -159,67 +334,12 @@ export class CurveDrawn implements ReplResult {
     if (!this.renderingContext) {
       throw new Error('Rendering context cannot be null.');
     }
-    const cubeBuffer = this.renderingContext.createBuffer();
-    this.renderingContext.bindBuffer(
-      this.renderingContext.ARRAY_BUFFER,
-      cubeBuffer
-    );
-    this.renderingContext.bufferData(
-      this.renderingContext.ARRAY_BUFFER,
-      new Float32Array(this.drawCubeArray),
-      this.renderingContext.STATIC_DRAW
-    );
-
-    const curveBuffer = this.renderingContext.createBuffer();
-    this.renderingContext.bindBuffer(
-      this.renderingContext.ARRAY_BUFFER,
-      curveBuffer
-    );
-    this.renderingContext.bufferData(
-      this.renderingContext.ARRAY_BUFFER,
-      new Float32Array(this.curvePosArray),
-      this.renderingContext.STATIC_DRAW
-    );
-
-    const curveColorBuffer = this.renderingContext.createBuffer();
-    this.renderingContext.bindBuffer(
-      this.renderingContext.ARRAY_BUFFER,
-      curveColorBuffer
-    );
-    this.renderingContext.bufferData(
-      this.renderingContext.ARRAY_BUFFER,
-      new Float32Array(this.curveColorArray),
-      this.renderingContext.STATIC_DRAW
-    );
-
-    const shaderProgram = initShaderProgram(this.renderingContext, vsS, fsS);
-    this.programs = {
-      program: shaderProgram,
-      attribLocations: {
-        vertexPosition: this.renderingContext.getAttribLocation(
-          shaderProgram,
-          'aVertexPosition'
-        ),
-        vertexColor: this.renderingContext.getAttribLocation(
-          shaderProgram,
-          'aFragColor'
-        )
-      },
-      uniformLocations: {
-        projectionMatrix: this.renderingContext.getUniformLocation(
-          shaderProgram,
-          'uProjectionMatrix'
-        ),
-        modelViewMatrix: this.renderingContext.getUniformLocation(
-          shaderProgram,
-          'uModelViewMatrix'
-        )
-      }
-    };
+    const gl = this.renderingContext;
+    this.programs = createProgramInfo(gl, vsS, fsS);
     this.buffersInfo = {
-      cubeBuffer,
-      curveBuffer,
-      curveColorBuffer
+      cubeBuffer: createArrayBuffer(gl, this.drawCubeArray),
+      curveBuffer: createArrayBuffer(gl, this.curvePosArray),
+      curveColorBuffer: createArrayBuffer(gl, this.curveColorArray)
     };
   };
 
@@ -230,67 +350,10 @@ export class CurveDrawn implements ReplResult {
 
     const gl = this.renderingContext;
     const itemSize = this.space === '3D' ? 3 : 2;
-    gl.clearColor(1, 1, 1, 1); // Clear to white, fully opaque
-    gl.clearDepth(1.0); // Clear everything
-    gl.enable(gl.DEPTH_TEST); // Enable depth testing
-    gl.depthFunc(gl.LEQUAL); // Near things obscure far things
-    gl.clear(gl.COLOR_BUFFER_BIT | gl.DEPTH_BUFFER_BIT);
-
-    const transMat = mat4.create();
-    const projMat = mat4.create();
+    beginScene(gl, this.programs!, this.space, angle);
 
     if (this.space === '3D') {
-      const padding = Math.sqrt(1 / 3.1);
-      mat4.scale(
-        transMat,
-        transMat,
-        vec3.fromValues(padding, padding, padding)
-      );
-      mat4.translate(transMat, transMat, [0, 0, -5]);
-      mat4.rotate(transMat, transMat, -(Math.PI / 2), [1, 0, 0]); // axis to rotate around X (static)
-      mat4.rotate(transMat, transMat, angle, [0, 0, 1]); // axis to rotate around Z (dynamic)
-
-      const fieldOfView = (45 * Math.PI) / 180;
-      const aspect = gl.canvas.width / gl.canvas.height;
-      const zNear = 0.01; // Must not be zero, depth testing loses precision proportional to log(zFar / zNear)
-      const zFar = 50.0;
-      mat4.perspective(projMat, fieldOfView, aspect, zNear, zFar);
-    }
-
-    gl.useProgram(this.programs!.program);
-    gl.uniformMatrix4fv(
-      this.programs!.uniformLocations.projectionMatrix,
-      false,
-      projMat
-    );
-    gl.uniformMatrix4fv(
-      this.programs!.uniformLocations.modelViewMatrix,
-      false,
-      transMat
-    );
-    gl.enableVertexAttribArray(this.programs!.attribLocations.vertexPosition);
-    gl.enableVertexAttribArray(this.programs!.attribLocations.vertexColor);
-
-    if (this.space === '3D') {
-      // Draw Cube
-      gl.bindBuffer(gl.ARRAY_BUFFER, this.buffersInfo!.cubeBuffer);
-      gl.vertexAttribPointer(
-        this.programs!.attribLocations.vertexPosition,
-        3,
-        gl.FLOAT,
-        false,
-        0,
-        0
-      );
-      const colors: number[] = [];
-      for (let i = 0; i < 16; i += 1) {
-        colors.push(0.6, 0.6, 0.6, 1);
-      }
-      const colorBuffer = gl.createBuffer();
-      gl.bindBuffer(gl.ARRAY_BUFFER, colorBuffer);
-      gl.bufferData(gl.ARRAY_BUFFER, new Float32Array(colors), gl.STATIC_DRAW);
-      gl.vertexAttribPointer(0, 4, gl.FLOAT, false, 0, 0);
-      gl.drawArrays(gl.LINE_STRIP, 0, 16);
+      drawCube(gl, this.programs!, this.buffersInfo!.cubeBuffer);
     }
     // Draw Curve
     gl.bindBuffer(gl.ARRAY_BUFFER, this.buffersInfo!.curveBuffer);
@@ -303,7 +366,7 @@ export class CurveDrawn implements ReplResult {
       0
     );
     gl.bindBuffer(gl.ARRAY_BUFFER, this.buffersInfo!.curveColorBuffer);
-    gl.vertexAttribPointer(0, 4, gl.FLOAT, false, 0, 0);
+    gl.vertexAttribPointer(this.programs!.attribLocations.vertexColor, 4, gl.FLOAT, false, 0, 0);
     if (this.drawMode === 'lines') {
       gl.drawArrays(gl.LINE_STRIP, 0, this.numPoints + 1);
     } else {
@@ -312,17 +375,202 @@ export class CurveDrawn implements ReplResult {
   };
 }
 
-export function generateCurve(
+type SurfaceBufferInfo = {
+  cubeBuffer: WebGLBuffer | null;
+  positionBuffer: WebGLBuffer | null;
+  colorBuffer: WebGLBuffer | null;
+  normalBuffer: WebGLBuffer | null;
+};
+
+/**
+ * Represents a Surface that has been generated from the `generateSurface`
+ * function. Shaded surfaces are drawn as triangles, wireframes as the lines
+ * of constant u and constant v between the sample points.
+ */
+export class SurfaceDrawn implements ReplResult {
+  private renderingContext: WebGLRenderingContext | null;
+
+  private programs: ProgramInfo | null;
+
+  private litPrograms: ProgramInfo | null;
+
+  private buffersInfo: SurfaceBufferInfo | null;
+
+  constructor(
+    private readonly mode: SurfaceMode,
+    public readonly numVertices: number,
+    private readonly positionArray: number[],
+    private readonly colorArray: number[],
+    private readonly normalArray: number[]
+  ) {
+    this.renderingContext = null;
+    this.programs = null;
+    this.litPrograms = null;
+    this.buffersInfo = null;
+  }
+
+  public toReplString = () => '<SurfaceDrawn>';
+
+  public is3D = () => true;
+
+  public init = (canvas: HTMLCanvasElement) => {
+    this.renderingContext = canvas.getContext('webgl');
+    if (!this.renderingContext) {
+      throw new Error('Rendering context cannot be null.');
+    }
+    const gl = this.renderingContext;
+    this.programs = createProgramInfo(gl, vsS, fsS);
+    this.litPrograms = this.mode === 'shaded' ? createProgramInfo(gl, litVsS, fsS) : null;
+    this.buffersInfo = {
+      cubeBuffer: createArrayBuffer(gl, CUBE_VERTICES),
+      positionBuffer: createArrayBuffer(gl, this.positionArray),
+      colorBuffer: createArrayBuffer(gl, this.colorArray),
+      normalBuffer: createArrayBuffer(gl, this.normalArray)
+    };
+  };
+
+  public redraw = (angle: number) => {
+    if (!this.renderingContext) {
+      return;
+    }
+
+    const gl = this.renderingContext;
+    const buffers = this.buffersInfo!;
+    beginScene(gl, this.programs!, '3D', angle);
+    drawCube(gl, this.programs!, buffers.cubeBuffer);
+
+    const programs = this.litPrograms ?? this.programs!;
+    useProgram(gl, programs, '3D', angle);
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffers.positionBuffer);
+    gl.vertexAttribPointer(programs.attribLocations.vertexPosition, 3, gl.FLOAT, false, 0, 0);
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffers.colorBuffer);
+    gl.vertexAttribPointer(programs.attribLocations.vertexColor, 4, gl.FLOAT, false, 0, 0);
+    if (this.mode === 'shaded') {
+      gl.enableVertexAttribArray(programs.attribLocations.vertexNormal);
+      gl.bindBuffer(gl.ARRAY_BUFFER, buffers.normalBuffer);
+      gl.vertexAttribPointer(programs.attribLocations.vertexNormal, 3, gl.FLOAT, false, 0, 0);
+      gl.drawArrays(gl.TRIANGLES, 0, this.numVertices);
+      gl.disableVertexAttribArray(programs.attribLocations.vertexNormal);
+    } else {
+      gl.drawArrays(gl.LINES, 0, this.numVertices);
+    }
+  };
+}
+
+export function generateSurface(
+  scaleMode: ScaleMode,
+  mode: SurfaceMode,
+  numU: number,
+  numV: number,
+  func: Surface
+) {
+  // Sample points in a grid, (numU + 1) by (numV + 1)
+  const gridPositions: number[] = [];
+  const gridColors: number[] = [];
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i <= numU; i += 1) {
+    for (let j = 0; j <= numV; j += 1) {
+      const point = func(i / numU, j / numV);
+
+      if (!(point instanceof Point)) {
+        throw new Error(`Expected surface to return a point, got '${stringify(point)}' at u=${i / numU}, v=${j / numV}`);
+      }
+
+      const coordinates = [point.x * 2 - 1, point.y * 2 - 1, point.z * 2 - 1];
+      coordinates.forEach((value, axis) => {
+        min[axis] = Math.min(min[axis], value);
+        max[axis] = Math.max(max[axis], value);
+      });
+      gridPositions.push(...coordinates);
+      gridColors.push(...point.color);
+    }
+  }
+  rescale(gridPositions, 3, scaleMode, min, max);
+
+  const index = (i: number, j: number) => i * (numV + 1) + j;
+  const corner = (k: number) => vec3.fromValues(
+    gridPositions[k * 3],
+    gridPositions[k * 3 + 1],
+    gridPositions[k * 3 + 2]
+  );
+
+  // Each vertex is lit by the sum of the normals of the triangles around it,
+  // which are weighted by area. Vertices where the surface pinches to a point,
+  // such as the poles of a sphere, still get the normals of their neighbours.
+  const triangles: number[][] = [];
+  for (let i = 0; i < numU; i += 1) {
+    for (let j = 0; j < numV; j += 1) {
+      triangles.push(
+        [index(i, j), index(i + 1, j), index(i + 1, j + 1)],
+        [index(i, j), index(i + 1, j + 1), index(i, j + 1)]
+      );
+    }
+  }
+  const gridNormals = Array.from({ length: (numU + 1) * (numV + 1) }, () => vec3.create());
+  const edge1 = vec3.create();
+  const edge2 = vec3.create();
+  const normal = vec3.create();
+  triangles.forEach(([a, b, c]) => {
+    vec3.subtract(edge1, corner(b), corner(a));
+    vec3.subtract(edge2, corner(c), corner(a));
+    vec3.cross(normal, edge1, edge2);
+    [a, b, c].forEach((k) => vec3.add(gridNormals[k], gridNormals[k], normal));
+  });
+  gridNormals.forEach((n) => {
+    if (vec3.length(n) === 0) {
+      vec3.set(n, 0, 0, 1);
+    } else {
+      vec3.normalize(n, n);
+    }
+  });
+
+  const vertices: number[] = [];
+  if (mode === 'shaded') {
+    triangles.forEach((triangle) => vertices.push(...triangle));
+  } else {
+    for (let i = 0; i <= numU; i += 1) {
+      for (let j = 0; j <= numV; j += 1) {
+        if (j < numV) vertices.push(index(i, j), index(i, j + 1));
+        if (i < numU) vertices.push(index(i, j), index(i + 1, j));
+      }
+    }
+  }
+
+  const positionArray: number[] = [];
+  const colorArray: number[] = [];
+  const normalArray: number[] = [];
+  vertices.forEach((k) => {
+    positionArray.push(gridPositions[k * 3], gridPositions[k * 3 + 1], gridPositions[k * 3 + 2]);
+    colorArray.push(gridColors[k * 4], gridColors[k * 4 + 1], gridColors[k * 4 + 2], gridColors[k * 4 + 3]);
+    normalArray.push(...gridNormals[k]);
+  });
+
+  return new SurfaceDrawn(
+    mode,
+    vertices.length,
+    positionArray,
+    colorArray,
+    normalArray
+  );
+}
+
+/**
+ * Samples a Curve at `numPoints + 1` evenly spaced values of t, and places the
+ * points the way the draw functions show them: coordinates are mapped from
+ * [0, 1] to [-1, 1], then scaled according to the scale mode, with some
+ * padding around full views.
+ */
+export function sampleCurve(
   scaleMode: ScaleMode,
-  drawMode: DrawMode,
   numPoints: number,
   func: Curve,
   space: CurveSpace,
   isFullView: boolean
 ) {
+  const points: Point[] = [];
   const curvePosArray: number[] = [];
   const curveColorArray: number[] = [];
-  const drawCubeArray: number[] = [];
 
   // initialize the min/max to extreme values
   let min_x = Infinity;
@@ -338,6 +586,7 @@ export function generateCurve(
     if (!(point instanceof Point)) {
       throw new Error(`Expected curve to return a point, got '${stringify(point)}' at t=${i / numPoints}`);
     }
+    points.push(point);
 
     const x = point.x * 2 - 1;
     const y = point.y * 2 - 1;
@@ -373,84 +622,35 @@ export function generateCurve(
     max_z += depth_padding;
   }
 
-  // box generation, coordinates are added into the array using 4 push
-  // operations to improve on readability during code editing.
   if (space === '3D') {
-    drawCubeArray.push(-1, 1, 1, -1, -1, 1, -1, -1, -1, -1, 1, -1);
-    drawCubeArray.push(1, 1, -1, 1, -1, -1, -1, -1, -1, 1, -1, -1);
-    drawCubeArray.push(1, -1, 1, -1, -1, 1, 1, -1, 1, 1, 1, 1);
-    drawCubeArray.push(-1, 1, 1, -1, 1, -1, 1, 1, -1, 1, 1, 1);
+    rescale(curvePosArray, 3, scaleMode, [min_x, min_y, min_z], [max_x, max_y, max_z]);
   } else {
-    min_z = 0;
-    max_z = 0;
+    rescale(curvePosArray, 2, scaleMode, [min_x, min_y], [max_x, max_y]);
   }
 
-  if (scaleMode === 'fit') {
-    const center = [
-      (min_x + max_x) / 2,
-      (min_y + max_y) / 2,
-      (min_z + max_z) / 2
-    ];
-    let scale = Math.max(max_x - min_x, max_y - min_y, max_z - min_z);
-    scale = scale === 0 ? 1 : scale;
-    if (space === '3D') {
-      for (let i = 0; i < curvePosArray.length; i += 1) {
-        if (i % 3 === 0) {
-          curvePosArray[i] -= center[0];
-          curvePosArray[i] /= scale / 2;
-        } else if (i % 3 === 1) {
-          curvePosArray[i] -= center[1];
-          curvePosArray[i] /= scale / 2;
-        } else {
-          curvePosArray[i] -= center[2];
-          curvePosArray[i] /= scale / 2;
-        }
-      }
-    } else {
-      for (let i = 0; i < curvePosArray.length; i += 1) {
-        if (i % 2 === 0) {
-          curvePosArray[i] -= center[0];
-          curvePosArray[i] /= scale / 2;
-        } else {
-          curvePosArray[i] -= center[1];
-          curvePosArray[i] /= scale / 2;
-        }
-      }
-    }
-  } else if (scaleMode === 'stretch') {
-    const center = [
-      (min_x + max_x) / 2,
-      (min_y + max_y) / 2,
-      (min_z + max_z) / 2
-    ];
-    const x_scale = max_x === min_x ? 1 : max_x - min_x;
-    const y_scale = max_y === min_y ? 1 : max_y - min_y;
-    const z_scale = max_z === min_z ? 1 : max_z - min_z;
-    if (space === '3D') {
-      for (let i = 0; i < curvePosArray.length; i += 1) {
-        if (i % 3 === 0) {
-          curvePosArray[i] -= center[0];
-          curvePosArray[i] /= x_scale / 2;
-        } else if (i % 3 === 1) {
-          curvePosArray[i] -= center[1];
-          curvePosArray[i] /= y_scale / 2;
-        } else {
-          curvePosArray[i] -= center[2];
-          curvePosArray[i] /= z_scale / 2;
-        }
-      }
-    } else {
-      for (let i = 0; i < curvePosArray.length; i += 1) {
-        if (i % 2 === 0) {
-          curvePosArray[i] -= center[0];
-          curvePosArray[i] /= x_scale / 2;
-        } else {
-          curvePosArray[i] -= center[1];
-          curvePosArray[i] /= y_scale / 2;
-        }
-      }
-    }
-  }
+  return {
+    points,
+    curvePosArray,
+    curveColorArray
+  };
+}
+
+export function generateCurve(
+  scaleMode: ScaleMode,
+  drawMode: DrawMode,
+  numPoints: number,
+  func: Curve,
+  space: CurveSpace,
+  isFullView: boolean
+) {
+  const { curvePosArray, curveColorArray } = sampleCurve(
+    scaleMode,
+    numPoints,
+    func,
+    space,
+    isFullView
+  );
+  const drawCubeArray = space === '3D' ? CUBE_VERTICES : [];
 
   return new CurveDrawn(
     drawMode,
@@ -1,5 +1,21 @@
+import { vector_to_list, type List } from 'js-slang/dist/stdlib/list';
+import {
+  ANIMATION_FORMATS,
+  isAnimationFormat,
+  saveAnimation,
+  saveInBackground
+} from '../../common/animationExport';
 import context from '../../typings/js-slang/context';
-import { type Curve, type CurveDrawn, generateCurve, Point } from './curves_webgl';
+import { curveToSvg, getCurvePoints, saveCurveSvg, SCALE_MODES } from './curves_export';
+import {
+  type Curve,
+  type CurveDrawn,
+  generateCurve,
+  generateSurface,
+  Point,
+  type Surface,
+  type SurfaceDrawn
+} from './curves_webgl';
 import {
   AnimatedCurve,
   type CurveAnimation,
@@ -7,10 +23,12 @@ import {
   type CurveTransformer,
   type DrawMode,
   type RenderFunction,
-  type ScaleMode
+  type ScaleMode,
+  type SurfaceMode,
+  type SurfaceRenderFunction
 } from './types';
 
-const drawnCurves: (AnimatedCurve | CurveDrawn)[] = [];
+const drawnCurves: (AnimatedCurve | CurveDrawn | SurfaceDrawn)[] = [];
 context.moduleContexts.curve.state = {
   drawnCurves
 };
@@ -46,6 +64,24 @@ function createDrawFunction(
   };
 }
 
+function createSurfaceDrawFunction(
+  mode: SurfaceMode,
+  name: string
+): (numU: number, numV: number) => SurfaceRenderFunction {
+  return (numU: number, numV: number) => {
+    if (!Number.isInteger(numU) || !Number.isInteger(numV) || numU <= 0 || numV <= 0) {
+      throw new Error(`${name} expects the numbers of samples to be positive integers`);
+    }
+    const func = (surface: Surface) => {
+      const surfaceDrawn = generateSurface('fit', mode, numU, numV, surface);
+      drawnCurves.push(surfaceDrawn);
+      return surfaceDrawn;
+    };
+    func.toString = () => `<SurfaceRenderFunction(${numU}, ${numV})>`;
+    return func;
+  };
+}
+
 // =============================================================================
 // Module's Exposed Functions
 //
@@ -292,6 +328,51 @@ export const draw_3D_points_full_view_proportional = createDrawFunction(
   false
 );
 
+/**
+ * Returns a function that turns a given Surface into a shaded 3D Drawing, by
+ * sampling the Surface at `num_u + 1` values of u and `num_v + 1` values of v
+ * between 0 and 1, and filling in the grid between the sample points. Each
+ * part of the Surface takes the color of its points, so use
+ * `make_3D_color_point` to see the shading. The Drawing is translated and
+ * scaled proportionally to show the full surface, and can be rotated in the
+ * display tab.
+ *
+ * @param num_u number of intervals between samples along u
+ * @param num_v number of intervals between samples along v
+ * @return function of type Surface → Drawing
+ * @example
+ * ```
+ * // A torus, made by sweeping a circle around the z axis
+ * draw_surface(60, 30)((u, v) => make_3D_color_point(
+ *   (2 + math_cos(2 * math_PI * v)) * math_cos(2 * math_PI * u),
+ *   (2 + math_cos(2 * math_PI * v)) * math_sin(2 * math_PI * u),
+ *   math_sin(2 * math_PI * v),
+ *   255 * u, 128, 255 * v));
+ * ```
+ */
+export const draw_surface = createSurfaceDrawFunction('shaded', 'draw_surface');
+
+/**
+ * Returns a function that turns a given Surface into a 3D Drawing, by sampling
+ * the Surface at `num_u + 1` values of u and `num_v + 1` values of v between 0
+ * and 1, and connecting neighbouring sample points with lines. The Drawing is
+ * translated and scaled proportionally to show the full surface, and can be
+ * rotated in the display tab.
+ *
+ * @param num_u number of intervals between samples along u
+ * @param num_v number of intervals between samples along v
+ * @return function of type Surface → Drawing
+ * @example
+ * ```
+ * // The surface of revolution of the curve z = u * u
+ * draw_surface_wireframe(20, 40)((u, v) => make_3D_point(
+ *   u * math_cos(2 * math_PI * v),
+ *   u * math_sin(2 * math_PI * v),
+ *   u * u));
+ * ```
+ */
+export const draw_surface_wireframe = createSurfaceDrawFunction('wireframe', 'draw_surface_wireframe');
+
 /**
  * Makes a Point with given x and y coordinates.
  *
@@ -805,3 +886,96 @@ export function animate_3D_curve(
   drawnCurves.push(anim);
   return anim;
 }
+
+/**
+ * Downloads a curve animation to your device, with every frame drawn at 512 by
+ * 512 pixels. The format is `"gif"` for an animated GIF, `"webm"` for a WebM
+ * video or `"png"` for a zip file with one PNG image per frame. Recording a
+ * WebM video takes as long as the animation lasts.
+ * @param anim Curve animation returned by animate_curve or animate_3D_curve
+ * @param format Format of the file
+ */
+export function save_animation(anim: AnimatedCurve, format: string): void {
+  if (!(anim instanceof AnimatedCurve)) {
+    throw new Error('save_animation expects a curve animation as argument');
+  }
+  if (!isAnimationFormat(format)) {
+    const formats = Object.keys(ANIMATION_FORMATS)
+      .map((name) => `"${name}"`)
+      .join(', ');
+    throw new Error(`save_animation expects the format to be one of ${formats}`);
+  }
+  saveInBackground(saveAnimation(anim, format, 'Source Academy Curve Animation'), 'save_animation');
+}
+
+function checkSampling(name: string, n: number, scale_mode: string): ScaleMode {
+  if (!Number.isInteger(n) || n <= 0) {
+    throw new Error(`${name} expects the number of points to be a positive integer`);
+  }
+  if (!SCALE_MODES.includes(scale_mode as ScaleMode)) {
+    const modes = SCALE_MODES.map((mode) => `"${mode}"`)
+      .join(', ');
+    throw new Error(`${name} expects the scale mode to be one of ${modes}`);
+  }
+  return scale_mode as ScaleMode;
+}
+
+/**
+ * Returns the list of Points that a draw function samples from a Curve, at
+ * `n + 1` evenly spaced values of t including 0 and 1. The scale mode
+ * positions them the way the draw functions do, in the square from (0,0) to
+ * (1,1) shown in the window:
+ * - `"none"`, the default: the Points are returned as the Curve gives them,
+ * as drawn by `draw_connected`
+ * - `"stretch"`: as drawn by `draw_connected_full_view`
+ * - `"fit"`: as drawn by `draw_connected_full_view_proportional`
+ *
+ * @param curve Curve to sample
+ * @param n number of intervals between the sample points
+ * @param scale_mode optional, how the Points are scaled
+ * @returns list of `n + 1` Points
+ * @example
+ * ```
+ * curve_points(unit_line, 2); // list of (0, 0), (0.5, 0) and (1, 0)
+ * ```
+ */
+export function curve_points(curve: Curve, n: number, scale_mode: string = 'none'): List {
+  const mode = checkSampling('curve_points', n, scale_mode);
+  return vector_to_list(getCurvePoints(curve, n, mode));
+}
+
+/**
+ * Returns an SVG image of 512 by 512 pixels showing a Curve, with the same
+ * sample points and scaling as `curve_points`. Neighbouring sample points are
+ * connected by lines in the color of the first point, so the image can be
+ * printed at any resolution.
+ *
+ * @param curve Curve to draw
+ * @param n number of intervals between the sample points
+ * @param scale_mode optional, `"none"`, `"stretch"` or `"fit"` as for `curve_points`
+ * @returns the SVG image as a string
+ * @example
+ * ```
+ * curve_to_svg(unit_circle, 200, "fit");
+ * ```
+ */
+export function curve_to_svg(curve: Curve, n: number, scale_mode: string = 'none'): string {
+  const mode = checkSampling('curve_to_svg', n, scale_mode);
+  return curveToSvg(curve, n, mode, 512);
+}
+
+/**
+ * Downloads the SVG image returned by `curve_to_svg` to your device.
+ *
+ * @param curve Curve to draw
+ * @param n number of intervals between the sample points
+ * @param scale_mode optional, `"none"`, `"stretch"` or `"fit"` as for `curve_points`
+ * @example
+ * ```
+ * save_curve_svg(unit_circle, 200, "fit");
+ * ```
+ */
+export function save_curve_svg(curve: Curve, n: number, scale_mode: string = 'none'): void {
+  const mode = checkSampling('save_curve_svg', n, scale_mode);
+  saveInBackground(saveCurveSvg(curve, n, mode), 'save_curve_svg');
+}
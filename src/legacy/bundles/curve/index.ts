@@ -41,6 +41,8 @@ export {
   b_of,
   connect_ends,
   connect_rigidly,
+  curve_points,
+  curve_to_svg,
   draw_3D_connected,
   draw_3D_connected_full_view,
   draw_3D_connected_full_view_proportional,
@@ -53,6 +55,8 @@ export {
   draw_points,
   draw_points_full_view,
   draw_points_full_view_proportional,
+  draw_surface,
+  draw_surface_wireframe,
   g_of,
   invert,
   make_3D_color_point,
@@ -62,6 +66,8 @@ export {
   put_in_standard_position,
   r_of,
   rotate_around_origin,
+  save_animation,
+  save_curve_svg,
   scale,
   scale_proportional,
   translate,
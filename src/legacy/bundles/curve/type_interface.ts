@@ -9,6 +9,9 @@ export class AnimatedCurve{}
 @typeDeclaration('(u: number) => Point')
 export class Curve {}
 
+@typeDeclaration('(u: number, v: number) => Point')
+export class Surface {}
+
 @typeDeclaration('(t: number) => Curve')
 export class CurveAnimation {}
 
@@ -31,6 +34,12 @@ export class TypeInterface {
   @functionDeclaration('curve1: Curve, curve2: Curve', 'Curve')
   connect_rigidly() {}
 
+  @functionDeclaration('curve: Curve, n: number, scale_mode?: string', 'List')
+  curve_points() {}
+
+  @functionDeclaration('curve: Curve, n: number, scale_mode?: string', 'string')
+  curve_to_svg() {}
+
   @functionDeclaration('numPoints: number', '(func: Curve) => Curve')
   draw_3D_connected() {}
 
@@ -67,6 +76,12 @@ export class TypeInterface {
   @functionDeclaration('numPoints: number', '(func: Curve) => Curve')
   draw_points_full_view_proportional() {}
 
+  @functionDeclaration('num_u: number, num_v: number', '(func: Surface) => Surface')
+  draw_surface() {}
+
+  @functionDeclaration('num_u: number, num_v: number', '(func: Surface) => Surface')
+  draw_surface_wireframe() {}
+
   @functionDeclaration('p: Point', 'number')
   g_of() {}
 
@@ -94,6 +109,12 @@ export class TypeInterface {
   @functionDeclaration('theta1: number, theta2: number, theta3: number', '(c: Curve) => Curve')
   rotate_around_origin() {}
 
+  @functionDeclaration('anim: AnimatedCurve, format: string', 'void')
+  save_animation() {}
+
+  @functionDeclaration('curve: Curve, n: number, scale_mode?: string', 'void')
+  save_curve_svg() {}
+
   @functionDeclaration('x: number, y: number', '(c: Curve) => Curve')
   scale() {}
 
@@ -1,9 +1,9 @@
 import { glAnimation, type AnimFrame } from '../../typings/anim_types';
 import type { ReplResult } from '../../typings/type_helpers';
-import type { Curve, CurveDrawn } from './curves_webgl';
+import type { Curve, CurveDrawn, Surface, SurfaceDrawn } from './curves_webgl';
 
 export type CurveModuleState = {
-  drawnCurves: (AnimatedCurve | CurveDrawn)[]
+  drawnCurves: (AnimatedCurve | CurveDrawn | SurfaceDrawn)[]
 };
 
 /** A function that takes in CurveFunction and returns a tranformed CurveFunction. */
@@ -12,6 +12,7 @@ export type CurveTransformer = (c: Curve) => Curve;
 export type DrawMode = 'lines' | 'points';
 export type ScaleMode = 'fit' | 'none' | 'stretch';
 export type CurveSpace = '2D' | '3D';
+export type SurfaceMode = 'shaded' | 'wireframe';
 
 /**
  * A function that takes in a timestamp and returns a Curve
@@ -27,6 +28,12 @@ export type RenderFunction = {
   is3D: boolean
 };
 
+/**
+ * A function that samples a Surface and draws it, returned by `draw_surface`
+ * and `draw_surface_wireframe`.
+ */
+export type SurfaceRenderFunction = (func: Surface) => SurfaceDrawn;
+
 export class AnimatedCurve extends glAnimation implements ReplResult {
   constructor(
     duration: number,
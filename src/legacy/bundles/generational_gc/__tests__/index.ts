@@ -0,0 +1,59 @@
+import {
+  endGC,
+  init,
+  initialize_memory,
+  newMark,
+  newNew,
+  newPromote,
+  newRemember,
+  newSweep,
+  startMajorGC,
+  startMinorGC
+} from '..';
+import { validateTimeline } from '../../../common/heapTimeline';
+import { COMMAND, TIMELINE_RULES } from '../types';
+
+// The module records into a single timeline, so the tests look at the commands of one program
+const heap = new Array(40).fill(0);
+
+beforeAll(() => {
+  initialize_memory(40, 5, 20);
+  newNew(0, heap);
+  newRemember(20, 0, heap);
+  startMinorGC(heap);
+  newMark(0, heap);
+  heap[27] = 1;
+  newPromote(0, 25, heap);
+  endGC(heap);
+  newRemember(25, 5, heap);
+  startMajorGC(heap);
+  newSweep(25, heap);
+  endGC(heap);
+});
+
+const gc = init();
+
+test('collections are marked where they start', () => {
+  expect(gc.get_minor_collections()).toEqual([3]);
+  expect(gc.get_major_collections()).toEqual([8]);
+  expect(gc.get_command()
+    .map(({ collection }) => collection))
+    .toEqual([null, null, null, 'minor', 'minor', 'minor', null, null, 'major', 'major', null]);
+});
+
+test('promoted nodes are described with their age', () => {
+  const promote = gc.get_command()[5];
+  expect(promote.type).toEqual(COMMAND.PROMOTE);
+  expect([promote.left, promote.right]).toEqual([0, 25]);
+  expect(promote.desc).toEqual('Node 0 survived 1 collections, promoting it to 25 in the old generation.');
+});
+
+test('the remembered set is cleared by minor collections and sweeps', () => {
+  expect(gc.get_command()
+    .map(({ remembered }) => remembered))
+    .toEqual([[], [], [20], [20], [20], [20], [], [25], [25], [], []]);
+});
+
+test('the recorded timeline is consistent', () => {
+  expect(validateTimeline(gc.get_timeline(), TIMELINE_RULES)).toEqual([]);
+});
@@ -0,0 +1,365 @@
+import {
+  assignCommand,
+  HeapTimeline,
+  popCommand,
+  pushCommand,
+  type HeapCommand,
+  type HeapTimelineData
+} from '../../common/heapTimeline';
+import {
+  COMMAND,
+  type Collection,
+  type CommandHeapObject,
+  type MemoryHeaps,
+  type Tag
+} from './types';
+
+const timeline = new HeapTimeline<CommandHeapObject>(
+  {
+    TAG_SLOT: 0,
+    SIZE_SLOT: 1,
+    AGE_SLOT: 2,
+    FIRST_CHILD_SLOT: 3,
+    LAST_CHILD_SLOT: 4
+  },
+  ['minorCollections', 'majorCollections']
+);
+let COLLECTION: Collection = null;
+// Old nodes that reference young nodes, which are roots of minor collections
+let REMEMBERED: number[] = [];
+
+function generateMemory(): void {
+  timeline.record({
+    type: COMMAND.INIT,
+    heap: [],
+    left: -1,
+    right: -1,
+    sizeLeft: 0,
+    sizeRight: 0,
+    desc: 'Memory initially empty.',
+    leftDesc: '',
+    rightDesc: '',
+    collection: null,
+    remembered: []
+  });
+}
+
+function updateRoots(array: number[]): void {
+  timeline.roots.push(...array);
+}
+
+function resetRoots(): void {
+  timeline.roots = [];
+}
+
+/**
+ * The young generation occupies [0, youngSize), the old generation the rest of memory.
+ */
+function initialize_memory(
+  memorySize: number,
+  nodeSize: number,
+  youngSize: number
+): void {
+  const youngEnd = youngSize - (youngSize % nodeSize);
+  timeline.initialize(memorySize, nodeSize, [
+    { title: 'Young generation', start: 0, end: youngEnd },
+    { title: 'Old generation', start: youngEnd, end: memorySize - (memorySize % nodeSize) }
+  ]);
+  generateMemory();
+}
+
+function initialize_tag(allTag: number[], types: string[]): void {
+  timeline.setTags(allTag, types);
+}
+
+function allHeap(newHeap: number[][]): void {
+  timeline.memoryHeaps = newHeap;
+}
+
+function recordCommand(command: HeapCommand<COMMAND>): void {
+  timeline.record({
+    ...command,
+    collection: COLLECTION,
+    remembered: [...REMEMBERED]
+  });
+}
+
+function newCommand(
+  type: COMMAND,
+  left: number,
+  right: number,
+  sizeLeft: number,
+  sizeRight: number,
+  heap: number[],
+  description: string,
+  firstDesc: string,
+  lastDesc: string
+): void {
+  recordCommand({
+    type,
+    heap,
+    left,
+    right,
+    sizeLeft,
+    sizeRight,
+    desc: description,
+    leftDesc: firstDesc,
+    rightDesc: lastDesc
+  });
+}
+
+function newNew(left: number, heap: number[]): void {
+  const desc = `New node starts in [${left}] in the young generation.`;
+  newCommand(
+    COMMAND.NEW,
+    left,
+    -1,
+    timeline.nodeSize,
+    0,
+    heap,
+    desc,
+    'new memory allocated',
+    ''
+  );
+}
+
+function newPush(left: number, right: number, heap: number[]): void {
+  recordCommand(pushCommand(COMMAND.PUSH, left, right, heap));
+}
+
+function newPop(res: number, left: number, right: number, heap: number[]): void {
+  recordCommand(popCommand(COMMAND.POP, res, left, right, heap));
+}
+
+function newAssign(res: number, left: number, heap: number[]): void {
+  recordCommand(assignCommand(COMMAND.ASSIGN, res, left, heap));
+}
+
+function newRemember(left: number, right: number, heap: number[]): void {
+  if (!REMEMBERED.includes(left)) {
+    REMEMBERED.push(left);
+  }
+  const desc = `Old node ${left} now references young node ${right}, so it is added to the remembered set.`;
+  newCommand(
+    COMMAND.REMEMBER,
+    left,
+    right,
+    timeline.nodeSize,
+    timeline.nodeSize,
+    heap,
+    desc,
+    'remembered old node',
+    'referenced young node'
+  );
+}
+
+function startMinorGC(heap: number[]): void {
+  COLLECTION = 'minor';
+  const desc = 'Young generation is full, start a minor collection of the young generation only.';
+  newCommand(COMMAND.MINOR_START, -1, -1, 0, 0, heap, desc, '', '');
+  timeline.mark('minorCollections');
+}
+
+function startMajorGC(heap: number[]): void {
+  COLLECTION = 'major';
+  const desc = 'Old generation is full, start a major collection of the whole heap.';
+  newCommand(COMMAND.MAJOR_START, -1, -1, 0, 0, heap, desc, '', '');
+  timeline.mark('majorCollections');
+}
+
+function newMark(left: number, heap: number[]): void {
+  const desc = `Marking node ${left} to be live memory`;
+  newCommand(
+    COMMAND.MARK,
+    left,
+    -1,
+    timeline.nodeSize,
+    0,
+    heap,
+    desc,
+    'marked node',
+    ''
+  );
+}
+
+function newCopy(left: number, right: number, heap: number[]): void {
+  const desc = `Node ${left} survived, copying it to ${right} with age ${heap[right + timeline.slots.AGE_SLOT]}.`;
+  newCommand(
+    COMMAND.COPY,
+    left,
+    right,
+    timeline.nodeSize,
+    timeline.nodeSize,
+    heap,
+    desc,
+    'survivor',
+    'copy'
+  );
+}
+
+function newPromote(left: number, right: number, heap: number[]): void {
+  const desc = `Node ${left} survived ${heap[right + timeline.slots.AGE_SLOT]} collections, promoting it to ${right} in the old generation.`;
+  newCommand(
+    COMMAND.PROMOTE,
+    left,
+    right,
+    timeline.nodeSize,
+    timeline.nodeSize,
+    heap,
+    desc,
+    'survivor',
+    'promoted node'
+  );
+}
+
+function newSweep(left: number, heap: number[]): void {
+  REMEMBERED = REMEMBERED.filter((node) => node !== left);
+  const desc = `Freeing node ${left}`;
+  newCommand(
+    COMMAND.SWEEP,
+    left,
+    -1,
+    timeline.nodeSize,
+    0,
+    heap,
+    desc,
+    'freed node',
+    ''
+  );
+}
+
+function endGC(heap: number[]): void {
+  const desc = COLLECTION === 'minor'
+    ? 'Minor collection finished, the young generation is empty.'
+    : 'Major collection finished.';
+  // Survivors of a minor collection have all been promoted or copied, so no old node references a young node
+  if (COLLECTION === 'minor') {
+    REMEMBERED = [];
+  }
+  COLLECTION = null;
+  newCommand(COMMAND.END, -1, -1, 0, 0, heap, desc, '', '');
+}
+
+function updateSlotSegment(
+  tag: number,
+  size: number,
+  age: number,
+  first: number,
+  last: number
+): void {
+  timeline.updateSlots({
+    TAG_SLOT: tag,
+    SIZE_SLOT: size,
+    AGE_SLOT: age,
+    FIRST_CHILD_SLOT: first,
+    LAST_CHILD_SLOT: last
+  });
+}
+
+function get_memory_size(): number {
+  return timeline.memorySize;
+}
+
+function get_young_size(): number {
+  return timeline.regions[0].end;
+}
+
+function get_tags(): Tag[] {
+  return timeline.tags;
+}
+
+function get_command(): CommandHeapObject[] {
+  return timeline.commands;
+}
+
+function get_minor_collections(): number[] {
+  return timeline.markers.minorCollections;
+}
+
+function get_major_collections(): number[] {
+  return timeline.markers.majorCollections;
+}
+
+function get_types(): string[] {
+  return timeline.types;
+}
+
+function get_memory_heap(): MemoryHeaps {
+  return timeline.memoryHeaps;
+}
+
+function get_young_memory_matrix(): MemoryHeaps {
+  const [young] = timeline.regions;
+  return timeline.getMatrix(young.start, young.end);
+}
+
+function get_old_memory_matrix(): MemoryHeaps {
+  const [, old] = timeline.regions;
+  return timeline.getMatrix(old.start, old.end);
+}
+
+function get_roots(): number[] {
+  return timeline.roots;
+}
+
+function get_slots(): number[] {
+  return timeline.getSlotList();
+}
+
+function get_column_size(): number {
+  return timeline.column;
+}
+
+function get_row_size(): number {
+  return timeline.rows;
+}
+
+function get_timeline(): HeapTimelineData<CommandHeapObject> {
+  return timeline.toData();
+}
+
+function init() {
+  return {
+    toReplString: () => '<GC REDACTED>',
+    get_memory_size,
+    get_young_size,
+    get_memory_heap,
+    get_tags,
+    get_types,
+    get_column_size,
+    get_row_size,
+    get_young_memory_matrix,
+    get_old_memory_matrix,
+    get_minor_collections,
+    get_major_collections,
+    get_slots,
+    get_command,
+    get_roots,
+    get_timeline
+  };
+}
+
+export {
+  init,
+  // initialisation
+  initialize_memory,
+  initialize_tag,
+  generateMemory,
+  allHeap,
+  updateSlotSegment,
+  newCommand,
+  newPush,
+  newPop,
+  newAssign,
+  newNew,
+  newRemember,
+  startMinorGC,
+  startMajorGC,
+  newMark,
+  newCopy,
+  newPromote,
+  newSweep,
+  endGC,
+  updateRoots,
+  resetRoots
+};
@@ -0,0 +1,36 @@
+import type { HeapCommand, TimelineRules } from '../../common/heapTimeline';
+
+export type { Memory, MemoryHeaps, Tag } from '../../common/heapTimeline';
+
+export enum COMMAND {
+  PUSH = 'Push',
+  POP = 'Pop',
+  ASSIGN = 'Assign',
+  NEW = 'New',
+  REMEMBER = 'Remember Old to Young Reference',
+  MINOR_START = 'Minor Collection Start',
+  MAJOR_START = 'Major Collection Start',
+  MARK = 'Mark',
+  COPY = 'Copy Survivor',
+  PROMOTE = 'Promote',
+  SWEEP = 'Sweep',
+  END = 'End of Garbage Collector',
+  INIT = 'Initialize Memory',
+}
+
+export type Collection = 'major' | 'minor' | null;
+
+export type CommandHeapObject = HeapCommand<COMMAND> & {
+  collection: Collection;
+  remembered: number[];
+};
+
+export const TIMELINE_RULES: TimelineRules = {
+  types: Object.values(COMMAND),
+  initType: COMMAND.INIT,
+  phases: [{
+    start: [COMMAND.MINOR_START, COMMAND.MAJOR_START],
+    end: [COMMAND.END],
+    inner: [COMMAND.MARK, COMMAND.COPY, COMMAND.PROMOTE, COMMAND.SWEEP]
+  }]
+};
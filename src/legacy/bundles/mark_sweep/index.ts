@@ -1,36 +1,27 @@
-import { type MemoryHeaps, type Memory, type Tag, COMMAND, type CommandHeapObject } from './types';
-
-// Global Variables
-let ROW: number = 10;
-const COLUMN: number = 32;
-let NODE_SIZE: number = 0;
-let MEMORY_SIZE: number = -99;
-let memory: Memory;
-let memoryHeaps: Memory[] = [];
-const commandHeap: CommandHeapObject[] = [];
-let memoryMatrix: number[][];
-let tags: Tag[];
-let typeTag: string[];
-const flips: number[] = [];
-let TAG_SLOT: number = 0;
-let SIZE_SLOT: number = 1;
-let FIRST_CHILD_SLOT: number = 2;
-let LAST_CHILD_SLOT: number = 3;
+import {
+  assignCommand,
+  HeapTimeline,
+  popCommand,
+  pushCommand,
+  type HeapCommand,
+  type HeapTimelineData
+} from '../../common/heapTimeline';
+import { type MemoryHeaps, type Tag, COMMAND, type CommandHeapObject } from './types';
+
+const timeline = new HeapTimeline<CommandHeapObject>(
+  {
+    TAG_SLOT: 0,
+    SIZE_SLOT: 1,
+    FIRST_CHILD_SLOT: 2,
+    LAST_CHILD_SLOT: 3
+  },
+  ['flips']
+);
 let MARKED: number = 1;
 let UNMARKED: number = 0;
-let ROOTS: number[] = [];
 
 function generateMemory(): void {
-  memoryMatrix = [];
-  for (let i = 0; i < ROW; i += 1) {
-    memory = [];
-    for (let j = 0; j < COLUMN && i * COLUMN + j < MEMORY_SIZE; j += 1) {
-      memory.push(i * COLUMN + j);
-    }
-    memoryMatrix.push(memory);
-  }
-
-  const obj: CommandHeapObject = {
+  timeline.record({
     type: COMMAND.INIT,
     heap: [],
     left: -1,
@@ -41,100 +32,79 @@ function generateMemory(): void {
     leftDesc: '',
     rightDesc: '',
     queue: []
-  };
-
-  commandHeap.push(obj);
+  });
 }
 
-function updateRoots(array): void {
-  for (let i = 0; i < array.length; i += 1) {
-    ROOTS.push(array[i]);
-  }
+function updateRoots(array: number[]): void {
+  timeline.roots.push(...array);
 }
 
 function initialize_memory(
   memorySize: number,
-  nodeSize,
-  marked,
-  unmarked
+  nodeSize: number,
+  marked: number,
+  unmarked: number
 ): void {
-  MEMORY_SIZE = memorySize;
-  NODE_SIZE = nodeSize;
-  const excess = MEMORY_SIZE % NODE_SIZE;
-  MEMORY_SIZE -= excess;
-  ROW = MEMORY_SIZE / COLUMN;
+  timeline.initialize(memorySize, nodeSize);
   MARKED = marked;
   UNMARKED = unmarked;
   generateMemory();
 }
 
 function initialize_tag(allTag: number[], types: string[]): void {
-  tags = allTag;
-  typeTag = types;
+  timeline.setTags(allTag, types);
 }
 
 function allHeap(newHeap: number[][]): void {
-  memoryHeaps = newHeap;
+  timeline.memoryHeaps = newHeap;
 }
 
 function updateFlip(): void {
-  flips.push(commandHeap.length - 1);
+  timeline.mark('flips');
+}
+
+function recordCommand(command: HeapCommand<COMMAND>, queue: number[] = []): void {
+  timeline.record({
+    ...command,
+    queue: [...queue]
+  });
 }
 
 function newCommand(
-  type,
-  left,
-  right,
-  sizeLeft,
-  sizeRight,
-  heap,
-  description,
-  firstDesc,
-  lastDesc,
-  queue = []
+  type: COMMAND,
+  left: number,
+  right: number,
+  sizeLeft: number,
+  sizeRight: number,
+  heap: number[],
+  description: string,
+  firstDesc: string,
+  lastDesc: string,
+  queue: number[] = []
 ): void {
-  const newType = type;
-  const newLeft = left;
-  const newRight = right;
-  const newSizeLeft = sizeLeft;
-  const newSizeRight = sizeRight;
-  const newDesc = description;
-  const newFirstDesc = firstDesc;
-  const newLastDesc = lastDesc;
-
-  memory = [];
-  for (let j = 0; j < heap.length; j += 1) {
-    memory.push(heap[j]);
-  }
-  const newQueue: number[] = [];
-  for (let j = 0; j < queue.length; j += 1) {
-    newQueue.push(queue[j]);
-  }
-
-  const obj: CommandHeapObject = {
-    type: newType,
-    heap: memory,
-    left: newLeft,
-    right: newRight,
-    sizeLeft: newSizeLeft,
-    sizeRight: newSizeRight,
-    desc: newDesc,
-    leftDesc: newFirstDesc,
-    rightDesc: newLastDesc,
-    queue: newQueue
-  };
-
-  commandHeap.push(obj);
+  recordCommand(
+    {
+      type,
+      heap,
+      left,
+      right,
+      sizeLeft,
+      sizeRight,
+      desc: description,
+      leftDesc: firstDesc,
+      rightDesc: lastDesc
+    },
+    queue
+  );
 }
 
-function newSweep(left, heap): void {
-  const newSizeLeft = NODE_SIZE;
+function newSweep(left: number, heap: number[]): void {
   const desc = `Freeing node ${left}`;
   newCommand(
     COMMAND.SWEEP,
     left,
     -1,
-    newSizeLeft,
+    timeline.nodeSize,
     0,
     heap,
     desc,
@@ -143,14 +113,13 @@ function newSweep(left, heap): void {
   );
 }
 
-function newMark(left, heap, queue): void {
-  const newSizeLeft = NODE_SIZE;
+function newMark(left: number, heap: number[], queue: number[]): void {
   const desc = `Marking node ${left} to be live memory`;
   newCommand(
     COMMAND.MARK,
     left,
     -1,
-    newSizeLeft,
+    timeline.nodeSize,
     0,
     heap,
     desc,
@@ -160,32 +129,30 @@ function newMark(left, heap, queue): void {
   );
 }
 
-function addRoots(arr): void {
-  for (let i = 0; i < arr.length; i += 1) {
-    ROOTS.push(arr[i]);
-  }
+function addRoots(arr: number[]): void {
+  timeline.roots.push(...arr);
 }
 
-function showRoot(heap): void {
+function showRoot(heap: number[]): void {
   const desc = 'All root nodes are marked';
   newCommand(COMMAND.SHOW_MARKED, -1, -1, 0, 0, heap, desc, '', '');
 }
 
-function showRoots(heap): void {
-  for (let i = 0; i < ROOTS.length; i += 1) {
+function showRoots(heap: number[]): void {
+  for (let i = 0; i < timeline.roots.length; i += 1) {
     showRoot(heap);
   }
-  ROOTS = [];
+  timeline.roots = [];
 }
 
-function newUpdateSweep(right, heap): void {
+function newUpdateSweep(right: number, heap: number[]): void {
   const desc = `Set node ${right} to freelist`;
   newCommand(
     COMMAND.RESET,
     -1,
     right,
     0,
-    NODE_SIZE,
+    timeline.nodeSize,
     heap,
     desc,
     'free node',
@@ -193,51 +160,25 @@ function newUpdateSweep(right, heap): void {
   );
 }
 
-function newPush(left, right, heap): void {
-  const desc = `Push OS update memory ${left} and ${right}.`;
-  newCommand(
-    COMMAND.PUSH,
-    left,
-    right,
-    1,
-    1,
-    heap,
-    desc,
-    'last child address slot',
-    'new child pushed'
-  );
+function newPush(left: number, right: number, heap: number[]): void {
+  recordCommand(pushCommand(COMMAND.PUSH, left, right, heap));
 }
 
-function newPop(res, left, right, heap): void {
-  const newRes = res;
-  const desc = `Pop OS from memory ${left}, with value ${newRes}.`;
-  newCommand(
-    COMMAND.POP,
-    left,
-    right,
-    1,
-    1,
-    heap,
-    desc,
-    'popped memory',
-    'last child address slot'
-  );
+function newPop(res: number, left: number, right: number, heap: number[]): void {
+  recordCommand(popCommand(COMMAND.POP, res, left, right, heap));
 }
 
-function newAssign(res, left, heap): void {
-  const newRes = res;
-  const desc = `Assign memory [${left}] with ${newRes}.`;
-  newCommand(COMMAND.ASSIGN, left, -1, 1, 1, heap, desc, 'assigned memory', '');
+function newAssign(res: number, left: number, heap: number[]): void {
+  recordCommand(assignCommand(COMMAND.ASSIGN, res, left, heap));
 }
 
-function newNew(left, heap): void {
-  const newSizeLeft = NODE_SIZE;
+function newNew(left: number, heap: number[]): void {
   const desc = `New node starts in [${left}].`;
   newCommand(
     COMMAND.NEW,
     left,
     -1,
-    newSizeLeft,
+    timeline.nodeSize,
     0,
     heap,
     desc,
@@ -246,13 +187,13 @@ function newNew(left, heap): void {
   );
 }
 
-function newGC(heap): void {
+function newGC(heap: number[]): void {
   const desc = 'Memory exhausted, start Mark and Sweep Algorithm';
   newCommand(COMMAND.START, -1, -1, 0, 0, heap, desc, '', '');
   updateFlip();
 }
 
-function endGC(heap): void {
+function endGC(heap: number[]): void {
   const desc = 'Result of free memory';
   newCommand(COMMAND.END, -1, -1, 0, 0, heap, desc, '', '');
   updateFlip();
@@ -264,62 +205,56 @@ function updateSlotSegment(
   first: number,
   last: number
 ): void {
-  if (tag >= 0) {
-    TAG_SLOT = tag;
-  }
-  if (size >= 0) {
-    SIZE_SLOT = size;
-  }
-  if (first >= 0) {
-    FIRST_CHILD_SLOT = first;
-  }
-  if (last >= 0) {
-    LAST_CHILD_SLOT = last;
-  }
+  timeline.updateSlots({
+    TAG_SLOT: tag,
+    SIZE_SLOT: size,
+    FIRST_CHILD_SLOT: first,
+    LAST_CHILD_SLOT: last
+  });
 }
 
 function get_memory_size(): number {
-  return MEMORY_SIZE;
+  return timeline.memorySize;
 }
 
 function get_tags(): Tag[] {
-  return tags;
+  return timeline.tags;
 }
 
 function get_command(): CommandHeapObject[] {
-  return commandHeap;
+  return timeline.commands;
 }
 
 function get_flips(): number[] {
-  return flips;
+  return timeline.markers.flips;
 }
 
 function get_types(): string[] {
-  return typeTag;
+  return timeline.types;
 }
 
 function get_memory_heap(): MemoryHeaps {
-  return memoryHeaps;
+  return timeline.memoryHeaps;
 }
 
 function get_memory_matrix(): MemoryHeaps {
-  return memoryMatrix;
+  return timeline.getMatrix(0, timeline.memorySize);
 }
 
 function get_roots(): number[] {
-  return ROOTS;
+  return timeline.roots;
 }
 
 function get_slots(): number[] {
-  return [TAG_SLOT, SIZE_SLOT, FIRST_CHILD_SLOT, LAST_CHILD_SLOT];
+  return timeline.getSlotList();
 }
 
 function get_column_size(): number {
-  return COLUMN;
+  return timeline.column;
 }
 
 function get_row_size(): number {
-  return ROW;
+  return timeline.rows;
 }
 
 function get_unmarked(): number {
@@ -330,6 +265,10 @@ function get_marked(): number {
   return MARKED;
 }
 
+function get_timeline(): HeapTimelineData<CommandHeapObject> {
+  return timeline.toData();
+}
+
 function init() {
   return {
     toReplString: () => '<GC REDACTED>',
@@ -345,7 +284,8 @@ function init() {
     get_command,
     get_unmarked,
     get_marked,
-    get_roots
+    get_roots,
+    get_timeline
   };
 }
 
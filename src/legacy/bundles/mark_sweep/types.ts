@@ -1,6 +1,6 @@
-export type Memory = number[];
-export type MemoryHeaps = Memory[];
-export type Tag = number;
+import type { HeapCommand, TimelineRules } from '../../common/heapTimeline';
+
+export type { Memory, MemoryHeaps, Tag } from '../../common/heapTimeline';
 
 export enum COMMAND {
   FLIP = 'Flip',
@@ -18,15 +18,16 @@ export enum COMMAND {
   INIT = 'Initialize Memory',
 }
 
-export type CommandHeapObject = {
-  type: string;
-  heap: number[];
-  left: number;
-  right: number;
-  sizeLeft: number;
-  sizeRight: number;
-  desc: string;
-  leftDesc: string;
-  rightDesc: string;
+export type CommandHeapObject = HeapCommand<COMMAND> & {
   queue: number[];
 };
+
+export const TIMELINE_RULES: TimelineRules = {
+  types: Object.values(COMMAND),
+  initType: COMMAND.INIT,
+  phases: [{
+    start: [COMMAND.START],
+    end: [COMMAND.END],
+    inner: [COMMAND.MARK, COMMAND.SWEEP, COMMAND.RESET]
+  }]
+};
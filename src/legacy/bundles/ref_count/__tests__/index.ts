@@ -0,0 +1,57 @@
+import {
+  init,
+  initialize_memory,
+  newAssign,
+  newCycleLeak,
+  newDecrement,
+  newFree,
+  newIncrement,
+  newNew
+} from '..';
+import { validateTimeline } from '../../../common/heapTimeline';
+import { COMMAND, TIMELINE_RULES } from '../types';
+
+// The module records into a single timeline, so the tests look at the commands of one program
+const heap = new Array(20).fill(0);
+
+beforeAll(() => {
+  initialize_memory(20, 5);
+  heap[2] = 1;
+  newNew(0, heap);
+  heap[7] = 1;
+  newNew(5, heap);
+  heap[2] = 2;
+  newIncrement(0, heap);
+  newCycleLeak([0, 5], heap);
+  newAssign(0, 3, heap);
+  heap[2] = 0;
+  newDecrement(0, heap);
+  newFree(0, heap);
+});
+
+const gc = init();
+
+test('reference counts are described from the heap', () => {
+  const [, , , increment, , , decrement] = gc.get_command();
+  expect(increment.type).toEqual(COMMAND.INCREMENT);
+  expect(increment.left).toEqual(2);
+  expect(increment.desc).toEqual('New reference to node 0, its count increases to 2.');
+  expect(decrement.desc).toEqual('Reference to node 0 removed, its count drops to 0 so it can be freed.');
+});
+
+test('cycle leaks are marked and carried by the later commands', () => {
+  expect(gc.get_leaks()).toEqual([4]);
+  expect(gc.get_command()
+    .map(({ leaked }) => leaked))
+    .toEqual([[], [], [], [], [0, 5], [0, 5], [0, 5], [5]]);
+});
+
+test('freed nodes leave the leak list', () => {
+  const free = gc.get_command()[7];
+  expect(free.type).toEqual(COMMAND.FREE);
+  expect(free.leaked).toEqual([5]);
+});
+
+test('the recorded timeline is consistent', () => {
+  expect(validateTimeline(gc.get_timeline(), TIMELINE_RULES)).toEqual([]);
+});
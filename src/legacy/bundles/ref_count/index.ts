@@ -0,0 +1,288 @@
+import {
+  assignCommand,
+  HeapTimeline,
+  popCommand,
+  pushCommand,
+  type HeapCommand,
+  type HeapTimelineData
+} from '../../common/heapTimeline';
+import { type MemoryHeaps, type Tag, COMMAND, type CommandHeapObject } from './types';
+
+const timeline = new HeapTimeline<CommandHeapObject>(
+  {
+    TAG_SLOT: 0,
+    SIZE_SLOT: 1,
+    COUNT_SLOT: 2,
+    FIRST_CHILD_SLOT: 3,
+    LAST_CHILD_SLOT: 4
+  },
+  ['leaks']
+);
+// Nodes found to be leaked by a cycle, until they are freed
+let LEAKED: number[] = [];
+
+function generateMemory(): void {
+  timeline.record({
+    type: COMMAND.INIT,
+    heap: [],
+    left: -1,
+    right: -1,
+    sizeLeft: 0,
+    sizeRight: 0,
+    desc: 'Memory initially empty.',
+    leftDesc: '',
+    rightDesc: '',
+    leaked: []
+  });
+}
+
+function updateRoots(array: number[]): void {
+  timeline.roots.push(...array);
+}
+
+function resetRoots(): void {
+  timeline.roots = [];
+}
+
+function initialize_memory(memorySize: number, nodeSize: number): void {
+  timeline.initialize(memorySize, nodeSize);
+  generateMemory();
+}
+
+function initialize_tag(allTag: number[], types: string[]): void {
+  timeline.setTags(allTag, types);
+}
+
+function allHeap(newHeap: number[][]): void {
+  timeline.memoryHeaps = newHeap;
+}
+
+function recordCommand(command: HeapCommand<COMMAND>): void {
+  timeline.record({
+    ...command,
+    leaked: [...LEAKED]
+  });
+}
+
+function newCommand(
+  type: COMMAND,
+  left: number,
+  right: number,
+  sizeLeft: number,
+  sizeRight: number,
+  heap: number[],
+  description: string,
+  firstDesc: string,
+  lastDesc: string
+): void {
+  recordCommand({
+    type,
+    heap,
+    left,
+    right,
+    sizeLeft,
+    sizeRight,
+    desc: description,
+    leftDesc: firstDesc,
+    rightDesc: lastDesc
+  });
+}
+
+function newNew(left: number, heap: number[]): void {
+  const desc = `New node starts in [${left}], with a reference count of ${heap[left + timeline.slots.COUNT_SLOT]}.`;
+  newCommand(
+    COMMAND.NEW,
+    left,
+    -1,
+    timeline.nodeSize,
+    0,
+    heap,
+    desc,
+    'new memory allocated',
+    ''
+  );
+}
+
+function newPush(left: number, right: number, heap: number[]): void {
+  recordCommand(pushCommand(COMMAND.PUSH, left, right, heap));
+}
+
+function newPop(res: number, left: number, right: number, heap: number[]): void {
+  recordCommand(popCommand(COMMAND.POP, res, left, right, heap));
+}
+
+function newAssign(res: number, left: number, heap: number[]): void {
+  recordCommand(assignCommand(COMMAND.ASSIGN, res, left, heap));
+}
+
+function newIncrement(left: number, heap: number[]): void {
+  const desc = `New reference to node ${left}, its count increases to ${heap[left + timeline.slots.COUNT_SLOT]}.`;
+  newCommand(
+    COMMAND.INCREMENT,
+    left + timeline.slots.COUNT_SLOT,
+    -1,
+    1,
+    0,
+    heap,
+    desc,
+    'reference count',
+    ''
+  );
+}
+
+function newDecrement(left: number, heap: number[]): void {
+  const count = heap[left + timeline.slots.COUNT_SLOT];
+  const desc = count === 0
+    ? `Reference to node ${left} removed, its count drops to 0 so it can be freed.`
+    : `Reference to node ${left} removed, its count decreases to ${count}.`;
+  newCommand(
+    COMMAND.DECREMENT,
+    left + timeline.slots.COUNT_SLOT,
+    -1,
+    1,
+    0,
+    heap,
+    desc,
+    'reference count',
+    ''
+  );
+}
+
+function newFree(left: number, heap: number[]): void {
+  LEAKED = LEAKED.filter((node) => node !== left);
+  const desc = `Freeing node ${left}, and removing its references to its children.`;
+  newCommand(
+    COMMAND.FREE,
+    left,
+    -1,
+    timeline.nodeSize,
+    0,
+    heap,
+    desc,
+    'freed node',
+    ''
+  );
+}
+
+/**
+ * Records nodes that are no longer reachable from the roots, but are never
+ * freed as they reference each other in a cycle.
+ */
+function newCycleLeak(nodes: number[], heap: number[]): void {
+  nodes.forEach((node) => {
+    if (!LEAKED.includes(node)) {
+      LEAKED.push(node);
+    }
+  });
+  const desc = `Nodes ${nodes.join(', ')} are unreachable, but reference each other in a cycle, so their counts never drop to 0.`;
+  newCommand(COMMAND.LEAK, -1, -1, 0, 0, heap, desc, '', '');
+  timeline.mark('leaks');
+}
+
+function updateSlotSegment(
+  tag: number,
+  size: number,
+  count: number,
+  first: number,
+  last: number
+): void {
+  timeline.updateSlots({
+    TAG_SLOT: tag,
+    SIZE_SLOT: size,
+    COUNT_SLOT: count,
+    FIRST_CHILD_SLOT: first,
+    LAST_CHILD_SLOT: last
+  });
+}
+
+function get_memory_size(): number {
+  return timeline.memorySize;
+}
+
+function get_node_size(): number {
+  return timeline.nodeSize;
+}
+
+function get_tags(): Tag[] {
+  return timeline.tags;
+}
+
+function get_command(): CommandHeapObject[] {
+  return timeline.commands;
+}
+
+function get_leaks(): number[] {
+  return timeline.markers.leaks;
+}
+
+function get_types(): string[] {
+  return timeline.types;
+}
+
+function get_memory_heap(): MemoryHeaps {
+  return timeline.memoryHeaps;
+}
+
+function get_memory_matrix(): MemoryHeaps {
+  return timeline.getMatrix(0, timeline.memorySize);
+}
+
+function get_roots(): number[] {
+  return timeline.roots;
+}
+
+function get_slots(): number[] {
+  return timeline.getSlotList();
+}
+
+function get_column_size(): number {
+  return timeline.column;
+}
+
+function get_row_size(): number {
+  return timeline.rows;
+}
+
+function get_timeline(): HeapTimelineData<CommandHeapObject> {
+  return timeline.toData();
+}
+
+function init() {
+  return {
+    toReplString: () => '<GC REDACTED>',
+    get_memory_size,
+    get_node_size,
+    get_memory_heap,
+    get_tags,
+    get_types,
+    get_column_size,
+    get_row_size,
+    get_memory_matrix,
+    get_leaks,
+    get_slots,
+    get_command,
+    get_roots,
+    get_timeline
+  };
+}
+
+export {
+  init,
+  // initialisation
+  initialize_memory,
+  initialize_tag,
+  generateMemory,
+  allHeap,
+  updateSlotSegment,
+  newCommand,
+  newPush,
+  newPop,
+  newAssign,
+  newNew,
+  newIncrement,
+  newDecrement,
+  newFree,
+  newCycleLeak,
+  updateRoots,
+  resetRoots
+};
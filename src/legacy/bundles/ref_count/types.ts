@@ -0,0 +1,24 @@
+import type { HeapCommand, TimelineRules } from '../../common/heapTimeline';
+
+export type { Memory, MemoryHeaps, Tag } from '../../common/heapTimeline';
+
+export enum COMMAND {
+  PUSH = 'Push',
+  POP = 'Pop',
+  ASSIGN = 'Assign',
+  NEW = 'New',
+  INCREMENT = 'Increment Count',
+  DECREMENT = 'Decrement Count',
+  FREE = 'Free',
+  LEAK = 'Cycle Leak',
+  INIT = 'Initialize Memory',
+}
+
+export type CommandHeapObject = HeapCommand<COMMAND> & {
+  leaked: number[];
+};
+
+export const TIMELINE_RULES: TimelineRules = {
+  types: Object.values(COMMAND),
+  initType: COMMAND.INIT
+};
@@ -0,0 +1,125 @@
+import { Program } from '../controllers/program/Program';
+import { runECEvaluator } from '../controllers/program/evaluate';
+import { ev3_colorSensor, ev3_motorA, ev3_motorB, ev3_runForTime } from '../ev3_functions';
+import {
+  addControllerToWorld,
+  createCustomPhysics,
+  createEv3,
+  createFloor,
+  createRenderer,
+  createRobotConsole,
+  createTimer,
+  createWorld,
+  isFinalPoseInBox,
+  runHeadlessSimulation,
+  saveToContext,
+} from '../helper_functions';
+
+// The EV3 functions read back what the world factory saves to the context
+jest.mock('../../../typings/js-slang/context', () => ({
+  __esModule: true,
+  default: { moduleContexts: { robot_simulation: { state: {} } } },
+}), { virtual: true });
+jest.mock('../controllers/program/evaluate', () => ({ runECEvaluator: jest.fn() }));
+jest.mock('../controllers/program/inspect', () => ({
+  getCurrentLine: jest.fn().mockReturnValue(null),
+  getProgramError: jest.fn().mockReturnValue(null),
+}));
+
+const mockedRunECEvaluator = runECEvaluator as jest.MockedFunction<typeof runECEvaluator>;
+
+// Each yield is one step of the program
+function runProgram(program: () => Generator) {
+  mockedRunECEvaluator.mockImplementation(() => program() as any);
+}
+
+function worldFactory(headless: boolean) {
+  const physics = createCustomPhysics(-9.81, 1 / 20);
+  const renderer = createRenderer(headless);
+  const world = createWorld(physics, renderer, createTimer(), createRobotConsole());
+  addControllerToWorld(createFloor(physics, renderer), world);
+  const ev3 = createEv3(physics, renderer);
+  saveToContext('ev3', ev3);
+  addControllerToWorld(ev3, world);
+  addControllerToWorld(new Program(''), world);
+  saveToContext('world', world);
+  return world;
+}
+
+describe('runHeadlessSimulation', () => {
+  test('records every step until the step limit', async () => {
+    runProgram(function* () {
+      ev3_runForTime(ev3_motorA(), 10000, 360);
+      ev3_runForTime(ev3_motorB(), 10000, 360);
+      for (;;) {
+        yield;
+      }
+    });
+
+    const trace = await runHeadlessSimulation(worldFactory, { stepLimit: 20 });
+
+    expect(trace.stopReason).toBe('stepLimit');
+    expect(trace.error).toBeNull();
+    expect(trace.entries.map(({ step }) => step)).toEqual(Array.from({ length: 20 }, (_, i) => i + 1));
+    expect(trace.entries[19].time).toBeCloseTo(1000);
+    const { motorSpeeds, position, sensors } = trace.entries[19];
+    expect(motorSpeeds.leftMotor).toBeGreaterThan(0);
+    expect(motorSpeeds.rightMotor).toBeGreaterThan(0);
+    expect(position.x).not.toBeCloseTo(trace.entries[0].position.x, 3);
+    expect(sensors.color).toBeNull();
+  });
+
+  test('stops when the program finishes', async () => {
+    runProgram(function* () {
+      yield;
+    });
+
+    const trace = await runHeadlessSimulation(worldFactory, { stepLimit: 20 });
+    expect(trace.stopReason).toBe('finished');
+    expect(trace.entries).toHaveLength(1);
+  });
+
+  test('stops when the program throws an error', async () => {
+    jest.spyOn(console, 'error').mockImplementation(jest.fn());
+    runProgram(function* () {
+      yield;
+      ev3_colorSensor();
+    });
+
+    const trace = await runHeadlessSimulation(worldFactory, { stepLimit: 20 });
+    expect(trace.stopReason).toBe('error');
+    expect(trace.error).not.toBeNull();
+  });
+
+  test('rejects worlds that are drawn', async () => {
+    const world = { render: { isHeadless: () => false } } as any;
+    await expect(runHeadlessSimulation(() => world))
+      .rejects.toThrow('expects the world to be built with the headless renderer');
+  });
+});
+
+describe('isFinalPoseInBox', () => {
+  const trace = {
+    entries: [0, 1, 2].map((x, i) => ({ step: i + 1, time: (i + 1) * 50, position: { x, y: 0, z: 0 } })),
+    stopReason: 'stepLimit',
+    error: null,
+  } as any;
+  const box = { min: { x: 1.5, y: -1, z: -1 }, max: { x: 2.5, y: 1, z: 1 } };
+
+  test('checks the last position of the trace', () => {
+    expect(isFinalPoseInBox(trace, box)).toBe(true);
+    expect(isFinalPoseInBox(trace, { ...box, min: { x: 2.5, y: -1, z: -1 } })).toBe(false);
+  });
+
+  test('checks the position at the time limit', () => {
+    expect(isFinalPoseInBox(trace, box, 149)).toBe(false);
+    expect(isFinalPoseInBox(trace, box, 150)).toBe(true);
+    expect(isFinalPoseInBox(trace, box, 10)).toBe(false);
+  });
+});
+
+test('the colour sensor cannot be used in headless simulations', () => {
+  worldFactory(true);
+  expect(() => ev3_colorSensor())
+    .toThrow('ev3_colorSensor cannot be used in a headless simulation');
+});
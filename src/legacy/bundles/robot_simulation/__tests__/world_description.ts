@@ -0,0 +1,69 @@
+import { parseWorldDescription } from '../world_description';
+
+describe('parseWorldDescription', () => {
+  it('should accept an empty world', () => {
+    expect(parseWorldDescription('{}')).toEqual({});
+  });
+
+  it('should accept a complete world', () => {
+    const description = {
+      physics: { gravity: -9.81, timestep: 0.02 },
+      floor: { width: 5, length: 5, color: '#ffffff' },
+      walls: [{ x: 0, y: 2, width: 4, length: 0.1, height: 0.2 }],
+      cuboids: [{
+        position: { x: 1, y: 0.1, z: 1 },
+        dimension: { width: 0.2, length: 0.2, height: 0.2 },
+        mass: 1,
+        color: 0xff0000,
+        bodyType: 'dynamic',
+      }],
+      papers: [{ url: 'track.png', width: 2, height: 1, x: 0, y: 0, rotation: 90 }],
+      robot: {
+        x: 0.5,
+        y: -0.5,
+        rotation: 45,
+        sensors: { touchSensor: { port: 2 }, colorSensor: { tickRateInSeconds: 0.05 } },
+      },
+    };
+    expect(parseWorldDescription(JSON.stringify(description))).toEqual(description);
+  });
+
+  it('should accept worlds without a floor', () => {
+    expect(parseWorldDescription({ floor: false })).toEqual({ floor: false });
+  });
+
+  it('should report malformed JSON', () => {
+    expect(() => parseWorldDescription('{ walls: [] }')).toThrow('World description is not valid JSON');
+  });
+
+  it('should report every problem with its path', () => {
+    const description = {
+      walls: [
+        { x: 0, y: 0, width: 1, length: 1, height: 1 },
+        { x: 0, y: 0, width: -1, length: 1 },
+      ],
+      cuboids: [{
+        position: { x: 0, y: 0, z: 0 },
+        dimension: { width: 1, length: 1, height: 1 },
+        mass: 1,
+        color: 'red',
+        bodyType: 'rigid',
+      }],
+      robot: { x: 0, y: 0, sensors: { touchSensor: { port: 5 } } },
+      wall: [],
+    };
+
+    expect(() => parseWorldDescription(description)).toThrow([
+      'Invalid world description:',
+      '- world.walls[1].width must be a positive number, got -1',
+      '- world.walls[1].height is missing',
+      '- world.cuboids[0].bodyType must be one of "fixed", "dynamic", got "rigid"',
+      '- world.robot.sensors.touchSensor.port must be one of 1, 2, 3, 4, got 5',
+      '- world.wall is not a known field. Expected one of: physics, floor, walls, cuboids, papers, robot',
+    ].join('\n'));
+  });
+
+  it('should reject a world that is not an object', () => {
+    expect(() => parseWorldDescription('[]')).toThrow('world must be an object, got an array');
+  });
+});
@@ -0,0 +1,22 @@
+import { Led } from '../../../ev3/components/Led';
+
+describe('Led', () => {
+  let led: Led;
+
+  beforeEach(() => {
+    led = new Led('leftGreenLed', { color: '#00ff00', maxBrightness: 255 });
+  });
+
+  it('should be off initially', () => {
+    expect(led.getBrightness()).toBe(0);
+  });
+
+  it('should clamp the brightness', () => {
+    led.setBrightness(100);
+    expect(led.getBrightness()).toBe(100);
+    led.setBrightness(300);
+    expect(led.getBrightness()).toBe(255);
+    led.setBrightness(-1);
+    expect(led.getBrightness()).toBe(0);
+  });
+});
@@ -49,7 +49,10 @@ describe('Mesh', () => {
   let mockConfig;
 
   beforeEach(() => {
-    mockRenderer = { add: jest.fn() } as unknown as Renderer;
+    mockRenderer = {
+      add: jest.fn(),
+      isHeadless: jest.fn().mockReturnValue(false),
+    } as unknown as Renderer;
     mockChassisWrapper = {
       getEntity: jest.fn().mockReturnValue({
         getTranslation: jest.fn().mockReturnValue(new THREE.Vector3()),
@@ -58,7 +58,10 @@ describe('Motor', () => {
     mockPhysics = {
       applyImpulse: jest.fn(),
     } as unknown as Physics;
-    mockRenderer = { add: jest.fn() } as unknown as Renderer;
+    mockRenderer = {
+      add: jest.fn(),
+      isHeadless: jest.fn().mockReturnValue(false),
+    } as unknown as Renderer;
     mockConfig = {
       displacement: { x: 1, y: 0, z: 0 },
       pid: {
@@ -0,0 +1,33 @@
+import { Speaker } from '../../../ev3/components/Speaker';
+
+describe('Speaker', () => {
+  let speaker: Speaker;
+  let mockRenderer;
+
+  beforeEach(() => {
+    mockRenderer = {
+      isHeadless: jest.fn().mockReturnValue(true),
+    };
+    speaker = new Speaker(mockRenderer, { volume: 100, wordsPerMinute: 120, audible: true });
+  });
+
+  it('should record speech with the simulated time', () => {
+    speaker.fixedUpdate({ timestep: 50 } as any);
+    const duration = speaker.speak('hello world');
+
+    expect(duration).toBe(1000);
+    expect(speaker.outputs).toEqual([
+      { type: 'speech', text: 'hello world', time: 50, duration: 1000 },
+    ]);
+  });
+
+  it('should record tones and return their total duration', () => {
+    const tones = [
+      { frequency: 440, duration: 200, delay: 100 },
+      { frequency: 880, duration: 300, delay: 0 },
+    ];
+
+    expect(speaker.playTones(tones)).toBe(600);
+    expect(speaker.outputs[0]).toMatchObject({ type: 'tones', tones });
+  });
+});
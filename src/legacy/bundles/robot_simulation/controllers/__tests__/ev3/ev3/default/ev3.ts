@@ -1,11 +1,15 @@
 import { Physics, Renderer, ControllerMap } from '../../../../../engine';
 import { ChassisWrapper } from '../../../../ev3/components/Chassis';
+import { Led } from '../../../../ev3/components/Led';
 import { Mesh } from '../../../../ev3/components/Mesh';
 import { Motor } from '../../../../ev3/components/Motor';
+import { Speaker } from '../../../../ev3/components/Speaker';
 import { Wheel } from '../../../../ev3/components/Wheel';
 import { ev3Config } from '../../../../ev3/ev3/default/config';
 import { createDefaultEv3 } from '../../../../ev3/ev3/default/ev3';
 import { ColorSensor } from '../../../../ev3/sensor/ColorSensor';
+import { GyroSensor } from '../../../../ev3/sensor/GyroSensor';
+import { TouchSensor } from '../../../../ev3/sensor/TouchSensor';
 import { UltrasonicSensor } from '../../../../ev3/sensor/UltrasonicSensor';
 
 jest.mock('../../../../ev3/components/Chassis', () => {
@@ -26,6 +30,18 @@ jest.mock('../../../../ev3/sensor/ColorSensor', () => {
 jest.mock('../../../../ev3/sensor/UltrasonicSensor', () => {
   return { UltrasonicSensor: jest.fn() };
 });
+jest.mock('../../../../ev3/sensor/GyroSensor', () => {
+  return { GyroSensor: jest.fn() };
+});
+jest.mock('../../../../ev3/sensor/TouchSensor', () => {
+  return { TouchSensor: jest.fn() };
+});
+jest.mock('../../../../ev3/components/Led', () => {
+  return { Led: jest.fn() };
+});
+jest.mock('../../../../ev3/components/Speaker', () => {
+  return { Speaker: jest.fn() };
+});
 jest.mock('../../../../../engine', () => {
   return {
     Physics: jest.fn(),
@@ -50,6 +66,10 @@ describe('createDefaultEv3', () => {
     expect(Motor).toHaveBeenCalledTimes(2);
     expect(ColorSensor).toHaveBeenCalledWith(expect.any(ChassisWrapper), mockRenderer, mockConfig.colorSensor);
     expect(UltrasonicSensor).toHaveBeenCalledWith(expect.any(ChassisWrapper), mockPhysics, mockRenderer, mockConfig.ultrasonicSensor);
+    expect(GyroSensor).toHaveBeenCalledWith(expect.any(ChassisWrapper), mockConfig.gyroSensor);
+    expect(TouchSensor).toHaveBeenCalledWith(expect.any(ChassisWrapper), mockPhysics, mockRenderer, mockConfig.touchSensor);
+    expect(Led).toHaveBeenCalledTimes(4);
+    expect(Speaker).toHaveBeenCalledWith(mockRenderer, mockConfig.speaker);
 
     expect(ControllerMap).toHaveBeenCalled();
   });
@@ -10,6 +10,7 @@ jest.mock('three', () => {
 
 jest.mock('../../../../engine', () => ({
   Renderer: jest.fn().mockImplementation(() => ({
+    isHeadless: jest.fn().mockReturnValue(false),
     scene: jest.fn(),
     render: jest.fn(),
     getElement: jest.fn(() => document.createElement('canvas')),
@@ -36,6 +37,7 @@ describe('ColorSensor', () => {
     };
     mockRenderer = {
       add: jest.fn(),
+      isHeadless: jest.fn().mockReturnValue(false),
       scene: jest.fn(),
       render: jest.fn(),
       getElement: jest.fn(() => document.createElement('canvas')),
@@ -0,0 +1,36 @@
+import { GyroSensor } from '../../../ev3/sensor/GyroSensor';
+
+describe('GyroSensor', () => {
+  let sensor: GyroSensor;
+  let mockChassisWrapper;
+  let angularVelocity;
+
+  beforeEach(() => {
+    angularVelocity = { x: 0, y: Math.PI, z: 0 };
+    mockChassisWrapper = {
+      getEntity: jest.fn(() => ({
+        transformDirection: jest.fn((direction) => direction.clone()),
+        getAngularVelocity: jest.fn(() => angularVelocity),
+      })),
+    };
+
+    sensor = new GyroSensor(mockChassisWrapper, { axis: { x: 0, y: -1, z: 0 } });
+  });
+
+  it('should read 0 initially', () => {
+    expect(sensor.sense()).toEqual({ angle: 0, rate: 0 });
+  });
+
+  it('should measure the rate in degrees per second about its axis', () => {
+    sensor.fixedUpdate({ timestep: 50 } as any);
+    expect(sensor.sense().rate).toBeCloseTo(-180);
+  });
+
+  it('should integrate the rate into an angle that keeps counting past 360 degrees', () => {
+    angularVelocity = { x: 0, y: -Math.PI, z: 0 };
+    for (let i = 0; i < 60; i++) {
+      sensor.fixedUpdate({ timestep: 50 } as any);
+    }
+    expect(sensor.sense().angle).toBeCloseTo(540);
+  });
+});
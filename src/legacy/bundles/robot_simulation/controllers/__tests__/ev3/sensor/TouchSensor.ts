@@ -0,0 +1,74 @@
+import { CollisionEvent } from '../../../../engine/Physics';
+import { TouchSensor } from '../../../ev3/sensor/TouchSensor';
+
+describe('TouchSensor', () => {
+  let sensor: TouchSensor;
+  let mockChassisWrapper;
+  let mockPhysics;
+  let mockRenderer;
+  let collisionListener: (event: CollisionEvent) => void;
+  const colliderDesc = {
+    setTranslation: jest.fn().mockReturnThis(),
+    setSensor: jest.fn().mockReturnThis(),
+    setDensity: jest.fn().mockReturnThis(),
+    setActiveEvents: jest.fn().mockReturnThis(),
+  };
+
+  beforeEach(() => {
+    mockChassisWrapper = {
+      getEntity: jest.fn(() => ({
+        getRigidBody: jest.fn(),
+      })),
+    };
+    mockPhysics = {
+      RAPIER: {
+        ColliderDesc: { cuboid: jest.fn(() => colliderDesc) },
+        ActiveEvents: { COLLISION_EVENTS: 1 },
+      },
+      createCollider: jest.fn().mockReturnValue({ handle: 7 }),
+      addEventListener: jest.fn((_type, listener) => {
+        collisionListener = listener;
+      }),
+    };
+    mockRenderer = {
+      add: jest.fn(),
+    };
+
+    sensor = new TouchSensor(mockChassisWrapper, mockPhysics, mockRenderer, {
+      port: 1,
+      displacement: { x: 0, y: 0, z: 0.1 },
+      dimension: { height: 0.02, width: 0.1, length: 0.02 },
+      debug: false,
+    });
+  });
+
+  it('should create a sensor collider on the chassis', () => {
+    sensor.fixedUpdate();
+    expect(colliderDesc.setSensor).toHaveBeenCalledWith(true);
+    expect(mockPhysics.createCollider).toHaveBeenCalledTimes(1);
+
+    sensor.fixedUpdate();
+    expect(mockPhysics.createCollider).toHaveBeenCalledTimes(1);
+  });
+
+  it('should be pressed while another collider touches it', () => {
+    sensor.fixedUpdate();
+    expect(sensor.sense()).toBe(false);
+
+    collisionListener(new CollisionEvent(3, 7, true));
+    collisionListener(new CollisionEvent(7, 4, true));
+    expect(sensor.sense()).toBe(true);
+
+    collisionListener(new CollisionEvent(3, 7, false));
+    expect(sensor.sense()).toBe(true);
+
+    collisionListener(new CollisionEvent(4, 7, false));
+    expect(sensor.sense()).toBe(false);
+  });
+
+  it('should ignore collisions of other colliders', () => {
+    sensor.fixedUpdate();
+    collisionListener(new CollisionEvent(3, 4, true));
+    expect(sensor.sense()).toBe(false);
+  });
+});
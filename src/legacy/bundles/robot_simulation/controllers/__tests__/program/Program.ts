@@ -1,12 +1,20 @@
 import { CallbackHandler } from '../../../engine/Core/CallbackHandler';
 import { Program, program_controller_identifier } from '../../program/Program';
+import { ProgramError } from '../../program/error';
 import { runECEvaluator } from '../../program/evaluate';
+import { getCurrentLine, getProgramError } from '../../program/inspect';
 
 jest.mock('../../../engine/Core/CallbackHandler');
-jest.mock('../../program/evaluate');
+jest.mock('../../program/evaluate', () => ({ runECEvaluator: jest.fn() }));
+jest.mock('../../program/inspect', () => ({
+  getCurrentLine: jest.fn().mockReturnValue(null),
+  getProgramError: jest.fn().mockReturnValue(null),
+}));
 
 const mockedRunECEvaluator = runECEvaluator as jest.MockedFunction<typeof runECEvaluator>;
 const mockedCallbackHandler = CallbackHandler as jest.MockedClass<typeof CallbackHandler>;
+const mockedGetCurrentLine = getCurrentLine as jest.MockedFunction<typeof getCurrentLine>;
+const mockedGetProgramError = getProgramError as jest.MockedFunction<typeof getProgramError>;
 
 describe('Program', () => {
   let program: Program;
@@ -33,7 +41,7 @@ describe('Program', () => {
   });
 
   it('should start the evaluator with correct options', () => {
-    const mockIterator = { next: jest.fn() } as any;
+    const mockIterator = { next: jest.fn().mockReturnValue({ done: false }) } as any;
     mockedRunECEvaluator.mockReturnValue(mockIterator);
 
     program.start();
@@ -43,7 +51,7 @@ describe('Program', () => {
   });
 
   it('should handle pause and resume correctly', () => {
-    const mockIterator = { next: jest.fn() } as any;
+    const mockIterator = { next: jest.fn().mockReturnValue({ done: false }) } as any;
     mockedRunECEvaluator.mockReturnValue(mockIterator);
 
     program.start();
@@ -58,7 +66,7 @@ describe('Program', () => {
   });
 
   it('should process fixed number of steps per tick', () => {
-    const mockIterator = { next: jest.fn() } as any;
+    const mockIterator = { next: jest.fn().mockReturnValue({ done: false }) } as any;
     mockedRunECEvaluator.mockReturnValue(mockIterator);
 
     program.start();
@@ -67,6 +75,90 @@ describe('Program', () => {
     expect(mockIterator.next).toHaveBeenCalledTimes(11);
   });
 
+  it('should stop stepping once the program is finished', () => {
+    const mockIterator = { next: jest.fn().mockReturnValueOnce({ done: false }).mockReturnValue({ done: true }) } as any;
+    mockedRunECEvaluator.mockReturnValue(mockIterator);
+
+    program.start();
+    program.fixedUpdate();
+    expect(mockIterator.next).toHaveBeenCalledTimes(2);
+    expect(program.isFinished).toBeTruthy();
+
+    program.fixedUpdate();
+    expect(mockIterator.next).toHaveBeenCalledTimes(2);
+  });
+
+  it('should report the js-slang error with its location', () => {
+    const mockIterator = { next: jest.fn(() => { throw new Error('Name x not declared.'); }) } as any;
+    mockedRunECEvaluator.mockReturnValue(mockIterator);
+    mockedGetProgramError.mockReturnValueOnce(new ProgramError('Line 2: Name x not declared.', 2));
+
+    program.start();
+    expect(() => program.fixedUpdate()).toThrow('Line 2: Name x not declared.');
+    expect(program.error?.line).toBe(2);
+  });
+
+  describe('debugging', () => {
+    // Every step of the mock program moves on to the next line
+    let line: number;
+    let mockIterator;
+
+    beforeEach(() => {
+      line = 1;
+      mockIterator = {
+        next: jest.fn(() => {
+          line += 1;
+          return { done: false };
+        }),
+      };
+      mockedRunECEvaluator.mockReturnValue(mockIterator);
+      mockedGetCurrentLine.mockImplementation(() => line);
+      program.start();
+    });
+
+    afterEach(() => {
+      mockedGetCurrentLine.mockReset();
+      mockedGetCurrentLine.mockReturnValue(null);
+    });
+
+    it('should not run while paused', () => {
+      program.debugPause();
+      program.fixedUpdate();
+      expect(mockIterator.next).not.toHaveBeenCalled();
+
+      program.debugResume();
+      program.fixedUpdate();
+      expect(mockIterator.next).toHaveBeenCalledTimes(11);
+    });
+
+    it('should pause at breakpoints, and resume past them', () => {
+      program.toggleBreakpoint(4);
+      program.fixedUpdate();
+      expect(program.isDebugPaused).toBeTruthy();
+      expect(program.getCurrentLine()).toBe(4);
+
+      program.debugResume();
+      program.fixedUpdate();
+      expect(program.isDebugPaused).toBeFalsy();
+      expect(line).toBe(15);
+    });
+
+    it('should step to the next line', () => {
+      program.debugPause();
+      program.debugStep();
+      program.fixedUpdate();
+      expect(mockIterator.next).toHaveBeenCalledTimes(1);
+      expect(program.isDebugPaused).toBeTruthy();
+    });
+
+    it('should run to the given line', () => {
+      program.debugRunToLine(7);
+      program.fixedUpdate();
+      expect(line).toBe(7);
+      expect(program.isDebugPaused).toBeTruthy();
+    });
+  });
+
   it('should catch errors during fixedUpdate', () => {
     expect(() => program.fixedUpdate()).toThrow('Error in program execution. Please check your code and try again.');
   });
@@ -26,8 +26,11 @@ export class Paper {
   }
 
   async start() {
-    const texture = new THREE.TextureLoader()
-      .load(this.config.url);
+    // The texture is only needed when the paper is drawn
+    const texture = this.render.isHeadless()
+      ? null
+      : new THREE.TextureLoader()
+        .load(this.config.url);
     const material = new THREE.MeshStandardMaterial({ map: texture });
     this.paper.position.set(this.config.position.x, 0.001, this.config.position.y);
     this.paper.rotation.x = -Math.PI / 2;
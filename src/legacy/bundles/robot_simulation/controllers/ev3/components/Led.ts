@@ -0,0 +1,29 @@
+import type { Controller } from '../../../engine';
+
+export type LedConfig = {
+  // The color shown in the simulator tab, as a CSS color
+  color: string;
+  maxBrightness: number;
+};
+
+/**
+ * One of the 4 LEDs of the EV3, which only has a brightness. The simulator tab shows its state.
+ */
+export class Led implements Controller {
+  name: string;
+  config: LedConfig;
+  brightness = 0;
+
+  constructor(name: string, config: LedConfig) {
+    this.name = name;
+    this.config = config;
+  }
+
+  getBrightness(): number {
+    return this.brightness;
+  }
+
+  setBrightness(brightness: number): void {
+    this.brightness = Math.min(Math.max(brightness, 0), this.config.maxBrightness);
+  }
+}
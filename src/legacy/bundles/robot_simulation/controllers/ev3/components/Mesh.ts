@@ -48,6 +48,9 @@ export class Mesh implements Controller {
   }
 
   async start(): Promise<void> {
+    if (this.render.isHeadless()) {
+      return;
+    }
     this.mesh = await loadGLTF(this.config.url, this.config.dimension);
 
     this.render.add(this.mesh.scene);
@@ -60,6 +63,14 @@ export class Mesh implements Controller {
     this.currentTranslation = this.chassisWrapper.getEntity().getTranslation();
   }
 
+  // Replayed frames are shown as they are, so there is nothing to interpolate between
+  replay(): void {
+    this.currentRotation = this.chassisWrapper.getEntity().getRotation();
+    this.currentTranslation = this.chassisWrapper.getEntity().getTranslation();
+    this.previousRotation = this.currentRotation;
+    this.previousTranslation = this.currentTranslation;
+  }
+
   update(timingInfo: PhysicsTimingInfo) {
     const vecCurrentTranslation = new THREE.Vector3().copy(this.currentTranslation);
     const vecPreviousTranslation = new THREE.Vector3().copy(this.previousTranslation || this.currentTranslation);
@@ -70,6 +70,10 @@ export class Motor implements Controller {
   }
 
   async start(): Promise<void> {
+    // The mesh is only for show, so there is no need to load it when running headless
+    if (this.render.isHeadless()) {
+      return;
+    }
     this.mesh = await loadGLTF(this.config.mesh.url, this.config.mesh.dimension);
     this.render.add(this.mesh.scene);
   }
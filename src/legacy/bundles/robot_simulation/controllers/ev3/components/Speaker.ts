@@ -0,0 +1,107 @@
+import type { Controller, Renderer } from '../../../engine';
+import type { PhysicsTimingInfo } from '../../../engine/Physics';
+
+export type SpeakerConfig = {
+  // From 0 to 100
+  volume: number;
+  // Used to estimate how long the EV3 takes to say something
+  wordsPerMinute: number;
+  // Whether the output is also played through the browser
+  audible: boolean;
+};
+
+export type Tone = {
+  frequency: number;
+  duration: number;
+  delay: number;
+};
+
+export type SpeakerOutput = {
+  // Simulated time at which the output started, in milliseconds
+  time: number;
+  duration: number;
+} & ({ type: 'speech'; text: string } | { type: 'tones'; tones: Tone[] });
+
+/**
+ * The speaker of the EV3. Everything it plays is recorded so that the simulator tab can show it,
+ * and is played through the browser if the speaker is audible and the simulation is not headless.
+ */
+export class Speaker implements Controller {
+  render: Renderer;
+  config: SpeakerConfig;
+
+  outputs: SpeakerOutput[] = [];
+  elapsedTime = 0;
+  audioContext: AudioContext | null = null;
+
+  constructor(render: Renderer, config: SpeakerConfig) {
+    this.render = render;
+    this.config = config;
+  }
+
+  fixedUpdate(timingInfo: PhysicsTimingInfo): void {
+    this.elapsedTime += timingInfo.timestep;
+  }
+
+  /**
+   * Says the given text.
+   * @returns The time taken to say it, in milliseconds
+   */
+  speak(text: string): number {
+    const words = text.split(/\s+/)
+      .filter((word) => word !== '').length;
+    const duration = (words / this.config.wordsPerMinute) * 60 * 1000;
+    this.outputs.push({
+      type: 'speech',
+      text,
+      time: this.elapsedTime,
+      duration,
+    });
+
+    if (this.isAudible() && 'speechSynthesis' in window) {
+      const utterance = new SpeechSynthesisUtterance(text);
+      utterance.volume = this.config.volume / 100;
+      window.speechSynthesis.speak(utterance);
+    }
+    return duration;
+  }
+
+  /**
+   * Plays the given tones one after another.
+   * @returns The time taken to play them, in milliseconds
+   */
+  playTones(tones: Tone[]): number {
+    const duration = tones.reduce((total, tone) => total + tone.duration + tone.delay, 0);
+    this.outputs.push({
+      type: 'tones',
+      tones,
+      time: this.elapsedTime,
+      duration,
+    });
+
+    if (this.isAudible() && 'AudioContext' in window) {
+      this.audioContext ??= new AudioContext();
+      const { currentTime } = this.audioContext;
+      const gain = this.audioContext.createGain();
+      gain.gain.value = this.config.volume / 100;
+      gain.connect(this.audioContext.destination);
+
+      let start = currentTime;
+      tones.forEach(({ frequency, duration: toneDuration, delay }) => {
+        const oscillator = this.audioContext!.createOscillator();
+        oscillator.frequency.value = frequency;
+        oscillator.connect(gain);
+        oscillator.start(start);
+        oscillator.stop(start + toneDuration / 1000);
+        start += (toneDuration + delay) / 1000;
+      });
+    }
+    return duration;
+  }
+
+  private isAudible(): boolean {
+    return this.config.audible
+      && !this.render.isHeadless()
+      && typeof window !== 'undefined';
+  }
+}
@@ -2,8 +2,12 @@ import type {
   Ev3ChassisConfig,
   Ev3ColorSensorConfig,
   Ev3Config,
+  Ev3GyroSensorConfig,
+  Ev3LedsConfig,
   Ev3MeshConfig,
   Ev3MotorsConfig,
+  Ev3SpeakerConfig,
+  Ev3TouchSensorConfig,
   Ev3UltrasonicSenorConfig,
   Ev3WheelsConfig,
 } from './types';
@@ -145,11 +149,57 @@ const ultrasonicSensorConfig: Ev3UltrasonicSenorConfig = {
   debug: true,
 };
 
+const gyroSensorConfig: Ev3GyroSensorConfig = {
+  axis: {
+    x: 0,
+    y: -1,
+    z: 0,
+  },
+};
+
+const touchSensorConfig: Ev3TouchSensorConfig = {
+  port: 1,
+  // A bumper across the front of the chassis
+  displacement: {
+    x: 0,
+    y: 0,
+    z: chassisConfig.dimension.length / 2 + 0.01,
+  },
+  dimension: {
+    height: 0.02,
+    width: chassisConfig.dimension.width,
+    length: 0.02,
+  },
+  debug: true,
+};
+
+const ledsConfig: Ev3LedsConfig = {
+  colors: {
+    leftGreenLed: '#00ff00',
+    leftRedLed: '#ff0000',
+    rightGreenLed: '#00ff00',
+    rightRedLed: '#ff0000',
+  },
+  config: {
+    maxBrightness: 255,
+  },
+};
+
+const speakerConfig: Ev3SpeakerConfig = {
+  volume: 100,
+  wordsPerMinute: 160,
+  audible: true,
+};
+
 export const ev3Config: Ev3Config = {
   chassis: chassisConfig,
   motors: motorConfig,
   wheels: wheelConfig,
   colorSensor: colorSensorConfig,
   ultrasonicSensor: ultrasonicSensorConfig,
+  gyroSensor: gyroSensorConfig,
+  touchSensor: touchSensorConfig,
+  leds: ledsConfig,
+  speaker: speakerConfig,
   mesh: meshConfig,
 };
@@ -1,19 +1,25 @@
 import { type Physics, type Renderer, ControllerMap } from '../../../../engine';
 
 import { ChassisWrapper } from '../../components/Chassis';
+import { Led } from '../../components/Led';
 import { Mesh } from '../../components/Mesh';
 import { Motor, type MotorConfig } from '../../components/Motor';
+import { Speaker } from '../../components/Speaker';
 import { Wheel, type WheelConfig } from '../../components/Wheel';
 import { ColorSensor } from '../../sensor/ColorSensor';
+import { GyroSensor } from '../../sensor/GyroSensor';
+import { TouchSensor } from '../../sensor/TouchSensor';
 import { UltrasonicSensor } from '../../sensor/UltrasonicSensor';
 
 import {
   wheelNames,
   motorNames,
+  ledNames,
   type DefaultEv3Controller,
   type Ev3Config,
   type WheelControllers,
   type MotorControllers,
+  type LedControllers,
 } from './types';
 
 export type DefaultEv3 = ControllerMap<DefaultEv3Controller>;
@@ -63,11 +69,38 @@ export const createDefaultEv3 = (
     config.ultrasonicSensor,
   );
 
+  const gyroSensor = new GyroSensor(chassis, config.gyroSensor);
+
+  const touchSensor = new TouchSensor(
+    chassis,
+    physics,
+    render,
+    config.touchSensor,
+  );
+
+  // Leds and speaker
+  const ledControllers = ledNames.reduce((acc, name) => {
+    const led = new Led(name, {
+      ...config.leds.config,
+      color: config.leds.colors[name],
+    });
+    return {
+      ...acc,
+      [name]: led,
+    };
+  }, {} as LedControllers);
+
+  const speaker = new Speaker(render, config.speaker);
+
   const ev3: DefaultEv3 = new ControllerMap<DefaultEv3Controller>({
     ...wheelControllers,
     ...motorControllers,
     colorSensor,
     ultrasonicSensor,
+    gyroSensor,
+    touchSensor,
+    ...ledControllers,
+    speaker,
     mesh,
     chassis,
   });
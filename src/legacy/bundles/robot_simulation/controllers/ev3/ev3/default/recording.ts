@@ -0,0 +1,65 @@
+import type { RecordingChannels } from '../../../../engine/Recording';
+import type { DefaultEv3 } from './ev3';
+
+/**
+ * The motor and sensor values of the EV3 that are recorded with every frame. Values that the
+ * robot would otherwise compute from the physics are restored when the recording is replayed.
+ */
+export const createEv3RecordingChannels = (ev3: DefaultEv3): RecordingChannels => {
+  const leftMotor = ev3.get('leftMotor');
+  const rightMotor = ev3.get('rightMotor');
+  const colorSensor = ev3.get('colorSensor');
+  const ultrasonicSensor = ev3.get('ultrasonicSensor');
+  const gyroSensor = ev3.get('gyroSensor');
+  const touchSensor = ev3.get('touchSensor');
+
+  const colorChannel = (component: 'b' | 'g' | 'r') => ({
+    get: () => colorSensor.colorSensed[component],
+    set: (value: number) => {
+      colorSensor.colorSensed = {
+        ...colorSensor.colorSensed,
+        [component]: value,
+      };
+    },
+  });
+
+  return {
+    leftMotor: {
+      get: () => leftMotor.motorVelocity,
+      set: (value) => {
+        leftMotor.motorVelocity = value;
+      },
+    },
+    rightMotor: {
+      get: () => rightMotor.motorVelocity,
+      set: (value) => {
+        rightMotor.motorVelocity = value;
+      },
+    },
+    colorRed: colorChannel('r'),
+    colorGreen: colorChannel('g'),
+    colorBlue: colorChannel('b'),
+    ultrasonic: {
+      get: () => ultrasonicSensor.sense(),
+      set: (value) => {
+        ultrasonicSensor.distanceSensed = value / 100;
+      },
+    },
+    gyroAngle: {
+      get: () => gyroSensor.angle,
+      set: (value) => {
+        gyroSensor.angle = value;
+      },
+    },
+    gyroRate: {
+      get: () => gyroSensor.rate,
+      set: (value) => {
+        gyroSensor.rate = value;
+      },
+    },
+    // Which colliders are touching the sensor can't be restored, so this is only shown
+    touch: {
+      get: () => (touchSensor.sense() ? 1 : 0),
+    },
+  };
+};
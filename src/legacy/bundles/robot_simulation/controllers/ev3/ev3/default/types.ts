@@ -1,9 +1,13 @@
 import type { SimpleVector } from '../../../../engine/Math/Vector';
 import type { ChassisWrapper, ChassisWrapperConfig } from '../../components/Chassis';
+import type { Led, LedConfig } from '../../components/Led';
 import type { Mesh, MeshConfig } from '../../components/Mesh';
 import type { Motor, MotorConfig } from '../../components/Motor';
+import type { Speaker, SpeakerConfig } from '../../components/Speaker';
 import type { Wheel, WheelConfig } from '../../components/Wheel';
 import type { ColorSensor, ColorSensorConfig } from '../../sensor/ColorSensor';
+import type { GyroSensor, GyroSensorConfig } from '../../sensor/GyroSensor';
+import type { TouchSensor, TouchSensorConfig } from '../../sensor/TouchSensor';
 import type { UltrasonicSensor, UltrasonicSensorConfig } from '../../sensor/UltrasonicSensor';
 
 // ######################### Controller Types #########################
@@ -45,6 +49,31 @@ export type UltrasonicSensorControllers = Record<
   UltrasonicSensor
 >;
 
+// GyroSensor
+export const gyroSensorNames = ['gyroSensor'] as const;
+export type GyroSensorNames = (typeof gyroSensorNames)[number];
+export type GyroSensorControllers = Record<GyroSensorNames, GyroSensor>;
+
+// TouchSensor
+export const touchSensorNames = ['touchSensor'] as const;
+export type TouchSensorNames = (typeof touchSensorNames)[number];
+export type TouchSensorControllers = Record<TouchSensorNames, TouchSensor>;
+
+// Leds
+export const ledNames = [
+  'leftGreenLed',
+  'leftRedLed',
+  'rightGreenLed',
+  'rightRedLed',
+] as const;
+export type LedNames = (typeof ledNames)[number];
+export type LedControllers = Record<LedNames, Led>;
+
+// Speaker
+export const speakerNames = ['speaker'] as const;
+export type SpeakerNames = (typeof speakerNames)[number];
+export type SpeakerControllers = Record<SpeakerNames, Speaker>;
+
 // Aggregate
 export const controllerNames = [
   ...wheelNames,
@@ -53,9 +82,13 @@ export const controllerNames = [
   ...meshNames,
   ...colorSensorNames,
   ...ultrasonicSensorNames,
+  ...gyroSensorNames,
+  ...touchSensorNames,
+  ...ledNames,
+  ...speakerNames,
 ] as const;
 export type DefaultEv3ControllerNames = (typeof controllerNames)[number];
-export type DefaultEv3Controller = ChassisControllers & ColorSensorControllers & MeshControllers & MotorControllers & UltrasonicSensorControllers & WheelControllers;
+export type DefaultEv3Controller = ChassisControllers & ColorSensorControllers & GyroSensorControllers & LedControllers & MeshControllers & MotorControllers & SpeakerControllers & TouchSensorControllers & UltrasonicSensorControllers & WheelControllers;
 
 // ######################### Config Types #########################
 export type Ev3ChassisConfig = ChassisWrapperConfig;
@@ -70,6 +103,13 @@ export type Ev3MotorsConfig = {
 };
 export type Ev3ColorSensorConfig = ColorSensorConfig;
 export type Ev3UltrasonicSenorConfig = UltrasonicSensorConfig;
+export type Ev3GyroSensorConfig = GyroSensorConfig;
+export type Ev3TouchSensorConfig = TouchSensorConfig;
+export type Ev3LedsConfig = {
+  colors: Record<LedNames, string>;
+  config: Omit<LedConfig, 'color'>;
+};
+export type Ev3SpeakerConfig = SpeakerConfig;
 
 export type Ev3Config = {
   chassis: Ev3ChassisConfig
@@ -78,4 +118,8 @@ export type Ev3Config = {
   motors: Ev3MotorsConfig;
   colorSensor: Ev3ColorSensorConfig;
   ultrasonicSensor: Ev3UltrasonicSenorConfig;
+  gyroSensor: Ev3GyroSensorConfig;
+  touchSensor: Ev3TouchSensorConfig;
+  leds: Ev3LedsConfig;
+  speaker: Ev3SpeakerConfig;
 };
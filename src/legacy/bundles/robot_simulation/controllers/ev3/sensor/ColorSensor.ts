@@ -52,6 +52,7 @@ export class ColorSensor implements Sensor<Color> {
       width: this.config.size.width,
       height: this.config.size.height,
       control: 'none',
+      headless: render.isHeadless(),
     });
 
     this.colorSensed = {
@@ -96,6 +97,11 @@ export class ColorSensor implements Sensor<Color> {
     }
     this.accumulator -= tickRateInMilliseconds;
 
+    // Nothing is drawn to sense, and ev3_colorSensor refuses to hand out the sensor
+    if (this.renderer.isHeadless()) {
+      return;
+    }
+
     // We move the camera to the right position
     this.camera.position.copy(this.getColorSensorPosition());
     this.camera.lookAt(
@@ -0,0 +1,51 @@
+import type * as THREE from 'three';
+import { vec3 } from '../../../engine/Math/Convert';
+import type { SimpleVector } from '../../../engine/Math/Vector';
+import type { PhysicsTimingInfo } from '../../../engine/Physics';
+import type { ChassisWrapper } from '../components/Chassis';
+import type { Sensor } from './types';
+
+type GyroReading = { angle: number; rate: number };
+
+export type GyroSensorConfig = {
+  // The axis the sensor measures rotation about, relative to the chassis.
+  // Pointing down makes clockwise turns (seen from above) positive, like a real EV3 gyro.
+  axis: SimpleVector;
+};
+
+/**
+ * A gyro sensor that reads the angular velocity of the chassis and integrates it into an angle,
+ * in the same way as a real gyro, so the angle keeps counting past 360 degrees.
+ */
+export class GyroSensor implements Sensor<GyroReading> {
+  chassisWrapper: ChassisWrapper;
+  axis: THREE.Vector3;
+  config: GyroSensorConfig;
+
+  angle = 0;
+  rate = 0;
+
+  constructor(chassisWrapper: ChassisWrapper, config: GyroSensorConfig) {
+    this.chassisWrapper = chassisWrapper;
+    this.axis = vec3(config.axis)
+      .normalize();
+    this.config = config;
+  }
+
+  sense(): GyroReading {
+    return {
+      angle: this.angle,
+      rate: this.rate,
+    };
+  }
+
+  fixedUpdate(timingInfo: PhysicsTimingInfo): void {
+    const chassis = this.chassisWrapper.getEntity();
+    const globalAxis = chassis.transformDirection(this.axis);
+    const angularVelocity = vec3(chassis.getAngularVelocity());
+
+    // Rapier gives the angular velocity in radians per second
+    this.rate = (angularVelocity.dot(globalAxis) * 180) / Math.PI;
+    this.angle += (this.rate * timingInfo.timestep) / 1000;
+  }
+}
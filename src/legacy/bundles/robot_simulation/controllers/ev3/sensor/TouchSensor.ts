@@ -0,0 +1,113 @@
+import type Rapier from '@dimforge/rapier3d-compat';
+import * as THREE from 'three';
+import type { Renderer } from '../../../engine';
+import type { Dimension, SimpleVector } from '../../../engine/Math/Vector';
+import type { CollisionEvent, Physics } from '../../../engine/Physics';
+import { addCuboid } from '../../../engine/Render/helpers/MeshFactory';
+import type { ChassisWrapper } from '../components/Chassis';
+import type { Sensor } from './types';
+
+export type TouchSensorConfig = {
+  // The EV3 port the sensor is plugged into, from 1 to 4
+  port: number;
+  displacement: SimpleVector;
+  dimension: Dimension;
+  debug: boolean;
+};
+
+/**
+ * A touch sensor, modelled as a sensor collider attached to the chassis. The sensor is pressed
+ * while its collider intersects any other collider, as reported by Rapier's collision events.
+ */
+export class TouchSensor implements Sensor<boolean> {
+  chassisWrapper: ChassisWrapper;
+  physics: Physics;
+  config: TouchSensorConfig;
+
+  collider: Rapier.Collider | null = null;
+  // Handles of the colliders currently touching the sensor
+  touching = new Set<number>();
+  debugMesh: THREE.Mesh;
+
+  constructor(
+    chassisWrapper: ChassisWrapper,
+    physics: Physics,
+    render: Renderer,
+    config: TouchSensorConfig,
+  ) {
+    this.chassisWrapper = chassisWrapper;
+    this.physics = physics;
+    this.config = config;
+
+    this.debugMesh = addCuboid({
+      orientation: {
+        position: config.displacement,
+        rotation: { x: 0, y: 0, z: 0, w: 1 },
+      },
+      dimension: config.dimension,
+      color: new THREE.Color(0xff0000),
+      debug: true,
+    });
+    this.debugMesh.visible = config.debug;
+    render.add(this.debugMesh);
+
+    this.physics.addEventListener('collision', (event) => {
+      this.onCollision(event);
+    });
+  }
+
+  sense(): boolean {
+    return this.touching.size > 0;
+  }
+
+  onCollision({ handle1, handle2, started }: CollisionEvent): void {
+    if (this.collider === null) {
+      return;
+    }
+
+    const { handle } = this.collider;
+    if (handle1 !== handle && handle2 !== handle) {
+      return;
+    }
+
+    const other = handle1 === handle ? handle2 : handle1;
+    if (started) {
+      this.touching.add(other);
+    } else {
+      this.touching.delete(other);
+    }
+  }
+
+  fixedUpdate(): void {
+    // The collider is created lazily because the chassis only exists once the world has started
+    if (this.collider === null) {
+      const { width, height, length } = this.config.dimension;
+      const { RAPIER } = this.physics;
+      const colliderDesc = RAPIER.ColliderDesc.cuboid(width / 2, height / 2, length / 2)
+        .setTranslation(
+          this.config.displacement.x,
+          this.config.displacement.y,
+          this.config.displacement.z,
+        )
+        .setSensor(true)
+        .setDensity(0)
+        .setActiveEvents(RAPIER.ActiveEvents.COLLISION_EVENTS);
+
+      this.collider = this.physics.createCollider(
+        colliderDesc,
+        this.chassisWrapper.getEntity()
+          .getRigidBody(),
+      );
+    }
+  }
+
+  update(): void {
+    if (this.config.debug) {
+      const chassis = this.chassisWrapper.getEntity();
+      this.debugMesh.position.copy(
+        chassis.worldTranslation(new THREE.Vector3().copy(this.config.displacement)),
+      );
+      this.debugMesh.quaternion.copy(chassis.getRotation());
+    }
+  }
+}
@@ -7,6 +7,13 @@ import type { PhysicsTimingInfo } from '../../engine/Physics';
 import { mergeConfig } from '../utils/mergeConfig';
 import { ProgramError } from './error';
 import { runECEvaluator } from './evaluate';
+import {
+  getCurrentLine,
+  getEnvironments,
+  getProgramError,
+  getStash,
+  type EnvironmentFrame,
+} from './inspect';
 
 type ProgramConfig = {
   stepsPerTick: number;
@@ -16,13 +23,29 @@ const defaultProgramConfig: ProgramConfig = {
   stepsPerTick: 11,
 };
 
+// The most steps run in one tick when stepping to the next line, so that a long line cannot freeze
+// the simulation. Stepping carries on in the next tick.
+const maxStepsPerLine = 10000;
+
 export const program_controller_identifier = 'program_controller';
 
 export class Program implements Controller {
   code: string;
   iterator: ReturnType<typeof runECEvaluator> | null;
   isPaused: boolean;
+  isFinished: boolean;
+  // The error that stopped the program, if any
+  error: ProgramError | null = null;
   callbackHandler = new CallbackHandler();
+
+  // Debugging state. isPaused is used by ev3_pause, while isDebugPaused is set by the debugger.
+  isDebugPaused = false;
+  breakpoints = new Set<number>();
+  runToLine: number | null = null;
+  isStepping = false;
+  // The line the program was resumed from, which does not trigger a breakpoint until it is left
+  resumeLine: number | null = null;
+
   name: string;
   config: ProgramConfig;
 
@@ -32,6 +55,7 @@ export class Program implements Controller {
     this.code = code;
     this.iterator = null;
     this.isPaused = false;
+    this.isFinished = false;
   }
 
   pause(pauseDuration: number) {
@@ -41,6 +65,78 @@ export class Program implements Controller {
     }, pauseDuration);
   }
 
+  /**
+   * Pauses the program before its next step.
+   */
+  debugPause() {
+    this.isDebugPaused = true;
+  }
+
+  /**
+   * Resumes the program until the next breakpoint.
+   */
+  debugResume() {
+    this.resumeLine = getCurrentLine(context);
+    this.isDebugPaused = false;
+  }
+
+  /**
+   * Runs the program until it reaches the next line, then pauses it.
+   */
+  debugStep() {
+    this.isStepping = true;
+    this.debugResume();
+  }
+
+  /**
+   * Runs the program until it reaches the given line, then pauses it.
+   */
+  debugRunToLine(line: number) {
+    this.runToLine = line;
+    this.debugResume();
+  }
+
+  toggleBreakpoint(line: number) {
+    if (!this.breakpoints.delete(line)) {
+      this.breakpoints.add(line);
+    }
+  }
+
+  getCurrentLine(): number | null {
+    return getCurrentLine(context);
+  }
+
+  getStash(): string[] {
+    return getStash(context);
+  }
+
+  getEnvironments(): EnvironmentFrame[] {
+    return getEnvironments(context);
+  }
+
+  /**
+   * Checks if the debugger should pause the program before its next step.
+   */
+  private shouldBreak(): boolean {
+    const line = getCurrentLine(context);
+    if (line !== this.resumeLine) {
+      this.resumeLine = null;
+    }
+    if (line === null || this.resumeLine !== null) {
+      return false;
+    }
+
+    if (this.isStepping) {
+      this.isStepping = false;
+      return true;
+    }
+    if (line === this.runToLine) {
+      this.runToLine = null;
+      return true;
+    }
+    return this.breakpoints.has(line);
+  }
+
   start() {
     const options: Partial<IOptions> = {
       originalMaxExecTime: Infinity,
@@ -56,24 +152,43 @@ export class Program implements Controller {
   }
 
   fixedUpdate() {
-    try {
-      if (!this.iterator) {
-        throw Error('Program not started');
-      }
+    if (!this.iterator) {
+      throw new ProgramError(
+        'Error in program execution. Please check your code and try again.',
+      );
+    }
 
-      if (this.isPaused) {
+    try {
+      if (this.isPaused || this.isDebugPaused || this.isFinished) {
         return;
       }
 
       // steps per tick
-      for (let i = 0; i < this.config.stepsPerTick; i++) {
-        this.iterator.next();
+      const steps = this.isStepping ? maxStepsPerLine : this.config.stepsPerTick;
+      for (let i = 0; i < steps; i++) {
+        if (this.shouldBreak()) {
+          this.isDebugPaused = true;
+          break;
+        }
+        if (this.iterator.next().done) {
+          this.isFinished = true;
+          break;
+        }
       }
     } catch (e) {
       console.error(e);
-      throw new ProgramError(
+      this.error = getProgramError(context) ?? new ProgramError(
         'Error in program execution. Please check your code and try again.',
       );
+      throw this.error;
+    }
+
+    // Programs that fail to parse finish without running, with the errors left in the context
+    if (this.isFinished && this.error === null) {
+      this.error = getProgramError(context);
+      if (this.error !== null) {
+        throw this.error;
+      }
     }
   }
 
@@ -1,6 +1,10 @@
 export class ProgramError extends Error {
-  constructor(message) {
+  // The line of the program where the error happened, if it is known
+  line: number | null;
+
+  constructor(message, line: number | null = null) {
     super(message);
     this.name = 'ProgramError';
+    this.line = line;
   }
 }
@@ -0,0 +1,81 @@
+import type { Context, Environment } from 'js-slang/dist/types';
+import { stringify } from 'js-slang/dist/utils/stringify';
+import { ProgramError } from './error';
+
+export type EnvironmentFrame = {
+  name: string;
+  bindings: Record<string, string>;
+};
+
+// Long values are cut short so that the tab stays readable
+const MAX_VALUE_LENGTH = 100;
+
+const stringifyValue = (value: unknown): string => {
+  let result: string;
+  try {
+    result = stringify(value);
+  } catch {
+    result = String(value);
+  }
+  return result.length > MAX_VALUE_LENGTH
+    ? `${result.slice(0, MAX_VALUE_LENGTH)}...`
+    : result;
+};
+
+/**
+ * Gets the line of the program that the CSE machine will evaluate next.
+ * @returns The line, or null if the next control item has no location
+ */
+export function getCurrentLine(context: Context): number | null {
+  const item = context.runtime.control?.peek();
+  if (item === undefined) {
+    return null;
+  }
+  const node = 'instrType' in item ? item.srcNode : item;
+  return node.loc?.start.line ?? null;
+}
+
+/**
+ * Gets the values on the stash, from the bottom to the top.
+ */
+export function getStash(context: Context): string[] {
+  return context.runtime.stash?.getStack()
+    .map(stringifyValue) ?? [];
+}
+
+/**
+ * Gets the bindings of the current environment and its parents, from the innermost outwards.
+ * The global and prelude environments are left out, as they only hold the predeclared names.
+ */
+export function getEnvironments(context: Context): EnvironmentFrame[] {
+  const frames: EnvironmentFrame[] = [];
+  let environment: Environment | null = context.runtime.environments[0] ?? null;
+  while (environment !== null && environment.name !== 'global' && environment.name !== 'prelude') {
+    const bindings: Record<string, string> = {};
+    Object.entries(environment.head)
+      .forEach(([name, value]) => {
+        bindings[name] = stringifyValue(value);
+      });
+    frames.push({ name: environment.name, bindings });
+    environment = environment.tail;
+  }
+  return frames;
+}
+
+/**
+ * Converts the latest error recorded by js-slang into a ProgramError with its location,
+ * in the same format as the errors shown in the REPL.
+ * @returns The ProgramError, or null if js-slang has not recorded any errors
+ */
+export function getProgramError(context: Context): ProgramError | null {
+  const error = context.errors[context.errors.length - 1];
+  if (error === undefined) {
+    return null;
+  }
+
+  const line = error.location?.start?.line ?? -1;
+  const explanation = error.explain();
+  return line < 1
+    ? new ProgramError(explanation)
+    : new ProgramError(`Line ${line}: ${explanation}`, line);
+}
@@ -5,5 +5,6 @@ export const mergeConfig = <T> (defaultConfig:T, userConfig?: DeepPartial<T>) :T
   if (userConfig === undefined) {
     return defaultConfig;
   }
-  return _.merge({ ...defaultConfig }, userConfig);
+  // Merge into a new object, as _.merge would otherwise modify the nested objects of defaultConfig
+  return _.merge({}, defaultConfig, userConfig);
 };
@@ -5,6 +5,8 @@ export interface Controller {
   start?(): Promise<void> | void;
   update?(timingInfo: PhysicsTimingInfo): void;
   fixedUpdate?(timingInfo: PhysicsTimingInfo): void;
+  // Called instead of fixedUpdate when a recording is replayed and the physics is not stepped
+  replay?(timingInfo: PhysicsTimingInfo): void;
   onDestroy?(): void;
 }
 
@@ -48,6 +50,14 @@ implements Controller {
       });
   }
 
+  replay(timingInfo: PhysicsTimingInfo): void {
+    this.callbacks?.replay?.(timingInfo);
+    Object.values(this.map)
+      .forEach((controller) => {
+        controller.replay?.(timingInfo);
+      });
+  }
+
   onDestroy(): void {
     this.callbacks?.onDestroy?.();
     Object.values(this.map)
@@ -84,6 +94,12 @@ export class ControllerGroup implements Controller {
     });
   }
 
+  replay(timingInfo: PhysicsTimingInfo): void {
+    this.controllers.forEach((controller) => {
+      controller.replay?.(timingInfo);
+    });
+  }
+
   onDestroy(): void {
     this.controllers.forEach((controller) => {
       controller.onDestroy?.();
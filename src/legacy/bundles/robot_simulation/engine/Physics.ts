@@ -21,9 +21,24 @@ export class TimeStampedEvent extends Event {
   }
 }
 
+export class CollisionEvent extends Event {
+  handle1: rapier.ColliderHandle;
+  handle2: rapier.ColliderHandle;
+  started: boolean;
+
+  constructor(handle1: rapier.ColliderHandle, handle2: rapier.ColliderHandle, started: boolean) {
+    super('collision');
+    this.handle1 = handle1;
+    this.handle2 = handle2;
+    this.started = started;
+  }
+}
+
 type PhysicsEventMap = {
   beforePhysicsUpdate: TimeStampedEvent;
   afterPhysicsUpdate: TimeStampedEvent;
+  // Only dispatched for colliders with collision events enabled
+  collision: CollisionEvent;
 };
 
 export type PhysicsConfig = {
@@ -38,6 +53,7 @@ type NotInitializedInternals = {
 type InitializedInternals = {
   initialized: true;
   world: rapier.World;
+  eventQueue: rapier.EventQueue;
   accumulator: number;
   stepCount: number;
 };
@@ -68,6 +84,7 @@ export class Physics extends TypedEventTarget<PhysicsEventMap> {
     this.internals = {
       initialized: true,
       world,
+      eventQueue: new rapier.EventQueue(true),
       accumulator: world.timestep,
       stepCount: 0,
     };
@@ -91,6 +108,26 @@ export class Physics extends TypedEventTarget<PhysicsEventMap> {
     return this.internals.world.createCollider(colliderDesc, rigidBody);
   }
 
+  getRigidBodies(): rapier.RigidBody[] {
+    if (this.internals.initialized === false) {
+      throw Error("Physics engine hasn't been initialized yet");
+    }
+
+    const bodies: rapier.RigidBody[] = [];
+    this.internals.world.forEachRigidBody((body) => {
+      bodies.push(body);
+    });
+    return bodies;
+  }
+
+  getRigidBody(handle: rapier.RigidBodyHandle): rapier.RigidBody {
+    if (this.internals.initialized === false) {
+      throw Error("Physics engine hasn't been initialized yet");
+    }
+
+    return this.internals.world.getRigidBody(handle);
+  }
+
   castRay(
     globalPosition: THREE.Vector3,
     globalDirection: THREE.Vector3,
@@ -145,20 +182,7 @@ export class Physics extends TypedEventTarget<PhysicsEventMap> {
     };
 
     while (this.internals.accumulator >= this.configuration.timestep) {
-      this.dispatchEvent(
-        'beforePhysicsUpdate',
-        new TimeStampedEvent('beforePhysicsUpdate', currentPhysicsTimingInfo),
-      );
-
-      this.internals.world.step();
-
-      this.internals.stepCount += 1;
-      currentPhysicsTimingInfo.stepCount = this.internals.stepCount;
-
-      this.dispatchEvent(
-        'afterPhysicsUpdate',
-        new TimeStampedEvent('afterPhysicsUpdate', currentPhysicsTimingInfo),
-      );
+      this.stepWorld(this.internals, currentPhysicsTimingInfo);
 
       this.internals.accumulator -= this.configuration.timestep;
       currentPhysicsTimingInfo.residualFactor = this.internals.accumulator / this.configuration.timestep;
@@ -166,4 +190,46 @@ export class Physics extends TypedEventTarget<PhysicsEventMap> {
 
     return currentPhysicsTimingInfo;
   }
+
+  /**
+   * Steps the physics world exactly once, regardless of how much time has passed. Used to run the
+   * simulation deterministically, without depending on the frame rate.
+   * @param timing - The timing information of the current frame.
+   * @returns The physics timing information after the step.
+   */
+  stepOnce(timing: FrameTimingInfo): PhysicsTimingInfo {
+    if (this.internals.initialized === false) {
+      throw Error("Physics engine hasn't been initialized yet");
+    }
+
+    const currentPhysicsTimingInfo = {
+      ...timing,
+      stepCount: this.internals.stepCount,
+      timestep: this.configuration.timestep * 1000,
+      residualFactor: 0,
+    };
+
+    this.stepWorld(this.internals, currentPhysicsTimingInfo);
+    return currentPhysicsTimingInfo;
+  }
+
+  private stepWorld(internals: InitializedInternals, timingInfo: PhysicsTimingInfo) {
+    this.dispatchEvent(
+      'beforePhysicsUpdate',
+      new TimeStampedEvent('beforePhysicsUpdate', timingInfo),
+    );
+
+    internals.world.step(internals.eventQueue);
+    internals.eventQueue.drainCollisionEvents((handle1, handle2, started) => {
+      this.dispatchEvent('collision', new CollisionEvent(handle1, handle2, started));
+    });
+
+    internals.stepCount += 1;
+    timingInfo.stepCount = internals.stepCount;
+
+    this.dispatchEvent(
+      'afterPhysicsUpdate',
+      new TimeStampedEvent('afterPhysicsUpdate', timingInfo),
+    );
+  }
 }
@@ -0,0 +1,226 @@
+import type rapier from '@dimforge/rapier3d-compat';
+import type { Physics } from './Physics';
+
+/**
+ * A value recorded with every frame, such as the speed of a motor. Channels with a setter have
+ * their value restored when the recording is replayed.
+ */
+export type RecordingChannel = {
+  get: () => number;
+  set?: (value: number) => void;
+};
+
+export type RecordingChannels = Record<string, RecordingChannel>;
+
+export type SimulationRecording = {
+  version: 1;
+  // Time between frames, in milliseconds
+  timestep: number;
+  // Handles of the recorded rigid bodies. A recording can only be replayed in a world that was
+  // built the same way, so that the handles refer to the same bodies.
+  bodies: number[];
+  channels: string[];
+  // Each frame holds the translation (x, y, z) and rotation (x, y, z, w) of every body, followed
+  // by the value of every channel
+  frames: number[][];
+};
+
+const VALUES_PER_BODY = 7;
+
+// Values are rounded to keep recordings small
+const PRECISION = 1e4;
+const round = (value: number) => Math.round(value * PRECISION) / PRECISION;
+
+/**
+ * Records a snapshot of the rigid bodies and channels after every physics step.
+ * Only the rigid bodies that exist when recording starts are recorded.
+ */
+export class Recorder {
+  physics: Physics;
+  channels: RecordingChannels;
+  bodies: number[];
+  frames: number[][] = [];
+
+  constructor(physics: Physics, channels: RecordingChannels) {
+    this.physics = physics;
+    this.channels = channels;
+    this.bodies = physics.getRigidBodies()
+      .map((body) => body.handle);
+  }
+
+  record(): void {
+    const frame: number[] = [];
+    this.bodies.forEach((handle) => {
+      const body = this.physics.getRigidBody(handle);
+      const translation = body.translation();
+      const rotation = body.rotation();
+      frame.push(
+        translation.x,
+        translation.y,
+        translation.z,
+        rotation.x,
+        rotation.y,
+        rotation.z,
+        rotation.w,
+      );
+    });
+    Object.values(this.channels)
+      .forEach((channel) => {
+        frame.push(channel.get());
+      });
+    this.frames.push(frame.map(round));
+  }
+
+  getRecording(): SimulationRecording {
+    return {
+      version: 1,
+      timestep: this.physics.configuration.timestep * 1000,
+      bodies: [...this.bodies],
+      channels: Object.keys(this.channels),
+      frames: [...this.frames],
+    };
+  }
+}
+
+/**
+ * Plays a recording back by moving the rigid bodies to their recorded transforms, without
+ * stepping the physics.
+ */
+export class Replayer {
+  recording: SimulationRecording;
+  // Time since the start of the recording, in milliseconds
+  time = 0;
+  speed = 1;
+  isPlaying = true;
+
+  constructor(recording: SimulationRecording) {
+    this.recording = recording;
+  }
+
+  getFrameCount(): number {
+    return this.recording.frames.length;
+  }
+
+  getFrameIndex(): number {
+    return Math.min(
+      Math.floor(this.time / this.recording.timestep),
+      Math.max(this.getFrameCount() - 1, 0),
+    );
+  }
+
+  getDuration(): number {
+    return Math.max(this.getFrameCount() - 1, 0) * this.recording.timestep;
+  }
+
+  seek(frameIndex: number): void {
+    const lastFrame = Math.max(this.getFrameCount() - 1, 0);
+    this.time = Math.min(Math.max(frameIndex, 0), lastFrame) * this.recording.timestep;
+  }
+
+  /**
+   * Moves the playback forward, stopping at the end of the recording.
+   * @param duration Real time that has passed, in milliseconds
+   */
+  advance(duration: number): void {
+    if (!this.isPlaying) {
+      return;
+    }
+    this.time += duration * this.speed;
+    if (this.time >= this.getDuration()) {
+      this.time = this.getDuration();
+      this.isPlaying = false;
+    }
+  }
+
+  getChannelValues(): Record<string, number> {
+    const frame = this.recording.frames[this.getFrameIndex()] ?? [];
+    const offset = this.recording.bodies.length * VALUES_PER_BODY;
+    const values: Record<string, number> = {};
+    this.recording.channels.forEach((name, i) => {
+      values[name] = frame[offset + i];
+    });
+    return values;
+  }
+
+  /**
+   * Moves the rigid bodies to their transforms in the current frame, and restores the channels.
+   */
+  apply(physics: Physics, channels: RecordingChannels): void {
+    const frame = this.recording.frames[this.getFrameIndex()];
+    if (frame === undefined) {
+      return;
+    }
+
+    this.recording.bodies.forEach((handle, i) => {
+      const [x, y, z, rx, ry, rz, rw] = frame.slice(i * VALUES_PER_BODY, (i + 1) * VALUES_PER_BODY);
+      // checkRecordingBodies reports missing bodies before a replay starts
+      const body: rapier.RigidBody | null | undefined = physics.getRigidBody(handle);
+      if (!body) {
+        return;
+      }
+      body.setTranslation({ x, y, z }, false);
+      body.setRotation({ x: rx, y: ry, z: rz, w: rw }, false);
+    });
+
+    Object.entries(this.getChannelValues())
+      .forEach(([name, value]) => {
+        channels[name]?.set?.(value);
+      });
+  }
+}
+
+/**
+ * Parses a recording exported as JSON, checking that it is well formed.
+ * @throws If the JSON is malformed or is not a recording
+ */
+export function parseRecording(json: string): SimulationRecording {
+  let recording: SimulationRecording;
+  try {
+    recording = JSON.parse(json);
+  } catch (e) {
+    throw new Error(`Recording is not valid JSON: ${(e as Error).message}`);
+  }
+
+  const isNumberArray = (value: unknown) => Array.isArray(value)
+    && value.every((n) => typeof n === 'number');
+
+  if (recording?.version !== 1) {
+    throw new Error('Invalid recording: unsupported version');
+  }
+  if (typeof recording.timestep !== 'number' || recording.timestep <= 0) {
+    throw new Error('Invalid recording: timestep must be a positive number');
+  }
+  if (!isNumberArray(recording.bodies)) {
+    throw new Error('Invalid recording: bodies must be an array of numbers');
+  }
+  if (!Array.isArray(recording.channels) || !recording.channels.every((name) => typeof name === 'string')) {
+    throw new Error('Invalid recording: channels must be an array of strings');
+  }
+
+  const frameLength = recording.bodies.length * VALUES_PER_BODY + recording.channels.length;
+  if (!Array.isArray(recording.frames)) {
+    throw new Error('Invalid recording: frames must be an array');
+  }
+  recording.frames.forEach((frame, i) => {
+    if (!isNumberArray(frame) || frame.length !== frameLength) {
+      throw new Error(`Invalid recording: frame ${i} must be an array of ${frameLength} numbers`);
+    }
+  });
+  return recording;
+}
+
+/**
+ * Checks that every rigid body of a recording exists in the world it is about to be replayed in.
+ * @throws If a recorded body is missing, such as when the recording was made by another program
+ */
+export function checkRecordingBodies(recording: SimulationRecording, physics: Physics): void {
+  const handles = new Set(physics.getRigidBodies()
+    .map((body) => body.handle));
+  const missing = recording.bodies.filter((handle) => !handles.has(handle));
+  if (missing.length > 0) {
+    throw new Error(
+      `Recording cannot be replayed: this world has no rigid bodies with handles ${missing.join(', ')}. `
+      + 'Run the program that made the recording before replaying it.',
+    );
+  }
+}
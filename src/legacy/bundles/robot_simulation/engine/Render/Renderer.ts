@@ -11,7 +11,10 @@ type ControlType = 'none' | 'orbit';
 export type RenderConfig = {
   width: number;
   height: number;
-  control: ControlType
+  control: ControlType;
+  // A headless renderer keeps track of the scene but never draws it, so that
+  // the simulation can run without WebGL
+  headless?: boolean;
 };
 
 export class Renderer {
@@ -19,8 +22,8 @@ export class Renderer {
 
   #scene: THREE.Scene;
   #camera: THREE.Camera;
-  #renderer: THREE.WebGLRenderer;
-  #controls: OrbitControls;
+  #renderer: THREE.WebGLRenderer | null = null;
+  #controls: OrbitControls | null = null;
 
   constructor(
     scene: THREE.Scene,
@@ -29,13 +32,16 @@ export class Renderer {
   ) {
     this.#camera = camera;
     this.#scene = scene;
-    this.#renderer = new THREE.WebGLRenderer({ antialias: true });
-    this.#renderer.shadowMap.enabled = true;
 
-    this.#controls = new OrbitControls(this.#camera, this.#renderer.domElement);
+    if (!configuration.headless) {
+      this.#renderer = new THREE.WebGLRenderer({ antialias: true });
+      this.#renderer.shadowMap.enabled = true;
 
-    this.#renderer.setSize(configuration.width, configuration.height);
-    this.#renderer.setPixelRatio(window.devicePixelRatio * 1.5);
+      this.#controls = new OrbitControls(this.#camera, this.#renderer.domElement);
+
+      this.#renderer.setSize(configuration.width, configuration.height);
+      this.#renderer.setPixelRatio(window.devicePixelRatio * 1.5);
+    }
 
     const light = new THREE.PointLight(0xffffff, 1);
     const ambient = new THREE.AmbientLight(0xffffff, 0.20);
@@ -56,11 +62,18 @@ export class Renderer {
     return this.#scene;
   }
 
+  isHeadless(): boolean {
+    return this.#renderer === null;
+  }
+
   render() {
-    return this.#renderer.render(this.#scene, this.#camera);
+    return this.#renderer?.render(this.#scene, this.#camera);
   }
 
   getElement(): HTMLCanvasElement {
+    if (this.#renderer === null) {
+      throw new Error('A headless renderer has no element');
+    }
     return this.#renderer.domElement;
   }
 
@@ -72,6 +85,6 @@ export class Renderer {
 
   step(_: FrameTimingInfo) {
     this.render();
-    this.#controls.update();
+    this.#controls?.update();
   }
 }
@@ -2,8 +2,15 @@ import { ProgramError } from '../controllers/program/error';
 import { type Controller, ControllerGroup } from './Core/Controller';
 import { TypedEventTarget } from './Core/Events';
 import type { RobotConsole } from './Core/RobotConsole';
-import type { Timer } from './Core/Timer';
-import { TimeStampedEvent, type Physics } from './Physics';
+import type { FrameTimingInfo, Timer } from './Core/Timer';
+import { TimeStampedEvent, type Physics, type PhysicsTimingInfo } from './Physics';
+import {
+  checkRecordingBodies,
+  Recorder,
+  Replayer,
+  type RecordingChannels,
+  type SimulationRecording,
+} from './Recording';
 import type { Renderer } from './Render/Renderer';
 
 export const worldStates = [
@@ -20,6 +27,8 @@ type WorldEventMap = {
   worldStateChange: Event;
   beforeRender: TimeStampedEvent;
   afterRender: TimeStampedEvent;
+  // Dispatched instead of stepping the physics while a recording is replayed
+  replayFrame: TimeStampedEvent;
 };
 
 export class World extends TypedEventTarget<WorldEventMap> {
@@ -29,6 +38,11 @@ export class World extends TypedEventTarget<WorldEventMap> {
   timer: Timer;
   robotConsole: RobotConsole;
   controllers: ControllerGroup;
+  // Controllers that are still starting, e.g. loading their meshes
+  private starting: Promise<void>[] = [];
+  recorder: Recorder | null = null;
+  replayer: Replayer | null = null;
+  private replayChannels: RecordingChannels = {};
 
   constructor(
     physics: Physics,
@@ -50,7 +64,7 @@ export class World extends TypedEventTarget<WorldEventMap> {
 
     this.addEventListener('worldStart', () => {
       controllers.forEach((controller) => {
-        controller.start?.();
+        this.starting.push(Promise.resolve(controller.start?.()));
       });
     });
 
@@ -65,12 +79,22 @@ export class World extends TypedEventTarget<WorldEventMap> {
         controller.fixedUpdate?.(e.frameTimingInfo);
       });
     });
+
+    this.addEventListener('replayFrame', (e) => {
+      controllers.forEach((controller) => {
+        controller.replay?.(e.frameTimingInfo);
+      });
+    });
   }
 
   async init() {
     this.setState('loading');
     await this.physics.start();
+    this.physics.addEventListener('afterPhysicsUpdate', () => {
+      this.recorder?.record();
+    });
     this.dispatchEvent('worldStart', new Event('worldStart'));
+    await Promise.all(this.starting);
     this.setState('ready');
   }
 
@@ -93,11 +117,50 @@ export class World extends TypedEventTarget<WorldEventMap> {
     }
   }
 
+  /**
+   * Starts recording the rigid bodies of the world and the given channels after every physics step.
+   * Any previous recording is discarded.
+   */
+  startRecording(channels: RecordingChannels = {}) {
+    this.recorder = new Recorder(this.physics, channels);
+  }
+
+  /**
+   * Stops recording.
+   * @returns The recording, or null if the world was not being recorded.
+   */
+  stopRecording(): SimulationRecording | null {
+    const recording = this.recorder?.getRecording() ?? null;
+    this.recorder = null;
+    return recording;
+  }
+
+  /**
+   * Replays a recording instead of running the simulation. Until the replay is stopped, the physics
+   * is not stepped, so the program does not run and the controllers get replay calls instead of
+   * fixed updates.
+   * @param channels The channels to restore, usually the same as the ones recorded.
+   * @throws If the recording has rigid bodies that are not in this world
+   */
+  startReplay(recording: SimulationRecording, channels: RecordingChannels = {}) {
+    checkRecordingBodies(recording, this.physics);
+    this.recorder = null;
+    this.replayer = new Replayer(recording);
+    this.replayChannels = channels;
+  }
+
+  stopReplay() {
+    this.replayer = null;
+    this.replayChannels = {};
+  }
+
   step(timestamp: number) {
     try {
       const frameTimingInfo = this.timer.step(timestamp);
 
-      const physicsTimingInfo = this.physics.step(frameTimingInfo);
+      const physicsTimingInfo = this.replayer === null
+        ? this.physics.step(frameTimingInfo)
+        : this.stepReplay(this.replayer, frameTimingInfo);
 
       // Update render
       this.dispatchEvent(
@@ -115,10 +178,10 @@ export class World extends TypedEventTarget<WorldEventMap> {
       }
     } catch (e) {
       console.log('Error caught', e);
-      if (e instanceof Error) {
-        this.robotConsole.log(e.message, 'error');
-      } else if (e instanceof ProgramError) {
+      if (e instanceof ProgramError) {
         this.robotConsole.log(e.message, 'source');
+      } else if (e instanceof Error) {
+        this.robotConsole.log(e.message, 'error');
       } else {
         // e is not an error. Just log a generic error message
         this.robotConsole.log('An error occurred', 'error');
@@ -126,4 +189,53 @@ export class World extends TypedEventTarget<WorldEventMap> {
       this.setState('error');
     }
   }
+
+  private stepReplay(replayer: Replayer, frameTimingInfo: FrameTimingInfo): PhysicsTimingInfo {
+    replayer.advance(frameTimingInfo.frameDuration);
+    replayer.apply(this.physics, this.replayChannels);
+
+    // The step count is left as it is, so that controllers keeping time by steps stay paused
+    const physicsTimingInfo: PhysicsTimingInfo = {
+      ...frameTimingInfo,
+      stepCount: this.physics.internals.initialized ? this.physics.internals.stepCount : 0,
+      timestep: replayer.recording.timestep,
+      residualFactor: 0,
+    };
+    this.dispatchEvent(
+      'replayFrame',
+      new TimeStampedEvent('replayFrame', physicsTimingInfo)
+    );
+    return physicsTimingInfo;
+  }
+
+  /**
+   * Advances the world by exactly one physics timestep without drawing anything, so that the
+   * simulation runs the same way every time. Unlike {@link step}, errors are thrown to the caller.
+   * @returns The physics timing information after the step.
+   */
+  stepFixed(): PhysicsTimingInfo {
+    const timestep = this.physics.configuration.timestep * 1000;
+    const elapsedTime = this.physics.internals.initialized
+      ? this.physics.internals.stepCount * timestep
+      : 0;
+    const frameTimingInfo: FrameTimingInfo = {
+      elapsedTimeReal: elapsedTime,
+      elapsedTimeSimulated: elapsedTime,
+      frameDuration: timestep,
+      framesPerSecond: 1000 / timestep,
+    };
+
+    const physicsTimingInfo = this.physics.stepOnce(frameTimingInfo);
+
+    // Controllers still get their update calls, as some of them keep time there
+    this.dispatchEvent(
+      'beforeRender',
+      new TimeStampedEvent('beforeRender', physicsTimingInfo)
+    );
+    this.dispatchEvent(
+      'afterRender',
+      new TimeStampedEvent('afterRender', physicsTimingInfo)
+    );
+    return physicsTimingInfo;
+  }
 }
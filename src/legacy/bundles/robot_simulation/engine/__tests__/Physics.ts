@@ -14,6 +14,9 @@ jest.mock('@dimforge/rapier3d-compat', () => {
       step: jest.fn(),
       castRay: jest.fn(),
     })),
+    EventQueue: jest.fn().mockImplementation(() => ({
+      drainCollisionEvents: jest.fn(),
+    })),
     Ray: jest.fn(),
     RigidBodyDesc: jest.fn(),
     ColliderDesc: jest.fn(),
@@ -98,6 +101,24 @@ describe('Physics', () => {
     expect(physics.internals.world.step).toHaveBeenCalledTimes(2);
   });
 
+  test('stepOnce advances physics world by exactly one timestep', async () => {
+    await physics.start(); // Initialize
+    const beforeListener = jest.fn();
+    physics.addEventListener('beforePhysicsUpdate', beforeListener);
+
+    const timingInfo = physics.stepOnce({ frameDuration: 1000 });
+    expect(physics.internals.world.step).toHaveBeenCalledTimes(1);
+    expect(beforeListener).toHaveBeenCalledTimes(1);
+    expect(timingInfo.stepCount).toBe(1);
+    expect(physics.internals.accumulator).toBe(physics.configuration.timestep);
+  });
+
+  test('stepOnce throws if not initialized', () => {
+    expect(() => {
+      physics.stepOnce({ frameDuration: 1000 / 60 });
+    }).toThrow("Physics engine hasn't been initialized yet");
+  });
+
   test('castRay throws if not initialized', () => {
     expect(() => {
       physics.castRay({}, {}, 100);
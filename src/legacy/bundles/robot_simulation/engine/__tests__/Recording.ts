@@ -0,0 +1,145 @@
+import { Recorder, Replayer, checkRecordingBodies, parseRecording, type SimulationRecording } from '../Recording';
+
+const createBody = (handle: number) => {
+  const body = {
+    handle,
+    position: { x: 0, y: 0, z: 0 },
+    quaternion: { x: 0, y: 0, z: 0, w: 1 },
+    translation: () => body.position,
+    rotation: () => body.quaternion,
+    setTranslation: jest.fn((position) => {
+      body.position = position;
+    }),
+    setRotation: jest.fn((quaternion) => {
+      body.quaternion = quaternion;
+    }),
+  };
+  return body;
+};
+
+const createPhysics = (bodies: ReturnType<typeof createBody>[]) => ({
+  configuration: { timestep: 1 / 20 },
+  getRigidBodies: () => bodies,
+  getRigidBody: (handle: number) => bodies.find((body) => body.handle === handle),
+}) as any;
+
+const recording: SimulationRecording = {
+  version: 1,
+  timestep: 50,
+  bodies: [3],
+  channels: ['speed'],
+  frames: [
+    [0, 0, 0, 0, 0, 0, 1, 10],
+    [1, 0, 0, 0, 0, 0, 1, 20],
+    [2, 0, 0, 0, 0, 0, 1, 30],
+  ],
+};
+
+describe('Recorder', () => {
+  test('records the bodies and channels of every frame', () => {
+    const body = createBody(3);
+    let speed = 10;
+    const recorder = new Recorder(createPhysics([body]), {
+      speed: { get: () => speed },
+    });
+
+    recorder.record();
+    body.position = { x: 1.234567, y: 0, z: 0 };
+    speed = 20;
+    recorder.record();
+
+    expect(recorder.getRecording()).toEqual({
+      version: 1,
+      timestep: 50,
+      bodies: [3],
+      channels: ['speed'],
+      frames: [
+        [0, 0, 0, 0, 0, 0, 1, 10],
+        [1.2346, 0, 0, 0, 0, 0, 1, 20],
+      ],
+    });
+  });
+
+  test('recordings survive being exported and imported', () => {
+    const recorder = new Recorder(createPhysics([createBody(0)]), {});
+    recorder.record();
+
+    const exported = JSON.stringify(recorder.getRecording());
+    expect(parseRecording(exported)).toEqual(recorder.getRecording());
+  });
+});
+
+describe('Replayer', () => {
+  test('advances through the frames at the given speed and stops at the end', () => {
+    const replayer = new Replayer(recording);
+    expect(replayer.getFrameIndex()).toBe(0);
+
+    replayer.advance(50);
+    expect(replayer.getFrameIndex()).toBe(1);
+
+    replayer.speed = 4;
+    replayer.advance(50);
+    expect(replayer.getFrameIndex()).toBe(2);
+    expect(replayer.isPlaying).toBe(false);
+
+    replayer.advance(50);
+    expect(replayer.getFrameIndex()).toBe(2);
+  });
+
+  test('seek clamps to the recorded frames', () => {
+    const replayer = new Replayer(recording);
+    replayer.seek(1);
+    expect(replayer.getFrameIndex()).toBe(1);
+    replayer.seek(10);
+    expect(replayer.getFrameIndex()).toBe(2);
+    replayer.seek(-1);
+    expect(replayer.getFrameIndex()).toBe(0);
+  });
+
+  test('apply moves the bodies and restores the channels', () => {
+    const body = createBody(3);
+    const set = jest.fn();
+    const replayer = new Replayer(recording);
+    replayer.seek(2);
+
+    replayer.apply(createPhysics([body]), { speed: { get: () => 0, set } });
+
+    expect(body.setTranslation).toHaveBeenCalledWith({ x: 2, y: 0, z: 0 }, false);
+    expect(body.setRotation).toHaveBeenCalledWith({ x: 0, y: 0, z: 0, w: 1 }, false);
+    expect(set).toHaveBeenCalledWith(30);
+    expect(replayer.getChannelValues()).toEqual({ speed: 30 });
+  });
+
+  test('apply skips bodies that are not in the world', () => {
+    const replayer = new Replayer(recording);
+    expect(() => replayer.apply(createPhysics([]), {})).not.toThrow();
+  });
+});
+
+describe('parseRecording', () => {
+  test('rejects malformed JSON', () => {
+    expect(() => parseRecording('{')).toThrow('Recording is not valid JSON');
+  });
+
+  test('rejects other versions', () => {
+    expect(() => parseRecording(JSON.stringify({ ...recording, version: 2 })))
+      .toThrow('Invalid recording: unsupported version');
+  });
+
+  test('rejects frames of the wrong length', () => {
+    const frames = [[0, 0, 0]];
+    expect(() => parseRecording(JSON.stringify({ ...recording, frames })))
+      .toThrow('Invalid recording: frame 0 must be an array of 8 numbers');
+  });
+});
+
+describe('checkRecordingBodies', () => {
+  test('accepts worlds with every recorded body', () => {
+    expect(() => checkRecordingBodies(recording, createPhysics([createBody(3), createBody(4)]))).not.toThrow();
+  });
+
+  test('rejects worlds that are missing a recorded body', () => {
+    expect(() => checkRecordingBodies(recording, createPhysics([createBody(4)])))
+      .toThrow('this world has no rigid bodies with handles 3');
+  });
+});
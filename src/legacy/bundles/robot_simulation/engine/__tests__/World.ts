@@ -0,0 +1,106 @@
+import { Physics } from '../Physics';
+import { World } from '../World';
+
+jest.mock('@dimforge/rapier3d-compat', () => {
+  return {
+    init: jest.fn(),
+    World: jest.fn().mockImplementation(() => ({
+      timestep: jest.fn(),
+      step: jest.fn(),
+    })),
+    EventQueue: jest.fn().mockImplementation(() => ({
+      drainCollisionEvents: jest.fn(),
+    })),
+  };
+});
+
+describe('World', () => {
+  let physics: Physics;
+  let render: any;
+  let world: World;
+
+  beforeEach(() => {
+    physics = new Physics({ gravity: { x: 0, y: -9.81, z: 0 }, timestep: 1 / 20 });
+    render = { step: jest.fn() };
+    world = new World(physics, render, {} as any, { log: jest.fn() } as any);
+  });
+
+  test('init waits for the controllers to start', async () => {
+    let started = false;
+    world.addController({
+      start: async () => {
+        await Promise.resolve();
+        started = true;
+      },
+    });
+
+    await world.init();
+    expect(started).toBe(true);
+    expect(world.state).toBe('ready');
+  });
+
+  test('stepFixed steps the physics once and updates the controllers without rendering', async () => {
+    const controller = { update: jest.fn(), fixedUpdate: jest.fn() };
+    world.addController(controller);
+    await world.init();
+
+    world.stepFixed();
+    const timingInfo = world.stepFixed();
+
+    expect(timingInfo.stepCount).toBe(2);
+    expect(timingInfo.elapsedTimeSimulated).toBe(50);
+    expect(controller.fixedUpdate).toHaveBeenCalledTimes(2);
+    expect(controller.update).toHaveBeenCalledTimes(2);
+    expect(render.step).not.toHaveBeenCalled();
+  });
+
+  test('stepFixed throws errors to the caller', async () => {
+    world.addController({
+      fixedUpdate: () => {
+        throw new Error('Controller error');
+      },
+    });
+    await world.init();
+
+    expect(() => world.stepFixed()).toThrow('Controller error');
+  });
+
+  test('step replays a recording without stepping the physics', async () => {
+    const controller = { fixedUpdate: jest.fn(), replay: jest.fn() };
+    world.addController(controller);
+    world.timer = { step: () => ({ frameDuration: 50 }) } as any;
+    await world.init();
+    const body = { handle: 0, setTranslation: jest.fn(), setRotation: jest.fn() };
+    physics.getRigidBodies = jest.fn(() => [body]) as any;
+    physics.getRigidBody = jest.fn(() => body) as any;
+    const stepSpy = jest.spyOn(physics, 'step');
+
+    world.startReplay({
+      version: 1,
+      timestep: 50,
+      bodies: [0],
+      channels: [],
+      frames: [[0, 0, 0, 0, 0, 0, 1], [1, 2, 3, 0, 0, 0, 1]],
+    });
+    world.step(0);
+
+    expect(stepSpy).not.toHaveBeenCalled();
+    expect(controller.fixedUpdate).not.toHaveBeenCalled();
+    expect(controller.replay).toHaveBeenCalledTimes(1);
+    expect(body.setTranslation).toHaveBeenCalledWith({ x: 1, y: 2, z: 3 }, false);
+  });
+
+  test('startReplay rejects recordings of bodies that are not in the world', async () => {
+    await world.init();
+    physics.getRigidBodies = jest.fn(() => []) as any;
+
+    expect(() => world.startReplay({
+      version: 1,
+      timestep: 50,
+      bodies: [0],
+      channels: [],
+      frames: [[0, 0, 0, 0, 0, 0, 1]],
+    })).toThrow('Recording cannot be replayed');
+    expect(world.replayer).toBeNull();
+  });
+});
@@ -1,6 +1,10 @@
+import type { Led } from './controllers/ev3/components/Led';
 import type { Motor } from './controllers/ev3/components/Motor';
+import type { Tone } from './controllers/ev3/components/Speaker';
 import { motorConfig } from './controllers/ev3/ev3/default/config';
 import type { ColorSensor } from './controllers/ev3/sensor/ColorSensor';
+import type { GyroSensor } from './controllers/ev3/sensor/GyroSensor';
+import type { TouchSensor } from './controllers/ev3/sensor/TouchSensor';
 import type { UltrasonicSensor } from './controllers/ev3/sensor/UltrasonicSensor';
 import {
   program_controller_identifier,
@@ -10,6 +14,7 @@ import {
 import { getEv3FromContext, getWorldFromContext } from './helper_functions';
 
 type MotorFunctionReturnType = Motor | null;
+type TouchSensorFunctionReturnType = TouchSensor | null;
 
 /**
  * @categoryDescription EV3
@@ -157,13 +162,20 @@ export function ev3_motorGetSpeed(motor: MotorFunctionReturnType): number {
 /**
  * Gets the colour sensor connected any of ports 1, 2, 3 or 4.
  *
+ * The colour sensor sees what is drawn below it, so it cannot be used in simulations that are
+ * not drawn.
+ *
  * @returns The colour sensor
  *
  * @category EV3
  */
 export function ev3_colorSensor() {
   const ev3 = getEv3FromContext();
-  return ev3.get('colorSensor');
+  const colorSensor = ev3.get('colorSensor');
+  if (colorSensor.renderer.isHeadless()) {
+    throw new Error('ev3_colorSensor cannot be used in a headless simulation, as nothing is drawn for the sensor to see');
+  }
+  return colorSensor;
 }
 
 /**
@@ -227,6 +239,233 @@ export function ev3_ultrasonicSensorDistance(
   return ultraSonicSensor.sense();
 }
 
+/**
+ * Gets the gyro sensor connected any of ports 1, 2, 3 or 4.
+ *
+ * @returns The gyro sensor
+ *
+ * @category EV3
+ */
+export function ev3_gyroSensor() {
+  const ev3 = getEv3FromContext();
+  return ev3.get('gyroSensor');
+}
+
+/**
+ * Gets the absolute angle the gyro sensor has turned since the start of the program.
+ * Clockwise turns are positive.
+ *
+ * @param gyroSensor The gyro sensor
+ * @returns The angle, in degrees.
+ *
+ * @category EV3
+ */
+export function ev3_gyroSensorAngle(gyroSensor: GyroSensor): number {
+  return gyroSensor.sense().angle;
+}
+
+/**
+ * Gets the rate at which the gyro sensor is turning.
+ * Clockwise turns are positive.
+ *
+ * @param gyroSensor The gyro sensor
+ * @returns The rate, in degrees per second.
+ *
+ * @category EV3
+ */
+export function ev3_gyroSensorRate(gyroSensor: GyroSensor): number {
+  return gyroSensor.sense().rate;
+}
+
+function getTouchSensorOnPort(port: number): TouchSensorFunctionReturnType {
+  const touchSensor = getEv3FromContext()
+    .get('touchSensor');
+  return touchSensor.config.port === port ? touchSensor : null;
+}
+
+/**
+ * Gets the touch sensor connected to port 1.
+ *
+ * @returns The touch sensor, or null if it is connected to another port.
+ *
+ * @category EV3
+ */
+export function ev3_touchSensor1(): TouchSensorFunctionReturnType {
+  return getTouchSensorOnPort(1);
+}
+
+/**
+ * Gets the touch sensor connected to port 2.
+ *
+ * @returns The touch sensor, or null if it is connected to another port.
+ *
+ * @category EV3
+ */
+export function ev3_touchSensor2(): TouchSensorFunctionReturnType {
+  return getTouchSensorOnPort(2);
+}
+
+/**
+ * Gets the touch sensor connected to port 3.
+ *
+ * @returns The touch sensor, or null if it is connected to another port.
+ *
+ * @category EV3
+ */
+export function ev3_touchSensor3(): TouchSensorFunctionReturnType {
+  return getTouchSensorOnPort(3);
+}
+
+/**
+ * Gets the touch sensor connected to port 4.
+ *
+ * @returns The touch sensor, or null if it is connected to another port.
+ *
+ * @category EV3
+ */
+export function ev3_touchSensor4(): TouchSensorFunctionReturnType {
+  return getTouchSensorOnPort(4);
+}
+
+/**
+ * Checks if the touch sensor is pressed.
+ *
+ * Returns false if the touch sensor is not connected.
+ *
+ * @param touchSensor The touch sensor
+ * @returns Whether the touch sensor is pressed.
+ *
+ * @category EV3
+ */
+export function ev3_touchSensorPressed(
+  touchSensor: TouchSensorFunctionReturnType
+): boolean {
+  if (touchSensor === null) {
+    return false;
+  }
+
+  return touchSensor.sense();
+}
+
+/**
+ * Makes the EV3 speak the given words, and waits until it is done.
+ *
+ * @param words The words to speak.
+ *
+ * @category EV3
+ */
+export function ev3_speak(words: string): void {
+  const ev3 = getEv3FromContext();
+  const duration = ev3.get('speaker')
+    .speak(words);
+  ev3_pause(duration);
+}
+
+/**
+ * Plays a sequence of tones, and waits until it is done.
+ *
+ * The sequence is an array where every 3 elements are the frequency of a tone in Hz,
+ * its duration in milliseconds, and the delay before the next tone in milliseconds.
+ *
+ * @param sequence The sequence of tones to play.
+ *
+ * @category EV3
+ */
+export function ev3_playSequence(sequence: number[]): void {
+  if (!Array.isArray(sequence) || sequence.length % 3 !== 0) {
+    throw new Error(
+      'ev3_playSequence expects an array of frequency, duration and delay triples'
+    );
+  }
+
+  const tones: Tone[] = [];
+  for (let i = 0; i < sequence.length; i += 3) {
+    tones.push({
+      frequency: sequence[i],
+      duration: sequence[i + 1],
+      delay: sequence[i + 2],
+    });
+  }
+
+  const ev3 = getEv3FromContext();
+  const duration = ev3.get('speaker')
+    .playTones(tones);
+  ev3_pause(duration);
+}
+
+/**
+ * Gets the left green LED.
+ *
+ * @returns The left green LED
+ *
+ * @category EV3
+ */
+export function ev3_ledLeftGreen(): Led {
+  const ev3 = getEv3FromContext();
+  return ev3.get('leftGreenLed');
+}
+
+/**
+ * Gets the left red LED.
+ *
+ * @returns The left red LED
+ *
+ * @category EV3
+ */
+export function ev3_ledLeftRed(): Led {
+  const ev3 = getEv3FromContext();
+  return ev3.get('leftRedLed');
+}
+
+/**
+ * Gets the right green LED.
+ *
+ * @returns The right green LED
+ *
+ * @category EV3
+ */
+export function ev3_ledRightGreen(): Led {
+  const ev3 = getEv3FromContext();
+  return ev3.get('rightGreenLed');
+}
+
+/**
+ * Gets the right red LED.
+ *
+ * @returns The right red LED
+ *
+ * @category EV3
+ */
+export function ev3_ledRightRed(): Led {
+  const ev3 = getEv3FromContext();
+  return ev3.get('rightRedLed');
+}
+
+/**
+ * Gets the brightness of the given LED.
+ *
+ * @param led The LED
+ * @returns The brightness, from 0 to 255.
+ *
+ * @category EV3
+ */
+export function ev3_ledGetBrightness(led: Led): number {
+  return led.getBrightness();
+}
+
+/**
+ * Sets the brightness of the given LED.
+ * Brightness values outside the range are clamped.
+ *
+ * @param led The LED
+ * @param brightness The brightness, from 0 to 255.
+ *
+ * @category EV3
+ */
+export function ev3_ledSetBrightness(led: Led, brightness: number): void {
+  led.setBrightness(brightness);
+}
+
 /**
  * Checks if the peripheral is connected.
  *
@@ -8,7 +8,12 @@ import {
   createDefaultEv3,
   type DefaultEv3,
 } from './controllers/ev3/ev3/default/ev3';
-import { Program } from './controllers/program/Program';
+import type { Ev3Config } from './controllers/ev3/ev3/default/types';
+import {
+  Program,
+  program_controller_identifier,
+} from './controllers/program/Program';
+import { mergeConfig } from './controllers/utils/mergeConfig';
 import { type Controller, Physics, Renderer, Timer, World } from './engine';
 
 import { RobotConsole } from './engine/Core/RobotConsole';
@@ -16,10 +21,12 @@ import {
   isRigidBodyType,
   type RigidBodyType,
 } from './engine/Entity/EntityFactory';
+import type { SimpleQuaternion, SimpleVector } from './engine/Math/Vector';
 import type { PhysicsConfig } from './engine/Physics';
 import type { RenderConfig } from './engine/Render/Renderer';
 import { getCamera, type CameraOptions } from './engine/Render/helpers/Camera';
 import { createScene } from './engine/Render/helpers/Scene';
+import { parseWorldDescription } from './world_description';
 
 /**
  * @categoryDescription Configuration
@@ -108,11 +115,12 @@ export function createPhysics(): Physics {
  *
  * **This is a configuration function and should be called within {@link init_simulation}.**
  *
+ * @param headless Whether the renderer never draws, as in {@link runHeadlessSimulation}
  * @returns Renderer
  *
  * @category Configuration
  */
-export function createRenderer(): Renderer {
+export function createRenderer(headless: boolean = false): Renderer {
   const sceneCameraOptions: CameraOptions = {
     type: 'perspective',
     aspect: sceneConfig.width / sceneConfig.height,
@@ -125,6 +133,7 @@ export function createRenderer(): Renderer {
     width: sceneConfig.width,
     height: sceneConfig.height,
     control: 'orbit',
+    headless,
   };
 
   const scene = createScene();
@@ -493,6 +502,95 @@ export function createEv3(physics: Physics, renderer: Renderer): DefaultEv3 {
   return ev3;
 }
 
+/**
+ * Builds a world from a JSON world description, so that arenas can be kept as data instead of
+ * being built by hand. Every part of the description is optional:
+ * - `physics`: the `gravity` and `timestep` passed to {@link createCustomPhysics}
+ * - `floor`: the `width`, `length` and `color` of the floor, or `false` for no floor
+ * - `walls`: a list of walls, each with `x`, `y`, `width`, `length`, `height` and an optional `color`
+ * - `cuboids`: a list of cuboids, each with a `position`, a `dimension`, a `mass`, a `color` and a `bodyType`
+ * - `papers`: a list of papers, each with a `url`, `width`, `height`, `x`, `y` and an optional `rotation` in degrees
+ * - `robot`: the `x` and `y` position of the EV3, its `rotation` in degrees (counterclockwise seen
+ *   from above), and `sensors` that override the configuration of the `colorSensor`, `ultrasonicSensor`,
+ *   `gyroSensor` and `touchSensor`
+ *
+ * The description is validated first, and the error thrown lists every problem found.
+ *
+ * The world and the EV3 are saved to the context, and the program is added to the world, so the
+ * returned World can be returned by the {@link init_simulation} callback directly.
+ *
+ * @example
+ * ```
+ * init_simulation(() => load_world('{"walls": [{"x": 0, "y": 1, "width": 2, "length": 0.1, "height": 0.2}], "robot": {"x": 0, "y": 0}}'));
+ * ```
+ *
+ * @param json The world description, as a JSON string
+ * @param headless Whether the world is never drawn, as in {@link runHeadlessSimulation}
+ * @returns World
+ *
+ * @category Configuration
+ */
+export function load_world(json: string, headless: boolean = false): World {
+  const description = parseWorldDescription(json);
+
+  const physics = description.physics === undefined
+    ? createPhysics()
+    : createCustomPhysics(
+      description.physics.gravity ?? -9.81,
+      description.physics.timestep ?? 1 / 20
+    );
+  const renderer = createRenderer(headless);
+  const world = createWorld(physics, renderer, createTimer(), createRobotConsole());
+
+  if (description.floor !== false) {
+    const floor = description.floor ?? {};
+    addControllerToWorld(
+      createCuboid(physics, renderer, 0, -0.5, 0, floor.width ?? 20, floor.length ?? 20, 1, 1, floor.color ?? 'white', 'fixed'),
+      world
+    );
+  }
+
+  description.walls?.forEach(({ x, y, width, length, height, color }) => {
+    addControllerToWorld(
+      createCuboid(physics, renderer, x, height / 2, y, width, length, height, 1, color ?? 'yellow', 'fixed'),
+      world
+    );
+  });
+
+  description.cuboids?.forEach(({ position, dimension, mass, color, bodyType }) => {
+    addControllerToWorld(
+      createCuboid(physics, renderer, position.x, position.y, position.z, dimension.width, dimension.length, dimension.height, mass, color, bodyType),
+      world
+    );
+  });
+
+  description.papers?.forEach(({ url, width, height, x, y, rotation }) => {
+    addControllerToWorld(createPaper(renderer, url, width, height, x, y, rotation ?? 0), world);
+  });
+
+  if (description.robot !== undefined) {
+    const { x, y, rotation, sensors } = description.robot;
+    const angle = ((rotation ?? 0) * Math.PI) / 180;
+    const config = mergeConfig<Ev3Config>(ev3Config, {
+      ...sensors,
+      chassis: {
+        orientation: {
+          position: { x, z: y },
+          rotation: { x: 0, y: Math.sin(angle / 2), z: 0, w: Math.cos(angle / 2) },
+        },
+      },
+    });
+
+    const ev3 = createDefaultEv3(physics, renderer, config);
+    saveToContext('ev3', ev3);
+    addControllerToWorld(ev3, world);
+    addControllerToWorld(createCSE(), world);
+  }
+
+  saveToContext('world', world);
+  return world;
+}
+
 /**
  * Initialize the simulation world. This function is to be called before the robot code.
  * This function is used to describe the simulation environment and the controllers.
@@ -514,3 +612,165 @@ export function init_simulation(worldFactory: () => World) {
   world.init();
   interrupt();
 }
+
+export type HeadlessSimulationOptions = {
+  // The largest number of physics steps to run
+  stepLimit: number;
+  // The longest simulated time to run for, in milliseconds
+  timeLimit: number;
+};
+
+export type SimulationTraceEntry = {
+  step: number;
+  // Simulated time, in milliseconds
+  time: number;
+  position: SimpleVector;
+  rotation: SimpleQuaternion;
+  motorSpeeds: {
+    leftMotor: number;
+    rightMotor: number;
+  };
+  sensors: {
+    // Always null, as the colour sensor needs the world to be drawn
+    color: { r: number; g: number; b: number } | null;
+    ultrasonic: number;
+    gyro: { angle: number; rate: number };
+    touch: boolean;
+  };
+};
+
+export type SimulationTrace = {
+  // One entry per physics step, recorded after the step
+  entries: SimulationTraceEntry[];
+  stopReason: 'error' | 'finished' | 'stepLimit' | 'timeLimit';
+  error: string | null;
+};
+
+const defaultHeadlessSimulationOptions: HeadlessSimulationOptions = {
+  stepLimit: Infinity,
+  timeLimit: 10000,
+};
+
+function traceEntry(ev3: DefaultEv3, step: number, time: number): SimulationTraceEntry {
+  const chassis = ev3.get('chassis').getEntity();
+  const translation = chassis.getTranslation();
+  const rotation = chassis.getRotation();
+  return {
+    step,
+    time,
+    position: { x: translation.x, y: translation.y, z: translation.z },
+    rotation: { x: rotation.x, y: rotation.y, z: rotation.z, w: rotation.w },
+    motorSpeeds: {
+      leftMotor: ev3.get('leftMotor').motorVelocity,
+      rightMotor: ev3.get('rightMotor').motorVelocity,
+    },
+    sensors: {
+      color: null,
+      ultrasonic: ev3.get('ultrasonicSensor').sense(),
+      gyro: ev3.get('gyroSensor').sense(),
+      touch: ev3.get('touchSensor').sense(),
+    },
+  };
+}
+
+/**
+ * Runs a simulation without rendering it, for example to grade EV3 programs automatically.
+ *
+ * The world is built by a callback like the one passed to {@link init_simulation}, which is given
+ * `headless` to pass on to {@link createRenderer} or {@link load_world}. The physics is advanced in
+ * fixed timesteps instead of following the animation frames, so the same program always produces
+ * the same trace. The simulation stops when the program finishes or throws an error, or when the
+ * step or time limit is reached. Nothing is drawn, so the colour sensor cannot be used.
+ *
+ * The callback must save the EV3 to the context using {@link saveToContext}.
+ *
+ * This is not a Source function, as Source programs cannot wait for the trace. It is a TypeScript
+ * API for grader harnesses, which run the student program inside the callback and check the trace,
+ * for example with {@link isFinalPoseInBox}.
+ *
+ * @example
+ * ```
+ * const trace = await runHeadlessSimulation((headless) => load_world(json, headless), { timeLimit: 10000 });
+ * expect(isFinalPoseInBox(trace, { min: { x: 1, y: 0, z: -0.5 }, max: { x: 2, y: 1, z: 0.5 } }, 8000)).toBe(true);
+ * ```
+ *
+ * @param worldFactory A callback function that returns the world object. Type signature: (headless: boolean) => World
+ * @param options The step limit and the time limit, in milliseconds. Defaults to 10 seconds.
+ * @returns The pose, motor speeds and sensor readings of the EV3 after every step
+ *
+ * @private
+ */
+export async function runHeadlessSimulation(
+  worldFactory: (headless: boolean) => World,
+  options?: Partial<HeadlessSimulationOptions>
+): Promise<SimulationTrace> {
+  const { stepLimit, timeLimit } = {
+    ...defaultHeadlessSimulationOptions,
+    ...options,
+  };
+
+  const world = worldFactory(true);
+  if (!world.render.isHeadless()) {
+    throw new Error('runHeadlessSimulation expects the world to be built with the headless renderer it asks for');
+  }
+  await world.init();
+
+  const ev3 = getEv3FromContext();
+  const program = world.controllers.controllers.find(
+    (controller) => controller.name === program_controller_identifier
+  ) as Program | undefined;
+
+  const entries: SimulationTraceEntry[] = [];
+  for (;;) {
+    const timestep = world.physics.configuration.timestep * 1000;
+    if (entries.length >= stepLimit) {
+      return { entries, stopReason: 'stepLimit', error: null };
+    }
+    if ((entries.length + 1) * timestep > timeLimit) {
+      return { entries, stopReason: 'timeLimit', error: null };
+    }
+
+    try {
+      const { stepCount } = world.stepFixed();
+      entries.push(traceEntry(ev3, stepCount, stepCount * timestep));
+    } catch (e) {
+      const error = e instanceof Error ? e.message : 'An error occurred';
+      return { entries, stopReason: 'error', error };
+    }
+
+    if (program?.isFinished) {
+      return { entries, stopReason: 'finished', error: null };
+    }
+  }
+}
+
+export type AxisAlignedBox = {
+  min: SimpleVector;
+  max: SimpleVector;
+};
+
+/**
+ * Checks whether the EV3 is inside a box at the end of a trace from {@link runHeadlessSimulation},
+ * or at the given time if the trace goes on for longer. The box is inclusive of its faces.
+ *
+ * @param trace The trace of a headless simulation
+ * @param box The corners of the box, in the coordinates of the world
+ * @param timeLimit The simulated time to check the position at, in milliseconds
+ * @returns Whether the EV3 is inside the box, which is false for traces without entries by then
+ *
+ * @private
+ */
+export function isFinalPoseInBox(
+  trace: SimulationTrace,
+  box: AxisAlignedBox,
+  timeLimit = Infinity
+): boolean {
+  const entries = trace.entries.filter(({ time }) => time <= timeLimit);
+  if (entries.length === 0) {
+    return false;
+  }
+  const { position } = entries[entries.length - 1];
+  return (['x', 'y', 'z'] as const).every(
+    (axis) => box.min[axis] <= position[axis] && position[axis] <= box.max[axis]
+  );
+}
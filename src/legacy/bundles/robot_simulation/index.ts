@@ -18,6 +18,22 @@ export {
   ev3_colorSensorBlue,
   ev3_ultrasonicSensor,
   ev3_ultrasonicSensorDistance,
+  ev3_gyroSensor,
+  ev3_gyroSensorAngle,
+  ev3_gyroSensorRate,
+  ev3_touchSensor1,
+  ev3_touchSensor2,
+  ev3_touchSensor3,
+  ev3_touchSensor4,
+  ev3_touchSensorPressed,
+  ev3_speak,
+  ev3_playSequence,
+  ev3_ledLeftGreen,
+  ev3_ledLeftRed,
+  ev3_ledRightGreen,
+  ev3_ledRightRed,
+  ev3_ledGetBrightness,
+  ev3_ledSetBrightness,
 } from './ev3_functions';
 
 export {
@@ -36,4 +52,5 @@ export {
   addControllerToWorld,
   createRobotConsole,
   saveToContext,
+  load_world,
 } from './helper_functions';
@@ -0,0 +1,240 @@
+/**
+ * The format of the JSON files that describe a simulation world, and the schema used to validate
+ * them. See load_world in helper_functions.ts for an example.
+ */
+import type { DeepPartial } from '../../common/deepPartial';
+import type { Ev3Config } from './controllers/ev3/ev3/default/types';
+import type { Dimension, SimpleVector } from './engine/Math/Vector';
+
+export type WorldDescription = {
+  physics?: {
+    gravity?: number;
+    timestep?: number;
+  };
+  // Defaults to a 20m by 20m white floor. Set to false to leave the floor out.
+  floor?: false | {
+    width?: number;
+    length?: number;
+    color?: number | string;
+  };
+  walls?: {
+    x: number;
+    y: number;
+    width: number;
+    length: number;
+    height: number;
+    color?: number | string;
+  }[];
+  cuboids?: {
+    position: SimpleVector;
+    dimension: Dimension;
+    mass: number;
+    color: number | string;
+    bodyType: 'dynamic' | 'fixed';
+  }[];
+  papers?: {
+    url: string;
+    width: number;
+    height: number;
+    x: number;
+    y: number;
+    rotation?: number;
+  }[];
+  // Leave the robot out for worlds without an EV3
+  robot?: {
+    x: number;
+    y: number;
+    // Rotation about the vertical axis, in degrees
+    rotation?: number;
+    sensors?: DeepPartial<Pick<Ev3Config, 'colorSensor' | 'gyroSensor' | 'touchSensor' | 'ultrasonicSensor'>>;
+  };
+};
+
+/**
+ * A schema checks a value, and adds an error for every part of it that is invalid.
+ */
+type Schema = (value: unknown, path: string, errors: string[]) => void;
+
+const describeValue = (value: unknown) => (Array.isArray(value) ? 'an array' : value === null ? 'null' : `a ${typeof value}`);
+
+const number = (check: (n: number) => boolean = Number.isFinite, expected = 'a number'): Schema => (value, path, errors) => {
+  if (typeof value !== 'number' || !Number.isFinite(value) || !check(value)) {
+    errors.push(`${path} must be ${expected}, got ${JSON.stringify(value)}`);
+  }
+};
+
+const positiveNumber = number((n) => n > 0, 'a positive number');
+
+const string: Schema = (value, path, errors) => {
+  if (typeof value !== 'string') {
+    errors.push(`${path} must be a string, got ${describeValue(value)}`);
+  }
+};
+
+const boolean: Schema = (value, path, errors) => {
+  if (typeof value !== 'boolean') {
+    errors.push(`${path} must be true or false, got ${describeValue(value)}`);
+  }
+};
+
+const oneOf = (...values: unknown[]): Schema => (value, path, errors) => {
+  if (!values.includes(value)) {
+    errors.push(`${path} must be one of ${values.map((v) => JSON.stringify(v))
+      .join(', ')}, got ${JSON.stringify(value)}`);
+  }
+};
+
+const either = (expected: string, ...schemas: Schema[]): Schema => (value, path, errors) => {
+  const valid = schemas.some((schema) => {
+    const schemaErrors: string[] = [];
+    schema(value, path, schemaErrors);
+    return schemaErrors.length === 0;
+  });
+  if (!valid) {
+    errors.push(`${path} must be ${expected}, got ${JSON.stringify(value)}`);
+  }
+};
+
+type Field = { schema: Schema; optional: boolean };
+
+const required = (schema: Schema): Field => ({ schema, optional: false });
+const optional = (schema: Schema): Field => ({ schema, optional: true });
+
+/**
+ * Checks an object's fields. Unknown fields are errors too, so that typos are not silently ignored.
+ */
+const object = (fields: Record<string, Field>): Schema => (value, path, errors) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    errors.push(`${path} must be an object, got ${describeValue(value)}`);
+    return;
+  }
+
+  Object.entries(fields)
+    .forEach(([key, field]) => {
+      const fieldValue = (value as Record<string, unknown>)[key];
+      if (fieldValue === undefined) {
+        if (!field.optional) {
+          errors.push(`${path}.${key} is missing`);
+        }
+        return;
+      }
+      field.schema(fieldValue, `${path}.${key}`, errors);
+    });
+
+  Object.keys(value)
+    .filter((key) => !(key in fields))
+    .forEach((key) => {
+      errors.push(`${path}.${key} is not a known field. Expected one of: ${Object.keys(fields)
+        .join(', ')}`);
+    });
+};
+
+const array = (item: Schema): Schema => (value, path, errors) => {
+  if (!Array.isArray(value)) {
+    errors.push(`${path} must be an array, got ${describeValue(value)}`);
+    return;
+  }
+  value.forEach((element, i) => item(element, `${path}[${i}]`, errors));
+};
+
+const color = either('a color name, hex string or number', string, number());
+
+const vector = (fieldOf: (schema: Schema) => Field) => object({
+  x: fieldOf(number()),
+  y: fieldOf(number()),
+  z: fieldOf(number()),
+});
+
+const dimension = (fieldOf: (schema: Schema) => Field) => object({
+  width: fieldOf(positiveNumber),
+  length: fieldOf(positiveNumber),
+  height: fieldOf(positiveNumber),
+});
+
+const sensorsSchema = object({
+  colorSensor: optional(object({
+    displacement: optional(vector(optional)),
+    tickRateInSeconds: optional(positiveNumber),
+    debug: optional(boolean),
+  })),
+  ultrasonicSensor: optional(object({
+    displacement: optional(vector(optional)),
+    direction: optional(vector(optional)),
+    debug: optional(boolean),
+  })),
+  gyroSensor: optional(object({
+    axis: optional(vector(optional)),
+  })),
+  touchSensor: optional(object({
+    port: optional(oneOf(1, 2, 3, 4)),
+    displacement: optional(vector(optional)),
+    dimension: optional(dimension(optional)),
+    debug: optional(boolean),
+  })),
+});
+
+const worldSchema = object({
+  physics: optional(object({
+    gravity: optional(number()),
+    timestep: optional(positiveNumber),
+  })),
+  floor: optional(either('false or an object with width, length and color', oneOf(false), object({
+    width: optional(positiveNumber),
+    length: optional(positiveNumber),
+    color: optional(color),
+  }))),
+  walls: optional(array(object({
+    x: required(number()),
+    y: required(number()),
+    width: required(positiveNumber),
+    length: required(positiveNumber),
+    height: required(positiveNumber),
+    color: optional(color),
+  }))),
+  cuboids: optional(array(object({
+    position: required(vector(required)),
+    dimension: required(dimension(required)),
+    mass: required(positiveNumber),
+    color: required(color),
+    bodyType: required(oneOf('fixed', 'dynamic')),
+  }))),
+  papers: optional(array(object({
+    url: required(string),
+    width: required(positiveNumber),
+    height: required(positiveNumber),
+    x: required(number()),
+    y: required(number()),
+    rotation: optional(number()),
+  }))),
+  robot: optional(object({
+    x: required(number()),
+    y: required(number()),
+    rotation: optional(number()),
+    sensors: optional(sensorsSchema),
+  })),
+});
+
+/**
+ * Parses and validates a world description.
+ * @param json The world description, either as JSON or as an already parsed object
+ * @returns The validated world description
+ * @throws If the JSON is malformed or does not match the schema. The error lists every problem found.
+ */
+export function parseWorldDescription(json: object | string): WorldDescription {
+  let value: unknown = json;
+  if (typeof json === 'string') {
+    try {
+      value = JSON.parse(json);
+    } catch (e) {
+      throw new Error(`World description is not valid JSON: ${(e as Error).message}`);
+    }
+  }
+
+  const errors: string[] = [];
+  worldSchema(value, 'world', errors);
+  if (errors.length > 0) {
+    throw new Error(`Invalid world description:\n${errors.map((error) => `- ${error}`)
+      .join('\n')}`);
+  }
+  return value as WorldDescription;
+}
@@ -0,0 +1,85 @@
+import {
+  beside,
+  blank,
+  circle,
+  equal_runes,
+  heart,
+  overlay,
+  quarter_turn_left,
+  quarter_turn_right,
+  red,
+  rotate,
+  rune_hash,
+  scale_independent,
+  square,
+  stack,
+  translate,
+  turn_upside_down
+} from '../functions';
+
+test('equal_runes ignores how the sub-Runes are arranged', () => {
+  const stacked = stack(beside(heart, circle), beside(circle, square));
+  const besided = beside(stack(heart, circle), stack(circle, square));
+  expect(equal_runes(stacked, besided))
+    .toBe(true);
+  expect(rune_hash(stacked))
+    .toEqual(rune_hash(besided));
+});
+
+test('equal_runes matches stack with the manually translated Rune', () => {
+  const upper = translate(0, -0.5, scale_independent(1, 0.5, heart));
+  expect(equal_runes(stack(heart, blank), upper))
+    .toBe(true);
+  expect(rune_hash(stack(heart, blank)))
+    .toEqual(rune_hash(upper));
+  expect(equal_runes(stack(blank, heart), upper))
+    .toBe(false);
+});
+
+test('equal_runes compares the drawn triangles', () => {
+  expect(equal_runes(quarter_turn_left(quarter_turn_left(heart)), turn_upside_down(heart)))
+    .toBe(true);
+  expect(equal_runes(quarter_turn_left(heart), quarter_turn_right(heart)))
+    .toBe(false);
+  expect(equal_runes(heart, red(heart)))
+    .toBe(false);
+  expect(equal_runes(overlay(heart, circle), overlay(circle, heart)))
+    .toBe(false);
+  expect(equal_runes(square, overlay(square, square)))
+    .toBe(false);
+});
+
+test('equal_runes ignores floating-point errors in the transformations', () => {
+  // rotating by a third and then a sixth of pi is not exactly a quarter turn
+  const rotated = rotate(Math.PI / 3, rotate(Math.PI / 6, heart));
+  const shifted = translate(0.1, 0.2, translate(0.2, 0.1, heart));
+  expect(equal_runes(rotated, quarter_turn_left(heart)))
+    .toBe(true);
+  expect(rune_hash(rotated))
+    .toEqual(rune_hash(quarter_turn_left(heart)));
+  expect(equal_runes(shifted, translate(0.3, 0.3, heart)))
+    .toBe(true);
+  expect(rune_hash(shifted))
+    .toEqual(rune_hash(translate(0.3, 0.3, heart)));
+});
+
+test('rune_hash tells different Runes apart', () => {
+  expect(rune_hash(heart))
+    .not.toEqual(rune_hash(circle));
+  expect(rune_hash(heart))
+    .not.toEqual(rune_hash(red(heart)));
+  expect(rune_hash(quarter_turn_left(heart)))
+    .not.toEqual(rune_hash(quarter_turn_right(heart)));
+});
+
+test('equal_runes rejects non-Runes', () => {
+  expect(() => equal_runes(heart, 1 as any))
+    .toThrow('equal_runes expects a rune as argument.');
+});
+
+test('Runes can be compared with their equals method', () => {
+  expect(heart.equals(turn_upside_down(turn_upside_down(heart))))
+    .toBe(true);
+  expect(heart.equals('heart'))
+    .toBe(false);
+});
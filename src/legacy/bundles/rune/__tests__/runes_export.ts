@@ -0,0 +1,55 @@
+import { blank, overlay, red, scale, square, translate, triangle } from '../functions';
+import { runeToSvg } from '../runes_export';
+
+const getPolygons = (svg: string) => Array.from(svg.matchAll(/<polygon points="([^"]*)" fill="([^"]*)"/g))
+  .map(([, points, fill]) => ({
+    points: points.split(' ')
+      .map(point => point.split(',')
+        .map(Number)),
+    fill
+  }));
+
+test('runeToSvg draws each triangle as a polygon', () => {
+  const svg = runeToSvg(square, 512);
+  expect(svg)
+    .toContain('viewBox="0 0 512 512"');
+
+  const polygons = getPolygons(svg);
+  expect(polygons)
+    .toHaveLength(2);
+  expect(polygons.every(({ fill }) => fill === 'rgb(0,0,0)'))
+    .toBe(true);
+
+  const xs = polygons.flatMap(({ points }) => points.map(([x]) => x));
+  expect(Math.min(...xs))
+    .toEqual(0);
+  expect(Math.max(...xs))
+    .toEqual(512);
+});
+
+test('runeToSvg applies transformations and colours', () => {
+  const polygons = getPolygons(runeToSvg(translate(0.5, 0.5, scale(0.5, red(triangle))), 100));
+  expect(polygons)
+    .toHaveLength(1);
+
+  const [{ points, fill }] = polygons;
+  expect(fill)
+    .toEqual('rgb(244,67,54)');
+  points.forEach(([x, y]) => {
+    expect(x)
+      .toBeGreaterThanOrEqual(50);
+    expect(y)
+      .toBeGreaterThanOrEqual(50);
+  });
+});
+
+test('runeToSvg draws runes at the back first', () => {
+  const polygons = getPolygons(runeToSvg(overlay(red(square), square), 512));
+  expect(polygons.map(({ fill }) => fill))
+    .toEqual(['rgb(128,128,128)', 'rgb(128,128,128)', 'rgb(244,67,54)', 'rgb(244,67,54)']);
+});
+
+test('runeToSvg handles runes without triangles', () => {
+  expect(getPolygons(runeToSvg(blank, 512)))
+    .toHaveLength(0);
+});
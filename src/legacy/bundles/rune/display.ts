@@ -1,7 +1,14 @@
+import {
+  ANIMATION_FORMATS,
+  isAnimationFormat,
+  saveAnimation,
+  saveInBackground
+} from '../../common/animationExport';
 import context from '../../typings/js-slang/context';
 import { functionDeclaration } from '../../typings/type_map';
 import { AnaglyphRune, HollusionRune } from './functions';
 import { AnimatedRune, NormalRune, type DrawnRune, type Rune, type RuneAnimation } from './rune';
+import { saveRunePng, saveRuneSvg } from './runes_export';
 import { throwIfNotRune } from './runes_ops';
 
 // =============================================================================
@@ -112,6 +119,65 @@ class RuneDisplay {
     drawnRunes.push(anim);
     return anim;
   }
+
+  /**
+   * Downloads the specified Rune to your device as an SVG image of 512 by 512
+   * pixels. Every triangle of the Rune becomes a polygon in the image, so it
+   * can be scaled or edited without losing quality.
+   * @param rune - The Rune to save
+   *
+   * @category Main
+   */
+  @functionDeclaration('rune: Rune', 'void')
+  static save_rune_svg(rune: Rune): void {
+    throwIfNotRune(RuneDisplay.save_rune_svg.name, rune);
+    saveInBackground(saveRuneSvg(rune, 512), RuneDisplay.save_rune_svg.name);
+  }
+
+  /**
+   * Downloads the specified Rune to your device as a PNG image with the
+   * specified width and height.
+   * @param rune - The Rune to save
+   * @param {number} size - The width and height of the image in pixels
+   *
+   * @category Main
+   */
+  @functionDeclaration('rune: Rune, size: number', 'void')
+  static save_rune_png(rune: Rune, size: number): void {
+    throwIfNotRune(RuneDisplay.save_rune_png.name, rune);
+    if (!Number.isInteger(size) || size <= 0) {
+      throw Error(`${RuneDisplay.save_rune_png.name} expects a positive integer size.`);
+    }
+    saveInBackground(saveRunePng(rune, size), RuneDisplay.save_rune_png.name);
+  }
+
+  /**
+   * Downloads the specified rune animation to your device, with every frame
+   * drawn at 512 by 512 pixels. The format is one of:
+   * - `"gif"`: an animated GIF that loops forever
+   * - `"webm"`: a WebM video, which takes as long to record as the animation lasts
+   * - `"png"`: a zip file with one PNG image per frame
+   * @param anim - The animation to save, as returned by `animate_rune` or `animate_anaglyph`
+   * @param {string} format - The format of the file
+   *
+   * @category Main
+   */
+  @functionDeclaration('anim: AnimatedRune, format: string', 'void')
+  static save_animation(anim: AnimatedRune, format: string): void {
+    if (!(anim instanceof AnimatedRune)) {
+      throw Error(`${RuneDisplay.save_animation.name} expects a rune animation as argument.`);
+    }
+    if (!isAnimationFormat(format)) {
+      const formats = Object.keys(ANIMATION_FORMATS)
+        .map((name) => `"${name}"`)
+        .join(', ');
+      throw Error(`${RuneDisplay.save_animation.name} expects the format to be one of ${formats}.`);
+    }
+    saveInBackground(
+      saveAnimation(anim, format, 'Source Academy Rune Animation'),
+      RuneDisplay.save_animation.name
+    );
+  }
 }
 
 export const {show,
@@ -120,4 +186,7 @@ export const {show,
   hollusion_magnitude,
   animate_rune,
   animate_anaglyph,
+  save_animation,
+  save_rune_png,
+  save_rune_svg
 } = RuneDisplay;
@@ -9,6 +9,7 @@ import {
   drawRunesToFrameBuffer,
   type AnimatedRune
 } from './rune';
+import { runeHash, runesEqual } from './runes_compare';
 import {
   getSquare,
   getBlank,
@@ -730,6 +731,46 @@ class RuneFunctions {
     throwIfNotRune(RuneFunctions.white.name, rune);
     return addColorFromHex(rune, '#FFFFFF');
   }
+
+  // =============================================================================
+  // Comparison functions
+  // =============================================================================
+
+  /**
+   * Checks if two Runes are structurally equal, that is, if they draw the same
+   * triangles in the same colors. The sub-Runes of both Runes are flattened and
+   * their transformations applied before comparing, so for example
+   * `stack(beside(a, b), beside(c, d))` is equal to
+   * `beside(stack(a, c), stack(b, d))`. Coordinates and colors are rounded to
+   * multiples of 0.00001 and then compared exactly, so most rounding errors do
+   * not matter, but two values just either side of a halfway point between
+   * multiples are still told apart.
+   * @param {Rune} rune1 - Given Rune
+   * @param {Rune} rune2 - Given Rune
+   * @return {boolean} True if the Runes are equal
+   *
+   * @category Main
+   */
+  @functionDeclaration('rune1: Rune, rune2: Rune', 'boolean')
+  static equal_runes(rune1: Rune, rune2: Rune): boolean {
+    throwIfNotRune(RuneFunctions.equal_runes.name, rune1, rune2);
+    return runesEqual(rune1, rune2);
+  }
+
+  /**
+   * Computes a hash of the given Rune. Runes that are equal according to
+   * `equal_runes` have the same hash, while different Runes are very likely to
+   * have different hashes.
+   * @param {Rune} rune - Given Rune
+   * @return {number} The hash, an integer between 0 and 2^32 - 1
+   *
+   * @category Main
+   */
+  @functionDeclaration('rune: Rune', 'number')
+  static rune_hash(rune: Rune): number {
+    throwIfNotRune(RuneFunctions.rune_hash.name, rune);
+    return runeHash(rune);
+  }
 }
 
 /** @hidden */
@@ -971,6 +1012,7 @@ export const {
   circle,
   color,
   corner,
+  equal_runes,
   flip_horiz,
   flip_vert,
   from_url,
@@ -993,6 +1035,7 @@ export const {
   repeat_pattern,
   ribbon,
   rotate,
+  rune_hash,
   sail,
   scale,
   scale_independent,
@@ -15,6 +15,7 @@ export {
   circle,
   color,
   corner,
+  equal_runes,
   flip_horiz,
   flip_vert,
   from_url,
@@ -37,6 +38,7 @@ export {
   repeat_pattern,
   ribbon,
   rotate,
+  rune_hash,
   sail,
   scale,
   scale_independent,
@@ -57,6 +59,9 @@ export {
   animate_rune,
   hollusion,
   hollusion_magnitude,
+  save_animation,
+  save_rune_png,
+  save_rune_svg,
   show
 } from './display';
 
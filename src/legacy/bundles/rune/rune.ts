@@ -2,6 +2,7 @@ import { mat4 } from 'gl-matrix';
 import { type AnimFrame, glAnimation } from '../../typings/anim_types';
 import type { ReplResult } from '../../typings/type_helpers';
 import { classDeclaration } from '../../typings/type_map';
+import { runesEqual } from './runes_compare';
 import { getWebGlFromCanvas, initShaderProgram } from './runes_webgl';
 
 const normalVertexShader = `
@@ -132,6 +133,13 @@ export class Rune {
     );
   };
 
+  /**
+   * Checks if the other value is a Rune that draws the same triangles as this Rune
+   * @param other - The value to compare with
+   * @return boolean
+   */
+  public equals = (other: unknown) => other instanceof Rune && runesEqual(this, other);
+
   public toReplString = () => '<Rune>';
 }
 
@@ -358,7 +366,7 @@ export abstract class DrawnRune implements ReplResult {
   `;
 
   constructor(
-    protected readonly rune: Rune,
+    public readonly rune: Rune,
     public readonly isHollusion: boolean
   ) {}
 
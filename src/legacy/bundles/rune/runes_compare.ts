@@ -0,0 +1,127 @@
+/**
+ * This file contains the module's private functions that compare Runes by the triangles they draw.
+ */
+import { mat4, vec4 } from 'gl-matrix';
+import type { Rune } from './rune';
+
+/**
+ * A triangle of a flattened Rune: the coordinates of its 3 vertices after
+ * transformation, sorted so that the order in which the vertices were given
+ * does not matter, followed by its color (r,g,b,a). Every value is snapped
+ * to the grid, so triangles can be compared exactly.
+ */
+type Triangle = {
+  values: number[];
+  texture: string;
+};
+
+/**
+ * Coordinates and colors are rounded to multiples of this size, so that most
+ * floating-point errors in the transformations do not tell Runes apart. The
+ * rounded values are compared exactly, so two values on either side of a
+ * halfway point still differ, however close they are.
+ */
+const GRID = 1e-5;
+
+const DEFAULT_COLOR = [0, 0, 0, 1];
+
+const snap = (value: number) => Math.round(value / GRID);
+
+function compareValues(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i += 1) {
+    if (a[i] !== b[i]) {
+      return a[i] - b[i];
+    }
+  }
+  return a.length - b.length;
+}
+
+function compareTriangles(a: Triangle, b: Triangle): number {
+  if (a.texture !== b.texture) {
+    return a.texture < b.texture ? -1 : 1;
+  }
+  return compareValues(a.values, b.values);
+}
+
+function triangleArea(values: number[]): number {
+  const [ax, ay, az, bx, by, bz, cx, cy, cz] = values;
+  const [ux, uy, uz] = [bx - ax, by - ay, bz - az];
+  const [vx, vy, vz] = [cx - ax, cy - ay, cz - az];
+  return Math.hypot(uy * vz - uz * vy, uz * vx - ux * vz, ux * vy - uy * vx) / 2;
+}
+
+/**
+ * Flattens the Rune and returns the triangles it draws, in a canonical order.
+ * Triangles that cover no area are left out, and a triangle drawn more than
+ * once is only kept once.
+ */
+function getTriangles(rune: Rune): Triangle[] {
+  const triangles: Triangle[] = [];
+
+  rune.flatten()
+    .forEach((flatRune) => {
+      const { vertices, transformMatrix } = flatRune;
+      const color = Array.from(flatRune.colors ?? DEFAULT_COLOR, snap);
+      const texture = flatRune.texture?.src ?? '';
+
+      for (let i = 0; i + 12 <= vertices.length; i += 12) {
+        const points: number[][] = [];
+        for (let j = i; j < i + 12; j += 4) {
+          const position = vec4.transformMat4(
+            vec4.create(),
+            vec4.fromValues(vertices[j], vertices[j + 1], vertices[j + 2], vertices[j + 3]),
+            transformMatrix as mat4
+          );
+          const w = position[3] === 0 ? 1 : position[3];
+          points.push([position[0] / w, position[1] / w, position[2] / w].map(snap));
+        }
+        points.sort(compareValues);
+
+        // in grid units, so a triangle smaller than a grid square covers no area
+        const values = points.flat();
+        if (triangleArea(values) >= 1) {
+          triangles.push({
+            values: [...values, ...color],
+            texture
+          });
+        }
+      }
+    });
+
+  triangles.sort(compareTriangles);
+  return triangles.filter((triangle, i) => i === 0 || compareTriangles(triangles[i - 1], triangle) !== 0);
+}
+
+/**
+ * Checks if two Runes draw the same triangles, regardless of how their
+ * sub-Runes and transformations are arranged.
+ * @param rune1 - Given Rune
+ * @param rune2 - Given Rune
+ * @returns True if the Runes draw the same triangles
+ */
+export function runesEqual(rune1: Rune, rune2: Rune): boolean {
+  const triangles1 = getTriangles(rune1);
+  const triangles2 = getTriangles(rune2);
+  return triangles1.length === triangles2.length
+    && triangles1.every((triangle, i) => compareTriangles(triangle, triangles2[i]) === 0);
+}
+
+/**
+ * Computes a hash of the triangles drawn by a Rune, such that Runes that are
+ * equal according to runesEqual have the same hash.
+ * @param rune - Given Rune
+ * @returns A 32-bit unsigned integer
+ */
+export function runeHash(rune: Rune): number {
+  const key = getTriangles(rune)
+    .map(({ values, texture }) => `${values.join(',')};${texture}`)
+    .join('|');
+
+  // FNV-1a
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i += 1) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
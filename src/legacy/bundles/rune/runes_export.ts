@@ -0,0 +1,163 @@
+/**
+ * This file contains the module's private functions that export Runes as image files.
+ */
+import { mat4, vec4 } from 'gl-matrix';
+import save from 'save-file';
+import { NormalRune, type Rune } from './rune';
+
+type SvgTriangle = {
+  points: [number, number][];
+  depth: number;
+  fill: string;
+};
+
+const formatNumber = (n: number) => `${Math.round(n * 1000) / 1000}`;
+
+const escapeAttribute = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/"/g, '&quot;')
+  .replace(/</g, '&lt;');
+
+/**
+ * Mirrors the depth colouring done by the fragment shader of NormalRune:
+ * runes further back are drawn in lighter colours.
+ */
+function depthColor(color: ArrayLike<number>, depth: number): string {
+  const [r, g, b] = [0, 1, 2].map((i) => {
+    const shaded = color[i] + (depth + 0.5) * (1 - color[i]);
+    return Math.round(Math.min(Math.max(shaded, 0), 1) * 255);
+  });
+  return `rgb(${r},${g},${b})`;
+}
+
+/**
+ * Builds the SVG pattern used to paint a textured rune. The texture covers the
+ * square [-1,1]x[-1,1] of the rune before it is transformed, so the pattern is
+ * transformed from the unit square into the same place on the image.
+ */
+function texturePattern(id: string, texture: HTMLImageElement, matrix: mat4, size: number): string {
+  const transform = [
+    size * matrix[0],
+    -size * matrix[1],
+    -size * matrix[4],
+    size * matrix[5],
+    (size / 2) * (1 - matrix[0] + matrix[4] + matrix[12]),
+    (size / 2) * (1 + matrix[1] - matrix[5] - matrix[13])
+  ].map(formatNumber)
+    .join(' ');
+
+  return `<pattern id="${id}" patternUnits="userSpaceOnUse" width="1" height="1" patternTransform="matrix(${transform})">`
+    + `<image href="${escapeAttribute(texture.src)}" width="1" height="1" preserveAspectRatio="none"/>`
+    + '</pattern>';
+}
+
+/**
+ * Converts a Rune into an SVG image of the given size, drawn the same way as
+ * the Rune would be drawn in the Runes tab.
+ *
+ * The triangles of every flattened Rune are projected onto the image and emitted
+ * as polygons, furthest first, so that nearer triangles cover those behind them.
+ * @param rune - The Rune to convert
+ * @param size - The width and height of the image in pixels
+ * @returns The SVG image as a string
+ */
+export function runeToSvg(rune: Rune, size: number): string {
+  const projection = mat4.create();
+  mat4.ortho(projection, -1, 1, -1, 1, -0.5, 1.5);
+
+  const patterns: string[] = [];
+  const triangles: SvgTriangle[] = [];
+
+  rune.flatten()
+    .forEach((flatRune) => {
+      const matrix = mat4.multiply(mat4.create(), projection, flatRune.transformMatrix);
+
+      let patternFill: string | null = null;
+      if (flatRune.texture !== null) {
+        const id = `rune-texture-${patterns.length}`;
+        patterns.push(texturePattern(id, flatRune.texture, matrix, size));
+        patternFill = `url(#${id})`;
+      }
+
+      const { vertices } = flatRune;
+      for (let i = 0; i + 12 <= vertices.length; i += 12) {
+        const points: [number, number][] = [];
+        let depth = 0;
+        for (let j = i; j < i + 12; j += 4) {
+          const position = vec4.transformMat4(
+            vec4.create(),
+            vec4.fromValues(vertices[j], vertices[j + 1], vertices[j + 2], vertices[j + 3]),
+            matrix
+          );
+          const w = position[3] === 0 ? 1 : position[3];
+          points.push([
+            ((position[0] / w + 1) / 2) * size,
+            ((1 - position[1] / w) / 2) * size
+          ]);
+          depth += position[2] / w / 3;
+        }
+
+        triangles.push({
+          points,
+          depth,
+          fill: patternFill ?? depthColor(flatRune.colors ?? [0, 0, 0, 1], depth)
+        });
+      }
+    });
+
+  // WebGL keeps the first of two triangles drawn at the same depth, so among
+  // triangles of equal depth the ones drawn later have to be emitted first
+  const ordered = triangles
+    .map((triangle, order) => ({
+      triangle,
+      order
+    }))
+    .sort((a, b) => b.triangle.depth - a.triangle.depth || b.order - a.order)
+    .map(({ triangle }) => triangle);
+
+  const polygons = ordered.map(({ points, fill }) => {
+    const pointList = points.map(([x, y]) => `${formatNumber(x)},${formatNumber(y)}`)
+      .join(' ');
+    return `<polygon points="${pointList}" fill="${fill}" stroke="${fill}" stroke-width="0.5" stroke-linejoin="round"/>`;
+  });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${size} ${size}">`,
+    ...(patterns.length > 0 ? [`<defs>${patterns.join('')}</defs>`] : []),
+    `<rect width="${size}" height="${size}" fill="white"/>`,
+    ...polygons,
+    '</svg>'
+  ].join('\n');
+}
+
+/**
+ * Downloads the Rune as an SVG image.
+ * @param rune - The Rune to download
+ * @param size - The width and height of the image in pixels
+ */
+export async function saveRuneSvg(rune: Rune, size: number): Promise<void> {
+  await save(
+    new Blob([runeToSvg(rune, size)], { type: 'image/svg+xml' }),
+    'Source Academy Rune.svg'
+  );
+}
+
+/**
+ * Downloads the Rune as a PNG image. The Rune is drawn onto a canvas that is
+ * not attached to the page, so the image does not depend on what the Runes tab
+ * is currently showing.
+ * @param rune - The Rune to download
+ * @param size - The width and height of the image in pixels
+ */
+export async function saveRunePng(rune: Rune, size: number): Promise<void> {
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  new NormalRune(rune).draw(canvas);
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+  if (blob === null) {
+    throw Error('Unable to convert the rune into a PNG image.');
+  }
+  await save(blob, 'Source Academy Rune.png');
+}
@@ -0,0 +1,33 @@
+import { Dawg, packWords } from '../dawg';
+import { PACKED_DICTIONARY } from '../dictionary';
+
+const words = ['car', 'card', 'cards', 'care', 'cat', 'cats', 'do', 'dog', 'dogs'];
+
+test('packed words can be read back in order', () => {
+  const dawg = new Dawg(packWords(words));
+  expect(dawg.wordsWithPrefix(''))
+    .toEqual(words);
+  expect(dawg.wordsWithPrefix('ca'))
+    .toEqual(['car', 'card', 'cards', 'care', 'cat', 'cats']);
+  expect(dawg.isWord('ca'))
+    .toBe(false);
+});
+
+test('common suffixes are shared', () => {
+  // "s" ending "cards", "cats" and "dogs" is stored once
+  expect(packWords(words)
+    .split(',').length)
+    .toBeLessThan(packWords(words.slice(0, 6))
+      .split(',').length + 3);
+});
+
+test('packWords rejects unsorted words', () => {
+  expect(() => packWords(['dog', 'cat']))
+    .toThrow('Words must be sorted and unique, but "cat" comes after "dog"');
+});
+
+test('the packed dictionary is what packWords produces', () => {
+  const dawg = new Dawg(PACKED_DICTIONARY);
+  expect(packWords(dawg.wordsWithPrefix('')))
+    .toEqual(PACKED_DICTIONARY);
+});
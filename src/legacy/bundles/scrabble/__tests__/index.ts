@@ -1,8 +1,13 @@
 import {
+  anagrams_of,
+  is_word,
   scrabble_letters,
   scrabble_letters_tiny,
   scrabble_words,
-  scrabble_words_tiny
+  scrabble_words_tiny,
+  score_word,
+  words_matching,
+  words_with_prefix
 } from '../functions';
 
 // Test functions
@@ -36,3 +41,46 @@ test('scrabble_words_tiny matches snapshot', () => {
   expect(scrabble_words_tiny)
     .toMatchSnapshot();
 });
+
+test('is_word only accepts allowed words', () => {
+  expect(is_word('aardwolves'))
+    .toBe(true);
+  expect(is_word('AARDWOLVES'))
+    .toBe(true);
+  expect(is_word('aardwol'))
+    .toBe(false);
+  expect(is_word(''))
+    .toBe(false);
+});
+
+test('words_with_prefix finds words in alphabetical order', () => {
+  expect(words_with_prefix('zymo'))
+    .toEqual(['zymogen', 'zymogene', 'zymogenes', 'zymogens', 'zymogram', 'zymograms', 'zymologies', 'zymology', 'zymosan', 'zymosans', 'zymoses', 'zymosis', 'zymotic']);
+  expect(words_with_prefix('zzz'))
+    .toEqual([]);
+});
+
+test('anagrams_of uses every letter exactly once', () => {
+  expect(anagrams_of('listen'))
+    .toEqual(['elints', 'enlist', 'inlets', 'listen', 'silent', 'tinsel']);
+  expect(anagrams_of('qu?'))
+    .toEqual(['qua', 'suq']);
+});
+
+test('words_matching supports wildcards', () => {
+  expect(words_matching('c?t'))
+    .toEqual(['cat', 'cot', 'cut']);
+  expect(words_matching('zyzzyva*'))
+    .toEqual(['zyzzyva', 'zyzzyvas']);
+  expect(words_matching('*'))
+    .toEqual(scrabble_words);
+});
+
+test('score_word uses standard tile values', () => {
+  expect(score_word('quiz'))
+    .toBe(22);
+  expect(score_word('qu?z'))
+    .toBe(21);
+  expect(() => score_word('qu1z'))
+    .toThrow('score_word expects a string of letters, but got qu1z');
+});
@@ -0,0 +1,310 @@
+/**
+ * A directed acyclic word graph (DAWG): a trie in which identical subtrees
+ * are shared, so that words with common suffixes are stored once.
+ *
+ * Packed format: nodes are separated by commas and listed children first,
+ * so the root is the last node. A node starts with `!` if a word ends there,
+ * followed by one entry per edge: the uppercase letter of the edge, then how
+ * many nodes back its target is, in base 36. The distance is left out when
+ * the target is node 0, the node every word ends at.
+ */
+
+const CODE_A = 'a'.charCodeAt(0);
+const CODE_UPPER_A = 'A'.charCodeAt(0);
+const CODE_UPPER_Z = 'Z'.charCodeAt(0);
+
+type BuildNode = {
+  id: number;
+  terminal: boolean;
+  edges: Map<string, BuildNode>;
+};
+
+/**
+ * Packs a list of words into the format read by Dawg.
+ *
+ * @param words Words of lowercase letters, sorted and without duplicates.
+ */
+export function packWords(words: string[]): string {
+  let nextId = 0;
+  const newNode = (): BuildNode => ({
+    id: nextId++,
+    terminal: false,
+    edges: new Map()
+  });
+
+  // Incremental construction for sorted input (Daciuk et al., 2000)
+  const root = newNode();
+  const register = new Map<string, BuildNode>();
+  const unchecked: [BuildNode, string, BuildNode][] = [];
+  const signature = (node: BuildNode) => {
+    let result = node.terminal ? '!' : '';
+    node.edges.forEach((child, letter) => {
+      result += `${letter}${child.id}`;
+    });
+    return result;
+  };
+  const minimize = (downTo: number) => {
+    while (unchecked.length > downTo) {
+      const [parent, letter, child] = unchecked.pop()!;
+      const key = signature(child);
+      const existing = register.get(key);
+      if (existing) {
+        parent.edges.set(letter, existing);
+      } else {
+        register.set(key, child);
+      }
+    }
+  };
+
+  let previous = '';
+  words.forEach((word) => {
+    if (word <= previous) {
+      throw new Error(`Words must be sorted and unique, but "${word}" comes after "${previous}"`);
+    }
+    let common = 0;
+    while (common < word.length && common < previous.length && word[common] === previous[common]) {
+      common += 1;
+    }
+    minimize(common);
+
+    let node = unchecked.length === 0 ? root : unchecked[unchecked.length - 1][2];
+    for (let i = common; i < word.length; i += 1) {
+      const child = newNode();
+      node.edges.set(word[i], child);
+      unchecked.push([node, word[i], child]);
+      node = child;
+    }
+    node.terminal = true;
+    previous = word;
+  });
+  minimize(0);
+
+  // Number nodes children first, so that every edge points backwards
+  const index = new Map<BuildNode, number>();
+  const packed: string[] = [];
+  const visit = (node: BuildNode) => {
+    if (index.has(node)) return;
+    node.edges.forEach(visit);
+    const position = packed.length;
+    let entry = node.terminal ? '!' : '';
+    node.edges.forEach((child, letter) => {
+      const target = index.get(child)!;
+      entry += letter.toUpperCase();
+      if (target !== 0) {
+        entry += (position - target).toString(36);
+      }
+    });
+    index.set(node, position);
+    packed.push(entry);
+  };
+  visit(root);
+  return packed.join(',');
+}
+
+/**
+ * Read only dictionary, queried directly in its packed form.
+ */
+export class Dawg {
+  private readonly terminal: Uint8Array;
+  /** Edges of node i are at [firstEdge[i], firstEdge[i + 1]) */
+  private readonly firstEdge: Int32Array;
+  private readonly edgeLetter: Uint8Array;
+  private readonly edgeTarget: Int32Array;
+  private readonly root: number;
+
+  constructor(packed: string) {
+    let nodeCount = 1;
+    let edgeCount = 0;
+    for (let i = 0; i < packed.length; i += 1) {
+      const code = packed.charCodeAt(i);
+      if (code === 44) {
+        nodeCount += 1;
+      } else if (code >= CODE_UPPER_A && code <= CODE_UPPER_Z) {
+        edgeCount += 1;
+      }
+    }
+
+    this.terminal = new Uint8Array(nodeCount);
+    this.firstEdge = new Int32Array(nodeCount + 1);
+    this.edgeLetter = new Uint8Array(edgeCount);
+    this.edgeTarget = new Int32Array(edgeCount);
+    this.root = nodeCount - 1;
+
+    let node = 0;
+    let edge = -1;
+    let distance = '';
+    const endEdge = () => {
+      if (edge >= 0 && this.edgeTarget[edge] === -1) {
+        this.edgeTarget[edge] = distance ? node - parseInt(distance, 36) : 0;
+      }
+      distance = '';
+    };
+    this.edgeTarget.fill(-1);
+    for (let i = 0; i < packed.length; i += 1) {
+      const char = packed[i];
+      const code = packed.charCodeAt(i);
+      if (char === ',') {
+        endEdge();
+        node += 1;
+        this.firstEdge[node] = edge + 1;
+      } else if (char === '!') {
+        this.terminal[node] = 1;
+      } else if (code >= CODE_UPPER_A && code <= CODE_UPPER_Z) {
+        endEdge();
+        edge += 1;
+        this.edgeLetter[edge] = code - CODE_UPPER_A + CODE_A;
+      } else {
+        distance += char;
+      }
+    }
+    endEdge();
+    this.firstEdge[nodeCount] = edgeCount;
+  }
+
+  private child(node: number, code: number): number {
+    for (let e = this.firstEdge[node]; e < this.firstEdge[node + 1]; e += 1) {
+      if (this.edgeLetter[e] === code) return this.edgeTarget[e];
+    }
+    return -1;
+  }
+
+  /**
+   * Node reached by following the letters of a word from the root, -1 if there is none.
+   */
+  private find(word: string): number {
+    let node = this.root;
+    for (let i = 0; i < word.length && node >= 0; i += 1) {
+      node = this.child(node, word.charCodeAt(i));
+    }
+    return node;
+  }
+
+  /**
+   * Visits the words below a node in alphabetical order. Edges are only
+   * followed when `follow` returns the state to continue with, and a word is
+   * only collected when `accept` holds for its state.
+   */
+  private collect<S>(
+    node: number,
+    prefix: string,
+    state: S,
+    follow: (state: S, code: number) => S | null,
+    accept: (state: S) => boolean,
+    result: string[]
+  ): void {
+    if (this.terminal[node] && accept(state)) {
+      result.push(prefix);
+    }
+    for (let e = this.firstEdge[node]; e < this.firstEdge[node + 1]; e += 1) {
+      const code = this.edgeLetter[e];
+      const next = follow(state, code);
+      if (next !== null) {
+        this.collect(
+          this.edgeTarget[e],
+          prefix + String.fromCharCode(code),
+          next,
+          follow,
+          accept,
+          result
+        );
+      }
+    }
+  }
+
+  isWord(word: string): boolean {
+    const node = this.find(word);
+    return node >= 0 && this.terminal[node] === 1;
+  }
+
+  wordsWithPrefix(prefix: string): string[] {
+    const node = this.find(prefix);
+    const result: string[] = [];
+    if (node >= 0) {
+      this.collect(node, prefix, true, () => true, () => true, result);
+    }
+    return result;
+  }
+
+  /**
+   * Words using exactly the given letters, where `?` stands for any letter.
+   */
+  anagramsOf(letters: string): string[] {
+    const counts = new Array(26).fill(0);
+    let blanks = 0;
+    for (const letter of letters) {
+      if (letter === '?') {
+        blanks += 1;
+      } else {
+        counts[letter.charCodeAt(0) - CODE_A] += 1;
+      }
+    }
+
+    // The state is the number of letters left, counts and blanks are updated in place
+    const result: string[] = [];
+    const search = (node: number, prefix: string, left: number) => {
+      if (left === 0) {
+        if (this.terminal[node]) result.push(prefix);
+        return;
+      }
+      for (let e = this.firstEdge[node]; e < this.firstEdge[node + 1]; e += 1) {
+        const code = this.edgeLetter[e];
+        const letter = code - CODE_A;
+        const word = prefix + String.fromCharCode(code);
+        if (counts[letter] > 0) {
+          counts[letter] -= 1;
+          search(this.edgeTarget[e], word, left - 1);
+          counts[letter] += 1;
+        } else if (blanks > 0) {
+          blanks -= 1;
+          search(this.edgeTarget[e], word, left - 1);
+          blanks += 1;
+        }
+      }
+    };
+    search(this.root, '', letters.length);
+    return result;
+  }
+
+  /**
+   * Words matching a pattern, where `?` matches any one letter and `*`
+   * matches any number of letters.
+   */
+  wordsMatching(pattern: string): string[] {
+    // Positions in the pattern reachable by skipping over stars
+    const closure = (positions: number[]) => {
+      const result: number[] = [];
+      positions.forEach((position) => {
+        let i = position;
+        while (!result.includes(i)) {
+          result.push(i);
+          if (pattern[i] !== '*') break;
+          i += 1;
+        }
+      });
+      return result;
+    };
+    const follow = (positions: number[], code: number) => {
+      const letter = String.fromCharCode(code);
+      const next: number[] = [];
+      positions.forEach((i) => {
+        if (pattern[i] === '*') {
+          next.push(i);
+        } else if (pattern[i] === '?' || pattern[i] === letter) {
+          next.push(i + 1);
+        }
+      });
+      return next.length > 0 ? closure(next) : null;
+    };
+
+    const result: string[] = [];
+    this.collect(
+      this.root,
+      '',
+      closure([0]),
+      follow,
+      (positions) => positions.includes(pattern.length),
+      result
+    );
+    return result;
+  }
+}
@@ -0,0 +1,7 @@
+/**
+ * The words of
+ * https://github.com/benjamincrom/scrabble/blob/master/scrabble/dictionary.json
+ * packed by `packWords` in `dawg.ts`. Generated, to change the dictionary
+ * pack the new word list with `packWords` and replace the string below.
+ */
+export const PACKED_DICTIONARY = '!,D,G,N1,!E3I1S,!S,I1,!I1S,K3,R1,A1,S,E1,FV1,L1,O1,V6W1,H,!H,H1,G1,D5G4R1,Lh,E1,G1,O1,!V1,!HnLkR6S1,L,A1,I1,R1,E1,!Em,S1,AuIKT3U1,T,Aw,Ex,N1,O1,R3,!E1S,P1,DR13,T14,N1,E1,!E4I19M1S,N1,O1,D1,Cn,I1,Y,!L1,!D1M9R1fS,DS,!E1I1jMb,A1iN1l,!E4H2I1,E,L1,B1,!DMhR1nS,N1rSw,R1p,I1,IyO1,A6E5I4O3T1,A16L9,I1,!C11F10KzLwMtNlPjScT3X1,I1pY,!C1ST18,!S16,!S1Y1z,!C4S,T1,!DS,N23,N27O1,E3I1Og,T1,A1,I1,V1,E1,AeEcOaR1,BrT7,A1,C1,!L11,A1,N1,EfI1,M1,ST1s,!DN1S,!E2gS,R1,!E2sIkO1S,E4I2rT1,C1,IdO8U1,M,Aq,I1,R1,A1,D1,E1,!NS,A1,S2y,O1,E33I3M1,E34I2xY,!L1sS,C2T1,!A2kS,N1,O1,E3eI1,N5T1,A1,R1,A2xE2bI3gO1p,!M29ST1,CcT,N1,A1,ArClDLgR6T4Y1,D3k,A1,R1,A1,I3hY3o,R1,N1,C2uT2d,DN1R3s,E1I3v,!R1S,R1,E6O1,C30,N1,!DR3zS,G2m,N1,A4E3I1,I3m,A1,T29,I1,E41I41,S1,L2w,L1,!A1,C1S38,E5I1,N1,E1,G34,O1,C7,I1,G5L3SdT1,DjGhLfO1,O2j,S3u,E1,!I3L3cN1,T1,C1,I6,T1,A1EvI4w,R1,E5U1,E1s,N51O2vV1,E2xI1,T1U3wZ3g,T44,A1,!T,!G2RS1,G4zS,N1,O2f,R3v,!A1S,N1,O1,E5gI1,E48S51T1,AeEaI8O7U1Y,O5f,H1,G3a,!I1dL45S,L1,A1,M1,R1,E6O1,R5s,E3nI5r,M5q,!SX,U1,A1,E1,D1LT1,DR5wS,!A4bE1I5zM4r,H1,M5zT5z,S1,!AtI1S,N1,O1,I1,S7T1,!E,A1,I3L1,!L,MS,!A2IU1,!S1,EY,L1,B1T4a,A1,N1,A6I1,N,L56,L3g,A1E6m,N1,I1,G1,I6s,I5l,C1,A1,S5q,!I1S,N1,!L5kN29,E1,F6N72O3V1,!E5xI1S,AhIcNbT1,H67,A73C,I1,D76,G4L2N1T,A1j,O1,N7d,U1,O1,R1,!B5G1S,E1,!A1rD1qH1pI1kL17MxOwReSU9V1,R6k,B1,A1,D1,I6o,A2H1,B61N6i,A1E3oI7p,!L6bN30S,E1,O5nV1,I1,C7D5S1,!E7xI5pS,T1,C1S70,A1,E6aI7zM6r,G1,!D1S,C7oD,E5zI5x,T1,A1,A4G1Sk,RS7a,!E1I3kL6tN3i,T1,P1,AhEdIaO5U1,!E6uI8c,S1,S1,!GS,N1,!ES,A1I3u,E6fI3S1,S1,!E7gI8lS,D1,N1,EaI4O1,L8o,S2y,!I1S,DE1R8q,D1u,E1,D1,N1,I1,!E6I8yL7jM1S,C80T1,IbN1,!E8zS,H1,T1,N1,!L7qN4fRS40,C,!I1S,M96T1,O74S1V7nZ3i,E5I1,T1,E5bI9c,U2V1,N8h,A1,L58,I1L7v,C6cT9g,B2N1,C7mT9i,DN1R9j,!A3E1I5jS,EI5g,O7jV1,A5pI1,T1,B5P1,LfNdR1,T42,A1,L1,U1,T1,A1,U1,N1f,I1,S33,U1,O1,I1,Na4U9y,O1,I1,T1,G4j,M6N2R1,N6j,E1,N1,D3gRadS9i,!A9rI4eS,N1,NajO1V8w,!A8vE4I1L94N5tO8sS,T1,C1,Tal,C1,!L99N5yRS9r,E1I6i,S1,A6I4U1,ArEhIeR1,S4sT8v,!E2nI1L9fN64S,D1,R1,!C29E1xI1tO15QyT5U1,D46,L1,Ao,D1,Nb3V42,A9fE72I1,L6g,AamEa0Ib5,!I2M9yST1,Z,B9kI9L42N7S5T2Z1,La3,O1,Ta5,A1,!A4rS,!AapEb6,!M2S1,!EbeIbgS1,!A9kB94D8oE7wF7sH7jI6uJ6jL61M5zN5sO40R36SkU9V7W5Y1,A9dS5q,!A4xI1S,AbiC1EbcS5s,EbjI1Y,M1,E1,Ubm,O1,!Aa4EboS,H1,P1,E1,L8z,A1,H1,P1,E1,C1,IO1Ub5,H1,T1,N4h,AbfEc2,D1,I1,!Aa2S,!A7yC2D1Nb9,Icb,Uc2,O1,I4O3P1Uc4,Ccb,I1,T1,C1,E1,L1,A1,LTay,A1,E38,C1,S1,Nb3,Sb4Uci,E3I2O1,D7L1,C57D16J14L10NrPqRhTaU1,D7dTcs,N8tOaqVb9,EasI1Ob5,N3T1,Eb7,T1,E1,M1,A5O1,R1,E1,Scx,E1,LbrT54,A1,!EdbId9L3ObiSU1,T1,!N8l,E1Y,I3xL1,CcfT,B2N1T8l,Dc0EdeRde,G6i,N1Vbw,!A4E3I1ObsS,T1,Rbn,!AcxEdoIdmS,N1,BbNdpO1,Ad0EdhS7yZ7y,I1Y,R1,!A7EcaI4O1,S1,D4iLqNkPaS1,U6d,T1,A1,C1,C1,L6a,!A1LcmS,Cd3T1,N1,Ae2Ee2,E2I1,Id6,EcgR1,T1,I1,AbD5P1,M5q,A9h,I2M1,NefOc9S8nZ9i,EcbI1,T1,A1,M1Vaa,A6I1,Ddl,A1,!AdxI7qS,N1,E1d,NanO2V1,EcmI1Ocz,T1,A1,D1,O1,EddMdnSdp,!Iew,I2Y1,N1,Ce0S8z,I1,A3L1,M8P1,Nb1O85,!A4sEdzI1S,D1,MdyUdf,E1,H1,Pf7,I1,!H1,!S1,CdfT1,B21N1,Gfd,N1,!A3EfjI1S,T1,!EflIfjMebS,R1,!DMedS,E1Ifm,E3R1,CgN6T1,L14MnRkS53U1,Be3Taw,!A1EftIfrS,T1,I1,NfvOaiVe8,EdrI1,D3T1,BeaLfv,A1EdIfy,E3U1,Ng1OcqVee,EdxI1,T1,A1,R1,U1,T1,Ng8Oe2V97,Ee4I1Oeh,T1,A1,L1,U1,CefT9d,E7lT,A2S1,OebVfh,I1Ob7,LggNfcT1,D38,!AbpE1IgkS,M1,O1,A5EcmIckT1,LiMcR9S1,E2vI2fL26O10RqU1,!Ifs,Mft,A1,R,A1,L1,U1,D5L1,I7s,R1,T1,L4q,A1,H1,U9i,!D,E1,T1,CcvTfa,!A7gE92I1,LgcSfoUh2,Tfp,IUh4,L1,A3U1,A8B6O5V1,!Cg8,!R,A1Ubq,L1,U1,Y31,H1,E1,!D1S,Efk,H1,P1,O1,D8sN1,I1,D8u,I1,L1,I1,Efv,I3g,M1,A1,L1,O1,!BlLhMbN7T6Z1,C3uEgo,I1Y3b,CF1Ni6,Lha,I1,R1,CT1,EibI1,Ig9,D1,I1,T1,E1,N1,E1,H1,Yi3,NaP2Sh1UifX1,NipOgjVh2,EglI1,T1,Shs,A1,R1,E1,!T1,!S1,E1,N1,I1,L1,O1,H1,Ej1I9x,N1,Le1,Y1,C1,I1,L1,!A1,!AlC9E7Ia5S1,L1,A18I15OqUgjY1,!D2oL2hN2eP2bQ2aR1zS1yT1,Sbt,A1,L1,EjgIis,!DN1S,AhwEhvIjk,RSioV1,Eio,L1,EezGi8,E4L2N1Oem,Rck,D1,Y1,H1,R1,O1,Tt,IizT2z,S1,A1,L1,P1,I6O1,R1,D1,LcjN1O,CftSeeZef,!I1S,T1,A1Ib3,M1,O1,AvEtInLhO7R1Y,!ERS,A1Uem,L1,U1,Mcv,Egv,C67Eel,I1Y5o,CEkd,I1Y,EiwR1,T1,E1,CF6M1Tis,!EkpIblS,L1,I1,H1,P1SgmT3x,AcsEbiO8m,L1Rdb,!EhHgI8LjjNg8O3SU1Y,Rb5,Ri6,O1,!C,A4aGI1O8dUkv,CoD6E5F3N1,!DjpMjxS,E1Il6Mjy,G1,D1,E1,L1,W1,O1,EkeN1,N4g,I1,T4i,A1ElfIcb,EjeO6y,K,Mgg,O1,L1,DYgk,ElmIciUfw,T1,I1,!Af5IiwS,C1,I1,T1,S1,CdEaL9N6RjrU1,E6l,C1,N1,!A1Em2Im0S,T1,N1,I1,!DNibS,E1Im5,C1,S1,OiyVf8,I1Oki,T1,I1,LmaNid,A1El8Imd,!ST1,E8R2vS4T1,AdEfkI1,U1,AmgNmg,I1,S1,Glm,!A1DS,NloTkp,!EehI1Ll9Nhy,V8j,A1,L1,EmkOcp,I1Y,N1,O1,Hmu,C1,R1,A1,DcF9M5T1,!AipS,C1,!I1S,T1,A1,Ras,T1,N1,E1,Om3,Cm5Il6,Tg,E2I1,CncEn6,I1Y,L1,A1,G1,Ah8Ole,E2I1,!Ij1S,M1,IehY1,Ah2,T1,EnoIms,B1,O1,Imy,L1,E6H3O1,Mbs,Cck,I1,O3ST1,CSi8,I1,BxCtDsG6dLpMiNfP7S3T1,M63Tn4,T5t,I1,N1,A4IbuO1,L1,A1pE1nI19O7Y1,!Bet,!ENo9S,A1CjzDndSikUik,Ija,H3s,P1,R1,EofOc7,ST1,SkaT7l,E2ImfO1,C1,E3yO6Y1,Il1LaM1Nol,!AnzGomIcO1S,Bi9,!A1LbkS,N1,SfkTmuZj1,AmlEh3I1,N6O3V1,S6h,O1,Y1,Sok,!I1S,M3R1,!EotY,S1,S1,E1,AkaEn1Ip5,Tn8Z1,!I1Lns,AimEp0,I1Y,L3R1Tn3,A1,!A12EpeIiOcR8SU1,A82IUp5,E1,A84,N1,EncI1,Uog,S1,S1,E1,EpkIiq,R1,U1,T1,C1,N1,R7U1,AltEgo,A8jIlnLgMdP2T1,Vo3,IgqO1,L1,!AhuO7kS,C2L1,Ad7C9bE6mH5oI4wK4nL4lM4jN4iO44Q3jR1rToU6Y1,ApcOpz,Eq0I1,!IdeLooS,CmyT1,N1,A1S1t,Neu,O1,I1,BgtT1,Dd0Rq9,EjdIm5,NqeOo8V1,!A4E3I1OonS,T1,GeMaP1Xpp,BouXpn,!ASUno,D1,Dp4N1Rqi,!EqnI7xS,T1,EngImg,OhV1,I1Olf,Bp3C4NqrT1,Eqt,T1,A1,!DP1S,E1Iqv,Bhf,DEqvRqvS,!A2E1Iqy,S1T,S1,E1,!DNq5Rr0S,!Er5I8fOpcS,E2Ir4T1,C1,!ApEmIgLbR5SU1,Mr6,Nq9T3f,AOez,!ST1,A1,M1,O1,N1,I1,C1,R1,A1,AquS,E1I1,S1,Y1,H1,P1,O1,P1,Y1,Doj,NquS,ErmI1,Ar6Ur0,R1,I1,CgH7I6MnS4V1,IrO1Yrg,!EjtLqlNnaS,T1,Abp,U1,ExN5P3Q1,Cr6Ds3Toy,!DN1Rs4S,E1Is7,OoyVkh,I1,R3S1,Ihp,B1,E3I1,Tnt,A1,B1,Yne,STqk,EshI1,C3S1Usc,IjfO1,A6EmsOseP1Tsk,CqpTr7,N1,E1,C1,Am5Epk,V1,I1,T1,C1,!EsyIswSTsu,N1,Ndf,R1,I3U1,!SY,R1,EqzIafO1,T1,A1,C1,GngI1,Or3Vrm,!I1LruS,T1,C1,IooOo2,T1,A1EpdIteOrn,NtgVrt,Tq7,N1,E1,!A2nEseI4M1OrsS,T1,Nk1,A1,Asg,DhNdRaS4T2V1,AzEuOpU1,NSti,Re5,U1,S1,A1N,Rtu,Esg,NtyOrsV1,CtpX,I1,ErwI3Os9R1,BseNsvT1,A1,E8R1,T1,S1,I1,!STs9,BgvL1Tpe,A1Eq8Iq6,BktOs5Vso,I1,S1,DsxRub,AqeE1Iue,!ST1,!Ute,!EszIuhT1,NcR9S6T3X1,!EolIqgMtb,H1,IqaY,R1,IpzO1,S4T1,I1,N1,A11ExI9O1,EIq4,T1,Aoj,X1,Usr,A4E2O1,Ktc,I1,!L1S,E1Ouz,Cu3Trv,N1,E1,C1,S1,E1,DEv6Rv6,Imj,N1,!Ip9S,N1,A3NveO1V1h,!A4iE6I1S,T1,Bi3Tqm,A1ErgIreNu8,!BhLbN7pP3R1SWoxZtw,EvbZ4s,I1Y,M1,O1,T1,C1,!E1IupS,L1,Gr6,R1,Muu,O1,R1,Isa,O1,R1,E1,T1,CNvz,I1,H1I2,P1,O1,R1,S7T1,AvjO1,C1,I1,T1,R1,HiO1,C1,ApEnO1,N1,Fvk,!EobLv3Nrs,T1,I1,E5I4O1,Ikb,T1,I1,T1,Pvk,I1,I3R1,Bv6Tvu,DNvoRws,!A2E1IwvS,I3o,T1,B3P1,R1,!C8O1,EuxIuvO3z,RpgT1,NvxTuw,Rx2Sw9,EwxNvj,Svq,U1,A5E4I3O1Y,R1,Oto,O1,I2eY,!E4H2L1NsnS,AcT1,EvbI3i,LT1,A1,R1,B1,!Ag9Ola,C1,L8M3N1Swp,EvyIxn,!DOnlS,E1Ixp,G1,A1,C5T1,N1,!LS,A1Oo,I1,T1Vwy,Mja,!O1Sx5,!DRxyS1,Ny2Sot,E2I1Onz,R1,!I7SU1,T1,Arj,!I1S,AxjEy0Nti,I1Y,Vtb,I1,R3T1,A1EreIu6,Cv8Twy,DN1,EwrIj0,NyiS1Ziv,Axz,I1,R1,!E6I4O1S,BfS9T1,C81NiR1,Blb,!Dx9EynMxhRynS,!IyhSY,R1,A4E3IysO1,CxuS1,EwqIg6Ox3,CwxT1,A1,Su9,C2W1,A16EcI6O1,Mru,A1,AUw8,N2T1,Kz1,!Ez3U1,!A8qD80E72H6tI6kJ5hM4fN49O3oR2lS26U1kV7Y3Z1,AswUwd,I1,Oy7,P1,S1,At1D4O1Uwi,I1,LyfNxs,Ez7I1,On6Uz8,E1,Asx,I1,AszC,!I1S,L3N1,Nbu,R1,O1,Y1,Rhd,O1,U1,A,!ST1,A1,M1,Y1,H1,C1,N1,!It6LynS,L1,!DRSuz,Eyn,I1Of6Yla,A4E3F1Lys,CziE100,I1Y,G1,O1,L1Sw3,ACdcO1Uxj,Kun,A1,Ao1E10eI3R1,Czb,!AtwItmS,C1,I1,M1,A1E10k,N1,R4uU7Y1,!Iwi,C1,I1,T1,S1,A1,L5m,O1,B1,L4M1,Owu,!M101S,M1,A1,E10kR1,E112H112,T1,Gz8,I2O1,Efs,N1,G1,C113,I1,N1,A1,H1,A10rI10g,C1,I1,C4D1Tol,AaE1,!IdoS,T1,U1,!A10z,C1E11hS10j,EzzI1Y,M1,A5O1,A10t,L1,Zcq,!I1S,L1,Axz,!IoS,T1,A1,A10wO5P4T1,Mpp,A1,N1,Y1,D1,O1,M1,R1,E1,H1,!B1xD1pE1fF1eG1aL16MtNlPjSbT1,Gwx,A107E2eI28O2U1Y,A10bSwoZwp,!AvvI1S,C1,E12hI1,T1,E1,LTuj,A1,V1,H4I1,T1,Rtk,E1,O1n,L1,O1,H4I1,!C3kD3iGf4N3gO3bP37Q34RiS7T1,DE130,R1,I11d,R1,A3B1,ItnLwo,Ru3,B2I1,BtpTyc,Dw8R135,L11sT9c,!A1E13bLq3S,N1,E11vIz4,NzaO2V1,Sq2,S1,E1,!AaE9I4L1S,T1,Hqk,C1,S1,N1,I1,P1,T10h,N1,E1,CaN4R1,Cy1T13q,N1,Dyd,A1,N1,O1,H12zI1,I12t,V1,A1,Ivx,!DL12oS,A13fE1Izx,O120Vz6,I1,B12kN108T1,!A1E133I148S,M1,B12nLTzg,A13mN14c,!A2EyeI1M134,AkCfDcLbN9R4X1,U13j,T1,!E14iIajS,T1,C1,N11b,E1X13q,A6I3U1,B1j,!A1E14pI14nS,!AztE14qI14oS,T1,S1,D4E1,R1,Yw8,V13v,E14tI1,T1,A1,Huc,C2G1,Nue,A8I2O1,S108,!A1yE1cIqLiObR2U1,!I152S,N1,A1,H1,A156O156,D1,A1,N1,O1,I1,L15g,C2E1R13t,Xn2,O1,M13wT1,A14m,Eor,T1,T1,A5O4U1,Nex,O1,I1,T1,N1,E1,Atl,Gyr,U1,O1,H1,!M6S5T1,E1,O154R1U15c,E14wS15o,AtuE1I14x,Ris,Nt7,R1,I3U1,Aqz,A157L1,C165,E1,E5v,F1,F1,W16d,O1,L1,Ajx,M1,F14yV16b,I1,E15g,K1,R1Tjs,S15s,A2O1,O123,E12t,I1,A20Ok,!H1,S11tX,H15r,G1,U1,O1,A5H1Ib8,R13g,D171L13h,R1,A3O1,!BzCxDvEsGpInLlMgNfPdSbT5W1,R1,Oj,S16b,!E3M2O1,A15kE49F28G24I1wL1oO1aR18T1,!S16f,N1,Okh,L1Wa4,E8g,N1,I1,L1,U1,B1,O1,L1,G1,A1,M15s,R1,E1,P1,S1U17m,A17tE12sIypM6O1,H3i,T1,EIN1,!Iyt,A2E1,!IvoOpaS,Z12b,E181I1Ovu,!IrLpM9P4R3ST1V175Z16i,NsqS124,Sy4,E1O187,!Lv2S,A1U12h,A188S,!E183I1,!S1Tre,A17oNsyV17e,!I1R16gS,C16hD6E3IdT1,U12o,T1,!A1S,!D11kEIeLcN4R1S,Drm,T134,N1,E1,M1,A1,N1,R1,E18qO1,Aq3,R1,E1,M1,BzgTq8,Nzr,E1,G1,A4I16wO1,N1,I1,T1,O9U1,S13fZbj,I1,D1,Dk4N1V114,!DL17vN14kS,N19cO161Vff,E2I1,T1,A1,!E17xIj2O17o,S1,G3S1,EodI19i,V1,E1,AcE4I1O19j,A12E17vIuLhR1,!S14i,A1,!G19nNwr,!ST38,M19pT19q,!D18cS,!R19r,E2ItuO1,B188T1,Oun,R1,A3P1,L6oNaO9S8T1,R18e,A177ET19zY,M4i,M1T4i,W,N114,O1,!C1,A8E7I5O4Y1,A1a7Ikt,CO185,E1a9I1,I19tT1,Naj,E189I1,C11o,I1,I19jT1,M4S1,A7I2hO1,E18gI1akTmz,E18hI16i,CE1aeS2Z1,!A19yE1alI1SY,A1amC1am,E1anI1,B1,O1,H1,!EP1S,T1af,A2O1,I188Y,T1,!GNbR3U1,E1axF1a0,E1ayO16q,T1,Y1,C1,O1,L1,U1,AI142,H1,N12i,A1,I1,FdN6P4R1Vue,!AcpDI1bdM1a5S,A1apI128,T1,E3S1,A14wE14w,!E1baM1,S1,S1,E1,N1,I1,S1,U1,Cd8,I1,M1,E1,!I14yL1af,L1,A1E1buI150,R1,U1,T1,L1,H8U1,N1a4,O1,A1c2BfC3M1,Hc,E1afR1a8,T1,S1,E1,R1,O1,C17zE1c4S1b6,I1Y,M1,O1,CbF5L9nN1U155,P10e,A16E12IeO2Y1,E18x,E1,!LhmSW1,H1b6,S1,E3I1,!A4lE46G33H31I2qL2hM2gN26O1rR7U1,O,O1,H1,A1cvM,Cb6,I1,R1,O1,T1,M5qS1,S1be,L19fR1Y,L1cd,!ACbEaI4O2U1,N1cw,I1,L1,U1ci,!E197F1I1d8L102M1rS,!ST1ca,T1,E1,!ST189,E1,L1,L1,I1,L6vR6U1,I9o,N5m,DR18w,IvcOpu,H1,P1,O1,R1,!A7E6I1dqM1ciSU1,U175,E5m,!E1coF2I1dtL1S,L1db,!E1,!S1,L1du,A1csR119U16n,H15n,S1,U1,!E1duS1dt,R177S1,O6R3U1,H1db,C1,A1,AhrE7t,H7yO2R1,E1ecI1ea,!P1S,M1ddP1,O1,A19bR1,DR1edS1di,L1au,E1,G9k,I1,AirE1,A1djI4L85O1agR1,!E1eoS,D1,A1,E1Owg,E1a1G1eo,E16kL1dcN1,!R1eqS,E1,F148K1d8N1,EbhI1,Hzm,!S1,I169N1,Bbz,A2E18fO1,N1e2Y1ez,A1,R1dxS1dxW125,F1f3,O1,O1,A1f1L5O4R1,P1e9,E8u,A2R1,E1bpI102,K121,C1,A1bfE2v,A19n,E1I107,R1,!C8H7I5P4T1,T128,H1,G1M1emN1fm,!E1foH1flI1S,R1fpV1eoY1fl,E17hN1ay,I1Y,H1,T1,M4bR1,A6I2tO1,!B1qC1lD1gE1fF19G9dH15I13LzMuN1fsPnScT8W1Y,Y1ft,A1,!DSW1,E1,!L1,!B1ezE1fs,H1,!C1S,!B2xD2vG2mK2lL2dM2aN27O26R9S4T1V135,V1f6,W1da,G1f8,AzeE1elI3O2U1,E1g6L1faN1f9,B3j,M1N,E3I1Vca,I13n,E1emR1,T1,S1,A1,I1g8O147Y,T1,I1,KR1,D1fn,!D1fnS,E2O1,!D1gmEGI6jST1gmY1g5,N1cnS1ao,!E1gsI1S,!M1UpkY,O1f1,!K1fvT1,E1eqI1c6,!BfCbEM8N7R4S2T1,O1c7,A1gvR1,!ChpST1,O1eb,D1I1g3,M1gzT103,CS1,!ST105,A1gfI2O1,I1g7Z19j,ChxN2Ty3Z1,!O14xSUxh,N1,!E1f4I1OyiS,N8u,M2R1,!AeEcI6SU1,E1ah,C1hcD1gf,A1fo,D1ghH3I2L12wY12wZ1,!A1av,!I4oS,T1,C3E1hcS1Z1bt,I1Y,M1,E1Y9x,!I14zS,D1,CupS1by,!I1S,L1,O1,H1Vzv,N1ex,O1,AhHaI8O3Y1,Dyv,Y1,L1g2,Na2,A1E1bh,M6m,O1,!F5M3SW1,H7R1,Z13v,!AzhI1S,E1i7I19j,N1,O1,R1,E1,E1icT1,L7S1,EaO1R102,I19bY,R1,O1,T1,Uzu,O1,B169,C1e0,DRS1hs,!E1I1iqL1hbN1e0S,T1,R8m,N1huT1hu,I1,E1h4R1,D1,N1,A1iwN19x,A2I1,!AgC1iyEF1iyG1lHeMdNcPw4R9SU8V10mWcfX1,F1i3,!N1j0S,I1,U1,!K1j2L4Q1S,R1bk,A1,L1,J1ib,R1,C6l,S1,E1,A9I6O4R1,!C11f,B1ii,O1,O2R1,!E4LR1S,!I1f6S,A1,R1,B1R15h,!A1elS,C17jDj0N1,!C1joS,A1,I1,N1,G1,C1j5E1jnS1ip,I1Y,G1,A4O1,Hwd,S1e8T1,!I1S,I1k4L4R1,AkEgIeO1U1eb,!E1imI1k4S,I1L1ij,L138,C1,Y1,A12e,B1atG1jbT1i3,N1kcS1ea,!A2Ep4I1L1ixN1fmO1ilS,N1,!OzeS,T14w,H1N1j7,R1j2T1fn,!A1E1kkI1kiS,T1,N1,E1O8j,Az6,E1h1H1,A1baO1ji,U1,C1isT1jr,A1,R1,!E1,D1j8,N1,!H1kuS,ST,A2O1,Al8,A1k5BvCsDrEnFmGkK16cMfNndPdQbS1k3T7U5V16cY2Z1,T1bu,S1,E1,IkzY168,E8y,!EIw0,!E1j3I1l7,!CE1l0F4M3N2S1Z1fh,IthS1h0T14b,I2O1,!ST1l9,E1,HaL3N1,E1l6N1kf,I16vY,X1,!A1ddI1cbS,!D1lgL1N1kj,A6E1kjI5O3Y1,CD1lbN1liS,I1,O1,I1gkT1,D8y,N1,A1,G1,N5R1Y1d7,!D1kdR1lrS,N18g,A1N1lw,L1ex,A1,E1juI1lyT1lw,C2E1lrS1Z1h3,I1Y,R1,Tdh,E1O1m1,A1h9EbI9O3R1,!Iy5S,H1,P1,R1,O1,Txw,A1,M3P1,E1mbIydO1U1er,N17u,A1,!IlqS,N1,CE1maN1mgS1lc,E2I1Y,G1,Hmu,!SW6q,E1mlGjLaM8R3T2V1kdY1,Eo6,E1ae,B1l3C1N1ir,T5z,A1,Tpe,A1,R1,E1,A7C14jE1lfG5T1U1h5,D1l0,O1,B1G15b,I1,T1,N1,A1lgE1l0I1kyO1ld,B1liT1,A1U1ib,!Io0S,M6r,E16bI1e3,N1,H1e4,F1cqP1,A1,A6E4R1,R12t,T1,E1O19,G1mjY1hq,C1j6E1nb,I1Y,H1njR1,T1,A1mnO14j,Doy,I1,O1,L1,P1,Y1,L1,O1nc,N1,I1,R1,AdHcO5U1,Rjm,U1,Ri,E1,A3T1,Ad,R1,T1,E1o6I13nY,P1,O1,Et3I1ob,E1oaItY,P1,!E7M1n6R4ST3Y1,C1io,B1i0N1,D1n1,!A2E1I1oiS,A1gB74C1dD1cG15M12N11PkSfT5V1blW1X1loY1oi,I1kl,!Ec2P1,E1mxI1kj,O1miV1hn,I1,!L1on,A1O1mlU1iy,I1,D1j1R6S4V1,!I1otL1fm,!A32E27H26I1xObS9U2Y1,A1ciD61,!G7jH1ouN1S,!H1ovM7iS,N1k8,I1Y,T1,H1,G1,D1p1E1ncR1n5,N1S1o7,E1neI19p,V1,I1,!G1H6mMdr,C1oaD1g8G1p7,AeEdI8N1ccO6S2U1,O1oh,C1,I1,C11q,I1,Ofg,H1I4n,!S1,E1c8G1,F1il,C1if,E1,DqfE8kF1oqG8H1opI1niN4O3P1U1ppW,C1oq,R1nk,O1,Ojh,T1,GjcH3S1,N1,C8eN1pwZ1kz,!E1pyI1S,T1,E1,E190,R122,E1,M1,U1,!B6M5N1S,R1o0S12c,A2O1Y1pn,E1n0I1k5,N1,!AlEfH3I1S,D1ov,A1,E1Ikh,K1pe,!I1O,!PjmS,U134,M1,I1,R4Z1,BnhN1peT1lq,N1qmO1ogV1iu,EmjI1O1ov,T1,A1,!A5C1ikE1pkI1qpN1S,R1,G1qd,!R1onU1,A177E1pvO1,N1ld,A1,L1,A1q8O1en,N1,E1qxI1,D1,U1,M5xP6T1,U19q,M1,U1,Tno,E1,T19w,A1,R1,!T1,!C7G5I1kgS1,C1qm,M1rcT13t,S1,I1,I4U1,!AzEsHpIgO6R1S,!ER,A1,CU1ltZ1lu,C1mi,I1,L1,I1,S1U1ri,!AeiE1rpI6O1SU1lz,N1,A1llIU1rl,O1qo,O1,!I4N3R1S,D1rdLdM1N13k,R1orT1qc,A1IU1rr,L1,O1,E1I1fd,Sjn,S1,!AbaBatCa8D9pE95F8rG82I75K6mL3bM2vN2sO2iP1wR1tS1rTnU8V3Wc9Y1,A1r0,V1,A1O1gk,!A1q1S,M1,A1,G1,A1sbI1q8,T1,D1e9,A1,N1o7,E1,Dc7I5T3U1,Haw,T1,N1,IO1sl,T1,L1agT1,L14w,A5E2NsxY1,!E1muI1ssM1rk,!S1,H1lvM1ss,S1,!I1S,R1,U1,V1lz,L1syR1rl,E3I2O1,O14j,R1,!T1s3,!I1o2S1,N1,E182I1p4O1,!D10H1t6I1mnLwNpRhSfT7U5Z1,!I1sjS1dy,R1,O1R1ol,D1,A1,S1,G1sgRijS1,R15n,E1t9N1sj,An8,!G3I2J1OxnSY,E1rtR1,R1pd,Owf,E2R1,T1,X1,E1,C1ssT1tp,N1,I1pmO1jq,U1,!I1poS,L1,A1,U1,X1,E1,!E1u3I1u1L1gvS,N1U1k0,O1,!I1S,L1js,S1pcT1u4,R1,A3E1,A1q9DjEhGfS9T5V1,N15x,O1,P1n6,G2O1,E1qdI1ueY1,N1th,!I1N1u7SY1,!L1t1S,A1,I1,Yfc,I1qzS2T1,I1udO1Y,Rvg,E1ugL1t9,I1Y,R1,E1snI1slO1,C5N1heT1,A1,D1li,A1,C1H24,L4S1,A1jE1eIpLkOiRcSt0U1,!ENS,A1qqC,C12kI1v3,A3EvkI2O1,Rbf,R11z,O1,A1oa,L1,B1,C5jI4O1,O1q0,B1toT1,!A1E1u7I1vcM1u4S,A1vbI1m7,E1,H1,R1,R1,R1j7,E1,A1viF1,!I1S,!Ar0DaI1rfO5ST1,A1tzN1vo,E1tzI1,In9,C1,C3I1,Te4,S1,Y1,O1j,H2R1,BvEuLoNbR6StzT1,!B1ilNrjS,AxbE1vxIU1vr,CN1mz,!G1ecL1vzN1v2,!H1gsT,!A1dcE1w1I3O2S1,CT1u6,Ucz,D1,I1,C1,D1dh,I1,T1,P1,L1i7,L1,Y1,Ewp,R1ib,E6H3T2Y1,F1dp,S1,N1,A1,R1,!AgP6T1,!E1wnIlO1S,S1shT1s5,Ye,T1,P1,I1O1el,I1wmO5R1Y,!AyCxDtE1wuGroN7Rd8S1wuT1,E1wvO,N1,E1rw,!C1trST1ox,A1CF1euT1dyU1r9,!I1tg,A1wkI2O1,!C5N1S,I1sa,N1,E1k8I9O3U1,AdiC1x6,CE1vr,I1Y1ie,I3T1,S1,E1t3,T1,N1,E1,C1N1oaT1ee,ACO1,E7I1,Tz2,I1,B1,R1,A1,B2n,Ltv,L1,I1,GqhT1,S1s2T1vw,!I1L1wg,L1,T59,IO,N1Scy,SlaU1ny,H1nx,A1icE1vyI1y2,S1scZ1,!I1,A9E8I6O5P4T1,N1nkR1y4,L1ft,L1,I1,C1,I1Y1,BoEnK1yaL1xdNjR7S19zT1tiU6X1,E1hd,M1,N1ut,A1,A1bwE1yfO3S1,R1,M1kd,A1,T1,!N1yk,A1O1ok,E1ygT1xp,E1ynI1OxjY,L1,Cbg,A1,I6O3R1,N1e8,O1,Y1,T1,Ib6,C1m1,X1ur,A2I1,IU1y7,X1,H1i6,T1,L1g3,I1,Y1gz,T1,S1,O1,A7H5LbmO1vqR1,N40,E1,A1,B1,Ci0,I1,E1xsR1,T1,A1,E1,H1,BvCrDqMnOlPcS8T1,!ELS,A1,R1T9s,E17I4O1,!N1v3RS1ywXvf,Y1yu,U1lb,D2F1fcT1,E4I1Y,U1hp,!Y,!ER1,A1,!E200L1S,A1rzE1z4,L2T1,!E1nHdI1vL8O7SU1,T1z8,E1,E1I2,!K207S,C1,A1,R1,A20bN1mwV1yr,!A1yqE1yxI1,!C20aLttS1,I18o,A1u9E20fI1ycO1,L1,A1U1ia,D1,E20dI1zq,S1,!O1S,D1,Y1f9,T1ic,C1,E1L5mS1ie,G1j4I5L4P1S1zu,!A1i3E1zuI1roO1SU1v2,O1os,T1,GdL3O1,!A7qB60E51I42M3rN3fO2mPtRqTmUjY1,T15q,!E20sI20s,E6mP2S1T1k3,P207,E1,L1d3,A4L2O1,M214T1wl,CS1,I1O141,N1,O1,R1,I1fw,AI1wtO1z8,H1,T1,U1,L1Nkw,N1p3,O1,E1U1xa,HaL9O4R1,O1xc,L1,P1,M1pe,O1,E1vzI3R1,C1xfO1xi,E21rI1,B1,O1,S1uaT1pi,E1,H1,T1,M1uuR5S1,N4o,Per,Y1,I1xu,R1,O1,CkqE21z,E226I1Y,G1,CktZ1d5,I1,T1,A1E22fI22d,!M1S,M1,A1,EgLeNbO8R1,M21jT21j,I1,AS,T1,AI1tg,!ST1,A1,M1,C5M1P1qb,Is3,S1T1qe,E1I21v,CldE22mS21oZ1x3,!I1O1ssSU21wY,G1,C22vS1x5,!I1S,T1,E1,B1,A1,H1,N235S,A4qE1z4I1T233,!A1wkI1yzS,C1,I1,A103E1z8I239,S5T2Z1,!CsElGiI1z4L21wOfP8Y1,E234I234T1me,S1,E1,P4b,R1,N3O1,!I1r5S,T1,S1,S1ki,!A23kI1z2S,R1,A1rb,I1,S1,I1,D1,O1,I1zaO1rl,T1,C1X1zn,A1,L1,AeOcR6Y1,I232M2eT1n2,S1,A1,AmqEjH4L1,CmnE23wS1uw,!I1SY,H1,C1,A246O1ry,C1,R1,Aja,M1,G1,E22aI1a,S1T1nh,O1,M1,H23j,P1,O1,I8O4R1,!AcT1,AIwl,!ST1,A1,M1,E1,CnbE24kSiuZ1z1,I1Y,M1X1mg,P1sk,O1,A1m6H6O3R1T1zg,!B3tC3dD37E2yG2hL1nM1hNelPvRrScT1,A1ydE20aI24qY,O1b5R1,T1,S1,DS248T251,E252I20k,N256T1,P23j,O1R16a,E1,!A1ioE6I4L1s3MtsP1SWn5,A258T24c,T1,E1I253Y,R4V1,Sd1,O2U1,!E1x9L241N20qR23iS,T1,N1,!ER23lS,A1,L1,E4L1,!A24yE22eO1te,N1,A21f,I1,M1,O1,T1,S1,O1,L1,EvHiIbO9R217Y1,S1hl,U1,E25yIf6,T1,L3N1,I1m7Y210,S1,R21h,Usq,D1hu,N1p8,E1,I178,C1,!E1htI1x6S,N1,E26cI265O1u4Y,N1,E3Y1,Epw,R25h,E1,T1,CcEaG5I22zM4S1,AfO1,!AlEjIiOhR1S,!I20mL259,!G25qL1,Cp9S25k,A2E26pI1,T1,O1,O1pw,D2H1,A163E24sI26w,A26vC22k,P1k2,A1,R1,I1q0,H1,G3MlyN264P1S22u,I7O1,L1mj,A1,H1,P1,E1,C1S26dT,A279CE273,I1Y,G1O1bh,E276S268,I1Y,G1,O1,L1,A27hO1,I1,C1kkS26fZ21u,I1,S3T1,E1,IO1vfU26u,H2R1,!T1,L1yr,O1,H1,N27tS223,M24n,S1,I3Y1,Pk8R1,!A1e5C15L14MwNqRnS9T6U1W,S23tU27t,O1,U1,T1,C1,A1,R1,O283,A287E281,I1Y,!K3R1S,Su7,I1,!Adx,C1N28g,!E28iF3I1OySU27l,E1vcY,!E28kI28iL1S,L3R1,A1aqO1vu,A1k6,R1,G1,O1,I1,D1,R1,A1,E24jI1zn,N1,M28tP1kh,A1,E3R1,S24r,A1,L1,!O1wrS,M1,R1,E1,P1,N1kb,E1,CgGbM1hxP8S3T1,NpO1,!FxS,!I248,R23k,O1,!DP1c4R4S3W1,E27bI29fM29d,S1Z1kb,EI1,C1N1u3,O1wu,H1,P1,E8I4O1,E21gL288N24x,I1Y,O23x,!R1S,T1,N286Svt,!I25mL28e,R1T21r,A1O1x5,I4L1,A1mE1eIoLbO22fR9S6U1,N22s,O1,D1,Ntv,D293T293,I1O1xt,R1,D1,E6I5Y1,!C15sE2a5G15tS,N1T28a,!EI1S,S25gT2a9,R1,E1,V1,AE2acU27k,L1,U1,CE28qStgT28jZ1lc,!C2I1L1d6S,!D293L294N25tR2ahS,E1I28eO10r,!D8L3ST1,!M2akT21f,!S1,S26g,A4E2anI2O1U29u,Kr,!E275I1ST25o,Ank,Rey,T1,E1,C26jE2aoS254,I1Y,P1,O1,R1,G9L2a2M6T1,!EbI21wO1,!LuMeO125S1,R1mr,!B2a4DST2b3,E1I2b6,!E2azH2ad,S1,!SU2ae,R1,U1,A1E298I88T5k,S1T1uf,O1,L1,EcH2beLaU8Y1,E28g,C2ajG1S2ao,A1,!IqiS,E2bdT264,!L2ST1,L232,D1zh,I1,O1x3,I1,T1,!A1E29pI2bt,A7L5X1,T1eu,A1,L1,I1,A1ye,S1,R1,E1,H5V1,T1da,A1,C1ej,N1,!A288E2b3I285S,T4U2Y1,!I148L2avS,L1,A2b5I2c3Y,T1,RT1hm,!A1E2b9ILy5M2b7OzfSU2bk,Ik,C1,A7I5L3N1,AxEpIgOaU1,C287Z1nf,A25zE2cjI1Y1th,T2bd,N1,E2cmY27l,I2cgO22mY,L1,CE2cp,A2I1Y,!I28mO22qS,M1,!Y1,P1th,E2cpI2bx,L1,E1,H1I2c2S25e,E1rn,A2d0C2d0E2cuG1,I1Y,C20pT20qX1,CT1u2,I1ta,S1,I3O1,H1,A2d5E6T1,H17r,RTi2,A1,L1,U1,E1egI26b,A2dfDwIuLtMpNmOlPhR7S1ehT6V2X1,!ET1wc,I2cjO219,R1,!A2bxE2cgI2dlS,R1,E1,A6E4W1,SmbZ27y,I1,N1,O1,G21f,C1se,!C1hzEG3L2R1S,Ewh,U2b3,L1,L1,E1,!DN1izS,E1I2e2,Sxb,D2S1,B217,M1P2dm,A1O2cf,E4H1,V2bd,U1,L1,!A24jI1,!A285E2e5,X1,I1,Oz8,E2bn,T1,R1,O1,A1xsE2ej,L1,AeyU1,T2dx,P1,A1r1N3U1,AU28z,I1,A11k,M1,!I1S,T1,L1,D6U1,N1,A284E1,R2dl,O1,I1O5e,R24i,E1,!A227B16CyDuE2f8FrI2f6LqMmNgP6R3STkmV1,AC2eyO2d2X2ed,Idq,I2M1,AN2fbO28p,!E2fdI1S,Ds5,!A2eoI1S,L5M3R1S2b5,!I2daS,N1,A1,Y1,C2etE2fbS2edZ267,I1Y,G1,O1,L1ra,L1,I1yoY1,H1,O2cw,CaD9iI2fuL6P2Z1,O1x2,E1o1I1vyN1,I1wq,N2ev,I1,U1,C5N4Q1X,!A2boI2bt,C1S2a9,I1,R1,T1,N1,E1,C1sjE2fzS2f1,I1Y,G1,O1,C2byS2aaZ1r6,!I1S,H1,P1,R1,Et0O1,H1l8,T1,I2fpO249U2gbY,G1,A1,A4H1,H2ep,P1,O1,CkG3pI2d4LgMaP4S1,I13xO1,P1,AuO1,Rl5,E1hI131O13R2U1,!I2a0,N1,O1,I1,T1,R1,O1,E1f0,D1,A1,O2al,I1,T1,A1,R1,T1,S1,I1,N1,I1,M1,Sa,S1,E1,R1,G1I2hl,F2gg,A1,R1,!C1,R1,!I291,L1,O1,H1,O1,E2bb,N25j,E1,G1,R1,E1,C7I6L1,I1i9,M1,T2gq,E1,I1,E4X1,E1md,H1,T1,R1,Rek,A2H1,Rxt,C1,O1,T1,N2ihS1,H1gh,T1,Y1,H1,C2imS,I1,T1,I1,R1,H1,!IbR7ST1,L24j,I1,M1,I1,M1j5,H1,S3T1,N1b,A1,I1,R1,A1Y,T1,I1,R1,O1,H1,T1X20y,B2bC28D1xG1sI1nL1bN15PzRjScT9oU1,A1ug,L1,E1kw,K2T1,Y2eu,C2R1,B2ca,L1,I1wk,S2feT1,A2jgL3O1,K1y,C1,A1,I2jk,O1,E1,G1,R1,O28m,C1,D2i1S2jrU3Y1,U1k,A1,Rk3,A1,L1,E4G1,E271G,N1,I1,GR4S1,ArImLjObU1,C1er,I2ea,L1,A1,T1,I1,O1bh,N1,I1,!C1I2kb,Y2dp,L1,O263,A2H1,K2dxL2geNeP9R5T1,I23f,L1,U1,L1,P,I1,H1,S1,R1,O1,S1,L8N1,O2kd,R1,E1,T1,S1,T22d,R7fS1,E1,N1,E5I1,L1,C2kz,R1,O3U1,T245,E1,R1,A1,A2jwE2jgI2jeO1si,N2kfT1,A1,G4P1T2k8,S2ka,S1,L1qf,A1,C1,I1,R1,Tmd,C1X2l2,A1,A2l9E2lwG,M2N1,I190,W1,K1,T2fb,C2T1,AgEbI6O1Y,L1sj,U1,G1,I4s,Ij,N1,DL3O1,A4l,I1,C1,R1,N25,E2U1,V2kx,I1,T1,I1,T1,E1,M7P1,R1xb,E1,M1,O1,L1,O2fx,I1,T1,A1,V1,R1,M2a3,E2U1,N2md,O1,I1,T1,N1,A2m1I1ie,S1,L1,E4U1,GiSaV1,On,O2gtV2mf,I1,S1,P2im,O2U1,P6R1,I1h,E1,F1,R1,E1,T1,N1,A1jD2j3L1fM12NfR8U1,C229,A18,M2m8,L5q,E1,A5E4I3U1,R2n8,!U1,T1,L1,O24y,L1,C1,!A3gE34H2qI2iK2o4L20OeR8SU4Y1,F,F1,U1,R1,D1,N1,M73,A1,A2n7I2jq,S1,S1,E1,R1,I1jp,T1,A1,V1,I1,G7f,E1,R1,C7i,I1,F1,I1,T1,G6R1,C1va,C1,E3I1,M2ce,P1,O1,L1,E1,FsM6oPnRiS6V1,E2og,H1,R1,B1o1R1,U82,N82,I1,M1,I1,R1,C1,A8L7S1,M14w,A2ixE2nfI2pj,G2R1pqT1,M2l0,A1t5O1U2pn,P2iv,M1,A1eEkI8O5R3U1,M28s,O1,N1,O1,A2o,C1,U1,R1qe,A1,T1,I1,L1,A1,Tjy,C1,E2q3I2k3,T1,E3I1,E2dt,P29b,O1,R1,T1,S2oyT2dz,P1,E1,L1,I1,O252,H1j,S1,I1,L1,B1,G28z,O1,A3R1,T1,!A2liI2kq,N1,O1,I1,T1,U1,L1,O1,C17D14GyLtMsNoPjRiS9V1,I2mq,!A2peS,N1,O1,I1,C6uH1,U2pl,G1,!I1,M9S4T1,I2kf,L1,A1,R1,E1,N2puS2lf,I1,N1,A2pwI1,C2n7S2ls,!I1S,T1,E1,N1,G1,A1,M1,O1,I9o,L1,I1,R4T1,DiMeR1,S2ez,U1,B1,I1,L1,Ns,O1,I1,T1,A1,D1,I1,R1,!O1,U1,M2dh,G2lm,U1if,S1,O1,L1,!E2bq,N1,G1,C4I1,E1M1a,L2lw,AcGbR2U1,U2ss,Z2rs,E1,C2ny,A4E2I1,G1ud,N1R,A1nE10IvLlO8R3U1,Ba,M1Y,Cd0,!E2szI1S,N1,Uuw,B1,A1j5O1,N46,R1,E1,V1,V2p2,T2sx,W1,A3O1,L2sg,L1,I1,R1,R1,E1N,AlEiLfObR7U1,CN2sm,!E2teI1,O1P2te,R1,H2sb,C1,R1,A1,R1,A62,E2ttI2hi,N1,I1,M1,R2sl,A2O1,T1,E9J8S1,U2td,X1,E1,S1,O1,M1,S1d8T2rb,!I1,N1,A1,E2dkI2ex,T1,M3N1,S5x,N1,E1,T1,R1,E1,E27g,T1,P3S1,E11InOhUaY1,!M2ny,M1,A1,Bz,K1,C1N2fg,I1N155,O2e4,B1,S2tk,O1,R1T2qd,E5c,K1,A29lF2u7P3U1,L2me,A1T2s8,R1,E1,R2q5,R2ge,E1,E3T1,B5F2trT1,M2m7,H1,T1,I1,R1,!A1I1vbSY,C2a1G1,H2ot,C1,N1,AqEkIbO4Y1,S1ea,S1,A1H1j1,A173,I1,R1,A1E,M2uo,E1,G1,!A1,A1ln,U1,J1,E2v6,I2K1,Ibr,R1,E1T2j9,ChG1uzLdN9R4S2w3T1,A46,H1,E2w9G1qr,C2waT2vd,I1,L1,O1,Yas,H1,B3P1,A1,CaR9T1,B1y2,O1,R1,I2qmY,R1,A1,T1,I1,E7i,G1,E1,C1S2em,O2ki,CbL6S2T1,R2q1,E1,C2wbS2vv,I1,H1,C1,R1,A2wnD2w7E2wy,I2qbY,L1,O1,P1,A6I5O1Y,T1km,I1,U1,Q1,DgN5S1,C2f3,A1aEyIkO2UbuY1,R9q,Lgo,A1,N1,O1,R2lk,I2U1,E1xw,S1,R9T3U1,S2cd,A1,L1,P1,Owy,I174O2vt,R1,T1,O5P4U1,A1mtCE2xu,I1Y,L2r7,E1,D2m2I1l6M3V1,A2heO2w2,E1,L1,C1K2wo,AjEaG2y9O5U1,N2u4,E1,C1,EnrS1,I1g9,N1,A1,G1,D24x,I1,N24z,O1,B9R5X3Z1,E2y0,L1,I2mc,L2S1,C2gk,I1Y,A3T1,E26iI2ynY,H1,P2y8R3S16aT1,O1qf,Nb,N1,R25f,I1,O3P1,I6S1,I1ec,C1,I1,T1,R5S1,I1i,G1,O1,L2w7R2xg,!A1I2z6SY,N1,L4O1Rts,C2xk,A1,L2yvR1,U2ym,G1Q8f,A2a4,A2E1,A2z6E2ni,C287,I1,C2y6T1,U2uy,E2zsI2L1,E2ztU2j0,H1hf,P1,A1,R1,G1,!O1,N1,Rhy,E1,A4jDgE2epLbPaR3TV1,D1deS2zy,R2tf,E1,E1,T1,I1,Sds,S1,E1,R1,Tb6,I1,T1,F8G4S1T2vv,R1t,EfO2U1,H3p,C1,Y1,S2wgT2ob,E1I2zq,I2oeR1,A1uE1iH1bI18L14OnR7S4Y1,A1pkE30l,I1K30sY,R1T2ss,N30xT2yy,A2E2wwI1,U1,I30q,Eq,HzpI2uzK1,Cep,A2kaI1,!I2qb,L1,A1,N1,O1,I1,BbC9D7P2zoT1,I2vy,S1,S1,E1,Oey,I1,T1,C1,!U1,O2uzV2zy,I1,T1,C1,E1,L1O2gp,T16g,A1,L1,U1,Ckm,E1,NU31o,O1,I1,G1,I1,Nq2,O1,I1,T1,U1,L1,O1,AhvCuDpFjGfJdL8V1,A2pu,M1,U1,E1,A21i,U1,O31iT1,T1s0,N1,A1,C2h0L31uM1Yb6,I1la,H1,A1cEeHaI7O3R1U2vq,Lhw,E1,GT1,AC,I1,N1,E1,R1,H1,P1,O1,Z1,I1,F2m2,I1,C323T1,N1,E1,U2qq,B1,R1,H9I4O1,C31u,E1,R1,Zax,T32n,N1,E1,M1,I1,S31wT1,Tc8,A1,R1,A1S2zdTk0,L22y,A1,!I2wtU1,CfGf0IeN8P4RozX1,R2i8,Fhp,I1,L1,C2icP1,A5Ij2O1,E2qc,V1,Ej5,A2E1Ij6,E1u8I341,GK1,Gbf,G1T,O3U1,B,O1,A1sd,I1,C1L2ng,D2rx,O1,M1,S1,A2t,L1,U1,C1N2tk,A5E1,!EI2ve,T1,Hzi,P1,E2rjI29qO1,D2s3,A5IgyO2r5R2U1,R1of,A1,I1ej,I2oe,S1,R1,E1,M6S5V1,B1I5s,L69,I1,H1,M16pP1,!A2fC1wE1eH18K2svL14MzNxOuPlTeU5Y1,V1zl,O1,E1,I2ga,N1,K3N2jrR1X,L250,O1,N1,H1,Rl3,O1,R1,C4R1,T345,E1,R1,F34pO1S31dT164,B2n9,M1,O1,O2th,R1,E6R3Y1,C1mi,A1,B1TftX29t,E35oIiq,D1,!E347,T1,S1,A4U1,SmaU35u,A2paO1,L1,U1,C1,R1,E1,R24l,O1,B3M1Sbv,E36aHm,P1,A14EwHmOjRdU3Y1,Yhf,O1,L1,P1,M1,Rvw,E1,O301V1,E4I1,B276,LmeN2R1,N2oc,C355,N1,E1,L1,A366U36n,M2oi,A1,Cpy,E1,S1,I1,O8R7T5V1,EdI1,A1x4,F1,A2qdE378L1,AejI2pw,M27q,K35m,N1,I1,A2qjE6H5O4R1,!Ao0Bn3Cj8DhoEgdFegGdtHcoJclKchLbpM9vN92O8pP6lQ6fR4rS29TzUoVaW1,R1ss,K35tO35a,E2I1,M2o1,!I2mxO2v8SY,M1,O3Y1,N1,R1um,A31cE37lO1U31v,E2zh,!I1Y,!AtvBtuEskHqvIdLaO5R3S1,LN37p,A1E2j9I30nO2vi,R1S36z,!E37wI37uL1tkST1xy,L1,I1,Y2vi,L1U2xw,E33sO1,I1,O1xx,A1b,L1,I2so,H1Ikb,E374,A1scH1I1v7,!B1l9H7M1isO2vjP5T3W1,!A13bC12cD11mE109F102GycHy3Ix6KwtLwqNvqOusSulTjUgVdX9Y1,T2kp,S1,A18nI2z6Ozp,I2T1,D34r,R2U1,EH37h,G2pe,O1,J332,!HqbM2f2N33u,E2T1,A1kl,S1,E2n8H9sI33lO1,C9G7N227R4T1,N37kS,Ifr,D1,F38r,I1,E5O3T1,!C2x8I1ST2jeY,L1sg,A1,!A2ngDE2ngL2e0R3ST1X385,E2kh,R1,I1bu,E2G31hNvxS1,!N,A1O370,I1,L1R1buS34yT34m,!E390I36dS,D1S,E376I39aM398T2lp,S1Z33k,I1,L349N16mR1T2sf,C365,A1,I1,S1,I1,D1,O1,A33dO2xb,H1,L1rn,AlEhIfObR4T2Y1,A37kE39hS38j,I1Y,NR1,A393E39qI32w,R1,U1,A2skIT1U39n,L1,A33aE39pU1,A2xv,H330,A9C3E39M2N3a1O276S1,N1pfS2q4,Nrx,B3a1,M1,A4E3I2q9O1,A2ccI310,E1,E2O1,D3a0S,I1,S1,P1,!A33rI31n,C1S34d,I1,S39hT1,P1,Y1,P2bt,L2R1,Ol3,R1,P2rk,!L33p,A1,H1,P1,I2y3Y1,A9H7O6R1,Ix0,C2ih,S36nU3ao,!A3a8E3I2O1S,Y2f5,Z1,N1,I2qgO2yrY,M1,LN,A1E3b2I31y,A3E1,E2ss,T1,O1,R1,P1,O1,P1T1lx,Trr,A32xE3b6S1pgZ322,!A3aqE2I1SU3agY,G1,I5L360O1U3ah,C38X379,H2xd,P1,R1,I4O1,U1ik,E1,G35x,E1,H1,E2k9I3bk,G3auLw6S1,O1zsT3Y1,C2jhX39x,E1,H3L1,M2jj,P2z,O1,R1vk,O1,S36cZ36c,E3c2I1,C3a7S3a7T1,A373I2bg,L1,CS36hZ36h,E3c7I1,H1,P1,O1,A8I3buL2qgO6R1,EgIePcT1,A2yuE3cdI2d8,!A2r0S,M1,SZ36r,E3cbI1,S1,C6G4M3cjO1,E1,A382,P1,O1,H4R1,A2fC1yD1uE1rG1mL1aM15N13PuR3buSdT1,!E3cuI38pS,!L1S,!IS,K1,I1,H1,!C1SU3c3,T1,!E3d2I3d0L1yqS,T362,L2N1,I39sO3bc,T1,A6E3I1,LdN26oR1,!A2mbE3c2I394S,!A398E3daI3d8S,L2R1S2tp,EI295,N3c5T1,A1E3cdO3bl,!L1S,G3cfN3c8,O25p,T1,C1D,C2S,D3daS3cp,E3dcI1,T1,E4I1U2wr,C1N3doX3ct,!AaE7I1S,D1,V37z,I1P2gu,E1,N3ds,I1,A1,C4T1,T1lr,E3c7I3dy,E3dxIrg,E3c9I39x,S3T2Z1,E3ajI1,AuLqNeR7S6T1,!A2pfE3czI3e4S,D1S3d6,U1,R3d1,A1,U3aa,!A1,!C3J1ktS1,O3c7V2kg,I1O2lb,B34xN3d8T1,A1,!DI3egS,E1,U1,A3ajC4E38lQ1,AeE9I1Y2zo,I30o,G1,DE3el,!E1I2l9M3dgS,T1,N1,!A3d3E3etI3erM3djS,N1,O1,I1,T1,O3bmV39x,E37yI1,N3ezT1,E3ayI1,GeIaR5S1,!DE3ezM3dtR3ezS,N3b0V3dg,A3ekE2I1,S1,I1,E3d2I2yzO2m4,B38rT1,A1,I1,B38uO3d5V38a,I1,D3fbS1,N1,E1,!DS304,E1I3fg,C1,I1,T1,R19a,E3fnO1,S1,CeH9N4S1,S36cZ36c,!A2otE3e7I3fp,H1,C1,E3doI3dmO3ai,T1,A1,E26lI2x7O3e4,B3e9T1,A1,I1,R1,B39kL3fy,A1E3c0I3by,E2bzI2xe,T1,A1,M1,I1,AgBdP8V6X1,A13ElIkO1,A1mh,N1,E1,T1,L2xmR1,A38E2bL1uO1eR6U1,C2uzX399,C1omO1mv,O3g9,N3ghP1T2zk,A4E3gbI3O1,A3fvE3gc,D1S,E3gkI1,X3ft,!A3fzI2hmO34eY1,R1S3fs,N2t2,E3gpI1,D1,U1,T1,!E6I1L3fgN3c5,A2y5E2vg,R1,A89E7zH7aI6yL6tN6qO47PkRfScT3Y1,T75,L1,A32hU1,A1kl,U3fx,A1,N37t,A1,L1,L2rm,L1,!LN3h8,A1S3g5U3bj,E3I1,N3heS3g7,!E3g9I1S,T1,C2ufN1,I1O3gh,!ChEMgNePbR6ST1V2dj,U2h2,D1O35a,T2s3,L1,U1,R18n,E1,G3a4,N384,E2I1,C6F4L1V2c9,AcEaI1,U1,K3huQib,S1,!A3hwI2g3,E3hxI33f,S1,O1,C4L3duN1Z3cb,E6I1L3h4,I3eiO2m8,N1,E35vH1,N151,O1,I31i,A1,I3f9,R1,A1,C1,BcC9G7K3idM2mjN106P5R1yyU1,E3bkI3bk,L1,L215,!DR3ihSU3gs,E1I3ik,L3h6N3dv,I1Y,E3gjI32nO3gw,B3h1G4LM3hgR2T1,A1,E3gzR1,T1,E1wy,!C1,A3c8DO36kS1T143,Ul7,T1,L1,U1,C1S3htZ2tu,A3i1,T1,I1,!E9I4O36tSV1,I1v4,R2UbrV1,!A3clS,E1U3ic,SkfT1,!AsErIiO4SU1,A208N33v,E3h7I1,AEU3dk,D2N1T2tv,S358,O1,E3w,T1,C1,A1,N65,O1,R1,T1,S1,Y32,R1,E1,T1,A5L13jP1,BbO1,E3hrI3jvM3jtT3ao,C3fjS1Z3e5,L3aq,E1,G1,E6I4N1,!R37nS,P1,O1,H1,S1,I1,Rvl,E1,S1,N1,O1,!R3ieS,N1,O1,C1,A1,A3dwE3kf,S1,E1,C1,O1,E3fxI3kdY,A3jyH1,!D1azS,E1,C3K1,EbI6U1,!LT3jt,A1U3hz,I1,N1,O1,E1es,E2d8T1,L14p,!F1cnI3krSY,R2lt,O1,!P1,A3eiE3l2I3jr,P1,Y1,DGbN9O8R7S4T1,E1mt,I1,Cy6,A1,I1,L3jxT3ke,A1,P1,O1,C1,S1,I1,P1,D1ah,N1,A1,E3lmG3lm,I3cjO3j1,G1,A1,L1,E1,N128,A3f9E3lt,R1,!O3SU1,T1,C1,A2h6,E2R1,A3ldE3jyI4pO3at,DrEjL3m1MgNfPaT2V1,!I2mmS,R1,U1,A1,N3m6S1,I24w,R1,!A2bB25C20D1kE14F12I8L3kwN3hlO3P1W26f,F31bN3md,!I3ld,G3l6,N1,A1I2ze,!DL3l2,E1,T1,A1S3lq,!A38C36E3mnHaI9K28bOS8T5U1,B3mkN2tz,R3mlU3kw,E2O1U3ck,!EL3l9SW26t,A3moO1qd,!C202S,O35r,C1T3lu,A3I1O3a4,!ERST3l9,A1E3muO2lq,C1goL1,U2fp,E3mxH1,!AbCaI3duN6O3ST1,!A3mzI3mzS,L1,CF1rkN3m4T3m4,!A3mfI1SU3hc,T1,N1,C20i,A1I3i5,!L1S,A34jI3ma,L2N1,!A69S,L3nbN1S3lfT3e6,E3hg,I1Y38j,I94,!T1,!A1I10zSU3ko,T1,N1,E1,A2yxE3jlF7I3nmM1S3ms,E3nlL3nl,L1,AnEjIeL3hyOcU3Y1,T38e,A1,O1n6,N1,I1,V1,A1,L1,F1,O1,!E3ftI3jtL3mlN3ja,T39x,L3o0T1,D3n4I3o5,A36tO1,!E3o7L1S,EIO3o4,S1,!EST3mm,C3mbT30o,A1,R1,!C1S,A5O1,E3ldI3oeT1,E32l,M1,H1,A3ogBjDiEgG3heLdObS4T1,!O1kyS,L3j3,L1,A3okI1,N1kz,!A94S,T1,N1,E1,R3j1,U1,D8G7M3T1,A3n3,H1,DR3ovT3ov,U3of,O36q,!SU3os,!A3ocO1S,R1,E1,A3gn,L1,T20m,E3ozG4L2N39sS1,S3p0T3p6,A3lnC3p4,E2I2ucO1,I1zn,A3ipE3p4N3pd,!E3o8I1L3c7SY,E3p6N3pf,!E3oaI1SY,R1,I3ofN6R4U1,!F2cb,!W1g6,!AqB1r4CoEnFmHlIdLaO3P2llR287S2U3oiY1,A23jI1zxO23j,D3pkN3f0,P1i8,A1,R1,E1,!A3lfI3lkS,C1Z30n,H3I1,!ST1,A1,A3pdE3lvI3pw,N3pzS1,IcM3S3ocU1Y2ky,A3g6O3px,I1,G1,G1N24r,E1,B2lq,E1,U1,G2x9,G2slT3os,!E3qb,!A3prE3p5I3qaS,C3q6I4N3S2Y1,!A33rS,R1,!A3p7E2v6I3mbM3p6O3onS,T1,A3S1,Z3pr,H2ri,T1,I3Y1,N3qmS3li,A3q3E3mlI1,S3ptV1,N3mvT3il,A1,Sut,S1,I1,D1,O3n8R3l2,O1,!E3qyH36eI3qwR1z1SW1Y,B3pzG8N4W1Y3lg,AnEiHeIbO1,L3qxT3q0,!A3qhS,C1D3q2O3erT3q2,Y1fy,!P1U3qv,A5I3O1,!N1S,N1u9S,!I3kbO3exS,N1,N1sp,E1,H1,!E7H38yI6O4P1,A2qw,I37z,R1ij,Oqr,R1,E1,L1,C1,N3fa,E1,G8L1d2S3V1,A3l1E3rgO1The,I1Y,FdL3roMcR1,U25v,G3km,L1,C34tD3rlS,I1,T1,T1ba,D8s,A2O1,C23qE3rsI3rsP2sr,D1uoP2S1,A9I6O1,R1,O21r,E2ivI39hO2z3,B3qjC3q8RT1,A1,L1,H5L3miU1,!SU3rk,T1,C1,!I3o6L3qyN3nn,L1,A1,E2doI1,C1,A6I1,!M2h2,I1l6Y1,R1,E1,L1Y,T3a2,C1,A1,D1,!A3s3S3dh,N1,!E3ssI3oaR3qwS,A2T1,CnE3kpFeL9N3o6O5S1,O3sr,!A3s9E18F17HvI2L2f6Sl9W1Y,OzlUzl,X,C3ss,E2I1,P1,G5M3t2S1,N2x8,E1H2u6,L3t5T1,!AatB9zC6nD6kE68F3t6G5jH5hI4qK4pL3szM3oN3nO3aP35Q32R2aS1wTaU4V337Y1,I2co,T1,E1,E2O1,F1N3sfR2kx,S1se,I3k9O1U3sk,T1,S1,E1,A3p9D3qvS,I1,R1,B3rzN3qe,DN3k5R3tl,B3s1N3tp,!A3E2I1S,O3qgV3s4,I1,D3S1T3tq,If1,A1,T1,!A3naI3l6S,C1,I1,N7R4S3pqT1,A1veU3r6,I1,E3tuI3kw,!D2T1,I3qh,P1,E1,P3l0,R1,A1,N1o0,O1,T35v,E1,C1,Y1,A3pdI3la,B1,R3bf,O1,P1,CcGaM6R4S1T3uj,A3syE3siI3um,B1P2xq,I1,A14EqImLjO4R1U3uh,L1kx,A1,U1,AP1y3X1,E26d,M1,DNS,A2h3,E3q9G,E3msN1,R3uzS3us,A316E1,R2f6,!A8C3s8E7F6I4L2M2jmO2l3P18xR2foT1Y,N2rt,I1,D3u7N1,C3tlT,N1,DR3v7S3r0W3hy,IS,!A3E2I3fvO1S,P3tq,A3lzEreO1,I3ueU3v6,G1,A1sy,A2K3tuT1,R1,M3vhS,AIO3raU1,L1,L1,E3vfI1,!E3rnI3tiO3tx,!A3lwG2I3riS1,C3fN3voR1,CN3vsT3us,!E3vuI1SU3q0,T1,L1,D3vb,!ST3nt,A1E3vp,I1Y,X1,A6E2j4O5Y1,T3oj,S1,I1,N3w5O3su,A3pxE3u1I1O3ue,N3v0T1,A1E3s6I3nr,!E3w0H,C3w7D6R2S1,!AsEkHaI1S,I3mx,U1,I3wc,A1,!A3orE3vaI3wfS,!L1S,N248,I1,S1,!E3vfI3liS,T1,L1,G9I7S4U1Y3o2,G372,!M2l8W2el,A2E3spI7cY1,L1,B1,!A3ryE3voI3wtO3v2S,T1,!E32iI3goO3v4S,T1,!A3v9E3vfI3wxM3vpO3v6,!S1,GlM7N5R3S1T3wxV2o4,!I3scS,B3nkT1,!A1E31uI3x2M3vuO3vbS,N1,N3x5O31sV3vi,E3v1I1O343,B3npT1,A1,L1,I1,C3wbT3hy,N1,!A1E3w7I3xcO3vlS,T1,D23kGbM5S1Z3wf,S3o7,!A3wrI1S,N1,N3xjO1V2u7,Ei4I1,T1,A1,I1,L3i4,C3wpT3uf,N1,A1,V33v,I1,T1,!A1E3wpI3xuM3wmS,T1,CaI9N6R1,G3ibS1bd,S2tzT312,A2tdE3tyI3xzP1,!D3qaR3xyS,A3u1E1G3lfI3y1O3wa,A5M3R1,A3nt,!A1hE15H95IqL335O8U2W1,I14k,R1emS3qkT1,!ST37g,K247M3y6,A2S1,!I1N2wmO1xuS,R1,A3yaC3yaE3y4,E3v,H1,P1,S1,I5O1Y,N1,!ST1ex,A1,E3M1,I1vp,T1,A1I3xq,M1,B3xr,G2L1R,!E3xaI3upM3xk,H1,E3xcS1,I1Y3jz,Dm4,N1,M3mnN3U1,D3xc,H3w5,D2G30jK1L3vuY,C3x4T3vv,!DN1S,E1I3z4,G1,C3okD3xkN1,O1rp,I1,E3z7I3q3O2zc,T1,Y1,C3boE3z4,E3xmI1Y,G1,ApO1,E2c0,E3xqI1xaY,M1,A2xwO1,!E3xtI3zbSY,H1,P1,A1,R1,G1,O1,T1,A3t6I3swS,C1,I1,S1,O5Y1,H1,BqCnD344LjMiNfP1,AyItO1,T3t0,A1vE1qH1gI1aO13R2U1Y3j6,D2ui,N1,R3zf,A3f5I1O1iz,I1xzY,R1,T1,E1,M37vT1v6,O1,T1,M4P1,P3w4,E407S3un,I1O339Y,N1,O1,R1,H1,T1z8,E1,A9C3D1,L1lxMbN1,!A7cB77C60D3obE5wH5mI5jK5eL5cO29cP4fQ4dR3jxS2lToUmWkY1,Y3zs,A1,C3vb,N40rS1,A1,I2jY,C3ohX1,A1,CS29k,I1,B32iC3fkG20L9M6P40yR3V1X5,H3fn,T1vd,C1,CE3zd,E2I1,O1d8,OhP1,!C7L3M1S,S3zb,A1,N1,!I21vS,M41bT1,S1,E2sz,A1E2t0,E1sn,E28f,L1,C1,G4M3aaS1,O1,I9LtjN7Ow2R1Tvx,R2uz,!A3xdI3szS,C1,E41pI1,T1,E1,Y3y8,D1,C39f,O1,T2n1,R1,A1,AqEeIdL8O6R4W1,G40f,L416N1,T41v,N1S41bT41m,A1,E403I3f5,R1,E1,H1,P1,M3pcS1,A2jbO1,E3ydI42eM42cT3et,C3r2E427S1Z3xj,!I1SY,!I3roL412,B40vL1,C42hE42bN42k,A2E40vI1Y,!I3i0Y,L423M6N2P1,U2za,O1,I1,L1,I1,B1Z3om,M415S3v7,C3ly,I1,R1,T1,N1,E1,V1,A3wqO1PU3x9,O3szT414,I1,A432CE41m,I1Y3o9,N3u5S3xe,H2I1,C5P1,AhEgI8O1,O41v,!A41nE3zaI43bM423,!E427I43cM2rvS,H2K1,!A3ciD3qgE429I43eM426ST43d,N1,B6C3I1R43e,!A41tE43jI43hS,E39nT1,P1,!A29sE38cI43kS,!I3hd,D2T1U41d,M4N1S6t,A3x2Irl,N1,E43oI1,D1,U1,C38iR3y2T1,DY3oi,!E1I43vM42nS,N1,R1,N3ug,!A1E441I3nsO428S,T1,C1,N443O40sV3z3,A42fE41zI1,T1,U1,E3n1I40v,B2T1,A7I1,N3on,!AuEnIhOdR2U1,I3xq,A1E1mgI2yq,!A9n,C1,I1,P1,!A3hE39H2gI2eL2bM24O1vR18T7W5Y1,E44gI43i,G1,R1,T3wz,E1I24f,A3q3E3R1U2ey,DE42x,!E1I44pS,N1,O1,I1O440,T1U2ld,C1rD44s,E44tY,I3vgL1,T3zu,E1,S1,S1,A1,E3joR2pn,I33eY,G1,O1,H3mw,A2pz,U36q,S1,I1,!CaG9L6M3kmP5ST4V1,N45dOrjV44d,AE455L43yU3zl,!I1SY,R1,!A43sE45iI4O1S,A44sBlE2bpL44iN3q2O6T1,AoI1,N41xR45h,T10q,!A1E44gI45lO43uS,T1,N1,E1,!A450E44kIgbSY,R1S397,E8H44lI3lvM3U1,!L2z6S,!E3xm,D1I3wo,E3xoK449,I1Y,!H38mI44yL1SY,T1,!EL44jRST3ot,A3xjE43wI460,L1,A3orIO1SU45u,Aj8,L1,!L3o6U1,E2aoO3l6,!T465,C3F2S1,H45e,A26lE36s,C2R1U463,AdEaI4O1U40k,Tqj,L1,U1,R3f9,O1,D3tk,N1,A1,E46jI3wh,C1,EdnI1,N1tiR3vz,C3sj,E1,H1,T1,I1,P1,!E46nO1S,L1,A1,EaR1,B41i,ClFjLgPdT2U1,C35dE46t,I1Y,H1,C1K2,C3b8R1,I3ygO11v,R40a,C2U1,L42yT452,!A1I433,C1,I1,T1,N1,DS46k,I2eh,R2w6T1,A1I479Y,A46uN47kS41sT1Z42n,!E5I1S3s9,R1,E8O1,M47lT1o1,S1,B2kq,I1,T1,N1,!E418S,N1,H1,H8f,P1,A1,R1,G1,O1,S2u0,A8I2U1,Y2be,L1,A1,D478T1,Hza,P1,!E482O3b3S,N1,O1,H1,T1,Aup,E1pl,R1,I44wR1,C46lT77,A1O43v,AeEcH7L6O3R1,C2nl,A1,D1,I1Y47p,O3bjS42y,I1,C1r1S430,I1,T1,O1,C5DR1,I3ocO3bqY,N1,R43i,C44nE48sN491,!E493I1SY,H1,F3yhP1,A1,A2lxE7I6R1Y6,N2g4,P1,Y1,T47bZ3ux,EI1,N1,U1,M1,E1gl,C3v3,I1,X1,O1,F5GT1,M7N1,A3ynG3xa,A44jE47iI26i,A44kE47jI49n,S2T3sqZ1,O4Y1,!B483,Ck0N49sO47mS43qZ3km,A2E47oI1O47n,K3wvNT1,N49vS48oT47w,E47rI1,L1,I1,P1th,B2R1T1nf,A7E43fO1,I2xpO3cuY,M1,O1,L2ia,I1O2mbS2cv,!I3plSY,H1,M4a6P1,A1,R1,G1,O1,I1,D1,T42aU45c,A2O1,X43p,Mon,A4ahE,D1,A1,R1,S42r,E1,G1,G1,!EaO9T5U1,L3tuT2mm,E4alZ452,I1O3ykY,M1,R1nv,O1U35v,F1,S1,N1,!I2niSY,H1,P1,A4O1,P47z,EeObR2Y1,K3y9,R1,O1,D3wy,I1,!A3kB39C2rD2nE2gG27H24I1sL1nM1cN19P17RwSlT6W3X1,M3l6N3n0,A49E46H3sI3qO2U1,I1zg,L1N429,P1a,O1,R1,T1,E1awI5O1,B6zC6tD64G5vK5uL5sN5oR5aS4mT8X1,A2jg,!A3d0E4bqI4boS,L1,H45z,C1,N1,A1,I58,R3b6,A1,L1,U1,C1T,!DdIbL7N4b3R6S1T2ulU42m,N45t,A1,L1,A47zU2fn,G42tS4bbT1U4b6,E32wI4c6,G1,!E459I2nl,!A2M4b1R2xzS1T4c8,!L7N5R1S,O2lh,M1,E1,L1,A4dO1,!I34eS,C4c8X4bn,I1,E4afI4adO4asR1,N4R255T1,A3vsT3mx,L1,U1,N4cmT4aq,!I1L4baN47z,N2d0,U1,A1,N29b,L408,U1,I3q,M1,A1,AfCcDaF7G2q7O6R4S47iT1,D2w1T3mr,A1E4bv,I4c0,B46nN494,!A1E4bzI4d4S,O3pc,P1,U1,D1,D5R1,!E4c4,H2kj,C1,!AxdE3j0I4ddS,!CdDcI5S4U2W1,S45c,R23n,A1,L1,U1,C1,L6N1,A1mE1cG17InO8U1,T452,!DN453S,E1I4dp,!A4c2E3iiI4dqS,D1E40g,!I5K3R1S4deY40h,R4ceT20i,G4dgN4dv,M46v,K1w0,C1,I1U1q6,R1,!O5T1,!A8DEI7L40vS1,E45vY,!L1N49d,L1,U1,L4ckR4dh,I1,D3hq,R1,A1,W1,O105,!E418SW1,G2zs,N1,!E4eiI1L41aSY,E15d,K1L4eg,!ArEiFeHcI4ejK8L6M428N3O1R4d4,!DL4eiM333N49zS,!ER3fvS,A1,!EL1S,IfcY,G1,O1,C4aeS40fZ3pm,I1,T1,!A1S,L5M1N4et,R7u,T1,E1,M1,M1,!E4djY1,AkcLfN4f3O7S1T4e3,E4e4,R1,!DST1,E1I3k8,T4eo,O1,!M435S,!A4elE1I464O2gwS,S1jx,A1,L1,L6N4P1,!A4eqEvIdL9M33yO1S32v,S2ps,A1,!SU1,A3sn,L1,L1,O1,H5T1,V297,R1,!A3E4foI4dlSU1,P2ja,O1,I1,H1,L3w9N4ftT1,R21g,T1,O1,I2nk,M1,Y1,H1,!T1,E4g2O1,H44s,T1,U1,D4M1N4f9,!A4fkI473S,R3vt,E1,P1,S1,!DM498S,C43g,A1,B1,E4H4ggI14aO1U2xc,!I47dL4fkNaO6T1,E4giI4bh,R1,S4fsU4ge,O1,G1,AuErIhL4c1O6U4Y1,A4g2B459C3qqD3hkE3dtF39fG341H33nI30nJ30jK30fL2olM2fsN18hO18bPzsQyvRniSg1Tc9U54V34W27X1bY10Z1,MS4az,!I1S,A3al,!E4gmK1,!E4gxI4gvL3S1,!S458,!S1,T46c,I1L3ij,A4gyO2ge,!I1,!L4h0S1,C2clE4flRu5,!L4h2N4h2S,O1,K4g8,!H1,!L4h6S1,N4haS4gv,T44b,I1,!H3k1I3S1,AgBeEbIaK4gfO8U5Y1,A4bx,L1,E4cc,R1,U1,A1,A2w9,!EL2R1T40f,A2j0,!I1S,L1,A1T48o,N1,CIU4hj,A2I1,A8H1,!D285EcxH3kjS,R1,O1,DL1S,!E1I4hy,A1xxIU4hr,L1,A1kk,R1,L3T1,C2dm,R4i3S,!E1,H1,C1D4i6,A4h3N1,!E33iI42uT20e,T1,A3baN4hd,K14f,A1,E1,E7I5L2spO4R1,O3v5,T44x,!M372S,T1,N3R1,U1,O4a9,A4bsH2qiL7O2R1,!P34fST,P1,O1,A48zO1nvR1,!ST34j,E34eL4a5R4d3T1,I1L3cf,M4e8,M1,U4ab,O1,A3R1,!E3ooI4j1S,D1,N1U4ae,E4j2U40d,A2O1,!E4d8I4j6,H1,N4fmS1,G3ebS48nT,!G350S,G1,A4E467I3O1,K4as,C1,L16f,A1,D1,A4E1,E4cnO29uU2b7,!E4jmI444S,R1,E1,T1,T1,A1,A4ikT4jo,E4imI4jr,!P1S,P1S35o,!D21yE352I4ju,D1,A3I1,A2bl,A2vjI4htL1,E4iuI44j,!B1S,R4jt,B2G4igI1Y4k0,C364,T1,P35u,E4j0T360,E1O2tu,A6I4O3R1,P4jc,E1I44uO3d8,!A3dwCmElI45rLfPdT3W1,K4kb,C1,A1,R1,D4cq,R1S36iT47j,!M391Y,!S1,D1,O1,A5O1R3ee,A3dl,!A2kB28C20D1wE4jjF1tG1oH1jI458L1cM3dgO13lP16R15SdT9U45fW2Y1,Dyu,I1,Y36x,H1,P1,O1,R1,O1,L1,H1I4it,C33iE4krS4jt,I1Y,G1,O1Y3wj,G4hx,A1,H1,P3wb,O1,D1,O1,H1,S4h2T4c4,A1,T1,CgLcP9R4S1,MR4dt,A2qzCqN4leO2U1Z3wb,E3mhI1O3pl,R1,E1,AI48vU4fs,L1,A47C3tH3oI3jKyO4jhT3U1,!E4k5,S1,S1,E4djI4krY,!E4ltI4lrL4kcS,!DR1S,E1I4lt,Nnr,A2ngY,T4h8,N1,H4lx,T1,U1,A4fgE4fgI4O1,!AdDcEG9I8L7M1N4hcS,A1c0,!DG1M4kwR4m2S,E1I4i2,!E4m8IwsL1SY,F1,!E4m6,S1,L441,E1,S3T1,!RS4h8,E1L4kzN37o,A3zuE4laI1Y,I4gz,P37o,I1,I474O2d7,!A8E4m1FxmG5H33yM3b3N4P2Sx2U399W1,U4ku,D1,!A1T4ml,R5i,A1,DE4moR4moY4mo,F47f,I3gi,E4mrF2N4muW1,R4msU4lo,!A4l7E5I2M4lnO1Suc,I1f8Y,!I3xzL1S,N1,!E4luHI4mzS,DbL5R2T1Z48w,E2uv,!H3d6,!DM2R3odS1,V4m6W4m6,A1,E2eu,E1I397,H1,E6I47tL4S1,A376,L1,I66,A1,C4e2,C4L2N1S4mlT4mh,G4kl,G1,I1,O4mlR1,I3nfY,N1,O1,!O4nlS,N1,I1,H1,C1,!D3v,DR1S4mw,E396,E4nnN4nwS4nh,I2nm,!A6E4H3I2L4miN4j7P4itR1SY,I4mwU322,!DE4luF1R4nxS,A1f,N4o2S1,I3m7,N1,E4fxL4mpNt6,!A2E4n0I1L49zSY,!E4mfS,CS4n1,!E2I1R4maS,D1S4dn,I4bc,R1,R1,A1,!I2tzS,N40p,A1,M1,!I4fcO1S,DR5T1,A3sr,L1gh,D1,N1W4oi,A1,A4ihI41n,T1,E4ojN4osS1,!E4nmN4ntS,N49eS4nn,!E4owI1S,N1,N4O1T4gb,Y4bz,A1,I4ns,A4ouL2O1,O2fc,O4p1,O1,A5t,!H2R1,!AxCtEnGmHiIfOaP6R5S1hhU4k3Y1,A4mc,C1,R3qr,!A2I2fnL3ubO1SY,A4omO3mh,E1,E39i,N1,CN4pg,!E4piI1S,!M1S,!A1,D47k,A1,E4nuR1,T1,S1,!A29B25C22D1rE1pI1nK1jLiMeNcOaS6U1,N2x2,L4a4,!SZ1,O1,I4O1,!B1M3bkS,T4nxZ4k4,!I1L4oh,S48z,L2N4p0U1,A4pxN4p1,G4goN1,O19e,A4q0Eh3,L1,L1,!I1O2idS,A4kcDR1,I,!R4oaST1,C2yeE4orN4qaT1,Ajs,E1,A1ye,E4dfI4df,G4qcL1R4ca,!M3eyT2rz,G4ls,D435,A2I1,!AjBiEdIaL8M7O5S4W1Y4bn,R4cz,E1,!B1DF3cvS,!E4piI4qnK2ifL4poST4mh,E1ja,H2xxT1,!A4olN4qrS1,X4if,!E4qkI4jwS,A2O1,O2im,DR4no,O4lt,L2fa,!C4p0E4r0I4qyS,T1,P1,O4U1,A4r0D4q3,!I1,!A408BaC6hE9I4boN8R3S1,DT3dw,!E1I4r6O4qnS,DR1T4r5,N4r9S4e9,E2I1O3kzS,!E4q5I4raST4qb,T1,E1,U1,E4qfI4qf,!H1,I3ki,E1,!SW1,M1,!E4qfI4nhS,N4c6R1,A3E1I4rdL1jiY,A4rk,!A1qC4m7D15E12G11IyJvKkNfQbS9T2Y4otZ1,B5m,!E4e5R4psS,E4pnI4q7M4geT1,S1Z4ig,I1,!ST1,H489,T1,A3goC4nkS4m5T4pzZ42s,I1O4hv,C3b0,LR2S1T4qe,U4ip,!L4s0S,U4mc,!E4s6I4s4R4q6S52,!C4DL3Q2R1ST3ew,A4q1E4rn,A4roO4r7U1wy,C2N4s9T1,L4raT4s7,!AaE5I2L4f4SU1Wf8,E4s9L4rc,L1,O1,R1,A1H4pk,A3g9,L1,!E4qeI33O1S,K12a,C1,A1O30f,C4js,T12e,O1,A3I4rsO1,D12h,A1,E1,!A4snT,!B9DF5G4rvH2L4rfN4o4RS1,!E4sxI4svL4qxS,O89,!B1DE4svL14dM3hgS,A4ixE1H3blI4syU3bl,O8u,N4gw,E4szO1,CL1zoN4t3T1U4na,P4x,T4ey,DE2N1R4t3,E4kzN4t7,!E2I1L4g1SY,U4gv,!C33jS,D2S4t2Y1,E1O3mw,I4pqN,!RS4sg,E1,!A3E4muI1SY,L4bh,C1,R4f7,O1,!T1,!A3mj,!A5I1lyL3ynS2Y1,P36w,E1,M4tnP36e,A1,R1,E4s1R368,T1,E1,!A47aC4rxS,S4t1T1,!A47cE1G4tvI1ddN4sySY,U4oz,Cb,E1,CdGaM7N4Q3R1Ubx,!NyST4oz,E1,U1,O4s0U2tz,K4llO1U3dl,A4u5I4u5,D1,N1,U1,C3p3,E4slO4slR4se,B4sqC7G4omM3N2T1,E4qrO3bt,!A47uE4uhF15hH1I4ufL3g5S14x,!O4spR4siST4th,!DL2N42hST1,E4seI4uiO4m6,D1,A1,C1E4suN4umO4ujS4hm,O4ouW4uk,AaE6I2O1,O36t,!T1,N4m4R4m5,S4rwZ4rw,E2I1,A4tr,A4usE4usI4loO4tu,E4utO3lxT1,!A30B2mC2hD2eE22F21G1yH1xI1uK1pL1lM1hN1aOvQsR9S7T4W3Y1,!E4upI4lrS,!L4tjT1,L1,A3nyR4of,A3h7O1,N3g9,E4hyI1Y,!T3mw,N1,A4olE1,E4qiJ4v4,N1n4,N1,!U1,!BaDL8M5N4R1S4q6,Y4v7,!A3oyE4pfF13mI4vdL1,M10zS3w4,A4p4O1U4sl,I1,!A30i,C1S4vd,!A2bhI1S,DT4vi,!A4uwE1F16nGS,E47x,C15wD7F4b3L4N2O4tiP1S,!B10rF16qL40pR4tqS166W12r,DT1,!E1I4vqS,T4vo,A1,!E4vrI4ooS,L1,I1,H1,P1,!E4w0I4vyST4vx,ST1,!N3peS4uu,!O4p3S,!E3I2L4unN4rcO1W3yrY,E4vvS4qcZ46y,!I1L4upSY,D1,R1,E4w5O4nv,D1,A1G4w7,N3ho,L40N2O1,!A6E4sbI1S,!A1eC2wfE12H10IqKnMlOgQ1wsSbT1,O3gj,!X,U1,!A1DS,W4nt,I2o7O1,!DR4wiST4rz,T39a,I1,L1S4vt,B4vpO4qw,O1,U1mn,A4js,G4fu,A1,L1,E1,P4nu,A1,H1os,C2P1,G2q0,O1,M1,R1,E1,H1,A4whMwxPbS7T1,!EnH3elI4x7L4k1M351OkRiSThWgY1,K4x6N4x9S4s5,H4ud,C1,A1,A4xaO4v7,I1,I4gdL1,E4xdN4xg,!E4xiI1SY,A11DM4w9N4owR1,E4pbK4xgN3is,I3j2R4a9,U2z5,O1,R1,T3j1,N1,E1,A7a,!DF8G5M2R4xpS4igW1,E1I4xs,!AfEcIbL1SUblY,!B1gCenE1dF1bHnImL42vM3mdO4vpRjS15bT1W4r2,E4wwL4ww,K4fi,N4x2,O1,!E3R1S,I4lx,!E4y3I4vSY,K1,O4qs,B9D5H4L2S1X2ky,RS4t0,E1L4wrN4tg,!H3fl,!I2R4atSY1,U4ov,I4xbY,Bj8C38kD3L4pqS2T1,E4wlR4xd,E1,D1M4sxR4us,!E4yhI4yfST3k5,T1,E1,N1U4yg,!A5B7yE4ylI4yjM3n2O1SW418,A4wtR4yi,!K4xnM4ydS,O1,A3O1,!AhtBhbCd2DcmFchGc4Hc1IboKbfL90M8uN70O6zP6uR3sS2bTuUkWdY5Z1,L330,L1,E1,B4q7,M1,O1,R4bl,O4ly,E4i3,!B2kC4E4xgF3G2H4egI5sS1zsW1Y,H1O1l6,E4qtL4xlN4jl,E4yzI443,O3l8,!E4z5I3L2M3nmR1S16kW166Y,E4lzI446,!E4y0I1rhL1SY,E4qzL4xrN4z7S3mk,!E4z9I1L3SY,G4z6L4yp,A1,DR4xc,L4z6,A1,!T1,!B5E4I1zL44fO4zcP1afS1,T1rb,I1,A1E8x,G1zx,N1,O1,!E4j2I4zlL4mfST1,U4k7,N4k8S1po,!K4ha,!A3v3B8C37jD4E4xyH3I2L44qS1W42e,G4zi,E4zpN1,!I1L3k3S,T1,NR4zs,L4vkT4v1,!A1,C1E4yf,I1Y4l2,F1N4kkT304,I4zv,!A4ydE7I2L4mvN1S,U2f8,O1,L43m,I4fmU1Y4l9,C4xaE4zyF1,!E4q3I1SY,!C5I4baST1X,!B7dE50bI509S,R1,E1,C1dD19G4i3K17M15NyRnSjTbU4V1,R4op,E1,O4t8,O1,!P4njS,P1,E5L3O1,E4py,P1,L49fM4z0P3mbR1U3nm,LgbM503N3c8R49g,A1,!E55I50pO4qpS,O46v,P50q,M2S1,AghGhjTp3U4tmW1n0,A2O1,G4xo,N1,E50vI1,R4tr,A1,M3W1,M4va,W4tv,S4qh,A4mI3O2U1,Ehq,G1,E4z3I517T,S1,D3R1,AoHmKlLgOaR6U1,L4vk,B1,E1nk,K1,B51e,Zbq,B5M1noR3U2Z1,I4zrM2nd,A1,H51b,T1,O1,!I4m7S,R1,E1,V1,H8L5O1,A504E50nI4mc,Fg,!E51wI51uL3nkM50mS,L1,I1,A4ChlL9vM3qgS3juV1W51w,L3vh,A3vaE1Rdf,W4zv,O1,E487,P1,!M3nuPtS,T3h1,E498,A4G3x9M3R2Z1,!I4x5P526S,M1,A1E4p5I47c,K4pdT51c,A1,T4blU4jz,A509L4xaO4vi,I4r6,U1,G16,G1I51zP4wr,Nig,!D2ko,D1V1g,M3o0,C52iL524O1,A6E5I3O1Ujd,E3w3,D51rT52o,I1dn,N1R51t,E4z6I4nd,R1,A3wg,A34hE4z9R1,!H8I7O5P3T1,C52tM51z,I1,!I50vM1lN3el,D52zF530,R1,A1,!A1nB3iC1dD1cE17F15G13IxLuMsOrPqQoRgS7T5U4W1,E526R4in,P52y,O1,R1,NS,!D2E1I1vmN1m7Y,H1,L3md,A3d0,A4qfD,E4v8L520N53g,A53b,E1,!T1,!A7C6E5I4L4qdS1W468Y,P3ef,E1,E1,K521N4xw,I1,!I1w1SY,N40,I1,A1n5I4oc,!T2W1,!L4uiR3bzS,!BqCkFcH2fcK9L7NP4vaR6S2T1V53mYj8Z4qx,!E4xbI53wS,L1,L1,G1x,E542I4zx,!ST1,N3T1,A542Cjr,W22,AkuE2O1,A4wv,I2gd,!H2T1,E1,Gl0O4vlR1U2sn,Tli,N4x5,E1N4u3,E3I1,Dep,D1,AjE3rfIfLcO7R3U1,L4vtNTZ4yr,!ST1ql,T1,!E54nI1f7L3fmSW3s1Y,R1,A1E54pI54n,!N3fjS,!E54rI54pL4yyS,D1T4pu,N3R1,!D3qiS,R54sU4ay,O1,D3M1,O4dp,A2O1,EI540,A54k,A54mR1,!T2n5,N4R2T1,!E52zI553M3qtS,M1,A1rc,G3ul,D1,I4O3U1,L3gnN54a,I1L3q6M558N,!AtErGoIkLeO9R3SU1,!A4yqI17xS,R1U53m,N55fO1,E51eI1,L556V1,Dlx,A1L55kMn1S54c,!H1dS,D1,N1,!E5sI55mS,D1,FV4zx,L2O1V4zyW4x0,AaE8I5O1,E55pN3z5Y,G1N4qd,Els,B1,Z4tl,E1S4tmW4r,M4l,A4E2U1,I3rhO1o,I4xmN1,B17C4faD3kxT4x7U4yuY560,M4x1,A1,E4qk,U1,!E568I566ST,G2P1,A1M3by,Rip,A41oE529I56a,!DF569R569SV1,U5m,L48q,T1,E4K54tQ3T1V54t,N3c1,O1,D1,I3zhO3qo,I3li,R1,!DE56hST1,W4tp,O1,L1,S43f,O1,E429,R1,E1,C4E55dG1N56w,W4yb,U3t3,E3fsO1sr,H4xn,C1,Tl5,A38nU1,!A3B1F1i5I573,!AmBlEiFfH3x8I9M3vnO8P7SW6Y1,!N52fS,G1,N1,!E57aI1S,G1,K572,C1,E1,!D1G4zzS,N5V3uvW1,E4uaI56f,!E56bI4s0L1SW3rk,D1zb,E1,!A1iCocD1gE1bF1aG56lI14LfO5ST3U3rdV1Y50r,A4gdD67,!D1ST47r,E57oL4gv,L1,A1,A1twD1,!E568I57qT,N5aR520S4x5X1,A1tzCng,D6i,U4dz,M1,Z6l,D4R2S3yfZ1,AdE9I7O6U1,Ax3,!E522I580L39kM57tW1,H1,B56fY581,Y57v,A1I3v4,!A3E4cxI585SW1Y583,!I53iO52wS,K585T1,C1,I1,I53mO56jR53k,T1,C1,L51eR56fT50a,A1N58f,!E4mbI1,!E57bI58gST3u6,C2T1,A6I1,Pfw,C57lT51l,N1,E1,L1,O1,!A2feDgF7M6SV1,A3cd,T4zx,!A4g4I54lL57d,H2N1,G1S546,E3nkI567Y,M4qa,N4rzS583,A589I4zsO1,!H1O1qsSW4bo,M7l,!D4re,E582,C1,A1,R1,H1,T1,L7N1,E597O4x0,N1,I3z6,Z1kd,A1,D1,I1,D5M1N50f,Rf,Y1,P1T58k,A4ve,P4vf,E1,Z1,A1,I1,R56v,U1,E2tw,H1,AbCaD5F3I4dtL50tP1Y59b,AnElIfO1Y1py,!A8vC1vD1rE17G16I12J22zN11O10STxUwZ1,I44x,P8n,M1,A3I1,!A59iE5a3I5a1S,H1,T1,A1S58y,E1,U1,A51i,C1,K54iS1T54i,N519S59g,I1,R1,E1,E3rt,Asb,V4ct,!ST59j,A2F59lT1,M3ip,!A1E59iS,Y9k,R5aj,B44yE1,G4jx,B2M54yN1,Ec1,A5aj,D1,!E5arSU1,I2c1,B4k4U7,T3aq,!I5axL4fy,E2I4atY1,!E598L59kS,K1,E559R1,E1,!A5b1E5b5I5b3S,H1,!I4ygL3fgS,L1,AyBuCtDsEpGnHmIiKhL1wMeNdOcR9S5T3Y1,Rr5U4hd,E9w,O2R1,!E59tI578,H1,C1M5bc,!M5a6ST1xg,E2T1,W5bf,O1,D1M55r,V9h,U50y,U54e,E6O1,A5I4O3R1,G52c,D5aqE1,V4kz,A1Iaq,A4hx,L562Rrq,K563Opv,D51lTt2,E4I3O2U1,T107,M5bwO1Tt5U463,T9x,K5aeT1,!I5c1S,K1,L4lc,C1,A1,T1,A5C1,S56h,KxsU1,D9,A1N5be,Kb1,N1,E3I1,AfE8O6R1,A559D,LmlR5aj,!R3y8S,A2N5ckR1,W2j,!E5cnI5clNS,W1,!D2urE5clI5cn,D1,D5b3W4,E4I2O1,R1s3,E1,L1,L1,!E1,D84,!EhIeOdR7S2U1,A16i,C1pE1kH1cI1aL18M13N1iO11PkT2W1,E59zI5d0,R58dTaz,!I5c2K2ST1X4mb,!N1w0S,L1,Nst,L5d4S3wl,N15,R1zfU47d,Mci,!A5E4I3O2SU1,D57kM5ccS5cc,KbzN4emO4rt,Y1n3,!A5cvE59sI5deS,H1,T1,A4O1,DR4xz,A5dhE1I5djO5bs,A4v6,R1,M5dd,I1,L5df,I1,H1,!B6N591T4W1,N1,E1,X5cx,E2I1,!AuEsHmIlOkRfSTdW1,N1t,!E5ctI5dyLu7S,L1R47h,M4lpR5dy,A2nyE2I5dsO1Y,I32fR58b,R3sz,P23,A2E1P5d8,R4nf,E1,K1,S1,I1,!E55iI5a8M5d3S,R1,E1,D1,DR5chS,!E1I5adM5d8,H1,C1,Gv9L5N3vT1,M5ejR3tg,R1,PvxY561,A1,AmEjHeI5O3R1,C5enK5en,I1,!L1O3gcS,Z5dy,N5dnZ1,L5esQ2f9,A2E5ecI1O3xgZ4l8,!AekBedCdmDbsEb1FafG9lH96I94J8yK8wL7dM6yN50P4wQ4qR3pS1xT10UzVvW8Y5Z1,Tkq,K1N4zjR4gg,Tgp,S1,E1,I5e3,T1,S1,A7E4I1O3nbU5dz,E1mi,I5f5Y5f5,U4rk,N1,D5duS,E5dtI5fb,!E2I5fcN5amS1,E5aaO5d8,L1,H1,A5erI4rs,CbLaN8S5T2X1,DR4gs,!E1I5fjS,!S5fi,A58zI59j,E5dvR3z5,T1,A1O4ei,!C5cgS,A1,I1,N1,A1,CE5fmS5eo,I1Y,G1,CE5fpS5a5,E5fwI1Y,L1,I1,E5H1O1yt,P5e4,A1,C3geR1,E1,C5g4S5f0,H2I1,G189LkMfP7T1,CoK5enO1S5f3,EqI1,L567,!AqfBtC3qlE168L2SU1,R2u0,E1,N5bb,!O1S,B1,D5fs,M5R2U1,A52zN4i1,N1,E1,T1,!N1P5ftS,T4yq,A1E,M1,O1,R1,I2dh,P1,R58b,E1,S2dl,R42dU5f8,O1,N54f,O1,P1,V57h,A1,N4io,O1,I1,T1,I1,X4gm,E1,C8D3V1,Nv6,AhLfMcN2R1,U13,T1,P4lm,L2S1,CN5hlS5ge,E5dkI1,L1,C1,A15E10HvItKrO9R5d0U5Y1,A5hnE5gq,K1,R1,E5hkN52d,A4d7EhzI1Y,!DN2ehR5hsST5hs,T2vi,C1,E1,L1,O219,I1,T1,C1,E1,A6N5i5R1,Ivv,V1,N1,!AhDfEeI4O1S,!L5f2,A1U5ci,A502I1,N1,L5b6N1R5ib,E5icI4uq,C1,E5i8N5a1,!E5ijI1SY,A33h,D38qL1,L4t5,L1,E1,G1,A1E1po,A51eK4ryM1sg,C4k8L5isR1,C2vl,C5an,N2R1,AfFdIbL6O4U1,I3bhO4loY,A54cO5e8,M2R1,A5i9I5ipY,N1,I1,M1N3t2Y5i2,E2mzO3r8,RS5i6T5ho,!G5j2S,E5j3N1S5irT5hq,E3I1,D44lRag,A1,E1O3tkT5j8,H44o,T1,U1,O1,E5epO57b,!E3uyR5hhS,T1,I542,!AlEhFgGcH9L5i3M5N4O2SW1,R5f8,U1,O1,C4mp,R4l,E1,!ST1X,U1,A52gO57h,G1,E7O3U1,!DR5jsSW43y,GI459,E5juN1,E3I1,L5jwT5ic,A1,I1,!I5bbL5im,L1,A1,R1,E1,B6N1doT1Y578,!A5k5E5jzS,EtoO1,N5bs,A1,M1,O1,R1,S1,G1,N1,U1,!DSWnr,E1IrdY,!LS3jk,A1,I1,Z1,R1,A1,!I5c0L5jbS,L1,A1,U1,E540G1,U2f8,R52h,E1,A5foN4O5avR3V1,L5jdO55j,B1,Ok2U55m,DR5l0T5ch,I3crO46n,E5hhO3cw,!G5g1,!S1,G1,!A186ST4yc,N1,A4e8E5l8N3O1,N5l9Wna,A5j7O4f2,!C1,!AeBdEcFbHaI4O3SY1,A544E5lh,B1C574,T48y,O562,A1dB1bD12E5lhG10HuIlK5cyL5O3S2T1,O59aU4xw,!H5ljN1S,S5kw,C5llS5cf,I1,!L1S,L1,A1H535,N6S58tT1,L57,L1,L3d,U1,C1,E1,H43z,T1,!E2wbS,H1,P1,D2igL6N4R1,AkB456EdIbO1,E5kqI2z2,R4yj,LR5kaT2U1,G5ej,!N1S,!A5knE4nkI1L5lcSW49r,!DI5mcR5maS,E1I5mdO5mb,A2nlE5mgI5me,R5gv,A1,L1,L5ljSU1,I4od,C2M1,A55e,E1,L1,C1,!AhDeE5mnGcI5ljNbO5ST5mnU1,T4le,S1,U1,I5p,O2T1,Y5mu,A1,S1,A4w2,L1,I1,A1,C8S5V1,N3lh,T22s,C4ozS1,I1,M1,E1I57z,E4nrI2xr,I4we,T1,A1,P1,R3zj,R4id,E1,T3V1,EfM5N1,EgHbI5beLaO1Y2oq,A4keE5lgI5nk,D1,A1,R1,R59c,O1,I1,R1,E1,G6T1,V2h9,A2y5,N1,E4I3Y1,!A5n9I5jr,C1,I1,R1,T1,C1,E1,G2xx,R1,E14l,N1,I1,E4G1,C59p,I1,H1,LaN4T1,B3ux,D1,E1,Uzx,E2O1,!E3ruI53zO5caSY,C4q3S163,I1,M1,E1,H1,E5mzI1hpY,H1,P1,A1,R1,C6G1,NcO1,E5ovR5ov,E1I3mrY,H1,P1,A1,A1h0E6R1,Z14g,A1E3fs,!A5iiS,C1E5oyS5fy,I1Y,G1,C26h,S1,E1,N1,I1,M1,O7U1Y50w,A5orI5mlS,C1,I1,T1,A1,M1,E1,E4r3H1,S5otT1,A5j3S,C1,I1,N1,A1,H1,R2kj,O1,!A5p8I5n2S,C1E5pq,I1Y,E4R1,!C7D4ojST1,U3bg,C1,E1,L1R3mq,AiE5O1,M52s,I5dvO1T5h1,A5pkI5jdS,C1,I1,S1,Y1,A5ho,Y33e,L1,H4I5e4L3O1S3t7T59j,C43r,A1,Y2v4,E2H1,E5mf,F1,F59qS5pi,I1,C5prT1,N1,E1,I1O1fo,N3cr,I537,C1,S1e,I1,T1,I3id,T1,A1,A4R1,E3ue,H1,T1,Ib1,T1,A1,M1,E1,T1,N7S1,!ArClEkOiP1t0TbY1,O47i,L1,I5q4O1,!N1S,H1,M1s4,E1,C3L1,C5oeN5rlT58k,P5qpX59a,M5dd,R1,O1,F1,S1,N1,A1O5pq,A5ruEaI9O8R1Y2h9,!A4vC4eD40E3jF3eG2vH2tL2iM1rN1pP1gR1cSjT1V5b1,N549,!I5j9S4d3,N1,A1,E5qmI5ne,S2T1,E5s6I1Y,E7O5fvT1,C5s1R1,!A3ubS,D1,N59n,A12dE1,T4yf,A1,N1,N1,!I539,R1,A1,D5sgL1,L36d,E1,P1,O1,M3s7,A1,R1,AkEiHgIcL4qxO8R4Y1,R2qi,D1,A1,U1,O5g5,C36iD5s5M1,!E1y1I5sx,H1,Iwp,A1,A55pR1,G5s3L5sj,A1,A3js,E2epN5dq,K5rkM5nf,I1,E5pmY5s9,!E1H41fO5dt,T4pr,A1,!BbC9E5s7F8H4aqI7L5M4hvS3W1,G2al,N1,I1,R1,F1M5siT3tb,!I5sjS,!E5piI5e3S,DT3te,T388,!E2I5tmO1S,T5soY5tl,A1,L4rr,A5onI4msO41w,!D3E5ttI5trM5tkP2R1S40nW1ff,H1,AxCvDhEcKbLaR7S5suT1,U4pv,N5twO53o,!E5tyI1O5s5S,T1,U5oc,!C2SX1,!E5u2I5u0R5hmS,P1,O1,Uxi,A4dy,!ST4dt,N1,R5t1U5gm,E5s4O5l1,A5cyE2mvO2R1,A5p7I3k8,F1,L1,!CjEeHbK5ubMaN9O7Q2usT4U1,T2z5,B5ssR1,!Eg1I16cY,H1,!A5suR5ugSW2me,!T44sY,U3m8,R1,!E5pxS,T5mx,E1,E1,!W1,!B6E4c2I1diL5tcN5R42wS1W4i7,DNR1,E5mmN5fe,!E2I1O4okSY,I4t0O5il,N1,E5ssI1,M1,!AkCiEhI5qwSgT5U1,U5gc,Q1,I1,N1,E5txV5d5,I55q,L2R1,E5v9I5v7S,!K1S,C1,A1,U1,A6I33O1,K4dd,E1,E1,Abx,E1,!L5u3N5qsRggS,E1,R1,R1,!A1E5vkN1iO12mZ5vd,!Ag6BfbCdzDdfEdaFctGc5Hc2JbuKbqLa4M9iN8yO3qP2xQ2tR1uS1aToUkVbW8Y6Z1,O458,!E5vrI5vpM1S,DR1,E1I5vrY,!B1S,O4f1,M1,L5n6,R5na,A4ovD5tzY5vv,A3E15eI2O1,A5gqO4pp,!E5uvI5gkS,DN1RS5v4,N5w0S4hx,A5s4I1L5u5,N5w5S5qc,!E5w7I1L5uqS,D1,R1,A1M5w6,U1,D5w8R5v4,A1,A1ptE1,N5gyS5vz,A5ssG5wc,S1is,A3y1E2I1Y,I3ku,A1,Huw,T1,I1,!M1Nt9,A5siH46xO1ci,A5jpO4ze,!AvBrCqEoFmGgHdIcJ1cbL9M7N5rzO2fmPxnS3T2W1,K1,!L51sN2foSW1ifY,R1,E1,!DL51vS,D2E1,!B16b,H47y,T1,R1,O1,!DF4jaL4j9R5wzSW1,!A58dE1I5x2S,N5ai,A1,H1dzM1,S1jv,!E5p0I1L5vsN5sh,!E5xaFqjI5x8L529S,DRS5wcT1,!E1I5xaL5vvN5skS,U1sd,C7D5K2Q1,Eai,E5vaI5xeN1,E5teI281O5ncY,M1,E1,H1,!LST3ux,A1,DM1R5xj,E1b9N5i7,E5cv,O1Y5qs,S5lc,E3oeI1,C3w5,A4xxE5wqY1,C5D3F2p0M1P23aS4yj,!EST5t0,A1,L1,!EcIbM5wpO4SU1Y,EPgT1,!K59m,!E5wvI5y0S1,R1,E1,DR5y2,E1I5y4,!A55hEH3ST1,B3py,T5jv,I1,O1,L1,P1,!E5x7I5iwR5weS,N1,E5udI5ubO1,B2nC1pD1kE1jH5ydI5waM1dN13R11ShTaU9WluX4Z1,!I5tdS,DR1S,!A5wuE1I5yi,H1,!E5qdI59mL5x5N5tuS,!E5ynI1ahSY,C3K2R1T5q1,!B5x8S,!E5wxI5j8S,D1P5yo,L4qa,I4kr,!E5urI5ysS,C1fmD1N5wvT,T504,S1,A1,L1,P8k,P2S1,O1,R1,A1,H1,O5yzU4su,D52nR5z3S,!E1I5jq,B3S1T,!Hx6S,AnBmDEkLjMiNgP6S2T1W,T29v,H1,S2pd,!I1S,E5xzP1Y,L5s8,I3r4O1,D5tq,!I1,!A5cyE4l4F3I5vgL5y4N5utS1W3q6,!A4siE1hI5zkS,Z1dd,!D3I5zkK2T1,!E5y5F27wI5zn,!E5zqI5vlSY,R1,E1,S4T1,M55w,O1T,!L5yfR5ztS1,E1,E5kh,I1,R1,!E5yhI5zzK1,E5zyH5Z1,!L5ymSY,D1,R1,A1,Z1,GvMsNkP4lvSfT6Z1,!B4lxS,D5qwG5z9,T4b4,S1,U1,E5s5N60dS5zy,!A5B2E5z8H15zI1SY,!K1S,!E1e2I5bhS,D1,A5d5,D37u,R1,U1,!I4bnSY,T1,L1,I1,U1,DRS5vl,E1L5zcN4m1,S5qqT11d,E1I5zt,B5ik,O1,E60yO492,E5xbO600,C60tN5zz,E4lk,A81O2R1,C1io,!H5T2U1,T2ih,S1,R1,I1,H1,!BrCoE61aF5iuGjH13nIhLfMdRcS6T1W3rvY5mc,!ElrI183SY,D2E5zvI5zoM1P5sp,!E61dI61bSY,M1,O1,S1,!E5zxIy0Y,H1,E60cI18bOY,!C2L5ocST1,E5zfIy4O5zeY,S1,I5rr,C61hL613,A1Y61l,I3tcL5zq,A4unO5jg,O2rn,F2syU60l,I4mk,E5tmL60e,!E61wI1Y,R4np,O1U236,E61zI4Y,!BbDzxE60tFaG572H9I18sJ8NO7P6S4T2U5mpYZ1,A1ocB1sC1lK610N1jOpSlThUfVeW1,DRp,E1I621,!B1S,O2oaR621,E1,G1,A4v4L61nR5ol,L61oR5yl,N4vm,T5k0,N2O625T1,A4ohE5I4O1,A5n3O4a6,I6b,A5xp,I4olR1U5wn,!E61aS,K1,C1Y62g,A4pf,A2E1,I61lY,E5xxO5jv,O1doRsq,F151,I1,K2um,C1N61s,!E5x0O1,!H4I2v5M4rcT1Y,!I4wkO13bS,E4qcO55l,!BlCkDFjGhH5ieI6jJcLbNaP9RS3T2W1Y62u,!E4oiI62xL61iN5y7S,F1,H5po,N5nlS1,U5yc,!B1E61xI5yzS,R1,E1,D1G5ttT4kf,E5uzL61rN5ji,E639I1Y,!B637R1ST5un,!E5xbF4q2I5z6,!E625I5z7O5r0SY,R1,E1,H4T1,B1cC4zwD19EiFgIeM5xnN9R6S1,A50E46I39O1gU1Y4o7,!H4kuS,G1,N1,I5o3O61s,L1,I1,!A1,!E62iI5L58oM4s6R1emS1W14b,!D1F3vbI5eqST63m,!E62kF2byI63pS,!T1,D4em,L1,I1,I4q0U1,DL63tR63t,O63rU5l5,O1,I590O60b,!M4siWqf,!A62cB6E5F2f2H3I5okL2M4sjS1Y1jd,!RdSbT1,!E62wGS,E63vN1,EomI1L5ydY,N640,I1,L1,!D1k9S,D1,E1,!L1T4of,I5vn,A1,H5g1,!BbC4c9E1mbO8S4T2W1,C1i0,C1,!A64gE64gS,E64hI1,A3C1H63lK64i,I4az,C1,T4oj,T1,A1,S1,I1,H1,!DG63vM63lS,I4R61z,C63wE63dL3weN140,U13,E1kk,H1,U1kc,F5wf,I63vR1,U1,!B7C5G4I653S1W2c6,!AiDcEbHaI9K5mqSY1,M5gs,H1,!L649S,!I633O1S,F1,E62f,!E65dI65bM4tuS,Y1,E65fI51L5w1Y,!I5woM4tx,!A63aB5E3G2I64gL64gSU657W584Y1,!N5wpS,A1,I1,A65hM1,E1U1f,A1ue,!U51n,!M2P5miS1,DR1,F2ww,!A642E2I65qO1S,R5vn,E1,Em6T1,L4N65vS1T64v,!RS651,A4hh,!E5xqF1L64iN617S,E65wIU653,!R60iST1,!N60jS,A1,A63dI1,D654V1,N665X5xs,CyvX5xt,!A4z4E668I2O1SW3wt,E64gR61m,T1,E1,!G4bvM1N1gxS,S60jZ60k,I1,V1,E1I65fY,H1O64aTpi,E62tO5o7,!E65cH1I66hO5ueR3s1S,AnDlEjIfLcO8S3T1U65n,E64sN66k,!E66mI1M65cO64fS,D1,R1S2ycXZ5sg,!I64i,!DR66mS1,A5ylG66n,N1,O634,O3im,O1,R1,E4t1,!H1I4zy,C5b1X663,!AcEaI8L7P4S2Y1,B1,Z662,C66yN1,B65fG663,L20l,O1,A1dtE60k,!M4vpT665,!A5E662H3I5rrM2S1U5uuW4p3,!E670I5rs,H1,S1,I1,!E5qtS,D1,A1,E1,!ST5ui,T1,!E1,!DF8H4L5udM4kvR67hS1Y1dy,!E67mI67kO1gsS,I66mO5vb,M1,O1,A67mO650,E5ziF55rN2crT1,DR67i,!E1I67rS,!ST67r,E1egL66e,B3tp,A1,L1,!C1,E6I5O51oY1,E4u5I67f,A1htP1,E9v,!RS,E1,A13B63gDxElF1v2GkHhIfKdN6S4T3U679YZ1,E683N686S67r,St4,I1O685,!E68aI3O1SY,L5yx,R1prY2z,!I68bM4wu,E2I5qdY1,E59mI5sx,D1,N1,I1,DN64vR68f,E68gN5t3S2yj,R67kU4vj,E67eI31tO1,K1kf,K4jhNR1,A1E622O7t,A52eE61s,L4jk,L1,E68gO5ti,A4uyO67q,!E3H2T1,!A676BeC5q2EdF2jwIcK158LaM7P5ppR6S1W3zh,G68u,N1,!A1S,DR1,!B1iyE1I1ftK5qlL52dST16yY,Gr,C68wG1,O1,!D1I68uS,DR60d,!E1I695S,!T1,L4fp,DE696R67a,!G1piS,G1S5z8,A65cE1I1px,A1p7,R1,!T1,!A67rB8E7H69dI1c0J4fxL4S1Y,E65fI161Y,!B19D18E69jG15H1keI69hKnMiNeRa4SbT2Z1,E5u9,!E1P1psS,CT68l,E69dI1,!C1G68nL69kN68nST63vX68s,M5sb,G1,Y1,R1,O1,U2gs,!L64cS,A1deDR69s,A4bgI68v,!E2I69wL1S,A5L4R1,E1U68w,!O647,!C3vkO3m6,!A69cC2l2D2E67wH2l2R69zS1,CD693Nnt,!O69k,!E1I651,R5s5,D1,Y1,G5nc,H2N612S4ikU1,Wea,O1,!E6a4T6aa,H1,C1H698T5bw,!SYZ69l,O6ad,AvBqDjEgIfNdO8R6S3T2Z1,A5nxHcc,!B42bE6abV6ac,RT6ai,!A5o0E1I32xSY,M9bN6ak,U4pb,E1cjL699N2fqS64w,!D410E697I1Y,!C8H7K5O4Q3S1T662U68l,!L67kS,!A1,C1E6alS4ovZ652,I1Y,!N1S,DR5c6S,!E1I17iY,H1,!O3n5,!A665E6b2I6b0S1,R1,!E1I6atR3waY,E69h,E69iN1,N1,D59i,I1S69l,O1T5nf,Y1,!BgpDF2mcN6dR6b8S,E1I5vv,A4cxE536,!E6a8I6bdL1M545R69fS,M1,!L4O1S,M6beS6am,!A6asSU1,N1S65q,I1,L1,!AqCnE6b2F4tlHjOgRcST6U1,H1wjL6an,O69v,A6ahE6bm,F1,A5s4E6as,L1,L1,I1,V1,N1,I1,!E65c,!E6c0P4k4ST1,A3H1I6b0,S5t9,I1,A1,B1,A1O69z,L1,L1,!E6c9SY,R1,E1,!I5zcS,D1,R1,R2ln,A2E1,!SV1,D7E1L6bh,E64aL6b2N68f,E68hI1Y,D5z8NR5nk,!A5yzE1I6ckL4ysS,E6b3F2ku,E62iI1Y,C5D3T1,U562,O51g,E6coF5uj,!E6cpI1,S1,I1N6cs,O1,!N6b9,N1,O1,N1,G1,I1,!E7SU1,E6c3I5yi,BeD68fG2N642R1S6c4T1xz,!AS,I1,K1,U1,O54a,D1,E1,H1,P1,O1,R1,E6bbI6dfO8T1Y,Q3dv,I35b,!N1S,N1,!I4O1S,Oe,B61xC20D1zF1xG1nI1gL16NzQyRjS7T2V1pcZ1,D6dlN5n0,I1,S67yZ68t,I1,R1,E1,L1,DS6dm,E1I6dv,!E6dyI6dwL1S,I56v,!B1E6e0I2okSY,DL3R1,O64m,I6bwR1,N4m8,!G5ncS,DG1R6e2S6dw,K6cjN2sh,!D618E2F2p8I1L5j7S,R5a8,R364,!E6c5H4mfI6e9P2T1,!DhEbF9H5tsI1deK8L4M52tP4mgS1W12tY61c,E1nrO1to,I460U6dt,U65o,A1,E668N4zp,H4oq,!B6C4x2E68jF5H3I2L5jiT1W5h6Y,!D6egI65sS,R1,C6efK6ei,I1,T20z,H2O1,R2tf,B1o4,N1,!E1,!A9C5F4H5hhIfgL6duO6eqS1,!AasBaeCa9D9pE9nF9kG9eH99I8zL8bM7uN6pO5cP5aR4cS43T38U17V15WjXcY1Z69c,B6l,!DL589R1r8S,ST6eu,!L6evT6cq,P5ho,A2O1U6c5,T4jh,C47sP1,!E6I3SY1,L60z,N1e9O1,N6f3T6f4,Sc7,E2I1,N5jc,A62pDO5x0,!E1L58oS,EgH9I7K4O3T1,W6et,D67r,R1,A1,I38q,C2K1,!A6D518O6auSY1,Ob3,D1R6ee,A1E516I1mfY,!G1S,I62o,R1,!DSW1,E1I2yd,!E6ftI6frL1S,!R3xw,D1,L1,I1,A5x5H1,E67qL6eiN2kzS6fj,A6dtO19b,K6ej,C1,Mk1,R1,O1,!I4T1,S637,A1,E1,!E6aaI60s,H1,S1,A1,!CgE6geIfL52kPeS8T5W1Y,DkdLmN1S6amZ6fe,!A5ttDL638M54xS,E1I1n9Y,E6ecI1naY,L1,B1,!EL,A1E68dN6glO1m,E2rdI6fl,!E6f4I2L1Y,H1,E6f6N6gpS52p,!E6fkI1SY61t,E68jG6dvN6gr,E6fmI1Y,!A6cnS,!C6D4K6grN2ST1,!E1ipI396L6ffN6c4Y,E6f4L41g,D6guT6gu,G6fyR1,DR11wS,!R1urS6bu,C6g2E1L6flN2m2S6gm,!A4B69oE3I1Y,!H8I7S1,C6bcE68wN6cdS6gp,I1L6bdY,R6a9,U1,!ST3W1,G64a,I1,E1,W1,H1,C1,I6cbS1,N1,!D50hS,!DL6g2R5irS6cc,!N6hj,R270,A4E3I2O4xgU1,E1o8N6hm,!E6ghI1SY,!I480SY,!E69hL2N1S,!E6hrI6hpL6gaN6czS,!DN1R6hoS,!I6fmSW5kg,E6g1L1N6ht,A6hrE3I1,!B30C2jD2cE6hsG28H613I1hK1fL64oM1cN11SsTnUfVaW6X6fwY699Z1,S5b8,A1gyX6h2,A2O1,Ro4,Uca,!T1,!SW3w1,H1,N4sy,N1,I1,!B9E6i8F8I6i6L640N313S6T4W1Y,B5zyG6h8W52b,R6i6V60j,AluR5uz,E3ui,A6gw,W1,!A1,U86,O1,R1,H1,!AbD1ghEaF9I632N8O31fS5T1U639W1lr,K53q,O1,R1,!T1,!B6hmE6ipI6inP5ziS1W2pq,T1,I6em,K1,A1,!A5rwE6erI541L550ST1Y,H1,C1znDoKcM6itS6T1,!LST6as,A1,I1,M6iwN6iw,A1,C3H1,L4ta,T5w6U6hw,O1,L1,O1sv,!B5C2E6hoI63qL1,H1,!DL662SW53c,E1I1v5Y,!C3DkmK6j2SZ1,AE,!T1,A1,M1,U63z,L1,H1,A1,R1,T1,S1,S1,R41r,H1,!C6hrE6jrI6jpST55f,!ST1,A666E6i0T6ht,E2I1,N64eS6iz,!A5x9E14cI1S,A11CvD1xnElGhM9N4ykT7V3W1,!D6juSY,R1,!DE6jwR5l8S,A6ibE1I6jz,I55j,Y4uw,A1E6k0,!B4rxE6k5F3I1qxL1SW2r6Y1qi,A5xjE6k2,L1,K3O1,R1v6,A5oc,!M1,!G3S1Wdf,!A6inDH5ztL675SW2re,E1I64w,A6dqE3G1L6b1O6fp,!C61mE55zI64yL4bxN6foS,!F1R5reS,E6icIdx,!A5xwI6jhS,D1T66c,D3N1,N6bzRS6jn,!E1L6j6N6fvSW2ro,T1,!A4H1S,!I6joL6j9S,C6hjT1,N1,A1,!I1S,L1,L6ej,U1,!F1L67qM215S4rs,E6kzL62y,!D1ixE6j7I6kyS,E1muN2q1S6kl,S564,N1,A1,!M1,!M2S1,!D8E6h4G7I6K1SY,!C4goL2g8N6j8S,!ST6fg,T1,E1,U1,DRS6keT6l9,!E1I6lcL6jxN6gmS,!DL5qeST6h7,E1I1s8Y,L1O6kw,!A4zmK4L3dcS6l7T1,!K6kj,!DL6k3N6gsRS6gd,E1I6ljY,!L1S,K6knS24f,!C1k2S5T2Z1,A1qB1oC1hD1aE18G10LuMrNiOhQdS7T1,X1zg,ApaL238,N6lpRS6kt,A3xl,E1O4c3Y,A6k6,O5es,!C2H1j6ImeW1,!A8B1hqC7E6I5wyL4N6h6S1T6hq,C22qD1,!L6kzS,L1,E1,D6gaT1,O585,!T6h0,E1U6l2,!A5zkE6kzS,A5C4H2K1O589,E31vI5x9,A6k3U1,!E6mbI2wvSY,R1,E1,D1L6dr,R5vl,A1,E1,!H1L6l1N6hq,!A5zwE6mjI671S,!N2R1,A5zyE1I673,L6miT6gt,Rk7,A6j0N6mk,A649I1,!G3L1S,!A6elE6mnS,CD61zN1S6gyZ6gz,P1tn,I1,R1,C6ip,A1,R1,!C4SU1,AeEaI8O1,CD6mqS6m5,E6msI1,!A6kkE2lyO48fT1U6k7,L50a,I1,M4m9,U1,E1,N1,E6n6I17eY,P1,O1,S56a,A1,!C3P1,!DbG4adP7S1,IeO1U6n7,!B3vhS,!H2O1S,A4c7,S1,O1,E6jkIssY,C5T2Z1,!E6miIkhM1suSY,E6nmN6npT6mp,!E6nrI1L5h3S,L1zk,L1,A1,!T211,!B2C4y4E6nwI1uoR2inS1Y,!C59qD8K6M1S,!E6nuY,!E6nzH5qmI6nxL4yyS,L6nwR1,!E1SY,H1,A6i9T,H1,H6n5,A1,G3H1,T1ka,A1,A4ptE1,E21wN6oaS6nv,S6ey,O1,I3a5,!H1T6nc,!E55pI5N3O37bS1Y,D61u,I1,!E6kgI6oh,!BaE6okL6bcN4R2S1,!A2mC2dG2bI27K20L56jM1lNxOoSnTjUeW1,A6g3O6ka,L1,L1,E1I5ei,N6omS6fcT6g3,O6njY19nZ19n,E6iy,G1,A1,A6o4B6mvE6orM1O6cj,Z4,C5awE5blI1T6ot,I6fg,B1,I5ey,O6ldR6ou,O1,!A4B4vjE6j3F3I1vvL4qlOjcU69sW1Y,!I6o3,!L6noN6kdR1S6o6,E1,U1,H5K2jdQ1,S6jgT6n9Z602,!I1L6nt,L1,F546N6pbS4wg,!A2E5l8I1,CpG62gIoLnMjNhS6T1X5u3,LqnT66a,Y1,H1,Ly1N6niP1Z49p,O1,A7oE5nI3vOzR681U6Y1,N6nxS6op,!E6piI1S,L1,!DG5h6H21sR6pkS,E1riN6po,E2I1Y,I6pgL1Y,!E6o8N68s,!A6B2I4fqO1S,!E6puI28jS,R1,E1,E1,L6ogN1,N535,A2I1,O6ki,R1Y2h1,E6n6O25e,!O6klS,!E6q5F315I6q3S30l,DE6nzR2T1Y6p5,!DR6q4S,E1I6q6,E1gq,L1,L1,U1,F1,R1,E1,T1,S1,N1,I1,!M6qhS,A1,E6plO6pe,!N5zuS,N1,I1,!A5k9H4K1,E3xe,H30h,T1,O1,A6moE4H513O1,H23t,B2vy,!AwBvEsI29nLqMfO6q2RdS8T3W2Y1,L47b,C10K2O1,E6phN6bk,!I6q2S,E1,E6pxI3L1Y6c6,G59o,!I1S,DE6peR6r3,!A6lwE1I6r6S,!DR3ST1,E1I1tt,!D7G1L1s5SW4hw,!B20pE6psF4ixI6raS,O1,B6ppL1,DR6rcT6is,!E6j7N6rf,H66x,E1,!E6dwI62jS,N1,!O1S,!A8E7I6L4O1SY,F1,B1n,A6qnE5a8,Y6qp,DR5g,E1I23Y,!DR6rpSW5f7,E1I6rsO6n3,!E5faH6qv,!A8B7E6G4H598L2S1,!SW2yy,!S4ys,L2R1,!A6qaE6qtI6ciSU6cp,D1T,D6np,L2R1,DL6s0,!A6baE1I6rkL5lhO5uwSU6rk,E6o3I1yyU6qdY,!CS,A1C6s4,I1,M1,!A65oE6sbH67rI245SY,!C6rbET6qo,I1swT6s9,A1,!G28eS,G1Z6j2,O1,!E6siGI6sgS,N1,!E6skI1PloS,DT1,Ttw,H1,G1N5eg,O6d8,I2R1,!E6jwS,D1,A1,E1O533,Es3N6suO6qoS3iu,In5,T1,S1,A1,K5ec,C1,E1O6a9,K600,C1U6su,E6qyO3c0,I6doU4ks,I1ouO6rz,!H1,E24v,I293,E5gqH1,!B1wwI6taR246,!A11BzDwEsFnHjIiMeNbO9P8R7S5T4W2Y1,R290,A1,B1bG1aI16K15L3RyuW1,H51k,S1,R1,!B2efDR6tgS,E1I1sn,E3L1O51e,E5f6I6tl,!I64oL6s7S,N1,I1,!EvmH6tnI25lK1ST6jkY,!B6F6toK6bcM5P1S,!B236E6s9G76I1qcY,!E6tuI6tsM2v2S,H2O1,E6ptI6ee,!I6mzL1ST6tt,!DR6tuSix,E1I1t1,!A5nhE3fbH34zI6tyL1S,!EvwH5bdI6tzM6ovO6tySU6o7,K6ic,A1,!E6sxI6emL6fwS,!CaD8G5I6pfK4N5vdR2ST1Y6t5,G6t5N5vq,!A1E6u7I6u5S,Y1,P1f5,S65,E6q8I213Y,L1O6t4S,!E6t6I6ubSjc,N1,!E1I6teO5o3S,C6q1S4kzZ659,!E6boI1S,C6siT1,A1,R1,!C1SX,U1,A1T5hc,E6ukO3gtR6ukS6tr,!A6tyE6swS,E6ugO5xhZ6ox,!I1PnvSY,R1,A1E6snI6ur,M24gN5o6O6uqU6tm,N57v,!A689E8H7L3O2R38uSU1,A6ucE6oxN6ut,N6uxT6tx,E6qwI1,E2lz,D1P6ux,!DL6tlR6uyS,E1I6v1,U1,K6v1Q1,DR6v2S1Y6v2,!A6E1I271SY,B6cx,E6v5N1ucSey,S6d9,S6ufT6v7,O2U1,D6v2,!I1,!A7E36gI6O3S1T,E6n7N6vfT6px,!SW6mu,!E6ubI2O1S52cY,!ELR5wrST6tv,!E6rwR5voS,T67q,!E6ufI6vkO6ukS,!A4E3I2T1,H1u9O6th,!A5clB1dD1aE12GtIsKqLiNaP6vmR7S2T1W5j3Y6gr,A6txI6vfO5ftY,U5pf,!E6ulI6vqL5hgS,DL1R6vpS,O53m,D6qcE6nmL6ueN5h3,A4xfE6ipI60w,NS6iw,A1E6pb,G56s,N1,A1,A2cm,A5b5H1,!BdEbF2j0GaI9L8M6P1clR3T5s3W1Y,!E6vvL614M5kmP4qvW5dz,S1,S1,E1G6w4,EvhL6usN1,!E6waGS,N1,!E6v5I1S,!E6utI6gv,R6waS6vf,C6wbE1N6we,E6wcG6uy,N1,E6ucI1,!A5pfE6vcI4L1SY,F6tn,L1,!B59lI6wkN6ruW33n,!BxE6v3HjIeKbLpuM5l4SaT4U2Y1,I1nk,L6wlN6vo,E6wmO1,D3N1,!E6wsI37cL6vbSY,R1S,!E1,H1,!N6vvO6ws,!DR5y5S,E1I6ww,L6wp,U6hp,E6x1S,R1,E1,G1,N1S5iy,!E6vdI6x4,I5x0Y1,A6w0I3L1,I1xw,T5j2,O1,!C1,E5ksO3j4,!B32fCeE6xeF6I7pL6k6M5N3g9S2W1Y,!DR1S,I6wkY,K1,GS1,E6x9N1,A5joU4p6,L6o7O2d7,O1,!B3E6wgH1I6xlL6kfSW60aY,C6xhN1,E6p9,!T57x,!AsEcI8O3R2S1Y,!A6pmE6wqS,L6g3T6ws,P1nzU6xk,A2I61sO1Y6xa,L4R1,!A16C12E11LzST6U6wpY1,M61e,O1,!A6waB54gE6w7I6xyO3gvS,I6ikO5qx,!A5qyE6s2I6y0W1,UkvZ1,B8bC74D6tF6hG68H65I61L4oM4cN3zO3wP3vQ3uR2fS1hT7X5Y4Z1,A53o,!L1v9S,A5rqI3h0,S6puT,S1T6bb,D3gp,O1,A3L5ieR1,E6y9L6yaN1j9O6uo,!N4wq,I1U6xi,A2rvR1vp,!S2T1,A1z5E6ye,D6yfK6yf,R1,A5ioO1,N52s,A1,!EiG6xlLhN2a2PcRbS7T6W3Z1,A1zzD1zwE1jrH1jiI130Lv8OjuR95UlWkY1,DR6t7,E1I6yp,!A6yoE1nuI31bL1S,L1N6xtR5s5,!DSW4pf,E1I6yt,A5dy,G2L1,A1E6yyI21hY,V6lz,I1,R1,!N5seS,T2q2,R2S1Z5ow,K59y,A1,!M1R6x7SW368,DT1,!E1I6z7S,L5veN1,R5ju,!DG1ST6z8W5je,E1I6zb,E6zeO6x7,H1,D6h5S6yf,H68o,B6zeC3M5g0O2S1T5sy,T5u9,S1T4zc,L5e7,L466O1,E3I1,!T516,!AwBrDoElIfLcM5o6O7R2S1,T5a8,A1,I1,!C6ebDP57xST6zqX4sf,GN6rn,N1,Cbr,A2prE4I2O6o7U1,U5hn,Q1,Mmq,E1Y6zg,H5zr,P1,A1,R1,SxvX6zl,I1,I6zxO62zY,N1,O1,H1,DbE1ypG7M5P1,IO6o2U6zg,I4d9,M1,A2crCoHjIhKs5O4T3U1,E6yoR3ek,T1,!I46wO63aS,R1,E1,S4V1,!E70dH6tmW4r8,C6znE6yiS1,I1Y6lr,E6ykI3baY,!I6zz,C2T1Z6zs,!L6iiN1ST6lf,E6wrI70sY,CU6v1,I1,A6uaIU70n,E1I6wpO6om,C1,!AeDbE7G6I70wM4R6zzSU1,L6y3,A6yjI1U6y6,!E6y6I6y6S,R1,O5o3,T1,I1,A51hI6s0,R1,A6I5ssP3T5wuU1,C9O6kiS1,E5i4O4kg,!ST1,!A6akE71aS,N1,I1,!E1S,E5F1T6yl,!DF3cjL3tdR71fSY6o6,E1I2deY,O70dW71h,I6omO1,!E71nG4s8SY,D71kN1,D71lM6ysN71lQ422R1S62qT8t,P3kl,!DM70hR62zS,E1I71q,L1N70x,A4E4O1U4,L2ig,A1,!DSW1Y,E1I28qY,A4tlO4m4,!I6zaSY,N2vhR1,E71yI71rO64tY,!N5g3T1,N6jn,A4I2O1U71v,IO71wU71w,H1,B9D56hM3N5giS5o1T1,A6vwIU6vv,E1,!E58nI62fS,N2R1,A6l0S,L6dv,!O1,L72cU726,O1,R1,!A6xm,C1E710,G6e2,E4I2U1Y6no,N6wu,I1,A6xsE70jI72nO6yd,E72mI6tiO3vy,CcF5M3N2T1U6wx,P5lb,A72pF72p,F1,U1,!D6vvS,N6ytO6zl,E2I1O715,B71aT1,A1IO6qoU723,L1,AqEpIbSaT7U1,A3nhE6vjR6yd,O6ph,T1,C1,A1,LR735,A1E1mbR5qcSU49t,D1T6dq,C4yrF4N1S72b,!L68bS23m,A713E717,E71lR1,E735H72eL72eO70p,N57p,R1,!A6ydO1S,I3bw,E73gR73h,LT72k,!A1S,A4v9E3H1,H4lo,A32xT1,BcCbF8G7P3S1X,!E72kI6v9S,!B723LdrN5ifS,A5xhO5nw,E721I5rgY,H1,P1,A1,R1,I64fO6rn,G1,EhY1,P3hw,M1,U1,H1,G8N6opO5owP5T1,E743I6zy,!E72oI746L72rN6zg,S1,!E6w1N6zi,S4U2W1,!AkBjE3fdI6O1SU6vx,D4b8,!A4fsE5lnI74cL72xN6zmO1S,C6hcE74bF6nfM2ajZ6ym,I1Y,T73gY5p7,!M73wR2T1Y6ri,A6p8O6p8,H5ulR1,A72bE74bO67c,I1Y,E73fN1,M1T4yh,O73s,A74mE74gU71u,I1Y,D3R1,A1E72nI74r,A6nhE6d9I6s3L73tU6nf,!E74lN71xS,O1,E734R73x,S2T1,C5P1X743,A2sC1yD1xE1pF1oI1aK19LoMmOiP54nQ2cvTgUcV7X744Y1Z73x,L5qd,D1lc,A1I4bm,!E74uS748,I4R2S1,A6ytS6z3U6zc,E6baI1O3nfR6sr,R2yo,O1,P2kl,!B5brE6sbI74bL6xnO1S,R66d,E1,!ELM5tvP1SW5n8,N62z,E1,A3L1,!L7O75fR1S,E75fO72t,!D1S,A1E75hI74lO6na,O73fS1,AI,T1,S1,A75mI1,R1,!A742DS,E1I2gc,G1,A1,L1,F1,M6nmR7U1,Nmm,G6vy,E75xI,L1,!ST74f,A1,L1,I4O4ymU1,G8I7N1,I5fcT4i8,DR765S1,N759R759,C5jkT70i,!A1S,L769R1,E75cI4O1,!E6y6L74yN5rnO748,!N6qzR2rbS,R51j,B2q0T1,O1,!L1,!AeC4ovEcF2thG28xH7I6O5S4x8U6y6Y1,!H4ox,!A1iB1gC1eE15I11L5zzOpP2S1,A6ptIU76e,L1,U1,C1N76qS70yZ6hk,!E76sI1L2mzS,D76pI76iY,I2kiK6oeL2P75tR1S56m,A6r3E75oI76tO6uj,!A6r4E75pI76uL1S,!O69oS,L2R1,A74sE1H75zR6b0,A76wU716,R1,!B1S,A1,L1N765S1ht,E771U761,!C756ST1,!A1E6yyI51gL75qN72fS,D1E75o,!E762S,T1,H1,G1T,I1,I757O20p,F6uf,F1,U1,!N1T2ko,I617O6a7,!B2gxDF4z5H10eL7N3qfP6R77gS2W1,E1I77j,L5qo,U4pz,!F2I77mT1,ElIhL4O3l0Y1,R24b,H5qx,!C6v4,!B3DL4edP2R77pS1W2cy,I5tbU779,E77rGI73m,C6qyD77sK6pgN1S6uvT46v,!E77xI77vO6vlSW4yi,R1,E1,I74cL77w,!O1S,CN1S776,I1,!B1S,N2hw,O1,!L1O760S,DL1R69g,E763I787M785T6r9,S1Z6j3,!I1S,L1,A1,B1E2ezK6pyL76xN5tmS6vd,A1ci,!A18xB1E33qI78eR76gS,L2i8N1T,A6o3,L1,AgEcI6O3U1Y,!A76vDI3r6S,!A71xI74d,C1S5mnZ6jg,!E73xI1R76oS,E4L68tN1O20uP5njR6yj,!F5vhO78mT,P6zo,U1,A78pO1,K130,C2u,I1,A78tR1,B65wL5N4T1,DE76sR78w,E78qI76t,D1S,I1,H6qn,T1,N1,A1,LR5X1,A1IU78y,!L788,N78aV276,E1L714,A798G,C4L2N1,!A78nE79eI79cM784S,!I78nS,!N2R1S,I6u6P79d,A1I6u7,!AlDguEkHbI6L78iO3R1SU799Y,!EST73r,A1,L1,!B5g3E73nI79lL6emS2qf,S1,A1,A79mE5odI,N1,O1,!A2zC2uD24E20F1zG4a6I1xK1uN19O14S13TaU7V4Y753Z1,O2gk,H1,C1,T1,U1,!N757RS790,E1Y,I70jL1,N761T71x,E79tV6g5,A2I1O78bY,O700T1,I1,O3wc,S1,I1,B9C4R1,A784E793I784,L1v8Z1v8,L1,I1,A1,!C1E799I7aeS,!DL6R1S2arW3hi,E7a8T78i,I1Y,R1,A1,L1,S41bZ6lg,!I1L797S,!L1T6fv,!I7afY,!R1T72m,A1U77w,L1,A5O7a9U1,A79yL9T1,E3lmI78p,E794Z754,!A5aqI1S,!N1R6cfST79yU5wr,T2kr,T1,E1,L1,DL1R7b0,I5k9,C1,C1,E4I6vqU1,!O7b5,I1,!C1E7b7I715,C6wyG7b8,I1,C3F1N79qO2a1S,T5vy,C1,A1,C7bbL1,I5O1,I4e1,I79eU75r,C1D78bZ75t,A79gO7al,RT6kv,N7boZ75w,A2E79kI1,L1,!A8I6O4opT5U1,!C79tE7btI7brS6wg,N1,I1N7br,A79mE7bsI77n,O5htV1,R77r,P1R7bv,R72m,A6I4O2U1,E79wI79v,H1,C1T,A74l,B1,!A1xE1qF3n7H7c3I1cL1bM16kO18PzRoSfT6U3Y1,!E7afR2ojS,!EIS,R1,E1,!E4I1S,D7c9N1,A76vI1,L7cbR7bf,!E7aaI7ceL5y4S,L1,A3K7ceO1U7bx,A5i2E6us,AO4j4,!I40gS,L1,B3E1,G6gq,C7boX7bt,A1,S669,R2l3,!A6z6E1,!E7bnI7csN2t1S1,N1,A1E7cb,BjCfF7bwGeMaN9P7S6T73uV1W5wz,H5p1,CD7byN607,A77vI1Y7cf,N7cxY7cg,C4M2N786R1Z3o1,E7czO7ci,D7c3N1,S7c4T7c4,A1,R1,D1,Y1,E7d6O5t4,C5qkD1R7cbT756,CF5hrZ6o5,!A78gI745S,L1,!A4I3L707N6ysSY1,S7cfT75b,!A1I749S,L4xn,U1,L1,L1,E1,C1,L1,Y1,H1,T1,E1,E5hf,LdM2P1,Y1,!C5tmHnL71gNhR7cwSX1Y5z8,L6vwU6x0,C1,E7csI7dxO7c6,!E7e0I7bsO7c7ST1,T1,S789Z6ov,E2I1,N6R1,!A13I11O9SU1,E7e2S7da,J72gN67jS1,!E79wI6dgS,N1,E1,S5doU7e1,AO1,!ST1,A1,O6eg,C1,R1,A1,G9I7avM5S1,O1,N1,AfE7e1I1,OvnU78t,M1,!C7elES,!A79lI7ahL7d9S6zd,L1,A1G7eo,E6tdR34i,A3mv,P1,O1,Y1,A79m,N1,O1,M1,L1,A3n4U1,R4db,I1,P1,S1,E1,C6y9,A1,R1,O1,H1O4xe,S3ci,A1,GnI7bsL1nzMjPdR8T3V1,CS7el,I1,AuG7cmNrO3T1,L2qk,R2mg,A1,!H1,!A10B2mqC6wuE7ehH18iI5O7ayP4S1,!E7eiI5vcS,N773R1,R14mU31l,N7boV6lu,!E79tI1,!S1,!NR7frS,E1I70e,K1,O6ud,!A2O1S,R79d,O1,!DEcFbG5qtL628R7fyS8T3W1X,A7ezU7fi,E7g0O74e,A7feE7dzI3yq,R1,U1,T1,A1E7fz,DU7eh,E1I7g9,!N1S,N1,O1,L1,!ELST6z8,A1G,C7fiG53fL7fhU7g8,A7fm,BgCbE7f0L5N3O2T1,Chg,A1,!E7gjG7gjS,N1S7g8,!E213I1O7d0S,N3rp,G1K73rN,A4s6E7go,N1,A3E7a7I1,I7bqY,!I7cnL1,S6ic,G7fxL2S1T7c2U5xg,L7e1T7gvY7gv,AE7gwO76v,R1,A7ghO1,E7gzF5vxT72vV1,T6sp,!A7E6I2O1SY,H2uw,!E7g0IznL2xeSU7ga,E7h4O6la,N1,!O6lcS,D7h7N1,E3I1,!DL7h9R7h9S,A7gtE1I7hc,S1,A638B7hcCaL9M7hdT4U1,!EI6hlS,C1d0L1,R7g2T7fv,A1,!L1S,E6npR7fm,T1,E6ivI7hm,!G1S,G1,A1,!B1E7hsI72aSW656,DL8N6R7hpT1,!N2gx,N6il,O1,H6im,G2O569P1R7gqS6im,!AhE6I5O1SU7hp,!A7ftI7ftS,N1,E1,E70c,E2H1,C7hyG1,O2vj,F1L2q3,E5vk,G1,L7h9N7i6,A2E7cbO1T643,E7a3N7i8,!P6rkS,P1,O1,!I4ST1Y,S7hv,C64bM7ifN73vT2U1,W2xu,R1,O1,N7iiU7heV75m,!A64rB5p3F2I7ilO1,!AjEhIdO6SY1,!E7ilI63a,!I4oS,!DL1R7inS,E7ioI3r5,G1,A1,L1N7iu,H7heT7is,N73gS1,!E7iyI1L6nxSY,N1,!P760,C1v,G3b1N7izO3P2U1,L572,E57f,E1,H1,!A1c3EgIcL1ceO5RupSU4W1,N4kd,C1vt,!DL7j6NR7j6S,A2E1I73t,CD7gm,I1,T1,E7j5I494,S1,P1T711,A4O1,!A6mB5eC4xD3vE3hF3gG62iH69lI2zJ2xK7jgL2uM2pN2eO23P1kRvSuTcUbV8W2zkY1,!B7ikSV7ik,E7j0L7ik,A7jiI4q5,B2D7duR1,A1,R76p,A1,E1O5bh,CN602,A7eoE7ik,S7itU7jk,K2vnM7jr,R1,O1,!A6iB7DF5ysI6L1d5M5O4R69rST7etW1,B7iaW7jv,O7jtX7j4,O1,DSW7jy,E6q6N7k2,!A5B3E2I1L76wM4bwO7el,E7j1I7j1,G7k2IO7k2,M2N1T7j7,DT7k5,!E1I7k7SY,U729,B7jbT7jbV7jb,R3vbT7f7,E597,A7kaM4c6N7evS7jiT1,L6dr,C7k9U1W58f,A6E5I3O1,B7azN6duW64k,N7kfT6tq,A1,L1,!I7buL1R7kiS,G7icN756,!E6c6S,F4buR1,!N7kpO7ij,!R6roS,E7imI2O1,T1,A1,!AdE9I8L7f2O6R1S,!L7jfN7g4ST7iw,I5qg,L2R1,!I683R7izS,T1,S1,A4I1S,A1jB35iC1fE15HzIwKuQtSmT8U1,C7gpS7faT7k3Z7fb,I1,L1,O1,E7kyI7kyT5lo,S1,E1,R1,!A7klI7gqS,M1,S1,Y1,H5L1O4ba,P74f,O1,I1R5jr,L182,A1,S7klT74m,S7jnT51z,C797P1X7hd,!E7kiI7lnSU7cb,!E7lgG1S,E7lhI7lhT7ln,S1T7h5Z7ce,A7E5O3P7ktY1,I6qy,N1,U7kn,A2c5E2I7gsO1,A7luE5p6I7cq,R1,O1,X7k1,A7daE1,L7bf,H4L2U1,T5d2,C1,!A7fjI7l5S,H1,A3R1,C7hvS7g7,E7m7I1,H1,P1,O1,R1,T1,A7mdC6ze,I1,N1,O1,B1eC15D12F10LsMoPhRcS5T1W633,I6fiO5ueR2ya,B7kyL7m2,N7l7,N1,E1H73vO3z0,!A4E34kF64pI2tjM7lhP1U77gW10vY,A1qvH1L2jv,S7iiT7ld,M7jjT7dl,N7mrS1Z7hx,!R2q2S,E1,N1,I1,M1,!A1S,L1,!M75cS,EbI9O2U1,H1,C65nE7mwS7hdZ6xz,I1Y,R1,O1,!ER7laST7f5,A1O6rd,R3x1,E1,N1,R1,O1,DR7ndS7mk,L661,L1,I1,!A7leC5E4I7njP1SW195,!ChGdNbR1S,E7njI785,C1L7n3,G6gqS69i,A2I1,R4n0,T2ya,!EL7npS,A1,R1,R6ly,E1,A7kaC6D3P6z1T1X7jn,A7hbE7nvI7jd,L7jnT7mz,IN7nxS7n5,!A2I2y5O1S,C1,I1,D6L1U75c,AfE8O1,N70k,O1,K7mlN253,I1,!E7miP34iS,P1,A1I792,!P2lhU793,I7nuL67e,E321L7mzN3tgS7o0,!M6cyY7nh,E1,A4E2p7I3L1Y,!A1zB1yC1sEyFuG47fHeIcK764LaM2zjN7O33S6T1W2p6,!E7n1I7ojS298,S1,U1,DL7n6T76n,M7j6,S1,I1O7on,L1,C7oiL1,A6E485I1L7nt,!R7k5S,R1me,E1,W1,O1,L1,C76qF1N7ndS,!D7E7osI1K1t0S,!G7hvI7kuL7nmS,B7nfL1T6kw,!DL7bxR1vlSW227Y7p1,C3zd,I1,A4E3I7p6T1,E7ozZ702,I1Y,R1,!A7k0E7pcI7paS,N1U7f9,O1,E4I1,CtDmG7iaLeS8T1,R7jyTeh,R1tb,E1,A7pgEejI7p9Y,I7paY3x0,C7azE5I3L2R1,N3f2,I1,L3T1,!E7pqI7poO7nxS,T1,C42yN7pr,!E7ptI1O6skS,!N1S,!A4DF5hgL6uuM6ecR1ST5x5,R7ofT7hr,A1I6pqY,A6msC9xE7puL2byN7ahT1,R3ca,AbE5I2O1Y,N780,N1,!E1M7n6SU77a,I1cm,BqgCppDp5EouFonGolHojIogJobKo7Ll5MjiNgcOg7PdyR6mS52T1lUpV5W7q2Y2Z1,O6i7,!DL6cdS,E1I7q6,N3S1,A7nrU7ne,!B1ccNSW6sy,R1,!L4wxN7qcS,A2E7mbI1U4wy,!E7p8I3byO7dcS,B7pgL1N48t,D7lrN5y0,!D7d5S,E1I7obO6xf,N7pcT1,A1I7mc,!R1S,A7e8E7qdT7on,I1Y,A7k0T7po,A7qmE7qmI1,T1,B6R4S1,A7eeB660,DR7qqT6dj,!A748E1I7qtS,!ER1,!N7qwS7pp,I5b3,H6p4,!B2I78jP1S,R6qaS7q0,E7qyI4dh,T1,I7ngL5qdS4x7,A4E7r1I2O1,L1,!AbB184E7r7IaM7m1O7SU1,T6rc,!A1S,M1S7jm,!AuEjIiL4O1ST7r7,L5yn,A1,!T7mi,E7rbI7f2,N7rfT1,!A3E7qaI1SU7ol,T1,N1T4nk,B7E1,C4qk,E1,P1,A5koE7rk,B5ehS2T1,A7qzN7rpO7hl,!E7rrI1S7ce,R1,A7q3E7nqI7rr,A7r3R1S7jg,E7nsI7rtO3U1,!E7qwI7rlSY,R1,L7ruR7qxU1V7mf,A7psE7rp,I1Y,R1,A1N25h,O6dl,!B2z6E7bjF1I7s2L2knP6l9S,A7reIO7s1,M1S,E7rxI1,N6R4S1,D7qlM7s5,A1,R1,E7s8I7fbL7ng,!R34vS,E1kwO1,E7dt,A7rcG5L4M2P1,!N7s6S,S48lT7qiZ7nk,!E7kaI1L7r2S,!L1,L7pcT7np,A1E7qgI7sk,G1,U1,C5cnF1N7d8O7aeP2x1S7mm,M5ua,O6wwY1,I7p4M3udS1,A9E7qnI4O1U7mz,E7skO7qn,I1Y,M7ssP2rjR1,!AzEpIhN7fxOgR4SU1,A4u3O19S13T1,L73y,R1,C7omN7sxZ7en,P6t8,A3gk,R1,I7qyO1,H1,M3tpP6vvR3d6S5T1,A7t8E6nqI7O1,L1,A1E6xc,!E7t7H1S,C7mdS7s4,A7ssI1,S7qg,I7tfP1,E7raI7r9O1,M4S3rbT1,I5tq,R1,A1I7riU7ta,L7c0,!L7qdT7lh,I7f1Pt9,S1Ve9,A3I7khO1U7nv,E5R1,L3b8,!I7noL7sbS,L1,A1E7tkO7jp,I1Y,N1,E7soO1,!A7tdB8C7DM1SU7t1,A7tvCN7tyP771S7syT7syU7o5,U7hn,I7ktY6er,!ST1U7ts,!E7luL7smT7s3,N1,I1,A75fC4eaE7o6,I1Y7f9,A2jk,R1,F3O1T5ud,A6E7u1I1,S4ne,A1,L1,P1,E7rjO1,E7saI42u,E7ueI7pdS763,L3M2S1,Az9,L1,A7tvE7ucI4gz,C1DN7szX7tr,E3I1,A18C15ErIqM6o1NpOnTeU6V1,E7rtI7rt,R1,I7tkO66v,!A7pwE7t9I7slP1,!D7uq,D7tuI1S,A7usIO1U7tz,R45r,A7I6mgS5T2U1,A7ssO7in,E1,C1N7u0,A1E7uyO5ni,I3cx,A4vB4cyC4uD4qE7v0I4oL3tM3kN26O24P1tRfS6T2V1,U7uy,L5bcO1U7uz,N7u5,M7u8O1,!I7sdS,R1,!A1L7i3O7tiR352S,N1ut,G1,A1etO1,T1,DR7mt,C6haG,E7n9N1,!E3I1SY,E7rhF1I7vi,!E7vlI7vjN6h9S,N1,I1,R1,!A2k7,E7v4,H1,!E7tmI7vqM6k9S3W1,I5e5,!E7vuI7vsN6hiS7gh,N1,A1E7p9,!E7vxI7vvL4M1PqkSW6dr,N6R1S7ux,AO7ts,A5w9I1,H7vxZ1,D5x5,!I7hhS,N1,E1,C77rG1P452,E5I7sjO1,H7w4T7w4,C7e8,!B33cE7waI332SY,E7s8I7s6,G1,N1,A6bgE1Ii8O6liY,N7veT7vy,!I7tk,Z1,T1,B3f1,AjCdD5qdEcIbKaL6O5U2Y1,H742,P1,D7vmE1,!E7woI7wmL2j2M1ceS,R1,E1R6gs,!I7njL71qS,N1,O1,E1,L1,E72zR7s6,E7wtO7wt,S1,S7olX,I1M7eo,G7uu,C7wyG7w0I1K7wy,!ST6gk,DR1,N7sf,!E7x6I7x4S7ht,N1,G3N7x7O1,E6sd,!A8E6I2L1SY,!AoBlEgFfIdM6c5ObP1S,!I7x1S7hzY,R1,E7jrO1,!L1S,!DF6k7L1R7vgS,I75nU7x7,E7xeO1,E3I39dR1Y,I36uL7rr,L1,E6yt,E2L1,E6pgI7i6,!A6yzDF45wL1OyqR7xlS,!E1I7xoS,N7xqZ78k,!E7wlI1L6jgS,L1,E1,!N39jS,N1,O1,!E3bmS,DR1U7f6Y7xv,E7l0,L1,C1E7xsN7y1,!A7bgE4I1O7waR7w3SY,ClDhF5rxGeNaS7T1,!S7x9T7ti,J4hn,A1E1R6zn,I7y4T7y3,R2T1,!A7bnE7w4I7y8S,N1,O1,!A7shL7y9R1S,L5gg,L1,A1,N7wd,I1,A1E30u,A32rE7ykI7yi,!E74o,!AdB37qE9F6I7llL3M6n3P2ST1,U5ye,N7m9,A1,D7ymN7ym,E7yhN7yqS4ncZ79k,G69b,O1,L1,!E7yvF6lmI4L7lnO1SY,R1,E1,I8T1,BaC1D7xyS7y3,O22h,R1,T2fc,O2ouU1,N6j6,N1,!O1S,!A7xhDH60pR7z3S,E1I7z6,T3ui,AI7mv,!T1,!A1S,M1,L7m0,B1,A1I7z5Y,E7r8L7y0N44hO8S4T1V59,!A7zeE7ziH7yiI7zgS,!I7qrR7xjS,N1,A1,D7xmT1,C7zgT7ui,A2E6jrI7ynO1,DR7zlU7gw,!E7rhL7y9,G1,N1,!E4I1L7mlS,A7zpO6jx,I7xp,U1,!E7zxI36pO7ztSY,!E4iI4ijR2piSUgv,!A10ByCwDtE7xtGrIiKhLbM6N7zdP5Q3R2ST1W6htY,!A7z9E800I7qsSY,!DI7zzP685SU7y8,E1I7zs,!EcmI801S,!L7ynN1RS7z5,S72gT7y5,E2I1,E7w4I7kpM7S5T1U14z,K7m2,H1,I61s,R1,!B1SX,U1,A2r1,A2L1,A3wg,Y1,!B3afE7zbI80gSY,DL80fR1,E1I3ceY,!CcE6O4ST1,R80iU76p,E1,E7yvF1,G7t5,O1,O1,M1,E80jU7zp,S1,U7zv,Q1,U1,A1,N69h,I1,FdL9N3ncS7T3V1,A6ic,!B1E7zwI811S,!O7vzS,N5w,A1E1,A2Z1,B62C60D5xE5tF5oG5kI5aK7toL4oM3xN34O33P2mQ2lR19S11TnU7W5Y4Z1,E815S6ol,!K7w4,!E1fjI2J67rL7zuN7wjO817S1,P1T7sp,E7oy,K7vv,A1,!B1n3E81gI81eS,DR1,E7obI7uk,R3h5T7vq,A1,O3ck,O7vsW81j,E7j7O1,!A7zyB3asE7I81mL6M4O1zvP3R1SU7md,HaK1,A7zxI7wl,D1E7zyI7wm,Hd,!B80qE81tF4ctI3dnSY,E7tlL80dN46uO81q,!E802I81tS,D1,A1DS7rt,E1Y,!E80sF3nsI5L1O81vSY,R1kq,U1,A6bnL3jj,A1nt,!B3C2DP1S,E1I3dzY,CeKdP7tjR7S1T3ml,!D5sgF6nvS,O817,!EST6f3,A1lp,R1,E1,C1P6ps,I7yqN7zg,A6I2O1,U2d0,M5bx,S1,B82gP7xm,R1,E6p7M82hO1T4i7,C2dfL6O4S1,O7e6,R1,T1,O1,T1,U1,C7hbX7yi,A1,L1,Y1,H1,P1,O1,R1,I79rO818,T1,P1,E1,C1,E1,E7pkI81s,G1,R1,H4u8,T1,N1,!U4Y1,M2nh,O1,N1,E837I837O1,C7b2X1,U4s4,E1I5w4Y,P1,A1,R1,E1,P78e,O1,A9H3R1,!A10PsRmSfT1,R72l,I18O2U1,I3hjO1ov,S6of,G1,N1,!R83wS,E1,U1,O43a,!A82dE7y3I841,H1,M3S1,E58q,Z1,O1,T836,!L799S1,I840Y1,C7zxM848,!I1L79cS,B1,IaN7O6cjR4T30oU1V808,!B3biE846M6sx,F1kf,DR1,!E1F4fjI4wtN4neSY,S4T1,A7hnH84hR6w3,E83eI7rm,L1,L7f4R7zy,E835O83h,E84mO82j,A4E3I2R1Y7pt,GK84o,E7wkN1,!A834E83nI1SY,A3jB3iC36D34E2pF2oG2nL2gM11N10OxQuRgSbTaV4W1Z,I7xyO84s,R1,U1,C1,S1,O1,!A27hI7jySU84s,!M1T7o3,!OR3S1U847,U4n7,O1,E18aI855O853,N1,D3q4R3q4,!H719,!E85bH1iuI859P3f8S1,E858N1,!A4E1O7rqP7lpSW6sr,!A6C12aE7x5H859K1L40hN80mO4l0S,!D5nhE81cI85d,!C83gS7q3,N1,I1,A1,!D5vtE7xbL843S7q7T1,!D85hS,F2L1,A1zw,H1,!A7r3I7spS,O46y,N2R1,C4O1,F1,T3e5,E1G7svN815O84u,H51,A1,U1,L2sd,A1rqD85w,E1I6zv,N861S4w1,E7xuK7rd,E72oI1Y,R6qx,!B5E862H78tI4L2P1R5o8,D863S7wx,!A1D1djE85y,!E382L84sN7mj,!E6rtI1N81iSU80gY,BcD5E867I3L1O1rb,A868I7ia,R1,E1R86a,E6qiI864Y,!L1S,C6oyS80n,!A86eE86eI1S,!DR1S,A5wh,H1,C1N86l,A86jE6qq,!L7bnP6ztS,Y1,E1,Z3rm,N1,!A1S,AgBeEbI8L7N4P1,!B3g8SW3c0,H3rr,C1,N1,I1,R1S,E7ysL5dl,!E2I1Y,H1,P7oo,!A1E875I3dxSY,S2ng,!I1N866O870S,A4,U1,!E870I4zkY,S86fZ1,!AhB869C9E856I87aK7L7u4N6t0O5Q3ST1,X86d,O1,D1,O1,N1,C87bN87b,U1,E3l5N87j,E29gI1Y,!B3eoM3P1S,M3l,!E6oxI87mS,E85wI87eY,C1,N1,A1,M7bv,O1,D60e,I7vhO863,T1,C1,A1,E2y8,O6R2T1,!G2j6MaN8P1S,!E86wI34mSY,P26r,!E85zI883SU1,E83g,G1,R1,A54kImKlM886O7P6R4U1,L2ua,!E1,A33z,H1,N5zb,N2p9,I1,N88dS85k,!E88iI88gL34pS,R1,E1I889Y,!A87uC8I7L5O4ST1,I7nzO7yhY,R1,E4u5I80a,L2R1,A1E88mI78jV6nkY7ts,!A3nB3lC3dD3cE35F2yG2wH2tL2gM1xN1fO1aP15RiSgT6V1,E88iI6iO79f,D1S87x,Y1,M1,!T790,A1,M1,S1,!O1dqS,C6l4,I1,N1,E1,H1,I884P1,C885L7M1T886,X7r6,O1,P1,E1,Z1,A1,A6z7I1,L5fzN79d,!A876E89cI857S,CD80eN1T7qc,Z30e,N1,E1,B84v,R1,A1,Tip,E1,C3M1,O1,R1,O1,U1,L1O43d,D7a3,Y1,L60v,L1,Y1,C7a8,A6oy,H3I2L1R30z,U7vw,Z7s3,A1,I1,H1I810,BpFeHcP6Q5S85yT1U89z,Z7w2,A1,M1P7s8,O1,R1,C6e0,Y1,C1,A1,R1,T1,E1,A1fD18E17I15OdP8T1,A1oR1,A1tO1,A84fO48r,N1,O5mx,L1,B1,!A1E8auF6xlI8asS,L7yf,O1,E7huI7xxY,T1,A1,H4L1,K7O1,E81v,!B3enE8b3I8b1M3kpS,C2R1,H3ki,!B3kjC1DR8b2SY,E82yN873,E2I1Y,G4js,O1,I1,G1,N1T8ac,E2ny,F1,I1,C1,L1,K1w1,E7fuI4xxO1,T1,S1,A5Y1,H65w,T1,I1,I82jO8b6,R1,R6d7,A7n9E2Y1,T1,C9L6N8aoR688S1,!R7g4S7t0,E1,N1,AnE4I1L8b0O8bw,P83e,S7g6,O1T7sy,N5xa,A1,R1,C1I6bf,I5O1U7tx,R1,!D1,!R8c7SY,E1I3j4Y,K8c9S1,O5yj,E2eaI3o9Y,!Fe0H6tsI729L2P1S1ol,I7rdU8bk,!E8ceL8b1S,G2L1,R64m,E1,D1,O1,S1,E1,LM1T8bp,!A1E8crI8cpS,CF7rp,!E8bmI43rSY,H1,P1,A1,R1,G1I8cy,!A7f3DG6dvI7M71gO1S,LM52v,E8cxG,CD8crS,I1,O1,T1,N1,A1,L1,L1,Nyv,I1,C1,R1,A1,A6C1I89rN846,AgCNfO1S80fZ87x,E8boI7suY,H1,P1,A1,R1,G1I7ls,A14DwEoI7O1T25cUp1,E89lH8csI8dm,G7qrS1,H778,!E8drH3pvI8dpS,R1,E1,I7hz,!C5D2E8dvH3g8I8dtS6smT1,A36C2vI2sK2oL1wM1vN1mO1jP1gR9S62dT8coU7W1,Mz3,O1,A76vT1,S1,!LT895,!A1O8bvS,N3uh,A81zE8e0,E2I1Y,M4O88cT1,S1,F49v,!A89vI6gdS,C1D8e6N851,M8e7P1h,A1,R1,Y7pt,G2L1Pwi,E8ecI6O1,!F9ST1,A8agG8ee,CD8diN1T8diU88pZ88q,N81j,E1,M7d8,A1,N1,Y1,CE8egN8ep,!E8dkI1SY,H1,P1,A1,R1,G1,O1,H1,T1,I1,!T6cd,A1,M1,E1,B8dhR7w0,I8efO1,H1L6jzR53x,!O44oP4gs,!CoDkG768L9M4guN5P2S1U8ez,AtE8d4IrO1Y8ep,X3gz,!A8ayI8b3L85yS,C1,L4a7,O1,I1,E8doI3ugY,G1,O1,E8drR4fc,T1,E1,R2zi,E1,H1,BaG45eL7M4N8fmT1,AgIeO1,MiN1,D8d3S8ex,I1,M77d,E1,H1,T1,O5aa,L6N2R1,R7xd,E1,L7k5,E1,H7nmR7xb,B4L7rrM2P1T7xu,A7O1,S1,E29I22OhY1,I7go,N1,O1,H1,S4fk,!A1B66pS,A5mz,W1,!DH3smR8geS25h,E1I8ce,!A3E8gkH4rjI4r4L1SW4Y,K1,H8giR8gi,A1E8eu,D1,!E6xyI3nhSY,A8gmF1,U3xe,L1,!A1G3x0S,A720E8f1,A8f2K1,E8gwI3sqY,!M1P8guS81k,!E8gyI3dhSY,K1T3ev,O6rt,A5inE88sN81k,E83vI71cY,N724,A1E8ah,D7ze,R1,A1O6z2,!E8foG8I7L6M4W1Y3nl,H1,Q5q1,S1,E1,R1,E1,U1,G1N8hf,!E8hhI1S,C9L2i3N2lgR1,E8hfY8hf,E1,P1ip,E8fgI507N2Z1,B18C12DzFxGuKsMqNoR5T1,C6bh,I1,M1U8hg,E8hnO1,!O5r2S,N1,I1,S1T80v,P1,Y1,R1,S7zjT1U8hp,E8hwI31sO1,LaM1,AguEd7I9bL7eO46R1tT1pUfY1,L8hzR6brU7zs,O1,E8hvI8hd,C1X8haZ7sz,I1,R1,D4t3L47oT1,!N1c9S,O1,L8gcR1,!A8gpS,D1,I1,L1,!S8cn,I1O8ie,E1,B1,S1,AdEaH6I1O43g,!E75bI4u0S,R1,E8b5,T1,A1,A4U1,N1jq,!R8hdT71y,A1C8huU8fz,A3I1,L696,A1,T42yX,B2E1I4px,N8i0S8d7,A8iyI1,N1,!E8hkI8j2O1,H1T4ua,R2ht,E1,T8a5,S1,E25s,C8ewZ8di,!E8hjI6vrSY,H1,P1,A1,R1,G1,H8I7O1,!G3klST1,A1,A8jhU8gp,I1Y,R1,A1E87bI8hh,!AgM5O6bvR1S,!T8i2,A1U8gv,L1,U1,R724,A1,I8aoO8hpY8jb,B2M1,A1,T573,S1,I1O8jx,T1,N1,E1,!C1F7j4S,A81qE1,U1,C13D11EjGfNaQ1,P194,N8k6P1,X8j3,E1,!E8kdI8kbST1,R1,E1O78b,H1O6m7,!D7kw,!DR8keST8ke,E1I8kh,!A8jtE8kkI4v4O8afR8ikSY,T1,!I1vdL8j5N8fuS,A8ixE8ihI81xO7rj,R2T1,A1,T8j8,N1,E1,L8cm,I2U1,B1,M1,E8guI8ip,R5m3S1,E6fI1,C8jzT8k7,N1,E1,R1,E8boO88s,E54gU1,E3L1U47p,A88i,U7rt,C1,N84e,O2U1,I8fr,V1,A1,O84i,S7ie,S1,B8fpP8gl,I1,I3R1,!I8gvL8k4,T1,C1,E1,L6buT8fw,A1,I1,C83rT1,N1,L84x,A2E1,CcP8T1,L14,N8e0,L5m4,A3E2O1,A15C12FvJuLqNnPmS5V1,I1hL1dM1S7wz,A1mI2toL1kU1,!P79j,ET6ut,C6uzS1U8lw,A84uH4upI3O1U8lx,C5E8m4Q5mlR1S5gg,P75v,L1,U11,A6lk,L1,I8m3O7qgY,!A25uS,N1,R1,!E1R298SU8ll,!A9C75iL8P6S5T1,I8j7O7tg,B8kwD8lzT1,!A8kwDR8miS,R73j,A8f4E1R84x,!E8hyL8l8R8kpS87c,N1,E1,E8l8F84jN8mrZ1,L8mpT84s,L7x3,!U1,!E8msI8kpS,C2N1,A3uuO8md,L1,L1,!E1S,N1U8ms,L6qoS7y0,AbE8arI7O2U1,E6xe,I7wd,C4hy,A8hgI72c,!F3S2W1,ApEoHmIiO285R6T5Y1,N7ld,I8jz,T1,A1E8jbI8nc,A4S7y8T8lfZ1,!I1L8lz,C4lqE8ndL1S8hn,E8maI1V8li,A7arB5fC4xD8ajG4rL4nM4jN3bO39P33R1bS10T9V1,B3lg,H8bcK8ey,S80g,N2wh,E1R787,L7x5,L1,Y1,H1,CftD849G5P1,!D5foE8nqI8O1S,I8dg,D1,U1,A7st,Y1,O1,A4V1,M4rlR1,A6xoE375,E8mxI3zyY,!E8myI8o3O8e0S,R1U7u9,!D3m4E8n0I8o5S,!H2hb,!A3iB6M5O3P2S1W6eu,N7xw,I1,T1,S1,E1,!E8ofI8odO7r6S,R1U7uj,!E8naI8ofO1S,I2p4,!D5G2K5bpN1S4vy,O3nj,A3d3,L1,!C1S,DR1,E1I8on,!R7ig,!B7P2ST1,!R8ooSU8mz,E1,U1,N8kuT8or,!I8hyST5xj,T1,E1,E8opF84dN1O5b4T8mz,E5I1K8hcO8maY,!E8nuI8ozST,S8fsZ8j9,!A4ubI1OS,A7vp,A8nfC1E8j5,I1Y8a8,!M8p3T8p3,C5E8gzF2L8nrN4u8S1,!E8j9I1L7lsM8k3R406Y,H462P9S1T6lq,!E8o4I8l6SY,R1,E1,H5u3T1,E8pbI6ig,B1,O1,H1,P1,A8j7O1U8mo,R1,A8ovE8piT1,C8ihD4g5G7knS1,D8ip,R1,O1,H1L8oqU88u,R6e6,!C2E1,A88hElvI1U8pk,M7fr,A1,!E8oqH1I8pvL3qrS,A2lr,DY,!B2E1I2pmL7uzM7qpP8n3SW3v5,B2hC2gD27G46pI1zM1sN1iP1aQ17R11SrTnUeV7W4X8lbY1,D7z9,N1,A1,!A7z7E7boH1I8q3L7aeN8ldS21mU8au,B8ohN8m5,A8ha,E1,!T1n5,!A4E7btH2I2mqL8otN8liS1W5i4,A2j7E8m8I8q9,N7R2T8q9V1,M4he,A1,G1,O1,T1,D6jmS1,A1uyE7xt,C47b,Dvo,Y1,E8ohI8qlS1T,S1nj,I8qeY4ty,!AwxS,C1D8qnH7bgS8or,!D6h1E8qsI49hL43uS8bf,E5G4I2K1,!E8ilI81uL8pdN8m2,I8lqR1,E1I8pz,AlE46jF2j3IfMeNdO7v2PaR4V1W8qu,H88xK8ib,G8pyL,!A1E88pL8dsS,T1,N1,N29t,A1,!H1I5jfSY,F1T8r2,E83zI8ml,T1,A8qiE8r5I8mnO568,!E8pqI8r8L8e2,C3T2X1,A1B6dpE8r8,!E8ldI8n8,H1,!E8q8I3y7S6y9Y,G6rw,O1,L1,O1,H1,T1,A1,P1,!A8l0I8orO1S,C1,!E2tlI8roS,U7y2,A8l4CeE8roGdI3K2O8epQ1T6qv,!I8owS,C1,I1,R1,T1,E1,M1,!H3p9,!B3z3P480S1T,!DSY,E8juN8s2S5i2,E2I1Y,U1,L7t2,L1,C5eq,E5ep,CD1S8re,A8rkE3I1,R1,E6I8fyO1,E48bI8re,C1hE1dF19M13NnOgPeQaT2V1,!E8sgI8seR43dS,C6spK1,A7leE8se,I7fhO8sb,!E8rdI8siL7xjSW1,H3K1,E8kdS2pl,I1Y,P5eo,P1,O1,A8nmO551,!D5H2P1S,B5xi,I1,E8roI3znY,!G1S,A8s6E8o6,E7z1R1,OxsT1,S1,H3jx,P1,BI1P8t0,C7sdD8ewN8dnS8na,!A8mhE8p2I1K8t2SU8s8,!O3r4,S82d,I1,T1ts,U1,O1,!O75f,!T1,!E8teF54eI8tcS,!A8rpD9F7L8ryM4N8onO5caR8tbS2T1,D7u6,I1,R1,A8rtE4I8e1T1U54p,R8ar,O1,I8rfR8ou,!H2L1qzP1,!DS1,E8rwN8e8,!B8mbE2I1S,E8trI8tpY,!H2ST1U54y,E437U2cm,S8jqT8tq,A6veE1,!C4on,!B4E8txI45rL2S1Y,D1G870R8tvT8lb,F8tvV8to,A1,E1,!L1S,!NR1S,E1,!E3utIo3S,D8h6N1,A6vv,A1rB6oC1nD1gF1eG1cI18M15N13O8t0P7fvQ5ulSpTgUaV4W2X1Y5heZ8t7,E8m0N4z9S8tt,A8skE8t3I1Y,E5y6O41l,N8qoU8ll,A1O7bq,O8ob,O1,!A8sqB6F5H3M7ixR1S,!DI8ufL8h9S,!E8uiI2u4SY,B8hjP1S6kt,!E8tdI41cSY,GK1,E5cg,Tbg,!E8t4I8umY,H1,C1Tbj,BbC4adEaI8upM8N6P5S4T1,A8i6IU8ui,E1,P1S8ht,A4uE3yI2gOnU4Y1,I8rv,E8utI8q7,T1,A1,V1,R1,!A8tcE8p2I8v0M7jjW523,E2H1T83y,A8q7E8v4,T1,P1,O8teR816,T1,U1,T37k,S1,I1,N1R8pkT4ci,I1,A9J6M1,V7ww,!B8lyN8u9S8ugT8nc,A1U8po,L1,E81xU1,I8teO5ew,!DN8i6S,E1I8vl,C1,DR8vlS1,E7h8S7hj,I1,E8njF8djN8vrT68u,!A7phH7j8,!A8vqB9E5F3H56tI2L8imP7rtS1Y427,H3v3,E453,C2N1,E3k4,P1T7r9,!E4ojI8vyS,!L8ukN1RS8v2,E1,C2xuS1,I3uzU3v1,!M7kmS53k,D1,R1,A1,U1,A7p6I7j8,!A8vkE8v4G2I8gtL2meSW1,S8T1,R8rl,D8w9,N1,U1,!M1N8h0S,A7q6O6mr,N8paS8lv,A8sdE1,!D8E81bI4L8jdR3ST1,Rzg,O1,H1,T1,A8q2N8wp,!A8w0E8qrI1,C1pD1dE1cG18LyM5omNvPtRpSgT7U3X1,CN8vsT8vs,!I1O8kiS,A5pxT1,L1,O16w,!T1,!DR8wvS1,E1I8wy,!E8v8I5pbL1SY,R8vs,E1,G1,I1,L1,L1,E8x8I440Y,!B1S,B1,E1,!AgBbE5I8wcL8wbN5g7R8wcSW1,!E8x9I7vgS,N1,T5ji,L8em,Y1,X1,O1,B1C6cz,A6cx,!I8P7R2ST1,Y2zu,M1,O1,D1,I1S8tg,AO1U8uw,!I1S,!CD1,I8u7U8xl,E86b,G1X8x1,A8x7I4O3U8xoY1,!E8xzI8xxM7mgP1smSW7ft,R1,P8t5,I2M1,!E7zjS,N1,E1pn,A4I2L1,Nfi,R7pq,O1,I8wmY,M1,A1,I8xrO8suR79r,D8gdL5M2P28dT1,I32iO767,A1r1,H1R7rz,!E26eI8ygS,E1vn,DR2Y1,T3ww,H1,G1,I1,!B4c2DSah,K8x2N8yp,E2I1O6h3,HM8yo,S1,!F7doI1S,Y1,E1,O7ko,O5os,I8yoU8xrY,C4nrR8ry,!C3F774H2P4ceU1,!AoBnClEiFeH5hI2j3LbN6P7v1R5S1T2unU8jrY,L7tt,O1,O2iy,A8xyP1,R7cd,I1,P1,S1U8y2,S3y4,N1,!A3m8B9M7N3OlaST8u8U1Y7jw,E8x8I8zcO8xl,T1,A1,E1,V8rb,I1U5ap,T1,A7csR4wo,L2R1,A21C1pH1hI1gKlOaR6U1,!B8xzS,E8yiI8znL8qb,O6rgT7iw,N615,E1,A8zpN2v9,E4vu,D1,N1,E1,!I5m6S,G5m4,!I1,N8ln,I1,M1,R1,E1,Oo5,L1,E1,!BjC905DFhIgL8n1N905PcRbS9T4V1X,!L1lcS,L1,E902I1O5uz,A2beC8lzE8ud,I1Y8lg,!E90fI8y7O8ymS,T1,C1,E1,V3jk,O1,C1,CaF8N90lR4S1,I61z,M1N90k,E1kuI90n,V1,I1O6e6,L7qu,L1,A1,!W1,!A18D17EnF6shG8nwIaLsgO8P7u1R5S1,T8am,A1,C1,!I1b9SU1,E80iI8u5,F1,N8dp,A1,C1,!T905,A1O8uk,R1,E1,T1,N1,A8s4,AE919,T1,!A1E91bI8s7S,M1,AcE6I5O1,D7gc,O1,O3en,L1T91i,B3P1,C8qzM40v,Y8hq,B8daC1,E91mIU91g,R1,A89cE91o,M1,Y1,A8D5d0O6U4Z1,L8waT8w3,A1,U1,B90aN91yO8zsV8bl,E8xxI1,C1E8rc,N7fb,R6ey,A2E1,T60s,U1V8wd,L1,A8wlO1,U7fg,C1R8rm,DN8ov,!E1I92aS,T1,S1,D92cS54l,N1,E1,E8I4T1,D1jF1hL12MxNoQlRiS8e4TfVbX1,O6re,C7fsV1,T5dr,A1,!C3z9H7k0M2x1P7asS,!D7n8E92pI92nS,E2R1,!E1I2a8L8wyR7w3S,N7eb,A1,N1,N6a0,AbE9F5I2O4jwTU1,I8y7O914,T1,A1,R1,C911E1T91j,N1,B91eT8kc,A1O930,T1,E8zxI8yg,C933T1,O8zwV89a,I1,B8wsN8pu,A1E8z8I939,S8xjT3Z1,N88h,E917I1,EI,T1,N1,E1I91s,C1,M6S1V7zj,AeI9O1,A7npH17w,!ElG7pbIiN2O91gSW1,N92gT8ys,!A1E93pI93nS,T1,I1,B1,R395,!DN85eR93qS,E1I93t,N7vm,O1V8wv,I1,A8wqI6R4S1,DS8vl,!E1I93zS,!H936T1,!B8u7G93zL4xjM5ypR92vS1,AcE5O1U932,R941S934,!DSU1,E1I945U5fd,!E948F1I946S,!E923I947S,N1,!A2fcE934I949S,!A8xoL92v,C93cT1,!DN1S,E1I94d,D1,I1,R3ry,E1,E5fq,A90jE90iI94j,R1,!U1,G7hu,I1O92w,T1,N1f0S1,E1,!A2xpCcE93mFaH9I94rM8znS6TaV1,E949I949,R1,T1,A8y9I91kU940,FqGoLnN5R94uS2T1,O5r3,!DH8kgS,E1I94z,T755,I1,!N4ykST1,N180,I944U8zc,C1,I1,A4H1,O95a,O1,L1,O4ky,R3wl,A1,E1,!B5C4E8x8H1I8ghL940N90pS,A7b6,A76vI8ylO8t7,R1,E1I8na,T1,Z8zc,I1,H1,P4R1,E94qO93y,!E7t7L42vS1,!A13xDMbO3S1U94wW4rf,!I7vnK94dR7dxS,!E4txS,H7zc,E7xfT8nh,C4E95oF6wjN3P2S1T1qg,N95yO8alV90y,E93uI1O947,T1,A1,R1,O1,!A8ncO8ttS,!DN1S,E1I5os,B8wpN967,E943I1,S1,!B958D967E4apI969L8t3S,!I4gfL94vS,L1,A1,!DR1S,E1I948O94n,BdGaP7R6T1,U8kj,G1,B8o9N68s,S5x9T94lZ8he,E93dI1,B8ocN96mO94gV1,R8ra,!A5E8xuI2O1S,T1,!L6wwN96nT8ct,A1U90y,E7rzI1,L1bv,O1,B1,Y8fj,H1,C1,AhCaE94tG7M4N1T96x,G3rx,N1,A1,!H1,!DR88dS1,E4v8S96a,D8xtE2G7ycM94wN1S8gw,E952I5b2,T1,A1,D8vw,!I79gL95vS,!L1,A1E974S966U91k,I1Y,U1,C7D92lG4fcI6P97dQ1T7cv,A915U91o,I1,D8y6S5k2V1,B3tv,B1,O1,!I97mR6suW1,A18EpIiO8U5Y1,IOysU97g,A8xwY6o,H91y,T1,I1,R1,!A1N8pvS,!L95tS,!IiwL96hN936S,L1,A933E95uI97yT97w,A6l2E93yI97z,!A3C97yE97sS2Z1,!E6I1N4ihSU97tY,N89c,O1,H1,I93hU90n,B91qD7vgN970T1,N8ro,I1,L1R8hi,C64xD988R988,S7ss,A1U7mg,F8rfM4ejN8syS7gzZ8j8,!A8B5E4F2I1L7umM7wxP16vS,A91tE7zzIU97k,A97rU92o,O80rR1,S3T1,BvCuGpNiPfR5S1T5v4U3rn,A8lzE4lz,T1,R1,I2d4O1,!F7gt,!E96yI39dS1,D98oN974,I1,R1,CN97uT97uU931,A5taI1,!L7hbS,L1,LR,A943S7nx,!A2E991I1S,B6E4N1,B9G93kM1R982,!A40C3vD3nE3bI36L1fOjPfSTdU1YZ984,E7ubI993,G8bh,A1,CK994,L92y,E996I2O7w8U1,!D97nEK6LN4ST1,!A983E985I8y8ST7v0,T1,A92qC994,I1Y,R1,I5fpO1,B97tT1,A1E95gG99fI99h,N1,B54nN99kO97eV97x,!E99mI1O97tS,T1,S1,!AcE95mI5L8eoO99lSU1,N98oS,A97kC95cE1,!N99hSW97l,I2O1Y,I2em,!T1,!A94kH63wI90oS,A95v,P1,P1,!B7ggD7L70aM6vtR99wS5T4U1,E91sT99x,!A1anE98vI95xL8wuS,T1,R1,I4O1R4kqY,!A5feS,!L94eS,G1,A93wE99z,I1Y,C5N3T1X,DE8gfR1d0,!A92nE1I968M993O97nS,D1,!N1ST8aj,E98aI95eO98n,T1,A1,R1,O1,B943T8h7,!A1E99fI9akS,B87iT3ij,A1,R1,A3pxU1,R98rTbd,!A1E9asI9aqS,C8d4D7S3T1,S5qxT98uZ8ln,!I1L99eS,L1,A1N9aw,E98sI1,C1,MgN7R1,A8hmG49oU92v,E98wI8y5,T1,A1,R1,LT9b2,A1E9ax,!I1SY,R1,DR8vw,!A4y7E1I9b9S,N1,O1,A5I1U6do,EaS1,!M7zxSW7ta,DE1,A8vjE1I9bg,!M9a9ST1,E9bgNjS5T1X8h1,F8tcO91gT99l,E9biI1O9ai,I97eT99n,G9anL1,E44i,C1,A1,L1,B9a4C8o3,EI1,S1,N1,!E1,!ST8p0,L1,A1,E1,!AeE2foL9alN97aPaS5W1,DhN1T977V96a,S961T9a4Z96b,!I1L9ao,L1R98i,!DE9c3S,N9c7O98wV956,E2I1O8j5,B8yvN9b2T1,A1,R80z,A1I9c2Y,C3N9cdO9a7Q6crS632T1Z8n7,A9E9a9I1,N9cfO9a9V92r,E9abI1O9ao,B9atT1,A1E98gI9ch,N5T1,A26E1lI11OiU1Y,O6pj,N1S9azU9cd,B9azN9cnO9ah,!E7y8I1L9b8N97xO9awS,T1,B8zcT9b3,!A1E9csI9cqS8xfW7wu,N1,E9baO1,I1Y8xx,E954I95y,S9bpV1,I1O9b5,B8zkT1,N9czS98a,!I1yz,L1T986,!A1E9d3I9d1S,T1,N1,E1,!E9d7I9d5M1S,A9E995I8T1,T511,!A1L902S,N1,N9dbO1,!A9bnE9btI1,S1,E468Y,I93yL1,B1,O7sf,I1,I3R1,CvD9chNqRdS7T1,A8xuE9dmI99h,!L1S,AO93jU97u,!I1S,E9bkI8xoO8km,B948T1,A1,D4S1,!DN8feS,I7p6O9c2,N9dvT1,E3I1,DE8k1LbN5R985T1,L991N9dy,N8fk,E1,!A9ctE9cvI99xST9dy,N1S931,C3I1,E9dvL9coN99dT9c5,I1Y,LR1T99b,N9e7Z918,!A2E9e9I1S,T1,N1,E1,N9ecO9c6S9d5V9cp,E2suI1,!A9doE9efS,N1,F7tbN9egO1T9ch,!A99lE3dqI1L9d1N99q,A9dkC93vM7T5X1,E2boI9cc,C9clT1,!I9ebO92aY,T1,A3E9ekI1,!A8k1E9epI9enS,T1,N1,E1,AtC5E98tM1N95q,AqEbI1O4ahY8zw,T25g,!N1,E1Y,!D97xR9euS,E8auI3l2O9d6,N9ezT1,!E3I1T9eyU9dx,D71f,N1,!N7R7unS3T9e3U1,O8bz,D1,!E9f7I5lhS,B91tO9d1V986,I1,D3S1,N1,E1,B95uN9fcO9c1V8lf,!E402I1O9dl,S1,H4S1,I2r5,M1,AdE3I63eO1,E8w,L1,L1,O1,!E9foI9fmR1S,O9diV8pb,I1O8l2,S1,C95h,Gcu,S7tuZ7hq,E9frI98o,B1,O1,H1,!D768E8x6I5L4gtN4fxP1S,!DR1S,A8ppE1I9fz,LbNaR9T1,!A2iE25I24L19OzRkSTfU1,!L7r3R9e4S90r,E1,D1,A1,M90x,Y1,A6zB6lE6aF65I5zM3pO3nP7R3S1T9f9,I8n1U9g1,T1,A7i4,V1,A1,N989,E1,E9ecI6fk,N4T2V1,!A9euE9fdI9cfM9faS,L1,E7urI9gk,!E97sI9glS,A8hyE9clI9gm,T2V1,N9fiT98l,A1,R1,B1,E1,E871I8y5O9f2,T1,A1I6nv,!E8n1R1S,T1,S67oT9f0Z9c2,!I1L9fk,L1,A1S9g7,!A6i9I5ncSU1,T1,A9h2GO9h2,!N1Z9be,I6p8,A6p9E1,!E98fG10aI3M1O9h6S,N91qT1,I9g8LR9fv,!A1E9fkS,N1,O1V8nh,I1,S1,AxDwItLoNjPdR7S1,Ia8L7a0,!A30zE9haI9gjO1SY,R8uy,R9g4T8oh,A1,I1,E96zI9cz,E5L2N6jcS1,O9cdV9ap,I1O9cg,D98fS1,A8cyU1,!E9goI8z5S,T1,Ttz,I1,N9e4T9hv,!A1S,D1,C6M4R1Uoi,N9i2O9cpS9c0Z8sw,E88sI1,S3suT1,E1,N2y1,I1,E7wdI9gj,C1,S1,I1,DN9f3,E1I9ic,!R1S,!E9gwI8zq,S1,BaP6R3S1,A20E11HzItLpOhRdU1,B9gvT8p6,!A1E9heI9ijO9gsS,N1,E9ijI9fa,B9gzT1,A1E9emI5oz,S1,DN9eq,!E1I9enS,D1S9dx,N1,E1,C1,MbN7S1,N9hg,B9haL9dd,!A1E9htI9iyS,N1,O1,I1,G6M8pkT1,!DN9f4R9j1S,A6heE1I9j4,!I2frS,A93gE9f5I9j6,Rfu,E1,I1,T1,!E9j3L7M6N5R9gnST1,N9jdV94o,B99wM7l0N9jeO9h8V99q,M7l1R2a1,!A9ffE9jhI2O1R9epS,E9ffI4T1,C8u2,I1,L1,C4I9ieP1,I9jnM8sa,A92tE9jkO1,L1,EtImOdU4Y1,T5w2,A1,!DF4d2L9g3N73yP1SY9jp,!B85iSU77v,B1,!A969E8l3S,N1,N9jxO1,!E9jzI1S,T1,C9i1LT91a,A1,R1,E1,C1wiT9jc,E9k2N1,DN9g6R9k3,A949E1I9k6,!E3M9izR1SV5v3,Ntk,N9kaO1,!A9imE450I1O9ij,S1,T7me,CfDbR6S2T1,N118,!I5poL9j0,C9jhT1,!DN1R9kfS,N971,A5E2I1,O8udV9iy,I1,T1,A1E9ijI9kn,R1,U1,I9hfO9fg,B9baN9h5T1,!A1E9bzI9ksS,M1,B9j7T6za,A1,C1,!E845SU9jv,DfG9N8nbR5S2T1,N9k2T9g5,A1,R1,G1T9cz,!E9l5F87wI988SU9kd,T1,C1,E7reX9kc,A5I2U1,B9esLN9h9Txy,N9laS9f8T9jb,!A2E9k5I1S,M1,!E8qzI9h9S,D1,N1,C8xrR4U1,R6n4,E1,T1,L9lhT79s,!A1E9kfI9lkS,T1,N1,A5E9klO1,E2iuI2it,A8osE9hoI9lp,S2T1,A1yE1eItLkOcR4U1,!I9cmO99iS,R1,A5r4T8y6,E2I1,!I9lnS,!T8vc,!A5obE67iL97mN3R2S1,A9dvE9jvI9lz,!DSU9k9,CN9m2O9jwV9kf,E2I1O9kb,T1,A1,R1,E1,B8M1,I5u,T1,O3U1,!E9m3SU9m9,SU7af,T1,!I9gc,L1,!A1S,N1,N9mjO1,E9kfI1O9ks,N9leT1,A1,N9mnO65w,!E9l5I1M8b6P7hfW84j,S1,G4S1,E8sI9ijO9cn,AeE2U1,A9mrEuI95gLiOhR1,!LN,P24z,A2O1U9k1,I1,!E9mvGS,!C7jsD2E9mqF659I9lyN1O9ioU9h6,A9gdE9iyI9mz,R1,U1,T1,C1,!E9n6I9n4ST9lo,N1,I1,E8dxI3tc,L7dfN9m2T1,A1,A7nlE9k3I69p,O8x4V1,!I1SU9ma,T1,C1,A9ikE9jeI9nfO9lo,G7N2R1,EeObU1,!E9mdI9niSY,R5ss,E9m4U1,T1,B9lzN9nnO9kcV8wz,!A9lzE8kgI1O9lwS,T1,C1DR9nnX9iv,A9jqE8woI9nq,N9nsP9iwV1,Uh6,E1,S1,S1,Tkp,A1E9ltI9nx,I3T1,A7q3,I1,B1,!AhEdIbO4SU1,N590,I1,D90vI8wdM1,R1yiS9n0,O9li,D1,A1,T1,A9m6S1,E6I1,U1,!O8r7,E1I9k8,N1,I1,U1,G1,N1,E8gd,C1T9eh,N1,A9n0,!E9ohL9naN9jz,S1,N3U1,E5O1,B9j2P9gx,I1,I3R1,T808,R8vsU1,A9icS9o4,U1,E7ve,N1,!A1E9nxI9kzS,S4T1,!I5wpL9npS,C9o6T1,N1,E1,U1,O9amS9jhV9hiZ9ji,!I68qS99zY,I9o9R1,I3O1,N6pvT1,A1E9ldI9pe,V1,CjNdQ8R1,L5km,E9ijI9ku,B2T1,!A1E9pmI9pkS,R1,E1,!A99xE6b0I9pnM9ofO9nwS,L6fN1,I695Y,R1,!E8rcI9prO1S,T1,D7G5S1,Iim,D9nmN9lt,!A8wjE9lvI1S,!A9p8L9oiS,C9msT1,N1,A1,AN9q2U9k9,!E9q4I1S,T1,CaL8M8ubN4R1,F9dr,I1T8ls,C1,!I92kS,R1,I9mzO1,C9odT1,A1E9o8I9qc,C7wjR1,E7I1,L9pgU27e,!A9obL9p1S,C9ojT1,B3N1T71z,L6ap,L1Ra6,N5rj,S9klT9ooZ91h,!I1L9p8S,L1,!A1L9djS,N1,N9qsO1V8wv,E9ooI1,E8T1,U1,P9iqT1,!E82fI9qwST9qu,N1,I1,T8zw,!DN9q3S,E1I9r1,G1,C4N1,N8qm,E9k6I9l3,B9pjN9r7O2V1,!E9r9I1O9pgS,T1,A9plC1E9p5I9r9,AcI7U1,AtErIgR1,LT9mi,A1,I1,T1,N1,A1,T1,S1,E9riI2cn,D1,U1,T1,RT9qp,N9ccT8ut,!A1E9qlI8ybO9pzS,!A3S9cgT1,!I5udS9ch,!D9qdR1S,E8nrI996O8ys,T1,A1,T8nr,A2wsE5I9ryM2P1,BgEcL8M1,!A3gC35E2kI27O1wP1mTpU1,N9rzU9hz,AO1U9p8,I1,S92zZ92z,!B4z9I1L9ezP5dtS9cu,DR1,!A9qjE1I9s7M9qzS,N1,N9r3T8tf,A1,N1,I1,C9hrGaI5M1,!E9r9I9seO9qnS,E9qbI81uO9qo,T1,A1,E7yp,N1R7xu,A1I8ki,R1,!I8tySU9ii,L6O2T1,NaP1,N9sqOo,!E9jxI1M9riS,D9k6T1,N7z6,I1,M1,B9r8N9rpT9o1,!A1E9rrI9swS,!T1,!I8kwL9rj,L1,A1R9s1,!L9fvSU1,T1,!MfNcR9S6X1,!A9mhL9rpS,C9s6T1,N1,EI8zzO9rg,!L9rsN7zhT1,N9p7T9rb,!SU9j8,A3E9paI2O1U9nj,E6G4mkU1,G7zjN1,N7hu,N9tgO1V9rt,!E9tiI1S,T1,!R1SU8zn,!E9tbI9mnO9ov,S1,N13zS1,A1,P5o3,LR9s9,!A1S,N1,B9kaL9k4N9tsO1V9s5,A9n6R9st,!E9tvI2O9s2SU1,E7T1,N9twO9jp,E9toL9shN9p6,!I1SY,R1,!A9sbE9u1I4O1S,T1,T66l,U3vb,C2G1,N1,I1,T1,C7S1,I1,I4bh,D1,L9u9N1,E76e,T1,A1T9ox,T68f,C1,I5ox,S1,A9nxI9nn,T1,N1,O4T9psU1,A9siE925L9t8N9pxO9idW78n,I1Y,N9uqV90t,!A9t2E9usI1SY,!T1,E9qrI9usT9py,N1,E1,!B19C11DnIkLhOfP9R7S4V1,N9c5,A1,M4rs,E1,D3T1,E9sxI914O91z,T1,U1,B1T5mVql,A949EjxI9v5,!L1M9tyS,L7oj,A1E9v0,I1Y,!E9u5I61mS,S2T1,R1,E1,L8V1,AkEfIbO1,E9v8O8y9,I1Y,C1,L2,A2E1,M1S9ni,A39E2jI29O24R7U1,Dxh,B9hc,N2R1S,!DN81zS,E1I9vr,C1,S1,E1,L1,!E9vyI9fwO9u5S,T1,Ei0N9vz,L8h6,!I5eL9ul,L1,!A1E9j4S,N1,C5N9w5O1,!E9w7I1SU8xz,E9s5I8O9ufT1,!DN9spS,E1I9w8,!A8keS,N1,O1,I1,N2qe,O1,I1,B9utN9syT4Z1,A1E31hI60d,P8uo,Bj5N9wkP8up,!A2E9vfI1O9utS,GdS4T1,!E9weI9sfL9v7,E8hvI9h7,C1,N1,R2e2,!A2E9vmI9wrO1S,CvNmR7X6Y1,E9ssIcb,C1,I624,C9p0N2V1,A19m,L7xw,E9uvI9wzU1,U9owV1,C4K9npL1Y9x0,N9x3O9rqV9q2,A9vwE9uzI1,S1,L1,A1bEeIaO5U1,!AgxCeqDdjEdgFbgGafIa9J9qK9pN95O92Q8uS57T1lU1iV1Y,H9weO8ki,DE6itR9x7Y9x8,DR8ykY9x8,E9x9N9hw,A8r2O9i3,O8sj,!H2T1,!A9vrB56lE5H8etI4L9k9O6gcS1T8njW52mY,A17g,E1,!A9wbD4vhE8j3H1I3pdL9w3N9ssST9amY,B9oi,!C9upH4zzS4xwT4ii,N9xmO9qnV9pu,E9viI1O9vv,G9woT1,!A1E9xqI68aSY,DR1,!E1I9xqST9pv,T6hw,A1,N1,I1,D1,!E9w5I9wxS,!CpEoF9xvI9tuKiLfMeNdP7R2ST1,!M9xwS,A9keE9w8,N1,E1,E11i,N1,C3E9wxT1,E9cpT8hd,C8wyI8eqL8R2S1T7s1Y72a,!E9crT9x6,!C9y3DM9t4N9y6P90yR9y6S1,G36d,E9scH6ypL86gN1O9o7,N5mf,A1O4u1,CZ998,!I1S,R1,E1,M1,Y1,L1,H9yiS9xq,I9b9,!M1,!A3E9ypH9e5I9ynP9fiS1Y,DR1,C9syN9yq,E2I1R9xs,D9xj,E8tsI1,M9rnS1,P90c,E9ytI1,C1,O8ss,N2S1,S3vg,S1,E1,E9v1I9z2T622,C1,U1,O9m6,G8ip,I8fgO9mx,L1,A3I1,Oso,T1,E1,I1,H5R1,E85u,P1,CgDdL7mbMcP3S1,A8emEpIkO1,S5gc,I1,L1,N9znO9xhV9yn,E9xjI1O9ud,!ERST1,A1,F8em,I1,B7L3R1,O9zoY9zr,O1,E9ws,D97l,D5br,L1,O1,A1y6,T5wk,H1,G1,E4I1,!BbC1rvDaE9H6I6isR1W3kh,!A20E1yI1wL1uO1nP1gRoS5dyT9n8UeY1,E9y3I1u7,!R9yaST1,T1,L9i1N9zcT9ut,E2I1,U1,L9zeO94h,L33hR9mt,E1,I9zgO9o7,!B2L1S,T8jj,C6L2N1,!Ea0mI9l4L8maS,I3emL1,Urf,C1Ea0lN9zp,A9yjE3I1Y,G9zqT96t,DL4zfRa0o,!I9wkL9zcN9w1S,L1,R9xr,E1,L1,A4E7psF9fvL1N9lhT9zx,B9zzNa0wV9y2,Rzg,!E928S,N1,I1,A1O93s,!AeEdG3eiI7L51zO6SU5W1,P9ub,I1,E99z,!E1,G793,A9rgE9o4I1,S7hi,P1,S7n9,E1,R1,I7vh,U1,R8xy,A1,Nmq,E1,D1,N2v,O1,!E6I3P1,!CkDiI24qLgM7vfOePbQ9Ra1nS1,!C8f1N5v8,A1Na1sU9yx,E4qc,R1,!C1,!A9faB58zEa0qI66wL96wS1W94kY,Ia1yR989Ua1o,!Ea1eL96yO1S,A8o4R9hg,A8bmI6rw,A8bnO6rxR1,!B88jEa23Ia21M8qkS88xW4tx,!Ca04I9v6ST7ar,A949DL1acO9ptR2T1,Ka1v,A1O4vi,Ea28I8npL1,K43j,S1,U1,Ea06Ha1bIa2aLa1b,C1E9u4F5svLa0wN67d,La27R8o6,A1,!T1,P6k4,O1,E9lcOa2f,!A9w7C2Sa1oT1,!BlCjEgFdHaI8M8fvPa1iR4r2S5U1Y,!Ra0mSTa0y,A1,L1,N66s,A1,!C9ftEG7vpLa2nRa0rST9um,La2oRa2oTa2o,G7vrIa2t,A3E2O1,Da0vL7M5N1T9uo,Ma2sT,EI9u5,Oa0rS2V1,Ea1hI1Oa16,!L9xeT1,A6alI9ys,A2E1,R1S99e,!Ea30M8rl,La24U9m8,!C1,Lp6S1,O5S4U1,!L8oxS,D9xhL1S96c,Na3aO9zzT83eV9ya,!Aa1mE8klI1La1vN9ykOa1jS,T1,Aa1oEa18I5zaOa1l,T1,A1,DN9tx,!E1I9zdS,D1S7gx,N1,O1,P1,CaL7S1,Aa3kOa1v,D94l,N1,E1I9ct,D4Ea3oG1V958,Na2uT9ao,A1Ea2t,R1,O1,Ba28Ea3nNa3w,Ea1sI1Y,B3D1S9w4,B90vNa3zO9x0V9a2,!E8pkI1La2kN9z9Oa28S,T1,G9vwP1,AuEhIcO5U1,Ca41Ga34Ia2c,Ea32Na45,!Ea47I1Ra27S,!L8qvST1,A4E1L8xl,Ga39Xa3e,Ia0nNa3a,O1,R1,E1,T1,H9m0Ia29,P1,O1,R1,Ia0wS5T1,A9xxEa4bO1,O37x,C2Na4jS1,EeI1,D8w7,Na3rT9wl,A1,C1,L9rtN4S1,Ea4qST8rj,E1I2f8,T59x,N1,A1,A9h3,S9b2,!Ea51O1S,B1,E6k0,T1,C1,A1,B1F9k4,E1,E9nv,A1Ea49,H1,A97g,!BfDeMbN5P2Z1,!A4tB4oD49E3nFGa59I3lK3hM3fN2tO2jP26R1aS15TqUlVjY1,P9ur,I1,R1,!Aa49S,C1STa5fYa5f,DRa5hS,!E1Ia5j,!A32hEa4fIa5kS,N1,!Sa3m,E1,E95kG3La49N1,Aa3kZ9zy,!Aa1eI1S,C1,I1O7ya,T1,C8odS9zt,Ca55S4ir,I1,M1,E1,H1,N60x,E9knO1R4h8,A8utEa60I9xc,Sa59T1,I1,L1,O1,C8G6L7pxN6p3P1Sa5d,EfIeO1,S19o,N1,O1,!A902E9vq,!Da6bR8s3S,!ELR1Ta4s,O1fe,!M1S,DR1,S99c,E1I8qvY,!DR97uSY,E1I402,M1,!A9E6I9vlL4M7uoRa63SU1,T9d1,C1,A1,F1,R1,!C1eE1cH1aI15MlPiShT6U1Y9rx,!Ga5mS,N1,Ia5xMe3,!A5ahDN9daR1S,!ISUa6q,N1,R1,U1,Ia2eOa4x,L1,Da6eL1Na75,E5gt,N1,U41x,Ea54Ia78Ta2e,C1,U1,O7s7,D2F12vP1,S1,N1,T5sc,S1,A3U1,E1v9,!EG1Ra7hS,!Ea7mL9ueS,R1,!E8v3,!Ea7pIa7nM4bzS1Ta3hW44sY,N1,A6E4I9urO1,Da2d,Ia7tS5jr,E2O1,L1Pa6u,!AzExHtIqOoQnRdST5Y1,!A9yhEa1xI9sf,H1,Aa66H9zc,!E919Sa71,!Ea7rSa70,S1,B9yuE5e8,Ia6bM1,D5Ea74I3O1T9v5,I9c3O9wg,R1,A1,!L8xM8q5Oa6gSW8q3,L1,I1,Ea8cI9suOa6j,!E6toI9svL1O11pS,L1,E1,N5l0,A1,S9u4,U1,C1T9hx,P4ac,S70g,I1,T1,R1,E1,A6V1,S93o,E1,R1,Ea7mG1,Ea6qIa8uMa7m,U1,G1,U9xo,A1,S1,T3d0,CjDcG8R5S2T1,Da7gL16b,Ea2iIa93,!D1S,D1,A49p,K1,C1Wa96,Aa2dO1,A8I5L1,I2cc,A1,P1,M1,N9z5R9z5,A1E5p3,I9ia,C7ng,A2O1,R8i7,E1,A5kn,L1,M3P1,O5eh,I1,T1,I1,R7aa,I1,P1,Na51,E1,D6S3V1,E7ac,M1,R1,E1,T1,N1Paa2,MhN7U1,C9ex,I1,Eaa0T1,I1Y,A7siEaa8Ia3e,R1,U1,T1,R96o,L2R1,L8l1,C1,A14H12LzOdR9U3Y1,Ra8a,T1,S1,N1,A8c8O1,Y7es,O1,L1,M4P1,E1,!U7ky,F5wi,N94d,O1,I1,P1,Ea6z,D1,I1,P9st,M1,A1,DcFbS7V4X1,T7h3,C1,I5xl,IaaqRa7a,A3E2I6miL94uO1,N7ff,R1,E1,V1,I7i0R7hz,R1,E1,O4U1,H8e6,T1,O1,P1,Y1,N7n4,E1,!Aa6g,N1,O1,I1,T1,E195,A2U1,L1,T7c5,Aa7zI1,E9if,G1,R1,T4U1,G15,I1,L1,E4e0,R1,P1,L4R1,I6ei,E2U1,CoFgGSaT1,I5q,R1,M95yN3OaabR1,!Dacg,N1R5sf,A9n0L8pkMa72N,L7e4,I1,B1V9x0,A5E4I3a2O1Y9pb,N7i8Racm,E1,F1,D5ap,F2R1,NabuRabn,I32p,T1,I1,T1,K5ce,C1,NacyY5ou,T5u8Yacz,A2Eac4O1,Na2hSa7c,I1Sa7dWa06,C7qk,U1,M753,M1,A1,R1,N8wq,A1,G1,S9ew,A2O1,DaG6J974P1T8w3,E9nxO1,N1n0,AqEmIkLhOfR2U1,Sp,E1,U1,L8sj,Ia6hL1,!Aa8uEabyS,M1,R1,O1,Oix,P1,I9zj,L1,A1,!Aa0dS,N1,O1,I1,T1,U1,L1,O1,A7ldFeScT9V1,AjE1,T7b7,N1,E1,I1,D768,A1Oad7,!A6wtEaegIaeeS,N1,G1N52e,Pa1j,I1,E90pIaeaY,I70rT9yy,E875,T1,A1E8z8I8oaO8oa,A4E5ujR1Y9wf,Sa9u,E1,G1,NaetTaeq,L14y,L1,I1,E1,V1,EacuG7I6N9tfR1,!CoHmIjNhPgTbU1,C4sa,N7fj,E1,D1Oadc,R9jt,O1,R1,N4R1,E8n2Ua8c,R1,Eaf8Iaaf,R4c,E1,F1,S1,D5N1,A1E8h1,AhEaH8Oa08R1,L4j,E994O1,A4b8I1,R915,E913O1,!A6mB6dC55D4vE4iF4dG45H40I37M30O2vP24Q21R1gSoT6V3W1,DN79R1Saet,G5hi,AadlEafiN1,E99,EafkF1so,E8nnIa19,I8v0O8xr,!F1srI9qxM94eS2W1,I4Y1,!A9bbD5dwE9I7L6R1SY,C7pS7lT1,!DMaerRafxSTafx,E1Ia0k,N5ee,!EadyIag2L2O1S,!Oa60S,E1,!Eag3OadhS,T1,G3N1,!DRag6SW5lf,E1Ia0t,Aae5I9g5Ya1e,DOa68Rag9S1,!Ha12Ia1s,!E2H8xrI49uL90oR5rcS1Y5vq,A7G6bgIa3gLadjS5T1,O9c1,!A9tvH9j5Laf1RaeiSa15,N1,C3I1,A5k3Ragh,!Ea8dI5n6S,E9dh,EagkI1,R1,E5H4U1,C8tDaf3G8sL8mM8jNrPnRbS7T1Va24,Na3cTabw,A1,I1,L12uR1,L8y0,!Aag6E9lnIagvOaf4S,T1,N1,!A1S,BafcGag0L3c0,E6rsIade,!La1r,!LafnNaccSUag0,!A4EafyIa1nL3S2T1Ua1u,!AafgEafzIad1Oa71S,!DLbN7R2ST1Yah3,AdE1I28t,!Iad8L8s8S,D1,GagaR1,LagrRa3p,NadpRadp,AagcE2I1O91h,DafxRahc,I892L3cx,Ragw,I1,GagiNadv,BahgDahg,R1,A3E1I4i3,GNa4n,Ea9fN1,CahiNa28,F78vVahf,A1,!T1,!EahtI4S1,KagtXagy,N9ea,AagoEagwIagvL97yO2U1,EahtIahvT7zz,EahuT1,I1Oa0mY,!H95fK9zkLa2o,!AqBnC4ooEmFlGjHfIdL8M96iO66rP5R2S1Y,!G8ao,!EL1,!IagpRag4S,B1,M1,O1,Nai7T77w,W74c,!A7C3EagqI2S1,Eai7I6to,T1,Oa6nUai9,!D3ppE8znI613LagxNadmO2P1S,!A9vsEah8IaidS,N1SYaic,E9ibLah0Nadp,!E2I1Ya3kZai7,A1lrB1l7C1iwD1hnE1g0F1fnG1ewH1efI1dlJ1dkK1diL19fM129NlaOkkPibQi5Rd5SboTanU1sV1bWiX9Y5Z1,E9s7I5f3Y,!B1G3vyM5viS3uqW7wj,J8p2,A9cbR4pl,!J8p4S,DR1,!DSW5nv,E1I4nwY,!A6B5D5gpE3Ia3aL1Nai6P8qwS6q7Ua3hY,K1,!Oa3c,!DRairS1,E1Iaiu,L1,!L9lkS940,N1,A1Eacd,!M1P8drW90v,!Eaj2I5uwS1Y,T1,Eaj4I89fY,!G1S6qk,S5ku,I1,Naj4Oah1,!Eaj9I4fO1S,!B3drM5zhO3P1S,I95f,!B1,!DS1,!LahwTaid,B7vf,E1,R1,E1,A8s4,E610,C7vl,A1,C5F4L9gsM3S1T766,AaNajnO1Uadu,EahjIajnY,!Ca0wE90zI43rL1Oa7ePa1aS3d4Y,Gaao,I9jlO1Y,U9wu,E1,B5t8C95uEiI7K5N3R1,EaipI2ccY,T5vp,O1,O1,!H1,!EahvIajzP5S1Ua2y,!Eae2IafxW4n0,!EabuI1f1LaimNafb,EajuH2IajuS1,EaixI9p5,!Eak6Iak4L1S,!DR1S,C961E1Iak6O9b8,Aaj1E42hIa4r,!P9ia,!Eaj4I5r3S1W94dY,!DagnF4ljL1S,!EakdI72yS,N1,F8c0O1,E5m9LaizN6pg,!W97v,EaicI2Y1,AabsB1yC1qD1mF1gG1eKajiM19NoPiSfTbU5hyVaW7Y4Z1,U5hc,!C1E551I5wfP42kSW5pqY,!DLa7eRakiS,E1I5rfY,!EakkGIajmS,N1O9pbV9ub,!H9ndL8vpS,Aak0E1,R1,EainI4Oaj0U1,K4m7M9S7T1,!EakvI4opL96jS,L1,A1,!I1,CajyD9lvT1Zajz,N1,!A9mbEal1IakzOaj8SW4nz,B9hxT1,L8r8,AakdE4I2Oal0U1,E5yqLajoN6q5,!A9yjEajdI1SY,Eal3Hact,DahxKal4Lal5P2S1,AEakzUaff,!I1SY,R1,Eaj6Iaj4O1,I987T1,A1Eala,Ea48Iagp,T1,EalhIagr,T1,A1EajdIalh,!A2EalkIaliL1S,L1,A6,L1,A8E3U1,EallI37n,O3z4,D9yfL2S1,EadjNalrTh1,LaksU875,C1,S1,E1tuI4OajpTU1Y,IO91r,D1Tacp,N1,E1I6o7,!E473,Naf1,E1,L1,L1,A1,!AalgEam7F1Ia6pLa8zS,C8OalnS7T1Y729,!IadhOa9xS,Cam6N1,I1O2r4,La41S5a2,A1I2q4,DL3uh,NTale,A1Eaft,!E3IamfLa99M1N9g4S,A1oC8hyD1eE1aM14NuOrPmSaT7V5W1,A9zwEalcIa71L9vq,Fa1h,I1Oaa9,!B3R1SW6tn,T9qp,DTae1Y,!E1IamnS,E3K1O9qs,Eala,S500TaksZ9xl,!I1LalcS,L1Taep,L86jUaml,A2O1,N1,!EalrI5tqLah5SY,E9epI2Ma9zP1S3cs,EaixIamyLalz,I2x0,IajeL1,G3IahyK46kO1Uah9,L2qt,Ean1P1,CS,Ra2n,DNan5Ran4Sam9,!Aa5wB2E1I5z3LalsNaihSY,R64l,AagyC1Uakf,!ETalo,A1,!Ean4I8P5S3T1,AOal8Uahl,I1,R1,L6v3Saah,S8e2Z2vq,!A2I1S,C1Q5vg,EaltUalt,E6I2T1,B12CyEahoKxMpNlO6z1PjSaT1,K2fm,E6a1,O882,!D1Nam4,DRaltT995,!E1IansS,EanrIaky,L1,I1,D1Iait,!E5emH9I7K5O1SUan2,S9ub,S1,Ea13,L1,Eao0IantY86b,A3v4,D9rmRam6,!B2E1Iao5N9huS,K1Nafl,A8psEab2,Ean3I5qt,!L2P1S,!EaocIaoaSTanb,T1,G37oS,E2I1,U1,BaeyRain,EaoiIa90,D1,N1R5c0,MaohRabl,A1,NaocW662,DaokE5cc,E1,A6E4I9auO3R1,Rans,U1,!ST7gn,R1rsT1,O3U1,!DRaosSajp,Ian4T64s,A1Eal9,S9wj,I1,U1,G1,N1,EanwI1Y,Gam7,Y1,R1,E1,T1,P1Vaca,A3s1I9ih,F9a6,OaloU1,Wair,Eap4,A5q3IaofO2R1,LapaYapd,NaluSanu,A2I1O9if,!A13BuCpEoF6cgHmIaa2LgNaksOaP9R7T4W1,IaclS1,DST4oz,!E1,H1,C1Oani,E3tcLao9,!EapnI1OadfSY,EaoaTab5,C9bsP2S1Tal3,A1lcE5z8,!E9ziI5seSY,Ebd,E1,!E70zIapwLacqS,E37l,!T1,!B7D6EaouF56xIapzK4N3S1,E9b8Iad2,A2eC24F66I22J5q1M20N1zO1vP1sQ1nRap2SiTeUaW2Z1,LaomNaq0Taog,!EapvIalf,EaomX1,E78hI1O8gtYab9,A4Ba7xF1,EapzI1Kaq5,Eaq0IapzY,T1,!D1t4Eah5I1S,!Eai4L6c9NallTaod,L1Taqa,!DR5yvS,E1Iaay,S1,Ladi,EaodI4c2Y,!EapdI5xcL1SUakqY,E646Nalt,I1Y,!E5v1IaqlL4a5S,B4H90wM2P1,!AaozEakpI62jY,H1,C1Oaek,EampIaqqOao2,D1,!Aap4EakuIampP4jy,A8s7Oaej,E1,C1L,!A1EaqyI62sLadqO9dwSY,!A6E95mH5IammT1,D99z,I6i0,A2E1,CuDrEpImLlMfNcOapaPckR9w7S4T66yXaq7Z1,Bap4,A1,O4zo,I1,Ca45Eaqy,!I1SY,N1,E1,I974,Va26,R1,E1,S1,Aaq8I84w,T1,C1,E1,BaqkT1,E6O1,HbR1,OaphRapo,E1Iaqa,G1,R1,C93gT8nfU1,H2c5Ran3,BnGjLa3fNafeP7S2T1,S364T9ey,Y1,L1,A1,LN1R1k5,Aar9IOanoUarq,C1,C1,L9bp,L1,A1,T1,S1,Y1,O7R1,M16g,Mas7P28y,A1,A3Ea6xR1,E996,Yaml,DajnSamm,I1,H1,C1,O6tb,!CcG8L6neM7N6R2SZ1,!AnIao0O1S,T1,NaizSamvTarnZ19g,EaqwI954Y,H1,P1,A1,R1,G1Ia10,I7O1,!I9ksL1S,L1,A1,T1,!B1vIaovO16PdS1,A8iE6jI5dO2yU1yWa5nY1,D8mq,AaqwEasz,R1,O1,H1,Iat7P1,I6O1,N1,E1,D7zs,GasbTa3s,Eat3Sasx,!H74d,I2Y1,!BatcDRatcS,!AamtIap8L6okSU21b,C1Fa8fNathSak8Taq7,!A7B4E3I1O8t1S,!EatkIatiRarkS,D1,!EatmF5mvIatkP64lS,L2O1,O1,B9po,L5b4M8fjR1,K3U1,E3zuI60kY,IassL1Y,L3y2,E1,!B8fyD3G1SW9ha,!Tasx,!DIatwS1,F8zw,!EasgI4nf,S1,S1,A1,Hat8Iat2Sat3,T5ss,Fau2Nau5R3S2T1,Tau3X,Dau4Nat7,EatzI1,Aas3Last,I1Y,R1,A1,C5N1,DN6nvRaubTaub,EaswNaufOas9Satk,!A9ekE2I1SYafj,ApsG,N1,!EaukI1S,!Bah6E,A1R9ql,HanmMaujTauj,Bal5RaukT97i,A1,!CGaczS3V1,Lat9T64i,A1EasmIauq,R1Satx,!C9gnI4L9ztRa5dSU1,!IasoSTaur,R1,E1,C9grErIkLhMeO6pzPcT4V1,!O6h2,!B5xeEattIauyS1,R1,E1Rakw,!B5xhS,R1,E1Iasy,U92y,H5sa,Eat2Iaez,T1,!Faa7,B8w7,M1,I1,N1Uav4,A6I5O1Uav5,L1,!A9voBfIataMcQbSaU1,A9yj,T1,EaedIamc,LT1,F8m7,A2I1,C9r7G9r8,N1,I1,Ga3p,L2N1,Eau0I1,CbD9ncE7I8N1Tavq,E3c5O6b6,AaqzEaupIavu,!EauqIavvL1S,L1,D922,Aavx,L1,AavyEauvI517Y,CF90iTav2,Kavi,C1,I1,N1Uavx,EajvI5O1Uaqe,!ERTaul,A1Eaw6,L1,!BhC5sxEeF77cIdLa1bObPaR4S76sU1,AaquIaw2OavdY,!NavdSZa77,AawbEawbI1,NawfVarf,EaubI1O935,Baj3C5Ga9kR3S3jrT1,!IahxTavg,!AauuEavdIah2S1,L6a3Mavl,HavqU1,!EawnI63fLan9SY,Aaa1Eah1Iawm,!ST1,!DLajiRawmST1,!E9qaS,!AIasj,Sa09,!S2U1,A4gaEawrNawuO1TavuUar1,DRawsWaws,C64sEaooLavgN9i5,Aif,!C7xc,!E4I3P2SY1,!L980S,N1,O1,E1,G1,D1,U1,CaaaGaaaN9bv,Cav9Taph,DN1,LawaUafq,C1E40fNaxbS9ko,O5ob,!C1Iaxc,!A7E5I3SY1,!Da0wRaxcS,NaxgVapo,AawrLaw1Nasq,!I1SY,R1,!E5I4O1T,LawbN93j,!A7gyS,I2L1Taw0,IaxeTY,RS1,L9r7,E5avI9xlYaiu,!A5E3I2LawcNat1S1,EalhIalh,C1Ta8b,!B3phDaweST5zfY,E6lz,N1,I1,EaprL1Naxz,A6E5I1Y,!A1kB1iC1gD1fE1cF1bI17L12MvNaxyRnShT9UawdV1,TaxzWaxz,!Eay4Iay2LakwSY,N1,EapxLawpO1,A4I1Y,LTa3e,!A1EaxzOawgS,D1S,!Aah2EaybI1S,DarbRay8S,!E1IaybOay9W4ch,Da5b,R1,LNaj2,A1Eay7,Eay8I1Y,R7fv,!A1EawrH9fwI4ktS60b,D3M1S,Ma02,A8O2U1,C9u8Eam9HhKaykPdSbT1,B49rN19nW9ir,A2r8,RawrS,!E1,H1,!I65eTY,!LaxeNau3RS1Yayr,L97a,LaxwU1,C1EayuN3mdSay2,S3tv,Ra08Tayw,A2E1Iaxz,F7q7UaxuVam2,U25j,R43a,EayvN5y8,!Bay3DF8qrS,E1Iaz5,A4s4EaxfH4I3L1Y,Kaz5Maz5,R1,AamaO1,!AnBmCjD5x9EhG4cpIeLbOaP9ST4Uak1W1,A62B5uC5mD5hE5fF5eI57KaycL4fM3wN3jP31R1bSpT1V6ud,MahgTayd,CD1v6NaqcTaga,Rag8,C1,M5q5,A1,L1,A1,B1,O1,Y2ev,H1,T1,E8tc,Eay8Iazi,!AcB7g8C6E3G2H2pwS1Tait,!AgIfO1S,N1,AaxpSayo,!Aat9I1S,C1,I1,T1,AejE1,U4vv,P9y3,N3P2S1,R1,Rakp,E2O1,!Ea49O33mS,!EazzIay2,D2S1,Aav6Eay4,O6tl,M2SazcZ1,!C9ixDRa1mS,!AausIaw6Layy,C1NakzSaz8T9cjZab9,D93a,H9fu,P1,I1,D4L1,Ta0t,X1,E1I5rk,E8ym,Eb0mOazo,N1,L926,A2IaiqY1,X1,E1,Ab05Eb0sIawa,I9rx,F1,E1,L1,Fail,F1,A1,E4lpR1,AauiDatx,Haj2,P1,S1,O1,P9zf,O1,A8E7H3R1S,M95y,A1,Ran7S,O94x,Oa5mY604,!E3Ib18P2T1,Ya2h,H1O8bsRawu,!A10DxGwHqIa9rMaojNpOlP9R7S3T1,A19E18I16O1,A1dL1,Ea7rR924,D1,Cb1fN1X,I1,!ERb1oST8vg,!Eb00IauvOavzS,L1,D8n1,A2I1L7tq,!Nb0wS,G5suIb1yLb1uP3azSa80Ub1o,A7B3E2L2tjO1,I781Oacf,E6,AazvNa64P1,T99l,P1,E1,H1T8vl,E38I5O1Ub1a,E1sz,H605R2S1,A93pI9s3,IaynSay0,IO1Ub22,C1,R1,!E1,Eb2cU9j8,C2N1T7s5,Ran7,A1,C9e8,C2IayxL13yS1,!EcI5O1S,T1,Aadr,L1,Cb1yS6k6,I1,M1,A4E1Ra6x,H1,Toy,N1,E1,R1,E1,F1,F1,I1,Ta2h,E1Ib2tY,N1,E1,!S925Tam7,E1Ib11,N1,I1,Nb37S,Eb32I1,S1Tamd,O6ibY1,V7k9,Iau8O1,L1,A1,Ra1o,B1,G3M1,E1,Na2u,E1,G1,IauiO1,H1,T1,O5c7,T1,I9jnO1,Sag8,A1,A6H3L1,Ab38Ob1s,T1,E1,L1,E1,A7sp,Ib33K2O7k6T1,M9gk,O1,N1,O1,X1,N752,H1,C1,Ca3nNb4a,I1,X1,A7E4O1,C1oD1gG1cK18L14MwNb4ePkSdT1,A8cjI9c2O1,A4pB4dC2xDarkEb08G52aL2tM2lN2kP2bS1xT1,Ab3oOayr,I47cNb3m,V1,Nb3oSaylT4xm,!D4E2I1S,R1,A1,A3enE39oH2mqI2h9L29xN29wOm9RbrTbiU5fWayyY8Z1,Eb3mIb4rL4ax,H6i0,!Tarv,!B3C2S1,H67b,Ab4uS1,I563,!Cb4w,!I1Oa25SUb4r,L1,Y1,Eb50H6K630O5T1,!I77oS,Ib4vLazdY,!A2D1O9l1S,Db4gM4ry,Db12,!Eb5aI61tO1SY,F1Ta8r,!Eb5cIb5aLaabS,R1,Ab5aE1Lazl,!Bb4fEb55S,Eb56Nb5fSb48,Eb3bI1Y,P1,Y1,T1,O1,E1,R1,R1,E1,!GcL9fxObSU1Wa8d,AaitEaitYb4r,E6q7I1,B1,!A1L4esOb14S,EabyOb3o,Eb5mNb14,I1Y,N6az,EazcIb0gO1Yb0g,I67sY,T1,I5ve,U1,!IaqmM4yx,Ib5uY1,Ia70,!Eb5xH1Ia60Y,KdLbM9N7Q5R3S1,Raoh,!E1O1bS,Pb1lSb66,!DajeS7drTaje,Ab2bEb0d,Eb64I1Yarg,Ab48Cb6b,I1,T1,A1,!A8E7L5M1ST4t9,!A4hlDRb6gS,E1Ib2g,E43z,C1Kb6k,G3Nb6kRb6kS1,!SW6sb,Ab4xEb5jIb6o,B37dTadd,RSb5k,!E1,D1Rb6q,F9lpNb2r,!A5D9phE2I1S,Sb6bZb6b,DNaybRb6uSb5z,!E1I5akLb5iNb27S,!F55aS,L1,!E1Ob4v,!AfEeMdN7O6P4S1,E2kiIb72,Lb29Rb72,Ab5rE68zFaoxLb5p,Fae4,F1,I51iU1,Hb5sMb76,S1,!I1,E8I7LaxzR4Y1,G9svW4a1,!Eb7fIb7dOaxaS,DR1,!E1Ib7fLay3S,Ob7eSb72,U23e,E1,ChD8E7G4I3Kab1S1,DRab2,E1Ib7lLb1u,!Ob6m,!H6j8P2S1,!Rb5qSTau3,L1,I1,V1,!E1,!Ab6e,!D2F9unRb7sS1,Cb7tN5lmOapm,DNazbRSb6zYb7u,!E1I4zsL4rhNb37R6iwS4wyY,N5lp,I1,D727Lb7yRb7y,!D9qoE1IaslS,!B6f6Eb6xIb82Lb2bS,B1m7E9I8K6L4N2S793T1,DEb5zRb82S,!EazyKb82Nb43S,!B6faE2I1P9gcY,Db8,R1,A1,H4S5t8T1Yais,Nb86Sb7c,A1Lb6q,!B1Rb6f,Eav9I45t,!Ab6rDb1gL1Rb8dS,Ab7rEb59,Nb8iV1,Mb8gR9d5,A6C4kgE4I2Ob8hTb32U1,!E4bpI6feRb6mSY,Ra0d,E1,T1,H1,Y8b8,B3x8,U1,M3R1,!Eb7oIb4qL9v1S,D66sO2T1,H5zk,!Eb8yI6bhS,BdG9N3P2T1,!Eb90Ib8yP6umS,N1,Eb8sTb8y,E2I1Y,DN,!O9et,!D50vE2Ib94Kb92N3uS1T8,Eb5jO90xR65o,!Eb81Ib96Lae7ST,M1,A1,E1,R1,Ib92O62oY,L1,T6pt,H1,G1Lb7hT,I1Ob9g,!IauxM9y0T9s2,!BdD8F6Ga31L2M6epR6khS1T2vqW7gl,E46pIb9jZmh,B4qC4iD4fE4eF4bG3wH3sI3eK3cL33M2jN21P1xR1hS1aT11UnVjWgY2Z1,Fare,I1,D1,!E729Ib9oRb7qS,N1,Vb7h,I1,I5O3T1,E9hnOayk,!Eb8pI68yS,N1RSb8yYb8w,Ab2p,E1,Eb1rFazcGa31N14b,I1O6pmY,!N6q9S,N1,A1,E6inOact,!BbE9F7f7H7L5Nb5eP2SW1,N7xdRSb98,!E1Ial8Lb8rNb5g,T9td,!A1E23mF91vIausST,A3wv,N1,I1,!E6b2IbacSav1,!Eb26Ib9eLb8yNb5nSTanhY,Hb22Ib9p,Eb6tLa3z,Ea2aY,Ra49,A4da,!B4C4dlF9xcL3S7i0T2W1Y,H1,CtDhE102FfIagqLdMaN9R8S7T1Vb4u,!Ka5yMb9eR9wcS,DEbalRabxS,!E1Ibao,H1,C1,CasiR5Sad4Tar7U1,A6qgN7t7,Ab2pIbakY,T1,I1,L1Tbav,Rb3y,I1,A1Eb6yIbaz,!Eb8wIbb0Mb9s,H1,C1,N4U1,F6rk,DavjE1S,I5yy,I2U1,!Lay2Ob9hS,!A1qvEbbbIbb9S,G521N6rxT1,!AkEjIfO8R4ST3U1Ybac,!Nb84S,AbaoE1,E1p6,!F1S,Ob9bR9w1,R3fk,D1,E1,M81m,I20O1,!SUban,G1,!C3IaypO1S,O48b,Eb9zH1Raus,T1,E1Paw9,!Ab6yEbaoIbbtS,Abb5EbbsT1,Tb9m,!Ab9rOazmS,D1,I3O1,Zb2n,Ab3wI1,L1s,Y1,N3X1,R6o2,O2U1,B1Ebc4,Azn,IazvLbb9,B1,A1,L1,L1,U6Y1,D11FzGyHvLqMmNkPgR8S1T5wzYb3t,!F7koS,AbasEb8fIb8d,T2V1,E11z,!A490IS,R1,I1,V1,I5ud,RbcnSbbr,L6on,A1EbamIbcq,!E3LbbcR1,Aaz7CbauN5T1,Iaql,T1,Rb4q,B1,E1NbcwT3b,A60qDbbqIhLgMcN6P4R1,R1qr,O1,L1,!ELSTbbg,A1O7ag,Aam8E1y8Ibd4U1,!IabaLbbqS,L1Tb53,A1Eb08,!AbbkEbc3Ibd8Mbc0S,R1,E1,H1,OazpVb6c,I1,AbccBbcuDaG4e5L3l4M7P3S1,A9f0O9uu,!E59lH1Iay0LbchS,I7z5Ob87,BbbvNbccT1,A1Eb9iIbdj,FavdNbdl,!EbbhI1,S1,IazcM2olR4S1Wbdm,S2qe,N1,Bbc3T2qg,A1Eb9qIbdr,N1V9x9,A6E4I1,T4tq,Ab5rE1,NbdxZb90,!EbdzI1S,N6pwR1Uak3,L4O1,S116,S1,I1,Sb5y,N1,Nbe6Tb9b,AanaEba5I1,S1Ub6w,!EbcqIbc2,S1,S1,E1,E8O5R1,MbP1,T1j,N1,E1,!AbdaEbejIavtS,T1,S1,E1,C1q,NbenOb7oVbd0,!EbepI1ObcwS,T1,C1,U1,R1,E7T1,Nbck,I1,M1,L1bp,O1,A3R1,CjD123GfS7T1,Cbcr,I1,!AaytOb4zST1Ub9a,Ab4tLb9c,P1,!Cb79Db5tL16MsN6R3SU1Yb6k,Sa4l,Tb1l,N1,E1,!Ab76LbdvUb0q,T1,I1,Db9wT,N1,E1,C1,AbeyI8syOba7,AcE5t6M9P6S2T1,A2u,N1,I1,Abf3Eb9oM1,W81u,!IbfoPb7s,E7I3O2Y1,Ab95Bb34,I3mzRb35Vba0Y,M2P6ehR1S1p,A3fE2vH2sI2fK2dL20OoR4U1,LNbfm,!DbefEbftS,E1IbdqOamu,T1,A1,Tabx,N1,E1,R1,E1,F1,C7F1,Ib6qLbf7,B1Nbg8Obe2Vamb,!EbgaI1S,Ebe5I7mlT1,C1,AhI6U1,!EbgeI6n6Lb36SY,!EbgfIbgdSbk,Aaat,!E4vvLbf0NbbpSW1,L759,A1,!Kay4T1,!B6pyF9yjH6iyLalkS1Wa3zY6vw,A2vt,!C1,!DaJa0qM9P7R3S1TbgkWbdr,AanaEbcmIbgn,L731,Caj2L1pM2N57uT6xwU1,AbcqIapu,!EbfmI9wgSUbfp,S2T1,!EbgvI9q8Obf2S,Ab8qT1,I6ss,E6yd,S2j,!DLa36Ma5hS,BadwNbh0Vb98,E2I1,C5D7kmE4S1,Cbg3T1qu,N1,BayvLbh2,A1Ebg0Ibh5,C167,S1,E1,!E6Mbg1R4SV1,AiCgMfN9R1,Lbf2,L1Nb97,I1,R1,E1quTbhd,I1,A5i0EbfsIbhh,DaigST8zf,N1,ObeaVb9tZbbt,EbamI1Ub31,E3NbhnT1,AasyEbfyI1,!Ab7cBaC8EbbqL7N1S,NbhqObcd,EbdpI1Obfz,G4wT1,!Abg4EbhuIaz4Obg1S,T1,AbhtC1Xar3,Rb3jW60y,A5E2O1,Aaku,I1,Ia9x,BbgdL1T7o9,!A1EbgwI8h5S,Cb2gEadcM1,Ab3sC3tiG58uL5R1,!Ab27EbgzIbi4S,Ub9jY1,C6xuS74j,A2O1,CbhbDbi7,N1SbciZbci,A1lE10ImLeO7R3TalsU1Yb3e,Ebi9Ibi9,EbceIbic,!Ebi5S1,S6z8,S1,GbguM5S3U1,Ea97Iazt,CbgkT1,A1,R1,E1,N1Rarf,Ax7,I1,O6l,C2M1Zbcz,T9lm,A2U1,Bbh6Talx,A1E9x1Iber,U900,D2N1,S7l5,A4uoEbguS1,Lb4e,O1,G1,N1,A7E5I1,!Ma4uS,M1Saeg,AqEkLeR3U1,S2nl,NbanTbj7,R1,Fayq,I1,D1,A6vaI1,M1,R94,O1,L1,H1,E99,C2G1,AbhdO1,R1,D1,IhOfUaY1,Db7lNbjq,EbfpI1Tb2s,!A1sf,C1Ebdu,I1OaytYb4x,I4b,R1,T1,S1,U1,Cac3,Y1,N1,O4i,I1,T1,U1,T1,I1,T1,DbO8S1,Zbfe,I1,N1,CnFkG86kLbkbN4O1S7j0TbifXawk,!AEbblIbi8S,T1,C1Uaeb,E1,EbirRb3k,T1,E1,G4lcL54yM1Rbjm,A1EbiiIbkmKbf5,IbjnM1yfTbigYbc2,DbknVbex,B7ftTbfv,A1,T1,E28nIbimObj1,Bbj6CbivT1,I5t5,T1,A3I1,!DRbasS,E1Ibis,!AbC8DG3IbkzST1,!SW6q7,!ST1,EabsIb4v,T1,A1,R1,E1,!Sb3i,!LbjtS1,E1,CbjcT1,A1Ibb7Tbl9,!Eai5F7tlIblcS5ad,T1,H1,NblgT9m,EbjcI1,E1uw,U1,E99eQ1,E2d,U1,I280,!Tblm,Bbc7Nbhp,!A1EbkkI7wbSY7t6,R1,E1,!BmChGeMcN9Q7R6S5V1,C6aU4xj,CbhhN9q5,I1,H1,!Eb4lS,D1,I1,AbctIbcuO1,O1sbVbf1,I1ObgsT6k0,DbcrGbgcS1Xbkh,!A1hE15F13IcLaneObP8ST4U1Vbcs,T1u,E1,!DRbk9S,E1Ibm8,!EbmbI7d9SU1Y,G1,N5O1,!AbeoEbl7I21uS,D1Taqg,AbeaHblf,C1Kbme,E2l,G6N4R2SbbvT1,!EbmkIbmiO7zvS,N1,AaoqNbml,!EbdsI1S,T1,Abf5G4whIbc1Sblx,!Nblp,!A6N3R2S1Tbi1,!Dbi0S,D1,O1,Hbko,O1,Aar,T1,I1Ublx,Ab8sEbmw,D1,N1,O1,L2r,A1,R1,E1,A4o9,U1,Q1,I1,!DM1S,E1IbnbSbih,!A5bcSTa92,EbnbIaaj,G1,R1,O17v,Ebn9GpJnLkMgNcR5dzS6T5U2Vbc7W1,!Ba98IatS,Cbj6Zbin,!I1S,CblnT1,A1,R1,Eb6jU6d,CbccEbnh,EblzI1Y,H1,P1,A1,R1,S71k,S7alT910,I1,Sbn3T6zw,CbcmN,EblwIbo0MbnyTbny,A2Ca6kS1Zayw,Nbo3ObksVbgb,EblzI1Obmc,Bal1T1,A1,R1,!T1,!EaI7O5wsS1,AbjeEbk8Ibk6,Z1,I1,L1,A1,CbocNbofObm9Sbn8,EbmbI1,N1of,!BzCuDtGnImLkN9R4SbnnT2U1,Xbbk,E1,L1,P1,I1,CbnfT1,GbnpLbom,A1EbnkIbop,!Ebe2R1S,L4R1,Ibmm,T1,A1,N1,I1,L1,Tfc,G4o,O1,L1,O1,H1,!E7S6T1,A2oE2gI1oOoP8x7UeY1,Ib7uY,L715Nbo1Tbkd,A1Ebn4Ibp8,R1,I58U1,R5T1Zfp,Fb4bTb69,O84e,N1,O1,R1,H1,C1G4q9IbpkL7kdNbpg,I7O1,R1,!Gbb9R2q5S,BamjLbpk,R6c,A2EbjqG9ukMbpmT1Z6ob,!A97xS,N1,NbpsO1Vbos,EbnoI1Obo1,LT1,A1,N1,I1,Aat0EbacIawi,E8u2N9ds,M3T2U1,Mb5b,IbpsO1Y,Fb7vT1,!EbffI1,!Iar2LbopS,L1Tb8z,Lbp7U14l,Ob57Ra1n,!AbpjEbq6GS,C3F2LabnN1S635Tblf,LbdzR8gi,!A6EbqdI2Obe2SU1,E3h,L1,AbiaEbopIbqe,Aalt,R1,E1,IaxaObl8,T1,A1,I1,C1,CaD9M6N1,!Ibml,!A1eD15E14G8r4I11NacfOqSmTeU2Y1,!AbqoS,Nbn5R1,AbplI6i,R1,A3O1,IbhpO5zf,T1,Abm2Iey,D1,Tb8z,Ab89O1,E1,L1,C1,U1,N1Sbq6,O1,B1,I1,!G2auR1,IcY1,DhNfRayzX1,!IaphLbpx,L1,!A1S,T1,N1,E1,!E8cvIbriM1SUbqg,T1,P94t,IamlR2U1,Bbe9N9xv,!A1E29cIbrnS,D1,MbroS7n,N2R1,Rs5,O1,H1,P1,S1,O1,!EbqsIbprObq6S,T1,N5ts,E1,M1,EbpyIbpwObeh,T1,A1,C7G4L1,AbqiEbq2Ib9i,T1,A3svEbo7Ibo5,R1Y8di,A4ppE3O1U6r9,R80,C74a,I1,SaefT1,Egb,M1,A6I3Y1,!DNbrcS,E1Ibsj,U37t,!AbcvE8dyIbslMbrdS,T1,!Abf2EbspI7wjOatwS,NbspT1,Abs6EbooI1,L9N7P6R4S1Tbso,!DblsMbrjRbspS,AbnxE1I8rw,V1,NbosObqp,EbqrI1Oay9,T1,EbqtIbg2Oazv,BbrbT1,A1,A4I1,BbreNbozObqwVbo2,!AbrvEbrkI1ObrbUgy,S1,C4D9h8S1,Lbt3Tbob,A1Ebp5Ibt6,V1,!EbtaIbt8M79hS,M1,A1,R1,G1,AkE9I6O1,Hal6,Ebt7NbtgZb4a,AbolEbrcI1Y,RbjnT1,A1xE1sH1mI1dL18OsR5SbbiT4U1,E76y,!EbtmIbtkL1MbscS,G8fsL1,Gbe0,!EbrjIbtnSTafd,C27gI3N2T1Ybtm,T7wp,C1,I1,Rfh,!A1h9G19L2P1,Ia57Obok,ObqlVbm4Zb4q,EbtuI1,BbsaT1,A1EbpxIbty,D3xqN5crS5V1,Aaoy,R1,Hbho,P1,Y1,Ebs0L1,G1L7p1Mbi2P3xnSbpx,I8gmO1,!B7LST1,S17o,!A2E1I4evOayeS,Iaor,Ebs8Ib0fOazq,T1,A1,G1,RbthS,CbucE1N5d9Sbtn,I1Y,AvBbslEqIkM9N8O4R1V9m6,Rf1,AbsdIasq,N1,I1Tbm2,C4L1Nbnh,!AbtiEaxvI811S,D1SbpwTbuo,N1,T2gz,B432EbovP1,I1Ybfy,AapvE4R1,EbqvIbsqObt5,T1,A1,R1,Gbmv,E1,R1,Ebkg,I8z,S1,CF7lqNbv7Obt1,!Ebu2I1S,E2gcIbfs,T2V1,!EbtsIbvaUfr,CcG9L8N6R2X1,B6d7,A1,C234,AEbtbIbcrUbsl,T1,A1,R1,E1,!Ab2gEbi4IbvkMbucS,N1,A2i7EbrlIbvmOblj,T8if,CaD5G3L6k5Nbj2P3jxR2S1,!BbocMak8STalt,Ob7u,Ibs5S1,AbtnIbs6O1,!DLbueNbr3RbvrS,E1I30Obu3,T1,A1,L1R3tgXbui,R74e,I1T7bw,Daf1T26i,A1,R1,A3wq,Le5,A1,U1,T1,I1,!DF84iOaz2S,E1Ibwa,C8R3SayoT1,Lbv3,!EaxyIbwdS,D1,I3L1ikN1T94u,AhEeI5O1,Mboc,A1,U1,!F87mS872,N1,O1,O1,!P1,!S1,T1,R1,E1,Ik4,B1I8j1,Abs0EburI87hY,EbjlIbs8,T1,U1,N4T1,BbnjNbx1Obq2Vb6o,!Ebx3I1S,T1,C1,Ibk6OasbU1,AbI6R1,!Ebx8I3zhS,R1,U1,Oys,F2T1,E2sbG6ljL1,A2oC2hE21H1zI1oK1nM1kO1fPwQtSkT7U1,!AasrEz3IbxdMbw5,H1,!Eau8IbxfS,!Eb28IbxgMbw8S,L2N1,C4I1S2y9,Eb2j,NbxlObvfV1,!Ab6pEbwgI1ObvuS,T1,!EbxlIbszS,T1,!DNbo5RbxnS,E1Ibxq,Oaox,EbqtIbhcObw1,B3yhCbvvNb4dT1,NbxvSa6g,A2E2izI1,N1,EbwqI1,DNb2wRbxw,Ab73E1Ibxz,!Iat6,!GbIaM4R2S1,B3yqTbt8,!A1EbwyIby3S,T1,CjNhR4S1,Nb0j,O1,R1,C7ewN8yo,AbwmEbw6IbfmObwj,BbouT1,A1,C2hoFbg6Nbye,!EbwwI1,N3Ub4kX1,!EbyiIb4jObwpS,T1,C1Ib5k,T69e,N1,E1,AbxxIbtyUbye,Bj4M2T1,A6I1U5z7,M69e,A18ElHiIhObR2U1,EaozIbyr,M8puP2iz,O1,G96qN1Tbqr,Nbxh,O1,N1,A1,Tb35,C2NbyyS1,A7I4y8O1,R1,L68p,P1,E3O1Zbrj,CfT1,U2d8,Tbmc,A1,!T1,!L4S1,Tbnz,N1,E1,!AbxrEbveIbzfM1S,P1,!EbzjIbzhO1S,LT9az,A1,B1,I8lsL4R1Sboz,NbznOb4a,EbxjI1Ob6l,Nbq6T1,!EbzrF9rcI3tpKbhbLalfMbyhRbxrSTbm4Wb2e,!DEbzoRbzoS,AbjuE1IbzrOby0,A3oRq6,A5CbyuL4ObpqS2T1,Cbu3DRbzs,!AbulIbszS,N1,O1,I1,T1,U1Vbu9,!Dbt2EbzzMbytS,N6ax,Nc04O1,E3I1,RbrkTb3n,C41IcL6Nc04T2U1,!AwEmIeO1S,Nc06Rc06T6jbXbrw,L6xe,A4hyEbn5,ObrmRbm0,!A4B79rC3DaqfEc0eF85fI7c8L2O1SY,Sbzc,A1,H1,T1,E1,M1,!IbwcObqg,R1,!AbhuS,LN1,Ea22,H1,P1,M1,RbzcTa5h,A1,T1,O1,!A5R1SbzwUc0n,AaIaqrO1,EdR1,!AgEc0qIbzzT1Y,!Ec11Ic0zKampS,C1,N1,I1,!AqiBpsClaDksEkhFitGhxHhfIgqJgmKghLezMbyNaeO9sP7lR6kS3rT2dU1xVwWrX5Yc11Z1,Ma5rNc06,Kc13Lc13R1,Ibs5,Lbz9Rc09T1,Rbtq,Bc16Lc0aO2Tc16U1Wc17,Nc0cR6m8,R1Tc18,A7O3U1,G9a2,O1,G9oeL1,Ec18Ibp3O1,T1,R738,E1,!Aafo,C1SbvkZbvu,I1Oc1k,L1,A9y3E7L5O1,Nae5,O1,R1,Dbsl,A4ya,N1,I8sh,T1,I1,E89aH7I6O4R1,Hbpo,P1,L1Mc20,E1Ra0c,N6azO9br,Ac0gE4weI9z0Tbgb,S1,O1,Za45,!I1Lc0tS,L1,A1,N1,Bc0pTa2u,A1Ec2fIc2d,!Ec2gIc2eM1S,M1Pbfj,A1,EeNbO6R1,Ia0h,!AbvxIbgrO8hkS,T1,C1DRc2j,DLRc2k,Abg2E1I7du,Cal7Nc2pSahn,!Ec1kI1SUbwy,G1,AbxoEbyqI9zn,Ab5zEbyrIc2s,S2TblvZ1,!E9I7e1L7O4SY1,Tbeu,E1,N1,G1Nbxv,Ac2aIa3i,Ec19R1,T1,Dc23Nbu1,Fa7kNc34,!Ba9mEc36I1S,D1,N1,A9E6I5O1,SbykU6r0,Da5wRc38,Ebz2Obt7,N1,AbklE92n,Nc07R1,!Abb0S,M1,G1,A1,A7O5R1Ybbx,I9ez,S1,AdEcH3Ib0uO1Sbrc,Ab5sIbugTbmo,E1Obk1,H1,Ra23,H1,CbfdI9wdR3T1Y,Rbpo,O1,!A3v0S,Rahq,E1,M1,O1,S1,I1Mb18,O1,!E1S,M9R1,I9ck,H1,P1,Ac3iO1,A4ioE5Oa52R1,PgT1,A9y5,S1,S1,A8csIbjsY,M1,R1Sc06Tbnh,E1,!A8haI5uxS,M1Nbzx,I85tOc2e,E8H4O2R1,Pap6,!Ec4kOc2hS,N1,!Lc3pNa8zT7gm,E4I2O1,B32C2sD2oE8vpG29K28L1wM1jNawtP15RzShT6Z1,K49k,Ec3nIc4sLbvgU1,F6v2,O1,Z1,N1,!A7f0B5E1S,Yaks,X1,O1,B1,R1Sak1,Ac51Ibsq,R1,T1,!DN1Rc54SY,S9yx,M3vl,O1,R1,O1,U1,L1,F1,I1,B3vyD1E3vu,O1V50u,R1,O1,Dby2,Ec5dSc4fZbgg,I1ObvjY,M1,Ic14O1,G9uxN5T1,!Ec5oIbhqS,T1,A1,C9rd,IbhuM2S1,O1,ApLdO7R1,S4ni,I1,DNc54Rc5yYc5x,!C2E1I3yiSY,Napk,I1,O3xr,D1,!E1S,L1,!SY1,Ic43Oc5p,R1,A1,M1,T5U1,Ac5oIbid,T1,O1,!IakjSbr5,R1,Ec4eIc4cO1,!T1,Lc54Rc4m,!A1S,N1,EbygO1,Ebof,ObawT1,S1,!O1,A9I5Uc10Y1,A6jf,M1,Dbjl,O1,C9zsN1,A1wE1sH12I7dsKyLwOmRjT6U4Y1,!I8d2SYc6a,T1,C1P1sk,!DRc70SYc70,Ub1k,Q1,!S1,E4I8hsY1,L1,D5h9,I1,R1,E1,IaywObv2,Aazn,!M2N1,!AeD8G4Ic6gJ4Oc4rSc6iY1,Hbzu,C1,A1,B1,N1,E1,F1,Cbkg,!Db7xE1,AIbyjOc5k,L1,A1,H1,P1,E1,C1Ec7t,NbshZbir,!Ec7zI1S,L1S,ObvpU5wj,Ec69Ob1qR1,!E3Ic7tT1,DRc80T9og,M3xu,A1,B1,R1,A1,T6ku,S1,E1,B1,L1,I1,T1,C8S1,L1,Ec6qY1,Cc5mNc8jTc5m,!AadtEhH2I1S,!Baf2CbbyDFyH7nxIc8kLwM62zNpR8zkSjT1,!Bbz4ELc5eTc0i,A1,!I1Lc78Nc3x,Cc2xT1,DN1,!E1Ic8qS,R1,!Ic8jLc7dY,T1,L1,Ic78U1,C1Dbyj,!Ec8zIc6rOixS,T1,C1,A1,Bc7eNc92ObykVbip,Ed9I1Oc7b,S1,EdI8R4U1,N6qe,F2U1,Ia1tMc89ObwxY,M1Sbs8,BbzsNc9aOc74Vc4a,!Ec85I1Oc7jS,T1,Nb84S1,Nc9bSc8jZbk8,!I1Lc7zS,L1Tbfj,Aaom,R1,G1Zc4m,E92t,G1Nc9i,I1,Nbr8X1,!A8I5O1S,T1,E5zk,C1,Oc8lY1,Abw7Ic9jY,FaopT1,I1,Hbma,P1,Nc9yO2g7Vc2x,!Ec8gI1,S1,S1,A5E1,!AuEqG7q3HbzgIeLbN8Ob4mR1S,Ac9kOc7y,R1,D1,Rbea,Oabm,G1,R1,E463,C1,A1,Y1,E5X1,Ic19O1,R1,BbD1,EdY1,!DRcahSY,D7akE1IcakTaie,Dc2g,I1,EIc7c,Bc17Nc14T1,!I8s4SY,Mbq1R1,A3Ec6qIbs3O1,P6T1,Oc1s,AatrIc1o,M1,!S3c6,EcavI1,T1,N1,A1,T1,M7T1,Gc0q,L1xh,A1,!D1,!Ecb9IcaySY1,!DNc6iRcb6S,E1IbslOc9i,A2ohOc95Uc5i,I1,Eca5T3V1,AlDkEbIaL6U1,I6uz,R1,D1,Y1,!A8gsEcbkIcbiLbycS,N1,O1,I1,H5S1,P6o9,A1,CSc5xZbmk,!C2I1ObzgS,R41i,D1,Y1,Sada,O1,R1,T1,I1,Pade,Y1,R1,!H9N4ST1,L1,Oc70Y1,EcaeH1Rbv7,!NkRgST1,!AcajEcapIcc7Mcaz,H1,S1,Nb8g,E1Tc4i,I3U1,N1Tcaf,AcaqEaxzIcce,!IbofOc05S,H1,P1,R1Ucbc,T8ec,I1,!EfI8Lcb6M7Nc7vO3P5w4SW1,!Ic3gOcckS,!DR1STc7k,O63s,!B7m4S,E1,!BaklD3E5pHcatI1sdL1OcbxSUcbwY,Eaow,H1,!B43cP1,O1,R1,NccyT1,DYccw,!E1I5ncLcbkSUc77Y,!LbzuST3z8W7i7,DR1,E1Icd2,Lbty,E1,G1,A1,L1,F1S8r1,Oma,E1,L1,C1,!AcbmD7c2EqGmIgKeNbO5STcdcU1,!Ocb9S,L1,O1,S1kg,E1,EcdbOc19Sc7r,I1Y,C1,Cc1b,!E1coS,Iavq,Acd0EcdnIc4j,AbuzEcbzR1,S3T1,A1chIbtw,Dc4sNcdr,Ab3pI1,BfCdDccwEaI9L8P4R3X1,Abv5Ecdu,D1,I1,T1,P1,EIc4v,S1,D42c,Y1,Obvr,T1,N1,A1,D1,Y1,!AafsH1S,L1,H9Y1,N1,Hc9b,G75eP1,S1,AbgoTbxk,I1Obin,R1,!AcdwIbcqS,G1,N1,E4O1,H1,D60q,LbdjO1,AqEeObT3Y1,Gc77X98v,Cbxi,C1,O1,Cbaj,O1,CDbg9,!AEceyIcamS,!Ccd3Ecf3Icf1ST1,A1,HbwbIc7yOcbh,B9h9C8D6Ecf2I5M2Nau3P1ScavT762,EcO1,E7avOccb,DbulLa0m,!F8qaS,DR1,AcdmE1I7m4Y,!M6ziS,!A953O1T7sk,C1cwNUcf5,A8y4O1,R1,AcfeHcfe,C1,!E3Y1,!E1jHrLeNdOcP9S7T1,Dc29RScen,!A9byLbc6S,N1,NcfoO1V5bi,!AcalI8z4Sc0dY,R1,Ecb1I533,!E7I4LcecNcb1O2R1S,T1,!C1Fb22LceeNcb3RScew,!Fb2nLbkvS,E1,McexTcea,BbxoS1,I1,G1Mc3d,Dcfh,Ac0m,E6fcLcenNcbc,!B2I1SYc17,Db7oEbG9Hb0pI5Kcg3Lcg3N4T1,Ic6pLc0jU73x,R28,A1,T7bc,S1,H3O7fcU1,C1,!Dc31Oc69S,E1Icgd,G1,A1,T1,N1,A1,V1,Cc8o,M93d,LbckR1,E3I1,F1,Gb7w,E1,R1,!A4hfDIcgsMcfkS,E1,E1,G4R1,W93o,O1,L1,Uc8u,G1,I1,B1,U127,N1,R93x,A1,!EasqIcd4McfzS,T1,N1,I1,AcgsEcdaIcd8,Bc30V1,O1,E8O4R1,P1,!A9lkEcgbIcddS,NnvYchg,A1,Coz,I1,M5R3T1,L5gy,B1,M1,Cbdn,E2O1,Ecg0Rao5,S2T1,!Ac1wEchvIchtS,W1,O1,B1rC1lD1dF18G11LyMuNsPhRbS4V1,Dc2e,!McgqRb3oS,N2R1,FchyVc8o,E1,I1,Fbe4,E1,L3N1,S7daUcavW7h1,D7g1Sbkk,D7dgR1,AaE4O3U1,Cbrj,Da4qNbsw,L2Nc7qR1Sccl,BcbxNceb,!AcgqEch9I1Mch6S,N1,DPc7uR1,!AcgtDEcifRcifS,E1Icii,G1,R1,A1,AcghLch7Tcgo,I1Y,Bch1LR1,A1EceoGIcip,N1,E93cI1,L1,!FbxsNciuP1,A927,Kch9M1,EcevIciwUchu,S1,Ac4lI3O1,DcfqNcj0,Rbec,O1,Bqi,O1,!Ecj6Icj4SUci2,T1,R2j5,I2O1,E7ewO6jr,Ech5Icj9Uci7,S1,O1,B9F5M4P1,!EcjfIcfaMci5S,T1,R1,E1,Mcf9,R1,I8d3O1,!EcarIcheS,T1,C1,E1,T2u6,A1,L1,O1,!EcazIcjsMcikS,T1,N1,NcfwTcf1,A1EchsI9j0Obmp,U1,N1,E5I1,CkFhNdS9T1,!A363Eck3Ick1S,D1,H40v,DN3hdRck2,!AcihE1Ick5S,T1,!AcijDMcizRck5S,E1Icg5,G1,Oca7Scic,E1,A3Scb0T1,N7R1,!AciqEcj9I8v0SY,R1,E1,!EckjG6vnI1iL1gM15NhP8fbRfSTeU4V1,!AbvtEckkIckiS,T1,I1,Abrx,EcdnIcf9,D3Ebo4P2T1,NcgmOcheVcj2,!IcgeSY,R1,EcinI3O1,BbhpNcjmT1,A1,N1,I1,M1,EaI1O15a,S8di,!AcdbEcf1I38d,!EcksS1,R3S1,!A2qE2mH2hI29L24OlR5SU1,!Ecl5F8tcIcl3S,N1,I1,A1,Acct,KbgkR1,R1,E7jf,Db07G7t8W1,A3O1,B1,!Eck9IchbMck6S,T1,N1,A1,M3y0,H2U1,Wckb,O1,Sc60,I1,H1,C1,N1,A1,R1,As7,G7w4,Icd6N1,!LclvS,L1,A1,R1,A5H1I1rx,CiDgF9G8T1,AcdyIa7b,R1,B1,I1,L1,I1,U1,!AcjcS,T1,N1,E1,!EckvIcmdM1,H1,S1,I1,L1,B1,A1E2ld,T1,A7adC930M18NkQdS1Uc3u,V7lw,Gbsv,AyO82b,C3ze,Hcl7,S1,I1,N1,N5R1,A9I8R7U1,Rccm,!DF8v6RcmvS,E1Icmy,C1,T7xa,N1,A3U1,EclmIcn3,S1,!EayoFb9eIcj2S,T1,I3S1,OcR6U1,Ecn1OcazZchi,I1Y,N1,O1,M1,B759R1,N42,E1,T1,R1,A1DLbwcRbv8SV7me,Ser,!A4o8EcmgIcnlS,R1,E3O1,N1,Wcn5,O1,RcmsSbk9Tcat,A1,!AfC64pEaF8yvI7unLbsuO5PckyR7sT3W1Y,Obuw,I1,S1,U1,L1,Nbyu,I1,E2cdL1,!AcmvEco4IclwS,T1,C1S3kg,A3m2,E2L1O6wg,Uce3,N1,E1,Isn,R1,Icgg,B1,E3I1,Raca,T37v,S1,D2anNcnc,E1,!E3M1RbaaS,G6R1,X2ud,E2O1,Sb49,E1Icew,CpFkGhHcT3V1,LtN1,!EcouIcosST387,N1,I1,!IbkqSUcnt,T1,C1,N1,EcecO5U1,DTcjx,!E1Icp1Lbu2S,AcneE42iIcp2,K1M9ba,Ec9jIcp4Mcnw,G1,!LcnrTcn8,L1,A1,Cch4D4Y1,I7O1,LbxbN2bScepY9cj,B7j8,!M1S,!AcovEcnwIbvh,S1,S1,Ubkh,A7E5I2O1,D41qYcgy,Icfa,E2L1,!EcgtIcpmLb0nS,R1,E1,A81m,!AchmEcpsIcpqS,T1,N1,E1,D6G5I1,BaMc8xR1Wbwx,Gb1aTciw,A1IclqTcpw,!A8pyS,N1,O1,I1,S1,R6S1T3zl,IcmtOccj,BcgoRco7T1,A1Ecm5Icq6,Dcq6S1,Lcq6Ncp2,BcomNcqaOco4Vcj9,A2Eb4hI1Obue,S1,L2n5N5O7geR1,I1x,R1Tb3p,!AcorDMcp7S,E1Icqg,C1NcfvY8n0,A78,DcksSclp,A3E2O1U7pj,B1afLcqj,NcqnT8wv,!Ecp5IcohOcow,S1,S1,E1,A6EcmqI5S1Ucpp,Rb6dS1,S4uk,I1,A7el,EbmtIcoq,LT1,!A1Ecr0IcqyS,N1,O1,I1,T1,R1,O1,!DNS,AcpiE1Icr6,O9ieP3V1,AeEdIbj6O1,O2z8,I1,BckvNcq5T1,A1EcnbIcrc,T1,A1bE12I10LuOmR6U1,I7pa,T1,L1hvN1,!EcrkIcnfLcq3SUccy,T1,E1Sauf,A4I1,U1,!EcrpFbegIcrnS,D1,R1,A1,A26bIbdr,E6a,Abt5Ecrr,T1,Acq3U1,!Ac10EcryF905IcrwS,T1,C1,E1,P1,GbLaM9P6S1,BciqOchg,!EcqyIcbwS,T1,P1,AcidE5O4U1,Cbyu,A1Ibs3Ycdc,F1,S1,I1,T1Vcml,Ecq9IcjxOcqm,EcqaIcjy,S2Z1,Acq8Uca7,N1,B6k9I1,IcnvUcro,EcrdNcslOcie,!EcrgI1S,S3T1,I9wr,EcqkI8wkOcqx,T1,!A1EcssIcsqS,Ea1p,C1Ncst,EcqpI1,T4V1,!AcovEcsxIcsvMcrnS,R1,E1,AcicC3skDIjMgNcPbR4SV1,Eaz7,RcngT9d8,A1I3o1,L1,I1U1bs,E3e8Icag,T1,A1,D8M4Nct8P1,BcjrLTcaj,A1,I1,BcroT33t,!DNcs6RctaS,AcrpE1Ictd,U3V1,C5L1Ncif,Dck4Sb4s,A1,A5yc,L1,L1M720,!A19EnIeO6U4Y1,CcnvTcmn,!DF91wS,E1Icto,T1,F9kxI9fxLcsaN4S1Vcth,F6pl,EUcsq,T1,!A1EctwIctuS,R1,E1,P1,BckhOcrt,I1,!Icpc,Dcu0S2T1,LbM5N1,Hal2,!A3z8E7emIcu4S,!L1S,!EclzIb5jLcsrNcpg,T1,!AbpmEcsqIcu8,H1,S1,EI1,U1,C6G1,CbL9N1,!EctaI8ybS,T1,MctiR1,Bcl1NcqgOcsdVcsw,!AcsvEb62I1S,T1,!AcsxEctgIculOcsuSTcuj,N1Tcoe,H49z,G1,C5I3U1,!Ect8F92zIcqn,S1,S1,NcuuOcrjVbri,Ach9E3ipI1O3o8,T1,U1,B1Cckb,T9v,S1,AbE8I3U1,Bait,R1,A1dE11IpOmR3U1,Uc4c,T1,I1,T1,S1,Dcm8Rbfu,I1O89e,F1,OcoeT5uo,I1,B6L3N1ScpnT66i,L83c,A1,IcmbLcui,B1,A1,L1,L1Obv7,!AdqBddCakDagE91F8rG8eH7tI6vJ6nK6lL6cM64O5rP48Q40R3gS21TjU8V6Y1,G6ef,I1,!D1EcprIcvp,H1,IcppR389,Aca8,B1,R1,A1,C1L,O1,Bc8d,M1,A1,R1,EbI5Y1,Nsj,A1,Abk3IcvwOcw4Y,!Acw4CgEcw4H4R2S9ohT1Z4oy,EackNby1Ocu2,R1,!Gco4LcjnNcw7R320S,E3iiIcwa,FcbrOwfTcud,!EcpdI1,AcewI9isOavrUctj,L1,U1,Nb3s,E1,C3M1NcwjS95s,!EcveI1S,!GaS8T1,NcwmTc73,!EcwoI1McveS,!T1,!B1zdDR4S1,Dboh,!DcprN1RcwoS,Acv3E1IcwrUcw1,!DLcvdRcwqScrn,NcwuScr2TcuvZcr2,Ac3hE2GI1,BcneOcmeVcpv,I1Ocv5,D6N3S1,E9hxIcwy,C1,R1Tcwy,E3dyIcx1,G1,L1,AvEgI7O4U1Vbc0,Tcg7Ucwx,O1,G1,Ih6Y16k,E9jgY2Z1,AskBsdCqcDpvEoqFo4Gn8HmsKmqLlxMkpNjxOjfPhrQ226Rh6S1oT14U12V6WcufXbtbZ1,B5yh,A1,L1,BcwuL1,!ISY,!N1S,N1,E4I1,BcvwTcxi,EcxcNcxi,EcvuI1Y,Ncuy,AcxlO1,!FbfoS,N1,O1,B6IcwsL4RcwtS1Y,NcwmTcgu,Lbui,DRcxsTcxt,!Icjb,!AcbbE2HazgIcxwLazgM87kS1W8mnY8d9,!A5ueEcxzIcxxLckrScim,R1,Rbfq,I1Lcwk,A1Ecxz,N1,I1,O6R1,Rchd,Acw1EcxyLcwrScx0,I1Y,BcwlLahcR1T4ay,!A1Ecx4Icy9S,T1,N1,E1,D8M1,!EmIlKiSTaU1,R3ax,E1,Rcay,D1,E1,Nbm7,O1,H1,GctzH4P1,A1,C1,!B93tDMcyoRc00S,E1I93sY,!EcykIcq2S,DdE4G2O1,!KcggT,!RcytS1Tcyh,AcxwE88c,RcxrTbve,A1,!Ac54DapaScjoYcyx,T7mz,H1,G1Sbkx,Acv4I1Obt7,!EcylIcyvSY,Dcs6R1,E8ctNcz7S9p7,!D8teRScu2,E1Icz8,!N1,E5I4O1RcyqY,E8g0Ic4d,!AbdgS,C1SctcZcuh,AI1,!ST1,A1,!EcycIczhP8fqS,P1,A1,!D8ftS,D1,E1,!BbcoL1,Oa6d,O7ve,E691O2R1,A62jOc2h,!BwCuDaq3EtFpGiHbh6IcytLhMcN9S5T2VbxzW1Y,EczvIczkY,L1NckfTbl8,Mczn,U1,R1,!DF8ltRamsS6oz,Casq,O1,H1,C1Nd03,EcylNd04S9q4,!AcydEd06HbhiI1O7zdSYcl8,!DczwNd03S,A1Ecy1,Ed05I31u,T1,I1,!Ob2aS,M2R1Ucyk,Nar2,I1,H1,!C3x2DiEhIdLbM9O4P1ST712,IcybL,Lcw6Tcse,!A1IcwbS,C1,I1,!DbkpT1,!DLc5nS1,A5atNd0o,!EcykI1S,L1,!Ad01I1,EcynIci3Ocz0R8o9,Nc5qT1,!Ed0vI3gbS,R1,!E1S,Ad07K8cq,C1Ed0vOcysQa1cUcv5,A6E3GI1Ocya,C9N1,!AkEeI1S,EcyxI31fOcza,!ST1,!Ed11Ncwd,!Ad12Oa7qS,Y69a,E1,DEd19T,!DEd16R1,C8q2KcobNd1aS9ra,R8ag,B1,Ad1aE4I3Y1,!IczrY,!AcEbGaJcwqK8N2OcznS1Ud08Zd0u,!B81tDRd1dS,E1Id1g,AcxvL1,EblnId19,K1,C1,I1,Ed0nId0nY,Ld08Nd1o,Y8di,A1,!A6hpD1Tcos,!Ed1tFbo0I4S1Y,A9ro,E2bzN703,NTd1s,A1Ecva,LcwsOcv0,EcmoOcmo,!Ibo4T1,!B6v4J7K6LcotM4NcxtP3S1Wbm3Y8hc,Ed09Id11Y,DkFbxnHgLfMaR2Z1,!M5f5Nd0wS,!DHchlRd21S1xaY,G4b2,L1,E1,A5E4I978P1Y,Wd23,A1,Cd0cT,N1,!Nd1f,Cd0rE1Nd2bT5zb,Ubpe,!A4Ed0oI2O1SY,Ebw6Ibw6Obw6,Cbu1,I1,N1,!DLczd,Ld2jRd2j,T3f3,N1,E1,V1,A38d,L1V3,!A8E7I3O1Uczy,!AbyzB837EHkId2kK7z4MeNdOaP8enRd2rS1Td1eY,Mci5Nd2v,DLd2tR70fS,Ed15Ld2uNd2x,!Ad2eE2I1,!AcgdEcyxI4S1T,Dczs,Gd21LR1Tcy6,!Ed2iS,DLd30R1,E1I8ezLd24Rd2jY,!A4Ecz3HI4rzST1Y,A6uk,E1,!P1,!H6z2Od13S,!DH8cyNcyjRd37S2T1,E1Id3aOcymUd28Y,!Ad1nEd26F9bkIcz8LbpjS,L2T1,!Ld1yUd1m,E1Hcxn,Tc8f,U1,!IatuY,!B874Fc1kI9vuLc8jN2ST1Y,H1,Nd3h,O1,I1,Ubpq,O1,C1,U1,!AbivEcvkId2rLd2cNcz1O1,BgCeG9M1d2P6R1ScugXZ2dy,O4kn,EbnzId2v,!C2K1Lc8wNd3uST6zi,E1I6oq,Bd2aGcqz,!Icf0,I85tY1,DL9r0R6hr,ENd42Tc0i,EbbwU6mx,Md34U2fe,Acx8O1,L8wc,L1,Ebyt,A2I1,R2v3,A9fcE3yxI6gj,D90u,A1,Ab5yI708O1,Ibp6L7hiO8ht,Gd2t,N1,H9rg,G1Vbyy,A3I1,A839,Fctz,I1,Dd3oZcyw,Icq4O99c,O9nm,Gd3rI8kpTbpx,Ad1x,E1Obef,A3R1,!CaH8I7L6P5T1W9wq,N8gp,W1,D82d,Eb6jO1,I821O3R1Ubfa,R8kkSbqv,A1Icxq,!B10CyDaneEd3xFuGtHsI8bwLpPoRjS8T3W1Y,Bd4j,!A1Ed13Id54,!A18D16E15I14N3Rd37S1,Lc2dR1wf,!C4ut,Id49O2Y1,N23e,E1L4yx,!Ed5dId5bSTcif,!DN1Rd5aS,E1I8h9Y,!A7vB7nC70D6lE6jF70eG5mI5kJczxL4zM4eN40O3dP37R2lS2gT2aU1mV1iW9X6Y4Z1,E6k4Id5fLczo,!B1Ld41Nd0qS,Ebb2,!A5tbS,M1,A3H1O4pb,EcxeSd57,!I1SY,!M4olP60c,!Ad40EcagIbqxS1Y,F3T1,Ed4lI4ulLczzY,Ad3mEcz6,!Ed4mFbnsHclaIcguS,M2N1O9s0,!Ed4vG4LcroNbz8O1RareS211,!AcjaEd4qId5vP743S,Ld5uN1,CciwS3xzZb7v,!Ed5wIb3rSY,G1,R1,I4U1,!ST1,Ed65Id63Obzt,!A2Ebj6M1S8j2,!Acf9DRc7fSY,AcfaE1Id66,!Ed69I8d1S9doY,T1,H1,G1,Cd66Rd69,A1Od5aR6hw,Ed6bRr5,Nbzt,!Ed5aI4vaSY,!W9dj,!H9khT6s9,U97s,!Ad4vB7D84iE6Icr3K5L4N3PcneS2T1,!AcjzEd6mId6kMbv3S,B15C11FwGrIpKd5mMhNcl2PfSce7T8nsUbVd4zW2Y1,Ucsm,!Ed6pF1Id6nLbgwNbznS,Ab89EbyiIcbq,!Icaw,!Ed5lF9ezI8imL2ST1W1jaY,!I88lSY,D5M2R1,G6cz,I19Y,!G1S,Ed6dLd6u,Cd6jD1Gd6j,!AckdEd10Ibs7M67uY,S1T,A8C6dzD7E9skG5I3Kd6yN4giS1W,E4mlId71Y,Ed74Id72L1,!B1Lc0hS,DGd6qRd72Sd1z,!AckkEd60I4w0PcorSWc9uY,T1,!AcgbEd62IcrrM8gvS,L1Y,B1r3,!A1Ed5jId7aS,K1,Ed67I7cjY,!Lcu7P1Sbe9T,N4uf,!Ed6aI1Lbt5S,!AcgkL1Ncu5Rbz8S60wT7tvWbrk,AcglE1Ics1,Ed5eI4wdY,L1,Z1,BiEhFfLdNaP8V4Z1,DR5wySd6p,!E1Id7nNd2xSY,L1,Davq,N527,E2O1,Nd3qSd7e,Ed3sGd2cI1,!Ed7wI6vdSY,Ld7uP1,C6zb,I1,Ed6sIc10,DR1bf,Ad6cE1Icsk,Cd7bEd6j,!Hbg8I1Y,!C5eeHcnlK6L5O9r0P3S1TW8tr,Kd66,Iaer,H1,P1,Ed0qH4Kd6aO1S510,!IbslSY,T1,H1,H84n,G2Kd8cT1,!Dd8dEd79Id8eS,Ed6bI8kbY,N2S1,Ga8wId7bLtMqNoOmPeS9U4Vcz5W1,E6bnId4f,G1,E8m7Nd8lSd7e,E8d1I1Y,!Tc9d,!G2M732S1,Cc70Sd2w,!Ed40I1S,D1,A6g7,E1Ld31,Rd7uSbuo,I1,Ed0oKd79Nd8t,I1Y,!B5F3HcofL1M8p6R89vS6l4,Nd1zRSd81,!Ac1xE1S,K1,A9luE939,H839,B8p3DkGgIdM6N3P2Sd84T1,Ud28,D1,Bd7jD8e9S1,Ad1wOd81Y,T5bo,L1,!A1Tazr,!A5E6czI8s2L4Nd4lO92hP57sS1W9ee,A2rE2cI1rOvU9Y1,SbhzTd7fZd3m,!I1Ld7zS,Dd9dL1,Ed8bI513,Actr,Ed5bOczfT1,N77b,!B4I2O1S,Ld85Td9j,IbvsO8oz,L8pb,A1Ebx5,!B3Ed8kI527La1lPcrbSTd5jW1Y,Ld03Ncub,!Ad92Ed9tI1LcwlSUcriW9gu,A7Ed9qH9p6IK3T1,!DEd7oS,Nd9vSbx8,!D4bnE2G51rI1S,Ed8rI5j1Od9u,!Ed8sI9skL1S,Acum,Dd90Ed5aN1,Eda2I9sn,!ST1,!Cc1fL5N3ST1,!E7iLd94S,F1,NcuqUd8z,!O1S,!Kcx9Tda5,!D709S,E1Ida9,Ed8jOd98,AbfwFbp7M1Ncqp,Ec6oI1,!V7s8,!Ac3cEbrpIkNd5oS1Y,C3Id9hL1Nd5pSd9gY,D4is,N1,U1,O1,Uams,R1,!T1,A6v0,!B73tCc8vEbrzF5Hcq6IdaoLd99Nd5yS2W1,U86d,O1,AY,Pa1z,O1,IcapK1Ycvy,I5qk,T1,R1,Ed2rLd9jNbw8Sdak,!C9wrEd9uI1La2vSY,AdayBcDc2kFaK9M6O3P1,CdabSdan,Edb0Hda8I1,H8n9,R1,Raa6,A1,E1,E4R1,AbcuIcgb,!L1S,DO9xi,!A8w8E1H2s3I8i6SY,SdajT,DRS1,AcouE1I6gj,!Ad5oCeD8E6G4IcrkKd2vLct2N1STdbf,Ld6n,AdazOdbg,L2M1,I1,C1N445,E1,O200,EdbgScq8,I1Y,L1,O1Sbzo,!D6L5Mbj5P1STdar,!X8sn,T6bo,AazrI1,C1,E4I1,!AdaaE6f3IdbyL1PbxoS,!Ua53,!B3ymL1McubNd81STa76,!DSda1,Ad9xNdc3Od9x,Ec5e,D96b,!D2E1Idc5S,!Cdc4Mcz6S,!Adc5Idb8S,A8BbutE7I6Mbh2N3O2R1SdbbUd6g,!EdcbI6wcSY,O6dd,Ec63,!BctyC2Edb7H1I8o8L8d8Mc0vO76nPd9hRwbSUcx3Y,K4T1,H9jv,AdarEdc7F9ko,C2Ed05I1Y,!Ad7eIS,R1,I1,V1,M1,!IdbmSYc2h,T1,E1,L7z1,E1,A3cB37C2zD2wE2pF2nG2lI2kK2iL2cM1rN1bOzPtRjSeTbU6V3X1,NdctSbjy,!Ebu4I1LchuNd83S,F1Vdcl,R1,L7gwT,Ea2uL1,D8bnEdauIdcy,N1,A5E3I1,Ccon,BdbfDcpzR1,U18c,B1,!Acm9DIcxpRdd3S6v5W7aa,E4l6Idd6,Ed96I8ns,Cd1vSd40T1,!McskSTbwh,I2O1,T92a,M2S1Tb77,!Id6sLddbS,A2E1Ocyu,Hbu9,T1,R1,Rcu2,Ebq4,T1,N1,Nqx,U1,Sd62Tcwq,E1,N1,I1,Xbb1,G2ov,E2O1,Obie,N1,E1,Sb5oTauc,P1,Gd6eSbb9,I6qq,M1,Nd6hRd6x,A4E2O1,Edd7Id4z,Ea40O1,Sbii,O1,EaH5LcuaN3R1,Y9nr,H1,Xd6q,Cd6rNd77P9w2,A2O1R5bt,AyCxEuFsG9cyKoLlMiP6R4T1Ucup,A1eB1cE1bIcz0K1aN12S1V5wc,A24xE1deH1d5Ih7JgzO93R55U1qW1hY1,Rcmi,E1Lbt7Rddk,Rbwh,O1,D1,OczeUd8v,R1,Lc8hUde6,BddrCdel,!Wchg,!AczjDb53Ed1nIbz4O2SczhY1,A6lhU794,DRdesS7k7,!E1IczfS,HddvIc84L8fa,Tasu,I1,L1,!Hbn6P1Tddz,Rd8gUd7q,O1,!W8ka,DN1,Ed6yGc88KddjNc0f,I1Y,Ad8mEd8mObq1,U8bv,Icwi,Ka1a,A1Ideb,!Ede6H1Tbxx,Ac8bO2g5,!BcEaI8raL8M7N9ybPcvsQ6R5S2W1Y,H1,G8w6Tbqi,A9yuI1Ob65,!A8xeDuEdfkFtId02LqMpNnPmRa7eSiT3W1,!DFc1sLdfhMdebS,!EddtMc8c,!LddnN1S,R1,!Bd8aE1Id07SW8v0,Gd2d,N1,I1,O1,!G1,EaI2vfT6Y1,NRch4,!A6kpE1HId0fS,P8w4,O1,R1,!D1,!DS1,E1,CdfoG1jL1gN8rhRkS9T7U8jnV1,!E8kjIdg3S,EdfwSdadTdf5Zdad,!I1SY,N1,E429Tdbd,I1,L1,L1,B8O5U1,Dcqx,RdbaU1,R5r9,T1,N1,Mbnf,Y1,T9ml,!ELS1,A1O7p5,I1,S1,E1,E9H7L1Rc0d,LSdfk,A1S,EdgkI1Oc6n,S1,Y1,Sct2,LdfxOa33,!DL1SV2ol,N9ru,IOdcpUdgr,C1,C1,O1,Td4s,!A1S,M1,R1,E1,C6D1Iddm,AczyGIO1Udh1,DcN1Uclc,Mdh9P53v,A1,R1,G1,O1,I1,D1,R1,A1,DRdhiSY,CNdhmSdbt,Ldag,A1Ed4iO988,!C5E4G6ifI3L1SV9yk,AcanEsIfO1,!C9qyS,R1,P44,I2M1Tdhr,I9g4,T1,C1,EdftIdg7,S1Td5k,P1,IdcxUdh1,G1Sdd7,A9E6I3O1,Rbdj,T1,S1,A1,T1,A1Id63,R8es,O8x9,!AddzIdfgS,C1Sdh6,I1,R1,T1,Cd73Edi8SbwiZd94,E2I1Y,B8shM1,O1,Iad8,S1,Y1,H1,E5r5Haai,T6tz,S1,P3Y1,Nd6oUadd,O1Ya86,CmFlLkNbP7S3T1,S1pc,A1Udiu,A5xc,T1,Y5a3,Rbgy,EdhzO1,Ab5v,R1,A1Ibc7L93s,Rd6s,A1,Rant,E1,Obfu,H2R1,AbkpOdcq,O1,D56uMcP9S7T3Z1,Pd7a,AcuwHgO2Y1,!A7zeId8nS,C1Sddg,I1,N1,E1,!M1S,!STd7b,A1,M1,E1,A3dB58wC31D2wE2vH21L1oOwRuSsTbU5Z1,Od7hTdht,I1,Hdf8,C2P1,IcjqOdj1Yd4z,Idf7,E1,W1,AdewUd2y,IdauT1,L3McsqN1,!DLd6wRdk0SW8by,E1Ic5cY,IdaoL48h,AdfaEdk3,C1Ede8,I1Yd5b,Sdj2Zdfc,!I1LdiuS,L1,A1,!I1Sd51,R1,!AdiqEdkgIdi8O1RdfoS,BbCcqzF8LdjgT1,!Ac8lEd1pIddkS,N1,NdkjO1Vdiw,E5u3I1Odis,B24eT1,!IcrdOdiuS,A2EdiiI9qyT1,Oczo,C1,I39e,A1,C5L3T1,!AyDxErGpHdkqIdU1,!G6y8Iad5LcpuPg4SWbbgY,E8rhLdjfNdg4,I1Y,L3R1,E10qIdkx,BdjbC1,Edd9Idgs,Ndl1V1,L9soTdcy,A1,!EdjyI3OdjcSU1,T1,Cdj7Tdg6,A1,N1,I1,Ecz2,EchlV1,C7M3N4ozR1Tdeb,Edl4Odb9Tdje,I1Y,C1,A1Icsq,C1G3vr,R1zx,EbrqVb6qX2vf,O2U1,!F9ttLc7sS,T1,R1,Tahq,N1,O1,G4q5,L1S2ql,!AuEhIcL9O6R3SU1,!Odh5,!S1,!F3ST1,A49mEdlu,T1,!I1,DdlxL1,!AEdm2Id3cS,T1,Rdm0S1,E8pc,!AdkdB1C6p6EdkzH7epIdm4Ld8yN6thPazyS4xyY,N8t1Tadz,Mb06,A2O1,C9whSdgg,I1,R1,T1,N1,E1,!Cdb1S,A1,I1,N1,A1,I9l5,!C7I9l6Ld9eM2ST1,GdcgS28cTdmj,E1,Tdjr,P1,AqEnGlIdluLiO5R3Y1,A9tl,S1,O1,!D8ksS,!R1Tdi9,L1f6S,E2O1,Lanc,A1E7wg,Mb2cV1,N1,N4b5,E1,Ochp,STd08,E1,!E4F3HdjzI1SVdhpY,T1,E8H1,Opn,!IceuS,N1,I1,E1,T1,KbxpS1,Gbq3,U,!A1IdecS,D1,O1,F1,D1,D1,E1,E9T1Wacj,CyDuGiKhNbRbapS1Tbaf,Ubbu,C1,!A9e3EdnvI3o7MdmlOdm2S,T1,C1,A4E1,NdnySdbi,W1ha,Xd9t,E1,Edme,EdlyI5P4T2U1,T25m,A1,R1,O1,Hc7vI4fhSdig,Nd1b,A1,R1,B1,O1,TdmfZcxm,!Adk2I1S,C1Ndod,Mclo,Ad5qI2O1,M6T1,DdohNdohTdnk,!I1S,!DdhmR1S,E1I3p0,BhIdmiN5j4PgS5T1,W4wa,O1,!B8y5L2ivSd9f,R1Sdnu,CdoeTb3f,Edk4I1,!E3R1S,M2nn,!E87zS,N1,NdozO1Vdh7,!Aa3mS,R1,Sdo6Tdoz,AdmxTdn4,!AdihI1S,C1Fd6x,Sdcq,U1,O1,Y62h,L1,A1,C4N1,MdpaP9ea,A1,R1,G1,O1,I1,D1,R1,Cd1wS972,I1,M1,E1,Lapc,U1,V1,G6qi,O1,C1,I1,T1,N6R1,AeHaO1Udht,S11m,O1,Mdpa,C9gm,!I1,!P4R3S1,L5bs,A1,IddtOdd5,M1,A1,N1,E7I5Y1,R2y1,G1,O1,L1,A1,H1,P1,E1,C1,DN1,Haih,S1,I1O9k7,EbhuRcb9,Uc6j,A1,R1,D1,Y1,Nb0m,I1,SdmnTblsZdl5,EddsObjhU81jY1,Nc1j,A1,H1,U5na,L1,L1,A1Edpd,C5T1,AazhE1Y1q,T84e,A1,G1,!E1Id48S,Mdr9Pbao,A1,R1,G1,O1,L1,U1,C1Sb1,R1r,EdriIcqu,L1,Idn2O1v,Sbn9T1,E1IUdrg,R1Tbj1,L9g,O1,I1,S1,EbI9O5Y1,Sb59,H2Ldi2O1,N9hl,I1,T1,E1,!CbdlHc2aT2nzU5ou,A8c0Md4e,R1,E1,IdnlUdra,N1,Pdiv,H4O2Y1,Ad6q,E1I8x1,!A30C2eD21E1rF1oG1nH1iIdsbJclpK1gL1eM15N11OtPfRbSaT3W1,E3bI38O1Udmk,!Ad1hEadqI3fO3dR1SUbge,A3jT1,Id3k,O1,Y6dk,S1,O1,M1,Ad4oEdsdSc6nTdsjZdmu,A4eoI1Y,LdpgRaa1,!A1S,T1,N1,E1Idsp,Id7qUdsk,H1Tdbv,C1,AdolNdr9,!I1S,T1,N1,A1,H1,E5niIdqvOdra,T1,!Sds9Td67,N1,A3E1Odr0,CsDqEmGkMfNcP6V1,Ndt5Scgl,IcyaOcmy,!I2L1,!AdofEdtcIdtaOdrjS,T1,I1,Edr9I9zp,B9oi,I1,Nbhb,I1,C6D5G3M1NdscSdooTb3dXdrq,!H8vyS,EdtiIdtcObt4,C6l1,I1,S3T1,P1,!I1S,U1tr,GdjrNdl6,Udjf,C3Dda7I2N1ytPcw6Q1,Ecju,H1,!W1,!E1,NdssTdsz,Dbhu,I1U2h4,EdrxIdrvRdrr,!LTdlz,A1Udob,I1,A7C5DdktEdsyS20bT4V1,E9c1Ichj,Idu9NUdtz,AO1Udre,R1,ScurT1,!A5oB5mD5hE15F12H944ItKsLmM8qmOiSeU6V5Y1,E6m9,G1,N1,A1,NduhOdni,EdsdI1Odsq,T1,A1,P1,I1,AbiiC1,Aczu,N1,I1,G1,U2dg,C1,CcqrLeN7R3S1,Mdtl,Kdfc,D6zy,A1,Odmm,!Adq4Edv1IduzMdtrS,!AdtcE8fqIdqxMdts,S1,S1,A1Edv5Idv3,!C7G6K5R1S,Ad8kIduwY,S1,LdNcR3S1T187Ydfo,!D36sMdu0S,I7y3,L1,Z8oy,D4L2RdvaZ1,T8p9,T1,!EduaIdvfMdu7RdthS,N1,EdrgIdvhO1,Z1,Cce2Zdps,I1,T1,Tdve,DN1,!A3E1IdvoS,M1,A8E1,EdptMduj,I1Ydgw,!CEdvlSb0fZdhh,D8uhE53oI1UdvmY,P5uc,KdvvOd4pSdpx,Hd6f,Ia58,O1,E1,G1,C5R1,DLaj3Rdw2,!E1Idw4S,DdLbNaR3jeS9U3W1,!AduiDMduyOdufRcxgS,E1Iah5,C1N1aeSd6q,T199,Ea6u,D1Ldgs,Cdi0I1Waij,Edu9IdwdTdqm,Ed7vIdbtY,N1,E1,LTd5q,!A1IdryS,!G3IdsxLbg9N1P600S,O1,AdIcO9U8Y1,A1fE1aI18LwOhR1,Eai6,Bdv1Tdol,!A1EdvkIdwpS,D1,!DNdn9S,E1Idws,EdwlTc50,DdwsIdt8,AcifG3I2O1S3bgY,Cd9vNdnv,I1,!Ec1vN8R3SbvyT1Ucjp,A4gbEdwx,R1,AdjgIdnd,S1,Adt3EdvyIdx3,!ST1,CG5N4j6RcdhS3T1,O8xo,G1,A1,N1Rdx7Tdx7,E1,LdqiUb1f,!Id8kLdvx,L1,!A1LcjmS,N1,NdxhO1Vcu5,EdtgI1,Ddf4L7T1,AcgyE9e4,Cdt7EdxcSdrtZdrt,Ed57I1Y,H1,LdobN4T1,IdxfO4r2Y,N3muR1,SccjZdrz,EdxjI1,S1Tdt7,Ae7Idon,M1,E1,S1,A5Y1,!AdrcIdrwS,C1,EdxyI1,R1,CdigNdsb,!AquE1ydIdy3MdwvS,Y1,A3O1,S1ac,I1RbjfW8s3,Mdx0S,!E1,S1,S1,SdxdZdxd,E2I1,DRdycSdt9,EdtqGdy7S,E2Ldx1N1,I1Ydjl,R8ok,AcyoIdpd,M1,Aaqu,E1,E3R1,A11EzHrInLjOhRbT7U6Y1,EdwlId4sOdwy,T1,Adx3CdkfEdst,I1Ydjw,F1OdwoVdx7,I1Obye,A5OdosS1,!L1S,!A44B2bC2aE1zFdyvI1sM1nO1fP9SU1Ydh2,!Edz0Id5jMdxqOd5wS,T1,!EdxvIahnLckqSW947,L1,RcueUd57,E2Idy3O1,R1mn,EcweO1,M1,O1,I1,T1,B7r1CbM7N1Tcoz,Nbh8,Pdjt,L4de,U1,S1,EdjvH1n9Idzg,E6GdtqM5P2S1Uac,Nduf,I5mjOcqj,T1,Hd0v,MdzkP1,A1,R1,Tapf,I1,L1,I749,D1,R1,A1,C1,E6O1,Y1,GbM1NPcdo,AIgO1,L1,A1,H1,ImP1,!Edz0Idw2MdyxRdvfS,T1,Id79N1Sdqv,Acjn,I64c,D1,I1,L4R1,A6I1Odje,Rdz5,E1,H1,C9ar,N3v8P2R1,S8zsVdzk,A1Ido5O1hn,!Scfk,A1Uduu,Sdz4,S1,A1,I4P1,Gcc5,A1,N8ouR1,DdriM4Rdv3U1,M6qp,A9nk,Pdt1,I3O2Ucw8Y1,Ccm6,N1,A1,Ed77R1,B1,M1,Caa5,Ddu0,E1,Ae16CdwvSdv7,I1,D1,A4E1,P1,I8O1,L1,C1Sch0,A1zE1cH13IyLwOmRiUcY1,Bacd,E1,Adr9E2O1,G8vg,H6qx,E59g,R1,E1,C4T1,M7N6R1,R1ieV8wx,Ae13Cac1Sdw0,I1,Odgg,!G1MdkxS,A5DM3R1Xdnq,NdmiTdw6Ve0y,Ae1oSdrw,E1Oe1z,Ibbi,AdvqTde8Udz7,I1,D1Pe21,R1Se0y,Dbe7,N1,O1,Ee26O5mw,N1,I1,Sc1qTdld,O1,T1,AaH7R4Y1,!Ae1qIe1kS,M1,R1,CdfhSe1c,I1,T1,N1,E5O1,NaroR95v,!Idi3Od5hSY,N1,AcfiE1,Haqb,P1,M1,Ic3pY1,AdwkOc29TapbUe01,I1,R1,T1,Tc9xXdf6,!I8n3SY,H1,P1,R1,E6I5O1,Lc2g,AdkfO1,E1,L1,C1,U1,Ee39Idfb,T1,I1,S1,A1,R1,Pc76R5ua,D6su,I1,O1,L1,P1,Y1,D858L1,A9E8H523L9odO1,Ae22EaopIe3qOe1z,P6uqS1,Ocff,EbuhOe2r,E6dmYdll,Ne2pSdzmTdmx,O1,I1,B1,M1,AkvC8K2zzM6zdOd87P7T6U77hY1,AdxqOd44Ue17,I1,M9tx,CbxuL2R1,E1,Xd84,Cbf0,A1Oc0t,H4O3R1,B2aC1wD1oE1nG1kL1gM16N10PlRjSaT1We31Zbxg,A3puLdz7O9fc,A9r9Ee28I4juOe4a,Ee29Ie4dR1,!A2oB8qtE2iG9fuI2hL2fMcx6N9diO4P3Rdm0SU1W8wa,Ad4kIe46Y,De4eEe48SdypZdzk,Eat4I1Y,G1Vdwd,M4R1,B9eu,Fdp2,F1,E3O1T8soV92l,L3vi,Rcy7,U1,A93qE1,!AddwDMe3kRe4qS,E1Ie4t,C1,Ldw9R1,MdpaN1j7,A1,AcgjEbIaL7O3R1,A90n,L1,GcgfR1,N3sb,!DE9liRe35S,E1Ie54Odsu,D90gT,LdxzN2R1,Icr7U90w,R2bm,Le58Ne58,FckvI1Md4aV7bg,Sdas,S1,A3O1,Lt,!AeEdI9L8O7R2SU1,Oclc,Ne0w,O1,M1,L4NbteR1,A1,AIc65,!ST1,A1,M1,G1S94f,DMe4j,E1Me4k,B1,M1,!A66iEe4qIe5vMe4nS,IdvwY1,A3O1,H4pn,P1,N8y7,E2I1,Gl5,CdqhR1,T93y,H1,T28q,G2S1V94u,A5I1,E1jiIe22,Ddx3Ge1m,A1,B8zz,Ee05,Ie6cY1,E4O3U1,!D933S,I1,!AdnrIdxcOcmlS,M260,GdjoNci5,K4L3R2SdisU1We6j,A741,L1,R760,I1,U1,!Uahz,T1,Ge12P1V882,S8uv,I1,G1,!L29hS,BdxmL1Odwc,A6E3I9tnO1,U74e,G1,M3w0N1,O8b8,O54eR1,M7bzR2k,H52z,T1,A1,!DEe77Me61S,E1Ie7a,N1,I1O8vr,E5R1,Adx4Ee5aIe7e,FdmeG690L1,!Ee7iIe7g,Id7cY1,A8x2,Ee3iIe7jLe7i,R1,A1,!Ee7oIe7mLds3S,L1,E1,C1,R1Udz1,H539,Ee5oIe7sRdyg,A8vw,!AsCqEpHhIfKdLcN9O4P3U2W1,Aaqa,L1,E6gO6f,G91l,Ee7rIczpTdr1,B4I2boM3N2S1,Cbre,E1Ld3o,!Be6gLe6n,Iaul,CNe86T1,A433Ic2h,F5u1,A1,M1,O1,R1,Ae7nIUe84,C1,!Ee8cIdz8Odw4S,L1,C3E1L8o,H6O1,Tc20,S1,A1,Ndpt,I1,Gbvm,Ie8fO1Y,H1,T1,A1,M8pu,O1,T1,BpCeGbK9Ne8tP4S1Td3eVdgy,S4zt,I1,R1,N1nl,I1,A1,!AzEe7xIxO7P4ST1,L11Ne40R1,L8t2,!LdtmS,L1,A1Oa4y,AchtNe99,Ee75I1,S1,Eddi,M1,A9EdnxR6U3Y1,E6ok,Ie96LdttY,ACckuR2T1,M9t8,R1,E1,Usm,A1,Gdxb,A1Ib0q,H1,F4LbtfP1,Bdu7O1,Od9a,Ie0mR1,AasjIe0nOe38,O1,DcIe16M5P3U56Z1,Le9oNe8n,!DMe8pSWcu1,E1Ie9y,C1Te9x,!Me8sPcvqS,I5N2P1,Ee9uNe60,!Eea5I1Me8vSY,T1,HchzOe52,Eek,C1nh,!I8q5Sdux,R1,U1,E1,N1,E1,Oe98R1,AbCaEeadM9N8P1Scmk,Ce63Eea8Oe8b,I1Y,P1,!Wcun,AjE5IeabO2U1lwY1,Ne4uSdzz,I1,A2nE1kH1aI17OsR3W1,Ee2j,L1,Be19Tdbw,A1,R1,E1,Ie8f,C1,!Iea1,!DS1Tdyj,E1Ieay,CaM6N4R1,!Ee8wIeb0Me9sS,P1,O1,Neb4Zdwr,!Eeb6I1S,M1,O1,L5N1,!A4g1S,T1,N1,E1,!EebeIebcM1S,N1,O1,Ae15I71a,A6c3Ee5iOe1dR2S1,EaI1O8waY2kt,Ee2t,E1,N8za,M9a6Ue4a,A9rhE3t,H4I3O2R1,!AdjaEebmIe74Oc46S,M1,ObetY1,!AchCabD7dE78F6tG6cH66I61J5uK5qL5jM5iN5cO56P54Q51R4sS3xT14UsVaW4Z1,Idoi,Pd7f,P1,I1,Ae5bPdtmTcol,Pdtn,I2O1,Ae5eSe67,!I1S,!Ie4wS,L1,I1,H1,P1,!Eec4Ie30O1S,N1,I1,BhHeLbN9S1,Ccp,!STduc,T1,E1,L1,Ceb9R5U1Z9lj,E2ar,G1,Ie3cO1,R1,Ydvt,D1T69d,Gebm,Se8eTcd5,E1,G1,E1,Ee5uI8N6R5X1,EecqIdrqOahiUeck,AecrId2o,R1,!ELe7bS,Dea8S,A2I1Oe6c,R1,E1,B8D6M1,DeczR30i,Acs6E2O1,L633Oc5y,!LebpYa0n,DddxPed3,L2R1,EebgRech,Eed6Ie4iT1,Dc6zN1,H63f,O1,R1,O1,L1,Nba0,I1,T1,N1Tduw,!Ad2aS,E1Ie4u,C4ai,I1,R3T1,EedmIe4iOcd8,L1,C1,!AlEiHdLdisO9RccfSU4Y1,CcamOm2,I1,!Aed5I6yfOe1lS,M1,M3N4i9R1,S284,DedpSTb0e,AedaI1,M1,Y1,A5D1,E7I1Odu7Ubq5,Aa1dOecr,Sdx5,!Se9xTe9l,E1Ie51,Ab35Ie52N1Oe1y,AedkI7ra,T1,T1,O1,!CSe8l,!EeecI1Oe24SUee6,N1,Cea3Se8fZe54,I1,T1,A1,!M1S,!EecuI9tmSY,H1,M3P1,A1,AkEhLdOaR1Y28o,CdrpFdtp,Gc1qIeet,I2O1,SecvT1,P1,Nea1,M1,!SUe96,G1,Aea4E5I3O1,!Adw9EeeyIe5uS,R1,E1Y29v,OajtSeaw,R95t,H1,Rc0e,P2U1,A5E1,Nb48,!L8v9,A1Oe8q,N1,E1,M1,O1,N1,Ab3s,LdcpTe34,EefhIbnzO1,Sdo0T1,AcE5R4Y1,E9isH1,CedpLee7Teeo,A1Eefm,P1,IeesO1,Ob2b,EefqIcgb,D1Maty,EefmS,EefnI1Y,S1TdyyXebn,IebdOauy,M1,L4i0Mef0,A4E2Ld17O1RcbgYdxr,CbIaO8T1,AefdC,!I1S,H1,Ae9jCEefx,I1Y,P3SebyX1,ACOe9nUeag,I1,M1,A1,L1,!Idei,!L1,A1O4wuUeanZdra,I1,L1Tcyz,A6E1,CdevSeasZeas,EegiI1,M1Pefm,AfH4O1,CSeavTefo,Ga9m,O1,L1,CegpEegjO1,I1Y,NT1,AI7O1,O1,B3tC35D2tF2sG27L1xM1uN1oP1aSvTaZ1,Yb9e,Ee9c,Eeg0O1,Aec5EegyId8y,D1Eefj,I1Y9m,Ca0yDeg4N6P4Seg9X1,L83w,I1,A4rE4fH44IaO3S1,Neh8Se7vT54wZecb,!EehaI1L5njS,I1xs,!IegkSWea1,R1,Eef8I8nhO1,Be40L5N4T1,Aef9E6m9,I1,R1,T1,Re3xS1,Ge0n,N1,Oe0m,L1,A1,A5wz,T1,S1,!I1S,NegmTdkr,AScwsUec1,A2I1,R1,B1,A4nkI1,Tdjf,C1Xeh5,EeetIedtO1,Ldmx,Re8n,E1,D1,Nc3h,E1,I95zL6N3T1,B4tk,O1,!AdvpMeh2O3P9yjR1S,Tc3k,E1,Be50NehgTedj,A1Eei6Iei5Y,L9bn,Laq3Teg9,A1,C1KehjQbix,A4O1,A10CxDtLnM5x7NkPaS8T6V1,A18E13I1,U1,Ae8uCeg8,I1,!AdrtEeeoIegjUehn,!D2S1,Le94NeisOegmVeh5,!Aeh4EehnI1LehdNee2Oeh1S,T1,Oeiu,EeitI1a7,T1,Re1l,I2U1,Hduy,!C7L6M2NbazPdu5T1Wadu,Pa3o,Ie9wO1,T1,S1Tb55,MgmVe4z,O1,T67v,CSedgZdsh,!AckqI1S,!DdijGccaM2yqN4S3T1,!A7O1S,AawlOe73,Gd2e,Ydni,H1,P1,Tdvj,C6GaylN5O2S1,E4sjI5dd,IeaeOe7a,N1,E1,Ee6cIefg,Bei1OdthV1,!EegiI1,SedpZdul,!AehaI1S,C1See0Zdun,I1Ob6,DbG8S5T1,!LeigRehxS,CehyDejuT1,AejvIaq0Ueh3,N2T1,Ee9v,N1Rdbs,!A3Eek3He5vIefyO1S,T95a,Hdh3,!W1,!A3EejxT1,T8s4,I1,Pe7m,BeimNekaOei4Vefa,!EekcI1S,T1,C1ulD5GeevM4P1,L73w,E1,P1,I1,Befd,R1,MehaTe3l,S1Tejl,!IebfOegbS,T1,S1,A1,L1,SeghTdoo,E1,I1,O1,B5C5j8IekwM3c5NeksP1S9bj,Ee0eIbO1,E118OeR1,H1,N1lSiT1,!A29BcpaE1zG1oI1hL8i9M3y0NebyO15RySuUnVeguY1,R92v,DebpTdo0,O9kb,A2L1O9kc,Ae6kEb63Id0tOcdm,!GctbOe2wPe5mS,D6L3P2R1,!Oe8sS,La6i,O1,LctgR3T1,A4laW9ba,A2E1,Ld3yRearTelc,Oa8c,T1,I1O9a0,H6dd,C1,AdyyDeg2LekbT1,AeH8O7R4U1,MbnpRe7fS,AejvEejv,EekxIUelf,G1,A1,H1,!Lehg,!A1Ied2,C1,I1,R1,E1,P7T1,I9jw,Lel5,O1,D11L3N1Rddg,C8v7R5c7,!R971,E1,L1,DG1S,AeloE1O4bc,Ne7n,A1,Sawe,U1,Segv,S1,E1Iel8,AeEdI8L6O4R1Ye7j,Iaxo,U1,NemjSd1h,!EeleI1S,Y1,!I5ajLel6NehvS,L1,A1,I1,CelqT1,N1S,IekmNdye,!A8E2O1,!A5ajS,T1,N1,E1,!Ael9EegzIemxM1,H1,S1,I1,L1,I8ku,Cefh,B3M2N1Tehd,!Ae4eI3dkS,EdvzR1,Aen5Semd,Een0I1,!IebrS,C1,Een9I1,S4T1,E1,B6o2Tdok,A1,M1Vdkt,E7vfIenh,!P1S,P1V9hq,Iczp,D1GeixLN5ehYenk,Aed0,NenlOen4,E6zj,G1NemqUenh,Aen1MenoSemw,A6E5I4O2U1,Aen3EenkNem6,I1Y,R1,A1,AsEqHjIgOdR5U1,R604,!C2eE2dK2cO21P1jQ1hS16T2U1,S4l5,I1,!GbfvLejdM9eqPen2ST1,!AemvEei4Ie8m,E65fH1,!Idg2LempNejeS,L1,A1EI7yz,N1,R1Selc,Td0e,U1,B1,!AcptS,L1,EeocO1,M4N1,Hejs,!IdzbLen2Nejr,L1,A1,CFd3gSeo6Zejo,!E2I1S,NennP6R1,AemiSenhZeiw,!A4nwI1S,!Ae6oIenpS,N1,C3Ne65O1,Ococ,Nd4x,A1,T1,O1,Cdo8Sej5,I1,R1,T1,N1,E1,AemyCdnfEeov,I1Y,R1,O1,T1,S1,I1,Daq3,O1,H1,T1,C3ya,I1,S1,E4U1,I4ej,!C1Eepb,BoCiGahlHbLakfM3S1,Ae2nIcmeO1,IepdYd0x,L8y8SeotX1,Tekk,E1,C1,A1,A1,R1,T1,E1,T1,E1,N1,I1,M1,A1,I1,!D1S,E1Iegy,N1,!AegdB6goE1Ieh0S,Eeq5Yepo,L2N1,!A1uE1nI1iM1hNoOmSY1,Gaq4,Aei7O1,L1,CO1Q8t2,Fabb,F1,Ie87U1,DepiIeqf,Ce2uEeqaSd4kZekr,I1Y,G1,O1,L1Neqk,AO1,M1,!A2oC2mE2hHgIcNeprO9U8WabmY1,!IOciySUepv,T1,P1,Y1,Y9zy,IepvL2R1,!EeqoTe9y,S1,I1,R1,Tduy,A1,M1,EeozIer3O1,A5R1,EdrnIdrn,D1,Ae8gI1,AdH4L1Rce2,N3m6,O1,M1,Odw2,M1,E3I1,M8l6,O1,A3Ea8lI1,!Aen6IekmS,AerhC1Seqd,I1Oer1,I9yl,L1,C1,N1,Y1,S1,N7O1,AerqOdvw,N1,E1Obyq,E4L1,Iauh,R1,E1,M1,E1,Oe85,Y1,R1,A1,Aeq0Oeq0,H1,C1,AejrEes0SdhoUemgZeiw,I1Y,G1,A4O1,!IejmOdwgS,H1,C1,U1,Mdo2,Y1,N1,R6a6,T1,SckbTebn,P1,Idwr,S1,U1,SbjgZeje,I1,M1Nege,CeogEeslOeiqUen1,I1Y,!NerpS,A1Ceoj,BelbI1,N4R1Tec0,AarqOes0,AbE8O2R1Ud1k,EcxoOcxn,AiEgH2Ld5cN1,Kdt9,H92x,T1,Y1,Pebv,!KdcrPcxjS,A9wo,A419,E2j5,T1,AesoIek7Oeh3,M1,R1,E1Me61,H1Oc38,B9H8O1leP6T1,EgHdIcObY1,CermTecm,A1Eebc,T1,IehaOdxr,T1,C1,SemkT3br,A1Idlp,N1,CetlSesn,I1,N1Reqz,A4E1Ybo5,C7rgEetp,I1Y,H1,P1,O1,A783EdH6R1,Eczt,C2wD2nG29H24K20L1tN1pO1mP12RlSiT2X1,NeszTebg,A1Eet7,U1,AeskEeq7Ib0k,Uci4,CdctSd2wZe55,!I1S,L1,E1,E3b7G1Idge,AcibIeaj,I96s,P1,S1,N1,A1,R1,R7T1,O1,ChDgG5uoLfNaP1Sd60,Aelt,!Fb2zIeg6LehkSU692,!EdgcFazuH2IefbLetcNeq1S4bzT1,Meo0,O1,O1,L1,Ubup,LegcR7cw,T3mz,S1,A1,BeteOesw,I1,Od4t,Yeht,A1,AetrH11cOdd3,!B4D2MdjqOeiiPbn4TbzmW1,!BdDcGbL8Md5sS6T75kY1,!CeqeNiR1S,!EbgnIet4OetjS,T1,LetwRetx,A1,!I1Letz,CepoT1,N1,E1,!D6ekEenbLahgNeqsS,BetwNevkVetx,EetgI1,C1,E3ir,C1,CdD7L6N3S1Tb12,Beu2T5hw,A1,!Ae15IeppS,N1,O1,EevsI1,T1,U1Vecc,C7KemlL1N3g,Ldqw,A1bEqIbO2U1Zeuy,Benv,R1,NeilOetxTcw7,!A5whEdhoI1LeuoNerdOeucS,E3T1,E7tbIedhOe33,T1,A1,R1,E1,G1,!AergEe1yIewbS,T1,BeuqNev7T693,A1E2woIewe,N1,!EeubI1P9v5S,Me72,AIencOek8,!ST1,!A1S,M1,E1,H1,I7T1,!A7t6IewgSY,H1,C1,Edn0I33y,T1,A1,R1,E1,P1,CuGoLmMiNaR7S1,A24a,V1,Da5h,EdynIex2,!Idgb,!L2S1,!IczbLevqNesf,Bdu3L1,!A1S,N1,NexaO1Vevn,!EexcI1S,T1,P35e,!EevvIemb,S1,EeLbP4R3S1,!Ae6kDRexeS,E1Iexh,G1,N1,Uekm,Q1,A3E1,IewfLewo,!DMdm7S,Aew1E1Ib1l,IeoaLej2,B1NewlT379,NeolRexq,A2EewcIetqO1,Des3MekwP7S5T1,IejkM68tVeww,Ae70EetvIb48,Eeq7Ien4,O2y2V1,I1,D4S1,A6U1,Tdp9,I1,Cclz,I1,N1,U1,M1,G6M1Rdu7,!AexlIe1nS,T1,N1,E1,C5kf,Aes4EeueIew9Oet5,M3S2T1,EewdI35n,T1,A1,I1,C1,E6U1,Pbit,OerqVero,I1Uexu,Rem4S1,B6zfTd3h,A1EeurIeys,L6R3S1,A1uE1fH18I10LtOlR8U1,BegmNexp,NeyxO1u1Vexx,!Iey7SejmY,R1,A4EeuyI3O1Ramh,T1,!RbmSU1,Rest,CdxfSexx,Eez2I1,SeuwT1,E1,LexsNeuhTex9,!I1SY,!R1,A1I3ppUewg,L1Terg,P1,T3r,U59p,S77oTel3,I1,Oee3Uend,C2G1Te8x,CiDhGdM7N6Q5R1SUeq5,Idqr,L1,O1,A5w1E375Iezn,Beq7NezpOexjVe9c,!EeykI1LdlxS,T1,S1,L5U1,!Eey2Id8eS,N1,NezwO1Vey9,!EezyI1Oe6uS,T1,I1,A5ow,B2L1,!A39iEeywIf01S,T1,R1,Mev8,AdI5O2U1,E5m8IeyiUd6d,AetmCNf08,Eey4I1,!Id8uLeyu,L1,A1,!I1S,CezeT1,DN1,!E1If0fS,T1,GbL9Me3vNeziS1Td6g,CdgcTd7g,A3y3RemdY1,!IezpS,M1,R1,Af0lSezh,I1,T1,IN1S,E5O1Uezw,Cd03,O1,R1,H1,T1,GejzY1,NbpzR1,N7u4,AbpyE1,Eei9,L1,C1Mcj0,!EdsaIerySU1,IerzOf0aUf0a,M1,L1,A1,H1,T1,Ed4zH1,Teqc,I1,EexdIf1eMf1cTdjw,S1Zevo,I1,AeztB4C1D5u0,IescOeir,Hb36Of0h,K3xjM2P1Tczy,Rex0,Aev0Ic8m,M1,R1,E1,!AfzIet0Nex0S,C1Sevz,E7H3I1Oxm,B4aoC1aD12EvGtNpPiRcS9T1,!AeayEf0pIf1uOf03S,!A587Ib4gS,N1,BesgO1Vebl,Ef1wI1,D5S1,Nf21OezvSew8,EezxI1,T1,A1,I1,!Ieu0R1S,N7T1,BevrNeyzTb8g,!A1EetfIf28O5liS,T1,!If1kLf0vS,Cez5T1,N1,Nex2Uesb,Nf2fO1,EeyeI1Of0o,E4T1,I1,Af0uEe7aIf2i,!L1S,!A1vbEf1fI25zS,Ef0hIerj,D2S1,CewwT9bs,N1,Lcw1Texv,!A1Ef1lIf2qS,T1,N1,E1,E6M1,Ef2tMf2t,Nf2xS1Zex5,!Ef2zI1Lf1iNey7S,I4T1,CqDiLgNdR1,Bf1dTe5z,Ae9oEez0IbdnY,A2R1,Ncpi,IbosOe8i,T1,A1Tdyi,I4N1,IdyeOexy,T1,BewuT589,A1I98o,C1,Bf1qTbfx,!A1Ef29Ie9zS,T1,I60aOey6,T1,A1EezhIf3i,Deu7I4R1Sevq,AdEbI8O1,A7b2,!I1S,T1,N1,E1,!Ae0kEf2lIf3qS,T1,!Ef3uIensOeaqS,Nf3uT1,U5db,!Af3cEezuI2T1Uf2t,!N7R5S1Uev9,!Af38IdciLdq5S,N1,Bf2cNf40O1Vedn,!AehfEey2I1Lf2lMdsjOf3yWdo4,S1,S1,Rf1t,P1,E3O1,Selh,CezcGeuv,!If3iSY,R1,Ef26If24O1,T1,A1,G1,L8N7R1,A29E1gI1dLvOjRaU1,Tewp,I1,S1,I1,U1,U5id,G1,N1,Ia0c,Af3iTf4o,Lf34Nf4rOf2l,!Ef4tI1S,T1,C4R1,C9m2,A8C7E2I1O6iy,Lf3gN5ceReab,SefsZf01,A2EI1,R1,O1,P1,!Aee6Ee1vIbbeS,N5uz,BevnLf3iO1Tf36Vey4,Mes5Rf53,I2O1,D5S1Tf55Uctb,!I8g1Lf3tS,R1,O1,ActgEf37If5b,N1,I1,Af0jEf3aIf5eMf5c,S1Tf3hZega,!I1Lf41S,L1,!A1Ef5gSeq7,Icj0Of3s,T1,P1,E1,C1,Ic20,R1,O1,T1,I1,IjMgNbO6R1,MtNnR1,Sezv,I1,U1,CefcG1,Pf3q,N2R1,!LexgMf4tS,Rf4nTec6,!A1Ef4cIez7S,N1,Nf66O1Vf4j,!Ef51I1S,T1,L7R1,L9kd,L1,O1gb,S1,O1,M1,O1,R1,Eeit,R1,O1,P1,R1,Nf5v,A1,!AefsEf6qIf1oOf4xS,U7j9,C1,I1,R1,R1,EkHeO9R7T6U1,Af57Ef4rIf4p,T1,I1Of62,Y154,R1,B1,M1,Act8,L1,A1,Pdmj,E1,I9gb,D1,U1,Gejm,R7sf,E1If73Y,M9qjN4idT1,E4I1Of2w,R9ql,Aeur,D1,N1RejuSf64,A4U1,La8n,C1,EexiU1,IdxnRbp1,A1,N1,I1,D1,R1,Lcvo,I9rc,M1,A1,R1,O5Y1,Sdcp,N1,Tbj2,S1,!E3Y1,Te9k,S1,E1I2f,R1,R1X4x2,E1,Ec3j,T1,Cf56Tf6wZf7e,N1Tf2m,A1,Af0bCerj,G2S1,Sf3nTdtv,Hb5nR1,A3E1,!C1qD1nE1jG1gH1eJ1bL16M11NyOsPmShTbU9V1,AEezgIexsUf5r,M1,A1bz,Sf43,C2N1,R9,E1,RdvsV1,AehxEf4sIf8t,D1Seby,AbE9I6O3U1,Bez2,AezjE33I2xO2pR2U1,Nf55Tf37,A1,R1,E1,Ef90Iefu,T1,A1Ef70If94,NearTf4b,!A1Ef98If53S,T1,Nczx,!A1If8bS,B1,!ELTf18,A1Uf6i,I1,BdDaL7R4V1,!AchCalE9wF9tH9aI8yO7mP50Q4vS4kTiU1,Lf0rRf9e,Ie2jOe32,A2Edu3Oey9R1,PewlS,P1,O1,!Nf4wR1,L979,Lf8pOf9j,O1,Sf9iTaqx,Df9pKf85Newt,Ad1gE2I1,If8mP4vc,Ie32O1,AevbOf8p,Mf8aRf8x,AerjIa67,AaanOf8yR1,!H4Ie31O3Pdi5T1,E8jbO2ac,SdvwTex3,Nf9xTdl4,A2Eet9I1,!Af8gBmC8d6DiFbl6GhHfIfa4LcNPaRfa2S5T4W1,Efa3R,Afa4Efa4I1Y,Af9cE3Ifa7Nf8lR1,A1u6B1txC1qiD1pgE1pcF1odG1njHI1miJ1mcK1m6L1fxM1bbNyhOxzPt2QrmRp9SmaTjjUg4Ve9WdvfXtY1,AadtNfaa,Ef69I1,!Aed8S,C1,I1,AetlIdpcOf0b,L1,L6R3U1,Af8vNfaiOf0e,!Ebo1I1STdw8,!Af8vC7guD6hfLe74PereRfahST1Ucpp,Nf6yS,AehhIfacY,T1,Ef3oI1,A8zxE4L1Nev9,Mesf,I1,!A9qpS,N1Uf0q,Of0qVegx,I1,Cf6nO3T1,AfadEfaoNfaxZelr,!Lefy,!A93wEfb0I2SevnY1,If7dR1Te2j,!If07Lf9lNf6a,L1,A1Rfa3,!FdxwI8O4SU1,AbdbIfavY,AdjmT1,L1,AewnEoIjShT4U1,HexxMfb6Tfb6,Ef32S1,I1Y,Wdvf,!A1Df9wLey6RfbaS,!Af9pD3E1Gf5mIevxOfbbS,CbuuNfagRad4,!EfbhIevzRf9hSY,T1,EfbjIfbhO1Y,T9fi,!G2If9eO1S,Bdd4,L1,!EfboIaaqLfanSUfak,AfagRSfaq,NfbpS98p,!EdxaH66bI1LfaaNf6zS,!E3T1,EfbjNewcSdz5,A5bv,E1Y,!If34L20l,!Edt6Gae9I4L2Nf75SWdvzY1,!EfbyF25aIfbwLdy4S,H1Oapc,Ef7yLcN8R3T1,Idbt,!DEfa9RedaSY,Nfc2Rfbz,E2I1,Fcde,Aciq,Rfc3Tfc3,!E1IezhRfa8S,N1,Aev1Efc0Hf7eI4pqO1,AfbqOfbq,R1,Tahn,E2S1,!EeysS,CeplL1Wdwi,Be9cNfcg,!EfciIfcgNf7qS,Fc3oUfbbW1,!A4Bdj0EacoFd45I3O1S,!Hef8Lfb4Nf7tRSfbmTe3yWbjm,AeloCey8Ef6m,I1Yexp,EfckF1Tfao,E4I1,B8gwE3gq,AmBlChDdL7S2T1X,!DLezkS,LR6s7,A1EfckSdvr,I1Y,L1N6zvS2q4,E5I1Of2sUevi,!Adr0I96lS,C1,I1,T1,IecvUdr4Yey4,E1enF1LfbmNf8b,!Ifd2Wbk5,I2Y1,A87rOf7c,!Dfc7S,A1,!G1S,!AeyoS,N1,Efd8O1,R1,A1O9dx,!AfdbEfdfLae9S,Ge6hKfbs,I1,EfcbIbo2Y,Uewg,AfdgEfbeSdrkZf46,!A1siOfcpS,C1,!I1S,!IfdmLdf6,I5MfdlT2Y1,B7Ifd5S1,I85m,C1,C1DfdpMfdp,A4O1,Ie0tObzm,!AvCrDqEnFiGhIf96Je78LfNeOdusST2Uf82W1Zezo,Ifc4Ufc3,If4qYfdu,CSd4iZf86,!A2I1S,Dbp0,D2N1W8vp,!CbjaEfdzNfe2,EbvjI1Y,E9i8,!DRfe2SW1,Ddp7,E1,H1,C1,Lfe7T1,AfdrE1,AbrkGHfddOe1b,N1,E8zo,L1,!Eb9iS,DR1,!Tetz,R95x,Ie7zO1,!AfcwE4H415Iez4Ldg4S3W1Yatx,Ofe2Sfdr,S1,E1,Hfd2,C1,!SU1,Ibn6Ofdx,G1,A1I7h9Oa3d,Ef82,Ha64,DfdxG1,E3I1,!Me7q,R1Sfe2,!AewrS,G1,N1,E4I1,!Eff6H1Iff4S,!A15C13D6gpE11FvItKrLf64MlNiOfRcS8T1,!ELST4tt,RfdrT4tu,A1Eff6IUff0,L1,LexbU1,Efd7I3mhOfdk,T1,A1Effb,Ld9o,A9C5N2O1Sdo1,Eff8I1,!A622EfecIffhM592S,N1Uffa,NffkO1,!Efe2I1,CffgL8rv,A1,Df5iG9kiNf08,!B2E9jnI1NfaySUf3d,!C9H5T1,SdocTfds,!I1Lfec,L1,Ae9jIe8r,Kfe8Nfb4,AdhgEf2qI1Y,!EffyHeilIffwL1S,A8n7R1,!AfeaEfg0IffyLe26S,M1,E3O1,Aep5Ue5g,De37G1Nfg3,KfehNf0o,Ef2zI1Y,D6xi,E1,!H1OfdjTdqg,DNf7nRSffb,Eai4LfeuNblbSffv,E2I1Y,Afg9Oej1,!AkBjE2mpHcIaL8NfbmS5T2UdmjW1,U4g9,O1,AffwE91jIffp,N9cp,I1,!EfgkF1IaseLe2qSY,DfghT1,!ELff4S,!A1I4roLelmS,Ufch,E1,BaC9GfgaL5N3T1VcqjX,AfgnLffr,!L1S,NfgsTdyi,!A7hfEffnI1S,NehaR1U9zx,AfgsE4If84O1Uffz,!EffqI75qLelwSY,N1,!Ad1aEfgzIfgxS,!DNe0dS,E1Ifgz,!B6kC5tD5nE5mG5hH5fI52J51K4yL4bM45N36Q35R1vS1bToUcV6W4Xf8oY3Z1,!Tff3,!EffxFb2xIfh2Le3aS4m5,!EffyFe3wIfh3S,Afd4Eff0I4pT1,!D4spS,D1,E1R9o7,!Gfbh,D1,Ef45Iebf,Iax7,!T1,!B6E4HatjI9mkL3S1WapwY,R1,E1,!DLf4aSTfcd,E1Ifhh,R1,!Ef9cH4LaunSU1,LjRiSgT1Zfbt,If8fUev0,F1Lfg0,I1,R1,!L479S,AfbiEdvw,!Af9nIfdk,D1,L3N1,Afh5EfhmIejcK5U1,Eb3e,Y1,!Eez6Iy7LfgiS,Cfg0L1Tekj,A1,R1,!A5E1OfajS,!Mf95NfdcRSfh5,E1Iet5Y,L1,Cfi0Gfi3,A1Oc1j,OebxU9ci,!T1,!AfglB3EfgiHbtaIfi9LdqfS1,Rfi8Sfi2,!E1I4adS,Ibgo,!F1Lf57,!BaD5IfieL3ST1Zfcn,Ofhh,Ifgu,Gf8hJ2Nf7vR1S2a7,RfigTdje,A1,Hf5mP1,S1,AfgeIfidOf8jY,Ff1pT1,I1,C1DfinNes2,!Ed0uIfc5S,NfisOdzp,EfgoI1Ofh1,!Bfh6H3ST1,!EfiwIa12SY,R1,E1,G1,N1,O1,!Efj2Ifj0Pe4qS,P1,I1,!H1,!Efj6Ifj4LfhpMe7nS1,Efj3W1,!AdEe4rIbtsM7NfegO1SY,!IewfRfh9SY,N1,IezdPe1uTfi8,!EfjcIf3uLeobS,Cdtn,A79DrInL6O4S3T2U1Wb50,L67q,EN1yfSbzjTfhgZeu9,AcjxI1,N1,Reon,Odl3,C1,E1,S1,O1,!AaEfjlI7MfioO6ST1Ufhw,!Oed9S,!DLegaR1S,Bf1hNf4b,E2I1,DR5c8,!E1IfjtS,!ELT4yh,A1,R1,T1,S1,CfjxLfjx,E1Y,Hff7,Efjx,E1,R1,G1Rffh,!AahpCfDdE8LdlqN6ST5U1,!EeozIfk7MfizOfigS,F1,D56bF1,Cfg2L,!ST8h9,AdknNfiqTfie,Tb9u,!A41lEfj9IfkeOfinS,T1,N1,!OficSUfep,A5E2I1,!Ef6yIccvLalfSY,Cbhh,!EfjgIf55SY,Def5Lc7mOf8cT1,Nf2n,A1,!Y1,EfkoIeop,Aey6C2Efj9Fdp8Mct1T1,Rdnt,C1,N1,EfjvO1Y7,Cdr1,I1,R1,T1,C1,E1,L1,SelkTdyy,E1,N1,Ef2f,N1,A1,G1,G5N1,A1,Ie2o,L1,I1,CkEdM4S1TdqvUfl7,G8hzLffpMfle,!B8ppIflhMea0,AfgfEwIrO3U2Y1,TfjlZ62d,EfelI1,L1,I1,EeszIfcuObz0,!A1eBe69E1dI1cLaneM16N15O14R6T2UbfnV1,Ne5d,N1,E1Ufks,!EfjoIflsWczs,EehqIflt,T1,A1,!Gan0S,L1,A1EfezIfhr,N4V1,!EamqIfm0S,N1,O1,AffhEes8I4O1,CdScT1,!LSTfhb,!DRa7S,!EflzIflzS,L1,!Efm1Ifdj,H1If7q,!Efm3Iduw,H1,A5C3DffeNfmeS1,Obb9,C1,LdezPcb7RfmeS1,EfkdIf71,N6j5,I1,C1I2,C1,E7r8IfmmL5U1,!AiC6vbEhIaLdwwO7ST1Ufls,SfdgTfkqZexj,!I1Lfla,L1RfksT8jo,!A1EfmtIc5eS,Oerg,T1,E1,L1,L1Nfmx,!Afl6D6EfmzI1S,!Efn0Fe7pI7gyOfaoSWb8m,R1,E1,I8q4,R1,!EfewNfidT1,!EfmwZemz,A5lB5hC5bD54E4rHfn3I4oL3tM3iN2zO2wR1hS11TiU8V5W2YeqnZ1,IOfn5,T1,T1,E1,Efe9H1,C1,Hax5Ofko,C1,CfmcN3RfncS1Tfnc,L328,!Cd90,!BaulEfnjF548G2IelmS1,R1,!BaunF54aGdwS,!ERTffh,A1,!L1S,Y4kc,P3wp,E1,Gf61Ifk4L3P1,!O1S,L6N1,L7dt,Ycq1,Edn4,STcac,A89iEfnpI1,B5C4I7paMewnN3S1Tf70UfnqV88l,A7suEgI7O1,!Bb49EiR1SU8fj,EfnzUfnz,L8e4,SfmxZeyy,!A8yvEamfI1S,N1,LfmkO1Tfe1Vfh6,I1,Efo6H7Ifm3K6OfneT1Ufnd,!BdurDHf3rRfo7S90g,E1IfoaY,L1,IbqxLfk4,Nbtf,!Efn9I1SY,!DST1,E1Ifog,A3hx,I1,C1,!D9E8G4OfoiSU1,Ib5v,OfnmR1,!T1,!EfnjFatvIfooPehvS1Wbvr,D1,D9pd,Efe3,C1Idf5Y,!Fc45L4N3R1Sdon,E21sHflnI21pY2kw,EfkuIfovT1,EIe09,LNfnrT1,!DHf4gRfowS,A2E1I2hl,LfauR1,!EasaGearH8whMfntSU1Wbap,R1sf,!AfjtOfctS,T1,N1,E1,!ELNSfky,A1Iflm,!EfoaI1,!G8M4R1Tezs,Ecb4,Ofof,!AfnpDFdh0M1RfpbSTfpc,Ta8h,S1,Efa1U1,Tcq6,E1,I1,P1,AfceB5Cf7lFf4kGjNfa6O1Sfcm,!DRfpkSTfpl,EfpfNfa8Pfpm,!E2I1OfpmSY,CflcEfhiLfoaNbur,Ad92,R1,G1,!STe0o,T1,Rfal,!E2T1,!Afo9Cb5aDdg8EfosGar1I8LdrhM8qtO5S1Y,!Sfjq,!Aez3EfouIfpzS,R1,E1H98eRhe,!AsBrCb6vEpIhLeM5O4ST1Ufn8,I68,Lfp5R1,B1,!Efo2Ifq6Mfq4Tfq4,S1Tfo9Zf12,!Efq6I1LfotS,AfjnEfoiNfau,Efo6I1,C1,BfopG9i3L4N1,!AfopEfomIfaxS,Ufjt,!P1SfkoT,!AfosDLfp1NflqR8fsS1,Idi5Odyn,Iaf,Kb6z,C1,N4h8,I1,I3OfjrR1,!BaxsEfpjH7ynIfb8L6NfmiP1STfbe,R1,E1,!Efm2G,EfilN1,I1Y,Ae4yK1,!G,N1,I1,!EfqqHb7s,Efj9Ufcf,A8m1C6K3NfblS2T1,Kb45,C1EfivNfr3,Efr5I1MfqwY,Hb4o,!C1S,!AuBdxoCed1DtEqFpGgI6Kfr5Las2MfqzN3O1S,R97w,U1,T1,Dfr8I1,R1,BfppRflk,L7pk,Cfr9L1Sfqf,Afq9Maq0Xfql,NfnuTfre,A1Eao1Iel7,A4IekgO3R1Ufc3,Cbgc,A1,LebpR1,!A6bgOfc7Rao9,H57s,G1,A9itI1Lfpr,AedwOe95,GekuT,EfenI1Oeli,A7vmUfce,TfrsWfew,AfpqI9nqL2O1Recp,!Odi7S,NfqyRfm5,O1,!IfdfT1,He2aRels,OfofR4su,Aff3EefjO1,!ArBlCiDhFeG9n4HdLbMea1P8R7S4T3W1,MeymNfs2,!A1EedqIfs5LfqqNfnfSWaxc,I1wk,U1,R1,IfctY,!Be2kF2Hao4L1S,!T1,!E9IfcwKf9yM7NfsaRfqxS1Tf5g,Lfr7NfreWfru,O1,Lf6w,O1,!F1Ifs8Meh0SWeadY,DR1SYfrj,KfqxNfrk,EfffI1,Eeu3O71k,LfrnNfp0,LfnjO1,AectIem4Odjc,!Af1tBbE7Ga98Hb1vIatpL5M4Nem3P2T9ocW1Y,B4ckL,!A1EfstIfsrS,N1,Rbq5,A1Efp8,Lfj8O3P1,AfblI1Uc44,IelzUfse,Ffsq,F1,!U1,C1Nft2,Af8pOfgs,L1,!Eft6F7I3Nb28SU1,Ca40HgS9T1,ESTft4Wft4,!E1Y,H1,AfrlEeeuI4lb,!C2Fc1jLfrvMfs2NfokST1,!F268Peg6Rft9S,E1,FftbNfteOfr8Vfse,EfraI1,BfrsT1,Nfe1T8is,!A2E4v7I1Tez1Ufsf,!EfnkIb0cLfnrY,!Gaa2Z1,A66B5kC5cD50E4rF4pG4jL3iM3fN2eO29P5iiQctzR18SfTaV8X3Z1,Eef5Oemj,Tcgu,S1,A1,G1,R1,E1Idk4Y,A7a4I57aUfqy,L1,L1,!B4E1S,Ddk3,I1,C1K7yOfrt,Tfl8,!N1RTflx,A1IfrwUfo9,L1,L1O89q,EflxNat9,Eft0I1Y,Tfk1,A6g9,A5ckIenyOft8,!HfezT1,!E7G5I4Lfh4MeitOfs5Pc5bR3S1,LfuaRfu9,!E3jtIb68Y,!AfojEfd8IfudS,Aepv,Y1,E3O1,!Cfp0S,O9pi,O1,R1,Ranx,H1,!DN6OcdkP3RfulST1,!Lft9Ofs0,EfuhG1,EfmjN1,A2niEfutIfur,!BcE5I2M1SY,RafrSUft2,DNRfus,!E1IfuvS,!E35wIfuwL717M71nS,L1,E1,!CbacE6GflnK4N1S,Dfcr,O1,O1,AftfEftyIb1xY,!D2Je1mLfhyP1S,Lcl2,AeowObajU1,Aeo5Ubwh,A6f2Ieoa,!B3C2EfpbGf0dIegiL1O8wcT2orY,H1K9su,EfrpOe35,PfvaRfva,A1,Ofks,EczcIdn3O1,N5vj,A1EfubIfg1OfvhY,!EfudI1lgSY,DNfmyR1Sfum,E1IbebOfgb,L6hmSfur,RfunSehhYfve,A1IeinO4wf,!BdCbF9Hfb6IdpjL7MfqkNfqyST4U3W1,T2pa,N1Td4f,N5r7,EfvqO8nu,!EfuoFei2Ib70LfinS9kuY,N2PcklR1U7cq,A4IelqO1,!EfvyIb2qLei4SY,!EasoIco9SejdY,B23C20G1oI1nK1mM16NzPuReldSoTaU8V3W2X1Yfnd,GfvxNfv0,A1Ifqx,P5hk,O1,!B3H1Mfw1Pes4SWbhr,HeirK9utTfra,Efu1Ib2zLco1Y,!G1,Efs6HfnvIassY,!EedjI6bqLfutNfriS,!C2Ifw9RcjhST1,Ifwb,H1,S1,CeieSfn1,!EfqgI9hzLb9iMfv6Pe4kY,H1,C9g7,BeteLfuvNfwiOfucT7ip,He8y,P1,A1,R1,G1Rfwk,OfjxRfkj,!Ab68Efv6I7O2T7iwU1,AmClDjEgIdM9xyNcSaT9UfrfWfwnX1Yfwo,Tf3p,E1,B1,B1,I1,G1,I1,T1,R1,E1,B1,DR9xd,!E1Ifx2S,!Hal4K1S,!Efx6Ib90LfjySY,T1,H1,EahpIfx7,!M1S,M1,A1,L1,F1S4re,!EfxfIb99L245SY,Cbe7DfkgG7vlKf91T1,Af4rEej0IfxfY,!P1S,T367,!A1EfwdIb4cSY,T1,!CejlEfvgIfxkST9zg,BlCiE1z7GfM9N7P5R2T1V8yo,GfwnTfss,!A1E9tsIb4hPevtSY,T1,!NfwsS,Af0nE1IUfxi,L1S,EfxuI9gaOeksU1,!EfxvIa30SY,!C2K1S,GesxT,I1,TfkzYfxv,A1,!EfwuGfsvIfxzL3P7s2SW1,!AfbfBb54C84bEfwvIfikSW4hj,D2EfwmIfwfR1SazrZazr,EfwxI5doY,!HefhO8z6P1S,!ELfuxS,Nfu6Sa8wTfy3,U5kv,Uch7,E5f,Gdrz,E1,!IftrRfwdS,T1,A5cxB7C6Dc60F5GepeL3NfybS1,AaE9I1Ueuf,Ebc2Lfx0Nfyg,!EfwyI1Y,S1,!GfxjSTfto,A1Id54Sej4,EfwgIa3rY,C1Dawj,NfynS77a,!EfypI1LflhSY,N3R1Tfq3,R706,A1,H1,!Afc7E880FellIbaoLazoPe6ySY,DR1,!Afc9C3E1IfurMfluNSe5q,A17C11EfytG96iKb33NfjgOuPsRhSeTcU7W1,!Bbf5Db26S,Nfy0T6rr,A1,U1,T1,L9kl,E1,!DG1Nf6gRfmpS,Fa0j,Od26,H1,L1,E1,Rc7w,T1,X1,CfzaSftlTfxeZfug,!AfsrE2I1LfxyNfunRejyS,D1,E77fIb69Y,EflvOb8p,EfxdIfzhM1Pfzg,DRfzgYfzg,!E1Ica5SY,GK1,!DIfxgNe5uRfzjS,E1Ifzm,C1,NfypS1,CD9d0Mff0N9d0Tfyq,A7q6Hf3v,CfveEfzjNfzsSfyl,EfxoI1Y,P1,O1,C1EfznIfzn,C6GdraMff7S1TfiyU9d0,!Peii,!EaI9O2S1,R1,N7pr,E1,H1,!AfyfE21pIg03Nfvd,!EebnIg04S,R1,E1,!H4T1,!DLf59Rg06SY,Efs2NfkuSfz3,!Bb7eEfz5Ig0aSY,R1,E1,E5I4T1Y,LTexe,A1,I1,!EfyzGfvdIc4d,!B1mC1iE1fF1eG1aI14K13M11NyOjPgRamfSbT5V2X1Yfzc,BfywWekn,!Ig0kNS,W1,EeqiO1,AfzhYg0l,EfpfL2O1R9c8Yg0m,Ag0fSg0h,E1,FcryVfnt,PfnuSfzm,A1,Abjk,CemqP9vyW1,EfysI779Reuo,Ael2Eb9hH859,!AfBaCa7nEfz7IfliL8MephO7P5S3T2W1,A51E4aI3eO24UhY1,!AfzcEfzvFaubIbcwLb1wSY,Lg10M1,!I8n2Lfzn,C1e0L1,!AfzgEfv6Ig14LfnySalt,S1,A3IU1,Daz5Gd2i,Ag0jIg1aOfzhUg0d,!Hfz4MepsST1,UftzWg18,O1,AferEg07Ibd8Y,!I72m,!B3D98rEeljF9jgG2HeboIg0fLfo8SY1,!AfzrEg1hIg1fSc8w,OfzbTg1f,Bfj8L2Ng1gS1,Cfj4Tg0j,BfzwW9j8,!Og11S,DR1,!A3B95uE1Ig1mOckjS,!CeeyGfjoRTftk,!Eg1qIg1oSfvgUg1g,A2O1Ufvx,Eg1oS9yr,Fg05Kg05Vg1i,HTfsl,CS1,Eg1sI1,R1,I5O1,Og0rTfsw,O1,EfxaGecu,EfttLg0lN1,!I1Y,Afjt,!IdL7M5S2T1Wem7Y,AflbIcoj,L1,Lg17U1,C1Eg1zS,!E6r0IfmsS,W1,Eg22I3O1Y,AtDpImK8L1,T4qj,N1,E1Ifxb,EfyeIfmzY,!Ag19EejrIg2gL1NfxqSUftf,LN9gh,!A1Ie83S,!D3ST1,Aauh,!Ig1mLez6S9klW1,Razr,A1,Ddt0,R1,A1,Hf69,Ng2tS1,!Cewl,!Eb3kFduhH4I2P9w0S1,L9f5Tffz,AevuYg2u,A2O1R9eh,A37b,R1,Lg2hU8gz,A1,Iep8Oeom,Bds,M1,!Sfw6,!DRg34S1,H27l,G1Kg1mNg39,Cbs2Oeq9,A6E4I2O1,NRg36,A1Efwr,Oftk,Cg2fDg3cTfgi,A1Rbeg,AfzhEfwkOeo8,G9u8,O1,Rfov,Ng2lOg31,EfocO1,!Ig2nL4O3T1Y,Lg34Yg3l,Kg3mN,R1,A3EfmwO1,!Afh6BuC8a2DsEg2mFqGdpvHpIa65LhMfNePcRbS5W1Y,D17F15LyT1Z9vj,Eb4jI7xt,!P1S,!AcmlS,R1,E1,F1,AfxoI1Ofrp,N1,!Eg1wI1S,!GfuqM1Yfvh,Dfxv,!Ag04Eg2dIg44S,R1,A1,Ag07Eb4dIg04,!Ag3pD1S,D1,ENg2o,DfykR1,!A9E6I3O1SYfy4,Stg,!Dg2yFccnLfr8MbhdP1Rg4cS,B853Ng4gPg46,E2I1,DNg4i,!Eg4aIg4iNg2w,!Ag2vEg4lI2LfrdO1S,Eg4cNaib,Eg0kI1Y,D1Ofyu,AeosEen8O1Rar3Yfyf,Dapm,!Ag31Eg3kIg4pLg3qS,T1,D3S1,Eble,Ucqm,A3H2L3ljO1,!Eg4nIg4vNg39Ofdo,Afv3EeymIg4yO1,Cg3yTf1f,LasxT,E1Lg42Nfxs,A3E1I7dzOfoRfhq,Hb2z,T1,!EbmyIg53Ng3h,A2O1R2ueUg3y,N9cf,O7b9,A2Eg1kO1,!Eg3hIfwiNg0i,N1,G1,Dfv1,U1,E9gy,!Ig5eL1NS,W1,EevcO1,N1,Dg3kNg1w,A1Efq4IcvfObl6,NeqnSg4e,Sg4oTf23,A2Efz1Ib6bO1,Mfno,A1Og10Sdm2,AcrvI75q,D1,R1,Sff1T,Rg4nS1Wg5r,A1Eb2eLepy,Rfsw,A1,U1,!Kg5w,N1,Ablx,!Ncs3S,N1,A4E3U1,I9e2W,!Aff9Ig65NRg63S,E1,Oazb,D1Ng63,Eg67Tb4w,Cg65R1Watp,A3EezpO1,!EfxjFet5S,T1,H1,Dg5gG1,Aaue,Kbs0,E2O1,!Lg5a,!Ag2f,!S1,Gg5nL3Tg1sY1,!A1Eg5iIf2cLe87Rg4pS,Raun,A1,EN,R1,E3O1,!ApEnHiIeKfofPbT6W1,Sfx1,Lfi,T4uh,H1,G1,U1,O1,Kb5oLg73Pboi,A8E7H2Ifb9O1,!MehnNg2dS,R1,E1,Rctd,Dg75N,MevrR1,A3EfxvIfrtO1,!Ac0uB2nC2gD2eF2aG26H23I20J1yK1tL1rM1oN1mO1jP1gQ1dR17ShT8V5W1Ybmn,!Ag5nEg66Ig7bSUg69,T1,I1Ng06,E1,!Hb5d,T1Vg5u,Ag5tEg5qIg7h,!FcfrIdkzST1,!AfgnDRf8tST1,!Eg2v,!N1Rg7jS,AfixE1I6n4,Nfs8V1,!EbpjIg7oNg62Tb2n,A9E6I2O1,Ffx4Kg64,EfumI1,!BccvEfdfFciuIbemL1SciaY,Nfbb,R1,O1,Ng7uSco1Tg5yZ6oq,!DfqaI1Lg6iNg37S,!Eg7wIf3tSTbo7,BfyiL2MfpzNg6tT1,!DERg4tS,I2t4Ug7c,!Afuh,Af9f,C2D1Ng85,Eg7xZg39,I1Y,!EIg3nR1STg60,A1If06,L1,!AbEaF9I6LeuiOg7rSU1WcfdYg7r,LTg64,A1Eg84,C1X,I1,Df2vRc8d,A1Ig7j,K77u,KTg84,O1,T414,A4O2PfvzW1tY1,Lek2,Iehs,!P1S,Hae2,G1,I1,Idfh,!C1e0R2W1,Meg7,I1,!S1,E2ltFfodS1Te92,!Lg70S,T1,H1,G1,I1,!Eg7lIg93Lfe4,S1,S1,E1,Tdwi,Ea0i,!DST1,Ac9aE1Ig9a,I4N1,!AqEoHjIfNaR6SU1Y35e,Da6g,R1,A1Eg01Hg80O8th,A3x6,!A5fB55C51D4yE27F23G1sIg8aJ45K1pL1mM17N13R11SwT5Ug3pW2Z1,FedzSg3rZfkd,!I1S,Cbq7L1,!AcldEew9I1Og8t,!Afn1Eg8hIg9mLd1iS,R1,E1,S4T1,T9xt,H1,Rfch,!Af2rB1Eer4IfudLg8eM7gkNg53S,!Ag38LfwoS,N1,O1,I1,T1,!A1EabwIg9zLd1vRg81S,!Ega2HfpiIga0S,N1,I1,!A1S,D5T1,H9z2,Nblw,I1,R1,Ectm,L1,Gd25,A1,Ud39,!CekyOfelQ1,!Eg8oSTfnj,N1,E1,E1Hg7b,!CeDbF2ngGg5vP9R7S5T1,!Ec5nGtLrNgR1,Afq8Eepa,L1,A8u9O1,E1,!Eg9kIfv9PbkoS,L1,L6de,Lg9tUecd,Nzb,O2U1,Ag6qR3b6,!Eg9eF322G5H2Iew5LffxSbd0T1Y,A9wBaaqC9rD9qE9oG9jHecbI9gL8mM8jN8eO75P73R1gS18UdV9W7X1YbmrZev8,Jfyn,L4jnTg8s,!A1Egb2Igb0S,N1Ug0z,!O1,R76wS,AgalEgb6I2U1,AgaaT1,!Ndwf,Lg1k,Lg9sRcsmTg35,!A1EgbbI8zmS,T1,N1,E1,!G5mxI6M1Rh6S,!Eg37Lg9zNg6oSTg9g,L1Sgag,Tbov,Efs2O2w8,!H8fr,!Ag9vDRgbhS1Wcim,Ag9wB3E1Ifw4,E4bvIgblOg9u,S1,I1,LftaPe24,!H2If39O1S,EgboIgboNblj,N1,A1,Bg2cP1,Ads2,I2L1,R5s1,U1,E6h2,C1G,N1,Nadl,I1Y,L6q,!AgagEexpF7I4L2Ng7eP1S,!Ag7tNg7f,C1,I1,CjGdK4T1,!Pg6iS,TgacZg7e,Aas9I1,!N1S,R1,Cg08,I1,!E3R1S,!SUb3u,D1Gf7kLd1c,Edj4,N1,I1,Igc3Zbbb,B1pC1iE1hG1aI18K17M13NfPeSgbsT7U5X2Ybt3Z1,Eg4hLgb9NchqSd2p,!EgcrI1OcvmSY,K1,K9wa,Af5qObz5Rg67,A9ojEgbuIgbuO1,!Mf1dOg72Weuq,!Eg42,D1,N1,Tci4,R1,A1,A4E1O6d3,Ag4g,A64pO1Y,Nfzj,O1,NRecgS1,A1Eg6m,Ng2a,!A1Ogc9Y6ha,!IgccT1,N9e8,I1,H1,Lblu,E1,E1,AexmH1If0fRbe1,EeyqIg9f,!BqDpFfsiHiIgdjLgMcNg8tRgdhS9T6W2Z1,T5v7,H1,G1,DIf98,!Egc6I504,H1,LdyzMgdo,EayhLgcc,I1Yfyw,AC4E2vyU3Z1,!Ac8aEezfIgduLgcfNg94S,CgapT1,N1,E1,U1,!Eg81IgdzS,O1,DNg5gRSg8wTgdz,!E1Ige2LgcnMf2lNg9cWbhb,C3H1Ngdj,!Af7pOdqa,!FcmeLg0zS1T7lcWcl8,A1gC1fEnIkMjNdQ8Rgd7S3T1,!IgdyLgcsSY,Bg4rR1,Eg8eOgdf,D1,S2ho,N2S1Tdpt,!Ag7rL5ymS,N1,O1,I1,A5T1,!Cbb5,Efb5IbgdY,!EgemIgekL1Sfz9,D1,D4N1RgekSZ4h3,DNd1v,!E1FcmxIgeoS,T1,Dcmd,Rdbq,!Ag9pGf0iH3I2O1S,Lbsl,O1,!EgdqIak2SY,L1,G9yh,Pdb1,!STg9wUgd8,!Ecq3IbqwSY,E2K1Sgad,Re6s,A1,L1,L1,!Aef0E8jsIgf6S,!Hgf5I2ST1Zged,!Ege3IdecLbvhOg55S,L1,O1,DRgf9STga8,!Eg9eIbr8L9l3Y,!E2IgfdZ1,A16Ba0kCxDfstEsGmJkLiNhPgSdT7V4Z1,Yfxg,!E1Fe73G7iaHjeLfkhMf3zS,!K7lsSa4i,C1,I1,Ngbd,!Aft0E1,!E8zeOf2mS,GgeoLga3,Oav,DRS,!Scn7,R1,Pf8z,E2NgfuS1,EcqmIg35,Ygbl,G5f9L1Ngfu,Nf9s,U1,!AcCbEaI6L5O3R1SWbvc,DeST1,!EgfzIg0lTdy5,T1,I1,!B1EgciIf1dSWcn7Y,HT1,HahlT77m,Rg4i,F1NertZbtc,Rg7g,!Id8mTbi9Y,IaeiY,!A3NbosS2Z1,!Ng9e,E1,!Cbw3EggdGzLwMuNfRgetSaT9U7W3Z1,I56vOfxpUg45,T1,Rfs1,O1,V1,!AclvGf2bI1S,GgfnRgdq,DRbsh,Eg8hLgf9NclqOgej,E7mx,!A4CbddE3Fc2lI2L1SWfjfY,T1,Eg8lLgfdSgge,!I1SY,E1aP1,LgfwMggt,AR1idU1,T1,C9fv,Eg4bI1,CjGfI9M6S3T1,!EgfaIgh1Pge6,A4fE2wI1oOnU2Y1,!Bf2tSd9e,Iey6,S1,!Egg1Igh6SUg1x,IfpfSgg8UggzX983,H3IK2O1Uggd,!DbfyGgbiS,!Egg5IghaLbxjSWfjz,H8xoL1,C2xkLgfwTgbv,EghfIbdyY,Vg9n,I1,OgheT1,E1jtIghh,!EgfeId05S,!A7G6I3L2SU1,Re2t,!LggcS,L1,I1,A6d0IgclOg5e,R1,E7x1IghsU1,G6oy,DNggt,!E1IcsfSY,DR1Sggx,!Agc3BeodE1FffxIghvM7omNgd5SY,A6d8EgfsIbsh,N1,Agg7I1,Oc44,CgFdGaHf2lI9L5M2NgdaS1Vg5p,A94yIg8vOeiv,R1T9f0,!DLbizRgi1STf4u,Eg9xG507Nge2T9f2,A3B5v3E2I1Ug0sY,Udxt,B1,M1,Sg91Tggb,!I1Lggv,L1Rggd,!A1EgieIgicLg56S,N1,O1,I1Oggo,T1,!Icl2Lgh2S,L1,!A1S,T1,N1,E1,M1,!CNgip,Setk,I1,A1,!A5EgiuI4R1SUgik,AeptEfv5,R1Sghx,!Iby6,Teya,!B52rC2FfxwS1,!EgiqIgfcUgiq,AgigI2O1Ugi4,Agh9IUgis,L1,Lgi3U1,C1,Agj2EgaxNco6,!Egi0I1SY,!Egj8Ffy5Igj6Lf4wS,DL1RSgia,E1I5yuYcqp,!A11CtDhEfFcueGaI6K4N1S,!Egj8Od1aS,Dgia,I1,L1,O1,N5Z1,A8ztLb7z,E1I6jy,Afzw,Aes0Uggp,L1,AgbhR3U1,LgjkNgjk,!A1Egjf,R1,U1,Sf70Ufmk,BgcfEgjjO1,DRgjqSgjk,Gbxv,Ng4fU1,!Agi7E3IgjvO1S,NgfpTghy,E1Igfq,Sa3pTfug,AevkI1,Eg1z,Rgb0S1,RflcSgj5,EgicGgk1,E2LgipN1,W6wn,Egk8I2O1Y,RgilSgja,O1,!Agg9Egj4Igk9M1S,R1Sgjd,E1,H1Ierd,LgjeUeiq,C1,N1,EgkeIdcsY,!A12B10CwFsIqLmMkNiOgRbST5U2YZ1,!AfxxEg7dS,!DEgkhL1S,Ag60Igki,!EdenIg7nL1S,BfhjFfzlL1NgknOgdo,Gnw,D1,U1,!B1EgesIbwmPeswY,AgimCgkpEgckGgcmLgjcNgg1,I1Y,Ia5l,L1,Ag2hCg8kEcI9S5T3U1,Rb67,A1O1,T78n,Ege0I1,L1,!LfhmS,Mgl0Tfxz,S1Tgj5,AgkfE3I1Oato,R1,H9I6Ogj1TevfU1Zgcu,Lgl5Ngl8,!EgjqIbx4Y,E794I2Z1,B47C42D41E3zG3rH91nJgl7L3aM35N21RtSfT4Z1,Feth,CgkdKgkdL1Tgg9,A14dEy8IrtJrsLkeOagR4bU3Y1,Resz,Ra4j,CD,!I1S,O1,A4EgkeIbsdLgc7R1Y,Lbs4Ret5,!A7B2E1Ff48I8stLgfuOggxSY,Eg8x,B3gyR1,!NglpS,EgkkI1,!Eg8sRgjsSY,T1,E1,TgkuUgg1,I1,N1,I1,IgibL1,O87x,O1,Eg8fS,K1,O1,O1,!AhDfFf44GcI8glO7R5SWcr7Z1,!DIgm5NS,Fane,!Kgaj,Egl3Igm8Lggh,!A2Egi8G1Igm9MfasS5hg,La6vY,Vde7,I1,Eg98IdepY,IgmgY8kl,!A1T,!AgksEglbFcupG4IgmgL3S1,EgiaJci6L7N1Tgdw,AgmgEfzmYglk,I1,Rbup,!MgffS,Aeo3E1I48pYgm3,R3S1,IgdiO1,T1,Gfo8Tg8k,Afhr,!EgmkIgmjY,!BaC4GghcHgmrN3STg37V2X1,Af5k,!ESTg5p,!Agmd,C1Tgly,AgmwI1,!A4N1Rgm0S,Gky,Lc7yN1OglvPev7Va,!Egn4Ign2LglnRgl4S,T1,Mg8yN1Tgm5,Dcgn,A1,L1,Agn6Eglq,!GbodI9sd,I2Y1,AgimDIgl6Ogl6R1Tbc8Ygn9,RgjqSgmh,SghlZfy8,!AggtI1,Kfaa,S1,A1,Fg9x,U1,A1,Ad0eGgm5IrkUg5c,AaC8Egm4G5M2N1OgmgPevsUghuVv,NgnlTgnl,!Ag94EgmjIgnoS,G1e2Sgmv,NcxeO3P2UgniW1,!AnBkEgFf5rI5Nd6oO1SeunUc23Yg8v,!Ag98EgnuIgnsS,!Eglp,H1,OgmpP3RgmwS1,Pc1y,M1,CgjlSeejZgj2,M53fS4i6,I2O1,N1,A1,Ab9e,!A1bB1aE15I13LdO9SU7V2Y1,!Hgnw,!S1Ygo4,!Ogm2,!S1,Ago7EgmiRgo7Tgo7,GgnbLdba,!A9itE3I2LgezO1RgnrSUg4w,Agm7IfteY,!M87bOcaiTdif,Nq5,Egk5Igf9Ogc5,N1,E1,OgngYg4m,H1,Cfw3G3P1,A7EgojIgk1O1,!CeyvDK5yrLaNgjwRgokS9T1Y,!E6j1GgolS,CEgghLgn9N1,AOgi4,I1,!D1S,A1EgnnIbvmOgesY,Tg7r,E1,D2fkP1,!AqBlEaI8M4O1PgouSUgnqY,!FgovVgov,Gc0s,N1,A1Udx2,!LR,!AfyaIgfwS,N1Sg73,A3EggxNgp5O1,AeqqI1Y,Aal1Ofir,L1,Egn4Igp8Ogcy,Lgp7N1,E1,!DefmI7qkS,R1,E1,!T1,!BfEgoaIgpfLaP8R5S1UgogWf9j,EgoaIdxi,FgpfIglv,Leb2,EgexIgojOfab,E2L1Rgnm,M8x8,!Ac7iDbnkEpG7IdxoJ9qsN6O5T2Y1,!DRgplS6i1Wega,!E1IgllO38tP7siSY,G88,Zgk9,G58vN1,!DRgpqSgpq,E1Igpt,AfisIgpb,!A4EgpxIgpvL2O1S,!EgorFd0yIgocS,N1R8k9,Lfd7,AgglE2Y1,Ufqi,Efa6T1,N1,Ybwn,A2EteLggsO1,L7tt,A1,B1GdqmSdg8,EgqaY,!K1S,C1,AblzI1,Eflc,Feuu,!I1S,RgqeT1,DEdc0S,!E1IgqhMgp9,H1,!EeffS1Tg11,E5I1,EgohIgqlTgh9,T1,If0a,NgqpS9gj,EgmoIgqpTgky,NgqoT1,Ebv7I3O1U65q,EfwxHgqq,!A14ByCgm5DuFeigGpImLiMhN9O7P6R2ST1Vc1g,Lc2k,!Aew1S,N1,O1,Lc2oOcobS,LckhUg88,!EaqaIgr0O1,Ig6iOg61Ygc5,F1,EgpxI8iq,EgdzIzd,EgpeNg82,Egq6I1,Gbi5Hf3cL1Mge7,EglaIfchY,GfbpNgra,EgqcL,Agr9Cddv,CNgraTdh2,Iga1,M1,E1,N1,Ee4e,D1,O1,U1,T2jh,I1Ob06,R1,E1,T1,Ge2k,A1,H1,P1,O1,N6S1,T9rk,S1,E1,T1,N1,EgrzIc72Y,M1,O1,Ca4u,Ig58,R1,CrDnEcI7L6tmN4PfuxS3T1V9cu,!ERSTgk5,A1,L1,A11E10IzO4U1,!Egr7I13NgnmR1S,Rbl3,O1,!A1lB4ceC1iE1hH1fI1dK1cL1bMfgyO18PgjuS17T3W1,E7zu,E1,Oglm,!Abw3DF90iHf9xK2LbtfMfh2P1SWfcn,Rawk,E1,!E3H1IgsmOgqvS,Ea3kOgsl,H1,!Egf4IbujSY,Fbqo,Egi5Y,!EgklL1Ngo2Rgqu,!T1,EfxuIar1Y,C7D6F5GgjjLgrpMgsuN2RgstSgs0Z1,Ieuh,!EgszIgsxK1LfenOfmnS,!L1,Ag6eE1IfuhOa7r,EbuvLgrlNcy2Sdj1,!EgrwI1SY,K1PgkhS7uu,RSgs6Tgr5,!AgslE1LgrpNgoeSWbpd,Bfc6NgljRgt3,!DEgrfS,E1Igt7,T1,!BfcaDHbvoLgb0Rgt7ST1,Gbk8,Cgnt,A1,M8he,A9E5IgteO4P2U1,B7uD7bE7aF79G76Hez5I6yL5bM4jN3tOehsP3rR2mS10TtUkVgWdYbZ1,I8j3,T1,AgarHawe,!Bc3iC1EgtlIge3LggdSi1W8xu,N3R1,!EgtnIgtlOgqxS,K1,R410,E1,P1,X1,E1,N1,E1,K1,N1,!A1S,!ETgtv,!DGbr3IgtyKbq9PbwdS1Zdo0,Hdit,C1,S1,N1,E1,Raap,P1,S1,E1,D1Tgu6,!Egu7GIfseOgk6S,!N1Ogs5,Egs7I1Ogu9,BgspDgteN4T1,DekkGf03,Agt7EgugIgue,Mefn,!E1,!A5DayhEgtiI4L3S1Tguf,Tcmp,F1,A1,H1,C1,S1,N1,I1,Nghi,!ETgmo,A1EguuIbrdOenaUgcjY,Lb3eTgls,!BavqTgtt,Efqw,!K1,H1,C1,I1,L1,T1,!EdIcLg03MaO9S8U1,!RbwtS,E1,M1,R1,A1Eg1c,I96l,AgqeEgt5Igv9S1Tgv7,S1TgtcZes1,!I1LgtwSgg0,NgvdOg55Vgtq,Egt9I1OgtmRg1e,!BgtrL3T1,!Agr3NgqpS,C1,Sgr9Uglf,A4I2O1,!Ifv0STguk,!AdalR2SeukT1Vgum,Lb90,!AgraU1,!AggeS,!IdsyLgu9S,L1,Vd9v,I9gu,R1,RgvrU1,A5I4O1Ugus,Ad15C9EgvtIP8T1Ugv0,P2g4,Y1,AgvwCgjsIgd7Mgb7T1,!Eggj,M9ki,!EgnuIgnbLgumNgrb,L1,E1S,!Sgv5,!S1,!E1Igrz,Agu2L1,Obwx,KghlNgrj,I1Y,!L1,N1,A1Egps,!DF6M1NgroP9r3RSgr9Wfea,E1IgwfY,CgvhEgw8Fgbw,I1Y,!AiEfIbL3Ogr1R1S,E4fz,L1,Ngpl,!AF2I1Sgvs,!D1gE13IsOpR8zsSoT5U1,A6qo,T1,O1,T1v6,N1,Cg95Sb9p,I1,M1,N355,O1,E3R1,E7H1,CgwyEgwsSgvu,!I1Y,!S1Tfk7,E1IgnxUfqt,Ocvv,N1Rcp7,Obha,L1,O1,R1,D1,Y1,EgvlIeuiY,G1,O1,T4tb,E1,N1,C8pvTggk,G2N1,CgbtDgxiEgxcSgrtZg8f,I1Y,EgvvR1,T1,H56t,P1,R1,A8E4O1,ScxyTgwt,AfwnOgwtY1,Agr8IguzS,C1,I1,T1,I1,L1Ngh1,Ubju,S1,S1,E1Oczd,HbO5R1,Ect8Igls,G1,Cgx8Te6w,N1,E1,I1,I9jd,T1,Ebih,T1,P3em,A2O1,A5R1,Od6x,R1,H1L26z,C1,N1,CdT6Y1,H4ztT2t6,C1,Mgb2,R1,E1,P4up,O1,A8w4E6H3R1,B26C1xD1tG1rH1lIg74L1iM15PsRqS9T1,AgyeOgyeUgt5,I1,HgyxN1Rajm,EgriIad1,TgyzUgyw,N1,Lfgf,A1,A87a,CUgteZga1,!Dgm9EgxrI1S,N1,Rao6,!BaaeLgxuTggl,A1,Cgn6Egr5N1,!A5Egx8F4I1PasjSY,CgxgTgq7,A1,R1,Oew1,C2LcudM1,IgqdO1,T1,N1,A2uk,M1,Y1,!IfuvS,D1,N1,AtBsEqFoInMfO7R4U1,L56,L1,A953,I1,R1,E1,Ocec,!EgtfIgt4S,T1,L1PgulT7sw,A6wc,L1,!AgzgU1,C1,!A5Eh05I1SU7d7,Igzb,E1,H1,D1,N1,EjNfSeT6U1,!BgyrST7bqWfki,AgyrEg6kIh0f,!A2ST1Ugl7,Ifuc,M1,A1,R1,T1,Z1,R1,GbxtU1,Rb29,E1,!S1,A78C76D6wE6uG6pIa6kL6bM5qN45O1wR10SfTcUgv0W4Y1,Ig2bRfpx,!Ffn3Lfl5,T1,Igy8,R4S2Th0vUgzrZ1,A360Kgik,!EgzhI93aS,O1,T1,Eh10R4T1,Lbm1,!Bfn7L1S,EgsyKgzjNgwf,I1Y,EfmfIh17Tejb,T1,I1Ogjy,R1,!Eh1dIb6iL5SW1Y,T1,Eh1bSdre,!I1S,L1,S4U1,AkEfIdO1Yfnn,!EgwtIgssLg6jS,T1,Devu,N2Ocf0R1,DLf3f,Nh1oSfni,!E2I1S,DR1Tc3a,Nh1oSgs3Uh1i,E2Ih1rO1Sgde,!B1EgxrIgxpLfv6Sdl,!AegzIh1tUegz,Aeh0I4lsY1,!D1S,!Egt3Ih1wLgoqSWc73,T1,Ih0sYgwv,Tgqs,R1,E1,E8ktIeai,T1,!B6H3N1STgxgWgqs,Egy4I8r0Y,Eh28Ih26L1,Eh11Oh11,LgwrTh26,!A5G3Hh0nL2O1SUh1a,!Eh15Hd7dIgmuS,Eh07Nh2c,!STcil,T1,E1,!FbvqIh2f,!Eh1bI5N2SY1,!HghzS,B1d7D8L2T1,K1q6,C1,A1,R1,!Eh2pIh2nRh0pSY,K1,C1Eh2n,Ah27Eh2oI1,BcjbC5Eh28Lc27M1Pc4q,Lcaq,EfmyIh05LfrxY,Daqn,A1,E1,R1,!Nfwq,!B2Eh31Ih2zLfe0Rfb4S1Y,L7R1,Ih2zLh2y,AamjE8awIdph,L2V1,AcE4HfnpI1Kfdt,!Gfm6S,!G2K1N3vuS77,!Ig32Ygob,!Oh13PcjhS1,Eh37Igeb,F1,F1N1pcSevi,!Eh27Ih3cLgu0S,!FaopHg62I20SY,!Nh3cSatb,!Eh3hHh3eIh3fS,A5D4L3Nh3fO2SfpbT1,Rg7o,A1Mgy1Th3g,EfduIgwy,!AfcqST1,!A132Bfa3Nh3jRh3jS,E1Ih3m,Mgy6Zcj0,A23B1wD1tEhjF1rG1fL16MxNiPgR8S6T4V2Z1,Tb7,E1,L64x,AgmhEgr4Ogri,E2R1,AgqnEh23ObceSh30,Eh3uI1,DNh3vRSh2z,E1Ih3x,R9ul,EO1,T1,Ah3zIUh36,L1,A3EgvwO1,M1fd,!O1Th34,!D9Eh44I3LchaNgzgS1Y,Eh3aIh3a,!Eh24Icb2SY,K2R1Vgma,!IaqlOgu7S,!Eh4dI9soLgr5Ogs1S,R1,R3U1,O1,Ra7gS,AepfEh4e,L1,!E3LgrcSU1,C98aD1S,EgwdNgr3,Eh2hI1Y,Wffh,O1,L1,E6z3G,EcidLh3bN1,KffmN,A1Egy7,Ac2q,KcgoTh4s,R1,Ah3uO1,!B9Eh3fFdfzHfmbI7LgrrM5P4W1Y,NcgS1,Mh41NertUg1m,O1,C1,El0Ngpn,Eh12I1Y,B1bC19DyIvMqNlRjS6U3Z1,!Ah3hEh40IgppS,M8aoN1,AgyzEh55,!Dh56FddhKh57MftrSau9Tc77,Acep,!G1LgabOgt1S,A5B4DgwaE3GgycIfn4N1Yclr,!Dbw1LS,!BdxpLh3yNh0n,!Eh3aIh5eMclsPah4S,T9r2,S1,A1,L1,B1Mg5n,Dfcx,Dgw9N1,A1,Nh5mRh5m,E1,S3T1,Hggp,!A9utEh5tIh1oSY,R1,E1,C4T1Z8ym,AjBiDgwjFdx2MhNgv9OcS6T1,Mc49Tcec,S5hxZggs,!I1Lh4j,L1Tgot,IexoLbzc,!DF1S,Ih2gSh4gUh5u,AgpaEh61Ih3y,L1,!A6Bcj9E4IgxpO3SU1,!Ig74S,D1,I1,Ih5p,P1,S1,N1,E1,H6K1,R36p,H1,P1,E1,N1,AgprEh6iIO1Uh6c,L1,AU1,R1,!E1MfseSUh6g,!Eh6rFftiIfrySY,M1,!P8d2S,Lh5tUgwq,Ah6rEh5bFgm9O1,I1Ygry,Ah66Eh6nSh5p,I1Y,!ELR1STfq5,DMh5zRh6wS,Ah6xEh2aG,Ec8vLh5lN1Tgj7,Pg3j,A1,R1,L26g,A1,Gfki,N1,Y1,R1,A1,H1,G9L7P1,!AgEfIdO1Y,S1Th7c,Oe22,R1,H1,C1,Ah6uIakkO1,T1,!Eb9iFfplIh3iSWey8,A1qB1hC18Ggs7MyN4thOwPvRsS8T2Ugx0VgyaW1Xc9mZh1v,Gh2zNh7l,IgyiUh1w,N1,Cgbt,I1,T1,R1,O1,G678,O1,Ah2uE1,Agp7Eh7wIgys,CD1,Af9hEh7yI1,C7K2zfN4S1,N4u4,O1,R1,AiIgO4U1,!DIh86Lgd7PfgcRh84SY,!Eh85Lh6sMe0jNh3hPrw,N4uc,Ah36I1,Dgqn,L1,A1,Ih7c,H1,M6R3T1,Igqf,H1,Ah7tILgq4NezhT1Uh8a,!Ih8aOgygSY,N1,Eh8nIh8lO1,!A7E4I7fuST1,CiEhGcpdIc58MgNcokOh6iT1,!AgyvEh8mS,CDgpmN1,AfI1Oh87Yh87,R1,!Eh4iO3ioS,N1,E1,CPgcz,!I1SYgkd,E1l9Rdxp,Ch63,Y1,L1,G1,O1,N1,I1,M1,AgqfEh94Ih4m,D1,!Ah14S,L1,A5I3Ufq4Y1,GhLfNgwxPeS1,Ah77ElIfz7O1Yh8t,Hh06Tgwz,C2P1,A4bE44I3kO1tUsY1,!LcbfRh9fS,COh7cTh8i,Ah8tI1,!Cbg8H1LgekSTcmn,!Ah7wEh8fIgu4NS,R5SfvmT2W1,Ih9oSh80,!Eh9fIh0hO1,S1,S1,I1,Hcjk,C1,HTh9r,Cg86S1,EgevI1Og0x,Ces5,I1,Eh9qIh9qT1,Oghl,I1,B1,O1,CbM8S5T1,AjEeO1Uha2,E1tp,!Eha8IccrK6kbLgx0MbeiPhoST1Wh2x,Eg35,!KgruU1ip,!EgsaFf1wH2IglbLgfaS1,!D650L4NffvST1,Gcjh,!E1Y1,!D1RhabS,E1Ihae,EcevIhafL1,Eha8Ogek,Eh9bIh8c,Eh8wY,!EhabN1S,!A927B5I4L3O1SY,Hauq,!MfwcNhalS,Hgxo,G1,M3U1,A1Ed3bIhaq,Acwv,S1,R1,A15sO1,Eh78Ogdl,Eh2pKgw8Lh9hNfw6,Eg7jI1Y,Ofjs,A8dz,!EfclHgvqOh8v,!CgDbEh9vF7H6L4M3Oc91P2Rg4aS1Wg72,Rhb0STb6o,Eh9cFc91,Lagv,G1Lg4jOhb3,Efop,G1Uhaz,Ehb6O1,Eh9iR1,NgvvT1,O6y0,Icqz,R1Ugvy,RShahYhaf,!E1Lha0Nh6pRge5Sfor,N1RShajYhah,Efx1NfxbSfxc,I1,!M7cyThai,!AflvB7E4F2S1Uflv,Tani,O1,R59v,A1,Gbsl,O1,W1,!Waj5,I2Y1,S9uq,CkDbEh63FbfvG9I7L2O1,OhbuRg55,AhbeEhbeIhbe,R1,B3E1Ucg8,Tgfu,!AhbcEggdI2vzO1S,D1,Ahc1Igz5,L1,O1,!Fhc4Nh7gRhc4,Lh7jNh7j,A1,Recy,!EhccIhcaLghbO1S,Ah60CUh9h,I1,!FhcbS,MgrpN,AD3F2O1Uh9l,C343,O1Yh7e,!OhbgS,H1Ohbh,E77a,H1,R1,C6FhclP4R1,AmDjEiFgGeI9O1Zfzy,Yh3o,EhcoShcc,Fhb5La7sVhci,I1,!B4I3LcpxMg1cNh83SW1Y,!BdhxEhcwIcoqSY,!P12lS,L1,LhazO1,HhcwYhcw,A1,B1,!Efx6Ihc2SY,If4qLcpwOfl8,Eak4,!BcmjDF2GaqjN1SY,!Ad6mE1IcjzY,!Bh08DdE2i2FcG9Ie5iKgk5M6N5Pc9hRgeoS1,Mhbs,I1,Ee3mL1,!DhbuOh37RexvSTfyo,!I77mS,N1,E3IhddO1,LhcgY,Eh58L1Ndih,Sh7pZh44,!I1S,D1,N1,A1Lh0e,!Ahd2BcCfnuEhbhG8HgvwI6M1PhdjSt5Y,!A4be,!EhbwLh0pS,L1,E1Odzi,Egko,M1Nhdp,!EhcnIhdsM77dPfziRhbuSY,P1,Pfpz,A4I2Oh97Y1,HaLe5sP7S1,!Ah9lIg5vS,C1Thcz,I1,!H1Tew4,Md5,S2b7Zh8b,!I1S,D1,N1,A1Ehd0,A6Dh56M1,!IbcfSY,Acw5Gh4xLcucR2T1,DSgp8,Sh8aZh8k,!I1Lhcx,L1,!A1EgvnS,T1,N1,E1,!Ah9fSgz7,R1,!A8ogEaIhekM3O1S,N1,R1,E1,Nb2h,!EherIhepSdm6,A2DheoKheoN1,MShed,!I1S,!A4jB49D3sE3rF3qG3oI3jL2yM2uN25O1nPgbbR18SxTtUkV6W3XhdzY1,EhdpIcloLh5iY,!B1EhcqS,!DFd0rLg14S,Ec7sIgmf,Sh9hUh4w,L2Nhf0O1,E4I1Kgwr,EhcxIbl6,BhdfT1,EhdwN7s6Oh22,!Ih92LhdpNhaeS,L1NhbjThcy,A1Shec,!A5E6unI4SU1,C5x9,!She3,I1O,T1,I1,F1T6x0,!Ehe9FaveIdkfSY,LhfdN1,Ihf7Yct8,!R1S,Reg0,Ofk1,V1,Eh3aI1,Cgx6N1,Cdn8,I1,R8nyT1,A1Ehfo,Hheq,P1,!AcEbI7M3O1Pf4kS,!DemeRhdw,!DhdxS,D1Mh6vUhep,D2MhfvU59,A1,EhfxRShf2Uhe8,Rcu9,E1,H1,T1,A1,O9la,L1,Q3mf,O1,Eh9aIhc2O,S1,F5L3O1,!S6bj,Rhd6,E1,H1,T1,A5O1,Hg19,P1Shfo,E1Ig9s,!AhfwHgjaS,T1,N1,E1,!R1S,A1,Ah84,!IgdoOhenT1,!AxB6pqC68DvEuFpIiKgkxLhfeMcN9P3S1U9xn,!Rh83S,E1,!LglxSWcm3,AhgvE1Ih7rOh4o,T1V1f,Rf3t,O1,I1,Ahh0Ifhx,Ydml,H1,D4L3P1,!M904,!AhfjEglzIhh7OhfgS1,RggjThf1,Ifjw,O1,P1,EhhaIh86O1,T1,Y1,EhhdIhh7,C2Mgq5S1,A9EhhfIgxlO1,L1M,!A1pDqGoIlNcj9OeSTcU1,!H1s8,!FaznLgmmRhfnS1Vh3fY,EhhkIguk,DM1,!Ahb2NhcyS,CZfjn,EhhoI1,C3NhhsT1,EghbOfxv,L1,!E7I3O1S,AhhtLao1,EbH2Ig28Lc8lNhhcP1T6u7Y,!Ahg9EhgsI7xfS,!EhggH1lwIcejLam4Rfq3Y,P2S1,!DFd3vRhhyS,IgzvY5rd,!Ee3m,!E1GhewS,Cfi6F3N1STfi9,I18yLe2b,!E6I2U1,Phhn,Mg7u,!Eb4fIhi9L8okSY,!Ih3qT6ao,!DL2N1arRhi9S1Ycxo,!Ah9vIhe5Lhgx,Ehg9In1,ShhkT1,A1Ihi6OhgaY,D4Ehi8McomNhihT1,Khi9X,A1,AbE8I3L1UhhhY,AgcaEcxx,Ah36Ih35Y,Cfs9,A1,!B4EfzzFfabId1fL3MheiNhdyOe1lSW1,Sg5z,EhgzNh3bO1,Ahh3E8w7I1,Ahi9B3xC3sD3lE3kF3fHg3dI3dM2zN19PwStTmUlV9Y4Z1,Oea0,O1,ActwR1,!BdnzDLh5qP1RhiuSWgll,E1IcutY,!Can6Eax8H8dkLhhjNhe8S,S2T1Vh10,N611,A1Zhda,I1,!EhhcIhadS,K1,C1,A1Eh7xRcuwUh3r,Ng51,I1Lhha,C9lp,O1,AgwqR1,Rhh7Uh0l,Ebn2O1,Ecx1Nh3zSbgf,Ehi9Ih3zY,Kgv3,C1,OhiiUbdt,!Afl4H8tnIg46K6toT1Wcyw,Ag3pIh44Ogma,!BfE4bzFdGaH8I7K6tqL6Mbn3NhevO4RcukS2TgwpW1Y,!Db1zGd4iIhjmKN1STbnm,NhioOh9k,I1,R1,A1Ohjo,GhisSh22,IglaLh1eMcli,Ehi2Nhiu,EhjsI1,D1,A1,Mcqj,O1,!S1,EhhvOcmg,Ah4mY,!Eg1dH2Id2tL1NhfcS,A14Bhj4C11EhGdIcMbN7W4Y1,!CcgrDS,E1Ihk5,EhifL1,Nhk8Rhfj,!D2Ehi4I1L8exS,AfqhEhg8Ihk9Oha6,Fhk8V1,!Ehk9Ihi6Ohi6S,F1Thbr,!RhkaS,DhjfGhjf,!A1EhgeIhkfRcveSWdri,L1Shjh,Chb5Lcml,!A1EhieIcweLhj3MecuNhfsY,!Ec51IhggSfrf,EhjfIhgh,!Cg6gD2Ghf4N1S,EhglI99hLhj0Y,!Aged,!E5a5IcriMg97P2S1TY,Vh2b,L1,U1,F1Uhkk,O1Thfq,EhksIg56Y,!L1M71mS,Ac2rE3Kh2iLg57OhirT1,!HhkvST943,EhgxIavbY,L1,Z1,BapvDtErFpGoLlMjNgOhjvPdS5T4VgefZ1,NhchThl0,Eh7iIfbgY,!G1Rg5pScy2,MgejWbea,!Ehk1Ihl6Sdsn,M1Vaqy,Hf3c,Akk,L1,!E3mxIhlbLhjwNhglU1,!EY,BchwC5Gc7sS2Z1,!LhjzNhgoRcn4S,E1,U1,Q1,S1,IedvOhivY,!E2ST1,H10d,Rd37Ub4h,!Ehl4HciyK6vsMga6Wbes,Ah8pOawp,!B3EhkkFfdcHat2Ih69L9o3MbjbNe4mOe4mS2W1,D1,Hbhl,Cflu,S1,!Ahk6EhkpI7ojOgpyST3U1,CaN5P1ShcjT8rd,!EhkrIhhtLg7mS,!DL1S,E1,EhdsNh2b,!EhkvI1SY,!Uh6s,H4dt,!AhkfEhkcIhi0L3N2ST1,A12C9okG10Ie8bMzOxPhcsSrTkU9V6W1Yhl4,Khct,A1,!T1,!B8y6S1Wfcv,!Ehl4IcldLd2aS,!Oi6,!L2S1,Ehe5LhkxNhmdShly,!Eg3oI1LhkyNhhnSY,F1,EhieIhicY,L1,RShlkThmf,E1,!EhmlHco9Ib6mSY,!B4EhmiM2Oh9uP1,!EhlgIhmlLhguS,G126IhhyT1,H247,Cg8pTf4s,BhD9qfEeFbGcmcI707M5N3S2T1Yeej,P2ya,A3zE2oI1qOnU2Y1,Mdxt,Rg5u,A1,A3H1Ohmt,!OhmdSUhh4,C1,A1O4kh,ChhiShm0Yhmx,Hd71,T1,DcdrNhe1,!Se0q,!A5E3I2O1S,Ee8oIgn0OhleYh89,IhkiT1,N1,Nh7w,A1Nhna,Ahj5Ofdl,!Ahm4Egk4Hg4pI2R1Sdus,!A5D1S,B94q,A1Uh55,CkIhNbR3VhmhY1,Ohmo,T1,A1,N1,R1,E1,Eadh,EhnlG1,Dhj0Leua,Scyc,DadlI2N1Reua,Mhdx,I1,!Ahm5EhhvIhntT1Wduw,!EhnwHg58IhnuS,S2T1,Nhj8R6S1,!AcchS,F1,GcmoLghd,!Bcx6DLh9uPviRhnySWg84,L25l,L1,I1,!A8y0E4Iho4OhlzSW1,!Hh8vMgco,!EhmfHdt9S1,!DFdwgLgafS,Mm1,CfjrTaln,E2O1,!IfeoLgajSY,D6E5IhocL2T1,AghbEhm9Ihod,!Ffg1IhhiS,R1,A1Gbum,DdL5Mg99Nh4vPgyzRhj0S4T1,GhogR,!EholIcvdLgtkSWgbzY,DThoiYhoi,BgliEhn3Nhom,!AgzxE2I1SYh9q,!A5CgaiDh6yEhofF4L1OfdzP8u5S,!Iho5OhniSThkj,O1,EhgjNdtsThnr,S7cUhoj,AgxiEhnnI2O1Y,Oeac,!H1,!B6DgeyLcprM3Phk0S1Td9rWbm0,Ochv,T9n4,H1,G1Rho0,I1Ld01Ogj4,Ocnq,!H1SY,EhbyOgit,NTgqm,AhikE1,DLhp4NRgqg,!B596Sfvp,E2Ic7gY1,Iho2Wdir,A7atLg9eO1,OffmUb77,Iha3Oho6,Iatf,!EhovH2L1MbstTfzn,!BatnCjDawsFfIhkcKdLcMaN7P5R4S1W1nd,!DSThpe,E1Ihph,EhneIhpiL1,ThphYhph,AgiiE1,G3N1RhnnSgbgUha9,!EhjoIbmgY,Ehf1Ih7oYhar,Bh7fTgv1,!A1EhprId1lLhcjOhovSY,H4S3T1,Cgj4,U1,EgmfIguv,!ET74h,Pmm,I1,!N1,!Ehq0IhaiS1Y,DR1,Aeuv,R1,A8E3IcwwLhgqU1Y,!BbLaS4mmT1,!Ehq6Ihq4LhbyOhoyS,Zbhw,A2rB2lChq1D2jE2aF28G27I1pL1jM1bNrPca4RlSgT3Vhq4Y2Z1,Ufpx,D1,E1,Has7,IfbkTh38,S1,Hez2,P1,!Ihq6Ohe5SY,M1,R1,E1,O5P1,S1,A9O1,!KcN1S,EgrlIgrlOgnt,C1,O3nm,M1Uhqi,IhqiO1Y,R1,D1,E6N1R3it,ACUho1,A2xc,R1,Sdmd,A1,C3Ihr2LdlvM1,I6O1,C1,Ad8l,Nei4,E1,EfkvG1Pa9b,AdE5I4O1,EhpqFfvp,NhraS8sj,!DfhlI1,!EaneI3O4j4ThedUhljY1,!Lh1uPd7lS1,Ehp9Idv9Ogyb,LhpyShqfT1,!DNhqgS,Pbp2,M1,O1,U7ch,Q1,E1,R1,Agqd,Pfmk,O1,Zhes,I1,L1,I1,B1Thrs,A1,!C7ET1,!CfFbIcbfMaNhrvPgq3S1,AkEjFsuIbagO1Uhrq,Bhm8M1dNsPnR1Vhm8,AylEr8HqjIocJoaLilNhwOd7R59U1uW1rY1,FhrzRhrz,Adci,H9uj,S1,A1,D1G9k2,R1,Mhr0Thk3,EI1,BhexNg6zTdva,LhlcThk8,A1DhrdEhsaS,!A3EhsfIhsdSU1,L5T1,A8uaDdE8I1ObqpUhsd,Dgol,KhsfN1,!Dhn1S,A1,D1,N1,E1,Mgte,Ed24Uhri,NTfz7,A1Ehm5,!Agmc,!A5B4EgxkIcvdLayjM2NbvfS1Wdzv,EcHe40I7K1,Ihq0,LR1,Egm7Ogmm,NhsyTh61,EhswS,!E1Ihsx,NhjtSd50,O1,!A7D6EhqyI5J3R1Shs5,Ehov,C1,Cht3Nht3Ths6,AhshI1,LT1,!A1Igx7OhgzS,Eej0,!C6DIhtaM2NR1STht8,Ehs5Ihs5,SZ,Ag8hOgij,R1,Ah6jOgil,R1,!A3EhscIhthO1S,F7I6NfxtT1,Id5c,D1,SgfgThtj,Ed32OadoU1,CSg8m,Ag8sI1Ogiu,D1Rd99,NhtrSdxi,A2EhttI1Lhkf,Oej5,C1,Gc50L3d5S1,O1,Dfc0EhtuIhtw,D1,I1Og94,!AfBdDhpbFflmG8I4R1S,!AhtyNfybS,!ASU,!T224,!EhsyIhu3S1,LhtlNhqi,Ad3o,E1Uflu,A3R1,AhezLdbrU24e,S1bk,E1,Ohu9R1,EgqyI21tOgo2,EhqeNhub,I1,Ea,R1,Tbu8,I1,L1Remf,EhuiId5r,L1,Rcr5Y1,!B7P4T1,O6vg,!BiChDeEhurIgf1LdNgo3PbS2W1Y,KpLnR1,!EhujIhup,!EhukIhuqJ1,!Ehp1S,E1Ihp2,AhutOgk1,H1,AhuvOhu0,Ah82H1Id6rOf1n,C3K1Law5Thq5VdfgZhty,E19l,!SU,!DNhqcR1Shpx,AgotEcrn,ChtiNht6,N1,E1,IgzeOhu7,!B5H8puLgonNhqiP2T1Wbcx,!Ehv7Ocp7S,Ehv8Ohr0Uhuf,Bee8D2NhvcT1,Jdft,!SU1,L1,!AhveEhtxIhvfOhveSThv0Whmu,Edin,G1Sfuw,AfjnO1,N1,EhvcI1,C1X,!Ah8qE8IdazMb29O7SU1Wgfq,A9m3Lhhh,!AhnkOhjeS,N1Thr1,E1,DhvpNhvs,Dg7x,I1,R1,IfwpYhbz,E2H1,!CaEhufG7I6Lh0yMwgP1STa50,R1pg,!B1EhtvIhvzS,DR1,!E1IhryLhivS,!DRhvuS,Agb7E1Ihw3,A15B14CfcmE12FwItLiM65eO7T3U9zoV1Ydbh,Dhth,A1,Y1,Ahw6R1,Hbkc,C1,S1,A1,T1,D6LhwcN1RdrtThvfUhvv,R17h,OatvU1,DhvjLhwf,!EhvdHhc0IhwiL7fST9uc,DR1,A3E1Id8gOgqaY,Gckk,N1,I1Uhwn,EhuxR1,!T1,RThv4,A1IOhk1Uhwj,L1,!AfBdEhwrLgq7M9PcfwS4U1Zaxz,Rgqe,GhwtLhwcR1Sgq8,O77k,A2Egj3Igj3L1OfopR2i,Rgbn,Shhq,A1,!Ehx3Ihx1Sfv,T1,F1,A1,A7L5R1U77v,S6nt,A1Uhwo,RhhyUhv3,Dcvm,L1,EgivO1,!EhvlSe4t,T1,F1,A1,A4hkR1,C1EhpaLhw2Ne2jWe4k,E93l,I1,H1,C1,R1,E1,!Ahw0Bgg9DLhkiRhxmShxm,Khw3NhiaShwj,E2I1Ofo1,!EhvmS,D1,Dhw7I1,A1,Eht6Ihwo,IddjR1,Lcwa,I1,A1,Lel0ThxyWhrf,Ig7oRepx,!AgrnB3mE2FgkvHcupOtyP1Tfzm,RbpiVfg7,Nb27T1i3,ThwjUgsa,I2O1,Ha2jO4R1,!MgmrPasx,!B1cC14EhhqF12G11HyIsKmLjMfO6z9PdRaS7W2Y1,BhwnRhy9,Ahu6Ehrf,Uhx6Vhle,LPhyb,!A4BbkhDb5rEhx9FdlcIhiyMgmxN3O2ST5idU1,Wgyl,!Ea32Id11SY,!LelhS,AhygE1Ohsq,!EhylIhyjLhxkS,Mhvp,A7k4ChxmDcG7I6K5S3T2U1,!Lhx7NhtwRhwoS,D1,R1,A1,Z1,R3w,A1,A3T1,Igb6Lgw1NgdtPhr8ShulTg4a,EgqpIhtsO1Y,H8p1,!T8p2,!C2Ehz0IhjiS1,DN1,E1IdawY,Nhea,L9j5,G1,E3IgmaO1,!AeiiHcLaP5ST1,Gd75,Sg6f,N2S1,Ncva,!Igeg,!AhcqEhy6FeadIhzbLhm5Md8zS1,R1Uh5h,I4O1,AgscOhy8Uhs3,AbxtO1,RhxuVhmi,AgmhO1,DhcxNc3iRShyl,Ehj0,D1,ChzgN1Thzj,T3,Db6yR1,A1,A4E1,Gbd5,Ehv2G1,Ed1nHh2hLhydMhykN1,Ihn4Y,Bhy6,A1,R1,N2o,A1,!C3Ehz2HhkpT1,Kht8,OhwfR1,Ahz0IebaO1,!BoCmElF96xHeIbLaM96uNbxhPhx8S4T82rW1Y,Igug,A1,EgmcR1,KhylPi05,I1,!B3DEhuhL1Mi07S,Ag5vCg8gJhxfNi0b,DNhrq,!E1Ii0cS,I2n4,U1,Q1,!E1OcdcS,Thxm,T1,N8dm,!Lhw9S,!A1IhtpS,C1Ei0eOhqjShuvUhuuZhvq,I1Y,N1,!A7EhzkFe8yI6LgmxO1S,Ei0iNchmShzk,Ohqr,H9b4,C1,!I1,!EhzqI5O4S1Y,!Ei0oIhny,S1,U1,B1,E1,U1,Dhy7Ehv4,I1Ocu7U1d6Yhm7,!EbfeLhzpNhwe,H1Lguj,Egjt,B1,!Hgbi,!Ai0qE2S1,AhwfEi12,C1,Ee8cI1,P1,M1diS1,!AhzrEi0aIi1fMgpyST9nn,T1,S1,E1,A2bB26D1gE1aI19K17L13MuNb3wPoQiRgSeTaU5V1,Eau6,F1,P1,N1,DEftcS,!E1Hhh7I102,Ei17LhvzOgvg,!DFgokNht6S,!AhkhE1IddoY,!E6H4Lgv7Pi1sS3T1,Ag3fOel7,ChgcDLeovRh35STi1t,!Ahb0Bg8eE1IhmgLetsMi0oWgm0,H1,!Ai0aDFea7M7vjRi1wS,AgvpEhyd,DRbb0,E1Ii21,!Ai0eB8C5E4Fed4HIi22Ld2yMbwhPhjoR3SeckT1,Ei1x,!STfsg,H1,!AhflEi11IbvnMcyhSYdhj,Hdgk,C1Tdao,Udug,A1,R1,E9a7Oehb,Ei08F2T1,Ii26Yi2c,O1,!Ui0p,!B2E1,BfGdLcNaS5T1,Rd6s,!EbaiIi2kShx,!LgcuNi2kR1S,Ni2nOefz,!KdiwS,C1,A6DanE4I3O1,Ijj,DRi2pYgo5,!B7jjHczx,!B7jkE2IbubLh7uMdkcNfn0S1Wgq9,!HedvRi2sS,!E1,!Ei2yF6Ii2wK3S1Tbog,IgogOi2r,AhgdOflc,AdrsOgwk,Ci2vDi21,AgwrI1,!EgqjTg9k,Agw1Ii21,!CgddEi1zF7IhnoL6M5R3S2W1,D6vs,Na7zR1,!HhliLi1sNem4S,!DL1Ri36S,Aa26,A4E2IgojYZ1,!AbaBawCaiDa9Ea1F9tG9cH9bI8lJ8jK8hL77M6iN4qOau4P46R1sS1iT19UtVmWfY7Z1,H1iw,C1,Ag4zOdir,E2i9,H1,RgwsSgpc,Mgwa,E1,R1,I4O1,AhyjEgm7,Ndq0,U1,MhogNi03,GgwtNhue,Ci3mNi3s,A3Eh0eI2O1,T8ob,NS1,T97k,S1,A3EhxcI1Ogx8,Hi2xI9l,Rcs0,A1,U1,Ai03Ehx6Ofud,Ndsw,I1,IhowR1,Ai07Rew2,Li3oNi0lYi45,EgotOi48,A2Oc3bR1,!Ai05Ei34H5MgstP4T1,IhrcThrdYi49,A1Ig5xOb5u,!A10BzCxD982Ei38FsGrHpIgpmLlMgNddhPfQcRbS3W1Y,!FecnIfurSY,H1,!Ai2sEi3bIi4gST1,!AgomEi2dIi4h,!Ei2rIi0fS,K1,A1,E1Odqp,R7ol,EgchR2U1,Li3r,E1,Dbm1,N1,E1,MhaxRi37,!Ehm2IgphO1Tbqm,Rc35,H1,R3a5,A1Oee4,!AdmvBcE1qcFaHbd3I7klLbtnR7S5T3W1Y,!Ai3cDEi39IhpkKd3nSjT1,S6xtZhza,!DfvdI1S,N1Rhc2,!E1IexgLb9aSY,Red1,!T1,!Ai3jEhauH3Ii57Lhs1PbydS1,!LgpjSWdkl,!DN1Ri57S,!H8zwSf97Wddt,E2I7kxY1,DzLwPi5bRcT5Uh9jV1,A8y4,M1,O1,Ng2p,E1,R1,H1,Damu,AhxhIhwfU1,!P3ST1,Adhl,D9E2R1,T96t,!LhweS,C91h,Mi5qPdju,A1,R1,G1Lbq8MhsvRet3,Ai4uI5O1,A8K7T1,Gi5wPdm6,O1,!DH1PcmjR2mcS,E1I9uwY,Chj1Sgeo,I1,N1,DhnwEi4eG4O1,!Ei51FeefIi66LgseS,IgzfOhzb,!BebbEi53IhqsLht2P1STh00,D3H9hqL1Zi0i,!Ei55Idi6SY,T1,Mg7h,!Ei6bIi64SY,N1,E1,M1,AcvvE5IhyzU1,!EespHi6gS,!T1,H1,Ii5mOhwi,EhthOfwx,!DfwyEdz8Ii6nL1Shrc,HdghThy3,FhtrG5Li6oMf1hN4R2S1,Ihz8,Tdby,Ngq0,E1,T1,N1,!E1,T9f9,Ihf6Ni6wP1,Ai0dEi6rIi2sO1,Hdhk,P1,A1,R1,Tev3,A1,!Tgf0,P43w,O1,R1,!Cg11G7L5Mc11S4T1Zfrj,Ai3pOet4,Tgxg,Ag0nCeL52rO3P2S1Ui1lXi6j,DhugT,N1,E1OeqtRdoz,!Ii6nSY,Bh89DNdjgR1,Mc2e,A1,R1,O1wu,Ni7oOi5iSexo,Vh7u,!Ac33B9CgfjE7FdunG4H3I2KhjcOgnlSU1,DT72g,!IgcrOh4xS,H1,GT1,N1,!E5I1LhupSqp,!AhlbIhz6Ri5yS,!ST1,Ai2vEh1c,!Ai6bEi6uFeg8IhsjLgu7M1S,D14InLbM5O3P1Vi29,Ohv0,T1,Y1,Ai00Ii5z,N1,I1,T1,U1,L1,G1Ohsv,Iaty,G1,!Ei8bIhw0S,Ci8cN1Thpb,A3yt,Yh8p,H1,P1,IezjR1,H5O1,Ygae,CbufGeh0Ii8oLe3hMh8qP2X1,Ai7yEhq9I9O1Ugph,ClGeLNcT1,R1k0,T1,Y1,Agg2,C1,Tgm9,O2Y1,!L5R1S,Egbd,C1,Di3v,R1,O1,!EavjH1Yfa9,M6lu,E1,S1,I1,M1,E1,Acsk,R1,D1,E477Y1,Beml,A1,T1,P3qh,R1,E3O1,Ai9hIi8l,L1,Gg6u,E1,R6xr,E1,L3T1,R6md,E1,H1,P1T1ho,Y408,AxCtDnHjMdNi9tObP6S2Z1,Ii8wOh3m,Tem5,A1,M1,O1,R1,Eia0Ohx1,Af3dT1,H3Oi9kY1,L1ua,A1Lfad,Mfql,A1,N1,I4Y1,!OaviSUhql,N1,I1,B1,O1,L1,Mg3jS777ThtjZi4q,Y1,Lf1h,I1,If1l,H2O1RezeT1ur,Ei8jIdl8,G1,Dejp,I1,A3O1,H1,R1,Dgee,Si6mTg7d,A1,I3T1,CuDoF5xrGiIib0LgPcR5S1,!Ei4eIdhlLhg0S83dWgyfY,T9ki,I1,!T1,!A2fE27I18L17MdrcO5P4S1,Aia4Ii9y,TiarWi3w,R1,O1,!F1,E1Hgt6Oh1d,Y6yy,S1,A1,C1,Yiaj,D1,A1,E4I1,Ei9dIi9d,U1,Q1,Uhtw,Q1,AibmEhy2,E3js,H1,T1,!BnCiDaE7Hgt5I5LhgsN4O1Pc6uRi81STibq,Zhl1,!I1S,N1,I1,!Ai3fS,C1Tf1nZi66,Lhv2,L1,E1Yi6x,Agu1,G1,Ahc8E1,Eavn,R1,C1,N1,A1,Xhbi,O1,CbM8P3T1,EhgoIfO1,RiT1,Lgvm,H1,C1DiceGi95MhzgNibhR406,A1Ohtq,!A5CgkcT1,Ci86Nick,!EicmI1RiamS,D1,L1,CgpyGiboLi5qRfxv,Rg6a,O1,Cds0Ei4jV1,!A4EictI1LddnSY,Ai67Siby,E1,L1,U1,CicuNicx,!EibsI1LhhyMh1gSeke,B589FhzzTWgx2,MibrR7iq,A1IicrY,T1,EicuI1,Ofqk,B1Fh7j,FgnpLf54,E1,!A3B1Th0h,N1,FN,AhqcEid2,!I1Y,!Fgnw,IhpgO1Re0v,Dh7uTh0o,N1Pfw9,!AiBic1DeI8O7S5T3U1W24o,Bi40Gici,A1OibrRe10,OicdT1,!Ai6z,D4a8,O1,R1,H1,Yfng,!E6IP2T1,U3ua,E1,N1Tf3e,!Ahr9IhpuRibwS,T1,!A6E3I1S,!ELSTi5u,A1,!I1S,Mh15,!Ai7fO1S,!Eie0Ii5cS,C2N1Si8bZi8c,!EidwI1NetsS,!Vev1,S1T6nb,E1,V1i0,N1,Obbp,!B1S,G1,EicvN1,E5I1Yhzi,Lfq9,!E1Tbbe,!A1vB1qC1mD1kE11IyLiefMlNiOdPaR3S1Tczp,EiahI6lo,Nhg5T1,A1,T1,ANiekUibs,I1,D1,I1,R1,E1,AicnTidt,I1Ogkj,!I9P3S1Ties,Ai6eIi5p,R1,Af23,R1,E3I1,Tg5bUh9k,Rido,O3o0,R1,Lfl9,C1Sat2,E5H3LhqtY1,Xb4j,P24y,O2U1Ybco,Oi30Si9i,I1,C1,Tgr5,E1Iif5Oi34Y,M1,EglnIif7Oi36Y,N1,A3E1OggoRfxv,NifhSgeyThyl,O1,Y1,R1,A1,Ggm2,O1Yhr6,O69,OgsjYi9z,Li9k,Lf6w,I2Oh3sY1,H1Lgs5Tgkc,SXcly,!E1IifpPf3v,Lgeu,A1,Oe4x,H2Ii6vOfpsR1Yfps,EifuIhnk,S1Tif4Uifv,O1,G1,Y1,!A17C11DyEvGpKkLiMhNgPcSaT6Z1,O1,R1,!A1bE1Hig8MidfS,Nga4,A1,Sf50,I1,ChtjGhtjL3R1,!AiesEifbIiggNS,Ea6vP9ni,Ea6wO1,R1,O1,L1Oh9j,H1,I7i3,!C1S,!E1Ii7jS,OhqjRh1b,Dfli,E75aY1,Ta52,E1,T1,E1,N1,E1,L1,ObdmY1,EifaH1,T1,E1Iig3,Ac92Ogtf,L1Ogth,CkDhGgHeM3Nig7P1R495,!Eih4S,DR1S,Ngkz,I1,M1Nih9,A1Eiha,BgjpK48rNigeS1,Cgth,R1,O1,S1,E1,!R1S,L1,!AfEdIihlO8Y1,Ah1rEh1r,!D1,!AccBc0CbrDbjEbfFbdGb7HihmIazJayKaxL9oM6lN5xP56R37S2uT1eU19W18X3Y1,Thpu,Hihn,Hhhx,S1,U1,C4K1,U9pr,C1LTifp,A1,N1,R1,S633,A7E2I1,U1y9,O1U2z2,!Eh29I7otOi4jS,!C2K1,BigjLhfs,!Iid4LigsNidh,N1,E1,SibbTii8,Sie3U1,!A371BiazDLi56O1RiiaS,!A7D4E1Ii2xReqx,Ch0xEii6Zicn,!AihqI1SY,H1,C1,R1Tidx,Hhgy,P1,Y1,L1,Ngxm,A1,H1,DgisG4P1,A9O1,!DIiisMii2R1S,Teei,U1,L1,A1,RiccYiiv,!Eij0Iia8S,W1,Eij2O1,Acn6IeciO4R1Uhu3,Ii64Yi64,A8L1,He5h,Fii6G1,A2nqI1Y,!Pgrd,!AcewEijaHij6Iij8S,Ye0q,A1,!BaCeufEib4F8H3omJdyxL5NielRcckS4T3W1,Gcb3H1,Kcnd,C1,Ndc5,A2I1,!Iegf,!R1,If9w,Rh27,!AijkCbqkEii3IijlS,!B3C2EiihIdqgO1S5lrTh9qY,A5DfbjIL1TgpmUidb,T4jf,E5a,!A2S1,!Ihct,!Bd67Ed2wGf2pMhckQ2dvR99xS1,!LgldS,DR1,!E1IijvS,!D4GiakNgysST1,!Dga8Nif7RSies,E1Nep0Sijk,P4bn,M1,A1Rb3k,Rbr8,Mgl1,A1,T1,O1,!C6DhocG5P1S,AhxaEh1jIaO1Y,Ribi,E1,!H2uzT1,!BijbL2rsNifmP4S1,BiiqGbma,!AiiqDLfcaRikcS,Ei74Iibp,T1,Ee12LieqU1,A5Ch46E4IikiPdj7S1Ui23,DigwSier,I1,N1,A1Iiko,DLfwhRiklS,!E1Id2wY,!Ai1yEaxvS,N1,I1,M1,C9j7,DdbjNikvO1,Ibvy,T1,A1,P1,M1,H4vdO1,!EhwiS,N1,E1Rh5o,Oe03Yigu,H4te,T1,O44h,I1,S1,Y1,Mexj,S1,A1,A8H4L1,!AgzjI99d,AijbC1Eil8Oedg,I1Y,CiGfIilkLeNikjP4R1,Oezp,I1,!AtEilnIrO3R1S,!NP10SyT1,Izi,!EifqH1Iilo,H1,!MheiTh90Wieh,R1,E1,!C4H1Li8nSTf7v,E394Iilu,Z8my,!A47B3vC3rD3jE34F30G2kJ2gKickL29M26N20P1kR1eSaT3V2Z1,!M,I5oc,Z1,T1,R1tj,!E9q3,!Dcq3F2IgcgS1Y,C4GdnuR1T5Xe2y,EilxNim6Tim3,Hdps,!E1,!BcroD1Rim6S,E1Iim9,!H9srIife,EimdI6L2Y1,Bgo5,O1,!Be2nS,B1,Aci4O1,!EikzIcqdS,!B7G5LhrjN2O1S,!E2n1IimjSdzh,K1Uay0,D16q,Oby7,P1,E1,!A4Db7G1O48sS,!CdjdD9tmIimqLhrrRimoS,!EexuIagrS,Ah6xEimq,N1,A1Eans,Oi44Uilp,!Hi2e,If8gYig5,AgemEhaf,!AikuBgthFgemG8Lhs0M5N4S3T2W1,EikwIin0Tief,Ce2pDdloS1,Kdxp,O1,!NiieP1,!DSY1,O5f2,P1,E3Idz4K4zrUihgY1,Di6a,N1Rijo,!Ab0qBgttEdnhFgs5Ii7vOozSUi82,!DLia6SY,!Eim8IindMchsS,Y1,A1,Bf6dD1EdpbLim1NesiSgw2,!A588S,D1,!EinlIinjN1S,!AimiEh4vIinkLim5NiiuSWdsr,!AinkEim3IinlOinkSW1,!Hgxv,A4EhtsIineO2Y1,!IbmvS,A5elRh7d,Ahg0Ra9gYhbo,E4lm,Iif2Oibi,L1,O1,B1,A1,T1,E1,Rfq5Yi2j,H1,Uil4,H1Yfdf,Bfq8CeEfd3GdHcM5P3T1Zgh9,IilzRio3,E1,!T1,T9x,!Dh8cS1Ti68,AzDyExItKio8LmMlO6PcccS3Tio7Y1,RinbU7o6,DimdUih0Yio9,Ijo,O2RhbuU1,O8b7,Rrj,Agq1Ehl2I1nbY,DimvKgzc,A1,Tedh,A1,Ai02,T1,R4kk,E1,H1Iifj,BdypM90P6S4T1Whil,!EiotIiorOgf2S,Ogd5,O1,H1,Ch9jTinw,Ebro,Ah92E2bvR1,!C4I3Phu2T1,AhhxOiot,!BnCmDGlLkMiOaP8hpR9S2TdmzW1Yibp,E6n5IghnY,Sin2,AimyDip1EiovNinhZhzy,E2GI1Oht8Y,Ce4fEigyL4N1,Cip1Sioc,O1,Ea7,T1fc,O1,R1,Ei3wIip3Oid2Y,M1,Eip6Si09Ziki,AikcEgvmI1Oid5Y,N1,FiobPh26,A1,A6E3OhdhR1,H56c,T1Uaw9,O1,Ci1zEipfZigb,!AihkI1OideSUiopY,G1,O1Yi17,M4n3,U3i7Y1,Uawh,EipsIi59OidkY,B9a2N1,Iio9O1,IipoTi8zY,S1,A1,Ai97Y51k,L1,Rav5,E1,H8L5O3T1,Dhpb,E1,!EipzUikl,X1,!C3E1Pfe7,!AilfS,T1,N1,A1,L1,P1,S1,N1,A1,HakR1,SaiTiplUhte,O1,G1,Y1,!C1gE1dG15I12LyMayNwOvPkSfT5Z1,Cgzm,N1,Adf3B2hE1rI1mM1kO3U1Y,He1q,AiqrLil2,!EiinIiqlLipfY,!T1,!ChcrS,N1,EipzU1,OdhzR814,Ui90,Oqa,Ki8t,C1,!U1,!B7C6DhbwEdnrFhdyG5Iir5M4S1,!DRir4SbWecuY1,Eir9Nir8,!E2rqIdttSY,IelwY,BidxNinoR1,Fg7pNirc,!A2Ehw4I1S,R1Ugdr,!Aip9CmDlE8GircI7K6O1S,!I9soS,M1,EiecIhwjU1,!EirkIcveS,O1,Ne87,I1,!Eib3Iak4L5O3SW1Y,Re2o,!Be4nEiqjIiroLdskP1S,Ef2hIhwr,!Ah6uE2s8Ic23L1NgbxSUichWgidY,EGhgh,I1Y,AirrEieoIhwv,!Kc3iTiew,!EiqqIirvL2Oav0S1,HirvYirv,A1,Ghli,E1Ghlj,Nhfy,A1,DN1Ris0,!ChdyE1IdyxSY,ChdzDiEhc9FgKeLcP9R7S5T1Vhrz,!DF5ljLhedRis3S,Eir1IcxdLimfY,Kdqk,C1,Oe85,!A2C1,!E6Hi7tIisbLgf5P5S1Tclk,!HisaLRiqxS,!DIiq8S,E1Iise,Hduu,!AirrLifaSTimu,N1,O1,Z1,AilyEhxkIije,GeyaN1,O1,Nhap,E1,EhdaIhevL1Ogkh,DiffTiso,Ebvu,EiklLirdNexuSirmTinb,IhdlOfbq,Gdqd,O1,!TirvW1,Rimw,O1,!BaE9F8I7L136P6S3TiotW1Y,EisyIh95Y,G1,O1,L1S6na,DgziT,N1,L9ft,CiouEirp,I1Y72k,B3DimaF1,E5I1Oirj,Ahn1Eiqg,T5ka,A1,Egl2Iit5Y,E2L1,AiroIiew,Acb3EigcIhyj,AachEimxIisb,WiglXisp,L5rvO1,Dgl8,A1,DEd7b,IisiO1,!H1,I5du,Ehh8H1Ohbo,!BhChcdDFdHcLbMaP8R6S3TipmW1Y,E1Ie5pTiksY,Iew3Oiok,T1,AinaEituIin0,R1,U1,T1,L1,U1,C1,A8I1,A1sD1qE1pI1lM1iN15O11RuSbT1,!Eiu7Hiu3Iiu5S,A1,N1,N1,!DLiu7NPcshS,EhvjNiub,!Ic54S,BinwL1,A1Ihvb,CitfT1,Dhd0,I2O1,!GitiS,!EitdIiuiLearRiskS,DL1Sim6,Li3xNiul,EisuY,!A5E3I2L1S,AfEeIdP7T1,Eir2LhxdOfe1,T3t,O1,!Eit9IiurP1,Ah4fH1,!Dgl4IihvMhjcS,L1,O2zh,Ec25Ohcb,Rbxa,!Hh34Pe8d,EhcaIedq,!BcC8D2riE6F5H4LcsfNiqaP3RhxqS2T1,!G3leIiuzLitmS,A8b7UinrYiv0,A8sw,E1O2on,O3R1,Aah5,E1,A8dtL1Oh32,!Riqj,Ah44LitcRi80Uiur,Uhdy,S3js,O8vfU1,Pcwq,E1Piui,E1,DEivcShs4,G2sbNivj,!E2I1Lhh9S,IiryNSiilTiul,A1Eip0Oh4f,Iah4Riue,A1EbqdLi20,!STiow,T1,!AiutI1,EivjMfnn,R1,!Lh6uRitvY,E1,F1Vivm,A4I1Oivq,!BsCpDoFnGmHkKhLeMcPaR341S7Thm1W1,E1Iigi,DeggNindRyS1,!CgecEiuvIiw0S,!Lfj1R1,E1,Ai97Iie4Yih7,!SVhqk,T14f,!Ef79Iis3S,Efr2,!O1,!B1w0D6E5F1jwI4Kiw8L3S1,Nc6i,E1,!AiwaD1LivdS,!Aa9B9vC9tD9oE9nG9eI9cK95L84M5mN4zO49P42R29S1qT1dUeVbW4Y1,Hazj,C1,A1,R1,Iiw9Liv3UfmfY,!B1ChqbR45lS,R52,E1,!T1,!Ad88L6jxS1,K1,Dcog,F5kh,!LivcNis1OhzkRSivu,Aiv4EivnIiws,!E2G1S,Liu6,I1,CP1Sdmh,Lc6y,A1,B1,!AiwzEiviIix0S,!A2EivwIix1O1S,Aix0Kdz1L1,SfntT9ksZis7,Iipt,!EimhI2K1LhztNisfOi19S,N1Tiw7,!DNishRix5Sis2,E1Iit5Y,EdxzIix9,!G1S,G1,L4U1,Ia6cRhox,AiwvIUix6,C8qrR1,FicwSfjjTivi,!I1Liw2Oivq,Cij6Eixk,I1,A3z2Tivm,I1,CD5F3L1,!Bcjq,G1,N1,Kcwf,C1,Aiw4EiwnI3O1Uiwx,DSckd,!Aix5E1FhknI4bcLhk2OinrS,N4o9R1Ui40,!B89tEixyHixvIe4qLikqSY,N4obSix3,!AsBmDlEjIcM6O3P2SU1Veiv,!B89wEiwhIixz,H1,!F5aySTib5We6k,D1,E1,R1,!Ei4aOft0Rgoh,Ee01,!Ei4cI1SY,!AiwkEi3vIiisRitiSf5p,!C9D5G4HK2Nft1ST1,Iiy1LioyS,!E2ytIdgjSY,ChwjE802,A6hI1Yijh,!DSiyc,E1Iiyf,!EiwpFf6pIiygL1S,D7L6R4SixbT1,!EixdIiyiLix3Mhn1RiwkS,D1,N1,A1,Bix7,!A1EdjdFhlgIiyn,Ee0jLix9Nhjy,!EixkI1Li3qSY,AiwzIiyhY,Idv1Lipf,FixtViyj,I1,B9H7K5S4T3W1,!ChkwLi3wMixnSThklZahc,A1vh,Z1,A2hB2fC2aD29E3m8F28G25HI22L1wM10NpPRhS4T3Z1,Ih6d,NipzTiy1,GihcIivfP6zy,Oht,R1,I4O3U1,C6EgzsL1,SiteTix8Ziua,!I1OiigS,D1Siye,I1,R1,HgeoIivp,T1,GifrTheh,DiyfNiyf,I1,!Ci3kEGc6tLap7N3Sed8Tix9Uc8jZ1,Ait9CDiqg,Iic4UiynY,L1,A1,H1,LiynP1,Hapi,T1,Iil5O1,R1,O1,L1,L4b1,I6zh,T1,L3R1,Agj,AaqeEcH6O2R1,Ahze,N1,Y1,Rfrb,T1,C1,E1,L1,!AbmtOinxS,Lj06N1,E1Ramr,Ihz1,Aiv8Ej03Ij03,Ai3jEiy8Ij0c,S2TivsZ1,AihnOefdY1,Ghz6Ng0x,Ng0p,A1,H1,Siua,U1,Rhgo,U1,L1,L1,!Od99S,R1,O1Rj0p,A4E1Riju,CbD9Lj0rT1,AfE1Ogxe,CiwiUiv3,I1,Rarq,Li07,Aj0xCi0a,I1,B1Nj02,Aj02I4O1Yih6,NghhWio5,AheuE7H2IiryL4uiO1S2ec,Aix6Hf2s,!Ej04Kj13Ofh9P1T7x4,E594Ob85,Pid7,O1,H3R1,Abk9,P1,Min7P2Sj0eTita,!A1Iis8S,Oh52,R1,Rihv,!A6L4P2T6phU1Zinc,IimzY1,!B8afC1mD1jE1eFi0lG1bIixyK1aL16MqNoPgQglmSeTaUj1cX1Zglt,A25I24O1,A2aR1,CNj01,Aj1mI1Oipf,N1Tj0z,Ej1oI4z8,IiuvN1,E1,IiksYihx,H1,Pi14,O1,C1,GguyM7heP4S1,O1,EgapI8R1,CSist,I1,O1,Z1,Aj23O1,Ah3kOis0,R1,E1,T1,P1,!Aj1mEi45I9uvO1S,N1,Lj2bRj0f,Dj0gLhzl,!A2BeblEj2hIfl2Le3bO1S,E4N1,!Aj1sEi2zS,D1,Ij1jYh3z,C1,I3S1,Siey,S1,Y1,Hger,T1,Hgwh,T1,B5E3L854N1,Di25,Vbyq,I1,IiyqTj1b,I4T2U1,H5pa,T1,S1,Gg2n,E8eeI7b2,U8pq,Ij37O1,A2zn,C9E6G5L4R2W1,ChlrSj22Zixh,AiusEj37I1Oh2t,L1Rcy0,A41qO1,Chvw,Eb0m,Bi2iL1,A1,L4PgtiT1Ui6t,Gili,R1,Lhw3,O1,R1,E1,T1,S1,E1,L1,A9O1,Is0,L1,I1,V1,Udgx,G1,Efay,EghcL1,P1,Na8t,E1,Cf1e,C2S1,Eizc,R1,AaM7N3R1,I5np,AtHiIeO2R1Uf5j,Pg8e,O1,L1,E1,V1,E1,Iiru,C1,I1,F1,Ng0w,O1,I1,T1,IixjO1,Gi3h,R1,Dg9pE1,IivmOisj,T1,C1,E1,T1,Aie1E4z6,T1,Ej04,I2R1,Dj50Sj07,N1,E1,C4T1,FmMhNeS25U9X1,Di8k,I1,T1,S1,!Aj4lIj5aS,N1,O1,I1,T1,C1,N1,A8IissU1,Y26,Lihy,AhxuL2O1,D71w,I1,EIi3s,N1,U1,M1,Tj0d,A1,L1,Viri,R1,E1,Iian,L1,U1,Gite,E8uuI1,L1,L1Nht3,E1,Oak8,FdNaS7T2V1,Tdj9,I1,R1,MkN4R1,Thd9,A1,R1,Ej66Ihy4,S1Tiph,E1,N1,E5I1,Eim2,D1,Ei7lI1,P1,I1,U8en,C1,NizkRi03S1,Oh5n,B1,IhtzOhch,A2Ej53R1,DgosT1,Sizq,E1,Rgq1,E1,Bci4D1,AbE6N4O1Uu,Lg7r,A1,N1,O1,I1,T1,A1,Nj77P9rgSy,Dic1,I1,O1,R1,Y1,H1,S543T1,A1,R1,AffrYglv,Nach,E1,M1,IiyxY,R1,A1,T1,I1,U1,G7T1,Nj6vSinx,A1Ohk6,L7l1,Ej66Tj33,C1,U1,D1,O1,E5tq,R1,AmHlIbL9NhcqO8R3Uhy4Y1,Idr1Oj6e,T1,Mj85Ti08,S1,I1,C4L1,Ng7z,O1,P1,A4S1,Nimz,A1,M1,A3vE4O1,NiywViu7,I1,L1,R3n,V4p0Ziji,I1,T1,I1,S1,Ug54,C7N2X1,O8tc,N1,M1Nj4b,Eipt,M7ge,AinjH2I1,Fi72,Pdlq,E1,C1,R4S1,AkEcO9Pi77T6U1,EIisq,S1,N1Xj82,Ria9,Dgrj,I1,O1,R1,E5Y1,N8f,Hhc6,P1,O1,Pj85,EcH6O5R2Y1,Aieb,C33,B2I1,R1,Cj5h,O1,Iap0,T1,L3N1,Aho0,L1,I1,Ogz9,C1,Idmw,M1,A1,G6Rex7S4T1,EaI1,!A6xB6tC5vD5pE4zF4nG4kH4iI3uK3mL3hM33N2wO2vP20R1mSzTkUgV1,!DR1S,!Aj22Eja8Ija6Lix0S,Mj2lN1,ActpE1,Oedh,G1,Mgk2,O1,AijhEj89Ijad,CindSj4dZ1,HfkpI1,G7IczaP4Sj67T1,A7Ij1bO1,R51v,E1,L1,CiycL1,L7aUj3q,T4xg,N1,!CizcSh9p,A1,I1,R1,D1,N1,La8dO1,MjauThbe,S1,I1,R1Tisd,EjayIhlm,Sj93T1,I1,Lif6,C1,AjEhHaO6R3Y1,Cio5Sjac,!AjaiI1S,M1,R1,E1I57o,Tg5l,C1,E1,T1,DU1,A9onNj9uOiz6Uj8m,S8y3,Mh8r,E1,C1,O4Y1,A4xhE6L1Y75l,A84,N5bf,M1,I1,S58,E1,N1,G1Nj4o,A1O5sv,EjayOj4a,T4i,A1,R1,GjbrXjb6,N1,Y1,R1,If1bY,M1,O1,T1,AjbjC1S,E1Iikq,S1,A8Y1,T4k,AisfOigh,AfH3I2L1NissYj7q,Teod,I1,S1,N1,Ibw2,D1,A1,Ih02,Sj8eT1,A1OigvYiuf,!E7P4T1,Sg7wUitz,N1,M5k0,A1,L1,Ajc6Ij5q,M1,ChkoNhucR1Sg0eThni,A4E1Y3l,Aba8E8H1O3k,Tg1h,N1,A1Eie2Ij5x,!A2iBhhwC1yD1tE1oG1hIjd3K1gL1dM18N17PpSeT4X1,M7sk,!O1,!AadE31H2yIjd6N2pO3S1,C22rXjcd,A1,CihmSj90Tiwb,Ajd8Cj1x,IjddTfzw,E3I2O1,R1,E1,OjbaSi3jT1,AebBe6DbuEbrGbgIjdgLbbMb0OavPaR8S1Tjbu,A1a6EvtIrlMrkOh4UejWidzY1,!I88kSUjcn,B1,E583,G1,Ii0sO1,R1,M5T1,CjdgDgz8Sjcv,Ge46,Fiw2,O1,R1,P1,Efx8I6O5U1,AclcUj6lXjd2,Ed8c,E8duLd9sO2R1,!B1Ci7rDFfj2HhvdK1npLeevMi2iS,Uev4,E1Ij8y,H15n,Ramc,U1,A1,Ff1eLgxwP4S1,Ij51O1,Y1,H1,!N9OfwmST1,CekvEj64LjcwNhzl,!EjclIh4pY,!Aj7rIja6,C1,Ahn0,L1,AevzOie7,Ch02Th8t,C3Gf6kL2S1,!EjecI6O1S,H6g2,A1,N3S1,Ij2bUjdt,R1,E1Ij5kUjdv,EsHhIgKfO4T1Y,IjejUjdtY,G1,!Ej1pI9xwLh6dO1S,!L1ST1wi,Tjdo,O1,!P1,AiqaCj0nEj91,I1Yj04,C7dhF1Tjd3,I1,T1,AitoIj5y,!Ij5zM1S,M1Pf44,A1,R1,IhcfUjeaY,G1,O1,Tgkf,O1,G6L3M1,AkMhNcO1S,Ahc1,R1,Cim2,E1,T33d,!A1Ohc5S,T5vt,A1,SjdqTjb3,A1,R1,C1,N1,Y1,!Ib9fS,B3s2CjdxGeLcMaP8S2T1,O1,!SjeyT,!DNjb8RjfwS1,E1IjfzY,Eje9Oje9Rh3b,T1,Ejc1Ijg2Mjg0,S1Zjb7,!A3I1S,IjbyOj3v,E1,CixeL3N1,!Ij9cLhwoS,L1,!EvIeLbO3SY1,!Ii0nY,!F1S,OjawUjgb,Oj44Sj3r,Bh5b,AipkEjcfIa3uOjepRjbs,FhvdM2T1,Iito,BjewMhhhNe7z,A1EjcjIjgk,Bj38M3R1,Afc1E8I5O1,Djbz,AjgmIjdtO1,N1,A1,LeN5U1,Bcip,AjfnE1Ojeo,!CL,MSjg1,A2I5h7U1Xjg2,!CDjgvL,A1Uje4,Aisa,D1,TicvU1,!IirwLjfnS,L1,Cjf6Tin8,A1,M1,I1,Bie5T1,A6I1,G1RSjgd,L4k6,A1,R1,E1,Iawr,T39d,I1,Ieo,U1,CjfmTj9t,A1,!R1S,E1Ij8h,BaC9M7NhlzQ5T1,U2jd,!AfpcS,C1,I1,C4G1,!NjdsOjfpVjg8,EjfrI1Ojg4,Bjg9Nho5T1,A1EjftGIhxm,N1,EjfvI1,!A9ocIhqlS,N1,O1Vjb2,EjfzIi8sOjgc,T1,A1Ij81,R1,I5O8jqT1,!LT8wt,A1Ujch,I1,McS4V1,!A1bE12IoNjdmOjSU1Y,E1hI1fKd59L1M4oa,I9oiY,Bbj3LR1Thtr,A1EjefGjieIjig,N1Shr3,EclnI1Ojfu,G1MhyvRibxUjcr,Nbmd,A1Mja0,L1Reya,EjilIhmj,L1,I1,C1Dedy,NjisTavh,EjerI1,B1Te6u,Aias,Dehi,DhxsL1See0Wegu,Lewh,G1Wg55,Ie07O1U5mm,AeEaI7L6O4R1Ujd9,!Ae9pEjizIj9vOS,BjhfTj2u,A1,D3Nhm7Pb7dT1,L20,U1,!IflsLjhs,Cjg2T1,!N1,E1,!Ia79,L1,A1,I1,R1,Rist,E2U1,CcN8T1,R7ng,U1,S1,Aj39C2n,I1,Rdst,O1,R9v2,Ej93IjfkU1,S1,EjhpIa77,Gje3S1,Dhug,O1,H1,AdDbM9N6R4Si5zT1,NjitTact,A1,R1,Ea64Geir,Cdwt,G35,I1Taaa,!EjioIjk6Tiuo,EjjzG6N5S4T2X1,EIl2,L1,I1,CjidT9ut,A1,R1S7bk,E1,Lfhy,SjepTjiiZjfk,!I1Ljj2S,L1,A1Eey9,A5T1,Aa76,BcD8LjidR2TihmV1,Ygtl,A1,S1,S1,T8w0,O1,L1,E2nz,Tg23,Siu5,I1,M1,O1,E5R1,P1,M1,H5vg,C1,O1,T1,HdO5Y1,E6ix,I1,C1,I1,F1,Ohi0,N1,G1,Uige,F1,A3F1,E7I1,Rdug,O1,H1,P1,O1,R1,T1,C1,E1,L1,Rdwj,O1,U1,L1,C4ug,I1,SjhrT1,!E1IilbS,N1,Ogsz,E2L1,Tb6s,A1,M1,E8ji,H1,C1,O1,T1,S1,E7I1,Oitd,T1,A1,L1,U1,D1,O1,Hb79,T1,Tjej,I1,P1,I1,C1,E1,A7R1,C5vo,Laxu,U1,A3G1,E1,Bjls,R1,!AjlvEjlkIj4e,S1,S1,E1,R1,P1,P1,O8U1,Uj1u,E1Ijn2Y,P1,A1,R1,E1,H1,A2rB2oC2aD1yE1oF1kG1dH13L657MwPnRiS8T1,EjngIcybO1,N1Rj7xT3fg,A42E3mI3dO2yU1Y,!EjmgIj4xOjluS,T1,Njd1Rjme,AjnmEjlzIjnoP7x9,D8cj,Aft0BjhaNjnr,!AjiwEjmmI1MjmjS,A3IjjlKjnrT1,BikqOga0Vixh,Aip6EjnsI1,EjlrIjnvOi99,S2T1,CjmySTjmh,N1,E1,I1,CfIeLdNemwR9S5T1VjbsWga8,C7buRjfd,O2sm,I1,N1,C7xrU1,Tdb3,N1,E1,M1Njob,!AjkbEjkaI1,!LcafS,DNjng,!E1IjoeS,T7xz,Tje3,D3E2I1,I374O2kk,T1,V9zw,Bji5Vj9x,I1,T1,I4P1,Ig5x,P1,E3I1,!Ij8cLjndNjk2S,T1,C1,E1Oh25,!IhxhLjnhS,!L1,H4d,A2Len5OjewS1Ujj7,Nab1,Iikf,S1,S1,A4Ee26I1,LizyTjmy,A1,N1,O1,B7yu,R1,IbU1,AtClFhIdM8S4T1Vjf7,IfxsOjpb,G1,O2tySjol,I2RjhbU1,A1fC1bD16L15N10R5T1,!EjntIjpiS,G1,!Hjil,!EjleN2OiseS1,!Aj9wEjohIjpmS,T1,C7z9N1Um,Nfsv,E1,AjikDjfhM1,A8ulIgcr,C1Ejob,Djk3RbtlSgl0,A7E4I2O1Yjaz,EjixI1k5,CjnzT1,I1,A5wl,R1,E1,D1EjnyIjq2,BjogNirpTjl9,Afq4Ecv4Igp8,N1,!A3Ejp1Ijq6SU1,OjdxT1,Njm6Tjle,Iirl,Uiuh,MjpcRjpc,!Ejp7H2IjqcOjolSU1,EjmcI5S4T1,N78h,R5v6,E1,LjNfRaS4TejpU3V1Weof,BinfLhgp,A1,C1,I1,T1,C1,Sa16,AgawI1,BjddNjpkTjoj,!A1EjqtIjqrS,N1,!Rf4dS,!AizyIhzfS,N1,BjhfNjqxO1Vjjw,!EjpfI1MjppUjpv,A5EjqwS1Tjqw,CaG7S1,A3fkIjqs,M1N4fjS737,Tjfe,P1,Ie0i,E8g8R1,!Ejr4IipiSY,R1,Ij10O1,T1,A1Ejn9IjraOjpj,DjgyNjrcS1,!Aj0gEjpnI1S,B80yMaP8V1,Djh1,AsEgIeO2U1,Ejh4Ihr,Shn,S1,EjpfIj16,S1,Bji4Tg45,A1EjnlIjrm,D7G4okI5L3NjnfRj1bT1,!A3nE27HfclI23L1tO17R9SU1,A96B8pI8lM45P1,Ral,E2oU1,AjjoEjqcIjnl,OjpoV1,I1,C4T1,Qizt,I2u,Tadz,R1,Se52,E2I1,E6M5V1,N81o,E1,R3k2,E1,I3T1,Ahs2,R1,O1,Afsb,M1Tbzj,Ejj8I1,Rb7o,Sa3r,A1T9hh,C822,I1,Ifsj,S1,Bjm5Tfl5,A1,I1,C1,Ha41,C1,Ig,R1,A3P1,E6O1,AhEfLdObR1,!IanwLjrhNjo6,P2T1,Ubz,Lbe,U1,C1Sj0n,I1,AjrfCif4G5Mjt2T1,Na48,E1,T1,Ljt5Tjr0,A1,R1,U1,Cjj6,I1,P1,Nism,E1,H1,D4gG7S4T1,Bd4mC1nD1gL1bM18N15PlRfTcU1,AimhRjmyUep7,AehnDjtiE1wb,E1,I1oyRjmq,EgljO4R2U1Yjnf,L839,U1,C1Ee4g,Chfp,S1,E1,Ta94,!A1EjtxIjtvS,D3T1,BjgkC8j2,A1,DcrdTjlw,A1,C4yfDau1N1,GjobLcN6P4R1SjobU3wl,IftoY,R1,A1,I1,EjsgIipd,D2SjohT1,!EjubIjp9OjsiS,T1,Tapa,!SUjk8,S79sT1,N6P4R3S1,EjngIiw5,T1,A1,!Ejt0IjuiMh5cO1Whl5,CjtkTe5e,N1,E1,EagoTjuk,I1,AjtzEjskIjehOj1mUjtm,Aar3Ejt0Ijup,Igr3,D6N8i9P4S3T2V1,Seu1,Mj24,A8h4EjqtIjfeOjht,N1Pigk,Ajt8EjssIg18,D1Si69,A6E5I3O7c1U1,Ijtb,C1,R1,Tjln,TipvZl9,I1,!I3N1S,Rjkt,E1,I6nz,T1,S1,U1,BfqgTjtq,A1,R1,U1,S1,N1,NjvjOjlfTjtk,EjtfI1,D1,BisiDiivTh91,A1,C1,I1,N1Teq,E9O6U1,R85cT62c,Tep0,EfvtIjme,BjihOjtp,I1,S1,N1,E1,S10,H2S1,E1,Tf3,AcEbLaR2U1,BtEihcIjgoMeP1,V3o2,I1,Ngxv,U7ba,E3I2L1,O7cs,EjlzIjs4Ojm8,U1,R1,Uh9t,Nabz,E1,U1,C4Q1,Bbx7Ta71,A1,R1,E1,D1S4p,L80lNmu,C78i,I1,Mfs,CscEaI5O4P2T7c7U1,T86e,S1,La87,Ij87,T1,R1,E1,L5V1,O1,E8I82R1,CcwfTjvn,N1,E1,I1,T86,N2R1,N29,E2I1,C12DhclF11GyNjlnSjT9V1Y,Daxc,R1,BjvrTiyk,AjqtIjt8,A2E1,R1,O1Sjrr,Cgki,Iak5,G1,BfsqOjvh,!EjxpI1Ljw8Njsx,T1,P1,E7I5U1,P9R1,E2rG2nH2lM1oNhOfR1,S8ldTjw7,IjtnOj0n,L1,Iiz8U1,!Aa2qEjxzIjxxS,T1,N1,E1,A8D5M1Sjle,Ngi8,I1,M1,E4I1OjprUitf,Aj52IUjxb,AjlnEjxz,BjwlTgig,A1,Cjw1P1T,NjorRjya,E1,B1,LjxfUb6a,B1,A1,Ba90,Eaw9Ijyi,EjwfIjwdUjxh,T1,A1EjwhIjyl,!A5IajR4S74mV1,BhDgLdMaN7R1Sidg,A4mE4aH46I3xL3qOwRjU1,BjxrGjwgMepe,CjwsTbz2,N1,Ef2,H1,P1Sia6,Naa7,I1,O6i,P1,OjowUjt7,M2R1,EaI7L5O1,G3qz,I1,T1,Aa3C1yNa3,AalrI4uq,N1,A4E3I1,Ie9z,Biw7Cj78,I1,FjesTjxe,I1,Rif,T1,S1,N1,N5O1,!AjuoEjyeIjxdOjxsSUgar,EjziT1,Dest,N1,E1,B83l,I1,R1,T9i,C1,U1,R1,C5T1,BjtgCjxyTaae,A1Ig2i,N1,I1,M1,R1,E1,Ujz6,O1,Cj1nNjkq,!AjvbEju8I1,B20lC16Ek09FzHyLwMpNnPkScT5V3X1,Ejy4Ifw6Oj76,NieyT1,!AjymEj52Ijy4Mjz2OjyjS,A2Ek03IctdT1,Cjx6Thto,N1,E1,R1,E1,F1,!CjzjEk0gIiynOjqfSTk0g,B8kdOjye,Ek0mI1,T1,N4S1,NbfzTjvt,!A1IjwhLjz9,!Ek0hIjx3STjib,E4N2O1,N5s,R1,Ajz5Ejyp,N1,I1,L1,P1,V26,EgnyTjw5,Eju1I886,T1,A1,N1,I1,M1,E7I1,EfIaO9R1,Sgn,N1,Ejz6I8n5,S1,T859,E4O2U1,Ikf,Uj2r,C2L1,O1,!IhezLk03Njws,T1,H3th,S1,I1,U1,C5G1,N1,I1,CkPeSaT1,!Iav9Lk0dS,L1Tjtq,A1,U1,D1S68h,I1,C1nEk1wF1hG18RxtS7TjsmUjw6V1,R8n5,I3qtT1,!Njy8S,!E1S,Hfk2,T1,E1Ikp,Egn5Ik26Ok0f,S1,C8L6M3Ok0hP7pfR1Wk27Xjjm,Fk13Wjvo,A1Ik28,!AjybEgnoIj8eOk0kS,Ek0nIaw6T1,!DNjykRk2bS,E1Ik2e,G1IisaTk2d,!I2wjLk11S,L1,A1Ek2aOjsf,I1Y,R1,Ij3eT1,Bl5CaEk0iIk2mL7RittS1,Lc0uT,L1,E1,A41E2jIsOiRgU4W1,Rfgs,Aam4Ejyl,I1,R1,AEk2x,Bk19T1,Cefz,I2U1,E8ck,BjpnC1,Iia2Ugam,T1,C1,Cjgb,A1I8ho,C1,A7E4I1,F1,Gjs9,G82,Ubil,Q1,C6kD8e,Aj2lE5I4O2U1,Rjp,A1,Tal,AjetIk39Y,Vjmd,L1,A1,T4V1,Aju7I1,U1,Db7,A71f,A4n7,!I1Lk2dNjz2S,A4R3T1,Pmv,A1,N5ly,E1,I77,C4S2T1,Cj,S87y,U1,S4c,U1,A1,Sjb,Iaq8,Elo,I1Tjwj,D3N7jcR1,Aj5nIk3e,C1,A5hI1,Bjr1Vjxe,I1,S1,S1,E1,N88g,G9l,G2N1,EcInnL9R4U1,Hno,S1,I1,U1,G1,N1,I1Rcb,AuCsHpIoOcpP8T1,A24B21D1xF1nGhetL1hN1fP1eQ17R12SwVneX1,!I4shS,L1,Sjz6Tk30Zjft,EI1,CjsuL1Nk3e,!Ak4zEk4zI1RcfiS,Ck34T1,!Ek55Ik0fS,T1,C1Ek53,L9Md50N4R1T7o7Ufsg,Sehx,Nk59Oad7Vjvl,!Ek44I1Ok3iS,T1Ujxz,I6th,C1,I1,Ck4fTeej,N1,Oej1,AjyvOk5f,Ek4dIgbu,I3uc,!Ak3wE5I4N3R2ST1,!Ab1zEk4gIk5lS,T1,AgCdLaO9gdR3S1,Eibs,T7ha,Mj7k,!I1,!Lk4dNk12S1,Ek5lV8xd,E2I1UjraY,T1,I1,!AjscEk5zIh51Lk4iS,M1,!Ak14Ek4hIk3t,B8dgDcEa62GddfLbN4R2X1,BasnTjbe,A1,Ek22Ik63M1,Nk65Ok00,AdazEk24I1Ok4e,M3T1,!Ak4jEk69I3avS,T1,Ek6bIaf,C2X1,CipGjz7,R8p4Wk6a,Ed0nIk6d,C1Tj87Za14,N1,E1Xk5m,AbE7I6O5U1,Cj7z,R1,E1,Ck6dOjgeVjzl,I1Ojc0,LhwuNk5hT1,!A1EjcbIk6oS,M1,!Ljy4M6R1ST6m0Uj0v,U287,Ghr,Ch3s,E1,Cgpa,U1,R1,OjlkP4T1,!Cjz3H8N7RiugS1,Uat1,Q1,Naxy,Gk6d,A5E3I2U1,AjpoI9knUk4b,L1,U1,B1,I1,D1,B59lNk7cOk56Vk5p,Ek3bI1Ok4f,N3R58tS1,A28E1rI1eLxOoRaU1,Ek7dHfnt,T1,Ek7fIk3aOjxe,IjxeU1,Bk5wNk7kOk5eVk5x,!AEk7mI1S,T1,N4S1,!NfgtS,Rjxj,E2O1,Ik7qTk7p,N47n,Ek5oI8eyOk2i,T1,A1Ti7z,Ek7tI1,FjxaI5T1,Ok5sVawa,!Ek7qI1,S1,Dk17S1,Ik81NjuqTjl5,UjstW1,A7E3O1,Glf,Ihl2Lit1R1,AqEkLhOgR3U1,Bk6kNjynTk3d,!A1Ek73Ik88S,T1,I1,Nk75Tgv8,A1Ek4bIk8c,CEk85Ojya,I1Y,N1,O1,M1,B8L6R1Udks,B5atNk4k,Ek3vIfw3,!A2Ek8nIk8lOk6uR1S,Nk8nT1,EjmjI1,R1Sk3u,!Ek8rIjq1OjfnS,Nk8oT1,I1,B1,Nsn,E1,G1,O1,Bc9lLk4p,A1,T1,I1,P1,L9uqM6S1,!Ek7nIk4wLk7oNk4d,N1Tk4a,A1Ek54Ik95,M1,ApEjIfO5U1,CjlkT8d5,I1,I403,U1,Nk9dSk3kZjk7,!Ek9fI1LbfoNk4nS,Ek7aIa9sOjgc,L2T1,A1,I1,AM9Ok2xQ7T1,!A5aoEk9lIjqvOk7sS,T1,C1,Ek9eNk9nOjzj,Ek5mI1Y,DgcNeq2R1Sgki,E4U1,Efj6Lihw,Eeu7I4to,AibdOk8s,!T1,Eiw0Ojck,!B5Ek8qHik5IgewJhdsL4Pii1S2W1Y,Ck45Ik9yNa9zYc83,A1E1e8IjwzY,Ak4vEivyOj39,Dk9r,R1Tk30,!OjrsPh9u,!Lk8nM3hkS1Vao3,DR1,!Ek1xLk8pS,Ck6zT1,N1,E1Uk03,Ijks,Ek85Iay3Ojh7,T1,A1,C5M4V1,D64x,N1,Bk3zCk8hTk9g,A1Ojy6,R1,E1,E5M1,!AkEhIjv4K9kpLjxeO8SU1,V10r,R1,E1,S1,!Nk9jTjbv,A1Uk4y,L1,U1,N7pv,E1,F1,Vjw8,I1,Bk9bT1,Ujru,A2C1,R1,U3eh,T1,R1,O1,E5P1,Niw,I1,A65s,D2G1,Tcya,C8isI1,BpClFiP7R3S1Thl2,Tk4l,Aiyf,Ufrv,A3H2O1Uf76,!EkbkIkbiSUjwy,T1,Ek7jI61iY,IjpdOalc,T1,I1,E5LjxiR4S1,Ek4tI1,U1,!Ak85,O1Ui3g,R6s1,B1,U1,AirfIkbnY,T1,Ek1aI1,BjymTk4z,A1,I1,L7N4T1,Bk2rPao7,I1Oeg9Uuo,Lfbe,AiwyR2U1,NRka9,CfriLkamV3vp,!A2I1S,Rjly,T2U1,Gk3v,R1,E1,B1,Vjm4,I1,Bjz5T1,Aek8I1,S1Tnv,Rs0,A1,Ak6vCcL8M8xtN3P1R7i7T3ab,Afqp,E1Oj2pRda3,EixyIk2m,!Fiz0S,T1,C4im,I1,AkctF1,EI1,H5N1,Rj9n,E1,C1U8dr,DNjenRkcz,!E1Ikd2S,T1,DeG7N4P4j7S1,Ad17,Rm2,I8ms,!Nji6S,Ijo3,L1,I1Lazy,B1,AjooEjjs,Ak5aE6U2V1,NitnUhs2,Ik2g,C1Lkdg,BcCbFjwoL4M3U1,!Niz9S,N1,!EkdnIjuxO2z2S,T1,C1,IjngOjkm,T1,Nk9oTh0y,A2Ek9qI1,Skbj,R2S1,AaE7Hb9cI1,!Ak90EkcqIkdvMkcnS,!L1MkcoS,Nalf,!A1Ejx5Ik5tLkcjNk98S,CddbT1,Bk4jL4N1Rf1iTk89Ueqc,Ake3Pkdz,!L7S,!IggcSUjqf,T1,C1,L388,!A1S,N1,NkeaO1,Eka9I1Okcj,T1,U1,Gi28LbN8T1,!EkegIb28Ob7sRk9oS,T1,!Ik3nLkd1S,L1Tk9n,!A1EkekIkeiS,T1,N1,E1,C7M1,OioaU1,AoEnIbR1,Tbbl,A1,N1,I1,D1,R1,T597,N1,A1,T1,O5S1,Ijmb,C1,EvjI1Lkct,F1,NkdyRb7uTkcx,A1Ikd0Tfnl,Rj4,Sj8,E1,O3R1,EfwP1,Bk5uNilk,!DkfaRkfaS,Njb,U1,O1,LRkdi,!A1Ik8lS,N1,O1,I1,T1,C1,E1,AdEcGf8wIkfoM9R1,Pii,E1,C1,BtFpLnPiR4S1,Af3wEfvk,!A3sC3oE37H35I2qN2pO2cP20T16U2W1,!Okfu,I1,L1,Cj0fG1KkezNidRjwj,EkdvI91dOke8,Bk6jLkagNkceT1,A1Ikbu,Tkar,N1,E1,M1,EkefR5U1,Sk6zTke9Zkbb,!I1LketNkbiS,L1,A1,!Ih1zSU1,T1,C1,!IkfoLkezSk8s,Cj1mT1,N1,E1Ijht,G1,E6I1,L1,NkcmTk9l,A1,R1,E1,P1,DkdjRkgo,!AimzE1IkgrMkfjS,Fjw8O5bpTkeuVk91,Ek65I1,O5br,!I1LkfgNkc5S,D5E941S3T1,Ak1h,!AkfrEkh0Ij7nS,T1,!Nhdr,E1,EiwwIjqb,L1,IepfNhn1,Ca3a,O1,S1,Adsb,L1,I1,A1,BfCdGbL9N8S5ThrlV1,NjvuSgd2,Rke5,O1,I1,V1,A1,DfcrH1,Nhw7,DEf5b,A2E1,AaE4Odz7R1,Beu0,AcrvI1,Pk5g,L2M1Sk0g,!Uk0x,L1,Sbvc,Dk8jL2New9P8pxS1,!Ajj8DRkhuS,E1Ikhx,G1Nhj9,Ih46N1,A1R5blUhwm,BSjcg,AjocU1,Gemy,E1,Na4a,M1,L3O5blU1,Cka3Okg3Tkga,AkhkI1,N1,U1,Ekg8Ib5e,NkgyR1,S1xj,N1,E1,H1,E1,A6R1,!M9P1S,!Ek22IkgfS,T1,C1,E1,!EkirIbcjS,SkdwT1,R1,E1,N5T65dV1,Eby3,PhviR1Tkhh,RkhhY,T1,N1PkhbRk07,Af21LsMfN6O9sjR4SilfU1,Pj4pSkan,AjdgO1Y9qw,Ugx6,T1,Rk6i,L2R1T1nh,A1fE1bH16Ii11L14O7R5U1,Nhtd,I1,M1,O1Tjvm,Eerd,M1,T1,R1,N8n1,A2E1,A9t1N7P1,Chg5,E1,L1,Taw,Ug67,F1,L3nx,P1,I1,Ckiu,I1,R1,C4T1,Shwq,I1,AdCcFaGx8S3V1,Ni2r,I1,M1,EkI4O1,Dkj3Njc3,O1,R1,T1,C1,E1,Dhp6,I1,!EivtIazsS,T1,L5P3S1Tgjb,AkjoNk4y,Lkg7,EkibI2U1,IkjqY,L1,I1,C4Ihr8M1,!DNbzmRkkiS,GdlcMfqrNkkj,E2IkkmO1Tf3,R1,Bjf4LkexRkhu,Vk17,OjamU1,Nhsy,R1,E1,T1,A1,AdE9I8L6OelhR1Ug7h,L5dvNkky,AbxnIkbs,R1,E1,N1,Aek,Nhhn,R1,E1,V1,AbxwEkj3Ikl7,D1FkamNk4c,Ui0fWjxx,A2O1,AeEaL9O5R1,Hivd,P1,S1,I1,M1,E1,Dhrf,I1,V1,Tkgb,S1,I3U1,Ua9t,L1,Uhyk,T1,I1,T1,Lh84,O1,D9F7S3V1,Nk4zR5gp,Lfhs,MklxN3O2S1,!Ekm2Ies5OjsyS,T1,C1,If3c,D1,S1,I1,R1,E6U1,Ifhy,N1,Thhk,S1,Ek6sIkmdU1,Ic16,!EjskIkmfS,C3IkmiM2Pj85Rkf9Y1,DfagT,Ah8sN1Ufom,RkjcTkhp,!A1DRkmiS,E1Ik75Kkmk,B5fbN1,AklyKkmmU107,Bk5sC1Pkdc,DklqNi2m,AaE8I4O2U1,Ak06Ekl9,I1Yk7w,GdmhR1,Lkl8R1,EjdlIkkp,CkkyRkkyT1,A1Nkmv,DeepI1,R5fj,B1,Rhsy,T1,S1Tkn1,Lccb,A1,Ziuj,D9M7N4Sj98T2Z1,Tkmf,S1,AcnxGflzI1,Objh,I1,S1,EadIkne,!Ok1zST1,N6S3T1X13a,AkmsUi4m,!Akat,T1,Agj9,T1,N1,D6Lf1pN4U1,AuEhI8O1Uhzq,S8zpTklrZjyk,!I1LkmbS,L1,A1,N1,O1,I1,L5ioT1,Rkkm,!Cj7mDEknwSU1,Njg0Thot,Ak77O1,E1,L1,Ijy2,C1,C3N1,!AaE8Ih6tMkmyOkc1Sk8vU1,Rdpa,E1,S1,Aj69P5iq,E1,Ihhl,F1,BkexThzv,A1,R1,E1,Zhyo,!I1,N1,A1,Bf7sG1,BeCcFaP6R1,Hknx,S6yp,Y1,C3X1,Ckn5,I1Y,IjzwO3T1,N4nR1,E9ai,Padr,E1,Ekf5,C2M1Sf71,L97qN5R1,N3xc,A1,L1Sko5,A1,Tdaa,E1Tkp6,N1Ykp7,AkgnD,Vkoj,A3E2U1,Njno,O1,I1,T1,A1,L1,U1,EkliI9be,IkodLidfP2S1,Bkg4Tbme,!A1EkohIauxS,T1,S5t,E1,Niyd,I1,I6zs,F4V2X1,E7O1,Ciqr,Y1,Ldb1,L1,I1,P1,A16E10HwLqOhR7S5U1,EkpuIi2yNibb,Nkq4O32v,EdnaI1,T1,Gjtk,A2I1,DG6L1NkpiX,Ebe4Igm7Ojri,T1,A1Ekpc,B9fG1W,!Ekp8IiuOkomS,T1,P1,AezkE8IkqgO4U1,LhsnOkpy,O1,H1,!EkqmIgugS,T1,Mjx4,V2b,!EkqgUgvx,C4G3N5iqR2SjlnX1,Akq1Y,T1,E1,I1,C1,EkqnFk9x,I1,C1Rgdi,Aj2jE1,EkqxIi9t,DjshGkpeT1,Lka6Rli,Akm7IUkqu,L1,U1,Ckq6M1Tf0a,Ikp1NknkT9hk,A1,A8E7I3R1,Vjny,I1,T1,C1,E1,U1l7,T1,I1,T1,J5S1,B1,Sid2,!C12EwOrPnTdU2Y1,!Ii4j,I346,M2R1,Aho9,T1,R3S1,!Ak57EkruIkrsS,L1,Dk46EkrsL1,Tb37,A1,L1,S1,N1,AkrbBkra,Oi77Pkqn,A3I2O1,NkchSkhh,I1,EeIbR3W1,Si0d,R1,E1,Okq4TV1,I1,Bkpg,N2R1,EjciIkj7,!EkscL1OkfdS,L1,I55oRgpl,EkogIkshOkqqT1,Ta94,N2R1,!EjxcIkskS,W1,A7o7,L1,Bkj7Tkec,I1,E5L3S1,Lko6,A1,C1,AfEbI4O1,R52cVgee,Akc3EgkhO1Rjmz,Aks8E,N1,O1,!AboBbdC9uD8zE8oF84G7pH7jI71J6sK6qL6aM5cN4uO4dP2zR2kS1fTvUoV6W4Z1,Nh76,Aj8cI1,T1,GcyLckMcfNc8R4S1,A878Odqk,R1,E8xeIkr1,!CkraELST1,Ekr5I90fOk07,T1,A1,D1Sks6,A5EI1,CkojEktc,LknoUfs4,!M3N2ST1,Bkg4Nfkx,A1,R1,E1,AbmeEkpkIktl,EjjuIkrg,NkshT1,A1,C1,I1,!L7MfscN6Rkj5Wkn6X1,CLksc,A1,I1,D1,R1,Bf7q,E1,L5nqR1,Ad7e,P1,M1,Nf38,A1,Ab54,T1,AbE8O5R3T93sU1,AkstE3vhOktd,A5n6Ek8v,Lf8c,Rk6nSf8e,O2U1,AjzaNjzb,E1,G1Thy,I1,A1rvS1Tkuf,N5o1,O1,T1,I1Si7h,R1,Lide,U1,P1,U3qs,E1,N1,E1,C7b1,Y1,EaLk5hO7R3S1,C41,E1,P1Tk5k,Ckqf,A1,R1,Ej5pO1,H1,Sf98,!EkuyLktr,S1,U1,If9c,R1,O3T1,N1,LktxM,A1,T1,AbE4I1,C1aD19G18M15N10Of9kPlSiTdU5n6V1Zi8d,I4gs,AkkxNgbgP1,AkudEkrjIkrh,AkueU1,Siw4,Ck3lG2N1,EkrnIkvoTk11,C1,U1,AkukIk2j,S1,S1,E1,R1,DNkuzRkvu,E1Ikvx,!ST1,SjqxT1,I1,Nkw2OgykVkp1,!Ekw4I1S,T1,C1,E1,!P1,Sh8rTkw6,R1,E1,!DkFjb6GfIkv4J3zrMaNkw8RjjaS4V1,IkojTkwa,Dkn0S1,AwEuIqO3U1,NkwfOklxVkpe,!AkurEkwhI1S,T1,Pk5v,E1,C1,S1,U1,S1,BkoiI7Mf7cRg0dS1,AgqE3kH3iI38O2xRbU1W6m2,AkdyIkuk,NkvtTjzp,A1,CkrxD1,B5pdEkh8IkwtNkws,L5N2R1Trb,NkwwSkr3Tkux,!AkuoEkwyI1LkvhS,D1,I1U90v,Bgs3Nj38,A1,!I1S,DknqGbauL4R1Sj8e,Ekx5I4fp,T1,HkokLjzi,G1,AkqlEkvp,!I1SYkic,R1,!Ekw5Ikh3O1RkskS,T1,Eku5Ik44,Bi24DRkxb,!AkenE1Ih3qOkvnS,Ikt8NkspS3T1,Tbjs,A1,G1NkxjTk80,!AkvvEkxlI1MkwbOkvsS,T1,E15v,CiIgNbR7S2T1,A5ib,R1,I9geO1,C17h,BkkeCkvtTkqr,A1,L1,CkllIbkf,Nh6v,O1,I1Okkc,LT1,A1E8y9Iktw,AjteDknvGbNaO7Rjv0S6T1,EkvxIh1xOksr,T1,A1,!LTkwi,A1Eky3Ukvb,R1,A9zq,T1,C3N1Tbr3,U1V8b7,C8Ij9wKkozL1,N166,L1,A1cEsIeO3U1,LkpqRgdz,Ukr5Vgjz,A2Egq2I6mxO1Rep5,!A150B14vCzuDvsEtnFr4GqcHpbIp0JotKonLolMokNnyOn5Pn1QmsRmqSioT1uU1oV4W1,CDkpiNebuSip4Zkp7,HjhsSkg6,Fip8P1Ukyd,AkqiI3O1,Cj4sSkswUksvZbfh,Ritk,E1,H1,P1,Gkh3MkluNkxtPdgxS1,!I6O1ST1d5,!Ck3lS,A1,DaLkajN3T1,Neau,A1,!SU1,C1,A1,C1,Okfh,M1,Zk39,A1,I1,N1,O1,Efd3,T1,A1,L1,I1,EdObR6S1,Cks4DkyhS1qT5ap,!DFjlqLkmbNkbjS,!Ckp5,S1,Lis3Sj11,!E2IdysO1S,D1NkznSkraTdk6,!EkzpIkznSa4q,AkziOksc,Lkw2,Ac9pEedc,C8y7EkzjNkkcSkylZku0,Gd28,N1,Ai7wO1,Okw9Rera,AkyuEjndO1,!B9C8EkvwFc6rH7I6Lk4yM3Nkv7Sa3gW1Y,KkuhN1,Nkw0Tk15,A1C1j1,I1,!I4htLkynS,L1,A1,N1,O1,I1,D7T1,Awb,L1fp,I1,C1,E1gu,N2V1,S1jg,L7O2U1,Al0fIkuf,T1,E13sN1,C1bj,E2U1,Xie2,E1,Mfdq,R1,G9ab,A1,L5O3R1U13z,Lknn,D1,R1,A1Ufef,V56q,Nku1Uk3s,O1,I1,G1,Ah39E5I1,I950,AkzgD1,V9aq,E2O1,Afe8,E4t5,C1,A1,Czr,U1h9,A2D1,E1cbO1,A1hwE8L5R1,U885Vbcs,L1,Bbo4Vkmu,I1,S1,N1,EaohO1,IxkO6P1,Ej,I1,R1,EkrfS1cq,R1,C4tq,E2O1,Ahy8C1fD1aF13GzLtMpPgS8T5V1,Nj1q,E1,BkolNl0sTbqy,A1,D3GkzrT1,Tic7,Pjxl,A1vE8I3O2U1,A2oE2nI2iK2hO26R1,Gi8a,O1,Ajzg,B1,O1,L1,I33a,G6L2RbukT1,A1vuEk3dIk36,H1,Pkxu,O1,R1,T1,N1,G5sx,N1,!DLkpgSTl2k,Aku0E1Il2n,Ten8,U1,L1,G1,Xcsj,O1,L1,BjfwGjtw,I1,T1,G7L4N1,Rki8Tkg3,Lfty,Al21Y1,T1,A4U1,X3y,O1,B1,L6lmR1,Ikxg,Ocr9,!AkwoEl38IkukOk63S,M2N1,O1,E5Ik7kOk09R1,AfmzCjj8,A8H2Lkp9Ri3wY1,Aj52,I1Ojqh,IkucO6y1,R1,T1,C1,E1,Mki6,Y1,Z1,L4N1,EkjvIl3iOkrhY,M1,EkmvIkj8Y,N1,!Al36El3nIkup,S1,S1,O1,!Al3gEl3xIkglSY,N1,FktfMl3zPkh5,Vl40,A2I1,AcEaL6O4R1,Ekap,El3nY1,Al2jEl23I94lOl2g,Bl2lT1,Al0nUgxk,A2E1Il3aO9sn,!AklkI8smS,Iad6Y,R1,R3T1,!IicvOks5S,H1,P1,R1,E5O1,Mkjy,I5fO1,Tk2t,C1,Tksk,O1,Ei6x,Eg86,Aj8fEl4qOksj,N1,R8s2,E1,PkmaT1,E4O1,Ckjk,Aki2HaI9L8OitbR2Y1,Efrc,Il2wOkrg,C2M3v3P1T1pd,Hl51Tko5,C1,El53Mkts,R1,E1,El56Iic8,N1Pjgx,Pkko,O1,A8H5O3R1Yhup,Mkma,Y1,A2hB2cC20D1yE1pG1bH19L15MwNuOsPgSdT3Z1,Ac28EakwIl5g,El5eU1,!Al3dC,I1OktaUl4o,M1,H1Ll4m,!A3aBl4oC38E33I31L2zMl5kO7S5T1,AkvuIhtk,N1,A1Cdn1,I1,L1,!El4aIjr1Y,H1,Nl5vSl03Zl0y,!El5xI1S,NksiTk8h,A1Ul33,M3R1,Ljlt,A1,H1,P1,EkpaY1,Nh72Rl46Tky1,A1,R1,E1,N1,!E2ru,!AjChEcH7I2S1,M5ig,R1,Il64Yan3,R1,E3Ik6aO1Y5vi,DkakRl5i,Il5jO1Tko8,Al4rZglv,A1svB1soC1rsD1q9F1q7G1psHe7aK1pqL1o6M1euN81O7nP74R4fSxT9V4WimrX2Z1,C7yg,O1,!El5hIl6mSW1,DR1,E1Il6o,Acac,Ajna,C1,!I1S,R4T1,!B6Ig6hO1S,Ll47MjpgNl5xRatj,El61,P1,A1,Sa89,Ll6yN2Reh1S1,Og9e,O1,DReh1Tjd2,IiysRfda,Mg53,M1,A1,Fl1hVl6z,I1,N1,EkrwIk0d,Badp,A1Ofbi,Rjs5,Ekw6,AjrlRg4l,!C3M2T1,!AiBgDg4nEfFeHbIhi4K8L7PjfoR5S1Y,Il5eUl6o,B1Nk0y,Ak0jEfny,U1,AsIkyjK5O3Q1Tf9fUkxs,!Dl0pIl2lS,Nl7qSjv3Tkqr,E2I1,Dkb9Rk91,!Aku7E1Hi3vIgemSY,!OcbgSUcbg,R1,A1,!El65G4LkuqRl6ySU1,A47pIk0vRg4g,!B1El6tHjpcIl7yOl67S,L1,!Ejh6IkbzS,P1,!Il7tPl64SY,P1Uezx,A3O1,Lh7e,!A1EgbpIl86Ogt2S,El72IeikY,!B2M1S,AkuoSiwa,O44c,FknaS2T1Ziwc,El8aG3x8I1Tl6x,!Ik0bNgomS,N1,Id1b,A1Ijis,N1,A4EebnIl4fO1,Nev2,I1,HTkrn,Nl8nS1Zl2v,!EeglI1S,N1Ol6j,O1,SkkdV9qr,AklvEl8tIl4o,!D8FhjuG3HkoaIjedLho4O2R1ShjaVgjf,!SWge0Y,R1,E1,MfzlP1Skd0,Ijki,Cl37D1Tfad,Kl8yN1Pl8y,Nfxx,I1,L1,Al91E1,Nefa,O1R1v8,I5gn,!Al72B2El99Il97L1S,Wgy1,A1,!BevdGgu7H1SVgu7We7g,!El3dIgl7LkecMjxuY,Z1,B2jC1qD1nEes5G1hI1eKl8eL19M15N11PvRlShTl3wUeVaW6Y3Z1,!Il95Ll7zNl4oY,S1,U1,O1,L1Nl9g,!Ef1tIl9jNgk6S,!DIl9kP1Rgi0SZ,Al5zUl9j,Al3bEl2nIl5fUl6s,N1,U1,El87FjolNl9q,!Bf4gFj1dIl9qLker,!AjqbEl9tI2SY1,Tfoa,L2U1,A2ffI2ffMjoq,El8pIl9mY,N1,El9pNl9ySl46Zl46,!Ela0I1SY,D1,R1,A1,NP1,El6hMhfz,!El5fGS,Egc0Ll8qN1,!El91I1SW9tsY,Ojus,B1,Cl7eDla7Ela1,!Cl7f,EjxsI2Y1,Yjvq,E1,B5rzEbIl6sK8O6R3S1,Mkw9Nl9i,!A1El8cIlag,!El9cFjxaIkv1S,!Id43Rl8kS,T1,I1,S5T4U1,Kl90Nkxo,I1,!Al4wOl4w,Nh78,O1,Efa1NlasS1,ElauI1Ol8nYkvw,!BkqbElarL6Ol8oPgwhS5T1,EfvcIcc6,!El9qIlavL1Rl8xSWjyb,DL1,!E1Fj2kIlaxS,Al6tE85v,A1hBlafE1fFla0H1eJ1bL16M15N13OxRlSeT6UgekW2Z1,!El9vIlb0Oj1bS,!B1El70Il6yS,Fkcc,Efd0Ilb3Leun,!Afyi,!AejjG2S1,Lhe6Tl2l,A8bc,El9qNl9t,I1Ykwd,!El33Ll9vY,Wjyr,N1,O1,IdosJ7M5P4S1,HMlbdTknu,S1,!Elb9I1,A48qKjm7Leh9O1,!El9xIS,Kehc,Iehd,C2K1,I1,!G6Kl33N5R1SXl3c,Plar,A1,J1,I1,!Bcv4ElbvIhguSY,R1,E1,NgmjT1,Sl09,T1,I1U1,J1,!AkywDRlbzSY,E1Igiw,AjzdB12CkvbF11GyHl8gLxMpNfPbSl6bT7U3V1,Nlbv,N1,!B5ezHf52Lk8rNgnmS,Tl74Ylc6,!Ta1r,!E2Olc7S1,Skly,LgyuN5if,K3O2U1,Pgps,H1,!SYlcd,ElbbIkx0Ll34,!G1S,Ilc9Y4y0,N3ct,!O1,!BegtN3S1,AhN1,!Ek9gIlcnLlb8Rl7xSUhnvWj3a,!Alb0DkzqEfx6Ikx8ST1,N1Sl23,!DRlcoSa7xY,E1If9lY,Efc2FkulLlbdTlau,I1Ykxx,ElcsL1Td4t,L9jc,Elc1G1Q5wa,Al75Dla2Ul75,Ej60HgtsSlc4Tf4p,ElbuIkxjY,!AlcyST1,Cewl,SjloZl3q,!EkucI1S,L1,!Elc0Ild5Mk1oSWhk8,Y1,A3E1,N1,AlcqKld8LlcaN8R1Sgzm,!Il93LlbvTlbc,L1,A1,I1,!EldgIi5qSY,!AlboEldhIldfL1S,DivkEjyoIky0,D1,I1Ojso,!Al9jEldlFgzeIldjLjzrOl3gP7xmR1Sepq,!A1fB1eC18D16E15G13HyIvJju3KtLqNoRnSmTkUbV7W5Y1,Nl9sRlapTl5i,A1El4l,L1,AldmBgy5EldmHgy5I1,!DMlchRldnSkye,AirvE9ed,E2IldrM1,Ol07Ulcq,T1,A97aOl3r,A2I1,C1,!Il71KlczS,Ald3DgbwG7I2O1,Nhwv,DR1,Eeh6Ikyl,E2Ile2L1,!Rle1Tl8c,A1Ulba,L1Mle3,!Ag2Fhp8G4HktoShooU1,!DHktpLl11Rle5S,E1Igq4Y,C1,!BldbIl88ST2d,I2dU1,!BgobDS,E1Iled,Nebt,E1,Ekz7I1,AldyLl55OlefUk87,!ElddIgqeOf8tSf8wY,B2P1,Ilb9Uigw,OlbxT1,EfhsIi6yY,L1,OjjlPl1q,!EenkIlepS,DRleoT1,!E1Id79Mk3aSYgl6,!C7G5I4K1Tk9k,!Ol9jS,!LldeNldoT1,Sb5y,N1,O1,Cce3,I1,E9xx,D1,U1,R1,C7D5P1Tkrj,DjfnEldnS1,AcElenI1OldfYf6v,Bl5qRlf5,A1,Elf7I1,AkaoC9oqEl9c,I1Yl0f,C3F1Nlfd,!Ek0yI1LavqNlanS,!SiqvT1,EldxNlfg,ElfiI1Yl0k,!ElffST1,ATldk,ElfhI1,L1,Alf2EfqbI1,N1,E1,EldkI1wx,S1,O1,P1,A1,T1,B26D1wG1oI1lJ1jK1hL1eM1bN12Pdb6RoSgTdV7X1,A6iE4wI3sNehsO2bU1,BlfuKleyLleyRlfuYley,Leh3,A1,Jl4a,L1,!A5B3E1IkgxOi5ySUkgx,Hdv7,Hdjp,S1,I1,D1Ilg4,Sk21,T1,A1,L1,K1,E1,Ekth,RlgcY1,E3I1,!F1IlepSTldl,Ujm2,!SYgvv,!IcxdS,!Dj6vIj8pS,R1,E1,AlgiFlglL5N4S1,Eef0,!Plb8S,!EgxuS,A2Eh4fI1,Hdem,C1,MlgsN1,C3p6,S1,O1,D1,!I1N170SWkaeYgwc,AlevFjxcMjxkPku4Ulb8,Ri5v,DkyoK1,I1,Ajgv,Phl4,AcE7I6L3Ml9kOl1qP2Y1,AdwcCksuLlg9,!AiohS,!K1,EkzlIlf5,A4Elh9I2PfvtS1,!Ma8nS,Rere,A1,AlfoEkz6,A4BlelElheG2JlhdT1,!ElhfIj4cS,Al22N1,I1,L1Nlhi,Ec0f,M1,L1,L1,Tlck,AlhoE2HlhoOlhlPlgsU1,!ElauS,B4hbKhsuOjrfT1,OlhrSlgy,I3qq,Mjax,O718Y1,ElftI35e,P1,IlfuY1,G9anK6L4Skm6T1,O1,AaMjmpNli0O9Res3Sjx1TggfY1,Tjx7,U1,Ali3EkoaMlgdR1,!Bh2nH1,!BjxlKek4S,HdxdIjnt,Rldz,D94l,A2O1,Dkmg,Mivc,A1,J1,N1,E1,!AbCaH7IlduSY6Z1,Rk7n,!KgvaSlgk,A1,!A2z9LlidOjyiS,KgsgOkx4,H1,Sela,C2T1,A1Olda,!AlikB2rC2qD2mEliqF2cGl74H2bI25J24K21L1mM1hN1cO18P12RqSmTaU9V7Y6Z1,BlirRlir,IlhvOkckUkck,A2B1Lh3cOi8s,Kge7,!DRh3uS,E1Iliy,Dh3gG1,Lld9Ulab,A1,!AkwhBenaElj4H1Ilj2Ll5wS4uv,!Ajsq,!AlhgElhdIl3oS1,Dhbc,N1,O1,H1Tl6a,Flj7Klj8L7NfgcP5S1Tlj7Vlia,Y2x,I1,!F1IlhlS,!EasxLju8S,L60z,RljdSl6gT1,El47IldoLlhiOjj0Pgm0SlesTl6iVl12,!ST,P1,DLi6j,E1Il44,IlafRlex,!S78qT1,Cice,E1,!P1,!L5ed,!AiayCk5mDleaN7O5S2T1,EaaqIljs,!Hc3iIljrP1ST,Hask,P1Uljn,!Iki1O1S,N1Ti9n,Ii6d,V1,I1,T1,C1,N1,U1,J1,N1,O1,Ilb2Okci,C2IlkbMkkdPjb9S42uT1,IdO1,Ml7xT1,Fk5qVlk3,E1,I1Ok7o,H1,Fl27,F1,!ElkkIlkiSU1,!Sgyb,S1,E1Iljq,!DLi7mS,!E1IeprS,EljoIljo,Gl30S1,Ug7l,L1,!MicmS,Y1,E1,Gd5u,AlBlkvChFeMbN9O7P5RjcmS2Y1,Rlkd,T1,!ElkrUl5q,H1,ElkzIlktTkp2,!GhjlLll0Nl1zS1Tl44,!DcmxS,E1,L1,C6Elk6O4T1,Di3t,R1,A1,O1Uge9,Tlbz,O1,AlhrUb7v,Okl0,EljoOlkfR1,!ElkaT1,Ak5mOkef,!B8Ch0vEllkHhwjIlliLl8cN6P5S2W1,AllhB2oC2nD2kE2aF27G26I24L23M21N1sP1qRnSlTdVcgrXlkpY1,Dk45Illi,F9uv,I1,S4d,Edkl,D5FllnKllmL3M2Nk21PkytTllnZ1,All1ElloIll0,V1,Ak0wI1,D1Tk0x,Kh6b,!R1S,A7E3I1Okdg,Nl6iUfbp,Zh2s,!ST1,!Ilj6Ngm0,Z1,T1,Ek17I4LlgcU1,T6,B2Ekh1I1LenbOk85,Akf4Xjx1,AfklO1,!HgjdTjns,!AlklB2Ell4Igt3OfgkS1Ul70Y,K1,Elm9Nli9Sllx,Ell7I1OljoUje0Y,!Ekr5IlmdPjy2S,P1,A1Ek6k,!D4LkrhN1SgmsVkqk,AlmfIY,S1,A1,B1,Hlku,U1,G1,L1Rkyb,E1Tl9r,FlmoL6RlmoS1,Rgov,E1,Ek80,ClmpElmsFjehNglz,!D2EllqI1JgqhOkglS,RlmuSllxUlja,A1IllrYlhu,Og3b,L1,A1Yio7,Afk0Rk7m,Ojn4,Ela4Ol4u,Sdlt,R1Skbf,A1,!BaC7G6H4l6J5Lf7kM4P1RljkSTlijVlbxWlbv,!Elm3IbpxSY,DhIlhhLeNln8O2T1,Rj7n,E1,ElmdIlna,H1,Ok8s,N1,B5C3O1,E8imNlaj,T1,R1,A1,!G1,R1Slmp,!Slm7,!DRlnmS1,E1If9aY,!E4HcicL1Nlj0Rkb7S,!STkzt,A1,Pli2,O1,ClntOkl1S,S2hiTljb,E1,H1,!C5ElnrI4T1,C6wiNlny,Cj9lOks8,Ce67PjsvS1,I3O1,!McS5T1,Ikh3Olcw,Rj6jUl8x,Sh60,I1,Ehz1I4n4Y,Ilm5Olhe,!B6C5DjemElodF3Hkr0IlobL2MfiqP1Sb7zWkr0,!A8dEloeIh08SY,Nh1l,N1,I1,K1,I1,!F5w2Hl98Mkd1Wk6e,!A40DtEfF4sbG8IlmeK7N2OlohS1,DNRlfz,E1Ilol,!P1Sgoy,Mlok,A1,G1,!Ckal,!I2Kh68Mlk1NloqS1Tgvb,AlnmEk3r,!Al04ElivIlotY,HdooM2S1T99m,!EhjySWgu2,N1,E1,H1,!DLku0RloxS,!AlhiElmwIlp0S,!C4jb,!Elp4Idj2S,DLN1,ElowNlp5Wglr,Ekp1Ilp5,E3I2L1Y,!C9E8H7Ilp7Lih3S6T1,!Ff7aS,I1,A3dB35C30D2uE2kFlp8KlobL21M1uNrOlm7PoRjSgT3VlocW1,Ckb6Skb5,T1Vd29Xlko,Gl74,I5cv,S1,Ak5n,M1,O1,Hk4iT1,R3wq,El8sO1,M1,AaB8P4Z1,Nla9Oigv,!ElphIka1Y,Z1,Dl36GlosT1,Sizp,AhE6IixvO5U2Y1,!ElpwIlplSY,DR1,!E1IlpwSWf8q,K1,!Aewz,!Ph68S1Wkdf,!R4zsS,Ei5pIkde,C5P3R2UlobV1Wlpi,!Pb1nS,P1,A1,Adri,!Okjx,!C3DHi19Ilq8LlhnP2S1,Llq8T,Skjo,AcbbE3L2S1W,O5yt,B1S,R1,Agj4,N1,E3K1,K1,!DLkvkPdp0RlqhS,E1Ilqk,Tf2o,H1,!STh6oWgrq,C6F4G2SkcjT1Vlqf,ElqrIij1Lh3tY,Rg73,E1,!B3K1LkvtS,B8m4,!A1DgotElppIlquOfp3SWf9o,K1,Lc3e,ElpsIkc6Y,!Gf4dHi1zLgruST1Wkee,Nava,!AkscS,E1,G1,D1,E1,!AlphElpeI6L1Nlr3S,BeCbLaPe8vSlbxT8UlgkW1,Bh4b,Af3hOlq8,!B1DHh3fRlr7S,E1Igy4Y,L1,K1,!LgtcS,B7C2R1,A1dE14IrO9U1,!LlqiNlreS,!Llnv,!O1S,Ilqp,B1,A1,!R1S,L1,Ac3l,Klqa,!C1S,IlrpSlro,S1,A1,Zl2t,O1,N97,!ElrpNif1Y,Sl2xZ1,O1,H1O6,AbB8H6I5K1Olrz,Tgs2,Cl6kK,!O1S,R1,O1,D1,N1,A7O1,U9r2,B1,EgyzNlnm,!A2I1SY,Df2fK1,AlsdIlrg,!EfdwHlseJlrhP1S,ITlsf,!AlsgY,N1,!A3ESU1,Oex6,IatpYatp,Rh3a,Ohxe,M3P2R1S76d,T5mj,A1bB19Els8H14Ia63K13LqMiNh8fOdPbR7SftjT6U2W1,Alk3FlrmIlrmKlb3TlfuUlrm,!OjlbS,N1,I1,L1,Aj7k,L1,T419Zlg1,EldrM4P2U1,LlsiMj60Sls7,!NR,AE1OlcaUlca,Niga,N2O1,Ilt4Uls0,Lli0Rlr2,O1,H1,Hk3kM1,B5Lb2vM1,Iks7,L1,O1Ph7i,AnEfIeOaU4Y1,OlteUlteZlhs,AigmTh6w,IlotMlsyQayeYlsn,I8pz,L1,A1,D1Zl59,Akfn,Jg86,A1,AltoO8cv,B4GlqwR2T1Ultp,!Ol89,Z1,S1,A1,C48oDgEltuGltcKgjaLfMeNaR5S77kV1,!ElsfIh0rY,H1,C1,T1,Aav4E1,Kkda,R1,O1,I1,H1,C3cgNfn7S1,A1,SloiTltaZloi,I1,Clu6Klu9N1Rlu9Tlu9,Okgc,Klu4X,I1,Hk1d,ElueHlop,A6B5L3Mhk5P2RgffT1,AbqBkd3E8zH8mI58L4pN33O1rR13UmVhWaY1,GgshRh4c,Ofwd,N1Rjfu,AElthIlumUlrs,!AlszEltiIlunL1S,L1,!LahkTlcq,Njx6,E1,Ee7c,D2V1,A5Lll7O1Uls0,NluwOlksTltw,Vlo4,!A1,!AervElttI3S1,R1Uge3,O4ub,!D1,Ckv8,Mlv1S1,A3EltyOkz8U1,Rkdv,AlolNltk,!I1O9ocS,H1,T1,N1,I1,R1,!AsD58jEpIjOeR9SU8Y1,Lgys,O1,!AlcqSTkzk,Ilg1Of6i,!DLgweR2SW1Y,LTker,A1Ogou,M1,Y1,ElvfR1,ElqzGlvmI811,ElniLluaN1,Sk6b,I1Y,A1,D1,DRlvtYlvt,!A2E1IlvvLj3wS,N9rs,AluvOlvr,!ElutIlvySW1,R1Ylvy,E1,U1,Llw0Tct7,A1,M1,I1Ofk5,Uipa,B1,L1Mlw6RlutSlv9Tcp2,Llw7N,A1Olk0,CFk0s,Llez,I1,C1,A1,Elb2L2ad,B2G1NldeSlvi,AaE8I7O1,!IkwpSY,!ELR1STluy,A1ElwjOkjl,N1S1ab,!C18E15H10IyKsOrQmRiST5U1Y,EardIlvp,!DNlwoRlwnS,GlwoOlwo,ElwjN1,!DFi7uRlwqS,E1Ilwt,IkpsUlhf,NffnSkiq,I1,Il1zOks3,Llr6,A1,!B6F4HkzpIl82KlemL3P1Ski4,!AkfrDdEcIaL8RkmvSY1,TlerVkkc,NlthRlx2,Rhco,A1Elw0Ilhp,Pkhy,A1,A2I1,Rjqb,O1,M1Olu1,Nlj8,!Alv8EaG8N5O2SU1,!AlqsHlxcIjnyS,!Dlu8ElxhIlxfS,AltgHlw0Ilx7Y,C3DGlalNR2T1,!Hky9Iliy,!DFgyoLl2kPhj7RlxhS1,E1HlxiIg2rY,Gh8h,!A8pwElxoIlxmSY1,L1,!Elk3,!S1,Tctj,S1,AlxqOllj,DNl56Rkci,LlxbNlxs,I1,Ulfi,Q1,E1,!A8D7E6IdqhK4Ll30R1SgybY,Rg50,!ERSTl45,B89sCk8cFld1,A2I1,L1Y,!Aa03El3sIly5S,ElthT1,!B7DkdbL3N1RSlt2,Akf6Nly6,!I1Y,!ELR1STlw3,A1GIf2sOlll,AlpvN1Slld,E3fb,G1,DR1,E1Ilyg,DlyfSlxn,DRlxn,I66v,Ngj1,O1,!A5BfpfE4IlwgL3O1P564Rh99SdagY9og,!AyBoEgIbM7P1Satu,IlymTlhi,!DLks3Ogg5RlynSTkk3Wl1e,AjcnG,EheqN1,E3I1,Uht1,Akl0Ikl0Ojpi,Rhcs,Ofv4,RlyvSkvk,Kl87,Dlq8,C2R1,Rb22,E1Ilz2,B1,B1,Akc7E8Ily5O5U1,NRlz1Slyb,A1Elsm,EcsmIljs,N1,W1,ElvaIihy,P1,A1,!ElzcIlze,D1Plzd,E4z8I1,!C4IlkxKlk7L1Mko0,!ApElydFoGnHmIlk2LdMbO8S1Wls9,!Lly4SWkjn,Ik5a,E1,Fhbg,U1,A1Ekjt,Teom,Thv8,S1,S3U1,Ald8Elza,HlwzYlyu,DlswSl5b,Ret1,AldcEkemI2O1Rlzv,!BdLaO6R5S4U1,Ret8,A1Tl1i,!ElruIjqeLlymNlvbY,LgqrSlqf,IlljUlub,N1,A1Okag,Ak5rEkahH1,A1jC1fDpEoG9I7K6NebcO5T1U2atYhfk,S584Timt,O1,R1,!Em0dLl9kS,L1,AltsEm05,I1Y,R1Tluo,FkfcSlza,A2Em09I1,D1Llj5Nm0gSlzo,DRm0iTklx,E1Im0k,Al5n,R1,!AlyzElwmIi6zT1Um0f,!AeBh7sDf81EcFibqI6P4S1TkqsWisk,ElyyIjtbOl3iY,N1,E1Hlzx,!ElznIh7mLl5tObhmSY,R417,A1,E1,!SheoT,!H2LlziMg59Nlw7RS1,Ekew,AkfaE2H1Ilc1Om0x,!AlqeNlzeS,!Ojd7Pheg,!ElzxId6vS1Y,Gly8Klip,I1Udp5,Ak1gI5or,Em07Il5nY,M1,O1,T1,Am0rC1S,Tfeb,LkyjS6ex,Am0uE3I2O1,G1Xm0k,N1,!Bh8kCpDoE48iGhIgKeRcSUlvoVbY1,G45,Vlrd,AlzsI1,Gm1iS,N1,!ElvoI1Kkk7,Em1lTk1s,!Em1gI1O5np,!Em0kIatrLm0aS,!A9C7ElxpH4Im1qS2T1,Klu5,DSTm1q,Tfnl,!E2Im1uKhchS1,H1,Fhsg,!I1,!Cm00EhujIm1yS1Tlyr,!Em21Ie4aLm0kS,DL1,TliyZlcw,!A2I1,!CcpjDE8x8Lm0oN5R1Sm0xWl4sXm19,!DRcemS,!EltyNlmqS,SlweTll8,I1,!R1,!E5I4SWi9cY1,Em22Ieux,AOm29Ulzh,I1,D1,N1,U1,IldaOm2e,Lm11Rkr6,A1,N1,Em2iI1,D1,U1,!CdF8GkloN7Sm29T1,Oiir,S1,Am2oNm1r,I1,!Nm2qRm1cS,!DSWi9w,E1Im2u,C1Nm2t,E4I1,!A16C12EuHoIaKm1yO8R6ST1,Il9qOl9w,Be3nNkujT1,!A1Em1vIm30S,!Lm1mSf5d,G1,N1,!Ae3rEm1zI1STlq6,H1,!Elx8Im36Plzj,Em35H1,DRm36Tly5,!E1Im39S,R1,Sm2gTly8,E1Im33Yiat,E3R1,C7D1,Eio0Im19,T1,A1Liqh,Alv1E1,Am1eDjGeN5R1Wlpd,El0gKm1y,AknhI1Lfq4,IlyyOlq1,!BkmoGm2oL2ST1,!OkxeS,!DEl9uNbqyR1S,!E85cIm3qLm2bNlz0,H1,Nm3tS1,!A6E4I1Rke2S,Ef4q,OjvnR1,Nii8,EkvrIl8z,!MgxaSY,Nk89,E1,!Em43IlolLl6pS,R1,E1,!B9Em46FicdGf56I8L7M4zcN6R4SfyiY1,!AhylElvyIlzyLm2qNlzf,B8zhWkoa,DRfhqTlz4,!A2E1Im48MksrOb58Pjz0SUlozWkm4,!STe7e,T1,!E1S,R1,Eg3nLm2yNi9f,Ikr5,L1Rlg2,Osc,!B1Ihn8,A6Em2eI5U3Y1,!Aa0B96C7wD7iE7hG76Hkn4I72K6zL6wM5wN4cP3vR33S2tT1mU10VqWfXeYbZ1,Blv3Tm3l,!A1ElynIhbfY,H1,!LlrhSlpc,DNlxpR1,!CxbMkt8,Km4oTm4o,R1,O1,!E5Iga0LlrnMktcOfz4PjinS4W1Y,!Ei06Im4uSTkqk,Sm4nT1,E1Il9y,!AlicEm4zH68vIhbrL1Sh5kWjvkY,Ufes,!AlieEm3uIhgvLlrtPfy5SY,!EkqlIlpkLm3lNm0aST,Ohlq,R1,!Em3yF1Im53ST,!Am3gEl1xIlpoST,!IixhN1SY,!BkboDHc57Rm54S,!SWgx3,!Am3kE2HlwwIlpsT1,Am4z,E1Ilac,!Ekz1,!BkbuE9gcIm5cL2N1SWl81Y,R1,E1,H1,!DNhlwRm5eS,E1IgaoY,!CwDpFlGkKjL9gcNiPfRdSaT3V1,Akx3,!R1,!S1,N1,E1,Y12g,!Em5rIigbOlvmSY,DR1S,!A3E1Im5rWm4s,Na57,I1,H1,T1,Nm5uObrx,Rm5vTkbd,!DRm5wSlqn,E1Im5z,R1,EkgcI5O4U1,Im60Um5u,H1,T1,HeIaT4Y1,Sjoa,O1,H1,R1,EkriIiymY,!E2G1,H5x9,Rm2rYm6b,A1,!BhdjC3Km6dR8ylSTm6dW1,HMm6eTm6e,Em69S1,Am0sIm6i,!ElycI2Of7mSW1Y,T1,!ElnuIcpnLm56S,!DEm6kSlrb,EG,N1Om4j,E3I1Okrx,Cm4sL5T1,!Alc5Rm4tS,D1,Mgt9,E1,!D1Im2oS,N4R1S,!O,R1Sm61,!Em2aGm6xS,E2N1,Em73I1Y,Ahu0,!AltiN1S,N1,Em51Im25OkdvUm63,T1,A1,L1Tm76,Nm7aOm54Zm1i,El37I1Om5j,Cm5dT1,SajcZm2g,A2I1,M1,!I1S,Bl4dOcS8T1,Em7fIdz5,M1,!AtEnGiHkhtI3Lh8fMkw2Ols3RhiiSU1Wiem,A1wRm7iUm6m,Ngmz,A1,M1,!DLkipS,E1,R1,!H4Th5pU1,Fm7qVm7q,I1,T1,O1,M1,!S6T1,IOicoUm7q,H1,T1,!ESUVkqmY1,Gld2,N1,Al89I1,Af4mIUm7x,C1,S1,I1,!AltpGfloIljbSY,N1,!Em83IlvmOlcfS,R1,Am68M9N5O3P41nU1,!Am6qEm6nIm8eS,!ElyfIjysSWh0bY,H1,T1,Em8aOm6dVm3j,I1Y,EcumST1,!Em6hIm8lLlvfMkx4,Nlrb,E1,M1Nkn0,!Em86Uju3,IwmO,Mkw1,I1,Km8rS1,C5G4Lm8sS1Vipq,!Im8xS,!A8Em2bI2O1,DjEm8pGgIdOm8vScT1,Em8wIlw9,Dged,R1,A1,Rkuf,A1,N6P3T1,LghqUm8x,AkakIm2aO1,R1,E1,T1,LlkxP1Tm8b,O1,D1,Ddr2Nm7r,I1,R1,Nlkh,U1,A1,H1,C1,A8si,A7ugEIm9dY,M2S1TlspUlch,E4O1,Alsc,H1,P1,E1,Am94Em9rOm5j,R1,I1,Ole3P1,C5Nm0qS1Th0v,!AO1,Em88InOkRbT1,Ohdq,Eg31,D1,E1,Ema2Nma3R,Nma4Rma3,!E2O1,BkywI7P4S1T,Gkmo,Lm4pR1,A1Eir4,Xblv,O1,Cems,A1,!P1,!B4Em9bFk13HlpyIlv0MkyzPde5S1,DR1,E1ImaiUm6j,!CkwkDh8iH9ST1Ulva,Nm1jTlrh,Cls5Mm9nPkfe,ElbmI2O1,Im9pO52s,M1,E1,Gi99Imas,Il03O1,M1,EmarIm1nOka7,T1,Y1,Rju7,T1,S1,Y1,Km3u,A1,Ek14L1O40h,Im1xOl3dRfeh,C9D5Mma6Nmb2P2R4yiSm6vT1,AgEdO1,!CkDm8iK1,!NhxkTcn0,A4bo,E1,Ema5ImbaY,!Ema6H2ImbbL1Nm6lS,!Am12EhfsImbcS,EiwxL2R1,Bm9rTice,Alrj,Ad49Imb7Y,A3Em5jGm3cNmbfR2T1,Ozt,Yl1j,!D2G1Raaq,Im9gOlsu,L1,!AgEaI6O3U1Ylwr,!EmbgIm6lSm70,S1,Dlf8I1,MlsoS,SlxgTm9uZlmn,!I1Lmae,!L1,Gi3wLk4eNmbt,A2O1,C1S,!E7I1,EmbrImb0Y,!Z1,A6jB6eC5wD5qE5mF5hG4iH4hI44K40M3oN34O2xP22S1uT1iUvVeWbX3YmbzZ1,Em9yImc2Om9x,S1,Amc2Emc2Gmc2Olzv,Bm2oI2N1Re6m,HhpqIm6p,C1,Amb1Elh0Imc8Olzy,!Amb2Elh1IiuwL1OlzzS,!IejuLmavNm7kS,L1T8hu,AlprEmcaIm3m,Emc5N1,Ad04I1Y,!A4ST1,C9L7R1,Am5vOm2e,N1,I1Omch,D1,A4pdEmcd,I1Y,!ER1ST1em,I4xfOmcm,T1,T1,A4E1Ibhj,!AdapBlzuEcI8LhqpR1S,Ead3Imct,Amb6Ead4ImcuOmb3Umbs,Am7sOm2s,EI1,C4S3T1,!N1,!Emd1Im4jO3uS,EmcyN1S,!E1ImczThra,DRgdp,!STluu,T1,I1,!P1,!E5IlxrS1,Rkoo,EbH8IdslK2O1Tkwh,!Ch3qS,!AmbkDkz1Lm05O1S,Llqf,I1,M1,U1,A1,R1,F1,BmbwL,!A1STj9n,Nljz,E1,!ST1,!B6Djl5Fee0GawsN4RbbtSU1Vhka,LlgeOklj,Uhcr,Klz3Nmcs,El5mI1Omds,AkonTkel,AkxzOmdo,!B6Fl0oG5L3MfstRmdtS2Te03W1,!Amc8EmcrGm8sImdwMl2fOg87S,E2T1,Nerv,E1,EmbwIlvcUip8,M2Ne8iSmd2T1,U6ix,DNm5iR1mbSmd6,Clw5Skyl,A1Umdg,DlnfRh5f,A1,E1Okvn,Em9kIhzu,LlchRg7h,!Hlz1Oi0g,Il8h,!BbEaF8H5Igi0Lk5wN4P3S2T1Wb4a,T1,Flw8NmedTlvc,Okav,L1,U1,L1,L1,E1,Ogy7,F1,L1,U1,C5S1,Em2gIcO1,Oh5h,AiryEmerOm2k,L1Rmdv,AuEmd4HhN4R3U1,B7h6,Em6qHlhm,I1Y,!AmdbDL1Ndj1RmexSm9uWjsz,A4E1IlzkUenu,CmezN8ko,Tdnb,U1,P1,I1,A5Ilf1L1T9edY749,Im2iOmd2,!C1Nmf6S,Cmf4DRkwj,!CEm73Nmfb,!Af9aE2I1Lm25Omf9SUmegY,Lmd7,I1,Em29Il0w,!Am0vDK2L1NmfdRhsnSkmbWhioYmfd,Am95EmarG,BmduRme2Tilq,Dm7sRmfgS,P70v,O1,!A4E3ImbiLl1tR1S,Em7fN6T1,DRmflTlyp,!E1Ihq9Oe0cS,EmepIlvt,!N1SUiwc,DRmfpSmeuTmfp,DinfNmft,!EmeeIj85Y,!AmfsE3I2KlxgLmefNmb4S1,IOljzUmfn,L1,ApBmEiIbMm2zN9O7P3U1Y,LmfwOmff,O1,BmedCmfyGmf1L1,Mb7c,He90O1,Amf3EmdyImfuY,BmehGmf5Lk6bMlmmRfqwTbur,DEc1t,E1,AezoR1,AgfyUmf2,!BhndLm33S,!A6B3C2DLhh6Ml4tNln9R1SinrUm11Y,Emg9Nmc9,!Emf7I1S,R1,!Emg6Ng1p,!ELmd8,!IluoS,T1,Nay7S1,A4I1,!AcimCljaE7Ij8wO6SU1Y,Em8eMmfdNgxh,!Ag9kBhk8EmfhImgmMl55Sio3Um1dWinpY,AmbkUmav,E1,!CizmL1S,Emd4Ymgo,!Am1bE1Tkr0,!E9e7Ij94Lm3mOmg9SWgceY,MmgrRmc5,!AuCsDrEkGaI9K8NgeeO5S3T2U1Y,Sm7jZmbz,!Emc7Fk8jHfuhI1LllxS,N1,Dlw7Nmgw,Ag6u,H1,C1,C1,A1,S1,Y1,L1,HbpxO1Rj5z,OltcUjof,Pll7,O1,R1,ClovGbgpIlpkLe30Mlq1P5S4T1,DNmhcRmhc,E1IgmlY,Ac33,E1,Ifoi,!T1,!AlysIlLhifO7P5R3S1,AjorIiu6Ym2o,F1Sm4yUmfu,Bl07,M1Tmfg,!A1IhrtLmg9NmcyS,D1Fkwl,CmgrNmhr,!EmhtI1S,R1,Am9pE8I4O1,U1,!Pgg3,AmhuEI1Ol72,!EmayLmgi,M1,O1,!AmgcEd6sImi0S,!IkgfS,DEmi0Lmi0N2R1,!AmgfE1Im2nLl4bS,!E9iLmh5Pm9jS5T1,INmg7S,!I6viLmgrNmdgS,!MOmg2,EmaiI1OmghUans,CmgbL3RiznT1,!A1S,!R1,OjuiT,!LmgyMmb7NmdnRS1,!Skhe,A1CFm08Umcn,O7s6,AmhhYmde,H1Omhi,!Omi0Pik5,EmgtOmgt,SmgnT1,P1,I1,OlayR1,!EmirGe5uI6e8L9P7S6T1,Ad17EdIbO1,Bmh4NmhlTmgk,A1Im8o,G1,Rmi4Tios,Tapc,Am3hUm3h,!A2B1EmhsImixMmdtSY,NR1,CmiuSmi4,E1,!N1RSmdw,E1Ilu4,E5L1Ohtu,Cm7rEmiwOkbmSmhy,I1Y,G1,!R1,!A13C41iExHiIfMleuOeRmi9ST5U1,Emb2HllyLmhuNmej,I1OmjaY,EmhtSggc,Oj55Ug27,!I2SW1Yiqu,!Tt7,!AlsjDL5NejeR2S1Tga2,Dir3EmhpNgx7,A4lE2I1RmiiYm6j,V8pe,I1,!A7fB6sC6bD69E5wF5nG4pK4kL4eM3nN2qO2nP21Q1qR1oS1gTcV3X1Zhyx,MminNme4,A1,AmhwOmin,!T1,!EmikIm49MhtdS1,!Ami2EmilIm4aSWfxw,!EmfqFl6kIm4bLmicNmf1S61s,H1,Cl5oD4Fmb8Mb3hN3T1Vmjk,EixdImf6,RT1,!Emi5GldgIkzl,EmisI14iY1,!Cj6iDFm1kLh7S,Ojac,EmjsSme9Zme9,I1Y,M1,O1,!ST1,!Emk7Im4pLlp6Ml8oS,R1,E1Ildx,!Cl1mT1,RTbyw,A1Emk8Ol7a,L1,!AhBfEeLdO8S4U1Wkaz,SawdTmh7Zgwt,!EmkcI1LmizS,NmkgOlu8Vmjg,AmisEmgfI1Omip,!L3T1,!AmidIlpoS,Em5aIi0f,!MgnzT1,!AgdjBhukDhikEivoImklJhhqKbuqNj3iOj3iRl56S1Um5c,Oiju,EmijIcl1Ok0l,T1,O1,!Emj8F4IgomM1SWl86,!C7cx,A4o2EmioI1Umkk,!Tdyg,L2MmksS1Th8,AeHdIKaO5U1,!NmkuS18,Emj8Im5hMmjp,E2G1I4z6,!AmkaEmkrImk9,S1,S1,!EmjxIhwyLhlySY,T1,!BhujIllaS,Ejgu,Tl17,I1,N4O3R1,DR5isTml1,Aml8EhrxNm5v,A8ppE2I1Y,Amj7SmflZmfl,!AiszI1S,AC1Emd7LmjzNmgoOmj9Slzk,Miqo,R1,O1,!Ml0wS,M1Pabo,A1Ikem,R1,A89c,Yiai,!G3IM2Rkq8ST1,Lgpp,L1,O1,Al5xOloi,!AlBhuzEmlrGiIfJl6eNcO5R2SW1Y,!Ces5S,N1Th4y,Ogew,O1,L1,A1,P1,EmltNmm2Plc5,!GhwyPlc6,!A3EmkyI2OhlcSY1,L1,!ASUmgd,T1,Imk2N1,E1,Mmei,O1,!LkcnNmhlRmm9S1,!Ia2vS,N1,Aml8Wi3v,O1,!DImmgRa92SmhbV36b,Ijf3Nmiv,A1Egf4O536,CkwtEmmbNhloSmm5Tj5q,EhbImlkY,El4iIm75,R1,Im7eO1,H4n2,G1,!H3I1Oi8vPi05,!AeBcEbH9I8L7Nmi1S1ThikUat8When,EhG1,!Al1xS,L5w7,!A1DhkuEmlqImmvOj5sSUm7m,EhorNmi6,!El72I1SY,!EmltH4xxIhtsSY,Fmm0,I1,!R1,!T1,!DLmloNen2RS1,!E1Imn4,!Bml7Eaa7FcIhpqKaMmn4N8P7S1Tmek,Od0c,Egp4Ihu1Y,!ImedTi0g,!Emj8H3Imn9P2S1,Cik7Tmn8,A1,U1,Emf6KmlrNl8n,Ema9I1Y,MmmhSmj6Tm6h,!EmniIm80L2O1Sm85,EiikOmlc,N1,!ETmmk,A1,C1EmndKhkwMmanNmanSmmr,AjfvD6EmkdG4I1NmabRmloY,Lm8z,B1,!LmnnRmnnS,A2E1IhmuSlypTmaf,Ri1b,Ojzy,!A2S1,!COmlp,Eb1oImnvOmnt,!EmnoLkpg,S1,!Al32H5I4Omn3ST3U1,P3a2,!Eg2aIlz2Li14Mh4nNmjaS1,!DRmnzSWhp4,E1Imo2Y,G1,!E9wzImo4S,!DSWi9t,E1Ii02Y,EjgtRm68,C79kD8Gm1cI4vaN5P4RgmxS2Tz6V1,Te1z,BmaxGmnbS1Tmo8,Nmb0,Cmo7R1,Elg7Ihq7O1Y,Aglo,!Il92Ok0l,!AlzrBrmDL3M2Rml9S1Vmaa,A7E1Id3z,EmokOli3,AgsoO45mR1,Sl6h,S1,A1,AhcfL1,!C1EmoqImooMlhgSY,!DR1Smjk,EmgjFl9xGlhtHm48Nmk0Vmoh,A6tbI1Y,Iiia,!BaDhmsE4IgsgL2N6h9R1Smil,Dlsz,!EmndImovO1,!EmgpImiuLmnhTmmy,L1,A1,Egrw,!A57B4oC45D42E3zF3xG37I35L2wM2sN28O1vP1rQ1oR1eS1aT12UsVjW7X5Y2Z1,Eq0,LNmnwTlq8,OlrwTmn5,!A2I1Omcu,C1,I1,B6Emp5R1,Rmo8,!NlqvRlf4S,!Am6jImn5Omd0S,R1,E1,Dix0F1,!EmpgIc4bLmc8SY,Tihz,A1Empe,Bh1tLe4r,AaE9I5K4R2U1,!Rmff,C1,EmpjI1,STmd8,N4tc,E1,M1,FhenT1,Am36EmomIhsc,B2i4,!Eh3hG2S6j9U1Wkgg,Mmiv,R1,A1,W1,E1,Bl4v,!A1Emq2Imq0S,L1Umpz,GmklRmq0,!EmoyImq3JkwlMlemSYi5g,R1,Sc6l,A4E2O1,!Imp5LNmm8Rkhx,FkupSmk7,A2Eb72I1O5us,N1,Iky5,R1,A1,T1,E1,L1,O1,R1,!P1S,Cjd4DN1Rmqi,!E1Fki8I6dxSY,!BgEmncIcMi0lP1S,CmqlOmoi,Ej47I1,!CmorRdyyST1,N7cb,DO1RmqpS,!E1ImqsMi3rRi1rTed0,H1,!STldl,!AmoqEar5FgcjI657SW3xxYmqs,EhsrSe5j,!Emp6Hi33S,A9C5E4G3I2K1TmqxUbupY,Nl9k,Lm8mSmq6,A2IlgwOmerU1,Algx,Dmk4Nmr4,Ci7xD2Emn3I1Kmij,!EgqfImr5LmpqNmmf,!Emr8Imr6Lme0SWhwd,DR1,Emj1HltxLmptNiwa,A8x7Emp5ImbtOmh6Umlh,!E3FizjI2R1SY,Cmh6H6T1Umqg,Imo9,Lm8zTlv7Umr5,!Tgd6,!Aml4CkvqDF3Ie46Nk04O2S1TkvqUmol,El1rImei,AjzeE2H1Ii2oZmqn,A7ikEmraOmhf,I1Y,R1,!AmjhEmrjU1,AmfyB2fC24D21E20F1wG1tK1oL1lM10NoPlRiSbT5VmrkX1,Emrk,DT,R1Smqq,Rl3g,H1,T1,N1,AEmrsUmm2,EmqwNm42,D94m,EmqxO1,P1,A6E5H4O1,IfwhOfd7,N1,E1,D1NegtTk8h,AOmnu,!ST1,A1,M1,O1,L1,U1,Mms9N1Pm3x,A1,R1,AOjhi,!ST1,A1,B74oChmG4ImsjKmebM1Sfe1,!AfO1S,H1,P1,!EmmnImd5Pma7,Elt4H1,C1Xmrt,Ak6o,N1,CSmmzZmnu,EmbmI1,L1,Bmbv,I2O1,H1,N7P1,!Bgf0S,Sb4yZmn7,!Al73I1S,C1Fm7zSmmz,Aj6iE4I1,Mb8iNd65S,ClseEmsvSmncZm3y,!I1SY,N1,E1,Ifk5,C1,E1,G4L1SaxkZjic,Amo8Emr7I9O1Smsd,ImosTj48,A1oC1eDkn6EmtbIhshMtNqOhRcS2T1,AovEhdI9uL9sO4eU1sW1rY1,EmcmRmrt,AmteZmnp,!I1S,M1,A1,!CmtiEmtcS,I1,N1Omrh,O1,B9Cmo7D5Qju3R1Wmtm,AlnaOldu,B1,Igag,Bhxe,A3H2O1,!Omfo,!D1Rl1mS,Lbb9,O1,BmkhTmrr,!Am33DLlz0Rms1S,A2E1Ijcn,C4N1Sf5e,Oeyu,!ElguI2Omu1Rif0SZ1,Okls,GT1,N1,AlnsT3,N1,!E19cI1LmoiS,G4l1,E1,R1,G1,G1,EmudIml9Omq5,ClaaT1,ObqnY1,Olsf,N1,O1,Udsi,L1,O1,C4V1,Smqk,S1,O1,Mkxt,!ElvtS,N1,I1,L1,U1,B1,O1,A8L1,Uk28,R1,T1,S1,N1,Rlvc,E1,T1,P1,O1,D1,I1,P1,E1,Lh5b,EmueO1,AmeoIUmum,E1,L1,Rmor,C2T1,!SU1,P8w2,A1,R1,G1,O1,T1,AjncO1Ymbx,H1Tl0b,AmdmO1tg,Cjd0,U1,R1,!C4T1,!A1mB8u0C1jE1cF19G10IvLmMkNeP6S1,R8xg,Am09O2U1,A63vEmtzImw3,L1Mlco,!A2hC2cE2aH22I1zK1wLme6Omu0R3SU1,DNjjeRmw4Smv9,E1Iiey,Emi2,Ib8e,O1,!ImotL3M1,Amu7CTmvd,EmwbI1,R1,O1,!P1S,AmpwSmvb,!I1S,L1,A1,G1Lhnj,AmwkEmwkOmwk,N1,AmvtE8I3O1,Mll8Rmvj,O1,!AhqpClqjDkEgHle5LmvcMllaNms1OhqbR3SUinsW1Zlq0,Rkn3,T1,S1,Di1y,A1,O8alRl4a,!T1,!L5N3S1,AmwyCico,I1,Skz4,Amx1CO1,F3I1Tmvc,Nm7j,I1,Z1,Eln3,L1,A1,!Nkx5S,O70m,!AmqrImuiKlj3S,AmqsUmrm,!I1S,R1,EmxfIl83Umwf,CmvkLmw2T1,A1,E4R1,T1,!AmvhC9LmidS1,E1tl,Ml3v,I1,N1Tmwr,AmuqCTmwsUmrz,I1,CmasSkoeTmwuZden,Cmgu,E1,L1,Deja,D1,I1,U1,L1,Rlvu,D1,Y1,Alfk,Tdob,S1,I1,S1,E1,Cd4a,I1,AmcxR1,!Pj00T1,!EjFeGkrfHbMmdqNmydPaR5S1,!InO1RmtsS,SpT1,Lmx2Tj1i,!A1Emo7Omvv,C1Emsm,I1Ymjp,F1L5ieTkyr,Lmr1,AyE7I2O1Umsw,EliuS,!A1jD1gE1fG1eI14L13Mkw2N2OmxkPhjoSU1,JfzxN1bf,S4h2,A2I1,R1Tmi3,A5p4,M1,N5n8,O1,Tic7,S1,Almz,Emz0G1NmrgUmxw,A9I7J5L3O1U2i6Z51,AmxcEmvhOm1u,!H1Lla6S,N1,Vm5k,R1,!E1,!E4Hm1zImacS1,AmjwOjio,!Emm7Omy6S,!Am8hB2EmvcImjxL1MlnwS,Riau,A73zIfwuY,Am89,E1,AljnR1,!AmveHhwuPglbT1,N79l,I1,Ndpr,A2E1Omke,!FaL9Ml4iS5T1,Ljae,Nius,O1Tmzp,DiE3ciGlpsHgb2LfMmr7N4O3RmzqS1Zmyt,Gez0,Tlca,S1,Ofb9,NmzyTdnm,!D2EaayI1LmyjS,LjaoR1,Sh9x,A8E6O2U1,BmyfRn00,Ald5,!E1S,!AmyhBmv1Fl4zOg18R1S6onUmkwWi8o,MinvNmkr,A5E2I1On05Uf91,Rkcr,O1,S1,A5rd,R1,T1,Lh8zS1,CmzhHmc2O1,AmvlEn0iIkdx,T1,P1,En0lIke0Mmzb,T1,S1,U1,Em6sRmmb,T1,S1,I1,N1,I1,Ijns,O1,AdIn0mJ9M3R1Y,U9vf,Umvu,Rh6b,En11Mmzr,N1,O1,I1,T1,R1,O1,AmulSmv5,!I1On0zS,P1,O1,EcP5R1,!LNS,LktvUn14,A2O1,!I1Kev1OmknS,En1dHmwl,B16C11DlGkImipMjNllaP6R2T1,Tg8s,N1,E1,T1,N1,O1,Bk1u,I1,R1,T1,S1,I1,!En1vImznOmwjS,T1,C1,I1,Cdz1,!Elg4,C1,A3I1,IjkyUmwy,Ol7x,!Amx0D7F3M2NmxdSV1,Sds9,A1D,Me74,R1,Ccpd,N1,E5O3U1,!En29Ims7,!AdoeEn17Ik1gLn0xS,N1,En2cGhlh,C4G2H18wN1Smxr,AmbkDEn2eIOml3Tn2eUn28,!AlvfE1In2hOlw2S,!Elmn,!IjuvS1Y,Sg35,I1,R1,U1,Rl5j,T1,O3U1,L3hb,C1,Rcmq,O1,C3D1L7vtTico,En2yImy1,S1,Id41,Cn20T1,I1,T1,C1,A1,O7R1,Ln33Sn26,Akqk,E1,!AmkhEmzmHn2aIia2O3R1SbyfY,Rcut,AmjvE1,A1vC1pD1jE18F11GltbIwKmkxLuMsNlOgP7T3V1,Iln6,!L1S,An3cOlja,Uld2,L1Yn0s,!In0mOkw1S,EIUn3a,!EL2Rn24ST1,En3iRn3jTn3iYn3i,!ERn26Tmcu,A1,L1,En3mL1Tjte,CijdGjcaNm8eTmgt,A7E6I2O1Y,AeBdEbIn2sLf8oM1,!Emz3Img4Smoh,!Am55DMmabR1S,E1In3u,En2wOmrm,!Ci2lG2KmliNn2yST1,Nf89,ElinI1,H1Icsx,Umvn,!AmyyImg1S,N1,I1,!Il9gSY,R1,AmqlEn22In46O1,Ll8uM7R4T1,A57i,L1,Ln3bU1,B1Olen,!En4aImxgS,N1,An4cI1,L1,Omwy,G1Kn3i,A1En3zI61q,AcI8O4R1,E7ek,V1,!DGn3nLmrgSU1,En4lIm55,S1,AmzmE1Igv5Omsf,BeydN1,!Ln4pRn4pSY,!Tfmr,!En4lLn17Nn49S1,A4E3Ikv7LmviO1Rd7hY,Nhx2T54e,Ln3xOn1a,A2O1Un3q,En2uIjnl,R1,!An0oOfu1SU1,!Ae1fEn3wIn51Ln3mOlkxS,T1,S1,Dgnf,L1,E3O1,An55Lmr3,Cbei,An3lEn35Imp2Omc7,BmvtRT1,A1,L1,Ln4eU1,!SUn5c,O1Un5d,A9j2CgFaHldmKmn2L9O8P3T1,EmxaKn3vLn42Nn0r,EmsdI1Y,EmseIlglY,!En5mIj85L1S,DQ17pR1,En5kImwgOn53,Kmn9Nn5oSjvoT1,AlmmE3I1Ommx,Vjgx,U1,!IkjeS,!E2MibyR1S,Aki1Ohz6,Vmwf,!R1S,U5v8Ymsy,A1,Ee0y,!AwxE4In1bL2U1,En5p,!H1,!En4wPlz9S1,An09L1S,!On52,!En5xSn57,C2Dn64LkcsS1,E5grImqr,!Pn66S,A1Imx3,An68E7I4L3R1Un5c,Ln34Rn4w,Rgci,OmssU1,T1,C1,A1,Sm1fTino,I1,En2iIm28,Rm9t,!C1,AbB8rgF6M4R3S1,!F9jk,N7up,A1,!A2uC2rD27E24FjezG1wH1tI1aK49mL18MaxaN12OyPxQkfjRksaSrTgU4WeaiY3Z1,!Li7qMg7nPi4zS,D2c,A1Lm0b,!L1S,Ej1yI1,U1,Ullm,O1,An6xHfvw,ImxuUn65,C2M1,Nh8e,O1,H1,Eeat,B8Cn68Nl70S5T2UmykV1,!DIjv4Rn75S,E1IhcfY,L1,SmixTluk,!AEI,DNRn7aS1,Nn7eOlif,!E2I1LmcfPm5l,!A5EbsjH1S,Mgo5,Glur,!M2N1S,CNmyiTmtf,I1,R1Yn7j,!Nmx0S,ATn5pZmii,!I1Ln69,L1Tmzm,!A1En7sIn7qS,N1,Ag49Nn6t,An2qEn7rI1,V1,A1,AbEaI5R1Ufnl,!C4q7,Uel6,Ug9w,An7yIn14,B1,!Dn2bRn74STmzz,A1Eltb,Om0v,An1jIkkb,A9C8Gfg5H7J7M5N3O8gP2Slu1T1,Og8y,!AmhcEgh3ImssPhejS,Dn1aRn87T1,On6jRn88,O1,Agv8,!MerbWlq9,!Di6dE5H3ImsyK2S1Umt5,!P6hs,!S1,!E1Gn8fS2,En0bN1Tmpf,!En8lI1SlffY,Ln74N,A1,E1,R1Sm21Tn8l,AbppIn3lO1,Chv5Ojuw,!An3nEn8i,!S1,Ehp5Rn6u,!En8rS2T1,!An3rElvi,S1,E3I1,U1,Mn8wNn3h,!Ami3S,E1,G1,Dn90Rn90S,A2E1Nn94,!Bn83En96FlgyIn94SY,Nn93W1,A8En81I3O1Ymua,!Cn79En99In97Ln96Smtw,L1,Wmg8,O1,L1,L1,A1,!A6En96IltqLlayM1Y,AlkqUn6l,I1,P1,!Akg4En9gH4U1,Tl4f,!I1,!S1,DLjl2N1,Ln87Nn9l,!Amrf,!En8jG1In9nS,A3N1,!Dl02En9tIbgcLn8cOl29SY,R1,!AijdE7I3Lm37SY1,En9wIn9uOmxk,!En9xIn9vL1OmzsS,L1,E1Y,Jm85,Pn74,I1,!A2vB2sC2mE2jG25I1vJ1uK1nL1iM1dO1cPizxQ14RvSjT8V4Y3Z1,Ana1Pn91,R1,En6xIgkx,N1,I1,L1,A5O6mlU1,!En4bIicuY,DGna8Rna8,!An8nE1ImuvLmfcS,Hliw,!EnafIikyRn8fS,C2N1,!R6jkS,E1,U1,Uluc,!A1,!CfymGn18S1,!Dn95STm7tUe6i,ClisEn2fFnakNnanVn3m,!A3Cd1qE2I1LmxhY,!HmveIejnT55j,!EnarFjiyIjlbLllqM861Pm3wS1WjhsY,CjxaDR1,En8nIn8lOmc0,T1,!A1Hn9uS,Oi14,H1,P1,O1,C5Fk25G1NnazTexxXna4,!In1tSTnax,N1,O1,!EeiwIjxhS,D1,D3I1,Bkz9,R1,!AadwEhHc1aI9Lic3O3SU1,!C10En9hHzJmfcKxOuQrSlT1Ukue,Lmbf,A1,B1,DlukM1,Am4bOnb8Xnaj,O1,Ed4xOm55,!An9sB2En5iInbgL1MgccSchUmw7Wme5,H1,EmydOesc,L3z0,I1,M1,A1,!IdupLna8Nn6xS,L1,A1Enb6,AhroIn7j,!F5I2N1S,!DLaR1SmwhYi4n,Cmq2Zmmo,I1,T1,A1,M1,!E1S,EnbxSnb4,!AnbbE1GnbyS,LlvgN1,R8fb,Ldve,EnbwImzzU1,I2hn,Nmmx,O1,A6C4L3M1Xnbe,!AnbkLnauSYma6,N1,An7mEnc3I3O1,!Ampg,!DnaxRhb2S,Cnc9In8s,An7qEn7q,!E3If43O2R1S,!DLnb2RSn7c,Ae5bE1Ikbm,Ijvt,R2T1,!HncjOnagSTnc6,AlrqO1,!A1bC16EvHpImLmzhRcSbT7U3Z1,!Lj8dS,!EnbkIncpSgow,Ehpm,!EhvvInciSY,!D1,Eky2,L1,O1,D8GjhL7M6N4S1TncuVnbx,NncvRiq5,EncwNncwSnc4,Nfuy,R1,U1,E5I4O1,!End5Ind3KeonNS,Pm0l,Fcto,Al7nI2O1,L1,!Lmd6,Nnd7Sn7iTncaZn8d,!A2I1SUn7i,!CghjL4M1SXncc,!End4I1Wh6h,!NPd2bS,EndcUl52,DSnci,AksmEn7o,A9y8,N1,L7wi,!A1En8vS,!N3R1S,LncnPndk,O1,!AbBaDlxsE9Fc4cH8Imy8O3P1Sn8jVmvaWm14,EckpRna3,!DncaLmirRndoS,Uir3,MncuRiwm,A4E3IippO2U1YZit6,!Anc3BncvChpDh3EgvFgqGf4HerIe2JdtKdnLajMa3N74P73Q6yR3tS2mT17UyVsWrXiY6Z1,Nna9Rndq,A1,!Wib8,!L2S1Y,W1,!O1S,Ec34Rmk5,Eirp,!BiehMeku,!I2Ln0ySTf0cWl4rY1,EmkaRn1u,!FjmfLc3qS,G1,Ene6N1,!D4EghxI1LncuNn9jSTa7kWj93Y,Enc6Ik6mY,!DncvLn15Mnd3Rne9S,Am9qE1Inec,R1,L4U1,En1aO196,Chbq,A1,!AndtBjjlEnekHmu0Il4vL3Mm31P1SUndnY,DjGiLfNaS5T1,Ycdu,M1,!An7zInbrS,C1Sln9Zdvh,C3sfRfbk,I2O1,N1,A1,If4k,A8CndvH2L1Ogbf,Ln3q,CNnewOncqSndp,EneyI1,!EnezIjxkL1S,I4Kne0L1,!Omh1,!DRneyS1,E1Inf1,L1,!Km0tS,C1,A1,V1,!Vmgp,!LndtSTnf6,Nmg2,I1,!T1,Emb9ImzcOmmaRj2u,!CndfDE6Gl2cLnc6N5S2T1,BndrInbsLnc7M11fRnefTn7b,BndsLnc8,A1EndcInfg,N1,E38f,!L1S,!A6I3KnfiO1S,Aflu,V1,Rn60,C1,Emg7,N1,A1,R1,R1,AmzlE1,!Iki2Sn0k,M1S,AkCdEbINnezO9T3U1,Ane7Em03,!ERlg0STmp8,B6ai,A2O1,L1,!ELNng1S,A1Omk8,L3S1,!A18D14E10Fly6I9L8U1,H1ao,C1,Klo3S1,!EnejIhcsLnevNnbkS,Dng9KmjtR2T1,AnelInf6Uma2Ynb9,Phso,R1,Inc8O1Ykhm,LngeTmtk,A1,E1OmxrYnfi,EnghOfjz,T1,E1,M1,A1,E6eoInfi,O4vw,Y1,R1,A1,A9ufC,I1,N1,A1,Sng3Tne2,I1,L1,O1Sng6,B7t8M5P1,IikhO1,R1tz,N56h,O1,Jmau,O1,A5H3OmzdR1,GcgmPiwh,A6swEnh8In84O1,R1,O1,C2exP1Siv5Tlzy,!NmawS,N1,O1,Tkak,I1On69,B17C14D11Fj4rGwHvKrLhPbS6T3V1Wn67,Lj21Plwo,L1,A3I1Oe9wR2ee,Kng0NijdOlkx,D5ouEnhqIngo,AlxzCnhnEnhh,I1Y,L1,O1,H1,Anb9CnhsNnhsSn8mTmyrZmsp,BlmoCmpeGch8Ine9MmhzPg00Smm1Tn0xUnhn,C3GngxI2O1,Okb7,MaN2T1,IncwOngt,Al5wIjkl,R1,CL3NmtpO1Slfd,EexeOn80,U1,In8zL1,F1Nni7,P62gTlc2Wlzh,!EniaI2O1S,!A5hp,Ani8C1Eni2On87SlwcZn8y,CmvaSlwdZmt6,I1,!ST1,A1,M1,A1,EndtI7R1Y,D1InewNnig,!A552DigiEnheInegOngeSWils,!AmDn9zEnhlIiLcO2Pn6oST1,!EninSn3a,R1,EngjOmlg,N1,A1,E4R1,Ndi9,I23a,L1,I1Ln5i,Dl44,B2N1,SlwzZnd6,!I1LnhjS,L1,A1EnisSnd9TmdgZdzu,A5I1Y,!IjbvR1S,Ik90,H1,!A1,!BgEfO4S1,!Ini6S,!Ri46S,E1,Eng1,H1,C1,Cfn4D6G4R1Znep,BnhrCjgb,Vlnq,E1,DL1Rnjf,AmpxInfb,C1Gne2Nn44,!A6E3I1S,Af2iInhu,OmjpTf6l,AniyImylUnjf,C1,C1,O1,Tf6q,I1,L1,A1,H1,P1,E1,C1,N1,CaE1,EmsiIfO1,G1X,AnjeIUnj8,C1,AndiN3S1,Sn82,U1,A1,Ak2j,H1,AmxfR1,!LmhjP4R1,!Eih4,H1,N9ot,A1,V1,!DFm7bLn7cR1S,U9qg,R1,Bnb4LTnfr,A1,R1,AlkzCaE6InkoT4U1Wilr,!L72fTnfv,!AmtyS,L1,EnjsO1,O8hq,A5H2I1OeoaUni0,!A1iD1bF6onH1aIqOjS7T1Unkt,UnkvWnkv,Rj4y,Tg5i,I1,Oap7,E4H2R1,Oke6,R1,EIjnp,L1,I1,T1,Ulor,!P1,Anj5O1,T1,N5P1,R42z,A1,!IipcSY,N2R1,SgrnZ7z0,I1,!AmunEnllInljMma2S,D2T1,N1,A1,EnlfFjtwLm7v,An7oCEnlg,AndlI1On9fY,R1,AfEbH5I4U1Y,R3sg,!LnkeNimbRSngoT1,Nh5p,A1Ee2sInlv,Nmnq,AnjsO1,I1,GkmeOnlx,EbilInhg,EnltInltT1,C6mmRnbx,!Enm5Inm3O1S,D6N5S3T1,!Enm3Ink0O6yiS,Acx9,L1,OlisYmxc,Omxw,B3CkhjM2Pnf4Z1,Ene4LnkwMnl3Nnhl,Hmfc,!Mgn9T1,I3Y1,B1cCoDnlgEmGkIbKnmdLaMhfaO5R1,IeclY,L1,!L1Rl15S,!InljS,L1,A1,Sa9w,I1,O1,M1,Ai94E1,DTnmd,E1S,M1,Nf6y,A1,Y1,R1,B1,AIndtOnge,L1,A1,H1,P1,Ymz8,E2H1,AIn2lOnglY,R1,E1,C4T1,EhMcN1,!Nnad,AnmxE1,AnmyG1,G1,!EnlxIiu9U1WjuiY,AewC,Cnj4SbzhZne5,I1,R1,E1,A337Ennj,Lnml,C1,Acl8Y1,EnmrOn43,L1,Rjca,EnmqO1,InenOjsj,R1,H1,P1,!E1InerS,!Le26S,L1Tn4w,Y1,Am5gEir7H1,Ch29Oms9Pjpo,L9k1,Cju2Xnna,A1,R1,E4O1,Nno6Plp4,O1,H3R1,CnDfbsGlMjNePaS9T1,If56,U1,GninLna8Nnoc,Uj4e,E1,N1,G1,DI1Nh7bS,Hn98Nn0j,RSnnoUj4k,A2E1Lnn7Njto,!A9E4I1Md29Umi5Y,EnomSm7p,Nm7qZhh1,Am0u,E3I2R1,A2aC27D22E1iH1dI1cM18N17OhQfS5T1,CnkgSnj1TnnuZju7,I1,L1,O1,P4rj,R1,Enn8Rncl,T1,Ifmt,R1,A1,C1,N5R1,A8E1Hkek,Hkpg,T1,Cldh,I1,Cn3vXnnd,A1,L1,!NkgeS,A2E1,Umiy,G1,N1,Ia0e,!U1,G1,N1Sm3oZnjv,Cn2mFlu4NnpoZn0i,GcwxImxwP69x,Rl9g,EnpsI3O2U1,Rdnk,AnoqO1,!AbEnpvI7L3MnpmSdr7W1,Tkq3,A1,M1,E1,H1,T1,!EnpyIkygS,R1,Sllo,IkyjO1,H1,P1,R1,A8E6O1,A5g3E2c,Pbbu,RjoyS1,Sn4i,An7lO2Rn7kY1,Hkl1,C1,Y1,H4Ln6hS1,Oniv,U1,Q1,Abnp,M1,BmnjSke3Tnm1,A1,E5O3T1,S4tb,R1,E9e4O2l,A2EnqqH1,Lh23,Y1,!B1zC1pE1nF1lG1gL12MoNnPfS7T3X1Z9h1,Hlpa,C1,Y1,S1,P1,E3y,C1,Enr1Ii2s,CnmrT1,ImzdLa8v,!I2O1S,R1,!An4nEnraInr8Sh3f,!Tm39,!DMaN8O3PnqcR2S1,AnmgEnr9Onqs,A3q,U1,Ccs0Dmh8MbqpN3Q1,!En6yS,N1,I1,B1,O1,L1,G1,O1,Dlv6GltgM1Nlt3,Nndi,CltgNikfO1,Cbq6Sk7vZnlz,!I1Ok6sS,Xnmo,E1,R1,Ucoe,L1,!C5fiF1L,Y1,D8T5Umm4X1,LnryMnduSnr1Tnpt,Hiik,T1,N1,A1,L1,O1,EgeoH1,Unen,C1,R1,E1,A2pc,H1,T1,H1,P1,A1,I5jj,N1,E1,O4z,S1,I1,N1,D1,E1,H7R1,A4fr,!AtCmD1hbEnrtInjnMiNcP2SX1,Gnau,R1,E1,L4S1,!A1kE1bI19OzSY1,InsrLnsx,L44x,A2U1,C1EnrbNnt3S6wy,!Ijm2SY,M1,Y1,AnrkEnt4Ink0Onr1,N2P1,LnrsTnoe,!A1Iml7S,C1Fm86NntbSns4Tn5h,M9dj,IijyO1,Oce,R94,!Li20N3P2R1S,EnrcI6O1,!DShii,E1,L1,!A2pE2aHmIiOdR4T1Uede,I9zr,N1,!EntpIntnLnl2S,OnrjUnnw,E1,!R1S,Z60e,!STj4t,A25O1,CmvcE4Q5hU3Z1,!AfcCf2DdpEdkGc9Ic8LbbMapN90O8zP8uR7gS53TbU9W8Z1,!AhwdInpcS,M1,O92S1Unl9,!Cm7aSWlfu,!Am2hEntyS,L1,!L1,!Eme8Lg1S,Pkly,Mmtw,O1,Ld2dT1,A1,M5N1,!OixaS,LekgR1,!AnokS,AntoCOa2n,!EmvnIneyS,W1,E1,A6E5I4R1Umge,Ic4i,R1,O1,Slun,L2P1Sjpn,Hn76,P1,Ii7lLf5n,U1,C1,R1,M1jeNntu,I1,Unhw,P1,!InqdOnu2S,M1,C9mmDnu0M3Pnt1S1,Ikd9,!L1S,L1,A1,T1,S1,Y1,LkcbRig5,AmEkHnfyIgLeO9R2U1Ynbc,Oc59,T1,I1,S1,N1,Sjm0,S1,E3I1Onua,Qag9,H1,T1,R1,DnumNlbzP49z,O1,R1,T1,C1Mnuh,E1,Sc37,P1,A1,N358,O1,R1,I1,C5V1,AfC11fL9N1V11c,RnsdUjja,!Lnf7S,L1,I1,R1,MnuxR74,A1Mlil,B3ClrpL1,Rlwi,O1,RnqiS11l,Glx9,N1,AdI6L4O3U1,EnwcOjui,T1,E1,M1,Cn9hNnwj,!EnwlI1S,H1,MnwjP1Vnsd,A1Odz9,A6R1,Ikir,B1,A1Mnwo,CmimJ708S11o,MmqaN1,Rn5k,E1,T1,P1,O1,D1,I1,P1,EnvaHnnu,T1,E3I1Ujkm,Leu7,U1,P1,Aeo3I1,N1,IntnLi5u,IndeO1,R1,O1Rnxa,E1Hn03,RnwfT1,Zf2d,EI1,R1,U1,T1,!A1S,I1,N1,P7a,Llj3R1,AhEbHns8I3O1,Elyo,L1,C1T128,!ImprSU1,G4o9,R1,N4br,O1,E1,Tin5,L2R1,!EnwaIndgSY,H1,P1,A1,R1,G1Mj4c,O1,Nl4dT1,LfodSi8i,AnbpO2Y1,Pml0,Kjcg,N1,A1,EnydOlqe,R1,!MkqdS,M1,A1,R1,Ewo,BnxnCdx9G2J1,InpxO1,Hm9j,S1,I1,L1,B1LdqcN3rx,AtHjIiLfOdR6U1Ylk7,Ajnd,R1,G1,O1,I1,D1,D13z,O1,R1,AjslP1,A5E1,P774,AngxO1,Mmcr,S1,C8frI1,O40,H1,P1,O1,R1,T1,C1,EnzfIny4,R1,E1,Iffv,G1,N1,Cn76Gcz0PjevUnzf,A2EnzmO1,R1,EaH7O1,AnuoR13u,Ih2k,!CnEkOnbxP3T2UfwmW1,CnzsQl09,I1,N1,H1,C1,Ak59Enzx,Mnz1N1,Bi9z,E4O2U1,RTnal,A1,L1,U1,C1,S1,AnjgIOnnzUo01,L1,L1,A4I1Onp3,AnypEgunIo0d,Tnz8V1,A1Odku,!A67B5zC58D50E4hF43G3tH3qI3oL3dM2rN2nO2lP1nQal8R1cSnTeV4W1,AIe0rO1Ufwq,AnqpInvn,R1,U1,A6mE6jHnuuK6iR4T1,Ukt0,O1Unpe,!B63uDMmp7Ro0mSWj97,E1Iizt,Rif4,AmkwEnymIo0iL2O1Y,Ee0u,I1,EmfjUnzo,Nnx9Tevu,FnzaNnzxVo0n,A2EnliI1,NndmSnzs,O1,Hmxc,G1,I1Onwe,CM,!I1Ol7t,H1,NnelS1,Bo15Fkse,A2I1,Tkxw,I1,G1,Pjit,I1,Znk8,!OnnuRi0gS,!A5El8nH3I2Onj7PmziT1U2j3,Els5Oizh,TmncYo1g,Knyc,Eglm,T1,E3S1,FcffNnooVimc,A6E2I1,!AnzxBio4C12DyFwGvIgcwLsMqNnPg06RhS9T8W1Ylnt,Fj3p,Thk4,!EjwvNo06S,N1,O1,Nnde,I1No0qT6aj,A1,!Ghg0H7N4R1S,Hg41,N1,Anf5Enf5Ol8q,Amy8EnzyIo22Rg65V1,Dmr7Go14,!Io25,H1,No25RSo19Wi0v,!E1Lo0sNnxh,!IgdlTo17,!AnfoP79rRo27S1,Idx0Y,!R1,Cnz6Tnum,AEo25Lo0ySkt3Znd8,I1Y,N3R1Tnwo,Ajjx,A2I1,A7EnwoT1Unzo,!Hmq0Onna,OnyyRo1e,Emq2O1,!Eo1hFlu9IjeiMhvhS3W1Y,Ois1,I1Lc95,Il1wY,R1,!Legd,A1Unx0,I1,A4N1,!DF7N1PmqcRi4fS3x4To2t,Do2uEo2uIo2nY,M8tR1,Uijb,Gjnv,E1,Mo22Ro2z,Ao2jRmnn,Enzb,A800Inq5Ujqn,EhvpHnxoIfljOloj,!Rn4gS,E1Go35,Rdxl,I1,!A1Fag7STnge,Mmfg,HnxkN2S1,Enli,Do0i,Tlcr,N1,E1,A4EnxqO1,AmBmm4ClDjEiGhHgLfMeNcO7P6R1S8jzVns9Wns7,AnzlUo1f,Oo2lRi2m,!T1,Oo3hRjc7,!AhwmCj0bDmo9EtI5P8k6R4S2W1,Ektm,!Ro04S,Om8l,T1,E1,U1,Elk3,!A1tC1rD1pE1nFn2xI1eK1aL8N7O6Po2yQ2R1STf9e,A7g1,R1,!Eo41G1Io3zS,CnznTo31,I1,!DO3Ro40S9t6T1,!Ao3eKjkcRo25S,C1No45,!BmmqE3I1Omww,Dhqp,!Bo2kCnzzERmxlSTm8xU1,!DMjh7Ro46S,E1Ift4Y,!BixlEndzFkcjIo4aLmqiSjr0,SnykZel5,C6wiGjjc,!I2O1S,L1,!A1S,!TlxyWj0u,!Ao2tDFhkhLjfjR2S1,IkwuLnv6Y,SmjiZnfe,Eo4iI1,R1,U1,T1,Ihm5Ujwm,Bo4nMnpgRo4n,M9uUfb8,A2O1,!Lgb2Xo3y,Lo4aSnz2Znzx,!A2I1SUnz2,Hja7Unmm,!Rj79S,I1,!Eo50If8aS,R1,Af1eIo4rY,AnzyE2R1,!C7EatxHnwqK5T1,Ao2yEo3c,!AhBgCdFmk0KnmqLjj1MaNnppOo2zPo4xS2UnzcV1,Ife4,S1,E1Io4yOmysY,!Co4aEo5aIl4cS,Id02,R2X1,!Sgun,L1,E1,Eo3nR1,T1,!AnivEo4bIjcaSY,!Cm5jEo59,!DLo43Mmu1No0sRSo0d,Ahp0No5k,E2I1,E8e5S4T1,!Eo5eIngo,A1gC1eD1dE16G15IjKnwmNgOdS8T7U2X1Y62e,Eglb,U1,IfccLo4rUipf,C1DmozGo4s,!DSXo4y,!EnxmNkav,!EnxnIi41SY,Ijjz,Od0l,!Fke6Ldq6S,H1,!A8E7I6K5L4R3ST1YZo51,!Eo62Io60Rh8dS,Uj4y,Nfas,I1,Nkoj,E1Iitx,Ae0tD6J5M3V1,Ao27Eo4p,I1OingYnrc,Ikg2L1Tj47,Ra2i,H1,A5w7DnsrT1,Idsz,H51b,Rn2d,P1,A4E3O1,LnobR1,P1,Cnwo,I1,T1,Mlj6,AijtEj0rU1,S1,Unym,B1,I1,R1,EOh49T1,Cnw9DpGo5nInfoLmNjPcR9S6T1Vf2eWj5w,Lf45,Eo6vIo6x,M1,Alj5O1,!No08S,N1,Tj21,Ao0iI2O1Uo0i,No75Oo5d,Eo34I1,V1,A1,C9G5H1Lbp6,AgipLnykNiuz,L3kt,Tgx6,I2T1,AhE5I4Oo01Ra2eU1,CceuLo7d,R3kn,Ohyl,L1,A1,L5PduoR4Sb8jT1,Nean,E1,AOnxj,E1Im09Y,N1,A1,L1,G6L1,Co6tNj6n,Tcfe,C1,A1Go24,N4R1,Fo7vVnxt,E1,A3I1Omjf,BnyjTniv,S7ud,IngvS1,A1,Njyo,U1,Nn34,E1,H1,E1,Tnj5,R2U1,M7P1,Vnz1,I1Po3j,E1,Unxt,Co3mEo6dIo8h,U1,R1,T1,C6D5N7c2S1,Do2vIkutLj7wMaN1OjoaPmniRk05Un3m,Eery,Eo6kIo8oT5d0,A16EyHqIpLmO3R2U1,!Io8qST,L1,Do8qMo8r,Ao7mOo72,N1,A1,E1,Rfng,C1,L9nx,E1,AaE9Fh6fM5S3V1,Oj0,N1,G1Lkw4,In43,A2DR7cnS17gV1,Bnyl,!Ejr3IntsNo7mU1,Viw9,A88pEmz6I1Olmr,AnziEaI5O3R1,So8dTj5g,InyrUiql,Akwu,Yntw,O1,H3L1,P1,Obnm,R1Tgs0,B5gf,Rnrr,O1,C1Eo9g,!A4Eo8nI1LmkqSY,Ee8kIcd9,!T1,Lbst,A1Eo8m,!AiDhMcNaR5S3V1,Ao5vOo84,S1,A1,EiajLo47Ro47Tjr5,Uo8z,Mo9zT1,CglgR1,Aj91,AebiE6I5O2R1U17u,UnzuVo8i,Eo74Inup,V1,Enh8,V1,Do4iFnzn,A1En06O89p,Ao6bEevfIoab,D1,Eo1zI1,AaI8O6R4U1,Dj94Tnxh,N1Poae,Rkw1,A1,Am27Om27,A4E2I5evM1,Ncln,E1,Pe1v,Mn60,R1,Ef6aO1,En62,R1,!P1RmwjS,R1,E1,F6T1,DbMaN1,!Dny0Eob0IoayS,N1,I1,Ge27,D1,O3U1,Eix0Poa7,AoamE1IjqsN85p,EjrrOnhb,B1Id25Yg9e,EobaNj52,D66rR1,A1D,Eob9Gn6dKo1zTVo5k,Co37Do12,A6E3I2O1Yo4l,In4w,KobeR1,CmxhEo9cIobg,Do9vK4kNbpoR2T1,Rlfl,U1,S1,A1EbclT,A5E1Okxw,Mjkz,AjanO1,Mm4a,CEobiSmqp,I1Y,N1,A4Y1,Engl,Nn76,E1,Dj9vI1,!G5Ln95N4R1S,Kkdw,So69Tobz,C2Go6aIn71R1Tjry,IkycPo77,E1,C1,N3ymR1,!NmxwSToc5,CnwlN1Yoc6,A1Eizs,Idz6Sdzd,Co6jNo1oSo7gZo6j,!EocdIocbMmy1S,M1,A1,R1,Uf9p,N3vb,O2U1,G4N1,I9O1,AjEfLcObR1,O4b,U1,Ij0fTo6w,Lk3a,L1Ro5i,Kh2lO1,!Eo8rRmyhS,R1,E1,Ao31IncpYnxy,!AnfyEocxIocvS,T1,N1,E1,S1,E1,OlxxR1,Aj0sCcF9G1ccL8MblaNe0bP1,Uo3a,AhE2O1Ujbt,BobiIod7Lod3Yj14,Dj15Soc7T,Ao2lDLod5N1ST5hj,!DNobsS,E1Iod9,P1,A1Oodd,!EoblMn1vRobeS,E1Robf,!AnztEoc9IcziS,LnamN1,Eod8L3NodhO1SocmVoch,No6aTodf,Ro2wU1,LjtzT,Aj1iL1N3r3,Amp6E1O874,Ro30Tny0,EnjsPodl,CjzsK6r,I1Ulpx,A4E3OjtlR1Yjcf,Io35Socx,!AnElHhIcOaP7T2U1Y,!NocdRodrS,Aoc6E1Iodu,K1Un80,!EodoIodw,H1,C1,A1DNo6sRhnhUnsg,Ij0tOn84R8de,Eo5uLocmMo8aNkj3Tjcq,Tgbw,E1,OnslUju1,C58Lo60,S1,Co8gIl0eLoe5N1,AmttSodd,SbjbTnrd,A3E2InfsU1Yjd7,No8kTjdl,!Po8l,!AiBn7xEeHdIcLaO9R3SU2Y1,A6ehOf96,T1,S1,R1,E1,D1Io9v,AnrzEoajIoek,N2S1Te20,Cd2f,Abj8O1,!EoemIoeoTlws,T1,I1Onxf,OjdtR1,!A7xB7fC63D5hE4yF4pG4eH48I3vJ3pK3nL3fM36N34O2uP28Q26R1oS10TfU7V5W1Y2te,!EodoIoetSWk0h,!R1S,Eod4Rmd,Co2qEo6pGnlrSoe2,Ao8mOo8c,I1,R1,D1,N1,O1,H1,C1G73yMd6fSoavToaj,AoegE1r0Iof5,AnsaOllv,V1,!Eod3I9msS,EfHeIdO5R4S2T1YZ2,!AodmEo9cIklmOm7sTnkuUo01,!Mmk5S,N1,E1Ldvq,Eod9Z1,!AlhBofdCeuDdqEodaFdpGdhH2gkJdfKddLbjMbaN9sOleqQ9qR9gSnT6X5Z1,M5tx,E1,!N8yfSTda8,EoeeIjya,EofiIhqd,L1,C7g6,!B4Cn9fI2LnowO1Sdau,AofmIlma,!Bi1sLoea,G1,N1,!Aoe4Ej0aI1SUo0j,!Cdd7H5K1S,!EoepIjr1Ljw3S,!Ro0jS,En6mIodqO1,T1,Aob3EoduIofyMofwTo6r,S1Toe1Zob3,!EjmnI1LoelNobaS,A4N1,!L8Mog0R1S5p7,Ho94Tof4,!Cm1dF93jLb4nOnyrS1,!IarsLoeq,BhraR1Tnj5,A1Eog5IOUofz,L1S,!AkljE7I5SU1,EkbdFkbc,EogdIjiwY,!G1SUoft,IoemL6nj,Lgl7,A2E1Uoeo,!I,A1Eogf,EoggI732,R1,!Ehw0Fn3dLof5NobuU1,T1,DnhdEocfLjp2R5S1,AcffOodz,!S39s,!Lng0RmmuS1,!Aof2BjnuEiinIi2bSWde9Y,U7ca,!KnyeTd4z,!C2HdxkS1,!Aoa9I84gS,C1Kkxp,S1,D5k8,O1,!C1,!Anu4Ii4aSU4Y1,DNoflRogz,!E1Ioh2OS,Ioc0Uobb,N1,Aoc2E1Io7z,D1,!B1,!AjDiEfInk3L8OnubST6Y1,!Rkyn,!Eoh2SUo78,!A2LofwO1SUobj,T1,!N1S,AohcIoh5Y,!E2Ifz0M1SlbhUogkZo4h,AogrIo8q,H1Iodv,LcfiS,!AoguE1IntjNmrsS,Do3z,AogwCn04EohdSobk,!AogxI1SY,H1,C1Dogq,Eo44Ikfz,!T1,Ioh1Oofm,CbD9N8R4S2Tls1UivlX1Zntf,Aob8Oo5j,I1,Tmmd,LoghSobv,I1Y,R1,A1Ih3z,Bl9w,B1,U1,R1,Ekbl,!Bc24Eoh0G2L1M7ddSWk3t,CcLmjzRofbSbT7Y1,En57Roi6,!Eoi6L9pwOnzhS,Engc,E3O2R1Sohd,Aoe1Fnxa,I1,Hoa1MoibTo96,AohpEoi6Noif,!EoihI1So34Y,R1,Inp9O1,Ck7bEogeKo5kL6S5T1,!Ho4d,!EoimIoikPnlaS1,RognY1,!Hnlb,!E2FmaaHnlcIntpS1,Icgw,C1Mgvs,Ajst,BcdrPo9k,R1,Snjl,!Im2tOoh3S,T1,A1EoiuIjup,M1,O1,A6OnbxR1,EogwInzwOj1u,Eccx,L1,!SY1,QljjT1,!Ln2tS,L1,A1,T1,S1,A7jwY1,A72yTl0g,L1,Cmz7To0a,AmHfLeOaR4U2Y1,Elbt,P1Toje,Cn20Eoj9S1,An2f,M1,A1,I4R1Y,Cc62So6n,!AlnrS,L1,I1Uoj5,Ij3wOnmjY,M1So2r,AohnSofjTo2u,E1ImwaY,N1Roh0,AnyfEoiqIojv,!EojyIojwM1S,M1P6cx,A1,A8E5Lca8R1Ycdy,Xoil,IoavO1,R1,Bc9xD1,Un6aY1,Gkex,N1Tcab,!ImctSUnulY,G1,AjvcI3O1,CSoe9,I1,L1,L1,A1Eoin,Rob8T1,EluqInwg,H1,P1,LiylR1,Aay3E5Inm2O1,RokjTo3f,Smk1To2m,A2O1,E1,L1,C1,U1,Gohj,N1,O1,H1,EnzgIoknY,L1,AelsOcj9T3Y1,AojzOnp3,EokyInvsY,EoktSnahZog5,Eol0I1Y,D3L1,Nb9f,O1,H8L7O3RiskS1,I2m8,H1,Y8fm,Aoh5C2H1,Eol9InxxY,M1,Fnkm,I1,C1,E1,Lmx9,E1,IlsjLokk,B1,A1,L1,Pnt9,A1,L3N1,!A24oOePaT8Y1,Pjcp,R1,Eaza,Cm5uEolm,EoltI1OobsY,N1,E5H4IokqO1RacmYlba,U6co,T1,A1,S1,N1,Ak99Uo58,Glvm,Y1,!A3hB3gC2sD2lE2kF2hG27H22L1xM1mN1fP10RwSgT9U4V3Xo46Z1,Uo5e,E1,N1,G1,I1,!InkoS,R1,O1,N1,E9G1,Rcvr,AoiiO7r1,E2R1,!E9I4Ooj9T1,EokhIomlNk1y,D8kkG1Noln,!InzbRoh6S,IomfOomoY,!L1S,Ll4i,L1,I1,R1,O1,A9E8H6M1,Ljx0,!A1S,T1,N1,E1,M1Roid,!A5aDgq7E4wG4sI4kK4fOwSiT7U1YZmsr,!An27En78S,En7pOngp,Aomu,DYom7,Ac4xImevLjgj,G644KolmT,Eky1I1,EojoTon8,Ijs9Oom5,OomcRbcs,!Aoj8Cki6E3H2T1,Lon9Rong,A1Ol98,!BcCbDbecEaF9IjoaL7Pk94Qb88Rb87S3W1Y,Oi85,EofbNo83Son4,!Ao0yCmxsEonlF2Ho5uI1Lmp3SWk97Y,!Ck4dDi5xEonmIonkLhN4R1SohcToez,!DonjRnovSY,EoffNojkSnb0,EkyqIonn,!BjusE3I2OmxbP1SY,Nca0,!EonoIf6sLombS,!Snyq,Im91Y,R1,O1,!EI6L5S4T1Yont,Ljxp,DkvkFo6zL1,I1,Ajrj,E1,Com3Tk2a,N1,A1Eomw,!Lgr9S,!Qlok,!Eom1L2Olj1S1,!AnvtIoj4S,N1,A1Eom4Uona,N5lg,U1,B1Oom7,Cok0SoilTomf,!I1S,CknnN1Sny3,Ampg,L1,CmnsL1,M76x,AooiCN6ai,!EmrvIoffS,N1,E1,Tn0m,E1,Ega6,N1,O1,H1,!G7Lb6kM5P1S,!AdEcIbO1S,H1,OomsSoo3,!SWoow,I2O1,!Llc0,!E1,!Bjw6Eop4Iop2LobwSY,D8ckLojjR1,G8dj,A1,Aon1Nop7,Eon3I1,C1Fo71Sofw,!A6G4I1MjbpSUmda,!ERSTokg,A1,L1,!A1iB1fC1dD1aE17G14I11NjnqOyPhReScT4U1,!Aol2IojcKnb4LnufS,C1,I1Sk1g,Ho02,Vgt4,A1,SY,!E1S,O1,T1,EopmI1,U1,!Be1nEojsIjwkLnurOY,!E7aiLoocS,!AcCbEj2xH9KopqQ3S2T1,!LoprSToprY,Uiot,Oom9Uo74,O1,AmriEnmjIn0zY,!Bjx2Eoq0F4H2IopyL1SY,R1,!BhhnE1IlicLnv1P8vgSY,!AopcEoowIoq1Lnc9S,N1,EonzI7urOooc,T1,!DLeaeS,CNoq7Too8,A3E2I1,Foh1Lhm3O6V1,!Eoi2S,Y1,E1Ilin,Rn9g,U42g,E1,Inq1ObhoUkid,DokpRoqe,L1lj,C1,A3Y1,Com7Nob5Sn4mZo1f,Aok0Eok0On05,Rhux,!B8C4DmgyEoqpI3LodhM2ST1Wnar,CcNaR1,!EoqnLohdOoo1S,!ExHqIiLfMmywO2ST1,!Eop9IoqrOooz,H1,FofpLom5,Lop7,!EissIiw2SY,Ao4bD1IoorToib,!Ejp8OoguSbt2Tnh1Y,N1,BopcI1,K950,N1,A1,B1DRor1,!A5E1IoboS,Dor4T1,!Eoq1Fkd1IjqaS,N1,!DRor6STihvY,!DLod3S,Aka4E1Iora,Eor9Iolu,H1,C1,A1,E7IncoS5T1Y,Ekky,E1,R1,AldcInkr,Ri8v,E1,SndhT1,A1,!B6EoqjFl2qIjo9LnwpP5SW1Y,H1Oopk,CyEoroFxIwJjrqLuNlRjSbT1,!A4taDLndzMoqjRorpS,!Dmi3GgauMhsoOlyeS,E1NonrOlyf,AfefE3I1,!EoqqIocfNS,T97j,R8fe,A1E2,E3OorxZ1,!AciBcdCc7DbrFbqGboHblIbeJbdKor1LasMalN4yO4gP4cQiupR2nS28T1aUaV6W5X2zlZ1,Aeu3,G1,N1,A1,D1,I1,!A7ywEorzLoqsNonh,Eos6Iezg,G1,A1,IosdUos3,!O1S,DnroL3N1,Mhwp,EosdUnm5,!A2EorbIjp1L1R76aSWmj3Y,Afqh,T1,U1,E94wO2beRlhc,AmswEIooe,C3Io0uLmrxP2RoskS1Uose,AobcEosf,!N1,O1,HjIdKaLjziO4R1Uorv,PnegTosp,A1,!DHg2nRosrS,E1IosuY,EorqI2oiL1Yodz,AorqOnmh,ImklL1,Pjcw,AnmpU1,CosvOon8,AoszO1,I8x1,Dos4Nhx6,I1,!InfbK3L1Tos4,!CeDbF9Gio7Hl47LoszP7R5S1,Zoat,DoatNm1aSnfbZ1,!DRnenS,E1Iota,!EotdIokvL1S,F1Tot9,EoooGotbS,Eol7LorzN1,!AoroEny7I1SUoroY,Olf9Ufda,!Fl4jG2SW1,EmbmIomx,D1,Embo,D1,E3I1,H1,A1Iotj,LgymTgym,Tet8,HolfTotq,AotqEogu,!DST1Yotr,Bn09,E1NotwSljw,!Hol5S,DIorsNotvRotvTotvYotv,Wnhw,A1,NotyT1,A1,G1Nou3Olg9Tot3,Ci12,!A8E7I2O1S,Mo3e,Hlz9,T1,G4d7R3ToozU1Xoth,DK,Ll41,E1,R1,N4R1,!AkhcS,N1,O1,I1,L1,L1,Chv5,N1,A1,Iojo,AbI5Lex8R2U1,!Bmdj,M4d0R1Uj94,!EoutUkiu,L1,L1Nnp8,Bjgn,Noub,Cnpb,A1,IoodM4N3R1,A1,Moof,OlnnU1,C5fq,U1,D1,Nmd0Roce,Ao4eL5Mje3N2PotrU1,Nlry,E1,IotnR1,LjdtR1,AlEiHcImd6L5qvO5U1,S5qq,N1,E1,Ejco,Aoq6Eove,N1,I1,L1,P1,I1,C1,A4c3M9R8S1V4br,M484,Uovq,I3O2R1,Onax,R1,T1,C1Moj8,E1,Ynqc,O1,L1,P1,Ym86,GohvZ1,L7M3N1Tkv1,!Io8f,R1,O1,Eo5eT1,C1Mm56Rkti,Am0c,DL1,Mnvl,CovlLowdR1,U14,Q1,E1,C470,N1,AaI8Lmd3O6R3U1,Rm6o,E1Iond,N1Rotq,DouzIoug,A1IowoOjwk,E3R1,Po5x,P1,A1,C1,I1,D1,N1,Sjg0,EowyLowd,A3EezhO2U1,Af1r,R1,E1,NovfT1Yh9q,V2r,Ujd0,EG1,N1,Bo6f,A6E5I2O1,Nnrk,ToslWolx,A1,Bnrr,DopqG2M1T3rc,N9qr,E1I2y,L1,L1,Ekun,D44lL1,AbE7I3O1,N8ao,O1,I1,T1,Mnz5,RTogj,A1,E1,L1,C1,A7O6U1,Sm85,A1,G1,R1,Ense,M1,CoweTowf,!I1Y,A3OoltT1,GowiNo7dR1Toxq,Tmgz,Ack4O1,Tm5s,C1ElrhOornS3,NoxcYnsp,!EoscIoyaOowj,!SToy9X1,NouqTlaw,A1Iou6,C1Eosg,A6E4I1Yojj,AkmlE,L1TagbWnsx,Lmk1,U4es,B2CezjD1GelaNjnw,O1,Phxj,R1,AkEov2HiIgL9O7R3U1,CmcbNbua,I48k,GmbmL1,A3E1Ootj,R59,EOotk,S1,N1R489,Do86ToxbZoxb,Ljmv,I1,Rls9,U1,IoytTmb4,C1Eoz5,E1Oeaf,GoxjToxj,M51P,Io8gY,R1,A4E3O1Rg97,A26h,L1,L1Smku,CkEhIgKeOcP9T4Y1,No8m,E1,L1Siwq,Rhz4,NotaWjlb,Lbo2,Akf7I1,Noph,EozkI1,D1,A8E7IjlhO6R4U1,Oot4T,I1,Eoia,N2S1,Boy6Toy7,A1,I1,Lc6xR1,TnjlUmc3,L1,A3EltfI1iiO1,Ap02,E1,H1,Gm6s,N1,E1,L1,E1,LozjR6V1,A1,A62B5mC4zD4kE48F3tG3nH3dJm47L33M2rN2gO2cP1mR1iSxTmUiVbW1Yk1d,I1Uoz9,A6mBk9rC6lE6jI6hL68T1,Lhzl,Hi7r,C1EoyxFoi8Np0g,!EjkyI1SYolk,!B4M1PorwSUp0f,!EoukIlb4Koi4,H1,Op0iUozp,G1,N1,AgcfU1,!OohxS,O1,A5jn,P1,I1,Coqg,I1,!C3F1MoznSTeo1,IgsjJ8ct,!CeDaG8I2Now3Sdw4T1,N6da,!EilrLou2S,DEp0yRp0ySp05,!E1Ip11OoqyS,R1,E1,!DIoyzSXp0a,AjkgC8iDp13Ngo6,!EoszImrjLozrSY,!Ep02Ip17Oo40S,R1,U1,!LnuoSYp18,Ap19Ioom,!AmlxE2H1Io47SY,AeDaE9I8K7M4PmkqR1T8wc,Lp1cTp1c,E1Ip0f,Ioic,!D2ER1Tbyg,!Bou5DS,E1Ip1jY,Vod7,RmrsToc3,Ely9,L1,E1,K1,S1,A6O1,L1,AcIoy7LaO9U1,!DFnonOjaeRp1sSTowrUow2,Ojwz,!EovyIkdsR1Y,!Ep1vIicqLp0iS,L1,!Lp0kSomo,N1,A1,!A4I1OjamS,C1Nk18,Ubxo,L1,!Eop8Rp08S,Gp25L2T1,EkfvLp0tNoxiTp26,Eor5,!E3I2M1Rna4SY,Ukie,DLp2aS,!E1Ike9Y,Ep0aI3f0,H1,C1Non1Re44,DEp2fRp2g,!A2E1Hp2gIkeeSY,!CqEpHnIgJo6nK9Lok5P8bwQ8S6T1,!EoyaIm9kS,N1,E1,BnzkG1Np1hSp1oT7ka,!Ep2gKoka,H1,!Dp1aLp1bNoy0RSoxl,!DEo8wS,E1GI3ndOospYonw,CoqiLp0kN1Sox1,Hjzn,!C1FmuiSY,N1,!Ejm1O1S,L9g9,A1Ep2gLmoe,!AdCbEaI7Op0vST3U1,Uord,M1,ImtgLotrY,Hk34Jk34Z1,!CafD9zE9xF9tG9oHnl5J9hK9gL2tM2oN28O27R1sSmT5U3Z1,H6xp,Ep2zIp2zT1,LlbgS1,AfggUp0f,Ep38I1Oor1,Moc0P5p9Zmnk,O1,L3T1,Imw0Oor4Y,G1,A1Iol7,!LSTo3n,A1,M1,S1,A1,H6L1,Zn3x,I1,H1,R1,IoulOnyb,BeyoF7nmLmniP6R2SozjT1,EgO1,Am35,I1,R1,N1cv,!Aod6Ep3wIousS,N1Tltp,Bnax,I1,Em6j,F1,I1,L1,O1,AnhxR1,B9gfCg2mF7GlcmIp4aMocxP1,EcIaO1,L1,AnjfHh6d,Db2a,R1,N1xe,O1,A3L1,Tnrl,C1,E1,L1,B18hL8d,I1,Eoj9LgoqRmxo,Iagf,S1,O1,DN1,Gok6,O1,Umgw,E1,Ap4uCp0jEp4o,AninEp4vI1Y,Np4wSToh5,Ep4xIp44,T1,CmqlEp4tI3O1,Mp43Noxw,IosqO1,Bn9xCoEkFiGhIdLbModtN9P7S3T1,Dp53Po7v,A1Cp48Oiq8,Ii2v,H1,LjduP1,O1,C1,E1I5op,Boti,I8M2O1Rni3Ton5,!Ip56SUp4gY,G1,O1,G1,Roiq,!AoyyIowuLp45S,Iol2Ydex,C2F1Qm61,A5E4I1,E6r9Ip22OoysT1,!Aoz3Idtq,C1Eoxj,Hgy4,P1,A1,R1,CnoeEp5nSp4pZowj,Ep45I1Y,G1,O1,IoyuTnt4,E1,O1,G8IL4M3gmP1S,!IdMi6zO1SY,H1,Dbmg,Cn97,AhrwY1,CodrIp6aM1Voeb,E4O1,!A32C2hD2eE20In0lLnbzN1zO16RwSmT6X1,A1shB6zlE1cgHp0uIqwMNquOebRe5U36Y1,Rp4eSp5h,!E1Ig7mS,B1,!BkmoEp6dIp67O1S,Ap68Ep68Op6e,!DOou7S,E1,Ekk9H3R1,Ap6iI4p6,IOoucUp6d,!Tbg1V1,Ep5iIgviY,!Anc9G1S,!Bjc4Ep5kFheoHom7Ip6pSktf,Skfw,!Lp5cNp21RSp1mTp3l,E1,A7aoFp6rL4N3Ro6zV1,Eksm,RlvbXp5u,Xp5v,E1,R1,Ep3dO4T1,!Ap5cDLdwkPonvRp6yS3nxTcqz,!Ap5dE1Ip71,Ndgc,I1,L18q,P1,Ip67O1Y,No4c,H1,C1Smdv,E1,Gi82MoubS9nrT1Wovz,!Ap7aCp46D9IoymK3q2N6O1S,Log6,!LjycS,A1EoobOp6wYaj2,H1Op6x,T1,Lgze,Ep3iIh01Y,Ahsr,!A8Eln9H4Iel3Kop7LoufO3P2R1S,!Soye,I1Up6s,Mp7mS1Tp7m,S1,Sp5sTovc,P1,E1,!Ep7rIp7l,CoktZp23,I1,!L4S3T1,!EjymI8O1S,Enn2,L1,HopqI1,Ap7cCNp6fS,LjgnRp80,Ep42Il41O1,T1,Sk8q,A1,!Bk41C1EnpiIp87Lp6sNp3hS,W1,A5O1,H8y1,An0j,Ap7tH1,CgDnqpEp85GdIcKj72R4T3W1Y,La36,Ep4w,Aaub,Ngam,Y1,R1,A1,H1,G6P1,CEkaiLp78Np3x,Tncz,R1,I3U1Y,AdCcIe4uO5T1,Ig1cY,R1,Ip46O1,Lo86Ngo7T1,E483Lovq,!IfrzLp7iS,L1,!A1HoboSWm9t,N1,Ep1bI8qs,O2V1,Em8e,Mp92R1,U1,LoktNp94,I2O1,EofdImzlY,!IhyoLp7uNp4jS,L1,Tkz4,A1,P1,A4Ep7aIp3cO1,R1,AlCp92Ep98HkIeR9T8U1,H17q,Ap11Ep9a,I1Y,H1,C1,A1,Ib1b,L1,!Np8jSTnz4,A1Oozn,E1,IOodwUp8x,Com5L1,CnvpI1,GeM9P7S4T1,Ip6aLp8gRp9u,!Lp9vSTp4u,ElvrUhmi,Ep7vIjg4Op88,Bo6xT1,A1,C4Ep9uG1,A7E6I1Vp85Y,!Am01,!Akl8,!S1,!Fos0S,I1,!Ap84B3uC3qD3pE3nG3lHI3gK3fL3aM38N2xOlezP2oR1wS1iTtUeV6W5Y3Z1,!HnkuI9ve,!Bp8wEnrmIpabLknfNp5lS1,!Eo3a,!EionH1Lp8yNp5nS,PpacR3T1,S84p,I1,Kgne,N1,Sp0wUp0h,Aoq7EIiwvO1Y,L1,!B6E4SU1,RnzcTp2k,A1IpafOp0lY,T1,Ang0I1,S1,S1,!C7d9S,DR1,Ap6wEoxqI9ic,!BncgE2IovgL1STjvuWkbz,Ch3aTp6c,N1,A1,AnraCSp58,I1,L1,Ab1hI1,IpawS,E1Ip95,L1,H4O1Snq3,CZp4g,I1,LjjvMbP3Sn6wT1,O1,!InpyOoz2SY,R1,A1,EnKjR4T1,MnzzRj2v,O1,!DFn35LogjPh9zRpbgS98dW1,E1Iow3,!EpafFc4yIkngL1SY,!D1MpbjPpbj,Rj71,A1,NpbpSp2gTp9q,Eo2fI1,NpbrOp8gV1,NpbpRpbp,Ep7rI2O1Rp74,T1,Tj85,C1,!EpbuNp83S,E1Io7b,G1,E4I1,Bp2jNpauToez,A1,I1,T1,Hooc,Ip8jNpc2P1,Ig76O1,AeL8O4R1Upbc,RiobUoid,O1,!B1EpccIpcaS,H1,FpcaG1SpbfTmz1,Tiz5,Ml5f,Lke5Sp7rU1,!Ip0b,C1,Ip0dYp5m,C1DpbkLjl4,I3O1,!ST1,Ep9rIpbm,T1,R1Sp8f,A4E1Oc4i,!Apc1Ip6o,C1,I1,S1,S1,A1,Afqh,I1,N1,O1,Sp78Vpc1,I1,T1,A1,V1,R1,E1,S1,Clwo,ElwmI1,T1,LcN4R1,LhO1,Mnho,Y1,E7ne,B1Tnq5,CEpd9Snwg,I1Y,G1,I4O1,O3gcYmg4,Ap70EpdkOn64,T1,!A1EpdqS,O6yi,D1,O1,H1,T1,R1,Lnu3,I1Yp8t,Cfrj,I1,Ipd1MpdxT1,S1,A1,H6L1Rk50,Lam7,A1,E1,Gnfn,I1,T1,NotnRp1v,Pocy,O1,E3R1Ynz4,C11DzLtMsNpOjPbR8S5T1,Elv8,H1,T1,N1,EpegIn1d,N1Tpdk,Mkkq,I2O1,L1Wpek,C62g,EpemIh1o,CDofhSp8xT1,EpeiIpeiToiw,Ip2eO72i,Ln7bNpeqPnshS2T1,E6I4O1,E8Ob0xR1,T6ct,Uibi,EgH3O2T1,Ib22,Lo9v,Ef9eGpey,Ep6uLpdmN1,Lpe3Rpe3,AokaEhoyI2O8jmU1Y,Dc9iE6IotoO5T7lsV1,Icm6,Epb5I9z3,!ApdjEpe2Ipf7L1OpdgS,C3SpeeT1,!Mo81Wdrt,R1,E1,Il8t,!Unp0,!ApdqEpe9IjklLeloSY,R9ow,O1,!H6LkgdM5Op08S4T3W1,!Aou2EpfgIp6cS,!Gp8dLpe4,Eht3,H1,T1,L4M6ydS1Xpaz,Mfae,M1,E1,CpfpDpfiSpex,I1,L3NpeuT1,Mlar,O1,T1,A1,CmtdN1,IeovL8ai,CohiSjsw,I1,M1,E1,H1,Nc3,E1,G1,E1,EOjot,N1,I1,R1,C1,O1,D1,N1,AOnfv,!ST1,A1,M1,IggcO1,R1,B1,I1,Ifbf,Ebb9L1,Oknr,M1,R1,M4zf,O2U1Yop5,Pp4h,E1Okvw,Aoh3Ui1m,!ApgaEpgxIp7tS,InthOh1oY,H1,T1,Ch1q,A1,M1,R1,A1Ybpe,Ro4v,T1,A1,I1Ojpv,H1,C1,Y1,AdE9trH8S1T6rc,Deqb,A1,Ijqq,Eoo6,R1,C1Na9mS,ApgxC4E1IpheP2d6Uepx,SoclTp4o,I1,M1,S1,N1,A1Omrj,Ilg3OedfR1,A1wB1vC1qD1mE1eF16G14HzIphwLxMwNvPfRdS8T1,A28I22O1Ujjz,L35m,Oo9p,N1,Ily2,H1,Np8uP1,A6I4O1,Eoo8R1,Kpi2M2mR9Skw8T1,E4hc,H1,!MnsrT1,!R1S,E1IOp60Upi1,Lpi8RSphd,L7is,G1,N1,A1Opb2,!Wo5w,Y1,Robu,A1Oet6,Oo2oRkf2,Seyp,A1,Aes6,E1,AcggOkl4,SpihTp5q,E1,Gh8iN,A1Epc7Ogrr,!EpivIpitMo7cSWo0p,R1,E1,P1,ApisOndrRok0,A2E1Rktz,AlchEpig,E1On9b,Tnkl,Mo7lRjm4,EjnpO1Rkjn,!AlwqBlCjDhHgIeslLeMcP6R4S3W1Y,!BntfCg6lEvFrI86fLpMnNpefS1Td5r,Omo9,!D1,T1Upid,!A8vB8nC7uE7oF7mG72I6xK6wL6uM6kNphnO4wP4cR45S41T3sU15V10W4X1,Tgl4,L1,U1Wj89,!Ap1cS,N1,I1,C1Lp1e,EpjjIpjhLpa5,CpjdKphw,I1,!B3L1S,!Lpi6NpevRSpioTphn,CFno3Npjn,Dhbj,!EpjqI2Lo5eO1S,DL1Rpjo,CpjlMpae,A1,!E3IpjsLpe1N1S,!Ap1sEpjrIpanS,AnpfN1,I1,LpjuT1,Tpa3,Apa5I1,ApgdCewaEeHpe8K7O3T1,!DRmbwS,Ip1vUbafYp55,!ClxaF1Npk3,ApjeE3GodhI1Upj8,I84vOpk3,L1,Cpj7L1Vpj7,Ikam,D1,Ekm4Lpiu,I1Y,E3Fki9T1,!EpkeIpkcLnvdS,D1,R1,EpgeIkjj,A2EpipL1,OkiwU6y2,Ap59L1,Loe3Okij,EpkiN8xk,Ep7gI2xmOpklY,EpkkIo7z,R1,A1,Ap65Im6i,AnmbIoeg,!Cn6bH2Ip67PnsxT1,!CaDgohFlpvG9HcijI8Jo3dL7M4S1Th70We4bY,!Eo24IpktNpg3ST1,Ifl4Oovz,GfH2R1,!I92nS,L1,I1,IpkxUpkx,A1,A2H1,Tp8g,O1,!G3Lpl3P1S,Tntv,S1,ILib9O1Ukzj,Eph1Op8y,!B2I1Mo6zRonzS,Pa8x,O1,O1,P1,M1,O1,EbyeIbybY,!BplaFbyePp33ST1,!H434Iowk,IplaY1,Hpid,C6E4HhbqJpknN2OpjgT1,ApgjIiktOp9c,B1,EpkjIjiiLp3pY,!AplnP1S,Anmd,V1,EplpIUplk,Hk6r,!IpkvSY,!R1S,DNny1,Kgrf,C1,I1,CDghtFp1gLpczTpl1,Ngfy,Eb6y,C1,Y1,E4L1,Rel5,A1,!AnnpOYplp,!BhcrCi8pFkciG4Lp5bMhcmP2S1Upm1,Apk2Epm8IaO1,!CiEgIfOpk6PcR1STkzfWoic,AplnEpa1,!Epk9IkoyY,Mo2q,A1,A30B2wC2hD2dE2aF25G1lH1iL1cM17NvOtPrRpSoT5V4X3Z1,IjkoLpd5Y,!Mob1NphsRS66lWo4e,E1Y,!B3EknvIpd4L1OnzmS,Pn00,E1,C1,Umvc,B1,M1,!Apg5EpmpS,N1,Ipj7LpluOpakR1,A4U1,EpdhI8KpmuT1Unt9,EplrIlxiLph5Y,!Cpm7,SpdbUpmq,RTpi5,A1EpmyOpaa,L1S,!AlscD6Epn0I5O4SU1,Lpn1Sbc7Tp65,!Epn6IherS,!G1S,!Ood2,!DLf7gMio3STpi4,E1Ikz4Ol9dY,Lou8RoyaS1,!Do15Rbb0S,Lpn2Rpj6,O8jeUmpo,T1,A1,L1,!C1,!N1S,!L951Tcmh,A1Epmk,N1So6j,Homd,GldcILonbST1,!AdBcE6I3O1S,Amnc,Apm1Epmi,B1Pn15,R1,A541,R1,O3T1,R7S1,P2pq,N4w2,U1,Iox7,D1,E1Upnb,E6O4R1,Vms6,E1,I1,Ibwb,U1,Npo9Opm3Voxf,I1Opmi,An76C8H5IdmiQ3T1,!In1sS,T1,C1Tk1k,I1,Emo3,Bo3u,A1,RpbkSojg,I1,A1zD6H5I3Jh3fM1Updb,T10,S1,Ioxu,L1,Upc3,I2L1,F1,!NpluS,Sorx,S1,E1,R1,Tk3,L1,U1,C1,I1,EaG6OpmxR1,Hhe9,O1,G2o5,Ep3sIpg0,G1,Lp8aR1,E1,Boo2,A1,H1,Nnbg,I1,M1,CcIbL7P4U1,Ghvj,I1,B1,LnovTmzt,Nmqa,O1,G1,Gmsm,O1,L1,O1,P1,O1,R1,Imsy,B1Gncv,AaH3I1,AeIbzySkjbT1,Rgg4,A1,E1,P1,Ap4nEpds,U1,Ro16,A1,R1,T1,I1,!SUpp8,T1,C1,E1,T1,I1,H1,Umul,Sn80,ApovBaC3G2I1On11Tnez,Ioqt,Rn40,C1z,E2O1,Mppa,O1,N1,O1,R1,!Cn0lP9S6T1,Ep6y,L1,H2px,C1,ApmyEpp7,D1,N1,A4E1,H7On1cT1,Impd,!In15S,R1,O1,Epr9Ipi1,T1,A1On4o,M1Nnpk,H5O1,D9T1,!B3iC33D2tE2rF2mG2bL1xM1uN1fP1bQ19RuSkTbU1V5a2,Umw5,T1,I1,B1,C54aNkfgR1Spak,Ilqd,V1,A1,FprkVpeo,E1,Rffo,E1,G1,I1,I5L1,AmrmH8IpcdL1Tn5q,G6cd,O1,I1,L1,ApmoDpl6,Dcyh,A1,R1,G1,E1,Pmyf,A1,R1,Cp4jSpr1,I1,G1,O1,D8G5L1,BfNeO1Tplk,Doe3,DpqgN1Ops9Tmw5,Kg3rTmwu,A1Ejop,Cnxb,D1,A1,Apl9E4O1,Lfe9,Npfg,I1,I3R5ttS1Yplw,A17EwIdLnz7ObR5U1,Lg42Opbr,Lg43Rpgg,E1,Do82,I1,B6ls,I1,C5D3N1,Amuu,T1,I1,Igrr,Cn8jD1EoniRl4s,HUpsd,Bb62KpmcLeM5beN7P4R2S1Uk7i,ApoaIpoy,R1,B1,ApcfOl3b,L1,U1,E4L1,Tn5e,Cp2kEptf,I1,F1,I1,T1,!L7N6R1S,Sn41,Ald5I1,In1i,V1,LpinR3U1,Lpp5,O1,MandN1,O1,!Gkuw,H1,C1,R1,A9Eoi4R5U1,RTpn5,A1,L1,U1,C1,Zpcd,I1,R3T1,Todt,S1,E1,D1,CptjFh75,!Epu2I1Rl59,S1,N4S1,Roim,GIpt1,N1,Gn22,A5E4I2O1,Cn7y,R1,Nn7y,E5bh,Cfjl,N1Tptx,EpumIp59,Co7yG1,Nkvt,E2I1,Aoo3,!EpuvF1S,R1,AL4O1,!AptpIn8d,T1,Tgl6,S1,A3U1,ApofEpv3,MptuT1,T1,Ipcg,T1,A1,C1Spu1Tpt9,I1,N1Tc41,E5orI7U1,Rk8dT60c,ImtsOptl,T1,I1,T1,N56a,E1,M1X,Ao9pCp4q,E2I1Ymng,SpinUnx6,H1nfS5zn,E1,!I7jw,R1,E1,T1,AhEdL8O7R5U1,!BtMjP1S,PfkoRptp,!R5xdS,R1,E3L6ahU1,N63j,IpdbOpu8,T1,C1,E4IoqbU1,Dhb3,Cna1,I1,!Aps6Epv1IgaxS,M1,R1,Tfzc,N1,O1,Efh1I9L7O4R1,R7o,Gp5l,U1,Sn2d,Alqx,V1,C605N3R1,Dp5r,I1,L1,Ukd1,ApvhI5axR1,EpuyIpwpPozs,M1,Cp05E8O5T3U1,CpvmGp06,Rnku,O1,P1,M1,GpkbUpkm,Gi30N1,!Upw9,T1,Id4u,C2D1,Umvd,B1,ApvhEpx7Ipx5,L1,Spwg,R1,E1,L4V1,A9I7O1,AkEgIeR1,T62e,Nna8R1,E1,C1jD1eF14G13J11Nlo2SpT4V1,OpqjVpvv,I1Opvr,T1,A1,R1,E1,P1,Ahcg,L1,Bpw3Npib,I1,D1Snb8,EneyO1,PnahR1,RpvxY,T1,N1,Ebt9,E3gG3fH3eI3cKpr7L34M26NjOcPaR5U2V1,Aklx,I1,T1,N1,E1Ipx7,Ac6yD1,Epy4Ikh0,M1SptyTpwt,Smt2,S1,S65l,E6I4O2U1Yf66,Vefp,I1Unaf,IijhT1,Lnam,U1,DpxqMplj,O1,T1,L6M4R5fgS1,Lolq,C1,A5jE55H4rI4jL46OoRcU3Y1,IpteNbxp,Sprx,A1,E1,Ec7IotqR1,BppcVpx7,I1,T1,C1,U1,NolyR6f8,E1O7u2,En3r,N1,A73Epxg,E2R1,Gpu0,Qag,BncfN1Vmv9,E3I1,A9m0Ongs,Nncw,O1,I1,T1,A1,N1,I1,M1,O1,Tmw2,R1,ApxwIpzk,T1,E1,So2i,S6es,E1,A7Efy4L4O3R1,Pbf,I1,R1,C3af,U1,R1,C4Efb8T1,Iad,M1,R1,A67bE1,E6vqIp6f,C1bD16F14G10LwMvNmPdRnbgS6T2V1,Zgbg,Y1,U1h,A1,Bna0L3P1,U64a,F1,N5gg,E1,Lmps,OndbVpys,Eq0hI1,T1,C1,E1,Loo0,B1,Opb2,Nhbk,I1,M1,E92dI1,Rn0e,L6Ol2iR2U1,E2,Ue8,Nfnp,I1,AcC5Jcn9P4R3T1,Fhdt,I1,S1,R1,E1Ipq3,AuDau0FsMqPpRkS6V1,Ajc5,N1,I1,OpzfR1,Tnp8,N1,E1,M1,T5U1,Ecc7In2q,Mpry,C3GnbwLpkjM2R1,Nlj2Vpoh,AnbyI1Uq1h,Rd7z,A2uE1fIgO4R2U1,Rl6b,Smw1,A1,I1,S1,E1,L1,M887,O1,N1,C4O1,Bq07T8ee,Cg4y,I2U1,Cndd,E1,F1,Lp9jNppm,ImsnO1,!Eq24IplmR1,T1,C1M6n,An4cE1Ipku,Gfn4,R1,Eq19Mq10,Y1,O1,HohpIn8cL1Tq0w,E5Onf6P1,Lpbk,U1,S1,P1,A1,Gq13,R1,AjdnMq1c,E1,C1,R1,O1,Ejoh,E1,N1,An6uI1,Tci3,R1,E1IpyoRq0x,M6ns,Y1,ChDpw6EfFaG6T3Z1,Bbnt,I1,Lda2,A1,L3V1,Aq2lI1,U1,Sca,I1,L1,B1,R2c,A2E1,!S5zfT1Uop6,E52kIq20Npmf,!H1S,Unfm,L1,A1Eq2aIfsh,Un36,L1,Unf0,C1Mljc,Cq2nTj2x,N1,E1,T1,S1,Dgf3,In0cTq3q,N2R1,Nn23,Ap6yInhc,T1,I1Snfe,A4O1,E6L1O6j3,ChEfIaOpikP1Tpul,!A2iC28D25F22GpykL1wM1pN13QwRndjSpTnVkX1,!Oq2bSUq3c,T1Ung8,Lgef,I1,Mmy8,Npxf,E1Y,!Aq3kT1,C7DpxiM5Nq48R4T1,Ac7u,R1,E1,A32aD1MatRo8w,Un6w,Ncnd,E1,M1,A1T65r,LNod7,A1Ipna,O65r,I1,S1,ChheGaL6N4S1,IncwLq34,B1,A1,M1,M1,Wn4n,Eps8,R1,EfpxIq1cO1,A5O4U1Ypy7,Aq3cUq3y,T1,I1,E1,F1Mq4e,Iq4g,S1,Cq4hOq59R3S1,Rn6r,E1,T1,Zpyj,E1,Vmil,Znni,A5E3I2O1,Ln9k,L1,I1,F1,Aq4vIq5k,N1,O1,I1,T1,C1,Eq51L7N1,A1hE1dI12LsOkRcU1,Mq46Soj3Yq5q,EpkdIn2g,Tnbv,E1,M1,N4O1,Tn8m,E1,M8qhRq4e,A1,Cq4p,O1,C1,O1,R2ac,E1,LiyvN3V1,Eq6bUq15,An0r,M1,I54b,D4M2NpphV1,Rp9s,A1,AnbhEpzvG1,Iq6hTq63,W1,A6E3O1,EpzoIpvb,AtEoHmLkOdR2U1,Npft,E1,G1,O1,Elbi,P1,Dq5dMc4y,Dpui,R1,A1,L7N1a3P5R4Z1,EOc3s,I5hs,D1,E1Oq66,M4R1,Nq5gRq5o,O1,T1,EndcS1,Eh56,Obxl,Xm20,E1,G4L3S1,EO1,Mnk8,L7vk,A1,T1,I1,P1Tp4h,M7R6S1Ufyy,Tmtl,Mp82N1,Cnhb,S1,O1,R1,Endq,T1,G3S1,AwErInOaU8Y1,Cq73Tq5v,I1,T1,Aq77N1Oe8,E1,Tnk5,Gn8x,I1Upvb,Rk9u,A5obLlymO1,Ad3oI5M3P1,M6l4,L6mpR9eU1,Nfx6,E1,P1,GmgnV5mq,Lcm,A1,I1Y,R1,T1,CnluS1,E8I7U1,Opw7Vq6v,Eq8kI1,T1,C1Sphs,Aoda,M1,M1T9ac,A1EkpxUfxp,E5L1Okgz,Ie6x,T1,Uq3i,Cb0z,!I1S,T1,C1,Lnjx,L1,No,O1,I1,T1,U1,T1,CnlzMn5q,U1,A9I3R1,Aq58Eq9a,R1,EeT3U1,Tm43,C1,E1,L1,Ipg0,T1,C1,Egku,G1,N1,A1,H1Ofal,Edj,Nnmr,E1,A9C4Eq2uFfueS3V1,G5fLdR1,Annp,D1,I1,M1,Nq8zTq34,A1,C1,I1,X1,EaI6O1R6jUnnf,Ec4b,V1,L1,An9tO1,C21D1qF1hI1fJ1eSwT5V1,Nyy,Dll,GpjgTc,A2I1,Oq3qR1,Snar,D2gLcywM2aN7O6R2S1,DpxgEq8n,N1,I1,Gn71Ioj4,IqaiOq8rY,Iglv,C1,I1,T1,D6R5S1,O8U1,Snxe,O1,Wp4m,O1,D1G2ld,BnfxN1Wllx,Dpk4Fq9gGnjo,Mis6,Aqa8U1,Hqa8,A4G2T1Xq9l,Aij1,R1,LRpad,A1,Unbt,E2G1,Upfa,LRq9sTqa8,A1,R1,E1,Eqb3Iqbb,BbFq9qN7Q6T2V1,CpcvGq9z,Mj7x,AlEgI3O2U1,Ed6p,R1,T1,S1,N1,Nq26,G1,I1L25,MqagRqax,E1,G1,Ujxj,T1,C1,A1,Aqb6F1,!A6U1,In8kKnfu,!Ine5,L1,A1,I1,R1,AqbeIq98,C1,I1,T1,A1,M1,E1,C9w,I1,EaH3R1,Gpb4ItJovlLqNhRgT1,Foz7,G1,N1,I1,U6ss,N2S1T,CqbuSpr4,I1,N1,A1,H1,Bgx7,!Tqc0,Uqbz,C1,!LpvvS,Oniv,H1,L3MomxP1,I8cg,L1,O1,!P1,Ip07O1,A6R1,AkCfDqbpEldoMeNdRbT1,Bqcd,O1,R1,Nqc1Tohx,A1,R1,Nqc4Rqbv,A1,T1,I1,Rnll,O1,CaG7L3Mpc8N1,Rnga,A1,T1Y,Aobv,G1,E3O1,R79v,Ia2hO1,BpapDqczL1g8N3RqczT1Vq6x,Pqd0,I1,C1,I1,Cknx,I1,N3S1Tpk9,I7b,L1,E1Sn8g,A1nExIkObU4Y1,Rnpg,OkwwVqd3,I1Unq5,R3T1Vqde,So3h,E1,I787,T3p,AnroL2O1,Onaj,W1,C6G3T1Wqe4,Gmmr,O1,R1,T1,Mnqo,R1Vqdy,Aj2x,E1,L1,Ek9,I66,T1,I1,R1,C6M5T1,AoEgIcOaU1,EIq40,V1,I1,T1,C1,E1,C9tdE64d,Ep20J2S1Vpie,Pnp7Rfzq,U1,C1,Ionr,F1,CNqf7Ons3Vqdk,I1,T1,A1,R1,E1T5pj,NpyeSnpm,A1,Omme,D1,O1,H1,G5T1,Pn7f,P1,A1,L1,R1,E1,Iae,D1,I1,BsCpFnHnq2IqbhPhRaV4Wp9nX1,Lqf9,L1MohhSoei,IqdpOqal,NqeqT1,A1,P1,I1,A8ss,C2S1,I1Y,!A9EqbyT1,EnbdIntl,S1Tqg3,Oc7j,H1,Iqg8Mqf0,GqdeIqgbPqfjR6S4T2Y1,AqcaEqejIqga,M1,R1,O1,Hdmw,S1,Ing3,Svf,I1Oqd8,F6I4M3S1,Lmf5,O1,R1,Apv4R4T1,EqexIqfb,H1,P1,O1,S1,O1,L1,MpzxTpzx,E1,N1S2qoTp2,S4t,I5O2Y1,Nq06Sq4lYl4z,A1Uish,Nqg5S9ik,!Igz,R1,AqajIqea,C1,I1,CqfmT1,Unv6,A6I2L1,Sg8k,EpvwIaL2Oq0jRq51S1,Cbt,I1,T1,C1,Po09,I1,R1,C1,G60S1,IqhmT66p,C1,U1,O2vt,I1Oqgy,S1,S1,E1Iqgn,!Mq4wS,M1,Snng,A2E1,R1,Ekub,F1,I1,Egv,I1,R1,!Sl2u,Emdv,B2reDjFeG9L6P3S2T1,AsEnIq8uO1,R8oq,T1,A1,LqdtTq1e,I2O1,H1,C1,Y1,Oni5,P1,BoydNnvxR1,A2bE1xH1lL1jO18RcS4U1,F82Tnus,I1,T1,N1,A1Oirj,U1,Ag5m,O1,I1,O1iu,R1,L1,Mq5m,O1,D1,Eqj2Invw,Cks6D8I5N2T1,Tnn6,N1,I1,O1,P1,CbdnDn59LnjwP1,Op7i,R1,P1,Bhiq,Gom6M1Unbq,Eq9zIqjd,R1,R1,Cdpx,EpmqI7O5U2Y1,Dqa3,CqcrN1,U1,L6mq,Nfv,I2La0U1,U3ps,EqjnIfus,V1,I1,T1,A1E3dzI5tn,Aq3x,W1,E1,Ygv9,OkpVqiz,I1,T1,A1,T1,N1,E1,S1,IqiiTnxm,C1,U1,D1,E5O1,AeR1,Cqh6Tjaz,N1,E1,Tn46,D2S1,NqjbRqkf,E1,D1Sn6k,N1,O1,EqkoIny3,T1,C1,I1,R1,IbO96P6T1,Tphs,C1,A1O23,Ndrd,R1,R3U1,Sdrg,R6p0,E1Oniu,A1uC1kD1hF1eG1dL18N15PqSaT4U3V1,Gq8tOdjVpmk,TbbUlrzYqkd,B1ntLqecMhkjRqke,A24E4I3O2U1,AqjiIq8h,Fao,I1,N1,O1,L5P1,Ul99,D1,Ro8d,H1,P1,O1,Z1,E6I1Oo0h,H1Ikus,Snyh,Opmv,T1,E1,R1TnvrUpbp,Ext,M1,I1,Gf36,E1,R1,E18FVqln,Cp00Tnzd,AnysEqlwI1Uq9n,S1Tgb0,Tpwl,Uc3v,IpfdUqlc,AiCeDbG8L7N4P3Q2RpphX1,!Aqkg,K1,N1,I1,R1,Cc4l,I1,F1,EqklI1,N1,L1tw,U1,Kgxs,G4M2N1,DqmgL1kw,Aq9kE1Imhv,Om47,Inp0,Aq5tIqj0Uqhr,C2L1,AnvcFqi3,Amjv,I2T1Uob,Am4eC1Eo1e,Ro0p,Ao85E2Hf4O1,Dqfl,OnkuSnhc,I1,N3Rq9yT1,AowoRby6,PRql1,Elq8,T1,AqmdEqn4,R1,U1,T1,C1,A6U1,AbEaInzgO9R1UgohYq4z,Cyx,E1,D7jj,I1,J3S1,CqioHqmk,M6oh,Ibfh,I2V1,R1,E1Pm97,B7C6Gp65IqcyP1Rqj2,I558,Op3g,E1j6,B2M1,H9p6,C1,!Aq2bIqelS,M1,E1,T1,L1okM7N5S1,A2lC2cE1tH1oI1fK1dLo31M1cO19P13ToUcWbY1,GnruInzq,!AjssEqnq,R2X1,Hep5,Olys,P1,LTqhb,A1,N1,I1,M1,AnsmC8M6N9q8R1,LqjqRnip,E710,P1,A1Mqnm,AijIp3bO4R1,Nklo,Ek8,T1,A1,E1,E6I5R1,DqnuTqmx,Cmnt,A1,B1NqnxTnylXq7p,Io1i,F6px,S1,D3N1,A5q,Mo3zTq1x,A3E2I5zkO7fbU1,Bmc0,R1,AyEpHeIdOaR3U1Y7fe,Ion9,N1,R1sq,O1,AqojIqkv,S1,R1,E1,F5O8dcQku6V1,A8I1,BppqGqcm,AqmcIqp0Y,T1,I1,L1,Pppu,I2O1,N8Pq76R7ShgcT1,Sntv,I1,L780N1Smmo,Tqml,E1,Bq1x,Cp2vG2NonwR1Tiho,T5x1,AqozGq7a,CqdeUqoz,Aqo2Elj3N3OovlR2S1,LTo2m,A1,Aq4f,A52C1Uue,C3L1Tnbx,AeEaI6O1,Nlq,DqpwKjsu,OozpR1Vq8a,Aqo9Hq1nI3O1Rkad,Wqj9,O1,L1,L1,E1Lqq3,Rpdg,E1,AyvBxjCrlDoqEm7FkhGjnHigIfvJfkKfiLetMc8NbgOagP7oQ7iR53S2cT1bUtVcW8Y3Z1,GqkiLqki,!Iqq1LpvbSY,DqpcMqpc,I1,!DpahIqaxST1,EqmdIqqePltg,!D6K5N2S1,AqpxE,Llh6,Rltq,A2E1,N1,E1,R1,D1,Hou7,P1,E1,N1,I1,Dokb,N1,I1,H1,P5T1,!AqqwSTq7v,Sql8Tqp1Zh7t,!Cqp2I1LqplS,L1Np67Tmjl,E7ht,EnwmH1,T1,!A4Eqr7LqdzO1S,!LqprNbc8S,R1,!E1SWm6l,T1,S1,!EqpkMpk3S,!LqpeN1S,A3R1,ApkcE4,!Bqk2E2IqbzLoszSW1,Ioun,H2R1,!AvDqakElIkLot2MdT1,GqrhNqnx,A1Lpf0,ApbqUm6y,!B2DetmG1LlsiPpktSWivxY,Mqqw,O1,C1L499,AqroCq4pSqqk,I1,G1,L1,IqrbUqm2,A2OqfiR1,!EaHm8qIpd5O7T1Y,AqlbEqrpZq2s,I1Y,!BhelLR1Thkt,!BoyiEqm2Iqs0,H1,Dqs0Pqf4,A1,Hn9i,T1,R1,O1,!Bm1eCq9gDql9Lqf2P5Rqs6SW1,EqbgIll2,!Aq3lDRqs8S,E1Iqsb,C1FctkNqsdObn9,Rq0l,O1,H1,Eqo9Opv9,I1No8p,C3R1,Noul,R1,U1,Aafe,T1,S1,H1,T1,I1,!AtCrEkHjIgOaT7UqpyW1,AqrnHqrn,N2dx,E1,Ad5fLqr9,E1,G5M3Naj4RcxpSqs4V1,Uodc,!C1ELpy1STqo6,T9ps,T1,SpijZq3y,Aqt2EY,!E3I2L1STqr7,I1tn,C1,E1,D1,L5M1Nn46Rqrx,Iqo7,CqsdT1,Onvw,I1,B1Cljv,AgE6I4O1,DaqxYqtf,Tog7,EqshI1,!A3H1IpgkNqouSTqti,Zqbc,!B172C16rD16kE16jG16hH16gI16dLqo5M15zN3eO37P36R24S1qTuUoV6W2XqjhYqf1Z1,IjbdLa97Y,EIqphOqgy,AqtnL1,!B3I1S,Ljn4,!ELqtq,A1,LRSqsvTqrn,Spxz,P1,A1,Aqd5EqtwIUqtq,L5or,I1,H1LmepRnit,IqfiOq66Yiqs,C6IqqhL5NoqlP2S1Teg5,AaIoviO1Uqt9,E1Ipc7,EfHdL1,Aph0,Bd5yC1Equ6Sqo7Tqsa,Eql4GqkxI1NkfoZpga,AnskGaxj,Co7dEqod,I1Yqfg,Aoyv,F2NqufP1Tqsg,!Aq7jEquhI1S,L1,!AqstEqtcIquhLqhbS,DR1Sqtl,EqubY,!Klnn,!AqtfE3Fom8IqqiL2NqpvS1,BqszCqsoLqrfRqt7Tqsf,Ll38Uqkl,A2Iq6rO1,NR1,!EquiNqq0,S1,U1,AO1,Acsa,M1,N3S1,AqpnUqe2,Klo1,BeEaI3M2S1,Tlrk,AndgOquz,Po79,Hk12I2Lqu4U1,EqhjIq66,!A5C2Lq06N1S,Ip19,T1,!IquzSYn2p,!DMkb1R1S,E1IqfuLnn6,LNqhx,A1EqrbIqvc,R1,U1,DqvdLqveS5T1,AqcpRb3w,AphnRkt3,AjyaOpcx,AqudGqvh,E1,Npv3Uqlj,O1Vq1q,I1,AqvmEquhMqugT1,I1,!Ek7bHkovIno2Y,!AawuB87cCbGaH9LgboM7Pm8zR2S1T54uWpyg,!A7d8B22C1mD1jG1iI3toKqq1L1cMtNnPlRdST1Z95n,Pqo7,O1,L1,A1,T1,H1ay,G1Oqtu,!ELoyy,AqpgTpis,Squ4Tqmv,P1,E1,!L1MlgcS,!A6E5O1S,H1,P1,M3p9,G1Tqdw,A1,T1,Ao2zCgLeM5S1,A1m5E1d5G1d2I19yO2sTqw0UmY1,!EqpuLq1gMpfjSUqqn,EqjbIq1iOpq6,!EqwjFoo4IqwhL1S3o4,EqwaIqwaTkt2,!Clt6ElwpHqwhLq1kMp9vS,Fkx7K5R3S2T1Vqwb,Ap3x,G1,I1,L1,NqfrRdgd,O1,Rq4p,U1,Hqo2,Sqlu,EqurIqwvKqwtMqwt,!AqwuS1Zqr5,I1Uqwp,!EqviIqsr,!A6Di96I5L2S1Yoje,Cnh6,S1,U1,Ropo,A1,!SU1,!Aqx4IqogST1,!AixuS,N1,Fqf2NqxaO1V1o8,!EqxcI1LptvOqvjS,T1,C1Tqxa,Gnhj,R1,E3U1,Olew,E1,C1,EqptIqsvOqs9,N2SidnT1,!Rq30S,EptjIjcyO1,T1,A1EexyIhd6Oqvx,EpofInwt,U1,Ee9c,G4Q2T1Ve6i,Uqvv,NlwzQ1,AbI3O1,Xqnr,B7o6,O2U1,!EqxxISUqxr,AqgpOqlr,EqxzIqr5L2V1,!LqwnRSqx5,E1Iqtw,N1,!I2dvS,T1,N1Tqtd,A1EkcqInxc,R1,E6U1,Uqbi,Iq84Oqkr,BmthNq3bT1,A1EqudIqub,V1,NqyhOq89Vqqp,!EqwzI1Oqwq,S1,Q8R4S1,SqceTmme,E1,L1,Rqcu,T1,Nq6n,Pksy,NqysOc7iVqr0,!EqyuI1Oqx1S,T1,C1,E5U1,Ao03E8I7R1,CnEeI2vjObT1,!Aq82EqxtIqyyMqxqS,N1,I1,Cm6eSqof,Ue5m,NqrwRqwuSqoe,A4E3R2U1,Squ6Tqz4,R1,AqwtOqp4,Uqhx,L1,E4I3O1,B2nC2lD2jE2cF29I25J1wL1gN1dO1aSeT7V1,!RjehS,!AqsrEqzfIqzdS,N1,O1,I1,S1,!Ah6jS,T1,N1,E1,Alhd,T1,I1Uqyi,D4P1,Aqz1Iq6i,Dqu0S1,U1,!AquyEqyoIpfiLqyeS,T1,NqqbTq9m,A1InciYql0,DNp66,E1Iqzy,!R1S,L6P4R1,AkIcL9U1,RolaUqyw,Oqtb,Gms5Losn,!A3Fm1aG2IqqzO1S,N1,A93hIUqzz,Ir0aTr06,L2O1,A4L1,!Er0dIr0bOqo1SY,R1,CqyfTpiv,A1,R1,C1,O1,!AquaDOqo8S,E1Ir0jO288Y,E8L3OqnvR1,Inc0,T1,Egdc,Aqy7Oqyj,R1,D1,E1,!Er0qGqijOr09STqxj,Ar04Er0rOr0r,DqrnGqamH3LMqnuN2Pbd5RcstV1,Epj0,ILq4zO94rUr01,Ofyh,H1,D7rG4Nop0P3Rpu8S8ppT1,!DSTr0yX,E1Ir11Y,L1,P1,AaEpnuI21lO5RkqoU1Yr0l,Rq13,M7lt,A2I9lyO1Ur0z,L1,A1xC18EzHpKqobOnRmT5U1,Injd,L1,Sr0yTqze,!Mkvs,!Bn6hEqt7I2LqzzMr06NqwoS1,!AOqzaSUqvn,COqrdSr0aUqvo,Op9d,L1,BbdqG1Iqxx,O1,AqwiT1,FkvuZqvv,!Ar0gEr1pFpogI1LqohOqrkS,!FpohS,R1,GouqMpglN5R3U1,LqsqS9e2,!AhDeEdIcO2SY1,Ef2y,M1,Opz1U1,AqvaEq2e,P1,Eq21I1,Lfj0,Lpz7Mr1gPmwu,O1,Slgl,Gqkr,A1,H1,P1,Nr18Ur1z,IcelO1Ukqs,R1,!O4T1,Vr19,!ChDeIdNbRaS2U1,AqvhUr17,Epu6Ial0,Cr1gDqtuS1,!Er1bIqn0Or0pSTjze,DN2R1,Aapl,!HkvfRr2iS,!DosvEqjtIqtuLr15S,L1Nr1fRr0nTqui,A1Nr1wOqsj,E4I1,C1Nqn9Snsp,Ofst,Rlst,Ahml,Or1R298,Or1nRr17,O1,!C3E876H1IqobPkonTpwd,Ro92,!Ar2eBmfwCkEgHfI9Kgg8L8P7R6S2T1,!EqurTlpb,N1RSr22,!E1Tlpd,!Apn6F4T1,!ImevS,M1,A1,Vqr1,!Ii4fSr16,E1Ifvy,AqxgDkwhEr29H4I3LqtwR1,!AqgoIqypMqq9S,!Er3cIr1qM1OS,Mqo2Nr39,A1LmkvUqo3,AgowRkwk,!EpqvKql0Tr2d,!BkpiC3Er2aHnegImfbMpryP2S1T4p3WpnjY,Lq0nMr2w,Kr3gO1To7l,Cne7,I1,DoxaL5N3T1,!Pr3iSYr3k,Ep3n,K1,O1,D1,!Hr3oSY1,A6E1Rr2t,NRSr2v,Glrq,N1,A1,Um11,Er26Yqlo,!Q2T1,!E7F4I9r9Nqz9S1WpxeY,I24f,Er2aO4o0,D1,!G3N1Sqr4Tr34,Aj71,R1,Gnn4,R1,A1,Iivx,S1,E1,!GoxcM4R1S,!AaC8F622Ip8dO1SUqyl,MqreRr2z,IqzrO1,T1,C1,A1,H3bg,C1,R1,Ap7n,H1Lqlv,L1nz,Cqc8G1,O1,R1,D1,N1,E1,CZqqj,!I1S,R1,E1,Uern,Ah5u,H1OdtbS2jw,Rdlt,CgD9M5N4P2S4o0T1,AjO1Uply,CpigRr3q,!NqgtS,CTqo9,Er56I1,N1,A5E4I1,BaihG7Or59V1,Ur59,Q1,U1,I1,Ocj4,Goy2L2R1,Mnbd,D1kE16F11I8Lr4lO2Y1,Sq6i,Mioj,S1,D1,Er3xRr4pU1,!Er5rIr5pSThy9,Gr4sLpsfN1Rr5o,Br44Or3mVr45,I1,S1,CozpKozpNqvqS1Ta3i,Ticg,A1,E7l2,P1,M1,O1,R2am,I1,!Eqwp,C1,AzrI1Oql5,Tqb2,Snnf,E1,O3R1,Ciih,AEr69Oq94,R1,O1,AqjgBq20CeDcF9M2anP5Rl9aS4V1,I1,Aq5a,H1,P1,En65,!K1,S1,IO1,L1,A1,H1,!A16B12E10IwMuNbO8P1S,Er50Rmgk,G1Ncew,Cp13,R1,E1,C1,O1,Dpb9,E4olIq69,N1,E1,Ag3p,N1,G3Ln1zMnz0R1,EH8I7O1,Ags5,M1,Ir2oO1,R1,InzmOqx7Y,!Fdk8I2Nr2lR1S612Tm34,!Sm7oY,N1,O1Ur4k,OkvY,Cdp5,I1,T1,Ip0mTr2y,E1,O1,Lp05P1,O1,S6T1,A1,M1,S2tu,U1,Aq0u,Ae3fRwe,!Er6pHpifIpn1L2T1,Epb6Ir7nY,N1,E1,!G1Lorp,Ir3gO1,H3x4,C1Xr78,!A1bBr0tCyDdibEsGdscIpLoOdRbS8T3Ur78WmngY1,Sr6yTr75,Y1,Er7yIpv2,L1,Er35Ir7zOqvyY,M1,EqjrIr81Y,N1,Ni0v,A4E2O1,Cn9e,Er8dHr8dIqz9,T1,GlsmNqt2,A4I2O1,Cp8aKr8h,A1,AmmnHr8j,I2P1,Od70Yqor,H1S,ApusIr73,EozeHo0kOne8,P1,Cj6k,E1,!H1Ir58S,CqDoGiHr8uLdM9P7R6S4T1Ze0g,FpnsTr6y,I1,!EqmrIr7yS,EknhIr8z,U1,C4Hr8zL3Q1,Ar06Ei3p,Hr09,T1,U1,O1,!AqibC1efEpusH5IqtrLr7sM1Nr4hSWnga,Dr96Tr61,L7q2,!A1Ir38S,N1,CqmbNr9dO1Vr1l,Er79I1Og0s,!Bq6bGisgN6ST1,!Rr9dTqs9,A1Er9eUr3o,L1,Eqr9U1,T41j,T1,Nr9jSr2l,A8C4E2O1,!DNgR1S,Dr6sTqqlUqdq,LdrfSg77,Ir2lO1,M1,L1,A1,H1,I7T1,Er13Ipgx,T1,!A1Era0S,N1,Nra1O1,Er7xGI1,Hdlq,T1,Mr1d,Ar0cN4Oqe9S2U1,Nr99Tr4f,A1,Dr7dL1,Er3aIbuj,N1,U1,T1,Er2nIoyn,NrafT1,AqjjEgpvI1,Nr98R4S1,!Er8zIquaOr8q,S1,S1,I7bl,R1,B1,E4O1,IgO8R1Uk4q,CFpplNranZr4y,I1,N1,!Ir8nO1,Tqci,!Lp11,Ar60Er8rIravMratTqna,S1Zr60,A3EravI1Ur55,!Ar5dEnwbIrayS,N1,Cgb5M3Nrb1O1,Oot4,R1,T1,C1,E1,L1,Rlvc,T1,E1,E4K8b0M1,!AiErbdIbO1S,!Cp0wErb4,LhxeNn6sS1,!A2dE1rH1jI19OpjaPqSmT3U1,Sq46,A1,U1,HmpaLrajUmy0,!AqwzRmd9SWqe8Y,!E1Ie5zSU9b3Y,G1,CqnyErbeOrbk,!I1SY,R1,Er70Iqhr,Er9mIr9kO2R1,!C9DL6xbN6T1,RracTra6,A1,L1,U1,C1Er3pNrbxTnlm,!ErbzI1SY,Er7xInfuOra7,!LrajST1,A1,R1,T1,S1,!AnoxLqh5S,D1Lrc3SrbbTjwp,AimjE3I1,Nban,!Arc6EqtuH2I1S,Iraz,Eqz5Ig6gY,!AranErb6IrcbL1S,ArbtR1,CrbeDrcb,LrccN1Rg6gTihj,A1Erc7,N1,!N4cvS,A9E6I2Ni2nO1Urbg,CVrax,I1,T1,!Ar90C1GplrIqy2S,!Ar8bIr1uS,Ar7tEr8nIrcoMjreTrcm,Brb2Tqmg,A1Er8pIrcq,C4S3Z1,Lgbe,H1,E2r7Oqbo,Uqeb,C1,R1T6ps,E1,Or0pUrc4,R1,Ar7yO1,H1,P1,S1,O1,H1,CeG9m2LdM9Nrd5P1,Ard6Irc8,!ADmezEmqzIiO2SUr7hZ1,Mr43Tqwc,N2S1,CSqky,A1CErd5,A3Epl8I1OrceUqwdY,AgquIrdd,!I9z5Lrc1S,L1T9yg,DEmbu,!A2E1IrdjS,T1,LrdjN1,Cqu4,Mqhu,A1,I3L1,!SUr7y,MrdoN1,Lr88Tdf3,!A1S,N1,A4I1,Ah0i,Mo8lOrbs,BjEdF9G3N2OqvpS1,ErdxOqyq,Lr2c,ErcaO1,!AjljEre4Ire2S,T1,N1,E1,M1Tr76,Rpyi,CNrd9Smgy,OranTr1b,Ldw0P1Sra1,Ere3I3O1,H1,ST1,A8E7I1,Pn7c,A1,Edi2R1,G1IqzyLqbpMr1iP25xT2q7,!AqryErelHqh8IrejS,N1,A1Ipf4Rmp8,MrdeNr5l,H2I1,!EregRpmt,CrdqS1,AEr15I1,Ej09Ho45Lqvz,Tn1,!ErelIrekLrdeY,N2X1,O1,Pq2j,Lqpq,A1,N1,Hneu,DrdfP1,A1,EiriO4R1,L2hn,O1,Rdp6,O1,Ddcp,S3p0,O1,A43,I1,H1,C1,Y1,ApguIr8kOqjk,R1,E1,A4ueEbH9S4T1,M4mr,O1,H1,CopdErffIrffTpv1,IlziRpas,!CyDuEtGmMkNiP6R3S2T1,Ipx2O1,!H1Or3xS,!A41B3vC3kD3aE36FnkqG2eI1uL1tM1rN1eO1aP15R12ST1Ynz5Zrab,T9og,GdqgS9m1,A2O1,L1,L1N56zTr6i,!Nrf1RTo06,A1ErfxUrd5,L1,I4U1,I94,Crg1Or3tR1Urab,LqffRqff,!A1Erg3S,G7t9,E1,L3MqvjR1SpbuTrbnUrg0,Dfpj,N1,AquvEnwuI8O3U1,Bbzz,A1,Ire9Or44,CkdyErah,I1Rq9yYr1k,AChdeF1,AE4I1Up4j,Bra3Vqmn,I1Oo10,Abj4,S2T1,R3wv,H1,T1,R1,Lj6rYrbo,Actp,!L1STqgz,Edh3,A2Y1,Tqwa,S1,A1,A8sgL1Opnw,Ak2lErgsIrg5,AbBbt8CaGnfkIrdfLlpmM6P2S1,ArgdI3xbNgO1,!Rrf5,Aq8j,A2N1Op2jUreb,Mrf8Spgl,Sp7sZrbg,!RrbgS,!E1S,D1N,AI4O1,C1,!Erh5Lqme,H1,C1,A4I1,EfIcLr4jMrhaObR1,!Ar0pC1hErhgIr4kM17N15P5ovS10T1,Gpa7,L1,Ur4f,Eq7mIqzd,Lg9g,R1,H3Iq4pO1,!G5Nrd0SW1,R1,E1,CO65jTj4s,Ypws,Ggqr,N1,Y1,R1,A1ImleOqgt,A2,L1,O1,N1,I1,H1,Efeh,L1On72,C1,CfLaR4S1T95z,Rri8Vrhc,!MrfgS,A2ErglO1,AtHlIkO4T1,Bm4u,Indh,L1,Yqin,I1,Hr7xU1,Immt,T1,S1,Nr38Rrik,Bril,!Erie,!A3E2Irh4S1,Eri8Tra6,Eo52,I1,H1Trit,Gmqs,C2DrbpGrhxR1SmykTrha,Go52Kriw,CritKrd7Lig7R1Wra9,AqrsGmzp,Dh9wTmyx,Ar8fSrao,Fq3ySq53,Aqb1E2Ome7U1,RrfiSr8i,Grc1Nrj7,A2U1Xrau,GmzxVrdgWrai,Arj3DE9lz,Brdi,A3E2I1,DmhoT,L1,KrjcLpy9,Nmd8Sri8,I3L2R1Ym7e,AiEhIgLdOaR6U1Yrd8,In02,PmhgSj0cT35kUqdnV1,GrdsMrji,R1,!Dp1pErhhIrjl,D1,A3Ecw1I1,Mofi,ArbbImapO1,Er9x,ErjpP1,AmzpM1OmzgUqes,P5tqSrbgWrjs,AmncIqjpO1Yr4y,Sre4Vriw,R1,AfHaL8O5R3U1,Ekh4Irjy,NpvkRre8T1Zmc3,Im8h,Iik4,Bra8L2S1,Tihc,DS1,!Mj33Y,!S1,R1,!Dr9yEn23Irk8NrimO1,Gn0zNqyqWbjp,Mme4,A1SrbyW,Nm8aVm7c,Pq62Vrir,Nqyv,A6E4I3O2U1,AhEeIcO8R1Umjb,Ro6oTmgl,Hdpk,!CkorMqdbSWmlm,A3C2DR1,BmjaCreuLrk2Sr9zWo6s,Lm8l,AmjkE1Lrjq,HeloUnvw,EhkrG1Nm8fRreySq6qTaid,Am7lEqamIrkhOm84Yr5u,LrkqTrkq,O1U1nXrcg,Og56,A9E7I5L4O2R1Umex,Io72S12qVrj9,Rmap,E1,N1,Tm90,Anw8I1Om9k,Am8f,!ErkuImdvNrjg,!Irl3NSTqy7,SrcrUr5vW1,Eqb1I77lO1,ErcsIllpN77nSq71,AcE9I3b1L7N6O5R2U1,Mmj6Ur2hWrcj,MmkjNranSgr6,AnwcE3asI8plO2U1,I2g,R1,GrlbT1,N1,Nmuo,MmkpTn2n,I2U1,Cn16LrctSrd5,E3afI1,!ErjtIlm8S,D1,IgckN1Srb0Ub1tWgs4Ym9l,Nmfh,PmfiR1,A1Trln,Eq6yNrceVrce,OrlmVrg0,A6E3I2O1Yrf0,Umaa,Prby,!E2I1Nq7lS,N1Rn1tTn1t,Drg6Srl0Vrg6,Cmkn,S1,A4O3U1,Uf0j,Aa32,G1,R1,CrgeIqh5SrdsTrfc,Fnfp,R1,Cq89Iqm3Yr7c,T1,CoqdN78rYrm9,DmhjTn3i,A2O1,Tab1,I1Lrmd,IqhfL1PrcjRrl9Srl9Un2uWmkd,An2dEo8nSre3,Upy2,D1Mgbc,AlzoE3Ipy4O1,LrdvNn2hSq8lTn3r,AgEeIcL9O6R2U1,Ubj9,!CrloGq1gKrmm,CrgxGqozImagN1TrgxVrgx,Cq8qDmao,D9,O1,R1,!A4Bec3P1,Dp4yEq82Irmu,Gr9xHj27,D2G1N9qbVn3g,Aqt2Cn2lDrlbLre8OrcbWrmw,!GNrg6S,N1Sq90,AcE7I4O3U1,IrecNrn2TVmmbW,Emm1,ErkzIrn3Nrn2,LrfxOmmdR1,H3O1,Trn4Vrhf,EbmnL2lR1Trn5,NrlmOeo8TUrcm,Amm8IkkoO1,!Rmg5S,E1,!GmbbNq92S,D2GqggN1T8rpZr5e,ArdlIo97,E3cbIn32,Ap8cImm5Oqn2,Onyp,Cofe,R1,AqtpLo8xU1,N7a2Rmb9,AmbkDErgfL5xdN715,Kb79,EewtIqio,A4E3O2R1,!IrjnS,D1,ErloIrnsTrnr,N2R1TrfqYrns,D9tyPq9j,En3rI1Oq31,Dq2sNrda,A4EmlvOiipR2U1,Ln3mNrnz,MRrmd,!Mrh8S,M1,A3EbhdI1ObhbUrl8,!A12CyEwHuIqKpLoMnNmOjPeT6U5W1,Krn5Ln3sSn3s,L3j,BlnzWbnm,Sep7,Eqe4O2U1,Amb4Imb2OqidR1,LrocWmm8,AlouIn3yOmk0Umb2,A8E7H3O2R1Upyn,LmwaUqjd,IpzzTrin,A2Ir6gO1Yrhn,!DrgqRqa6S,HrnnTriq,IrdwLn46R2S1Tn4f,!I694SYr9n,R1,A1EmahIb4sNrnoPrno,Rrfx,I1,ErmkIrooLron,L1NrhiSqaqTn5w,EKrg5N,R1,Sgup,E1I3a4O9qo,AcE9H7I5O3R1,LrouProu,L1,Elpi,E2I1,!A63B5jC52D4jE4fF45G3sH3pI3lJ3iK3gL37M2zN2yO2vP2eQ2dR1zSwTnVkW5Y1,ErohOroy,A6nB6lCqb2DrozG6iI6fNrl2PrfzR6bS6aT2Z1,!B5swIrkvLrnnNrkcS,CqtgS,Lro5Tobp,Aoe2E2O1Toev,I1Y,!L5R1Tlx5,!BlbbLqu9PlieSWmuf,Arem,R1,T1,D8fi,N1,LrnsS3U1,Urfl,T1,N1,E1,Emf3,I1,!ErpnIid7S,C4H2T1,S16l,U1,Tgej,R1,E1,J4V1,ErnpGope,Eh15Lqb8,Tnn6,I1,L1oz,B2P1,SrlqTrolZrk8,Y1,L1,I24u,A2X1,Lngo,P1T,Nrfw,A1,Cqc9MO8n4R1T3jn,Soud,RqzoS1,E1,S1,EThgg,B10CsDmGlLkMgNbP9R6S2T1Wrkn,KrkoLino,R2qTmmk,Emee,W1,E1,A4DJ1Tn7r,DhhhGLrhwTrpm,An6jW,Ur7wWbq3,E2O1,ENrkhRmf8,Arl0Iri1LrqsOn6eR1Uqkv,Tov6,A1D,Ep2nGrjp,ArqwWmem,E3I2O1Uoni,DmpjNmkq,I3jnR1SrpiYmew,AjEeIdLaO8R3U1,Tgbg,A8hbI1,E1en,Nrr1Urqu,O1,I1,T1,LrihMrpkP6R5SghtU1,Tfwn,N1,Af4dIlve,Sgho,Ir04S1,Aalp,A2E1Omfs,CqdfTrrc,Cg7l,R1,!Mrq9STqd7,T1,Nhxa,E4I2U1,Sobr,N1,ArnnCrht,EnyoI1,E3L1Rku2,EqcyIrrqM6P1,NiwjRody,E1,I80f,Nqv7,E1Orfl,I1,Vp44,R1,R3jj,ErpwIrs0Prn5,M1,C6E4T3U1,Rgd6,CcFbS2T1,Krs4Lrs4,Ravn,AtLrs9MhN3O2R1Uqn7Y,Mg94,Dces,PqdzWrl3,A3E2IomsO1,I8mi,T1,L1RrmnT8wq,A19E17H16I8okL12O8R4U1,KrsfOgfl,Do9p,N1,E1,M9sg,R1,E1,Odtb,L1,E1,ArbxCaM104P7S8pT4V1,Of3a,C1,DFgpvRfxqS1Vom8,Mb2i,U1,N8j2,I1,Ar6dErquIrsy,!C4EnauGrsxIrszM2NrrdS1,CZrn9,I1,T1,A1,FrryM1Nr7lWbsk,SrksW,ErroNmh4Vmg6,A3E2I1Op6oU8tYreb,Blt1E,Ao4hEjIgOaR2U1Yoes,Rrfz,E1,Neh9,G2R1SrryTmnr,!IrisUmam,Oggk,B1,A1,Lf6q,L1,E1,NrtmOp6i,ErriI1,T1,Soh5Trcq,A1,H1,B7O4P1,Omfm,M1,Rnvr,U1,O1,Emrv,N1,I1,O2v2,T9tw,R1,Spsx,A1,I1,S1,U1,E6H1,AgCdE8pjGaR9T1,I2xl,U1,Ifxv,T1,Urg2,L1,A1,Gcyv,G1,Irkq,CgjeTrmp,R1,Clwf,Cauf,Iqpz,AogvI2O1,A8poE4L1Ofbg,Opbw,Grld,A1,CrpzP3V1,A1,E8puR1,Bdcu,AgCfEdP8T2U1,A1mD1lL1iM18NqQoSmVjX1,Inj4,L1,I1,!I8px,T1,Gkax,!I1,Cqs7M5RS3T1Vmuh,Tfyf,Ar1eDEmizR1,LrmlSqhb,Erv3Gqoe,Eql8I1OmiqYrgg,Ck6sNrvfUruo,Ilzj,F1L,L1Nro9Sp0h,AaE8I7L5O4RlkeU1,Rozm,SrrbUqyd,AgivO1,R1,E1,N1,DrvnT,L1R1,Rgdr,O1,DM1Zrut,A1,Eboo,ArooV1,Wat,AqnvEqltO1,AgEbI9L5O3R1,DmraGmjy,Emux,DV1,N3R1SpdxTrqbUrnd,Drw1Prw2RohnTrw2,A1Lrw6,Dmk4Y,Ead6,G1,O1,L4M1PrqiT,GTncq,N1,AaE8Iq5lO3U1Y68j,Ag09Ng7f,E1Lrus,Np8m,I1,G1,A1P91l,Tcid,B1,Ig0g,R1,T1,LeayS1,E5U1,LrolOnqa,IrkgUrsj,N1,!E1,I1gdUo82,Ughc,T1,C1,E1,L1,Srnd,L2N1Rhks,E1,E7g,DfFeGbSaT2V1,Art5Erv1Irx5,U1,S1,DuMqN4S1,OmaeUqqk,LrolNrxc,EpffI1,Ef67Irxc,BmwnD1IgobNrtrPqj2ResyTrvrVos5XYmlc,FPmr8Rojl,!Eojm,H1,T1,DmlhG1T,A5N1T91vWrxl,Ai3w,R1,!E1,ErxlGqspT1Vrrw,Dk0k,ArqiNrxqOnddR1UrxrVrry,AdE7I3O1Ur8sYriu,DRr70,E1Irxs,!ArnjN1STrx9Y,CqjvU4i7,N2SmlwT1,Di3nErcdLrnaN,Hpfs,DKrxx,G2L1Nrs8Xrpn,Sjdc,E1U1vo,D1,CqjySmlz,A9E8I5O2U1,RT,A1W,CrwlG9f3,Rlzh,U1,E4I3O1U4vl,Vr1p,O1rq,I1,N1,Mq6z,I1,ErdiI3T1,Trdj,S1,E1,H1,A5s,C2GclN1,BdP7R1,Tnvu,!IryqMrxiS,C3msIrytR2Sl0lY1,Af89,U1,S1T,DnffOmoxR1,Iqk9N3mqYryv,A1IqysOmumUry2Yrk1,Rom6,E1,Pg6gTrmeW1,C3q4Sr9j,Cpd2S1,Emof,L1,I1,CrtfNrokV1Zrtf,ImmzOrpe,!Am6xErzaIrz8S,N1,O1,I1,T1,R1,O1,NrzgOrxaVrkr,!ErziI1S,T1,C1,E1,Cl1xDhsaG3n6MdOpbeP6T1,AgofEjIfO1,AvErLpOmR1Ummd,A9q,U1,!K,N1SrzcTrtz,HnglTrrw,C1,N1pr,I1,Iiq0,S8sb,E1,OpkuR1,Omvn,P1,A9F7Gg7hL6P3S1,CrzoDa66FrygGrntPryg,DryhFqkzLrucN3t3,AeE3I2OqfaU1,Es03Ts04,Uqju,G1,Ugnd,DL4N2T1UqbuVruiW,Lrj4,Pcmu,U1,A3R1,!Ds0dIs0eNRs0cS,Vdgs,I1,T1,I1,S1,Iq6yV6rn,As0jC8rzE7LfzN2R1T94xWmo0Xr9u,Dmp5,Es0lOf1nTs0l,A2IomhO1,FriiSrf9,EI1Y,L1,P1,CrfaDrzuGqtwM1Zriu,A9isE3pqIni4Oqqq,Iejs,C1,DI1,Cra5,I1,T1,S1,I1,H1,AngsFs07L7OrujP1Us0l,IglmUjge,DjzdT,C2N1,Efad,E2I63fR1,BlceFqm6TrloYs19,ErzkPqn0,Mg8sRmou,Cnh1Rrzf,Srt1TnhbWmot,Da7jK3ui,KTb3g,C1Ns1i,AonoE4I3OqgoU1,A9E8I7O6R1Uhc9,S3smTrzx,Es1nIs1lLqgh,!P1S,Cr51,I1,P1,B6DrtdP4Rs04S1,!EonyNrx1,T1,E1,E1Ia58Us1u,!A1mC1iE1aH17I12KldjL11M6ghOrPmTcU5W1,!ApfbEs1yIs1wS,K1,!Arx3Es0gIs1y,KmozL2Ms0dRs12SnhnX1,!Kmpz,N1,I1Oqw6Rc1g,Tn0q,H1,G1MrwePqnuRrwe,IrthNs17OrgnPqnv,DrwgIooe,Aqht,Cs24Mgj5,A3E2I1Ump1,Rf8,!AdHaI7Ls0xNrxmO6R2U1,Rrs3SrwmTg5k,Urd9,L1,Eqw1OnpmVrq7,Tqvz,L1Trwr,A4I3O1,Ms2jY,R1Tn0j,!Is2mSY,KR1,Nopw,Hn6r,G1,A4E3I1Tnjy,Moq0,L1,E1,DmquTn0t,Lmqm,EqxjO1,H1,H1,Ds1eLs1lN5Ss1eT1,Ds2zEKs30N,R1Urvr,Thl8,I1Oa4z,AkEeHbI5O3R1,Lhn3,A1,E1,!AcvBcbCauDa0E8aF7sG7bH6xI61J60K5yL5jM55N4zO4lP3nQ3lR35S1eTxUwVqW4Z1,Ne2R1,As2mTs02,C1,U1,!Es3gIo7aOs1nS,T1,I1,S1,A46pO1,Bon2CrrdD6FriiNs2kP1Spzv,G1e0,E1,V1,O1,T1,C1,A1IOs3o,Trzi,S1,E1,Aly3,P1,I1,V1,I1,Irc7L9NrrlT6V1,Rq41Too8,A1Es3z,L1M,AewEtIkO4U1,!Es2yIm4sLr95S,!Es21Is45L1N5m5Snpo,CdehTryf,A1IkosOdeg,EfznIs38,Cq60L2Z1,Lr6zOqxv,NSYs3c,Eoq4,Bs2qNs37SrlaTr6y,CSrv2Zkcn,Trln,C1,U1,D1,E1,R1,!A8Es4jI7O1S,D1Mrvl,Ecd4,As0jEs2xOn55,Lbj3,Y1,T1,E1Is16,C1,!As2mIrvoLrroS,N1,E1,Oa5u,M1,Gpn3,O1,R1,D1,E5Y1,AOkgz,R1,O1,Zs46,A1,T1,U1,B1,N1,E1Irkl,H1,Aru6Or9m,Cs5eNs5e,I1,C1Ns4j,Ejv1O1,Rpzu,!AsGpHiMfP7S6T2U1,!A1dB1cCoreE1bFljsH1aI10LrqcOPzTyY1,!Ss5e,Rs5mS1Z,!CmceEs4kIrq9Mqu8S,R1,E1,T1,!E5S1,CDs4vSs03Zs0y,Pn8x,S1Us5o,ArxtEs5vI3O1,CklnKklnN1,O1,A19gB16pC14rD148E13oF12zG12sH12qI12gK129L10hMzaNxxOx5PumQujRq8SoiTnnUgzV1xW1vXeY7Z1,Arp8Us09,L1,LqxnU1,T1yl,!E1,!DMl72Rs64S1,!DpwiLrttS,Nk4wSs65,Ng0p,A1,Dep4S1Tmx9,A5I4Of2pUo5kY1,Ls22Tj3i,!A1Is0c,As4rC1Es0hSqf1,I1Yrrk,F1Ns6i,Brx1Grx6,Cs6eDcbj,!A1,Hhjg,!A4BndqEf8sHjd3Im34Ls57Mqv5Ns1wS2T1Wfns,!As6lEhHbI6K1STo9n,Rs32Ts6m,A1,AqswO1,!B1DFpyeRs6pS,E1Irrc,Es5oImp1L1OnmgY,!Hnrb,!S1,Es6uOnmj,Es6vIOiak,Snak,A1,!AkbxD7I5L4NfqzOkbxR3S6U1,EqabIrxv,N1,E1,Irj4Os2u,H1,P1,R1,O1,G6M1,Ib85O1,!IOs79S,N1,A1,Aqw5D4Lpe0Os59S1,Es5bHIs7fMs7dTs7d,S1Zry4,!DpxsI1S,N1,Nmkf,!A1Bnb6DRs7iS,Ar4zGs7j,N1,As5iDs7l,I1,R1,A8E6I4OrhU1,Vs7o,A1,E6r1,!L2O1,Ar0tEo2y,!FoiyL1Soie,Lotz,L1,I1,In74,K1,A1,!T1,DRhb5,!BmdkE1ImdcSWof8Y,!Cqu1Es88Fnu1Is86K7LqueS3T1,!As85Os85S,!N1S,A1ELniw,DKs89LeN4RnoqS1,Aqtp,M1,A1,Elkb,Td9d,S1,Brv4Lgvc,As3fEs8g,AqmnN1,A3Es8iI1,Bs13CrqmDrq7E5Is8dN6aoT1Vn6jZ7lf,Phhi,O1,R1,H1,T1,N1,Nnns,A1,T1,IjtiO1,To9p,A1,M1,I1,L1,Pu1,A1,R1,G1,O1,E1Ro18,Ikmz,T1,E1,N1,G1,A1,Hhi9,T1,A1,Ohic,AqBmChE2seGbM5N8ncP2SqlmZ1,!Roke,!T1,!Os8eSTs8l,!Alt2DFr7nLs86Ns4vO4RS2T1Wn1h,Sqs9,OqxlP1,Es9mInlh,M1,O1,R1,!EaioS,D2G1Orv9,AmadH,Es1oKqsgM8N2S1,ACUs44,I1Orxn,D1,Ekqb,!IlwbSTs91,DT1,!LSrrbTizo,A1Ds34Es1wNsa4Us4b,!A6B5E3I1Os8dSY,Rqa6T5qb,!SWq0t,Tl4q,DR2T1,As56Is84,Es23NsabSmn6T1,!Rs9d,!A7E4I2LrfdSY1,Rrvt,E1,MkzcOnt9V1,Br7dLTs89,Bk88,!Ti5t,!A3E2I1SUsab,Rook,!G1HrvbIragYrvp,EmtqRq0y,D3t7,!Neix,!A24E14F6i2IuLlMdOaP6S4T3U2Y1,!Es9lIsaqOsaoS,As8mR1,!En8qS,T1,E1,L1,AsauE5H1,!P1S,Es7wHs9z,Ephl,C2Dsa2Msa2T1,Om6p,R1,AougRp0i,ErfgIbjs,SsabT1,Yp4a,Z1,A3O1,A32lE1,Erz7,P1,O1,T1,Arb0En0iHbR5Y1,!NqcdS,Irz3Ol82,CsabM1Rs2w,Esa0Tsbg,Os9sRrxfUs9sWqol,A5E3I2O1Us42Yrwo,Cs08Ssaf,I1,R1,Y1,!EsbrInmwLhn9S,EpicTsap,!DG3L2ST1,Iq3gRqqoUsb9,!Eh8oS,DN1,!AsbtE1IsbvOqdoS,N9f7,A1Up4p,LrmjMsbw,!KjetLru0SU1,C1Esa9,Dbuh,N1,A1,Ks,U1,E1,CrqrXdoz,I1,EsaiKrtvNsca,Esa6I1,Hry7,LnosTrve,AscbIs7t,M1,A1,C5P4R1,X93p,!E1Isc9OpvuY,STsca,T1,NsbmOsag,E2O1,L1,Ncrc,H1,C1D,IobdOsamRscp,E1,Iddq,CsawT1,A1,R1,C1,O1,EscxLrv0Nsd0S1,Aqay,R1,EsayImvi,M1,I1,Emwq,H1,!FruyG6M3ST1Us7f,Pr0d,Isd0O1Yokq,Infn,!U1,Apm1,!HlcaW1,!ArDjh3EoHmIfO7R5S3Y1,!A2fB2dC21D1vE1oF1nG1kH1iI1fJ1cL19M17N15OzPmbnSxT1Zs0h,Zqfi,Z1,A1,Eqh2,!CsbmIsbfLsc4R2SV1WsdiYsai,Ar6jUqf6Ysdj,AlknO1,Enm7Osdh,!B2EscjHlhpIcpbLs0iMlekSW1Y,R1Tmu1,Aoqj,N1,O1,!ERqduTsc7,!STrmlVouq,A1,M1NsduSscaTscx,A4O1,I6L1,!Is4tRsc1S,T1,L3S1,OrvbV170,!Enfy,OrvdSsciUsdw,I2O1UsdxY,Csd8Ksd8,I1,AqmpEse6Or18,L1,!As7pNsco,AsdmI1Oq6tUsdg,R1,!AtEoHsbhIcObP8R6SU4Y1,Oqho,AsedIs9vOqdz,L1,I3LsdiO1,T1g,OscsU1,H1,Bk53,O1,R1,O1,L1,H1,IqfaL,CqxbL,A1Cse3,A3EsesI1,C5DcjvGgbgNsewS1,!EseoIaz9,Rsc9Sse3X1,EsaxI3O1Rnlz,Ervk,H1,T1,S1,Nnpn,I1,!Ab6uS,M1,R1,F4O1,GseaNsf8,!Ese5InpvS,H1,P1,A1,EjrtO5R1,Nm8f,E1,U1,L1,F1,N1,Npd8,R1,U1,O1,Er93Isam,U4q7,G1,N1,CrudXsez,I52q,DP1,!E1ImjsLr1mOeq5S,L1,A5E1,Grkq,SqbmTpweZgrr,A4qjDryeEpn6I9L3O2Y1,Ieex,Eks9R93h,Cq1cD2N8rxT1,L297,!Cse8LserS,T1,N1Rsg6,!SU1,Ohcx,Lr7vX1,AponE8I7N1dO3Y1,AqwnCrtcDsd4,EsfgI1Rsar,GsgdO1Y6yk,Lpyd,A1,N1,R1,AsewEscjIsgkTsbz,S1,A1,!E4R1SYscd,Smzg,S1,E1,F1,O1,C7g,Y1,Enj8H8La79OjnhR3S1,AsfqEsfq,U1,Iqkl,N1,A1,S1,O1,InsiNs1o,AsgqIfhgOpnt,!AsajIs50,C1Sq7rZrs1,IsdlLeyxSscy,Esh6I2O1,T1,Mrg2,I1,M1,Es4yO1,H1,T1,A1,P1,M1Nke9,!AgE52HfIaOsh0Y1,CpvpXsdb,Msgk,R1,!ErlzS,D1,I1,O1,R1,Isd4O6Y1,Onoq,O1,Hrly,P1,AdH5R3Y1,!B3hC3eD30E2wF2qG2kI2eJ2aK29L1xM1mN1jP13Q11RwSfT1Vrg5Wp9uZq27,Cn5n,OmdoU1,Lp51Nik2,!Isi0,DS1,Nsi5Ssi1,!E2I1Msgx,E5H1,!ENsgl,Nfun,!ArvdEsgnI2Ns5bO1SY,Orv4,!LSTrr2,A1,M1,Y1,H1,GshhLsh0,DRrut,Sp5zTqj0,E1Orl9,!A4E3H1Is34Ls5eS,C6T1,!GbtxS,!EsifIsifT9fo,!CrnfDGeIsb6N3OsimR2S1Ts6aUsimVsh2,Cqe7Sr4k,E1,!Insw,L1,A1,C1,ArewL5O1,!DSTnkh,E1Is3hOsivYqmk,ACOscd,I1,L1,E1,Hsj0Nsj0,AsikEsiv,ST1,Upkg,T1,U1,!Esj0Iikb,!Esj1H1,A8E6M3Ns3vS1Tshc,Ie7c,N1,O1,GsjcS1,N1,!AsjeEsibI1Lf87SWr3k,CsiiDr6rTshv,N1Ysjh,!DSYsay,IsgpY,R1,!A1S,T1,N1,E1,M1,A1Nsjs,RsjqSsic,RsjrU1,AcEbI3O1,AO,N1,A1,I1,G1,I1,Imzy,H1,CEsilSqz2,I1OoouYs58,!Ej80Isk5S,Ms07,O1Yqb5,CDsk6Trwf,I1Orod,Yqcd,C9D7L6N4Qm7nT2Usk3X1,Thqu,E1,U1,KnhqLskd,Cs8aDrxvEsiyNskhTr6a,KrdvTiwz,!A3ElsgI2O1SYs5m,!CskhDRskhS,Nip3,O1,M1Nskn,E7abIrtw,!Ary3IsbiS,N1,!Asj2E7I4L3Ns5gO1,Kjk4Nskp,DRsjq,R7fj,A1,Ejxa,C2G1,O1,N1,E1,NsjuTj7c,A1IrxdLsk2,P1,!Bns7S,E1,RjacTsk6,A1,L1,I6L4U1,Np3v,O1Vrre,Asl9EI1,AsfrBsbvC4EsfeNs5xS3jbT1Zsih,Esk7Y,!EslgIsleLs88Ss63,R1,E1,NslfOrzy,Gg8s,D1,I1,EskeTsgr,I1,R1,!AxEwHpIcLbN8O7R4SU1Wm3dYlok,Usd8,!N1,!Ls3dSVp2n,E2InzjO1,!A3vB3tC3nD3kE35F2yG2wH2sI2jK2dL1zM1tO1iQ1fR1bS13T5Ugi1V1,AslbHrnc,!Dqc6Ln75S,!A1EskeIslw,Fnf8,LslwNics,E2I1,U1,G5ne,A1,!DSW689,E1Ism4,BsfpC3DlgoG1Nsl8,AqnrOqdy,Nkn7,E1,!Bsku,!BskvIslaS1,!DELsm9M3Nm53R1S,LTsfc,!A1FnfoLs97S,N1,AsebEsepIsbm,BsktMNs71O2V1,!AcBbE6I1Knx4Ls9bOlnkPo85UslmWm0n,!IsfmLpv7S,PsmhRm8t,!BntoDjtgL2Rr3iSU1,!SUsku,E1,ClbfH1,C1Eo0bLm0qMslpNbfpSslu,!EsmnIsgnLslaNshzS,L1Tslr,!A1EsmtIsmrSs7g,R1,A6y6IsmkO6y6Y,!DLqoeRsmsS,AjvyE1Ismv,R1,!AsmvEdI9Ls9rNsi7O5R4SU1Y,!C14EnzbH12QyShT1,Csm1GrnrMr5k,Lrc4,U1,!Bnu6Esh4InyyO1Wou5Y,H1,As2rIi0m,L1,!ArwaEp8jIsn6LslrOslfS,!Csl9ST1,Inch,L1,I1,M1,A1,Adn3Isj6Opvf,!F2N1S,!DLaN8R1S,Aang,E1,R1,Irko,!Erz1IrmuS,N1,Mels,O1,E3N1,Ha2f,B7G2Lf5gP1Ssmw,!B9Eq1wFd7aLrkcO1SWr7v,CsmtT8do,N1,!ESTsfr,!A1EslrIlc8S,En49Isay,S1,E5N3OsnwS1,Fn,S1,NsnzTsn2,A1Dsby,I1,Npyy,I1,Niyh,O1,A5c6C5L3M1OpwmSgmc,!Lo4iMrcsS,AsjfEsm6Isk7,SsikZ1,!AjxfEsjnI1LsmxSYrm9,L4N1Osm8,EeI6O1,Mr70,!EsoiIs90LsbaS,!EsncIsohN1S,DENsogR1,!Pslo,A5E2Inr5Y1,Lk3j,!A1nC1jE17HvIoLsn7NsjwOq4uR8SldyT2U1YZsbo,Wsck,DqijIsmjO1,!Esn7Ir91Y,H1,C1,NsotSsj0Zsj1,!EsovI1S,R1,E1Iojx,Aso7EskvIsow,CskpGr0L9N6P2S1,!DEsp0MsnqRsowS,IleuLskb,!Era8,DL2Nn5xOp2eS1,Or8y,AreyE5I2L1Od3e,Olq1,R1,!Ami4B1ErtyIsp6OsnfSo24,!Eso2Isp7Kc8wLsp5N1PnmcS,!Esp0Wg6e,Hriy,Rsap,ApxdEso4,FpgjLsoeRspaUso6,!A8qwBqvvC4Dr9hEru5G3IspdLmimM2N7m5O1RnqbS,Znam,A1,!BjdCitDigEi2GhqHhmIh6Jh3Kh2LerMejNc1Pb3R3nS2iTuUjVdW9X8Y3Z1,!Akq4DFobcKnlvMlqdNnphSTkbp,!EsjkInwcY,Kjv3,AsoeC1,E4H3IsplO1,!Es93ImpaLnqiSY,!EsppIjqzS,!SUsoi,DRspnSn0g,EshjNsprTs6nZryz,!AqhfE2I1SY,!L1Mnc8STkq4,!CrsjNS,Oiqp,!AicCrslE2H1,!CbF42fGsgvHs87KaL9N8R4S1Tnm7Vkjj,Lnml,I1,BsocD1NrxcRso1Vspw,A1,!AsnwEsq3Isq1S,!SWrsr,DR1,!E1ImpsSY,Io0g,R1,Cr3iTrvf,Ss7d,!A2E1S,CN1Zskj,Ald8Eso6I1Oo12,!Rsks,A1Usnj,Aso6I1,Arvt,I1,L3N1,!AsodCiHhKeOcST7U1,!Ih2uSUspkY,G1,O1,!EsqoFsdoImk3LrccOsqkS,G2L1NcsbTrwr,Llts,Togj,S1,A1,Ao7dRrfh,!T1,R3S1,Cjz4Sspp,I1,R1,T1,!Ls1kS,L1,AslyOlcs,L1R5m4,Aph0E3Ls94U1,Es95,R1,Tjct,N1,E1,Lsc0,A1,AdC8Fs6aG6M3P1,ArslErsl,Ap7g,Es2vIsi8,N1,E1,AlzcC,EsrgI1,L1,I1,H1,C9G6LomhMsemP1,L3tx,Ls9pU1,C1,N1,!A14D13ExIgLfO5RsmaSU1,!Am06EsruIsrsS,!Hrld,!EsqpHp2vIsruS1Usrb,!As5aEokgInugLic4SY,Emie,!W1,Wnp9,Esr0Isqt,!Bl9zDIss0K8LbmvNsrzP6R5S3T2VirtW1,ArkzXsr7,O1,Tqex,A1,!B3GrdvLnt1M1S,Nmgj,G1Nss6Ssmg,A1hf,R1,O1,Asq6Ess9Isq6Osrc,EssaIeca,Ghgo,G2R1,Ymdh,!C1RseaS,CspmSs9qTs9e,AssgIsqdOsg8,R1,G1,!AsrwEssnI7mrS,T1,CsaeTlpl,Ir47,C1,A6E4I3MmlvU1,AspqC,I1Usrx,NR1Tsrv,SsroTsr8,!A1EmusIssvRsqxS,CssuSss2,EsspI1,So4y,O1,C1,AnElFsszIkLbMrmfO8T6V4Y1,Ibk4,GropXss9,I1,H1,Bl8bIbk8M4OqwtP1,!Im40LsrsTsr9,CsnhGst6,L2N1Tst0,!Ess5IsduLi4uS,L1,Er4nHrzpI1,CsrfTbto,DN1,AscmOoqsUsnn,L1,!AssaE3IsthSU1,IsrdNssj,A1,L1,Bsk4LqbiNqzuTjil,A1Osgl,R1,P4ST1,OstnUsbb,MsfkTss4,ANgt6Usqx,A2I1,!L1S,L1,I1,Amlu,L1,U1,S1,!Id5jLsslS,Cst2T1,N1,E1,AstfC9LssiN5SstaT1,Grn8Tst6,I1,!EMst8Nst1Tsd1,!DRsu6,!AEsu1Lsh3NkhaS,!CstqEsucS,N1,Yrvu,O1,Sms5,I1,R7cd,Eo31H2O1,!Cjy7R5W1,AcEbIaO8Y1,Csu0,Cqq3Ln36N1,BsszRsso,!A1EsqmIsunLshhS,N1,Lsm8O1Vsnp,Msq2Rsuo,E1Oroh,!EsttI3T1,Pgi0,O1,R1,O1,L1,H1Lstz,OguxRrfk,RsipTsi2,E1Ir2m,Esv0GsctOsuj,Ed7fLr7d,HnfqOs9q,Aoib,C8Dsv4G7HfwnM5N4P3ReiwT2V1Zhuw,AsuoOsu7,T1,I1,B1,R1,A1,B1DsueMsefSi2cXsdd,Eoci,T1,Zr7l,A1,R1,T1,E1,T1,E1,N1,!E1S,L1,!AkEsuqHrd4LafeOdSbY1,EsvpIsvpLsus,H1Ksdj,!STs1x,A1,M1,!I1S,T1,B4zq,C7L2M1Rs96,!A2rC2oD2jE2cG2bHmowI1wKfpmL1uMkeyN1hO1fPkuhS18TaU1,!As9gEsvtIovmSY,!DHryrLsiwRsw0S,E1Isw3,L1,N4P1,MsokNsw3,O1,R1,MrhnSsvf,AOsvfU1,DsvdUsqj,I1,!N1S,Nczo,I1,!Bo6fCr6qEsvbGm9vId83M1OfswSTohcY,DR1,E1Io8eY,!EswhOq5vS,N1,!I1,!AsdvEswkIsngObnlS,CswlD1Zsnb,I1Osdk,!EhLfOcP7S4T1,E4qm,V1,Bf91,Cs0xD2M1,Oq1l,Losd,As87EssvIsww,V1,!AsadIsepS,T1,BrtxOstqVs6o,!I1SUs9d,T1,I6N4P1,Y7u4,H1,T1,E1,Ass5O1,R1,O1,!ApqjEsrdIsxbL1,Is28,P1,IstsLsv5,NsxgOsqhVsqf,!EsvyI1,S1,S1T83d,AoEgH8I6O5U1,ETssq,ArszEsvhIsxl,!EsxkR1S,I3U1Y,Nmaz,I1,R1,NPs0h,AO1,Th0k,P1,AsprIrzp,N1,Ooal,R1,T1,AGaI8M6N4O9S1,BsokNsy2Oe6sVfd2,!Asy0ErjnI1LswnNstcOsy0S,T1,Vslv,C2R1,Dsbd,BsoqNsu8Tduz,!A1Esx3Isy8S,Asw1CswnM1,Ln35R1,Ci,Ast9Esw8If3w,Mm1hN2S1,E9I8O4U1,Oq51,Aqxe,Nsb5Psxb,Ass7Tpo8Usvo,I1,D1Psyi,R1,AsxxIrzk,R1,D1,N1,O1,Asx5Esyp,P1,Alh0,Cqzo,AaH5O3R2Y1,!IqlrS,T1,EqpmIrzrO1,ApnwEsyx,E1OswvYgsz,L4k3,E1,Y4k6,R1,A1,Asz4Esz8Isz6,!Esz9Isz7L1Osp4SUsy7Y7hc,Esm9Ygu1,MRqsz,AsszU1,AsbmE1,ClqsDszaZsl0,AssrIe5kOrwj,T1,N1,!I4O1S,C9wq,Y1,Es0cIply,T1,D5N3S1Tsin,Epo9Usyr,T1,Ess2IszfY,T1,Ast3IszhY,R1,EszkIszkTsv7,S1,A1,IsqpOsxq,T1,E6R3Y1,AbE9H1Lr4sTsn0,!AfsqEsyhIszz,Op79,Lsbi,Msgk,A2O1Yshu,!AfgzCb6cH5S4T1,Cs0x,E1,AsxqUsuf,E1Ipmn,N1,Hr6o,C1,I1,H7O4R1,GmmbNa9c,I1,!A1zB59nC1lD1iG1gH1eK1bL19M18N15OvPiQq0vScT3W1,Et09Nt0iOs3a,EswhI1Y,R1,U1,N4y9,Ank7,E2G1,FaenN1,Bsr8NszsSszqTsi0,A1DTre5,Sjlk,Nt0tVswk,Es5lI1,!ST1,Li36Nt0wS4T1,Ahn6EsysIt0w,T1,!AaE8I3SU1,IsqvKqit,C1,I1,LszmTjtw,A1,Sbho,!AsieEsz1IobqS,D1Sh5g,I1Y,Nqc2R5V4X1,Unes,C1Nt1b,!Et1dI1S,D1Tt1a,LszxTsz6,A1Isx7,Rsz6U1,N4T1,!Enm7Iq0l,X1,E1,E4Hd1jL1,It1cOszgY,EjphIsiyOs8k,T1,U1,AlrpEszlIsxm,R1,E1,!C4SV1,Fi44MoixS8oq,Ercu,K1,C1,I1,!Ijr6Lt0jSTt00,!B6ecEGt10L1STs35,!A1Hs4pIhiqNt1gS,N1,Vhtm,I1,T1,C1,AdhmUr8d,As8uEt03It27Y,C2R1,E4I1,Bt0nOt05Vsva,I1,DlalS1,A1,Asr5EmIlNhOdP5U1,AdhvEjoh,N1,!AhorEt2jIt2hS,B1,R1Sflo,!ApoqEsudI4Lt15NsxuU1,KskmSpcp,Ot0hTt0oVt10,EsvoI1,S1Th59,R1,Ag9aE1Ip02,!A5yB5xC58D54E4rF4dG4cH4bI2bJ27KfqiLqplM1tN1qO1jP17Qj1bR16SdT7U6V1,Tt1uWt1u,Asp8I14e,Lt1vUsk3,O1,!Isf8Lt1h,Ct1yT1,N1,E1,Csl0EsutFmx8L1,!Enm5H6I1LsxaOt2zSY,!AsoiEaKcmrOt30S9T1,Et35Is85,Dt16It36Ut2w,!Et37IsqgL2O1S,Ot2bUt2b,L2RszlS1,H5e7,C1Rt38,Ab6kEt16Usl1,L1,!Asy2Et27It3cS,N1,O1,!EnwaI1,O5T1,AqaoIslbYsol,F1,Olg2,Yqwm,EbchL1Rovn,!Arv5Erv6IsugOoilS,CneyD4G2L1Nt33St2xUt3f,AslfEt35I6O1,!At3m,Ao63,O1,EnoaIsoc,!G1S,G1,O1,Ot3n,!C6EsvqF2Lt2iNrp7SptyT1,Es9lI1Lsy7OY,It31Tf5n,Ld9tN1,!AuCreaEsIlNmupRdScT3U1,Rofw,E1,!Et35Hmx0It2yST1,At3mEt3m,R1,OjkiT1,!AecBmnqCdqDchEc8Gc3Ht46Ic1JbyKbxLb7Mb2N88O83P7jR1hS16T7W4Y1,I8rx,N1,N1,E1Ft3fUoe5,Et4bI1bdOqzy,T1,Y1,C1,Et4fO1,!At3tRt4gS,E1,G1SfixXt3q,N1Rqq5,!At0aIsvw,!C1Ssym,Cqyf,I2O1Ut3u,A5L1,GrpcPl88,O1,R1,At4sCs36,I1,R1,O1,!G1LTs54,!A1IsvtS,Is4vM1Tt4yYsq4,S1,Msa2,A2O1,EbT1,Ht53Nso7,O1,Ch3nSszf,I1,A1Et4a,S1,Cs75,I1,T1,U1,Yav6,It57TrslY,S1,O1,N1,E3ov,E3owO1,D7G3KferLfncP1Tkpz,E9Iqy9O1Y,C1,A1,Ese7If61,G1Xt4x,N1,AnIjM4Ot4yY1,!At55DkcqOporS,CNt5wS,E2I1Msa0,!It1d,Eok2G1hL18NuR5S2T1,Eqwn,D1Gsob,Et09O1,L1O9ue,AsrxEr5dIt10,C1KshrN5e2Tt55Znwt,Loq6,C1,Y1,Cszb,I1Ot5q,T1,Tguk,E1,OnqbR1oj,Lpv8,A1,H1,T1,H1,!AnpuIsu6OoruP1S,!Le6bS,LqqbNt6j,A2O1,N1,!E1S,Ikwg,H1Ycau,BbfCeL8M3T1Xrlc,Oi62,A5f5,L1,H5sb,P2g8T1,Rr46,U1,N1,O1,T1,E1,Nb,A1,P1,O1,R1,Bsp6,R1,A1,C1Ua5u,O1,I1,H1,!AlB125EjIsy9KdP8ST1,L1Tgtb,A1dC1aE17IpquM15OqTpY1,Yc23,C1,O1,M1,O1,R1,H1,C1,O3qy,AijtL1pNaO2R1W,Przw,L1,E1,IomwOsbzY,P1,O1,R1,H1,Dnr3T1,Lrvo,E1,Bn87D9N3T1,M1x3,R1,Et84I4nw,N1,E1,L1,L1,A6E1,Psvy,ANrq4,I1,T1,Bn8kP4S1,Eqge,M1,U1,Nhx2,E1,T8xp,I1,N1,E1,G1,O1,R1,CrrcEt8lSt32Zszh,Eru2I1Y,H1,P1,O1,DdLqsoMt8eP6S1,AEt6vIt8zUt65,Esf5R1,AyHqIlLiO3T1,!At8jL1Mrg0SZt88,O4xe,GphpLs6bT1,If9gO1,!AsgsIq1iSY,M1,B3G1,S9d,Pskx,I2O1,Et3kG1Xt8i,E5O1,Et9cUt8j,X1s2,I1,B3N1,Aso2Et9gI9nk,!DM1ST222Yt9i,CsmjEn8uLt85Npem,Roz7,A1,!It53Mt52S,M1Pkqd,A1,R1,It4oOooq,Asxc,!C7G3L2Nt9rST1,!As78EbIaO1SYsuy,At4sOmun,Ha8h,H2t,T1,!C3E1S,L1,Et9zIt0vY1,CD1Zskx,AsrcEta1I1Urqx,T1,Dt14Nt14Tt96,Aoh2,E1,R1,Sqp2,E1,I1,Vt58,U1,R1,Y1,P1,L1,O1,N1,Kf1y,O1,T1,C1,U1,R1,U16b,M1,O1,C1,Lc2kTt9v,A1,R1,E1,C1,U6Y1,L1,AssaIt7f,P1,I1,Ou,N1,O1,!Csp2,!S1,LkwxUtb1,StabTssl,!A1S,L1,!E5Iqy8O4SUtaiY1,C16D13EvFpGeKf2sLbM8NrfpPq05R1,A1bEtafI1aO1,H1,Go2fP1,Oh1m,R1,T1,O1,T1,U1,Hqr1,T1,Msnp,O1,EcexR1,Ghsy,S8mb,O1,P1,U9p2,D1,A6M3N1Ppok,Rkf0,AcEry7H9O2U1,O3cf,P1,M1,O1,A38f,R1,Enlq,C4G2T1,Ghzf,E1,T1,N1,Ogup,I2S1,OsxwS1,Lji8,P1,Aqmy,N1,EcI5U3Y1,It82Os3o,R1,T1,C1,E1,I3nx,Vmiy,A1,R1,G1,Ikht,C1,DL8M7N3X1,N5e9,Odn8,R1,O1,Ar4rOsftU1,I5L1,Nt8kOkxt,!M21xS,M1Pl0fVsnp,A1,!E4R1S,EtdcTsge,C1,U1,At8iEtbm,T1,E1,R1,P1,R1,E1,D8GT1,N1Oopi,N3zi,R1,U1,O1,Pp4o,A1,R1,G1,O1,H1,T1,St9oTt9cZpjb,I2Y1,PrzoStdu,Cfn0Tok8,R5f4,C1,Gpcm,O1,H1,P1,At1t,N1brR2S1,Pcnf,I1,T1,L1Rsfu,AeEdIbO5U1,Gqql,!E1It22SUe6u,AshjIs6e,D1,I1,X1,Dqmz,O1,I1,R1,Yqvt,R1,O1,H1,P1,Bt7nRtduS1,Asw3O1,It1u,R1,A1Yqrw,L1Sqsc,Uhl9,D1,O1,EfH8It7xLrz6O4R1,OtcyVhq9,I1,T1,C1,S6d3,I1,A1,N1,N1,ElcbO1,It8hPekx,A8C2Dj84P5gcS1,E1,Vt5tZtak,I1,T1,I1,S1,N1Tob2,!EtfoIoq7STs1c,T1,A1,Sq36Ttb4,AtanE1,H1,T1,N1Sfx4,!E9PphgT6Y1,CsnhXtbm,Edq4,L1,Eblh,S1,E1,P1,A7E5Ob3tRch8UphcY1,T1w,L1,O1,!A4jBl0sC45D3lE38F32G2xI2lJ2hK7ycL28M1tN1rO1nP14RrScT4V1,!Ist5O1S,BrdhCrzwE6rN6eOitjR6dS4rT1,Prl2,O1,M1,Goen,N1,AmhbO1,!DM1OnozS,At9uE1It10,AtfsIsvwY,R1,G8S3T1,Hkey,P1,It7gO1,T1,Esv8It7iOnp8Srvk,A2N1,A7E1,Y9y,C1,IsksO1,L1,CtdmS,EtgoI1,S1,A4I1,!H1,Aqaa,Y1,Yb88,R1,C3E1LnppMpmp,O1,!CfvjERXstd,!SrgmTtcm,Eth6Isi6,CsvtXf1e,A1,Elmg,!ChydD4ItdqMtgdST2X1,At3sItcaO1,Nqii,E1,G1N,AbEaIt8bL4O1Uten,DthgS,Rqq8,T1,!IczcLtg6NtcvS,L1,Mrs8,E1,H1,C1,!A5IihxKs3hO1S,Mphm,O1,N1Rnt1,Hawo,T1,A1,Hps8,CqzkG5LfzpP2T1,AgC9O1QqifS,S43t,EkI2O1,Escn,L1,EclaRsmb,H1,Epa6,G8fh,A1,M1,E1O10p,Gs9dLsi1,O1,H1,T1,EtgpOs9i,T1,K1,N1,A1,A6Hba6L1,Cg02,O1Tl7b,AkCiFh5hGhHdItiqLtimNt9hP3S1Tb6e,AthpO1,C1lL19SoT1,ActEb0I9pL9eO2jPtbnR21T1sUthlY1,Ft9g,MtirSd9yTsv8,CS1,Rtds,O1,!F1S,!I4O1S,Bti1Vti1,A1,!A2S1Tokp,Zp8j,!Ct27FbLN5S2Z1,AtilRsbq,Iar5,Sn5q,!Oq5eS,Atj6E2O1,Ncg0,U1,!CtdtDjv4LN6R3SY1,Ls5f,I1,L1,Otci,L1,A3O1,!Ot78,Boz5DtfeNeRscsXryc,!SWs70,L1,!E1S,!BmnvEtiiItjnS,DEsptR2T1,EthlItjpOsdf,ObtzRncx,Hktv,!A9E4InozL3One3P2ST1Ut4jWox0Y,!K78jS,C1,I1,!Eq59ItjwS,Ftg8GmkoLoamMpuyR2cuSe0dT1,Tseh,Ao3aIr6uO1,!If0aLtilNtfaS,L1,A1,I1,Gp9uR1,Utd5,!Q1,!DPc4gS1,E1Ilmj,R1,O6U1,!A10CuEtIixtKjL6c4NgOeQn7nRcST1Utjs,LmjkOse2,Ikx4,D2G1,As5z,Is7gOe5y,!DMqvbRtkfSW1,E1It52Rgbe,!Fp67Msx9,G7t1,!ClocO1RrsrS,EtkeSrt8,AtklI1Y,EakiMi04,O1,!BbC8D7Fp6eItkqPqykR5ST3Z1,Fojg,Oncj,!H1ItfqSWqcp,N1,O1,EoyjNtchSqax,!Bp0j,EoloI2Y1,Es0fItkqY,Ihua,L1Rsl7,O1Un66,Cp1qEtkv,I1Y,!Kt2rNovsT1,Img7,A1,!BmpgEdFrcvGaHkv2Lj15M9N6Oq45Pt3jS3T1Ws8o,!KtkaS,!DMs9tRtl8Sj3k,A2E1Iczn,Fc8zRSt8dUtlaWtla,Hp0q,!Tt48,MPtldS,!A2DILt8aOt96SU1Wp74,!AnefEtkcItlhPnenS,R1,E1,Rlar,!AtbbS,M1,I1,A4R1,!Ft0oNt6aS,GtceRrrp,!Ct2zEtltItlrSY,Rs0oW1,!A3BovsEtlvItjnO1S,Roc9,A1,!AszbEtlyHs3aIt6gLt8qS,C2StcaT1Utlp,EsftNt90,Lr7eS,AoCnEkFhGcIbL7O3S2U1Y,DR4r6,!E1Itm2L67sMnl7S,Atm1EsdhIsdgP1,Rt45,O1,!F1Nt6rSihdTtl8,As8dOtl7,Rsr8,EsfzUt6u,Ctm5DRtm8S,Elzo,!B3E2ItmcP1,Se2c,E6H2U1,EtkoLtfn,!E47tS,L1Pjbf,!Rojb,!At7a,!A3CtljD2LgbbNtllRtkmS1TsniWsp9Y,Arvf,E1IreaOnn7,!EtliItmnOtmlRnk9SUtae,EnfaOt4f,EteiNtmqOq8wTm9o,DNtmpRtmoStltYtdp,EtmpNt7cSnjs,!E2I1LtldNti2Otk4RruxSY,EtmrLth2,Ftal,Eq0eI1,!C3ELST1,EtmpNtmyPsae,ArvfEtmw,L1,A4EtlvI3U1Y,ItdvOrqb,T1,Ht4uLtm4Y1,C1Ltm5NtkgTtn2,Ood8Rcbt,Op5w,Pt58,I1,R1,!CsjsEp60P4T1,!DnfnItmsNthuS,Ztlq,!I1,!A3LtmfOtkqS1,At56EsawHfbwOio7,!ItgvOtlb,!A1bB1aC13D12ExFvGuHtIsKpNhOdPcS7T3Ut88W2Y1,!EolgItecS,LsgxN1StjbUtdh,EtafIojx,Dt9fNtmm,!AldeI1Oo6gS,EthvOtmn,!T1,!At14DFn9dL5R3S1Tn2i,Etj1Gtkj,EtfkN1Ttnp,EtnuItfc,Wtmv,E1,S1,S1,Uokg,!I2Q1,!AhzbEaI8Kt5lP7S1Y,CtkuTth1,N1,A1EbymIto2,U1,Ato2Htn6,Ctch,U1,Cs6qNto8,Etm4I1,CtmbGlngN5R3T1Ytnb,!EthpHoy3ItngUtnb,Koy4,Mhki,S1,A1,L1,H5,Tteo,E1,G9J8P4QqoyS3U1Z85v,AbIj22NtoiO1,Oekc,RtmoT1,AroyE,Cq71N1Vc95,A3I1Oton,EtooUtnr,G1,!EtnaItosO1,!LrbnS,!AtnnEtiwItouOtn2,C4xjRm6u,!EcvqItowLsamS,L1Ntov,A3EtowIxyO1,!CaH7IitfMpbxO6S5T1,!PlgqS,Es2n,L1,DRhsjS,Omvs,!B3E2F1IolqMsdoOq82Pc04Ws71Y,H1,Ii2jUtoz,P1,O1,R1,H1,T1,N1,A1,AtltC1D,!E1Ip1cLtcaSY,Alq4EtjjFpbcLsbp,Pkrb,S1,AtlkEtpmIta4O1,I3oe,!ItljRrjw,!AnChEtfjFpuqH7I6MgjwOtniSbwwT3U2Y1,Bto1Lto8,!A1EtprItppMse8S,T1,O1,LtpqS,Aj4dLsz0,Et0vL1Ntl4,!E3I1Yglx,Z7y2,Ak5l,C1,AsuzEs6tI1Ltp0,A4Z1,!A6yB6xC5qD5nE5bF5aG4tItq1K4qL41M3yN2kO2iP22Q1yR1hS12TeUVaX6Z1,Etm1Itd7Otks,Bsn0RtiwT1,Ip6q,Npjy,AtjlE1,!ELtq5STtld,A1,T1,!AtomBs9bDHnj6K6LjajM4N1Rtq8STtq8,A8E1I7ajKnnvOsuf,Etq4Sq6hZth0,I1Y,R1,Ckt1Tr04,A2O1,EhfyIgouY,AtptEtqgI2U1,Spy0,E1,H1,T1,O1,Hsx1L1,E72e,K1,O1,!MsfbOtbcP1,Fqi0Vtjt,!El6lFsdnI1S,!C7Es86ItqvLtpgNtm5S3T1,CtpxDscaN1SoexTnuw,As7vTtoz,!I1,R1Tsw7,!E706,H1,Sbaf,IszbLnzo,!A53bE2Lsw5O1SWqry,!DLnkeRtr3ST1,Hp80Ppss,MnkyNtr8S1,!EtraItbsST8s,GrinSs3e,BtpnItp5RTtmg,G121Ntbw,Cjhj,!A3Etq8I2Lj7aO1Spyu,!AfCdE9Fri1GsypI7K6LsdmNp7fO5ST1Uisk,Emus,Mtap,E1,Rru5,E1,H1,!G6L4P1SnhiTtan,CDtrkNl9w,!AsrsS,M1,S1,E1Isso,StniTtatZtm0,Y1,D3GhkgIto7L1Ntrr,!A9I8O1S,!BoyzEtqqItcfSWpyyY,R1,NtqyTtpzZtn1,!AtnmEtqyI1KtqjS,C1DmimSs44,CazQrc2,AtrcOtpwUtm9,E6I3O2R1,H12lM9T1,!Ets6Its4SX,U1,Atf1,L1,!ElazS,!A4DFq3bG2Lj86Mmt5Nts7R1Sq2r,Ye7m,C1,AtsaGtsaI1zcO1Utmk,LRtph,A1IskcOsv7,N1,EtseI1,D1,U1,EoueN7T1,NtnzOqer,EgkmItsl,Now1,I1,M1,L1,E1,Rqh8,!FrkfH2PrtqR1S,!AsioEkFrjgIaO9ST8Y1,BtfhVtr8,I1,DsoxS1,!BtjgCijkS,AsmoIsf4Ojt5,AnzcOoqz,Eor2IsejUs74,IjbmOtg3Rovg,KtrgStrw,AruoEq3vI1,Ks3zTts5,A1,Hql2Isxd,GkunTql3,I1,EtcfR1,!AdBcDbEts5FaG9HsaoIttaL7M5OnnlPtblRp49SnnoT4W1,C30Fe9tG2tI2fN1xQqtqS18TiUfY1Ztsd,!AtroEts7IosgS,!Etl6LtryNtonRtrf,CtsfT1,N1,AsusEegqIttg,R1,!A3EtphIk90U1,!EtseIttjLtgdS,!CsflD8S2T1,No8v,A1,!I1S,T4y8,I1,C1,S1,!E5I1S,Tllv,P1,Rj6i,O2T1,!DEttvOts6RttvSTttv,E1IttyOts7,!G1,Iqol,A1,R8or,T1,AbxzN3O1,!Rtsq,!Iri7,T1,N1,E1,T1,O1,Htm0MtuaTtua,Ubot,P3S2T1,Etu7Fq2oTruk,EtkcI1Y,AcCsgcI3T1Utop,Ot6h,R1,H1,C1MbevN20hPsxb,Rcmw,E1,C1,O1,I11rSsdy,Rrze,Mg5c,S1,O3Y1,H1,StsyTtdy,NPn7q,Arv9I2O1,R1S4im,AtubIj8iOtt9Utu5,A1hB19C15D12IxNkOgRcSbT6U2WtuzX1,Ctt4Tto3,BthqN1,!Etv2Ltv2S,L1,O1,S1,KtmnTt8c,KowzStua,A7CebfEtr9Gbc6M3N2Or57S1,!DcarS,EsryItuc,At8sEtu8In5qY,!L2ST1Ztn2,Htmu,G1,!Hp0o,!AttuBmrrEtudHtb0ItviLrx2Msk1S1,D8Is8lNpb7Psh8SqqpT5U3VtilW1Ytvi,Kbpa,Gsdl,!GpbvLtigOr28SU1,GtdoTtu1,CNtg9Stpw,!AstbEog7I1OtjfSUtpx,!DLsp4Rto4S,EtnkNtvsPsj8,Etl6Iqo4Y,!Ej8nIpekLtueNtr3S,!A7B5E4I3Lt0vM2OsiuP1SUrh8Y,!EtuqItvvOtjlS,R1,E1,D1GtmmKtnd,Rspm,E1,Ss4nTtu3Zt6w,!I1LtunS,L1,P4b1,A2I1,!Eoy1IrmjLturNtrgY,At9mEtvz,!Etw0H2S1,AtpoCUtqh,!I1S,Cq80N1,Etf0O1,A804Otjn,I1,CvGtMlNhPfRaS7T3V1,!EtupItsdWsz5,A36E1gI17OyU2Y1,OsvcYtb2,L1Pmeo,Ir3kO1,!ST1,Irv0,CfoaN1,O1,AtwnCTqj5,El4kI1,Om3p,H1,C5GrptN3T1,A9O1,M1,U1,E1,EtknH17g,C1,!AtvcBp66EtvvFq82Itx0KgqmSq7i,DT1,!E1IotnMn3pSY,Tju8,N1,A1,R1,U1,!C1Steu,HpcmK7O1,Rqn4,G1,Srx6,!T2m6,A1TtebUtrm,Rrcl,A1,IryvUtrp,L1,L1,Y1,H1,C6MqpgP1,L2sr,!O1,Ljzb,O1,!AgDsjhEfGdhgIdLt2sO5S3Z1,CekwStogZtog,!Ar5vEtt4I1LoypRtvvS,CmfzMtxsStvwT1,AtxtPtxt,I1O6n0,N1,Mjdn,O1,Esi5ItxrO3R1Y,Ne3u,Tb8i,O1,L1,I1,In03,Tptm,E1,!DtraLtg0Rty7S,Etq3L4k7Ntyb,Isrm,L1,L1,I1,!E6I5LsknMsmyST1Y,CaDtyfS8T1,!EtxcItj1Ot1aSWt16,N1,!EtuiHsypItyjO1,!GjKfLtmwN4S1T8dn,!Os6rS,!Bp81DR1SWsm2Ytyk,E1Ije9Y,Cc4wEtwkItyo,Mte0S1TtwrZrvg,Ge25Ntyo,!I2O1S,R1,Xsdm,StxoZtt3,!Ats9I1S,C1StxqZtt5,I1Omvj,!Tshj,!A6Cs6tDItyrLtltM2NrytRtyxS1WtrqYtwu,!DMsnjSWsgw,!Hnrx,E2Iq9oY1,Y2i9,!M1SVqg0,!Hpfz,Upq7,Sty8T,!LtxtNtuiRS1,Atx4SttiZta4,!Ai7xI1KtqpOtwmS,C1Etz3,B6E4I1Y,CbNtzeO9S8T1,Ctz9Rts7,!EtzhIkl9OrytS,DEtzeN1RtzeX,ACUtwnZtmj,AtxaGI1Oryw,CqizN1StydWn6w,AtydEtvjItgw,T1,Wn6z,!A9E7I4OstdSiuuU2Y1,AgkfIsr8,!ItstN1S,Er8f,G1,R1,Neng,O1,O1,E4R1,AthwOtbr,L1,Y1,R1,Omn5,C1,Hcw2,Dqo3T1,C5L3Mb0qN1Trae,Dn3k,A1,T1,Rt4dU1,B7lo,R1,Rtcb,T1,N1,Osd7,T1,Igiv,H1,P1,ItreO1,T1,A1EtyiIqb8Y,M1,O1,As3qO9R1,Rfyw,T1,S1,IriwOrdq,Njse,E1,D1,N1Tu0v,Y5hp,Hstj,CsguStfkT1,AqEnHcI9L8O4R3Y1,Lmqe,Y1,T1,C1,R246,E1,P1,PaudS1,A5I1,Lt8u,O1,R1,T1,C1,E1,Rs2l,B1,!I7znS,R1,E1Rtpa,T1,L7M5NtikS1T14i,CEu1gSu0iZtvx,I1OtpfY,Lu0sM1,EiymItsl,N1,!Itt3STt6k,T1,O1,!AtvaIu1nSUtw4Y,N1,!Eu07IpdrS,H1,P1,A1,AcEaL7O5R1Yhw1,Nu21Stxu,AtvtO1,R1,D1,Oszg,T1,S1,O5ia,R1,D1,E7I4Y1,Yqj0,CSex1Ztda,!AtjpI1S,R1,Lrom,C1,U1,N1Ut5f,!Irb2O1S,H1,P1,R1,A4tfE9O1Ysxa,Idb6,R1,U1,Atm1Oibv,E1,L1,C1,Au2wI,E6O55bU2Y1,Ej21,Ys1c,L2Mu24N1,Thpf,P1Ttm2,IruwOtqvY,G1Shp5,N80j,E48o,G1,O1,R1,P1,O1,L1,Eu3dIsfwOt68Y,N1,Etb3,L1,AdEcI5O3Y1,!Du2l,Dt4vIu3nRu2mUu3d,P16i,O1,Ytgr,!Atq4ElH6I5LsfzNtk3O4R2ST1Uu2u,Y7ik,N2ysSi81,O1,B1,H4I1,Mu2wRfje,Ci1x,I1Youg,Ftly,L1,ItzgLu31,B1,A1,L1,Epi8,A5iiD1,L3N1,!A7n5EsgzOcTaU8Y1,Hrmb,EIu40Y,C2N1,Mu49Tsmt,S1,I1Nu3e,E1,Nq9o,E6H2O1Yqtt,Rtdo,U1,T1,A1,S1,Elv0Itxh,N2R1,Lqlw,Yu40,N1,A3I1,Au2nItvm,O1,!A4pB4lC3tD3kE37G2sH2hL2gM24N1vO1sP15R10SnTeU7V3Wp83Z1,!A63DtrxE5wI5iKj8xL58O56ST4zY1,Ervv,C1Dtz6NpyfTswh,R14c,!G1LtziS,Rsye,ELqs1,E1Iu43Y,Uqxp,O1,D1Ntzo,Mu54Nu54Su0yUtv4,!A2O1S,!AbE9F8M6OodsP1S,Eu35HtzsIu59,Su4cUtv8,!Au3nEu46Iu5bO1S,DR1,!E1Iu5dSWsst,!EqqrIc9nS,Ap4hEu3x,Lu29Tu39,!A1Eu59,C1,EqcjFu5hI1,F1Lu5iNu3y,Eu5dI1Ojmf,!Iu5mTkf,CeDaEe7yG9I8ST2Y1,AtisEu3x,!ST1Y,!Eu5sHqatIu5qRpgpSh7v,!Su5c,!EtxlHsn6I1Lu4dNu12Tk77,CsruDnjvF4Hu5sL3Nu5rPu5sR1Vu4u,!Drw5Lp6qRu3wSYtf3,Jspz,N1Ssta,Eu57Itwr,Nu5wT1,Au48I1,!Csg9Htli,Au5zEqh4I8qmLu0aY1,!Iu53Y,!IalnLu4o,Cu55R1Tkyy,A1Iq8qOtw2,L1,!CsghEdGtbbIbL8On7aP6S5U1,A8gv,E1,!Isy8LtbbS,N1,I1Nsjn,A1L5dw,L1,EIO,N1,E3Hu5nI1Uoww,!Eu4rIb8cPorgSWt97Y,!GjdsS,!IqywO1SY,Au6jEu6dNu6jTtpn,I1OplgY,R1,Y1,H1Ogrg,Gq1v,D1Nnpj,E9n1I1,Nkmh,E1,Ansb,Bq20Gu15LssaM2Nu2xP1Trkc,Use7,Du6xTjqv,!AtkeEu71HsodIu6zS,DN2R1,Oao4,Nsd1,Csq4Eu61Nu74O1,Tu18,N1,A1,!Iu0bSUu65,T1,I1Yqgz,A1Eu2l,Ashn,L1,!AhCgEdFcHqieIaLlqdM7R3SU1,B15CxEu5aGu5gIobaKwNuO4wvPpRmT1,EtyaIerp,Nu7hO382V1,Ogk6,!Eu7kI2R1S,Eu7bNu3hT1,Du0lS,!Au6wLtufS,N1,Nu7oO1Vtzw,!E4I1Otem,!S1,!S1Tu7o,EpeeY,ItycL1,B1,E4I1Uu22,Rrqn,O1,Ir38,C1,Cu6r,S1,E1,L1,O1,Trqv,U1,P1,Ptmr,Y1,L1,A1,C1,O1,Rgwa,OrioTrek,BjChDcGu7gLu58M9Nu7pP3R2T1Xu7o,Etj1,R1,U1,A1,L1,A1,C1,C1Gu8lSu71,Lu7a,B1,UrouXu7wYu8o,A4ErusI2O1Umst,Aag,T1,I1,Dtdv,P2R1Vm6o,Ssw2,S1,A1,G4ec,E1,L1Of2g,PrrvRu86,E1,Ugx2,Ar5s,N1,O1,Nrs1,E1,C7Q6S3V1,Du8dIr5zLaN1Pr7jRmueUroi,NoiiSu8z,A1Iu54,AjLgO3R1,Djhf,Ag9z,T1,Ats8U1,Eu4a,V1,I1,S3kz,O1Rrs5,Ursg,L1,A1,AcB9L6P4V1,I5bm,T1,!S1,E1O5aw,LrvnV1,Rtxd,O1,!ST1,C1,Au09EaI5O1R5ed,!Ipao,Nsyq,O1,Y1,R1,Cu3t,N1,E1,G1,R1,B6E1,Ls92,A1,H1,P1,E1,C1,E2d,L1,I1,Ooo8Tu8p,Lh7y,!I2NuanO1SU4o4,Croq,R1,Er40Mr7d,I1,R1,E1Orif,E5IsqqP1,DuEu8sLr92MkNePbR8X1,Cu9zUc6a,Nco,I1,M1,Ru9gXu2q,Enr,Aa49E1,A7E4I3L7wtOq4pR1,Ig9c,L1,G1,Mu9nN1,T9kb,A1,U1,D1,A1,A6LjryR1,Vgzd,R1Su6e,Hpep,R1,R1,O1,AuagM1,Dntc,Ut4z,A1,C1,EubpI4O1,L1Soux,Mu1p,Nrlc,P1,AfEaO4U3Y1,Iu79Lu73,A9s7Eub6,P1,G576,U1,Dr59,N1,E1,P1,Tube,S1,E3U1,C9hl,!A9D2FrafGuc8JrafO1S,Irv2,D1,A1,R1,Hrhd,C1O9ht,Cs7zLkMiN7QrcwR3S1,Srmk,Nu1lP1U9uz,Erva,B1Trpu,A3I1Uty2,Ir9aKucm,Oczh,T1,C1Rtxe,E1,T1,NR6S1Tu61,Vuc4,E1,I1,Uorb,A1,P1,!O1,D5N1,N7yq,Al0tN506,N1,E1,L1,D5L1Sc9c,Nkqu,R1,E1,D1Rgum,AjEbI5O1,Ara0,N1,O1,AtprE1Uryr,Aqfo,R1,E1,AucvBowqG5fo,P2R1,Trzp,IudpR1,Lroc,OtniVtjt,I1,T1,I1,L5Ntu9S1,Dud3,N1,Dfvq,I1,S1,Mmz3Srwt,A5E2I1O6f0,Agaw,N1,A1,O1,H1,C1,Y1,Rrw3S69,E1,B1,AoOiRbS4U1,Rq4y,R1,U1,Erpf,R1,I1,Lawt,O1,Crx1S6T3V1,Ar7uE1Iep9Ob64,Dmzq,N1,O1,AtfsC1,IrxkOu9g,T1,A1Uuek,L1,U1,M1,I1Rtjx,Ruaf,A5tbCuex,N1,!C78gEbHr6zT4U3Y1,Eu8gNj11Sudv,Prrw,I1,R1,Urxo,C2F1Lrpc,S1,N1Urpq,Trq9,A1,A3E1Iuel,AqmcEbR1,Nu5tThmp,A1,AueqEubeItzz,L2R1,LTrya,A1,N1,I1,C1,O2x,C2y,E1,C4G3S1,Asvk,C1,A3O1,A4bm,Orv0,H1,S1,K1,R1,Atz6E6O1,!A7lB79C6lD5yE53F4vG4lH44I3jL3eM2oN2kO2fP1pR1fS10ToUkV8W1,AszgEqxiHtjjI8iOtd7S87T1Y,Huf8Snf8,!EufvRueo,IubgO1,Bgw1Guf6Mtz7S3T1,Lpsm,L1,Is4lYug6,E2O1,LuaqTue3,A1LrmxOb37,!Aub9I1Luex,Cud7T1,Eue9N1,!BugdEughIugfS,AucuEuebR1,Du3jEued,L1OugdUtxr,Noga,E4O2U1,Csc3Oueg,CmziTpwj,A1Ieo4Utad,Rp62,U1,IufrO1,At9pEt9pObl2,!H1IuftTufrY,DEueoRelb,Atu9E1Inr7LufvOugsY,!AqBmEhFqrxHbIaL8Mt5eOu3uP5S3T1Zu3x,!EuesS,!EugzF1S,!E1cwIssjRmrfS,A67dT1,!AiscEufvIuh0S,Cu7pD1,Rjqm,A1Ops4,!AufgBfvqEufzIud1P1S,EsoIug6,S1,!Eug2Ft40Ipo1SY,C8naFbL9N7R4S2T1,Rud2,E1,!Eug6IuhbLpi7SY,R1,E1,Oq67,Osp9R1,!B1EuhiFt3pHsyuIuhgLt3oS,R1,!D5E1STu4kWp61,!Eug1IuhjVqyf,!AuhiIu8eS,N1,A1,L1,O1,Z1,AkrCkhDjzEjwGjqHIj6Kj3LcvMciNc3ObxPbjRacS1pTvUiVgW8X7Yu61Z1,Bu4eLkh0,!A1EudrIuhsUuc0,C1Suc2T7ev,I1,T1,Nq4u,U1,Oczq,Ijg6,!IgjfSu2p,R1,O1,CogbDuhcFtbrLin0M6N5S4T1,Cgk6Su8w,I1,T1,A1,M1,!DRui7SW3q2,E1Iuia,Rp39S1,Ljrw,I1,R1,T1,IuhgL1,!EuijImchSjdo,Cu96DuhrGuihK1,D555,!O1S,E1,CqtnGuh6,N1Qrj2,!EuenFqnrI1STjvm,OrdeS,E1Iuhv,DRj6c,!E1IuisS,Aud1CyEqGlHu75IiLdMuirNbOuirS8T5UuirWu8tX3Y1,EuanFsxqLuhfNtz6,!EucxI1MuhnY,H1Tuiv,!Aue2EuizItpiS,T1,P1,Chq1,S1,E1,L1Pu8h,A5M7cmO1Uceg,Euj7R4u4,Lhjh,Fpux,I1,!L1S,Bu11P1,Hrt3,T1,S1,O66z,AuiqE2N1,Or5q,R1,P1,Nipx,A1,MujkR1,Bp7j,M1,E1Iljr,S1,Dtfr,CvDnGmLlMhNcP9R6S2Tru0U1VlfaXuj0,Tui5,Kue2Suj3T1,!Aa4eS,D1,N1,Gt72,O1,L1Tu31,BbcLubbNp7qO1,Kuk0M,IubdO1Uucr,F4pb,K1,A1,E1,AeEbI7LnmkO5R1,Ukna,C1,AuffEukcIuka,!EukdIukbL1S,L1Ru81,E1,C1,Trt2,I1,Nmv7,O1,I1,T1,LcN7P5RuagShllTspbU1Vmid,!EukoIukmOsrcS,SpjxT1,!I21lSu5dY,R1,!Iry7O1S,T1,!EujaIqoo,S1,Dgo2N7P3RivwS1,Eq0iIop0,SujaX,U1,SugqUkw8,BujcN6inTr54,A1Im39Ouax,Cuk2T1,Eul0I1,AuiyNul4Oue5,!EnzmI1,E8NtkoO7P3S1Ttue,Nul5Rr7y,A1,DufhSqxs,E2IimeU1,AuklOub7Tujc,I1,Itof,N1,Uk6p,I66,U905,B3M2P1,Ir7sPugnRuaw,E1,O9qc,I1,Ctuu,U1,R1,C4OciT1,EkbuIrsx,C8Dk8vQcmS2T4xzV1,ChDug1GfIrifLcqMbN1O2tnPrjzUs0y,Ap9l,Ss22Tukg,AtwxE2I1,EujsIulwSazh,R1Tbq9,A1dE14H13ItLpO6R3U1,EqjbIh28,C1TtozWujv,Ap9tSs7y,E1,Iri5,Rr4j,A1,Nucc,G1,RtaxTuk1,A1Euk5Ium9,N1,I1,I5T1,Nuhh,I1,M1,R1,E1,A2s3Ebi6,ChFnjxLgPeS7T2V1,EulpIua7,T1,E1,B1L,EukkItsrOuhe,Bu4gMulhT1,!Ati4EumsItstOukzS,A2T1,Nth8,Ahzx,H1Oriw,Oalk,C2P1,AaC6Gqc9LqdjN5S1Vulb,LulxNulz,O1,S1,I1,Tqlw,NtopThw7,A1,N1,I1,C5M1,Nrpe,A19EqIcN8O2R2rvUuk6Y1,Mh5i,A1,L1,!Iucr,!EungIul8Ru6gS,T1,C1,E1,R7g1,A1,Eqsc,G1,R1,EunlNuda,!EunqIttrOtumS,Lkd0T1,B7E4I3P1,O4ia,!Aud5EumnIunsR1S,Lop2,B1,A1,!T1,Lu6zSllm,I1Pdua,!CnDmIunzLiM9N7RiswS3TruaX1,!Bt9qRktrS,Crwq,B2CueqDuibS1Tsss,!SUrqf,T1,!AtjjEaiqMumxRq4eS,C2R1Up7o,AkzbEu8mIuo7,R1,HuncU1,Eum6IuoaLtxj,!AunmEumtIuob,G3L2NlllRuilX1,As0jItii,!Is1jSTta4,T1,!A1EuoiIuogSUuel,M1,CmzxR1,Z6hm,Ht6h,E2S1,Nsr2Zqa5,ApbiE2O1,AmEiIcLbO6R1,Np7v,Buf9Ntw3,N6w6,A2E1,AdkE4Gpj0N1,Vt7h,R1,Afa7,D1Tugc,LufbOumt,I1,S1,A4N1,AumxCt7lEuou,I1Y,R1,O1,T1,RuifS1,Idl,L1Me4g,AfE9I3O1Ucqq,Nh7,A1,L1,P1,O791,CuklSda,U1,Iknq,V1,R1,E1,As85,AdmC8D6T2V1,GssiMaN1,EuloIuppMuoh,At3uNupr,EunnI1,C1,G4I1,D1,U1,Tu87,R1,A1,G1,R1,E1,D1,N1,I1,Euq3IugzUup3,Cuo8PdoT1Ua8m,CuibGuph,Asvi,N1Tuq8,!I1S,RuowTupc,A1,R1,E1,Buc3FuotM5T1Vuq6,!Es9a,H1,C1,Duh7N1Sr33,AeEdI5Oum2U1,I4ez,Clo2,A1,F1,!U1,!Iuba,T1,E1,Iu34K1R6ff,Rh5v,U1,Lslb,I1,DupcLdN9R5T3X1,LSr26,Ala6,CunsEe7T1,!I1S,Rpbv,T1,!Oe6S1,Gtlm,A8D5EuqaIs0pN2R1,!Eup4Iur8Subx,!R1S,I5uc,Alf1N1,N1,E1,L1,EupbIurfSuql,E7Gsa6L2S1UuloXpjq,EnbjIjhw,S2pf,AupsDuriT,StdlTtwx,I1,AuqxSuq0,D6I5L4N2R1,EIumt,N1,Cs18,AtEkIbO4U2Y1,MuqtTu44,!Tujq,A1,N1,EuprI1,Fu9qOups,I1,M3OuleT1,Mm4iPsdc,A9O2T9j4U1,NrskTun8,A1ItryYud7,P1,U1,C1,Os54Vtyb,I1,T1,A1,NuljR1,E1,Itzf,A1EtyjIlsf,D1,CaP4R1Vrqn,!Aui7EusjIushS,K1,ItoeOi7t,T1,A1EldpIusl,C4IusoR1SuitY2tw,Mlis,R1,O1,F1,NkntR1,!NteiSTudw,Cun2N1,A1,R5r,E1,D1,If7SjenTon6,N2Rkg4S1Tu0a,Eut2Ik7xY,Apev,Gut0P1Sf5,CuncMne7Nuih,!EurmIut4Ourd,S1,S1,E1,C1D7y7Fa3jG6gu,AfeE7I6O1,Et94,D1,E1,H1,C1,!Y1,AusrTpai,R1Sah,E1Lqk2,H7q,C1,B3CusmNq9iPusvR1Tusu,!A10EvItgkLsOnPmRdS7U1,Ljk1,A1Eut5,U1,Esc8Opss,A6t1,E1,Ruo2Su5g,I1,U1,I6ieUndy,EtjtSs1s,Uki4,L1,I3O1,CbG7tbH9Lft0NutbQ6T5V1,NubbOut5,Vuc4,I1,T1,A1,Cu8oG1Mblr,ArnhE7I6O1,!DFth2Ruu7S,E1Iuua,T4td,C1,!G3LusrN1,Ptjp,Lur8N,A1Euu8,!AupeI1SY,R1,E1,O6T1,Y1,Uptb,D1,Oo6y,E2O1,!IrrqLutb,CutsT1,N1,E1Nunm,!IrgiS,T1,BulkP1,EptkI1,H9I5Or66R1,EiefLpiy,BuhnTr19,Cf8k,DEuv0N1Ruv0,EulpMu1lNuv4Sks9,!A4E2I1LutpMutwNuqeS,Cuu6T1,Ouo8Vuu7,I1,BulrT1,CutnNuva,A2Eur9I1,V1,IuvcLrzf,!ST1,!AtwhLfN9R3T1,Koji,N1,A3b3IpiaU1,A97pOpiwR1,!Iu7vSug8,CutmT1,!DN1RuvjS,!LRuu7,A1NuvoOuvlUupv,E3I1,Nkvy,D2Ful4G1,Htq6,G1,U1,A1ErrvIt7f,AqbjLuvxNuvwRul9,Ckw5,E1Ldvp,Osm9Uutt,Efj9I9q5,R1,!Bq35Euq3Ipv5MespOuuaR3U1Wr34,!IizyS,R1,Tlt7,I1,G1,I1,E3ukIum4,S8nh,D3G2S1,!RtptS,EunyIu1eU5q,!Apj4EaI3O2R1S,Iri2Uuma,T1,Au7rEtanIusdMdw8P1,Gmx,M2P9grR1,E2ug,E1,Trm0,P1,M1N6az,A2bB23C1qE1aH16IyLuOtPrSnTbU6W4Y1,PuqySumwX,N531,H1,Vsaj,E1,Ops,EuwtI1,CuvxDqdvS1Tumr,Nl5kStrvTqe4,!I1,Rtb2,U1,T1,A1,ImdxM5N1,CdEuuzLbN8R1SumiXumi,Ejgr,N60y,R1,Rm5hU1,IrjgVryk,AuwrMje6,A2E2v3I1,EowmFucsLuvxNusm,!Iqg4,I2Y1,AqEbHaO7R4T1Y99mZuwv,Fs8oOuvbTurpVa58,I1,N1,IuouLu2fRjii,BuvxNuxlOuvfVupt,!Aa97EuwgI1S,ImcwT1,Buwx,N2R1,!Al41EuxrIuxpS,N1,NuxsO1,EuvoI1Ouw1,Auw5EpqxOunqS1,LugwTsap,A1,C1,AeE9I4O1Uus6,!MuxxNuxx,R1Stk0,AqdvIpyl,A2Ei8OruaR1,AebBdvCc4DatEa3F9eG99H8sI8eJ87K7yL7iM6bN61O5mP4gQ4dR3uS1eTnUkV5W1XebaYuphZux8,EtylIgjqUux8,P1,!DLkieRuy3SY,Euw2Ir37Y,!Er9aIp3eL1SY,E3Iq52K1Y,Eusf,!I1,!EqqwHu10IuybLtimS,!T1,D3RuybS1,Epz4Ihlm,!G1S,AuxxEuj4IuxqOp70,!CuwjGuxiLtxsRt3sST1,!DLux3NutsRqavSVuau,Auq2Oum9,R1,A1,V5pl,I1,!Nrd0P3T1,Etg0Iuyp,OuwzUuxo,T1,I1,N1,E1,In8n,D1,!G3R1S,!Iuxc,Luy1Suy5,!AjEiIcLuxlMbNuuaO3PuyzRsj7S2U1,EuxvIokmY,!HujsSqcu,!DspeL2S1,!IuuxLuxpSujt,L1,!AUuwc,A2EI1Luh8,P1,Cuz4Xuyf,E7I2O1,!Au8fEpjtHuetIujvLum5Mo07Ori8S,C2KuqrT1,Euz5Tna5,!AuubEuupI1LuxzSuk3Y,NuzdR1,!DRuyhS,IuuxOu3l,T1,!A1Osz3S,!Euy2Ikf6Y,Nu5p,AuymI1,E7IuznM4OupnS3T1,CuygZuyg,O1,!Eu5vLuybNuv0RSuul,OuxmSsqcVuusZuam,D3E2I1,CuxvT1,EupkY,Eq1qL1Tuxx,A3EuyqI1Y,Go7c,I1,Nrm1,N1,I1,!DF4Rv00SW1,E1Iv03,A20C1wDi6gE1rG1pLurfM14NsOpShTepzV8Z1,!Bs9CsdkS,Ifkg,L1,I1Lqvd,Dv07Gv07,!Ag4yEuyjS,N1,Nv0dO1Vuyq,Euy9I1Ouv3,B6N5T1,Cu4j,E1,!DN1Rv0fS,Nv0jTu1s,!Agh2S,M1,E1,AuyhS,E1Iuxs,D1Suzu,I1,C1,S1,AeEbIaL7O1,Bltc,BmqlPv0sYq9y,Dqbm,E1,H1,IuzyM5R4T1,Ruub,U1,Hlb,!AuufEv14Iv12S,N1,BurnNv15O1,!Aua9EuznI1Ouze,S1,D7EpvqP6RdthS1,AqwxEqwx,TuovVux1,AumxI1,!Al9nSum0,L1,U1,S1,N1,Tjmm,S1,Nv0lTu2o,A1,T7lv,S1,A5E3U1Ytf,A7ou,!Ev1qItxdSumd,D2LqwkR1,O1,Bup5,Iux4Odxu,Bv06Lv1rT1,A1Ev05Iv1u,M4R1,AyEpHoLmOhRaT6U1,AuwcIuf5Y,G1,LTu25,A1Ev1y,M1,O1,OuytVubr,!I1S,Euy4Ir8hT1,C1,!DqigI9R5SU1,Tte8,MnswNrraS1Tux6,Au8xEj6hIs1e,N1,!IeezLv0xS,L1,!A1S,N1,Nv2hO1,Lv11Tutg,A1,!AuxgI1Sun8,R1,!EpnbI5O1,S1,S1,Ijh7,!OukgS,DEu8vR1,!Au43E1Iv2rLuplSWsgr,C4LutgT1,Ghhn,I1Uuq8,Duav,N1,U1,Duyq,N1Sldh,!ApEdFq0yI8L6O3SU1,Ev2tTtm9,I1Y,AsfxEswlIv0yOtu3,T1,N3RuvjS1,T5o8,T1,O1,Hcfh,T1,!Asr7S,C1,I1,Ev1aIt0aT1,S1,A6O1,BjnbTuyw,A1EuzhIuo2,!Ev2eIuo3M1S,Dv1yM1,Nv3mOv0bV5uk,!Ev24I1,S1,S1,A5E1,!ElGqjzLiNaR1S,!Ev3tI26cOuyhS,T1,I1,B1,I1,Ssat,N1,Lv2zNv3zOupbVua2,!Av2bEv41I1Ov28S,T1,C1Tv3z,E1,Bs96Ct3dMpusNv41PprvTv2h,AOs28,N1,E1,M1,!O1S,NnllTv47,A1,I1,R1,A1,!G6Pt7oST1,Cv2hLv04,!A1Iv09Nuzq,C1,EtvoI1,F1Nv3kXsuq,Ev2gInsx,!Ev4nInsySU1,!AuzrEv0lIv4mS,G1,Cm2hG3N1,Subd,AnEcI7O2U1,Ht92,Nt9xT1,Eb2s,Ctb0Ej54Iv0rOv33St9k,N2S1,Nv4xOv1mVuq8,Aue1Ev0wI1,!No1vST1,Nv50Tt54,!Bqe6EtqlI1Lv3lNv0aS,T1,Av2uEv2yIv52,G1,L1,!EdIaO7P4SU1,Ev32Iv30Ov2h,T1,Iuw2Ov4d,R1,H1,!Lv3wNv0lP1,!Ev5eHtfmIv5cS,!AuehDv3xMv45Rv5bS,E1Iv5e,!C1S,N1,M7syTu6fU1,E7mr,M1Tmi9,A1,I1,C1,C8a4N1,AhEdGcO7TtsyU1,El5pOsw0,!Ev4lIv5qR1S,F1,Es2n,D1,SrxkZuwi,Av5tI1,D1,Bv4aN1Tu73,A1Uunp,E6G1Nv50,Av4tEu96Iv60Ov49,!L1S,Dv61Ev60Ov5jSuwfYv5d,!Lu2o,Iu5zY1,!DunrEuxyLv4qNv1fST1,L5N4R1,Gv58Sun4,!Ev1jHu8xIt6rS,Cv4bSriuT1,CruxXv21,A1,L1,A6E4Y1,Uv26,Ev4bIv6fQ1,AsulOuwd,I1,N3Opq3T1,Ajca,Bv04Lv10Tfkr,!A1Ev6nIv6lS,N1,O1,I1,T1,!Out3,I1Uv6j,Nv6tT1,Av6aEv2sI1,Ymdu,Luj2NjecR6S2Uuy8X1,Ltj1,O1,Etk7N1,AuteIv6qOtdpRv29Y,T1,E1On3y,A4EtkbI1,L5ia,!Eu82,!A1Ev65IuxzOv0kS,L1,!A18E11HuIpJu0lLoMtvqOcPtsxR5STt5lU4Y1,Auz4Uv1h,G1,Auz6O1,Oosd,R1,Inl5TjduU1,Ut9h,Buy3Plde,I1,Eo43I3R1,Av5uEv5eIv5cOe3k,T1,TnhwU1,Nv7mSsy6Zv2p,Ev5iI1,T1,Y1,I8gq,!C6DL2M1N7goRv7oS,EuzkLv6cMv4vNrctT,Ogqu,Go7qP1,O1,!BhjlDqmvMl2lP1S,!Ev7yIld7Ov65SUv71,T1,!Ev80Is72OuxvS,C2R1,E1,!Ev7tIv72,Ct9v,Y1,Ao62,L1,!CruqS,CSv2fTrun,E2I1,C6G4T1,Sv41Th5r,Tgeh,N1,O1,D1,E5O1,Uv68,Ev8fT1,Mu9a,!AaH4I2O1Rv0eYuqa,!A17C13EuItOpPkSjT1Y,Io57,T1,C1GsgjMpzcSv4eTurp,!Nv8mSqmg,Nv8qOuddVv1p,!Ao57Iv8hSutfY,R1,!Av7lEv8uI3O1Rv42S,T1,Euzt,Ctm6Sv7w,!A1SUtpq,!DuzwN1,GdzyLr0uSv7z,!Am5dEv7uIv8zOv78S,T1,AdC8G7I4Nm6oO3S1Uv86,AOv2hUv68,I1,M1,I9zUv8a,A2L1,L1,Alji,T1,O1,N1R7l6,A5EuktO1Rs3n,Tux6,S1Uv3m,Oqq0,Annh,L1,A1,Av7eCEv9b,I1Y,R1,O1,T1,S1,I1Udb5,A7k8,Yv80,T1,R1,A1,!LTuf1,A1,M1,!Av1uE1Iv0sO58rS,Ool9,L1,Eatz,Mv0vTva0,N2S1,A1,Dva3Rd1n,Atb1H6L2O1,Av8gEtb1Ouee,T1,Av9kEv85I1m2,P1,RqytY1,Iv6qY7jj,Lt2wN,Art4O1,O1,C11D24hGyHrLqMmNiPaS8T5X4Z1,Lv8vNvaiOv8cVv8v,!EvakI1Ov8rS,T1,C1,Dv4uS28a,A2E5tqU1,Ruzn,E1,B1,A23E1pH1eI1cOaR4U1Yt2y,!Ev2kFtxkHoocLv9c,D1NstlSntq,BnbhSr7z,Ick5,R1,!Av6wDuxyIkzxLv9hT1,!B75zS,!DN2R1S,!DN282RvaxS,E1Ivb0,Alkd,Evb0I1,C1G,!A84tEv9zIvb4S,N1,O1,!EvazRv9sS,I2O1,D9N6RujeS1Ts4c,EqopIv3i,T1,A1,C1Knf4LvacSva7,AlEgI5O1,RSi02,!AuunE1Lv2vS,Lva1Tv4h,A1Iv7bO,EvbbM1,Eu9hI1Y,!AbgBatC9pD9eE9cF8lG7vH7qI7oJ7jKgjhL6vM6gN5xO5uP4eR4bS31TvUtV7W5X1,!N28pRv9oS,E1Ipcb,Noal,L8f3,!DL1RvboS,Ava3E1IvbrUvaw,ElxuGv6bT84s,I1,Inxu,N1,A1C,I1,S1,AvbkOu15,DdIcN9R7S2T1,!EvaaIv7yTf1w,At9Ee0IbyOhU2Y1,!Bql9Evc5IpujOtp5S,AEvbwUv9a,!I1SY,R1,E1Rva9,M5T1,Iv76Ova4,M1,L3M1,Hvb4,Iv7aOpkx,H1,!AIvc6Ov5uSY,H1,P1,A1,R1,G1,I1,P1,Lj5z,L1,N22f,I1,L1,O1,Su2d,S1,A1,!OurcS,L1,E1,H7L4O1Ytfm,Ah04,N1Rj0k,O1,Yt09,Nm67,E1,R1,!AvciIue0S,D1,Nb9j,G1,E1,A6O4R1,Dv84,N1,A1,Rmfh,IpmpO1,Cjuv,I1,T1,S1,I1,H1,P1,!C8O1,Utc3,C1,R1,E1,B1,U1,!A18CxMuNtPkRhS7T1,!E1bO1S,D1,P1lU1,IvbvYs8d,C1P1xhSv9sTux3,O1,Ivd3Ohbs,C1,A1,T1,!L5ST1,EISTuxa,Eurr,L1,A1I6ah,A4CuigR1,T6b7,S1,Lnrz,!E1,!D1S,A5x9Cv35Nvej,OhpdTsrz,SnsvTtf2Zv8t,Y1,L1,A1,C5N1,Bliq,B1,Evd0IuejY,H1,P1,A1,R1,G1Lr9r,O1,A8I1,R6vfYd4q,EuqhIvag,N1,E1Rt83,AvcyCvedEvev,I1Y,R1,O1,T1,S1,I1,Itbq,U1,G1,N1,CtxxEvf6SjreZv9n,I1Y,G1,I4O1,Chx7Evfa,I1Y,R1,T1,E1Oc0a,Uro6,E1,!IkojOhnzSY,H1,T1,Crg0Oho2,I1,S1,A5ypY1,A5H1,SXrl5,Cpp3Mkbw,Nl4f,!E3IvfsO2UkobY1,Uunn,E1It8oY,P1,A1,R1,E1,Es4u,M1,I1,M1,O27z,H6IutaO2R1,!A1pB1fCu48D1eG1bH14K9yjLwMrNpPhSdT1,MuvpP9wk,O1,!A22E1zI1yO3R1S,H1,DvggUvaq,AvghI1,L1,C4L1Wtz6,A4bC4aE2nHms3I2fO2aSvfpY1,Iqt7,M1,R1,Oc03,N1,P2at,LppePnkaS1,IvfuO1,D1Nvgt,Dro6PujmSqsw,It26Oul1,G1Lvap,A8I4O3Y1,R1,Sve6,MngqSvctTv04,It98,L1,A1,AhE6I5O4Y1,AvgiTpy9Ur4d,R1Sryf,LvcyNvh7Tvcf,StvcTvfcZvbj,!A2I1LvfwNvclS,!AvfoEvbeIv1w,H1,C3S1,I1,!E8IkucL1S,Rmmz,!AE1Ipi6S,CuasEvhhK1,Iv24Lotz,CvfnDuie,N1,BvabC,!D4E2Gt80I1S,Evg9Itjv,L1,E2j4,I2P1,Brt9R1,Ev9nLvgfNa7q,!BrmyEq2dI1SY,F1,EvgyIvhoY,Ar2uEvi0IphmR1Y,Afxf,!Ar2wG2HI63xMvhtN1Rr2xS,Nvh2Sc87,S1,EvfzIvi3Kui9,T1nr,I1,R1,H1,Ev5jIv3o,!C1KNqheS,DRvi8Tvi8Yvi8,Lva6Pvi9,!BtouE2IvicMvfhOdk0SU1,As2Iv97,N1Tu1m,O1,Eva9Lvh1NrniTvf7,!AvbvEvhcI1Lv5bOv67SWul6Y,EvgeIgdsOvgr,NvhmRvihT1,!DJubyRviiS,Jubz,!A3E2IvggO1,AvgzI7ecUr5t,R1,Lv1cNoc3,E2I1,!ACkEveqIiLfMcPaQsj6S5V1,!DOv6iRviqS,E1Ionx,C1,!EvixIvivLu4lOvitS,L1,E1,!NkmuS,DR1,!Slbe,N1,I1,!E4Ivj3K1LqjzS,Avj2ErukIaM7P1,Au5bOqyi,DOvh1Rvj4S,ErumG,Evb1LvhtN1,!B4E3I1Lv63Y,Olq0,I1,L1,Lt9kTvh6,A1Rvdn,AuomI3U1,H7T1,I35h,!EuquLvdrS,!AusnEvdlIvjjMvib,H1,EvbeLvi6NvevS1Tjpr,RvjkSvipYvjk,EqxaNpp1Svj9,!AtysE2I1SY,ErusIqqjY,!EvilIrucOvjoSY,!AvjpCbDaG9I6K3N2SkeyT1Y,!ELRukkSTvbp,GviuRtju,GvivRvif,A1,!A3L1S,L1,!Ev70LuozRvi0S,DT1,!DtabHumpIuv2Lup1,E2IrunY1,!AaFtbpI5P1S,Nvba,I1,L1,Snsf,A1,H1,LumyRu7q,!B1Es5uLvivNvfkRSvjd,Lfxu,Iv3wOlum,T1,A1EvgdIv4y,IvfrOurd,T1,A1,C1Evek,I1Yv5n,!MvkiTuwz,CuwxSvet,!I1S,N1,A1IvkfY,!F6NvboS5T1,Ev92Nlxt,!EvktI1OvaqS,!DH3ggRSvfn,E1Ir3kY,Tfkq,!DFrt4LkafS,E1Iv9u,R3S1,AvkwEvkwIuox,R1,L7O3U1,Nvl2TvkzVure,Atz8Evh1I1,!E9w4IqwzLujaU1Y,E8li,!Avh5Evl7Ivl5OvjeS,Y1,E1Iu5y,!AtlvB13C10DomeEyFxGuIjLhO957P8Rs8gS5T4U1gkV1,As72Hrwe,Lv7z,U1,!BrqfC3DqjbEvfeF1Iqx8OomfPv2yRuo2Uv63Y,Mbnj,I1,N1,A1,L1,L1,Eu5oIuql,EvlcKvjy,Eu5qI1Y,Or7z,O1,!CttiF1T2hs,!EvlhIcnjL4Y1,NvkkRTl0b,A1Evjn,L1,U1,!EvlmHiIcLbS5T1,EvfaIubi,M1Tro4,Fsd4NvlvUvkr,Aq2cIultYv72,BvkcNvl0,Eu06I1,C1,F4S1,E1Ifs7,!EvlwIvf8,H1,!C1,DEvm5Rvdm,!EvgaNvm9,!Ivm9Lqn5Rtue,!E3I2OSY1,!AfLotoOeR8S5T1Zvdz,!DH9b3Mvl4RvmaS,E1Ivia,L1,Z1,B50C4xD4sE4nF4kG4gI4eJonmK4dL3pM3cN2pP2eR18SmT5Z1,Op79,G1Mv9iSvi9Tv5k,Imt5O1,N1,P45x,E1,N1,I81qO1,!L1MvfjS,A871Eun8IvmhOvahYfld,ImtdM1,Mqc1,A1,IvahOuyb,N1,NvmuRnah,O1,Rv67,E1,D1Gt9zIvn2Rf0gSvir,Nebg,A1,CvmdNvn4,!AvgiEvn6I1S,D1,I1,Ivn9Ss58,!O1S,Grw7,C8LureM4N2R1,Ivl6OurfUvhj,R1,H1Ive7,AupkC,I1,!No6aST3X1,Ocad,I1,L1,E1,LvnjMv9f,A1Ivmm,X1,Isu3O1,Htp5,T1,E1Itvc,EvnqIvemOvbi,CD5Fv2sM2T1,Coay,E1,T1,A1Lsq3,Run7,T1,C1,E1,L1,Lh7,A1Eu1n,ScnuTvjkZjld,Avo4Iug4Oun0Uti8Y1,Cvm9Iq8h,N1,Runz,U1,L1,L1,A1EvmmRu0t,T1,Ppk1,R1,A9E3O1,Pa4o,EvohO1,N1,EvojI1,Rv7oS7yd,O1Yt8z,EvomH1,IvnuTtwj,N3d4,H1,C1,E1,EvosItbpOusy,N1,E1Ytqp,C10EvGtLrMgNcP9S8T4X1,IvclOo7w,H1Ov47,A1qE1kH1gI17O3R1U2eo,!EvkcIvfvS,N1,O1,H1,EvoxIuq3,D1Evp4S,!EvozI1,A8ufC2oE2jG2hIut7J2fK2dL2bO28R8T4Uu62X1,A2ztE2l1F2kxH26iI1z8L1ssN1scO17jRd7S8nT83U2tY1,IvloNtx4Tvp8,!KuphS,R1,A1,D1Tu7z,Is8c,N2V1,Ltpm,Loql,!A1,!EqqaIdybS1,K1,!AvoxEvpeS,GlmkST1,H4en,!EvnlI7t7SUvon,N3P2T1,Nkd4,N1,Nura,N1,E1,T1,N1Pvp2,!E1S,Er0q,T1,Oi30,Evq0I1,A3L1,Tt5e,R1,A1H4f5Ldgk,Lvoz,A1Imis,CbGvk0L6P3V1,Itv7,AryqV1,Avi8Ivm5,C1Nvqe,Ee0yI1Y,EuynL1Ov86,M5P1,ArEpI8OvltU1,!Duc8Pfg8R1S,RvpkSu3s,AvqiIsiwY,Rf65,I1,!G3M1S,Aqr2Ovb9,Hvo1,!C1Gv3uLvqpNuu7S,DvpbRvqpS,Avp4CvcgE1,I1Yvbx,AF1Tgfq,EvioSsgw,!I1SY,EI3M1,NvbjRvp0,A1Ovbj,AvpcCmq4Evl2,I1Yvc5,AkvvIvqtY,Cvr1F2Lvq4Nvr4T1Zvm7,!AvktEvr6I1OvboSUvoa,D6GvloT1,Took,N1,!Evq3Ivr8Lr7hSkwb,L1,!IvbuMuft,E2Is3xY1,N5ye,I1,EvrgN,W1,Ft3aVvr7,A1,!A3T1,!Av4yBr75Dul8EvrlF6Ivc3LvplMr17NvrhS1,!R1STueb,CvrjLvqm,!EvreIv7qOuem,!AvpiE3I2OvrlSZ1,AhEKvrmRdT1,R7tq,Duqz,O1,I1,R1,A5E1,!P1,!EvroIv5e,Avq6Hr8rI2S1,Espx,T1,N1,E1,OvpxTvq4,AveiI1,C3N1,!R1,Rszf,!Fur8S,Av9uE1,Cujm,O1,R4z2,O1,R3U1,E9O8R6T1,!Av5uLuxgSiuk,!A2zC2vD1yE1xFpngG1tH1sI1qKpj0L1jMr8jN1bRsSjT2Vn35Y1,NvsfStitZr5l,Rez6,!DtiuEvslIvsjLucuSlc7,!Eu9vIrbbLvr5NvnuS,N2R1,!AvqyEvmoIvsmLvfg,H1,C1Er6e,Nvr3Ttmk,Ets0I1,DvrtEvmtSvrl,C2I1NvsqUqchYvdw,Dszd,BntiRvqw,!A1EvrqIvsvLvfpN9ltS,N1,NvsyO1,!EvrtI1Ovr7S,A6T1,Acw6,Z1,Eq6qIvt2,AmBlEiLthgNfRbS4T2U1Yvt1Z3,IuxbY,!AtuqEvrzI3nTpjn,!Ep8mIvs7L2NvogS1,Hvs8K1,Unum,!Dvp1N1S,DvsbSvsg,!El65IuvaLvrwNvolSU1,S6sjT1,Ik2nJvsf,!A1BtzwEqxuIvdySWs0h,L1Tpxf,CtwzRvriTvru,!NqcuS,!EvtaIvss,CvssX1,N1,E4U1,Lgcx,CDvfhEt09Npp5,!IujjS,AvtnIvq3L1Nqkg,E3y,U1,!IvrnLvtqNvtqRvtqS,Eboe,!S1,!S1Tugm,I3v,EvtvL1,CvtwL1Nvtw,Cvk5Nvu0,Ee4kI1,L1,P1,!AbE8I5SU1,!AoCjD50wEiIhNu1yOfQdSojgT1,Evt0IrcwUvu3,!P1SkpdUvu4,Evs3Ivu7KihyTvu6,Gvlh,N1,I1,L1,Alkv,HvtjL1,AvqeEvt9IvueOvsn,!C2ERvt7ST1,EvueIno1Rvsi,T1,O1,CrzsNvuk,EvomI1,!Mr49Z1,BpfsC1fD1dE1aFsltL17NiPgRfSbT7Vn5bX4Z1,Buo1,I1,!L1S,NvupTvup,Ouqx,Diq1,!BurqSTvpz,!A,DvrzEvtoNvuw,A3EvqvH2I1,D8Hp2aI7KrdrM6N5RumhT1,SugtUtmm,A2jE1wIdO2R1,Tuf5,R1,E1,A5tI5nOto5U4W1,Tr7h,!Avq2InoqS,!Bq0lEvu1Ivv6Rvt8SY,!EvuzN2ST1,EvkmI1LuxlOiro,STveb,CDs2xE1,A7B3I1,Okwb,IvvfSvtrUvv5,AvqbEvtaIjjpO1,Ainj,R1,LoweYvvf,A1,!C7DHn20M5RvvhST3W1,AvuvDvvbLmmdSvuqTnij,EvufI1,A4mdEvnfLvu7NugwSvpl,DEv1s,!E1Ir2iSY,DRvvnT1,!E1Fs6sIvrnLvu4SWs2t,!STk28,N1Ovtn,!Bs0wS,T1,E1,U1,Cup6EeHcIbK7LrqzO5Q1Y,!Sg8i,R1,Evw2Ivw0Lvq9,!EIuw7LvumS,!CvswSTvsv,Nvw4O1ohVvuh,Eus1I1Ovud,BvuiL4N3T1,!ItmqLvurNvrgS,L1NvslTvqg,A1Cg54E26gLvv9Uvfd,Rui,O1,S1,O1,G1,R1,E1,L1,T7xk,Cb57L2U1,Ti6r,A1,M1,O1,EezsR1,Ann4H1,CutuDLt0s,MvwoPrno,A1,EvbeR1,Acc3,O1,N1,U1,M1,Te59,O1,M3Nvx1S1,BqvwRvu5,Ccbu,A2Orc2U1Yv8k,NTr3c,AvqkE1I3fv,Lvf6,C1,U1,Tuli,U1,E1,C1,A1,M1,R1,NvwhTvrz,A2O1,Eqdw,T1,O1,AngdH4R1,Ii6f,S1,N1,N6p1,O1,R1,!E4OubeT1,Nvun,O1,H1,G927MrygP1,E1,L1,Es8aOth5,Atz1,E3H2R1,!A1kBi6aC1eE1dG1aI12LzMxNuPhSaT1,A1yC1vIO1SujyUpmnXvx9,Mvx5Nvy2,Svt2,A1,!A28D27I4O3SUopqW1,Avy6NtifSso9,!DRvy7Svhj,E1Ivya,!I3L1S,DRujq,!E1IvydSs5u,F3T1,Ukxf,!M1S,!EvqaLvx2NvtrY,D1Evyg,E1Is95LvxkY,!NvuiS,Ig72,Avj7Iv2tOvjd,!A7BjimEmmiG4I3LvvsMun6Oqn3P2ST1Wp1c,IurmUrqm,Dq2p,A1,O1,!B4CuhdEvxnHveaIvjcLsuvR1SWuiw,Wv3t,Au0fIursO1,Us3y,!Piu7Q1Ttpj,SukyTvlz,A1Evi4,!B5Cp37Dup2Evz1Fs42IqvkLvltMozvOshwPps5S3W1Y,!GvyySY,N1,Nvmd,AvxfEvv2I2O1,Avz2DvqjLcMvxwN5S1,!Aue9Evyx,Lv65,L1,E1,!DEvz7H1OptkRvz7S,!NvzbSc9q,E2I1,Tudm,N1,EvtgNvxs,!EvzdIram,E3I2Y1,EvzfL1Prdj,Lof5,I1,U1,Cg5f,N1Tvwr,Lo3eO3U1,Tv0m,EvznKvhbN1Qa1tTvzn,IvhkOveqYvku,IvysLqkp,!EvzqF2L1,EvyoIpzhY,SuwjUvzm,!DOvpsRvztS,E1Ivzw,G1Nv7aRvpb,KvyzNvzzOvxt,!A2Ew01I1OvhqS,Oqn4,AageOuac,!H1Ovxx,Lq78S,!AvitBhEfIcJutiMbOaP5R4S2TvvzU1,DRrciS,!E1Iw06MuopOw04,!Ew09Ov30S,R1Uvyh,Ew07H3IfljO1,!Ikg0LvyvNvvkS,M1,!Avy7Id26O1SY,!E3djIs5eY,!EulzIq41LlgrNvvoS,Arh1Ovm4,LvziN1g7,!C8D5EvziG4InuyK3Pf9uS2Tr8xU1,!DRw0gSlsw,Aw0hDvzkS,AvyyEw0iI1,!EvseIvweLvz6NvvvS,Ew0kGI,D2Est9N1Svzh,DEw0mLsnoNRw0m,GI,N1,!Ere6S,T1,R1,Ht4x,C1,O1,ArltE9I7O4R1,A71f,!C1,EvywIw10Ovqx,R1,!LvznNvwcOex4U1,!AggjElHjIgP6S4T1,AjefIsdqYvm8,!Iulx,!Bux7DF2LvzrNvwgR1Svw1,Fug3Nw18Tvz9,E2I1,Rw17Svw4,!E1Lv3yNvwk,Evt4Nvx9Sw0x,!BrarEw07I1SY,!B8wxCvvrEvxcH3Iw1dOw0lP1Sr02TvofUw0b,Ew0fIw0g,Abnv,L1,Uqjc,Aw0cO1,Bvv3F5Lw1hNv2tP3T1,STw1j,!E1,H1,!AvcyDLw1lMvonPrcpRw1lS,Nw1jSunj,I1,E1je,K1,!EvkbOvjjS1,SssjTvzvZmin,!Ew1sI1Lw0fNvx4S,L1,!A1Ew1yIw1wS,!Ci8gN1S,CvjyFvheNsgaO1Tw0z,Kw0dNvsy,I1,!Ovs1S,!Bv09,Iw1kNw21,DEvzzNvtjRw22,!Nqys,!Ba46DRw24S1Tkrp,E1Ir1bY,Nw26Osof,A6E5Iq1xL2O1Ruw1Y,!ArBjm9CoEnFlHiIcLaO9S8T1,!Ew23ItsoY,H1,C1,Fvus,L1,O1,Cu8oN4W1,!Ew1dInu5LapjMw1aS,!Ew1eIvn3OvsgS,!DL2N1Rw2iS,!Ew0hGvzeIw2lS,GrbqN1OuopSv82,AmtjE3I1,Iq37,!Ougb,!S1,N1Sw2d,!Bux3EvulH4I1Lw1dNvy2S,!AuhxEw2vGpg8Iw2tLed0Ow0oS,!DEsoeRw2sS,AuwlIup1,!B1Ew2yIw2wS,R1,T3dj,A1,M1,!A1Ew1jIw31,E8Iw32O5Z1,B7sC76D4wF4pG4gHI3zJ3yK3sL3mM2zN2mP20R1vS1qTtUmVgWbXvurYaZ1,Rr1p,O1,S1,Evi8,DvxhL1NvsmPvsmSuy6,Tkla,A1,M1,I1,D48p,E1,E7L3R1Uqr7,RvxpSu6b,AqtkI1,U1,Iw3aYtls,R1,!A1S,N1,AvvjEvwoIvzg,Nw3pO2V1,!Au9xEw3rI1Ow1yS,CbHnzpQ8T1,BvqePvt5,Cvt6Nw3t,!Ew3vI1Rp66S,R71v,Tsp4,S1,U1,PvtcRsq5Uw2s,!Iw3zMvpe,!A9D7E6Iq39J3M8xiO2SY1,R7tdXvvp,Euzc,R1,I3O1,F1,Ew2zGk94Iuv8,AGvb9Ss1tTw29Zml1,Cvw3Trlf,O1Y,Iac8,L1,O1,EvaiIw44Y,!Er69GumzI7L5Mw4cNvzoP2ST1,Sw06Zvyo,Y1,L1,X42k,E1,A3Ik83N1Oqun,Nuk6,Tjgr,I2R1,Aw45Ew2kIw4o,S1,I1,Rq36,P1Vvz1,A3O1,EjnoLvmnO7R1,!Aw37Ew3qHre1Iw4vP1S,Avz6Ew2sIw4wMw3o,U1,Sw41Uury,!At93Ew51I19qO1S,Ub,A1liEr3y,!Ew3xG5Iw52M3O2R1ST7yhWrkf,Dw52Tw51,N1,E1,!Av6iEw41IvpqLlpfS,N1,AvinEw34IsfuY,L1,B1,M1RvxfSi4o,Aw1cEw38Iw19,M4ddR1,Aq12E3Isf7OtqaU1,CaO8S1,Hw3xKw5f,C1Isro,Mm05,A2E1R7yr,Aw5iT1,Hkmw,T1,Aq1bEw1mIw5nOqu7,!DNw5nS,E1Iw5p,K1,A1Ofza,B2mC22D1sF1nG1mL1eMvx7N18PxRqSdT8U6V5W1,Tpzh,!B1sdS,Ew1uIw5vOw5t,IvvaLn35P3R2T1,AvzcI7ywUvzc,Ew60Imd9,!DtwaL1S,Cu5rG3L1,DlwxLvxcNqtrRvip,Er1qOr16,Nw56Rvyw,Kw63Tw63,Ew41Iw65N,Gvz2Nvxk,A4Dul3IvxiO3Pw65R2Tlc4U1Zw0q,A4i1,C1,D1,A1,Ar3tEborO1,L4ap,Aw5vEw4w,I1Yvrj,AvqjEw5bIw6gOssn,!ST1,FureI5Kvx6R3Sw5oT1Yquh,!AnBw5kEjIiLhOcR7SU1,Ro66,T1,I1Unlv,C1IktrLggo,AktzEw4kIw6oTkuv,Aku0Unly,T1,!I1P69mSTshy,L5MriiN4P1RqspSj7s,!DRvrhS,ApboE1Iw6u,Pvw9V1,Uvwm,F1,AlueI1,!EvysLw5kNw29R1,Cw52Sw26T1,Ow03Vvgp,!At89I1Ow5bS,T1,!Aue4S,N1,Nw77O1Vvzf,!Ew5pI1,S1,Dw1iIeN9P6RkibS1,E4h4,L1,Gw1lNr67,Gl0bTnfp,F9kf,L4N3R2U1,Aw6aCrn4RgsrWw7f,S80k,G83k,O1,E1,O4R1Srt4,Hpld,P1,A1,R1,G1,O1,T1,A1,M1,I1gdO1,AhEgObR1,Vhg1,I1,Lw4sTv95,A1Iw3t,C1,O1,Ew81Iw6vR1,Lw2dUnnd,C1,Ew84IOw84,Ow62V1,I1,Lw1cT1,A1Ew49Iw8a,DdP8R6Sw3hT1,Nqcc,!Ew8fIw8dLuulO1S,Ms4x,Pw8eSkyt,DI2MiobS1,SmjtTrwr,Ew8gIujv,S1,A4Er3fIsrfO3U1,Ew6hIkv1,Bv5jNw4n,A1Ew4mIw8n,Sw2xTw3uZ1,I1,N1,L2f8Nbgz,NrkqRw8r,LfcaO1,Nw7oTnlk,A1Ew6rGIw8v,N1,!Ew8zI1S,!AmqgEw90Iw8yS,CvtdD1,N1,Aw8iEw93Iw91,!Mw7uST1,Skv3T1,E4I1,Nqwx,Lvk1,E2I1Oc7wU80x,BbM4P1,Iw4lUktq,T1,IsvlNkuxP1,AvfzNw9d,AvihEw7oI1,L1,E4I1,Ew2hIozb,T1,EdI1,Rubh,U1,G1R7yx,I1,EvfsRw3w,T1,I1,A2uiEjt6O1,Rw9qSw8l,E1,U1,Ejqu,D1,Dw02,I1,L1,T839,Bw8dNwa1OveoVw8e,!Ewa3I1Ow8aS,T1,C1,U1,I6R1,!EkvlIbO8T1,CvzlMmnz,Xke1,A2E1Or2f,Nw4jRu00Ysx2,Cw2fNulw,E2I1,!CyDvFrNnQkS7T4V1,!AvuoEw99IrllS,D1Kwae,!Aw8sEvtbIwagLw4pMw98S,NrwuP1Rvrq,!AvjmEw9dIsl4SY,R1,E1,Aw1wCrq9D20G1vI1uL1sM1dN8Orq9PuphR6U4V1,NwanOvvzVw90,Ew8jI1,Nw9iT1,A1,Ew8mIvs2Ow5g,T1,A1,N1,I1,M1,Sw2jWsx3,DkpdItyb,Lky9,A1,T1,S1,Aw19EdI7O6U5Y1,Lwa4Urxl,G1,!Lw9pN1,Eqso,N1,I1,!FgyoL1T2gw,!RjvmS,A6I2O1RvhcUsfs,Vw1i,I1,T1,Bcq7,DNw7n,E1Iwbh,!Iumv,!R2S1Vw5s,LwbiNw20,A1Ew9hIwbl,L8M7Pv2rR3S1Tdfy,ApghEw7mIwbn,L1,C1,!A4yCwarE4hH3uI3fK3dL36O15RoSTfU4Y1,C48cMsdoNwbpR4swTw60,Iw16Ywbq,EugnIv5j,A2Iv4sOwauR1U1bl,!ElopIh07Lw64S,IqcfOm1d,!Iqt5,Mtyd,Aw1dCw1d,EwaiNcaq,E2I1Yvx5,Vppr,I1,Oj79Vwai,I1Ow6v,T1,Ar7vP1,Svjx,L82tO1,!C83dIncd,Mjob,R1,E1,Pwb5,O1,L1,E1,!AwarCmDlEkFhLfMbNureP9S8T5V1Ywbj,EuxvOnj1,!ELszkS,!Ow7i,Gv3s,E1,G3T1,Uko9Vpqe,O1Uw4c,LqpvOcbg,Lv84,L1,T27,U1,B1Cw2a,I1,I5R1,C9P8Sbr4T1,Dw79Sw86Vw0q,I1,AiDGs2eNePrudRfgjS3V1,EvxoIpaiY,Cpk6Swc9,E1,!ENuywS,!AvoiS,Lw7hT1,B1Nw62Twd7,!CrsyEwd2IwdaLw2xN4SU1WwccXwcg,!EwbkIwdbNS,Fw2qW1,A4t3SkuzW,EwbwLw4pVr0e,Owc9Vwbt,A4E3I2O1Yvyk,FrfuRw2v,Aq9dI1,!H1Kvv5Tszb,Aw9fOvyb,NwcfSwcm,Osg5Vw6m,A2I1Owbw,Ew9nIh19T1,Djt4,Cuqw,I1,L1,BqdmC5N4P1Vhl6X,AwcsIvyeOvgk,!A24B21CqbjD20E1dFqbiH1cItLsNqOlPretRfScTbU2W1Ysze,It68Ow5kY,H1,Iv6wUv7o,Ew5sFusvLwckNuz9Tw64,Cv57,!B3Ewe3I2LgnjMv2kSU1Y,!AwceEwcxIrkwSY,Cw67DRwe1,GqquNwe5,!AwchE2I1S,Im1f,O1,ApkwOncsR1,!DNwaaS,E1Iwea,G1,R1,B5E1I97wP84w,Cutz,Nr2g,U1,O1,Gkwj,R1,Ruq5,O1,Akl0I4koRs67,Ijpz,Re0e,AukxIwegY,EvkvH2R1,AdCaDr3aE8F6G5Jnd9L4Ri7oT1,Pi4s,I1,U1,B4ld,Mw52Nwex,!A2EwezI1S,!CkyeT1,A857EwcvIwezOvel,Im35,LmbuR1,RvadSjvt,E2L4rmO1Rphg,A2tP1,!Ag7zC18D14F13Jkk2KnknL10MsNeQbRkk2S7V6X1,Hm2cTrdt,Cw9gLrbaS1,!EwfaIwd2Ow1nS,T1,Dr39Lr39,!Li7vST,!IsklS,Cw9mDu0mT1,Et0yN1,!AwdrE1Rw4aS,C7DE6L5Nur1R1,EwddIwfhLsc0MwfgTrdf,NwfjSrwb,AnctDr3iEpduI1,G4uwL3N1Rw9tTrwrXw78,EwdhIkxw,T1,NwfoOwcdVvpb,MuujRs38,!AwbpEwfrI2O1S,T1,NwfsOwdmVius,!EweaI1LwedOvcy,C3TwfrWX1,!EqhrIwfuNS,Aw59Ow8oW1,Euu2Xw7k,AbE4IwfoO2U1Yw11,!EwfwIsm8Ow2dSTv1o,Bw6iT1,!A1EwevIuvpSUnv9,EvbbGwaaM1Tl6f,Dvbe,Gw8zN1,CorjLw8xR3U1,LwejNwg6Owe0Vvpt,MvvhRmm9,!Ewg9I2O1S,T1,Ia1d,G1,C3IvndMwakN1,DNwgbRwgaS,!E1IwcaMwf5,H1,E1rwS1,Rkyj,E1,Ewf0G1,Nw5xZs22,A9E5I2O1Yw1o,!DEw7uS,ANwgnUwds,E2I1,Dgqp,BilgNqhy,!DNrgqRwgoS,Awg8E1IwgrNrgr,BwacLwgqTwby,A1EwcsIwgt,ErxfG7LqnhN6R5S3T1,!A1oE1fFv2lI1bLyOrRbSTU1,ANwgxTwey,!EwcwI1Lwfi,!Aw7kEwh0Fsp7IwgyLv36S,D1,HreyTwg2,Iw71L4R2T1Uw6rVwff,BwffCwf4Tt17,A1,R1,Cwf7E1Twdw,AvnbLw7cN1S,!Ako2Ewh9Iwh7S,!ST1,!N1S,E1,Sw83Zvs6,!I1LwfxS,L1,!A1S,N1,Rsdz,BwfuNwgbRwhfTwcn,A1Iwh9Y,E3R1,Sko1T1,Cw5fL4lxMbNuhvO6S1UwhdVr4l,Sw99Wwhl,Av9lEwghO1Uwbw,!LNjfe,A1Uwev,Lmj5Rw7gSutv,Dwc0Fw75Nw75Twc0,Avt3EwgnIwhs,!Fsq2ST1,En4Sv8eT1W,MwhuVwc4,NwhyPwhv,O2U1W4wu,A7E4Ii6eO1,Rd0xTvow,A1Iq55Uwh5,L1Rc9x,!A11EwGsz2IhLfMo97NdOcR4SU1,Tmpt,I1,L1,!BryfI1S,DrgwGwi6,B2Mbb3N1RczdSv49,!AwhqEwe8Iwi9,!DIw2uS1,R1Tw9q,A1Ew9nMkz8,Nw83Rwcm,I4rf,P1,Bb89S1Ur68,M4wfNwii,Ahbm,R1,Ofb,N1,D3P1,AfEbIaO7U6Y1,Mwih,S1,H1,Tmj0,N1,E1,!IvybSYw3y,NwiwTwas,!EwiyI1S,N1,EwguGIwiy,N1,EwgwI1,G1,AwheEw3hIwj2,S1,R1,U1,Rr6y,E1,A87d,RvekSchz,L2O1Rmaj,AaB6M4P1,Rn2y,P4py,R1,A3Iw9mO1Unez,EwhpXwb4,C4vpSkzl,E2I54U1,CwbnSqlc,CiynMwjj,R1,E3LwbhO1Ur7e,Avrb,NwjpTqi3,Ek35Uid1,Rnka,E1,Rwbw,Ek39Isv1,L72Tw48,NwjwOl4b,EwhsI1,T1,U1,T1,A6I1,!E9Mv8kP8T1Unfh,!P89aRv5sSV1uk,Gvb9R1,Dmcu,O1,E3R1,Gwc2Nwk8,!EwkaI1Mwj0S,T1,NwceS1,Om9s,G1Twel,AjtuE3I1Ovjz,!CzDwEwkgFsHrIqJpKwkdLw78NnOk2vSdT8V1,!Srse,Buc8Euxl,!C1rD1oF1nG1kM16N3S2T1Vwb5,!EvpaIw7nOwirS,T1,C1,Grgm,C707N89o,I1,AwigEqve,N1,E1,DwahGriaV1,Am7tE8I7O5U1,!BnwbEwkvIwktS,Y1,E1IievNbym,Uriu,EwitIwkxQ1,Aax5,C1,S1,D1,!AwegSw5r,N1,EwhxIjbr,Nwl6O2V1,AwjiEn6aI1Owjf,!AnhlElmxIwcr,Brk3CbIwlaN7PpwyT2UripX1Ywl7,R4zmSoti,!EwlcIwlaLv7iS,Dr9aT1,EvrhIwlc,!ST1,An7gEwlc,A6GwdaN4T2V1,Bn82Nwhn,Nk27,!E1STsoi,AwjvEuzqIwljOwlh,DFwliRwliSV1,!IwepLw8fS,N1SwbzUwbk,O1,Hwb2I1,Ujyx,EwjmIwlqKwlpQ1,!Fv0nS,Awk6,Aw88E2I1,U1,!Awk7EwkdIwlv,H1Twlv,AhCfEdG9N7Q3S1TVwg6,DwddNwlx,AwkbEn9uIwjt,T1,A1Kwm0,A4C1Os1q,Rmru,NvnqTwe1,!A1Ewm7Iwm5S,EwcsT1,B4C1M37,A10EtIbO6U1Yw7c,!Drk7EwmbIwm9S,Lwm9N1,Upad,T1,C1,A1,F1,!DwmfEv0mNv86SU1,!Aon4EjonIwmhS,K1QtmxRbzq,!DR4pyS,Cv8lE1Iwmk,DwkzIbKndiN5Pv8aR3SramT1,Bwd5Lwl6Twej,A1Ewl5Lw9h,I1Yw7s,EgwpRilo,B1,AvsyD3EjnrLwc5M1NwfkRwchTX,EwmkIwm2Rw8g,Ikzx,!Iwm4Lwlf,CwlwT1,!DN1RwmuS,E1Iwmx,C1,S1,Dh5xI1Twmz,BwglOwkw,!I1LwlnNwic,EwkzIwn3S1,BwlhLwn2Nwj5,A1Ebr9Iwn5Owle,!MwlyST1,GfLeN7S4T1Xrfh,Es3tImni,Aw8pDwn8,Nvs8Tiol,A1,R1,T1,EdazS1,Ej1v,Gspd,AwnfIwnjS2T1,OwldVwfd,EweeI1,Bwa7Lwni,A1Eo11Iwnl,BkqtDeI1w4LdN8R5T3UvimV1,Tt8h,A1,R1,E1,DwmtN1,O9a,L1,O1,H1,T1,!A1cE16IqNvuaObSU6Y1,LwnxS9lu,Rvyu,Il3yU1,I3LMwiaSqysT1,Twn0,N1U9o,O1,O9k5,V1,DRuamZ1,BwmlNwo9Twje,!E2I1SZp3e,Ewm6IwoaOwlm,D1,Ihfp,T1,A3EwkdIwoeO1,!AkytEwnaIwofS,G2SwduW1,Fw3gGs57NwofTd39,Bryb,N1,I1,Aw5uEwnfIwmg,Ml93,SsltTvpt,A1,GsxaMn2hR3TmoyUuciV1Wtaw,Bwf9Lwoo,!A1EwkqIqi8S,EwoqIvvkOwji,T1,A1,I1,C1,Mo1fN1,AxCuDpEiIhMeNdO9T7U1Vqei,Rtb9,E1,JktyS1Ttb6,Awk7IvoxYwa6,En6eIwp3,!R1S,P3R1,U1,C1,Ns5oRwh3,Ord1,E2P1,El8e,H1,AtbjEvvi,Zo22,I1,N1,A1,C6D5G1Ijzp,Fc3a,T1,AwkqIvhj,D1,I1,BnChFfwyIwgzPeR6U4Vt6kX1,!Are1EwprIwppS,Imq0K1,!AvyvEwomIwprMveaS,DNwf6R1,DwodEs6e,EwovIwkz,Al72KwpuT1,!Aw3bEwoeIwpw,S1Twpw,CvbzRvlwT4u4,!AwobIwpzMworS,CaI8N7PrnyR5S3T2Vwk9Y1,!Avz5EvvoIwq1S,LuchT1,DNsr1Rwq1,AwoxE1Iwq4,!L1S,!AwfuEwp1Iwq6S,T1,U71e,Iwp7Rwob,O1,C3KwqaT1,Nwn3Uwga,O1Vwjd,I1,T1,Eus1I1,AfCnknGs77LcNaOrgjR6T1,Tiz,O1R24q,!EwmjIwqkNvcaS,N1,!NvccSTvly,Cj5qN1SreoTwkwYwqm,Awp0Ewp6Nwqn,I1Ywbt,Awi4Dh9iNhkuTktuV1,!BwhaSs4jTw82,A1Owon,C1Ewkv,MrpfNwgk,A8E5I2OrmkU1Ywbz,AlesIvcwLwqv,Rl8yTwiu,A1,L1,U1,!AqjzEvwoIwr1Od7dS,T1,Nwr4Otda,!Ewr6I1OwdjS,Nwr6T1,!AwqnEk49I1Sk0g,Rwr6Sw8g,!LcP8R6S2Ts8fU1Wrp6,BwdwOwp4Vwpn,I1,DwraS1,N1,E1,Nig6,O1Vj6g,I1,BwpuT1,!A1EwqdIwriS,T1,N1,!IvkwS,N1,Bwi6NwroO1Vwkn,!Ewq6I1OwpxU4vy,E5S1,HdS1,Vn3,Awr9EwpoIwrsTn5k,Adfe,Cwm3E3MimvNse7S2V1,!Awq7EwlxFt04Iwns,H1,C1,NwnzTh8,A1EwpvIwrz,Bsn4Nws1,Ewo0I1Tvnv,C1,U1,!Ews6Iws4M6uzS,EwqeIw4rY,H1,M3P1,A1,R1,Nwo8Smfg,AwrsEwoaI1,!AfBdCpupD9G3OtjjSV1,EnIjO1,EwscIsye,L1,Awj2I1,!Iqm6S,N1Twno,!A1S,C1Ss9d,I1,L1,Iiy4,Nk8n,EwooIwci,S1,T4yd,C1,C1zaImt3Ss0q,BvprTo5k,A1Evj3Iwsv,BaD9G8L6Mrs5N4R3T1,!A2xE2gH2eI2cL22O1pPvebRkSThU1,Tn0k,S1,Cv0u,MwszS1,ErlxIpix,T1,I1,E4Nwt3RvviS1Tt39,A1zjE7I1,U1,Cs8wDvp6Irh0N,Orsb,I9slUo8j,E27i,CwrqNwm5,I1Ojqz,Ei5s,Aew6C6DposG5L4M2P1V23xWs8s,Gsa6Srgg,LuhuOvedSwrvUwjo,AaE3I2O1U8mh,DLwti,AwrwEwtiUwjr,DrlsI2L1MrjnWrh0Yrhk,Owkx,E1z0O1,Dwsf,N1S1p0,ErsdIvx0,Aws3EwpqIwtrLmoe,ArshH5I3Ot50R2U1,!Aws5EwnvItcg,H1,C1,LsqfR1SpjrTwtvUwo3,!Aw31EwtzIwrrS,T1Ut56,!DwtyIwtzKrhyNS,Av86EwrwIwu0,L1,B1,Iqu,DNv5p,!E1Ft2eIwu5MwsxS,Dri5S3T1,BwskTu7b,CwohNwu9Swt2,A2EnfdI1Owsh,Pwg4V1,AwsnEwskIwubLwep,!ST1,AhCfDwtfEeGkzbIvmbLh30MbN7R3T1Wrhs,Pwl2V4x2,EwsbGrt4Iwuf,N1Pvg5,DErigNwsvOjvhTWrhw,F39r,!A5EwubI3O2U1,CwreTn4c,!DN1RwujS,!LwrfRwt7,A1EwulUwov,!E3IwuoSU1,!AwpuEvriIwupS,Hwk4N1,EwsnImytVrsp,Fv9oNwut,!Awl0EwuvI1Onx0SY,BwldNwuvVw4i,!Av13EwtqI1Lvh3Owt4S,T1,EwstIwuxTtmt,DaFwkcG8L7N5S2T1Zwp7,Esav,Os91,Ep90O1,DllgNwv3,EwlyIwqf,BwthT1,DowmEwt1I3U1Vk1s,Nw04Tnvu,A1,I5j1,Bwv8C1PvycTwmo,Eliv,C1,Gwo8NswgR1,Asb1ClbjDrqlJvorL8N6R4U1Wris,CwpnDwpn,!Ani0EwuaFt3oIwkdS,T1,ArjfC1L8hy,BwtvT1b3,NwvkTkzd,A2EwtgI1Ol5k,R1Twpu,Dnhn,N1,CwpxTe00,E2I1,!EvywIwvqS,BwieOvinVwor,AEwvqI1Owi7Uwsy,D3S1,KshdN1Tsd1,NwvwYwvu,A1Ek51IezaOrkcUwvw,AjEgIcL8O3R1,Tk3b,N1,E1,Ikzx,NvaTl2j,A1,R1,B4CsbtFvh1GwqeMrveRmw4TwgjU1,Cvi7Uwo2,Ml3nNww8T1Vwp7,BwulLww6Ttre,A1Ews8Iww9,CsbyKwqjR1,!AwunEw1yIwwbSTww9,N1,I1,Hrv1,T1,G1,N1Swo4,NwwjOw16Vwor,!Ev82I1S,KueoT1,C1K8poNf00Vrjl,OwquVwv0,KTt7u,C1Nwwp,AcE8I4O3U1,DvbmFvhm,!AmEwvmFsimIkLvizOhR2SU1Yrvg,M9qa,!Avt4EwwvFvjmIwwtLwjnS,T1,EwsuIwwvMpmqPws0,AwflE,N1,I1Pmjb,As9l,Nwx1Owid,!Ewx3I1S,T1,C1,E1,F6Go1kR1Vqzs,Tul1,I1,C1,BhLfMePbR4S1,Etkq,H1,T1,Eu2,T1,N3S1,!A3vC3oE33H2xI2iK2hLwnmM2fO23P1jS1gTpU7Y1,!EwwcIwi1Ow3mS,L1Nwox,Imr,NwweTo2p,!A1EwwgIwxlS,D1Grx2,BwfeCberGsedI5Knx0L4PwrwR1SwnuUvrsXwpb,C8jrMwxnRrln,!PrvnS,Ini3,EwxpT1,!A4LezvM3N1Swn6Xnv8,Kow0,N1,I1OvrzRlny,!LRl8q,!RTk71,Lwx7,E1,H1,T1,O1,D1,N1,Cw5oE1,A9Ewy4O1Uwvc,L1,EnkaLwx9U1,!CegeELwy7S,Ewy8Ito1,T1,Oria,C1,BfswIwusLwycPpjmS1Tcev,EwwbLppz,A7ElwlI5O2TwyfU1,!DwriEwyfMwx9RwyfS,AwxbE1Ine0,AnCbEwwfFwdiG4wfLwssMwssN3R1Trx8,KLwyj,ENTwq0,LwyoO2R1Uo84,Lwp0NwyoOwwi,!Awx0EwyqI1OwwxS,EwwlIwypKwyoT1,F8o0LwqlM9s8,S1,C3Ibo3LwxcN1,!AwxmEwxoIwytS,DwytT1,A1Nioo,Tllf,U1,Aa8EwuxIwyy,DSV1,AwyhB3E1Mlfw,Nwz2OwwwVvvq,!Ewz4I1S,T1,C1,DwteSvu3,E1,Cw8l,I1,RwtiTsgg,CwufXk5a,E1,I3L1,AwuiEvvaIwzd,D1,!EwxxIw5i,S1,S1,A4E1,R1,Ic50,R1,AvtcE1,Cown,E1,L1,F1,E1Swy5,!EwzuIwusS,T1,C1,E1,!P1,Svmx,ErcjIw82,!AvCtDrFnGgPdR8S3U2V1,A18E15I10O1Ywl4,!Iv5m,!Aq4wEw4uIx02S,N1,NwudR1Swyi,Irz2,Ix06Pwuf,!A2kCvm8E2fH2cI1oO1lR7S6TvlxU3W2Y1,Fwi1On6uTwqw,I1,Litg,O1,H1,IlnoTryb,N5P2Sdq1T1,Cne7,IkpvOlocUneh,Huac,C1,Ru23,A1,L1,U1,C1,C9L8MoopN6S1,Ede1,!A1gaEwzlIx0qLsgzRwysS,Ax02Ewwq,AwzlGkduU1,Nog5Tq3,A1,DR1,!E1Ix0wS,CwrlDx0vT3y1,!DN1Rx0wS,Ex0xFvfvNx10,!An7cEwz9S,N1,Bsw6Nx13O1,!Ax0kEq63I1Ox11,!AwzxEwzzIt7gS,B9E7I6S2T1Y,AnknGhHwokIsewLgNeR1SwqkT59p,Ushr,T1,Wlj5,Nx1bOwv6Tx19,AwleEwxaI1Ow89Ulp4,L1pi,A1,BwzrLlwb,Fwj8Nx1gSrc6,A2EwxfI1,C9E8Lw3uS6T4V1,SvfkZws6,!A9g6I1S,N1,O1,EI1,T1,Tsa4U1Vp9x,Cjs8IvdaKp9yL1Twvy,Ex1sIw8i,S1,Ex1qIwuwL1,!A15EnIcO4SU1Vvnj,!Ax06Ex0pIwxrS,D1Mx1u,Kw7NR1SvnxXwtk,Ato7Drx5Igi4LwuqTsj4,!DwtdNwv6S,Ds0mN1Rww8,Dx1zKx1z,KsnkNR1UwuqVsnk,AsjcIg0uOf3x,A7E6I4O2R1,Nshh,!AwdBvmCqfDoaEn0FlaGk3HjiIhoJhdKhaLfxMe8Nd7OchP98Q8yR8nS4pT1yU1rVcW2Xx1bY1Zenv,Okvi,!Rx18S,Spns,O1,!AoulE3SY1,C5M1Vtj7,O1,D1,Hiua,Hvm3,T1,N1,A1,M1,A1,OwjuUx1q,N1,Ex2lIuztY,D1,O1,H43zS1,BeCdD7M5P1Ta3q,H6xn,Tuyi,Bwk2LumkMwpuP2S1,Ramf,O1,CwfwSwx5Zx23,Ix30Luvh,I2O1,T1,CEwuu,!A2I1SY,M1,Ax32BuuwMviiNv7fOaSvyqT8U1,To6a,N9c4S1,IOx2c,R1,E1,!C4y,!C2PuubS1Vtk7,Ax2nE6Ij3nO1,!Twc4,A1Ex3cIwu8,ILw1mOwztUx2k,Bw48Cv2kIwboM2P1S4xlTtq1,O1,N6Z1,Ouxl,R1,H1,Duxh,N1,E1,Twp4,N1,O1,C7D4LwffM1NwffPwexRx2u,Am4dIq30O1,Lgf5,A1,H1,P1,E1,C1,N1,!Ax3cEwmpS,D1,Hk5kI1,!E4Iwj2O1SUx39,B1,Hivu,C1,!DfM3N1S,Rtu6,A1,!Ax4aS,B1,B3M1Sx3j,!DLwr8Rx4cSlzl,E1Ix4f,Aq3h,H1,P1,E1,C1,O1,H1,C1,Luri,Cv1jSx3jZwfk,!I1S,M1,Dw8y,AH2I1Ox2o,MfN7O6T1,A24E1rI1dOnUiY1,!STwzf,!L1Nok9STx3z,Dil3,L1Nx1dV7ef,!Ex52FuwnIx50Lwa1SY,N1,Av6nEx3xIra9O1Y,Afke,L1,PttwSwn5Twn5,AwmfO1,E1,L1,C1,U1,Ex59Owhf,F8N2S1,!AeBbEx55GqisIwsfLedoO1SWsr1,Apt6,!C1S,!BqrjDR1S,Nx5gRSx0c,!E1Lx43Nx0sWvsy,!GSUx4o,N1,Spc5,ItxyST1Y,DT1Yx5l,A8gq,!H1,!E3Ix5qRvc8S1,Hs7a,C1Tv5m,EdHbI9K3O1Rv25Twdy,Ax1uEhb0Ix5uLwwi,!Ax47Nx4yRb18S,!Ib20S,!DL1PtgyS,EwxrLx5wNx5z,E2I1LtxvY,Ex1zIx60Owvx,L1,U1,C1Nwqo,!Ax4gDaE9G5I1LsgrOvk2S,Lx63SshkVwt7,CwnsNx64,I1,P1,M1,!Ex6cIx6aLwwyRp0pS,!BqseDMvuuRw7lS,E1Iwqw,!A4EwvpF3L1STvcc,Rthf,A1,DvzpM1Tk2vUdpt,DOwweRx6fSx5k,Ex6aNx6jSx0h,!E2FtesI1Lx54MvzbNx1tOSWwzaY,T1,FwoeTx4n,!I1Lx57Nx1w,D1,!It99OwwlS,R1Ux4y,!AaGsmrH6I3MbO1S,Fx67,A1,T1,T1,S1,IqcoSmbr,Vv8z,E1Nx6z,!STx6q,!DST1,!E1Ix71S,Eof2I4L1,!DRx71Sm2a,!E1Fsu2Itc5LmixMsndO17aPs5tRvhdSY,Pvps,DR1,!E1S,Lx62Nx69,AqdxO1,Lx6f,A1,At0uTx7a,E1Iwcf,Ab8g,R1,!IwswT1,Ix6yWx7f,A1Ox2t,!BaDna6EcbnGw3kH8Ix3gL6Msh7Nw18S3T1Wuy6,!Ax5wEx3jI79u,!DeG2Kx7jNx0tS1,Jx6oTojj,!DLx68Np7mRSx2i,EshzNx7p,FtywSb9z,EonaIsekY,Ax63Ex6mIx7rL1,R709,O1,!Aw1fN1Tvxy,!AuhyCqm1E8I7O6P4RqyjS1Twpv,Bt30Nwsh,!Ex6sIsjtLwurSY,Ivza,G1,R1Tvzf,Eps8Hx7yI5K4O1QuguStj2Ux76,!AkvsS,D1,R1,Lpgv,E1,N1,R1,SvgvZwj4,!I1Lx6vS,L1,A1,A9Ex8bO5TwvfU1Z162,!Ex8gIx8eLvu4RvrxS,Gx7gL1,Ar4bEx4uOvga,!B1Fs9mIwvsSkamWsnu,!Ex7dIx4fSTvu8,!DNR2ST1,El4sNx8l,Ex7fOvvl,L1,A8E4I3U1,A3rB3bC2vD2kE2jF2bG1yJ1tK1sL1mM1kN13O12PtSnTbV1Ywa6,Ex53Lo3e,LmueUwpz,O1,Ax56Rx8q,E1,!Hw2eIwuaT1,Kx8tTrby,R1,Avt2O1,!Aqk1B9Ex3hH7Ix7zKmppLwvsRgt0S4W1,Cvv0D1Mx0eNx8xRlz5Ssvc,Lx3jNx5e,ErtjIx0l,Cwm1Sx3aZwjx,!I1Rx75S,RwfhT1,!Ax93Ex0yIwz1Lx7qNx4f,T1,S1,!A8B7Ex74Ix0sLx89O4SU1,Ex91Lvr9,I1Ysn2,B1Wvtf,!Eqi7Ix9cRx7eS,DRwanT1,AvvkIv12,PmuyUf9i,O1,EwwcIhte,EvwzOx9c,!A8Bx26E6F5H3ItekL2Ox4vRutqSq2zW1Y,!ArrfHw2yK1Ot8sS,Cwrl,!I1S,T1,!N1Ox9n,M5y,!DvvgE2LsamMvy9O1Sth7,Mx9pPhd9,A1,R1,G1Ljrk,!O1S,N1,E1,G1,T1,!BqebN1S,!DIxa1Rx83S,E1Ip42,AwgqEx8cU1,E88w,T1,Lsc5S1,CechNwus,!AqrwBvgqEx93I1Mw0cOfbwST2ueWvuc,Ar54Exa7Fx1oL1,!Ax5yIg4dS,C1,I1,!Cx11IpwdOxabST1,Ix9eN1Ux97,Dh8d,L1Oxae,!Ex9cIst8S,!A4E2P1S,!Ex9dLx9kS,Ase4L1,E1OxajUx9j,D1Ix5yNxa2TujyYx5y,OwveRsvk,!Ex9jIwv8Lhi4ST1,!EsbfIp37SY,!Eb7iFtlsImpnMx5mSY,HxapKxap,C1,A1,B1,Ex6uIxavTx2a,Sw7jTxau,E1Iwfz,!AwodEwknHpixIshsL1SqdaY,DxaxFbKaM9R5S4T1,Cvlv,N1,!A1,Lr2iYxb1,A1,!D3Lwg6RwcfSW1Y,Ax9iE1Isn2Y,Awlp,!L1STxb7,E1,U1,Qt63,AvcqExb4Ux5k,I1Y,CvopR1,DxbdSvxa,AvvlU1,IwgjLxai,Lu3eRx9k,A1,IxbbOvjqY,!Lsbz,Aw61Owec,!ArjcB7DFv3aL6M4O4hqR3S2TvyeW1,!Et49GIxboOq9aSWvz4Y,Ex3iLxaaN1,Lwu7Rxbo,!LxabTxa5,A1Ux60,E3R1,AgCp9oE7I5OdsxT1UrtaY,!ExbnSY,R1,Axa9Ex9tIw2mO1,!MwyyRxa0ST1Vtsu,!NxayS,Exa9Owr0,!Srsd,!F2S1,Vwml,A1,R1,Awfp,R1,!C1S,Islc,!G5R2ST1,!Ex44LxawNx7lSp84,!DN1RxcaS,Imlx,E1,E3IxcfW1,!AxceIx89Lxb1Nx7q,D1,N1Rso8,!AlCpvfEkGtvgIhLxchO9ST4U1,Us0c,ErzzO1,Ewx7Y,!Ho7f,!Awq3C16gDrylEmpiH3IsvfL2NatoRanwS1,ExalH1Ixcp,Ax6wTx2x,Awy7E1,Ts5n,U1,O1,B1,!Avx1S,DwzmL1RxcvSxc0,Eb1qOvud,!A4E2H1IsvqL4rmNx89StkgTkjhUwxqWtm4,D1,!EaldIs9mSY,!Abm9DMxbuRxd0S,Ax1f,E1,!AbmcExc0Ixd5S,E4Ix93S2T1,!DMw1qRxd5SWvxb,Exa1GIwbd,N1,!E3Hxd8I1S,Bwv2Cv8tEvu9GmIsr1LkNbPaS5T1X,!DNRxdaS,E1Isch,BxbrNl0p,Isf9Yhc2,DLu0gNxdeRxde,!A3BqhpD2E1Iwy1LvnqSTwql,!Ix7gLxc3STxbk,L1,A1Ss1l,A4mB4dC41D3vE3lG3iI3fL3cM33N2zO2mP2fQ2bR2aS1rT12UaV8W4Y1Zflv,Yw83,BqnoCxcoI1SwuwTx86,NxdpZwmx,!ExdrI1LwiqNh8xSY,DR1,NwycSg81,Aqm6E2I1Lqxc,AxdrIx8q,L1,!Fx70L1O4jyS,C8plDqd2Erd6Gx8fOx1m,!A4ckS,C1,I1,Hmey,!Ixe1Lwj2T1,!AfBaDsc1E7I6Lxd3OrcbR3SUxduY1,!Exe5Ixe3Lx8cSftgUxd8,HhrnK1Tx3w,Cbce,E1,!Lx11PglpS,R1,!E1Iv4mLx8iOw7zSY,BxccT,!LxcwNx9lRgrfS1,LRtvq,!A1S,T1,N1,E1,M1,BcD9E7I1,A3kyNxek,Ex6dKxcyNxel,ExakI1Y,!ExciI3L1S,Awet,Y1,Ex21F3I1Ox2f,!ELTxd4,!Ex6kIwcwLxdcNxa1,D1Rxeq,E1Ixet,AxesExdeIxan,LxdxS1Uxen,Lqdt,!A7BxczG4LwjyO2SU1,!AjiaExdtGIxeyOx4vS,N1,!DLx1uRwzoS,AxddE1Irk8Y,Shkw,Axf2LhcoU1,!LNwbgTjgf,A1,N1,As3jEqivIeh1Y,O3yv,!ExfbIxf9M1S,R1Uwlf,EegxIsm5Y,!L1SUxeh,!Awg9BaExd8I7M6O3P1RgzfS,BkapGxaaRshtWvzi,Lvu3Osdf,Etq8,EkcwIrkoY,Ex7bNxasSxf4,!I1SY,!A6Bvm2Cd5cD5EwkkGw7cIx6eKse9L4N3OmgkRshzST1Wvzo,ExemIt02Ttqs,SlrmTxcgZx9v,!I1Lxe8,L1,A1Bwg7,!EwotIrkxLi2bY,!Ix0bSTu7nY,T1,E1Ing3,!A3aeIxbnLxefS,C1Ex7oLxegNtkx,!Axe8ExfyI1Lgq3Pp9tSY,ExfvH7Ix38KxfvS4T1,Brlu,R691,O1,F1,Nqf8R1,!E1FtocLw2bS,Ax6qExg2,L1Nxg3,Ex7zLxerNxg7Su67,Exg9I1Y,!AaH5I3ST1,AvluB27C25D1rEktcF1kG1cI1aL18MwNpPoRkScT1,!GqtpS,KxdgTxg9,AxgaE2KxalNxcqO1,A1daEe8HbiI7pO2sU4Y1,DumyTxbqYxbq,!HxgdIjfaS,T1,A1ExgjIxgh,IxdnS,C1,I1,R1,T1,E1,!ExgqIxgoM1S,!DIxgpR1S,Nx7pRxgo,Ev7h,!Ax6iEsu7S,T1,AxgsExeqIxgu,Lro0,!AiBfE7I6L5O3R2SU1,Stsw,I1,U1,H1Txcc,DwxyTxff,!EIxcvS,Dxg4FwywMx43N1,Ex45Yto3,Is0nM1,AwyfI3O1,R1,A1,Aax0Exh7IUxh1,L1,AaH3U1,T8ke,O1,D1,R1,Mx89Tw2u,E1,!Bu0fCpntExgdFtskIx22LwmjSts0,Toqv,N1,E1,!LxhkM1Rvbc,ExdmIokz,C1,I1,Gtb5,E1,!AxfnIxhjSY,T1,F5L3Nx2fS1,Lve6,Twh7,C1,N1,A1,I5S1,AfEx98I7O1Uxc9,!A12Bu0zCrEnHlKkLwn3QuihR1S,Ax2oOwboRw5k,!B1CpofDLx4yRwjeSTt30,E1Ixi5,EqwgHx6iL1,!RxdjS1xn,Hiqc,C1,O1,S1,A1,M1,!D8ExicHhudI7LxgzNxdoO1,Rtm2,Rq1w,E72y,E1,IwblY,IwifYra9,!C5Gb4vK3L2NxdvRSxdgT1,LsbyRxdy,Ns9c,A1Ovaw,AaE4F3R1,Axc5Exc5Oxho,!CtfoM1NsyuS,!Bro7LxhdNxe2RSxdn,!DxirExivIxitS,R1,A1ErksIsppY,LxhgTxha,A1,T1,ExasT1,Ata1M,!AaBu1yE9G6I2OxizSU1Y,Bxj0Wwkk,Ata4,I2U1,RflwTrkh,A1,O1,!AxhkB1CppjExi3FvavIx3sOg2vPu21S,!Dv9kExjbHwlyIxj9Lgi3Sx3y,!ExjcFl55IxjaST1,Hxd3,CxidDxjaGxieL4Mx0yN2T1Ywng,Ew4lIxjb,!Ax3yS,Dw32,N1,A1Ixjf,AxicExi0,I1Yrb8,AwsdBwghCtghD6LxjiM3R1,Awf6Ov9w,Lfhj,!C1Gn27LajkMp2lPvefRsumWw1j,!AwuzPxjmR3S1,!Iw9kYx0k,AxjoExjoIwukOx6p,!RxicSTxhk,A1,C4EwfaFvypN3V1,!Ew15It2lLxifNxf4SY,W1,!ExiqItwiO1Yx50,Gonj,!BstdEqvcIxgcOwo2S,N1,A3IxjyO1,NxjzPxjz,Lxk0Mx72Nxk0O1,Svjh,O1,L1,ExjyIu6l,G1X,Axi3Dxk6G3N1,!AxbsI1S,FxicLuqw,!Axk9I1,Etvr,Rczx,IxfqO1,NxjiR3T1,Ou3tUvc4,Epx0,DRw1gSxjl,!RxkhSxfe,Oi19,B1,E3Lxj7M1N85mRxjnSxk8,AxiiEx7o,!Hrf3,Awf4Obfy,!AbBaC9E8I4LslmNxg0P3S2W1Y,Rtho,IxhhOpst,Ru27T1,A1ExgtIlhr,B4KxksT1,!Awu0DExkuRxkuS,E1Ixkx,!Axk9IiwzS,N1,O1,I1,BxemG5R241T1,!Fx02S,!DR1S,Axl3Fx47Nxl6,!ExjoIxl6Rxl4S,A5E3I2O1,!A1oCp7kE1kI1fL1cM18O16PzSxTiUdV1,TxieUxfh,Axl8I1Sg1u,R1,!ExleIxlcRxlaS,AxjmUxjm,CxkgKxkfRxlc,A3H2OxldU1,!CwykKw0kNxgq,Dvtb,ExkzSx3tTxkjZ1,SxklVw44,!AxjfHt8iLqrqS,Axe3Hx9x,AbB7E6I4Lwf0O3P2S1Uq8w,Iuz4Oj6h,T1,Iwd4,N1,E1,Fx18MwyxOcb3Txju,Ax88Mxlr,AI2U1,T1,!ExlyIxlwLw7mSWwol,L1Rvi9,GrcpNxltRxlw,Arpk,Rw78,A3L2Ou5eU1,!LudyS,DR1,LrjqRw3i,Ixm3Ox6q,Ii63Orep,Nsms,I1Pp33,LxlaPx9bTxm7,A2ErcsI1,!Hpk5Owg3PszqThud,It29Oetf,!AgBcDt0aEaFrkpG9H8ItreL7MwawP3S2W1Y,!ExlfS,!R1S,AxmeLxl1,I1Y,R1,!Lxl4NxhtOxa9S,A2E1Ixid,N1,I1,!A8ExkwFwqpHxmlRxf1U1,Avo2ExmgLxl9Uxgw,I1Y,R1Txen,A1IsqoOj7lY,Cx4jExmkNxmtOxaiT1,Sw3q,A1,Ox7mUx7mY1,CSoo6,ExmvI1,T1,T1,O1,L1,U1,Imur,Ixn2RueaV1,!AxleC3E1,Lpbh,MtrxRxn5,!LsyuNx4uSUxlh,A3I2O1Uxli,A1mB1jC1fDxEr1sGnIiJsjuKNfS5T1,Aw8oNudq,E1,Cxk7STxlx,N1,DwmqE1,Ewk2Ix80,Etkt,C1,FjorNxeiTxmk,A2I1,Duu5Gle2N1RvekTx9hUxlu,CxnkRbeoSxhl,I1,ExmjH1IszkY,Aje3Yae6,Exn7H1,Bx4oGmk5LwzeP1Zvgx,EwosO1,!AwlfUhwa,!Ac7vHiIfLeO9P6R2S1Wwqj,Nx60,A1,B1NxnvPxmy,!OxjoS,D1,AavlExmy,A9rq,H1Lt8q,I4L88dM3P1SlsdUxnv,A5u1ErlwO1,Nxn7Rxo3,Nxn7Uxnb,C4jl,I1Yu7l,N1,!A5I4O1S,Oxo9Uxij,S1,S1,A1Exoc,Twxx,N1,E1,Dak6Nx93Sxno,C5d9,A1,Auv4,P1Rxok,Nrm7,A2E1,Axi3IUxoh,!I1S,R1,O1,AwCpDjExnuGfIw5rKsl4McObR9S5T1,MxorNxov,!As20ExndI1,Twi5,A1,Rq8h,Bxn1F1,EsqvLxnlNxp1,!A2ExnjI1WwrqY,Gqjh,U1,R1,HaIxn0K8S4T1,Gxp4Iq2y,N1Rxo9Yxp5,Llso,E1,H1,!DExn6Lv9oMS,BxiwTxh9,!Exo7GPws3SWws2Y,Cw7xSw3gZtus,ExpdI1,IxksOmqz,T1,C1,AxnvExo1,A2I1Ylyw,!F1,!AaExlfN9R7S1,Auf4,Ux8x,!Nxo9S,A1,I1,L1,Ixm7Nxo7Sxk1,A2I1,Ab74N1,R1,Rr1t,G1,AxlpCDxpx,!I1S,A3R1,!AvCsErIgOsfgRfSeU6Y1,AxoxXxp9,O1,!B1DPxnaRwv5S,E1Hxq4It22Y,A30b,R1,Ru95,B2K1,R1,ExolHwxb,AxqbTs9g,Axo9Exq6Sst4,ExpwI1OrbhY,!DExqiIxqgRxpgS,Iwnd,E2O1,!CdE8G7Lw58N6R4Swk1T1,!DLxp5NxluRqfwSxlf,E1Iruh,NqrsTxqk,Bxp0G2N1Rx89Txpo,!Axp0DLsuaRxqmS,!ExqnGxniS,N1Ou43,!ExpmIn6dLxdlOxehSY,!ExpnIr15SY,R1,R3U1Yxqs,Erq5,I1Yxc0,AaE9I7O3V1,Nck2,Iwd5O1Uwkp,Iww2Oxbl,Mvcw,Er0dI1Okre,!B4DkhzExpyFrpfHoxkIxr3L3Mn7uNaolST1Yxe5,Cu4cFjmfTwln,N5hh,O1,H1,NxpaP1,Uw7t,!A76iExr2Hw1kI6O2T1,Dxr9Nxbw,Nqf9,!AxppEqv1I2O1Sxm8Ywvh,BaiC9cD90EF8pG8dH8aI82JxfpK81L66M5sN44P3kR2lS29T1cUvVhWbX4Y1,AsqhExrhIso0LxloY,SxqiUxql,E1w8O1,!B3I1Lkg9RxheS,Lsm2,O1,F1,I4t7,!L1S,Mxq8,R1,O1,F1,!ExrqI1S,BxldDpuyGxquR1Wlbs,!DLssqNaocPxozRxrsSUxcl,GIxrt,N1,!ExqsI1S,P1,Wlby,!IxncO2SY1,GqssPsig,!Ero7Ixs2S,AaDt2nE9Itx4L3O2P1Y,Exs6Ixs4Owg2,!ExrxNxs6Sxrr,!Eru3I1S,!M3P1S,Nxs9SxmhZxmh,!ExsbI1LwdzMd1Oxi6S,L1,Axs9CUxmj,A2ExiyI1,!Ew9oIn7zLi04NxnnSY,!D2NsqmSkyeT1,Nxd0Sxmn,!ExsiI1S,T1,A1,O1Rwql,!DG1S,Lx48Sxqz,!ERxskS,A1,L1,E5HwwsIxspO4U1,!A9v0S,Uq9s,O1,B3M1,!Cfw0DHx8cMnmfRxssSY,!ExsxIxsvPxahSst7,ExkpF8nbLxrhNxsxOxg6,Nnnn,I1,T1,A1Eu3s,!EruyHxt0Ixt1S,!A9CxidE8F7I6L2P1RovwSTxt1VxstY,EigdIxp0,OwvuRwdpUxqz,!AxoaBbv5Exs0G1Iss9Sgbl,DR1,!E1It01SY,!BvzqH5OunxST1,Pt53Rxt7,Nshm,E1,B1uDxtaF1rG1pL19M15NyPnRaT4U3V1,OxtbSxs7,I1,!R1S,Fxgh,I1,!H1,!RxrlS1,Gpg1,A6DxtkE2Ivu4O1Tvzk,!AxsxIxkwS,C1,AxszExrkIxto,EwzuI2R1,T1,N6P1,Evtx,R1,F1,N1,E1,D1PwepVxtv,Urlp,AIkx,!ST1,A1Exq0Ixu1,AlhsIOxu0,Z1,D6EvehM3R1,Rw3s,E1,P1,CxivZxoh,I1,T1,!A1S,AxtnExuaIvon,M1,EIxq7O1,S1,!O1S,M6T1,Ojf9,ExuhIq84,N1,E1,R1,H1,!Cms7G6Ixr2NxtiP1S,Iun1O1YZt7t,Lrm1PjS9Z1,!PxuqS,MgojP1,EulpIxln,R1,E1,!McdbSY,K1,C1,E7I4O1Ushq,Zpns,T1Zpnt,L1,AxtcEx18Lv2c,!Exv2OjxeS,A3E2O1Uwov,PxuyS,P1Ug3h,Chor,Zxup,T1,KjjtRxid,!Exv4Lxud,!Z1,Oxv9R3Z1,A8E7I5O1,!Aq7iIxmqS,C1,I1,T1,R8tlS1,A1Ijuz,OxvhYx6n,Axg8O1,Estq,Mx6q,Rr24,E1,T1,NR4S1Txuu,A1Exp9Ifry,Awsc,E1Ix03,!BaCglcExvzF9GnehHwdbIxghKx01M3Rt6wST1Wu30,L1Nxj0,Stdv,I1,T1,LhO4RxvjT1,IxvyOxsh,Oojk,!B1Exq7Ixw5,S1,Ixv1Lun3S1,Rb4l,E1,M1,!R1S,A1,A2gE29I1nL1eM18NyObRaTrhsU6W1,Iar6,Erh7T1,AxvrFxrvSxqfZxqp,I1,CxvjT1,N1,Cv0h,I1Lxvn,Twf7,Tjb1,E2I1,!ENpc1STxui,A1Oxjp,L1,Gvo6L1,I1,Cx0xT1,Lj4zNxwt,Hvp7,O78cR1,LxvcOxut,!Exx1IxwzSTxst,R1,I3O1Uxvz,S1,In2xOxku,R1,AqEmLkMhNbOaR8S3U1,Frs6,IxtlNoqa,Rwxb,E1,ApogExkb,Axr0Cxx9Nxx9UxuhZp29,I1,D4IxxfM3Pum4SvszT1Uxx5,AvxpE7IxsbO1,R1,AaE1,!ExwcIxxhLsumS,F1,ExxbIxsg,C1X,CxxcOba6,E5rd,P1,Ds1oE4I3LjcmO1,Bx1r,CxrzExxo,!ExwmFu8tIxxrSu89,P1Txp7,!ExvpIxxtOmx3SUu8o,!Bt4yCtd7DKn7zLxkoPxu7RxxsS,!Cwb6E,A1FwcsNxxx,Erip,A1Ixta,BeapCp6nE5I3NruaP1,Mwy4Pxqu,!Cwk2ExwaIxx3O1STsiz,Exrf,R1,D1,!Exx0GxotIxipS,!Ex4bS,!CvgjExx2H1IxirMt7vS,N4R3Sxx9T1,!Dsw7ExybIxy9Lt6pS,FsLmMlNkOiPhRbT9U2W1,Bgn7,ExyeIt56LtbgY,!G1S,CtcgGtcg,!Brq6JwrtMwk5S,AxbvExxbItacLxxhY,!Bt7nExugHkm6Io16P1S,!Bt5mExskItaeY,H1,C1,Lp43Nwiw,BbG9I8M7N93rP5T2W1,KrxcMt73,H596,Lwit,!Axx2ExxlIxjaLw0aP1SWrj2,!C3DxyqN1S,AwkyExvx,!B1DqzuExxoIu3uLx3uSUxjkWvpgY,A7E3W1,Lr51,Axy7B1ExuvIxyw,DSVxt6,Asna,ExqsNxz0T,!ExxvI1SY,NtsjWxz0,A1,!H1,!M6P4S1,!Exy0Ixz5OujlSUud9Wrjh,!ST1,!DNxm9S,E1Ixz8,BdEcM5P3V1,Lvv2,U1,Gtcg,!ExzfIxzdSWu6g,L1,CwlgGxygPxzeTtfc,Gr57,GxtqN1,DxzgF7G6L4O3Tos2U1,!Bi4gLw13SWwhf,Frhx,AxpbExznIxzl,Trv1,!M2P1S,LxtxUa6o,ExzhSxtyZxqd,ExmsI1Y,N1,Axy4I1,BaF9M6NtfqP5T1,A18E10IlOcU1Yxky,!DwllIOS,!ExzyIxzwLxqkS,F1,!EskgIxxsS,Ux63,!Q1,!DS1,AxtgE1Iy02,R1,!Ey06Iy04OxydRxveSU1,!Ey07IxrpST1,KxrlL8P1,AxksLxug,!B1Lx59Mp7fS,G4gwNsy7,!Ey0cIy0aNsesS,R1,At0qE1,!P1S,!EIxw7Oxqb,ExyxL1,I1Yxlk,FswsR1Vmuj,!GxzjTxyw,!E2hdIy0j,H1,!RTxjf,A1Uxxs,L1,!L1S,Uxpe,!B1DS,E1Iy0r,Ex6xL1,!AbC9E5ST1Uxxz,Ztdy,BxzxD10FyLpMnNmPiReT2Z1,Mubs,O1,T1,!S1,Zvl9,AxjqI2O1Uy0t,H1,P1Ttpd,A7sE7dH4rI3zL3oO2uR1aU9Y1,AwmzDy13,Gw5hNxzk,Awu5Oy01R1,AxltE3Iwu6O1,AxudCy14,O1Rvjn,OxlwRx5h,Rwc7,OxxrWy0u,A2Ls5lO1Rxe4,IncqOxunUwnl,!AxtsEslyIy1gLx6hSt1s,NnilRy1c,ExzrRxws,!T1,!A3Ei6qIu6lLbxnOqfqS1Y,IwutLwzsOune,ExohIwuo,!AxzzExvpIxxkL1,H1,!C1Ewj0IxxmOuw2S,AwmiOukn,EwnxOy0p,CwmgDy0t,Bq2hLvs0,!A1Ey0pIxmeLxooS,N1,Rw3g,!C7H6I5O2T1,!Ey0tIxmiLxosMxwuRsoeSWu91,Dy1xEy1x,Ly1hNwgpR1Txp2Yy1y,A1EwpiOs52,!BuCsDrFoGnLmMiNxy3PhQkmuRdS5T4W1,ExpsIxsx,C1Sxl6,A1Ow6oUxwd,LvmdNwyiTm8n,Iiff,S1,DxsxRuogS1,D6icSwdm,U1,!AagzExybHsy6IrkuLy0xOS,D1,Bw4qN1,IoraYwni,Gk5aR1,Nxu2Oxx5Vxvh,!A2Ex2eI1Ly13Ox9gS,Cy0lT1,E1,N1a4,A1Ey2e,I1Y,R1,!AshyEy2rIy2pS,N1,Lxt4O1,!Ay23Ey2uIwyhS,R1,!A6I3O1S,!IqafLy1gS,R1,A1,!Ly1jUy04,D1,!DLy1lMy1sNxyaRy2ySxxv,Ny32Tqdt,E2I1,L6N4R1,!AyCxxnEvLtOqPwlpRkSTaU1,ErhnIo3j,Ny34RgacT1,!SUy20,Nde2R1,EIx47,By1nRy1vTxyg,!A1Ey3dIy3bOkblS,T1,N1,E1,L6M1Tlc5,IwetRxyq,Ey1sIxa2T1,C1Lw9pMy3g,AdEbGhj3I4U1,H34m,C1,T1,A1,Ky2pSy2p,A1,AxqrDRy3o,!Bwr8C2E1ItfnLuaMwsaPx6hSub8TppzY,!Ey2nIt2wLwo3S,!Axh8Ey3vItanSY,!Uicb,!Exz6S1,!Ay28C9D5IxogKq23Ls2lM4NP3R1Sq89Tts6,Ly2hRy2iTxz3,!A1Ey40Iy3yS,T1,N1,E1,Ey1yImpg,Ny2xT1,A1,G1,E1,EuprI2be,!Ev0vGwmtM7NwblOy46R2SU1,EwvnHy3a,!IunqSY,R1,U1,!AxhsIy44SY,R1,O1,AxhvIunwY,R1,E6I3O1,N1,My4iPa6i,A1,R1,G1Lsd8Mxjy,!Ay3zIvonO1S,!Ay31Ey0oIpwcM1Oy2yUy3n,Ay32Ey0pIpwdOy2zUy3o,!CiDy47Fy4pG8NxvfS2Z1,AxveExvd,Lt4t,Ct7lDdnxGhs9Hy4sM1,Uvbk,O1,Od9,Ny4zOxy0Vxem,!Ay3bEuqcI1Ly3kMwtiNy09Oy38S,T1,CDy42Fw9iTy42Uxz9,CvytLsdnUy4u,Ay00I2O1,C4N1,Ex6nOx7v,!Ax78,!DvviEy59H2Ipz7LwrfNy0hS1Wxxy,!Ay3kEwqgIy58Ouo5S,!Yy34,!GxnbS,Df1uS,A2E1,!AjChDgE9F6L5S4TgdnV1,H6hx,Nn2eP1SkmvTxoh,BofzNy1h,A1,L1,Ojq1,Ay4vIy4u,Ey3uR1,!T1,!I4MxmkNy5lS1,Tlbo,C1,A1,R1,T1,S1,Uwl8,Rvgp,O1,B1If33,G8ds,O1,I1,B1Mn1zNw4b,O1,T1,BbNsqvQaR7U1,Ax0rRq8y,N2ga,RjsmVf2d,Sm4d,S1,A1,AvojEy63,!I1SY,N1,O1,Ay6dMnwu,Iy6gOy4p,T1,C1,U1,V3t3,R1,Cu3xE1,D4S1,LaM9N1,Dvcq,N1,I1,L1,EnImLjO5RnenY1,Kwhw,R1,A9cc,AvirIo77SihmT1,AxtxUp4xVwqm,U85p,!T2th,!DS1,E1I7vh,C4M1,Yxs8,Rpd8,A1,AcEaI9O4R3W1,Ivd9,P1,Ednj,G98i,R1,E1,M5R4V1,Usqx,Av9cIb4w,!Txgq,N2T1,Xeck,E1Uxbo,E6I3L1O6sf,Oxuh,Orap,AawfL2OdmiR1,Bwqq,Ay20IwgzO1,E3t4,Hx9a,G2T1,Q7woT88u,Hvi5,T1,I1,R1,!A1,G1,Nxr7S9q6,E9I8O2U1,!Ty1v,T1,L7vc,A1,T1,C7i2,AvagTsma,Ix1lN1,A7E4I3O1Uxr0Y86r,!IuynSY,!Ly6xR1T93j,Am6m,M1,Dxyt,A4Ihi4O2U1,Fj1b,Aprb,!In8qS,C1,I1,F5LvsdP4Sy4eT1,Mxhv,L1Rkpn,AsrpEsls,M1,R1,Iv3a,Eq2x,C1Nw07,L3Pxs0R1Swbc,Vxji,I7r9,S1,S1,E1,!F1S,E67gI6O1,Bwoy,AgEdO9R2U1,T3vp,I1,T1,N1Vxwb,A1,U1,R7za,I1,L9aoT1,Gxx6,AwzcE2I1Uvli,Csvb,Rvdf,C1D8e2S,Bfay,U1,R1,Fy8qLxdr,Sozw,R1,E1,M1,B1,Evdq,N8l9,!AeEcH9K9awO8U3W2Y1,E3xp,R1,R1,Nqm2,Uxxd,Adqx,L2P1,S1,InjoN1,Pm8a,A2O1,E9Iy3bO8R1,EseuIx4uOhhv,!A45B44C3gD32E2vF2oG2lH2jL27M1yN1sO1mP14QyRtSeT2VlmjW1Yses,Lqpf,Vx1v,I1,V1,R1,Ned0,R1,E1,T1,EIv3s,E6I2L1Ry8ySg6p,A56B53E4yIcObP1,Auzj,!I1Sxvc,R1,EyanO1,RmlkT1,!AxuuEy9mIyarOs52SUxvi,AyaqIy5bTp5r,EwozHxcb,C1,!C3Gy9xS1,!AyauEyaoIwaqS,R1,O1,Rwh4,LxkdO1Ttkt,Gx44Tyaz,Ayb0Ey9wI1,Py3hR7,Yknn,SuraZy5e,!I1Ly9r,L1,!A1S,N1,NybbO1,Ex78I1,!T1,!DFwy6LwxlS,!Ny6oRSy69,E1Y,IasnL1,Ay59Uy8n,L1,SxmeVkqkZy6n,I1Omlk,B5L3NybmT1,Ay95Mew9N96rUy5u,!I1SY,R1,A98rMOhg8,AeEdI5O2U1,Arv8Oy1o,I1,Cy62T1,!N1,!Ido6Lyag,L1,!A1S,T1,N1,E1Oyby,!ExgyM1Ntaw,!E8I1Rya4,!A1dD1cE18GtlwH15I13N11O10RzSdT1,!Eyc6IxzfLxldO9jtS,Nyc6Oy57Sy2xVyaj,Ex2wI1Oyaf,BjehT1,A1,L5R1,Ayc8COvwn,Urib,!LRw62Tyaq,Rhl0,Rpp4,A2D7j7NslkT1,N1Twz7,!AybsExdhIsvzS,C1Ll11Mybj,G7bo,A1MyciPtb9,!A9E5I3SU1,ExirRvn3,H1,C1Txn6,L1,AhIgOwwvPfSy8hT5U1,Ibno,C1,!Ay6lS,Ey8tIungY,C1Tomn,A3l3Uy74,Exj2R1,T1,L6N4S1,!Eyd2Nxm9S,N1Ttqg,AaE3I1Oy5g,U1,Cy8rMyd2N,!I1S,Eyd4H1,!Cyd5GeuaItl5LP1,Dy3wTu2p,Pe7y,I1,A3D1Ey46Iy94,!DIyb7N1RSy87,!AxqsDw3oHxg2IxofLxieS,CybgTxeo,N1,!A1S,E1Ixy1,MNydj,Ex9gI1,Leb4T1,Ey1aIybgUuwl,MycoS,!EydpFxmwS,!Aydm,!EydnG1S,Ovo5,C1Uy3p,A8C7E6F5Gue4N3O1,Nsez,A1,E1,CZy4k,!Eu90I1S,N1,O1,Vsqk,N1,O1,Aeso,I1,Ekmw,Ru1b,O2gkU1,AwejIya1,AydkEye7Oy1z,N1,!E7ntS,N1,E7nvI1,N1,I5O1Ywz7,CeDcLkw6NbP9S8T1Uye8Wyee,Ny9i,!I1S,T1,N1,Noj5,I1Oyds,G1,E4I1,Iyb3Oyen,N1Ty6n,E477,A2I1Yxzw,!HxhiLy1nS,T1,Byd8LyetN1,!Axg8BtobDMx3fRyeuSWwws,E1Iyex,Oyd7Uy0e,C2Eua2LxonNxzkT1,Hf5f,C1,E1Owsb,!M1S,A9Eyb3I5O1,!A1yDtt2E1tF1sG1oI1dJ1aM16OpPhRdSUw79V1,Mqy0,Nsyk,A4exE1,Lxfq,A1,D1,E1,E9tl,C6P2T1,I1,U1,LydvOyc7,I1Ptku,CyekTw99,R1Tyfi,E1Ici9,AgQ6S4T1,!CwsyEL,Fv6vNyfmSye2Us0s,!Cd8b,ElvjIy0aOydz,!EsquIy0bL1S,LsmxPyfq,!A6BwmbEvh7IntbLy1nO5S4T2U1,EkssHyfsIkspY,!FkssST1,!FkstLyehSTydy,By6gL1Nyby,!DLyejNyb8RSyf1,!A2E1Ivf3S,N5R1,E1ItxxRb5j,By6lGyf3Nyg0Ryg0,DRdob,!A2E1Iy0oNS,Nyd7Sfzi,E1,G1,Ey81LyetNulaSya7,Lsi0Oyf3,Iye5NwuzRhox,Eyg9Lybh,L1,Chl5,E1,!D1NygdS,Egr0I2mhY,L1,P1,!A9Ex39I7O4SU1,!AdD7ncEyf2IcLx2sOw92PbT1U71mY,AejBegCdhDd2EcpGcdIbuJbtLb8M60N4iP3vQ3iR1gSzTsVkWhX1,Rxfa,Nhb3Tyb6,A1,Z1,R1,M6zn,E6O2U1,Iowh,F1,F1,A1,R1,Bw7a,!ByfyDRygxS,E1Iyh0,!L1OyedS,K1,EtqjLxanUw8r,Hgdv,Otqe,!B1Eyg1GblhItt2Lti2SY,Ov8eW1,Axub,!B6C5DwriEnwpFwz9Ix2iO2R1SUv8gY,!Mxfh,EyhdItt7Y1,!Byh5G1RqzbS,RqipTyei,!AyfqDtfdNOv0bRyhcSUy25,AyfrE1IttbOyerY,OyfbPyheTyheWwyq,!O1,EppiIv9uL1OybqTY,!IffiS,ByfxN1S,LybuOwxf,Cy8sSygp,A1Uwvr,!DF1Lx3wS,!HqlbIyev,S1,Sqld,A2EybuId2dO1Yy2w,IyhlSqlfYyhs,Oy99,O1,!AcBbE8IyhwM4O3P1Rws5SUyh1,!Gqcc,IyhpY1,Iy9e,A1,H1,!Eyi4Iyi2Pxb9S,!EyhvHyi1S,!Mx6nTtg3,Ex2aI2Uy2pY1,D8G5K4Nyg8T1,Exa1Ix2jY,!AygkDL1NRyi6SUy2z,AyglE1Iyi9,!AxreCl2cDHsb6Ryi8SWtnh,Fuw7Nyic,!Eyh7IyicLxndStio,Osi4,O1,!H1,!EnbkItl1Lyh1NydqS1Y,AygtDyifE7I6K5NxpgP1,Ls3x,H1Ltij,!EyimIyehPsbqS,R1,E1,!T1,GxvsLyin,!DLvalNRyinSTyej,Ayh2E1Iolf,!EyitIyirLyiqMyipNS,!B1uC1qD1jFn9fG1gHuy4I1fK1dL1aMwNmPjRbS9T5U4V2W1Yyiq,!EyhoIy3dLvapSWtm2,!BnzlEyetIy3eS,H1,!FndmLth9R3ST1Vyd5,AygsEygs,Ay3iE1,!AyhbDtz8Lxo0S,!Em62Fx5tIqbiSY,Rsfa,E1,Dyj1Rwty,A1,Asf0E1,H1Ky0s,!BtsmClfeDrqkFqr6H5IsjvMx7qS1,EtjiY,!Ex0kIyj9L1NyejS,!Eyi5FxsjIy3uLxobS,NbP4R2T1Vyic,Ehhd,!Dw9oHuypS,K1LyigTygj,Rtg2Uxd5,!FuuiLxoh,!KtzxS,C1,Rirz,RyilSnkt,I1,Ccko,O1,!H1,!A7Bwq7C6EyikF4ItqjPscvS1WuqsY,!BdcbEyilIyjqLy6kS,R1,AyjqE1IyitY,DeFdL4T1Vrw8,N337,A1Dt7uT,Dpny,R1,E1,H1,Lgr6,A1Eyjc,RyiwTyk0,E1,Evbb,Tr33,O1,!FuzjS,F1,Eyk1Syjf,I1Y,B8Dyk9E7G5I3LwukOwshPyjdR1,Lwlw,CxxhGxxh,!Bnx9Eyj9IykeNS,!A1jB1hD1gE14G13I11KyjvLmNkOyjwPgQeR4ST3U2W1,Sy8sZy8s,T1,Exx6,L1,O1,AxxpB1,EyivSyjo,K1,!Dyc3Iy58S,DL1RyknSyfk,!Ayj2EyjlItwmLx6ySY,T1,Erw6,Tthg,!EyjvIyksRx6kS,R1,A1Ky7ySy6s,Gtuq,N1,Asar,DL1,!Ad54E1Iy5lS,I4L1PhkuY,Esj3Id5oYy67,!M1S,EykxGyl3,I1Yyl4,DRyj9Yyl6,E1Id5tYy6c,Ltux,Ib0v,L1,!P1,!BykcD7EyhcG9l0Itx9LpreN5P4S1Y,AxecRy8p,O1Ushm,Ay67Oyht,NSy8iTyki,A1E4vd,DNylhRylh,AyjwE1Iy64Oyjf,Auq9,!H1Iy72,Eu1aIxep,Ax5tOwccR1,!BaFu4eL9M7O8ayP5S3W1Yu12,E3rn,E1,!L1,!DppiFtmyIsr0Ly8nMsg8S1TyhnW68hY,EylsKyd9Ru2aT1,EydoM5vtNylw,Axz0EylyI1Y,!AwvkHy1fST1,!HylwRkpbS,!RoyhS,!A2E1S,A1kB1gC1eE1cF1aG19I18K15LzMxNoPcR7SykvT4V1,Zgt8,T1,O1,HylmLym3,E1,I1,M1Prh,Mqe7,E2Oxg0U1,Trb,L1,!Eym5Oxeb,A2Ex4zO1Uxg4,Atj9Owe7,Lq5tTyme,!AyktEylcIyiePsfnS,K1,EyfyItodY,!D1,Ix8rLwt3,Oifg,AyioEy9i,!Hy8iTs8g,!B4DH3IympL2Msh4PwmeRymnS1Tu7l,AykzRln2,Nrj7,!Gx8iSU1,!Eyl2Iy7dOv5qS,!EymwFx4uIymuKymsLymtNST1,Fu98,I1,Dxgh,N1,I1Or71,!BtqmGo5kHaKnx5L4MxbjPrt6STtnoW1,!Bs94DFto6Ly8vSgnrWu2e,Ats,AwwqH1Oo9wUfre,IvfqNx8h,A1Owxg,Ayn4Eyn4Nyn7Syms,Gj8c,!I1Txdc,!Ay0oBo04C6Esr8FuscH4I3Lvq2NyijS1Wv19Y,Ayl5E9Iy7uLyn8NT1,Unda,!EneaIyncS,!EynbG2ST1,!EnaqSymh,D1,L1Tyev,!EymcFuyjIynhLu3qNw7oSuxz,!DL1RyngS,E1Iynj,!Z7t1,Z1,I1Ok00Ry34,!EymiHy35IynnLyahSY,DR1,IxgxLxlr,Iy8aOwe1,!Tpv3,!Aym4B6C41zDtlrE4Go6cIx91Mq6qNOsi3P3R2S1Y,A1dC1bD19E14F13G11JynqLwe4Nym7OzPtRjTgUdVaW1Yyc5,Ny2bPvou,!EyfoIymwLymgNyj5,!D1EynyIqhwLxsxS,DlodW1,AbafEyluIyny,KpthV1,!Ex5bIyo0NyjaSY,L1,!EymxItuwLxt3SY,P1,!Ash2EymdIyo4S,Eym1Iyo5K1,!DLvb6NRyo4S,E1Iyo7,!E9Fyn2Kyn9L7M5N3SV1,Fx95Uyh2Vymn,EyapIvgmY,!B1S,B1Gu52N3sx,AjEgI5O4U1,!Aw31S,EynwL1,T1,E1Is9x,Dq5d,!BtvnDRyohS,E1Iyok,L1,F1,Krut,I1,!Nu4yP1STyg4,!DSYynr,!Btp5EyotIyorLyblS,R1,!CpjiDLybnS,E1Iyou,E3IyovL1,!DtmvE6IyowOsn5ST1,Cg5kDfFbLylwN8SxayT1,Nbez,A1,Ou4nY,!ErspIyp1L1NykbSyc2,!A6aE4nHI31K2yL2sM2oN2nO19RpTlU5W3Y1,CDycw,!AkrxI1OycvS,Ay9pEy6e,L2M1,Nxu5Tyh4,A1,L1,Ifnn,!Iyg5L1S,L1,!BypbI4Lvh9SY1,AyitEypgIype,Ax9kEylt,DEypeNtxwRyo0Syoj,EypfNypiSvfi,!DMyhwS,E1Icl6Yyan,!B5E4I3L1NykuO5zwRu0jS,!C7EypjK1S,Uque,Nrso,R1,Auk6Ou52U1,!Nyl0Ryl0,EylqGIypr,GxivN1,I1Oypt,Eyp4IykrOwa7,Diuv,Ts77,T1,I1,IynuL1,Ela4Rll8,Id28,!A7HxjmLrwuP3T2W1,Kyq1Lyq1,L1RymiYyq2,NujnSyoj,A2I1,!Ay57BiCx8sDhHo6yKu3fLeMxeqPxjeRdS5Tu5sW1,DmE1IyasLygw,Exd5,Iyl7Nypc,Os1hRyn9,GyklM3N2R1Swq6UyolVykl,Au97FddiTsud,!IyqeNRyqcS,E1,!AxgcE1,!EypcIyb1L8aS1,!EypdIyqiLtreST1,S1s6,!AyjyO1S,D1,I1,ArkmO1,NyqpSykxZy1j,!EypkI1LcffM50jS,GyprL1Tdcy,DEyqpRyqpTyqq,NxseTxtw,A1S,C1Ebhs,I1Y405,Rgjf,F2NyqyO1,!EyqqNugf,!AyqxEI1SY,R1,Otpy,!AcBty6EbI5O2P1S,AsbvHlIyqkLcyfMgN1,Gyq5Nyq5,CyhtITxz5Uyqx,N1SyjkXyqc,Tbm9,T1,E1,U1,O1,CDyqdFy95Oyf2Uylk,!EyrbIgflS,N1Syn5Tyf0,Axe6Eyf4I3LyqgO1Upi8,Uhm9,C2Q1,ExezOwi6,!Awv6EnihIo75LxwkOwv6SW1Y,Btuu,BtuvEttgLyq6Mpm5Nymv,!A2EypvI1SY,!EyrpIyrnSXxpu,!AymtEyrqItyiSwykY,Rv9l,AxlgEu16,!Iyd7Msv6,AyqqExf9,!B3EyqoFwjgIj3gLyqeNPqqaS2W1Y,R1Xyr0,Ayr6SUfxv,C1,Ay3mE3I1,AuDyrwEsHnIhKfLcObTaU9V1,!SUx8j,!R1SZydu,AuelEyrzIpn1,AypxL1O9zrTxan,Ay46EyrvSyqxZymc,I1Y,Lqk1N1Os97,Ix8v,T1,!MyjbNyniRSyn3TynkXyre,AypsTyqb,Eys2I1,C1Fy7rSx0x,E4I1Y,!A6EtbhL1S,Rc0k,C1Nyr9RysdTxtl,Atrd,Aeek,A3C2T1,L1,!AkIiLya6MtqiNys0OfP7SU1,!Ryhw,Txxs,I1Uyrh,P1,E4I1,!Cy38SWsrf,!Twsl,AE1,I1,N1,O1Ux6z,!OyqrRudtS,!DNyo7Ss54T1,E1IysyY,Gxzy,N1,!O1Phms,Rpms,A1,L1,!AyrhEt6tIyt5L7S4U1,Eni9Rx29,T1,Cnb9S1,!Asm7EyriHv4aIyt9S,Ix9fUysbY,G1,O1,Iuiu,A4h8L2P1,Mvzz,!E1Yygr,!As4kEytjIythS,R1,E1,Ipmb,!EytdIry2O1,AyjtOhy5S1,!Aqq0CyExFsGiHytlIfKeLxfvNu9wO9S7T4U1,Tmn0,PrbuS1,!Ayt1EytsIu4bO1S,N1,O1,!EyrpH1IyttPa66S,!DEytsNq23S,Ax8zEysw,Py0v,Ekuf,!DxcjE4IytyLmftO85dR3SU2V1,EtvuFq6v,I1Ylq2,!Eyu3HxwqIyu1LysmS,R1,AOyhuUyob,E2R1,!AytmEytxKybrS5T1,CyskS,N1,!E1,LxrgSkb2,EtugIyeu,Thfa,A1PyuaSyti,!Aun6CwkoEys9H5IyudO4ST3U1Z2bp,CytfNysz,N1,E1,!Myp0STy7l,N1,!E1S,E1HyrdIl7fYlqm,!EyudFl7iMyp4P5T1,BqvaRyuk,A1E82dIsg8YZsme,!A5iB5bC53D4gE4cF4bG3lKsmlL2qM24N11PvRqSjTbVyhqX3Z1,Ouad,B1,M1,A1,Dsw5,R1,A1,O1,!B1DRyuvS,!E1IyfiOwn6S,!GyuxLmt7ST1,Aae3,!DIyv1NyuzSTu6v,GyuoNyv1,CSypcZylr,!I1S,N1,AyokO1,T1,Nyv9T,!EyvbI1S,E3LxmuMyv8P1Ttt8,!SkkfTv1d,!Bu4iEypeIu78Y,H1,C1,CyvaLyrt,A1,!B1EsxeIyvhNyqrS,AxldDiEhGyvgIgL8NyujP7RyhxT4W1,BytwGrwa,!Bx6fS,B1,O1,EyuiIu2hOu6lY,!D1Ou6mPsouSWxfs,Fplk,Oue,DSxseTyvp,!E1Fv41IygcS,FximL1,!BydkS,!MubwO1PsxaS,Lu6xUyvd,EyusIv0yY,!Ixq3,!F3HybhKyneLtwvN2ST1,DRyvzTyvy,AyudE1Iyw1,!Jx2kLxu9P1S,Lyw2MowjRlg0Tt03,Rty3,E1IswtLyv6,!Eyu2Iyw6ST1,Eys6Iyw7Vxb3,!ApBmDkEleoFjIygsJiLfMdN9Osi0P6R5ST2V1Wtxb,Kwic,AynlO1Sxi5,EiciIici,E1,Gvsg,G1,U1,!Cxq8D1EywiS,D2KynwL1,AywgL1Nuc6,RyjuXyvp,O1,I5jtOwa2,Rud9,Htz0,G1NyvpT,A3I1,Hd42,Oojs,Rnzw,AysoC1,LywpRyt8Yyws,Exi3IyhfTwez,T1,I1Oyfm,A4R1,!BfCxqrDeEq72Hu65IywzJfx2LaMxliP9R8S6W1,A21E1iIsLi6oOqRoUiY1,!Bsv0Ly22S,!Eo9wIyx2LyvnNyscS,K1,!GpzyS,Nqdh,!MudfS,Rq94,E1,!EyxbIu95SUxqrY,!EyxcIyt7SWtp6Y,D3G2KT1,Puag,P1,A1,!DudiH1Jx3xPudoSs9m,!EyriItwk,H1,DRo0i,E1Iyi3,!CxjfEixcHtviIt2rST1Y,!EywgHxezIyxlOy0eS,R1,E1,T1,H1,G1,!DHcyvRv8cSYyxp,E1IqrsO56g,BsCqGpIoKr62LtsxMnNiPeScT9U3V1WyxrYyp8,!BtylS,E1Iwo8OY,Vys5Z1,!DHdqqS,E1Iyxy,!Due0G1S,!Ehu4Iz1LywlNytaSY,Arw8Eyh7,!EywbIxjbLcu5Orz5SW1Ygb6,!DL1inS,E1Iyy4,K5P3Tu04V1,!Eyx1Iyy6STyy4,H1,G1,!Eyq2Ixq7LywuNytj,R1,E1,D1,!EyyfHu0sIyydS,H1,T1,AkDhEbI8N4PyxjU1Wyyf,Sygh,DN1RyygSyxl,!E1IyyjLyx4NyttRx8sS,Eqc0IyykK1,!RyyjSWxip,!AywyDwgqE1Iyym,!ExfyIyukLyx8NytxS,T1,H1,!Bv3tDS,Atc0Eyu2,Subw,!E3IuapLyxeMs58N2P1Svr4Y,!Hx70,!Eyx4IyyvS1,G1Kt0b,As3pOs00,!Eyz0IxjaSY,DR1,AycfE1Iu5uY,Rbzk,!HptuLxp6OygtT1,Ryy4Yyz1,A1,!C8Eyx1FusoIyz5Ksl3LylzOh0tP5S3TUyjwW1,!Hqg1Lym0STuff,CyydTtkf,I1,V1,EtieO1,CrDpEyr4GmLyxwMiNfP6T5V1,Em0xIltrY,!B1S,!EtxcIxrcS,N1,!A1GufpS,!EyvgIyzhPqinSWv6k,!Bx60Hnn3STxl8,!EytlIubfY,H1,Hu1k,C2G1,!LxjyS,N1,E1,!DtxpExh1IuihLyybNyv0Pv7mSWwqd,BeEyzpGbIyw5Jyw5OykiPaSd5tT9U5V2W1Yyw5,Et1pIykc,!B1S,Gife,Bxnc,Ad2sEyyrIqtw,!A2FxikG1S,Exk1IyzyY,C1Nz00,!EyyvIz00OynqSY,R1,E1Rynr,LlomMz01,U1,!Ez07FwhaIz05S,!B4G2IyrgLsecMq7dP1S,Hx8d,!S1,G1K,!Bvh4Pz09RdkuS,I39gY,!ST1,BkDjEyy9Fxl9GgIeM7N4R3ShesT1,Ol4s,O1,!B1Eys9Lyz1NyvqPyzh,A2oE21I16OqU4Y1,Ltyw,!Wsep,!AydzC2EysdHd1oIybmMt4wNyvuPuajS1,!NyzmTyzm,!I1Oz0kS,L3T1,Nyz2Tyzp,!Ez0nI1S,D1,G1,!Ayw3EhwwIu3dLyzdNyw2SWxo8Y,A2Msj6T1,!EyuwIywrUyll,H1,Ti8b,CuhkLaR4S2T1Zyzy,!Cyi6EyztIu7sSY,R1,Iwnv,T1,Lq6kTtlj,A4C2DowgEugrGykcL1RugrWz11,!Nz12OyyzS,E1Iyz0,G1,Cyif,R1,!DLyo3Rz17SY,AvknE1Iyx7,CxncKq6t,Eb3Iz13SY,R1,!E1Iz15SnsbY,!ExmnH1Iz1fTwjj,DaE8L6R5T1,!GuelLyobS,!Tx80,!AyzvDHxixJx81Lu2fPx9pRz1hS1Y,AyzwE1IudgY,DtzjTz1j,DNz1lRz1kSywh,!By2eE1Iu48Lz08NywxSY,H1,Cq72T1,Bsfw,S1,A1,G1,EHqip,Lop4,CjbdGfKcLbO7R3T2U1,Glti,EytrLysm,!G1Lz0kNyx9,!Cd82STql6,D4G2T1,A15EzImO6U1,Fu0sUz22,EsbfOsbc,T1,E1,Ez29Iu91L1Y,!G1Ly79S,Lnwz,!Ez28Twke,RyypT1,I1,!B1DLy7eRxaiSu2pWxptY,E1ItyzY,Ru4p,Ez1bIipsY,OypiTujo,O1,!H1,!Bx92D5LypeP4S1Wxq0,EyykIz2lKtywLq83,C13yHytl,CuibFkGfIeK9P3R2SxoiT1Wz2mZ11t,!E34cIsziSY,K1Pz2o,EsazIu9kY,RjloSxomZ1,Lqv6,A4Cz2oDty1E2L1,!Nunr,!Ez1qIz2vS1Y,DR1,!E1Iz2xS,K1,!Ez1uIiqbLytnSY,F1Tyq2,Etm5Lytp,G1,!DR375S,Aj73,!N1,!S1,DR1Ttzi,E1ItztY,!E6Iz39P1S,!Cuk3S,Bt34CdDjekFbG9P2T1Vo9i,Eyv5Lz1xSxai,EypsI1Y,!B1S,Owbh,G1,Y1,L1,EyziIuadLyxsY,Dz3jKqbwLz3jPqvjTt4zZ1,EyzkIz3lKrkjTyv0,Tq96,LyuyNz3i,La2aRyq3,A8vUywe,A3E2IxwoLtx2O1Rt96Uwve,Arlf,Iwm6Oyoj,R1,Axq0IxpdLu0h,KvpxN,Lz2qN,Exp5Iuf4,L1,I1,B1Lz0e,A6E5O1,AxxsLtsl,Ethr,Ez0iO1,!CuyyH1Lym5TwusUy06,!BgCfDdEz48FcIug2Ls8cM5P4S1Y,BtGukxLpOnRmTh23UlW1,!B8bNyziS,!Bue8Ez34Iu0uLsa0SY,F1,ElwpIvexLyyk,!G1Lz2xNyzmS,B5CyiuF3G1,A1rE1lI13O7U1Yz3f,Az49EudvOvns,!Tz3fUeuh,!B2Ez3cIugdLu5dS1Wuq5Y,Kom5P1Rt8iVz3j,Dyr8S,E1,D1,!I1,!ExlyIrt0Lz38NyzxS1,Iz3rR1,Ez0iQss1,I1,!Bul0E3FxrkR1S,Gxpz,Ayi8Ez32,SvvkTz1oZyzy,!I1Lz3gS,BpriL1,AyybIz4oY,T1,Utis,T1,L1,U1,Nrd,O1,C1,T8sc,S1,I1,EymiIukaY,G1,I3pyO1,Lwj,H9bo,C1,Y1,Au8vO4S1,La6r,E1,BoeeChEeGs6aHbL8Mv63P3R1Swbe,AoEmO1,AsodOsod,L1,O1,DTz5nYz4p,!D2E1Iz5pLysjMxu8OS,AyCxI6K1Lz4rMxu9,Sz4lTz2l,EysnI1,!L1MyntS,DNso5,E1IvghY,Ez5oSz4qTnijZz05,!I1SY,M1,!A6Bwe0D4Is56O1S,AjqfOyyo,DsdcRtxa,A1,E1,Az52Oy8u,!Az63B5CltvEsllH2IhtfLz4qNz1fSqhzW1Y,AxreFy27T1,Gon5,Nkzv,Rytk,O1,!AyjqB1Ez6dIz6bLyt5SUz59,G4L1Rur9,Rywd,U1,Az6dO1,EunxOz5x,!AvjaDuibIxwcOz6fSUz0p,ASwx3Uz0qZyhd,!I1,ANz6lOz4fUz3q,Ez4hI1,!Cy8zN5R3T1,Rq2e,!Ez6qItowLz59SyrdY,R1,!E1,!Az4mE4I1O,Ivn,FxlpTz4vZyho,!EyynI1Lz5fNz24,N1,Ez27Ox6g,!C5DILwygM2N1PynsRy0bSUz6p,Truv,Ez6xGrvr,G1,A3E1,RyrqUyx0,!Aq3hEz75Iz73O1SUysj,T1,I1,IioxY,Gz1qR1,!Fyp1Tz5a,!A2Eyz2I1Lz5uNz2jSUz71,Lcc9,Ez73SxldZyxz,I1Y,U1,Q1,O1,Sxg0,Iz6fRfp3,Ez7gIxpn,D1,A3Oz5fU1,!CgDcFbL6Nz7mOz5gP5Q8wfT1,E52m,Hu47,!Ez7gIyyi,Sz6vZ1,T1,!C4E1S,!Ez7uIvqfN1S,Iqmv,!T1,Isio,L1,I1Lv32,B1Mz7wSTqd3,ByyiTyzw,!LwzjS,Cz63T1,!DN1Rz80S,A4E1Iz83Olhz,!A1iD1dE17F13Gw9fIjLiMw9oOcSaU6V1,Eypq,Eyio,L1,Ek08Tqly,Rp3tYxt1,Ly7zM5P3S2T1,AIz3rO1,!ST1,!Lz6yRz2w,E1Oyw4,EnxiR1,Az71Ez7q,Urmg,A1Eua2,S1,Hz1sIycr,NRz7m,Az7gE1I8f4,AxssH1Ixvn,!BxlpD8Hw0nOz7oPw0lR5T4W1,Tmv0,Eihw,Ap43Ixhc,L1,U1,B1,M1,Az22Exde,F1,A3I1Oxet,AnBkEbIaM9N1,Cz81Tusr,Az8zIrjg,N2RuqjT1,Iy21Ox0v,Ez28Uxn8,Ep2nIye7,!MpalT17o,It8y,R1,!B6F5L4S3W1,!Am8tS,C1,Eyw7IyeeY,!E7vvIz9dSTxv3,T1,E1Iz96Y,Uud2,Mz9fPa3q,A1,R1,Az8dIz5dOyzh,B5G2R1Vujk,!HyucIug8Y,!AlDxuuEz9lGeHyccIcLbN8O2S1,Hto6,!Esdd,Iz9sYtb2,!A1,!EokyF9f0IppaLz8dS1,!Ez9vH1IulpSY,C6Ez8fKz9sN5T1,Pwgf,I1Pwgg,Lz8hTegb,!A1,C1,!I1Rz82S,Mz9zT1,Ez9uS1,Mvfk,!I2O1SY,EjhcIyxs,F1,!I1S,R1,EzabIvfaY,!Nz4t,I1Oza9,N1,A1,!AiHaIz0lO6P5R1S,DNz99Tzad,CNzahTxml,!Ad5xE2I1OyrqS,EydeIza9Oyy8Y,R1,E1,EzajIO,Dz3nN1,!I1Oz8wS,!HumuLyhnNz5yRSz5j,H1meOzan,!CxueNyvbTvgo,As78Iz6k,Cx6aR1Sxa7,Wt74,EzabIx17O1Y,Eyoa,EvwgL1NzaxTz62,!Aym8Ez9sI1S,AzawBhCeDbEaG9I8Nz2dO6Pye1R4T1Uzaq,Uxib,N1,E1,!T1,Rlsj,Ezb6Itbs,!E2Hzb3OzamST1,Qsyi,Ev6aI1,IyshR1,Az9iHtpr,!DEzbcS,E1,L1,F1,Hu58,!EzbhFvjoLd7iS,Bz9tLikt,Ep4zY,!Ty50,Rxi1,!A4B6jiExx5IuaoL3My03Nz6uPr5hS2T1,D1,!Py4v,!Cz6zEzbpIuihS1Y,!BukuDLyyiS,E1Izbp,IzaqOstc,!Oywi,!BvgvC3D2Ext3IuujLzadNz72Pt8rS1Wyeh,!Ahw1Ez9pIzbt,Cx7cNzav,!Eza4My4nNz75SWyek,!Lz9yN1S,A8knDR1,!Bz4lE1IywiLxdiPu93Rz7aSW8kk,A5Eza8H1,Nza8,K5r1,A1,E3L1,!Au1iBwCvDz99FrGqKzc2LpNjPhRcSbT5V1,!LzaqSTza7,N1,G1,I1,E1,R1,!IioyS,T1,E1,Hdkj,A9,E6I3K2R1,BzauNzc9Rzcf,Ew2vRys0,DNzcbRzch,!A3B2Cxv5E1IzckNS,!AzcjBt7bMsfeSUtxt,Iy2hZu0j,!A85B7wC6xD6oEw7iF6hG6gI6bJ68K67L4jM3oN30O2tP29R1pS1lT1iUjV7W3XY2Z1,Lul8,!HyxfUy8q,LutdRzcs,A1,!BxecCwv4DF4LyzmMy1bPuygRzcqS3W1Y,Azc4Ez4mNyxeOz2q,E2I1KubjY,!DFsyjRzctSWvjy,CzcnLyunNzcxXzc2,!Nzco,E3I2O1,!DIyxjST8je,!Lyi1NzcxS,I1,T1,T1,E1,H1Yypz,Ezd4LfnkPrv5,Pk18,O1,K1,EvwnRq8i,!Lswv,!A3Cuc7D2G1IzcsKthcLz06NutlO3SWx3z,!Iw3aS,!AzbqDLzbzNz8oR1Sz89,DzddNz9d,!EzcbIhr4Lsj7PqwqSY,EzdjIukbO3eoY,!Ez2uIz9b,Az6yEyzd,!AsieE6Gz48I5K4Ljn2OyhoR3S2T1,Dz90Lw5o,!O1S,!M1Troi,AzczEzbkIz4iOy0oUtv4,Otri,P1,M1,E1,T1,Avj4O1,!Dxo4EzdxIzdvS,DR1,E1Izdx,!RSTzcc,A1,L1,!EzdzHdI7ST4U1Zzce,EdulNxzg,I1,!Zzdv,!C1bD17E16G10HdqtIacrKzcjLzNtRlSiT4V2Wz45Yze4Z1,!PhyfSyyv,AvcyR1,!AzckE1IyysS,Az7oEz7oIzd2,!Ezd5FtfjGyjeHo4dIzeaM1SWuzy,K3NzeaR1,SayeTzceZyp7,!Ez66I1LzcyNz9nSTzcf,L1Tq78,!Swwo,!AuelIza9S,AzctC1Ez8j,I1Yyzm,A5E4F1MywuOij2,Ahy7,L1,LywnU1,EzcjIzenOxld,C2T1,Ocyo,N1,Iz1qOnor,R1,O1,U1,L1,Glf8Sn93,O1,I1,L1,E1,Mqzh,O1,T1,O1,H1,Ezf4Iy2uY,P1,O1,C1,FfGlpwHaMyulP5S1,AzcuEzf9O1Uz9j,AoEzdlImR1,!Rx5kTlgo,A1Uz9m,L1,!Cy16IxKuarST4U1,!Ezf9IpfrLy1pWszt,H1,Aqh0,AtjpO1,!Mz2lS,AxzrEy1s,!B3EzeiIy0wO2SoauUz0eW1Y,C6D1LzfnRuw4,LzfoRzfoSs1l,Az95Otoa,Dhb9,N1,I1Oz8h,!B1EzepIz0eS,!Eze4SZzf1,Ngwj,Ac08E7L3T2U1,Rrk7,H1,!AzecEze9Izg0ST1,Cy18D1Szf2T,Eukb,Cvqz,E1,Az9uCDzg3Uzdb,Ex7cOryd,AvyxIzclOz9m,O1,CynsG3PirqZ1,H6I5O1,C9Gvm0RzedT1,Ca3wNzfdOi8h,Pvb7Uzg5,!A3I2O1S,Yx0s,M2R1,Txxn,R1,A1,S1,A2aC15DExIwLoNkR5S1Wz80,Oz4cUzau,N1,G1Lrwd,Ndx8,O1,D1IyozP8mw,EzgqIz7mO1,CxdnEz8mNzgu,Iq9lMz3uPxln,EzgtIywz,L1,Azg8EzetI4O3U1Y,N6R1,Tye7,EzgsIzdeOvxm,C2G1X7zo,N1,Mxvy,O1,N1,A1,Gxa7M1,Iz82O1Uzgd,M1,G1,AnEdI9Y1,!BtmsDLz46RyimSY,!ERTzcj,A1EzhcUzek,L1,!AiulC80cE4IutcKzheSU1Y,Ew7eOw3a,!ImbxLymjSW1Y,R1,E1,Syzw,I1,!E1S,L1,E1,DG1Lz95RzhpS,!DLoxoNux4RzhpSY,!E1IutoSY,KyzfNz2e,KyzgNzhv,!AtatEzgqI1OsiySWy1z,!Hzhu,EzftI4L2T1,!EzhqLymzY,H1,C1Gzh1LzetTzge,LsnsRrma,!Ey9wIyn4Lzh3S,!DL1STzi1,Ez9xFj7vNzde,!Ey4vIzhwSY,R1Yzi4,Av70E1Iu0fY,Fw9fRzi6Sz8lUt3c,!HykyIytbLzguS,R1,E1,!T1,Il4g,R1,A1,H1Ozie,Azc9EzifOy5h,L1,!AjDiEgIfLz5dNcObS7T3U1Y,!EzimIzikLqovS,CpfiEzhnL1Nzhf,!AzikDMz9lS,Sy5xUzif,!Ijw0Lzh9NzdySTzgq,L1,!Lzh4,L1,A3E1Oz6i,!Eza0IyksLy51O6SU1,EzanLqqqNzivT1,Td92,AxlxE1,H1,Yzbg,C2G1Izj1Myya,AfEeI6O1TzizUvtvY,!DFv4wS,!BujgS,E1,EzhzIzj4L1Ozeg,!AzimBvo8E4Fv63Izj5ST1Zzib,C1qD1mE1gFjk2GxrcK1eL19NnR6T1Vzj4,Cvi6,!BuqcDuh7EzdaIuv4Y,H1,!STtl6,!EzjdFqp2IzjbS,KzidN5S3T2Y1,!Fy66IwbpSWv51Y,N1,DymxFtdn,RxafUzhp,Eza3I2O1Rz76,Cg7bTwzw,Azd8CIUzd7,Eh7i,M1,D5E4I3O1Tzjk,E9N1U8b9,!EthoIzjoS,EzhlIzjpT1,CzaeFwaxN1Tuf7,Dz9hRzisSy5sTdps,Tmlc,R1kdT1,AiE7I4O3U1,Muat,EzjuU1,!My8gPv5l,!AtcwEzitIzjyS1T,L1,!Hvy0Mr2yPxesWy1w,!DNS1,E1Izk2,Le05,Az7qEzj5Y1,Ep3xI42bY,Nzk4R4ii,AzjiIzfjO1,Af6bOzfk,D5G4S2T1,!Eu4sIzkaSY,!Eul1It4eSY,DRyp3Yzka,!Bp14E1FvvfI1vdSvuvY,F4K3Lv0uN1Rzkd,Aze4OpxlUzhl,I1,G1,DzfxLN1,Cz8dNzkk,Aoi4Yzdo,ACEzkdUzhr,I1Y,N1,Eiw8O1,Lzk6Tz1m,OzjoY1,Lnb8,L1,H3O1,Hvx2,C1,I1,R1,AxmcIzfvOzed,O1,CgGcIzl2P7T3Z1,Em6hIz5l,H1,S1,I1Uxz8,EzcyFLzjqNz1hVze5,Sssm,A1,Ez4eOy35Rc1,!C2Mp2bW1,!Ezk5F6I5S1Y,RTz2m,A1Ezla,L1,AwEzjaIvOeRzijT4U1,Eyd9Ijnk,AzjsEzkbIuxcY,!L2ST1,S3guTzcx,D1nI1kK1hLzj9N1aO15R5T2U1,Hzl1,U1,F1,E1,G1,H1,!STukf,Lqr9,C3DudzGzlqIw7zNz6dT2W1Yzd7,!AyuxEzk2IzltSqtv,D1,A1EzltNzky,!Fvu5Ly67S,T1,!Gqt5H1S,Lrgg,AyeyKzly,O1,AzhxI8vr,!A4B2EtzrHurpIy7cLyr4ST1WtpfY,EasvIz6o,L1,G3K1Tzdl,!Ezm5SjfnZv31,Eze1GaN2T1,CyfmUzbn,Et0sIut4Y,C1Ezm9Gzm9Nzmc,AkEhI4O3U1Yypu,No42Uzm5,EzkaIut8O1Y,Oqwe,!EzmiIp1dSY,!B2K1,AtqnEzmg,Ev4eNzmk,Ejn2I1Y,!G3IzchNze0R1STho2,ANummTu5pUzjs,Dmn3EzkjIzmnM9N6R2T1,!Gkd1IzmoMuwc,A8kE64H5eI3jL2vO16RdU2Y1,!Bbi8S,!Dy8hRscmS,EzlsIv8kLqsaOzl1,!ETys1,S8weUzmm,A2O1U27z,Du5z,!DLzliNzi7RzmvSzhs,E1Irgy,DRzmySzm2,E1IutuY,!LzlmNzibST1,!FxepKzehRxv7S,BdDcLbM8N7R5SnjT2W1,KqsmLzejMqyo,GlqiZkec,C1oi,Awvz,E1,A5E4Gv3zL3T1,EzncIwfmY,F1,Gt6v,GlqqLhbh,!Ey8zIrc9SY,Cy9gN1wjT1,Rlff,!A1DEzlcS,L4y,E1,A4E3Iv6bMqt2R1Tzez,!Ezm3IvsmY,H1,BtngDuivFcGbLaN8R3S1,Sdtq,O1,AnEhI3O1Uy9q,U1,DszpHzmu,D1,A1Izns,EzntIjbl,L1,!DMp1jNzj7RznvSzis,Nz8jSn18,E2I1Y,!Bv41I4L1S,!AzmdEzmwIzo1SUz8s,C8rhK1Tzn3,Ei9k,D1,L1,O1,H1,Dz5zEzo6IshaT1,Oya2Rx6m,!AzmmC1DFvzcHxpuLytbRzo8SmdoY,Ln06,!BttsEzn7Izk9SY,DR1,Aj2zE1IrgwY,NyvsTzgc,A1,!E7F6G3HuqwIy9qN1SY,Setb,E1,!AyxoEznfIzokL1PthqS,!Cz5tSW8z,Dys4GzokN2R1Txk4,!DHthjOw7kS,E1Izoo,!MxbjS,C6wnG1,!DLzncMzexNzk1RSzjm,!EznnIuldLzbmSY,!EzovHthpIzmnS,AcnwOyiq,A5E4IzovK3L2W1,!LSTzna,A1Oovx,N1,LzoxRzge,E1,Dt0kRzoz,!E1Izp2LzbwS,EzmyI5M3P1,Nzp5Ousu,!ElqrI1Lznq,Ezp4H1,Ryco,!B1Isb8LxgrS,D1,R1Wt6z,Nz9wSyb6,Ftpz,F1Uzo7,EznnIzgo,!T1,T1,A1Iya9Ov0i,!Tp69,!A9By9oEu0mI8O6P2S1Ux4p,AzbzItg0OzdaUzjs,!EzpnIzgfS,A1,ChD4EznjGzpmHxb7Imi9KzplN3Z1,Ewc6Izoy,D1Lzi3S,Cc60,ItajO1,L1,!SY1,E5H1Lzgi,Ozk3Uziz,!DRzpuSTzpo,IxhlLuj9Rtw3,Zsw4,A1,!EstoLzolNzla,Gyj4KzofNzamT,Ew0uI1,!HzatTmfi,!EzozIzq4Ly1iSxq5Uzav,!DLwi1Rzq3S,AzlbE1Izq6,!Br1pCi4mDcEbFaG8Izq7K7L5NxaeRqt1S4T3V1Wvbv,Mj1jS,Ezq1HzhxI1,BzonLNzpd,EymxIyanY,!Iy5iMp7e,!AzopCx8pDzoxHb0hL2Mzp5RjyhS1Wwr7,!AzjsEzqcKzozS,!ApwrEuaxIzqfMv03S,N1,MzqfTda1,C4NzqjO2S1Vzpj,BxvcCx5yLpryRzqhSnkq,!DS1qkTzlh,AzoxEzqjOyvz,Azd1E2RzpnSz1lT1,!AdEaI5O4SU1,Hczj,C1,O2m2,Me5uN2R1,Czpq,!A1,!DS1,E1Izqv,!EzprIzqwSjkc,B2xC2vD2pFtlxG2gI2bK29L22M1uN1aP13RqSoTaU6V2WY1,Swdx,A1,ElsmLzplNyca,!Ezr3F2I1SYzc5,Ht9f,!Atk1EzpcIzbnST1,Lqzg,L1,O1,!BsvfEtt4Fv9wIv33R1SzbwY,Azm5Ixv8,Izk4Ozez,G1,Y1,P1Rj4s,Iz7hO1,DdKtnyLbM7Pz2jR6T1,Ev52Nvwh,Okcy,!EzrjHz6zI2MssdSW1Yuxw,Spuv,A1,H1,!Btx1C1DJxy3S,E1Y,!Ep4hIvaeL1NzmxS,Bzq1Gs9i,!A1EzqkIzrpSvz6,DzroKzrpL9NttkP3R1Vk59,Dzn3St49,O1,!BxjlS,N1,!EIR,!NzqaS,AdzIps7,A3E2IzisL1,AxpcEuchIuytY,!LuswM1Sj3tWux7,!EzrtFyeuIwkdY,H1Irju,Axsy,!EzqmIzrw,HrfmIzizOx1wYomp,!B3GozfHkywKzq8S2T1,Ow62,C6GvcpO2T1,Rihb,MzrbUihm,A1,Iyac,M1Tyov,A1,Osww,N1,A1,Aj5dIyxk,Nqu0,E1,R1,A1EzolIzsm,!Ix0pOzqi,!BfCii3DdFaH7L6MihqP2S1Wx6o,R7ez,O1,!EzstIre3SY,H1,MzsrP1,A1,R1,NzsxSnoy,Rec0,C1,I1,Ny5gTxkc,O1,H1Ss9pTk7q,Gvh5,E1,Fwke,I1,C1,E1,!ClphP1,Cz7uXzop,CybuEzt3Nztc,EzpbI1Y,P1,A4Y1,!Cg76EzthGkIjLvepMgPdRbS6T1,!O1S,AzsaEzs1Ijh7,Cyc1GytlL1,EzsdIoll,Ohq0,Oucn,C1,MztlTqqq,!AzndEzlhF4IzolLzs9MymgNzoyO2Pj16Sj5hU1Wdna,!Azt0O6fmS,D1,I1Lztp,Odtw,C13EdIbLaN5O2T1,Si01,O1,!H1STyfm,D86g,E1,!EvmkIztzSzeo,D1,R1,!A1BylmEzu4Izu2Pzr7S,A2pD5a0E2dG2bI29L25M23N1vP1fRaT7V5W1Y,Exk6,AztgNzt6Uzod,I1Nz5t,Hxmv,T1,Y1,M1,!Izl5O1S,A7ig,Ezm6LzsyNvzfT,!By0wDRzucS,E1Iqvr,MzuePzue,!BvzkEztcFw5jH5I4L2Myj0OwdePzc3SpmvTv31U1W2kzY,H7K1Tzpo,!EkebIvdaLzt4NzptS,F1Lryb,!Trj9,Cz7lSztgZz5h,AI1,!LS3T1,A1,M1,NztsSnmj,E1Izpp,Tlpd,!ST1,IyorOy56,!B1Eyc7Iv1qMyjfNzq6Rv5vSY,B5E3L1Tqec,NztsTz1v,A1IUzur,L1,EzuzIyuwU1Yzg5,!AvfyEztbItrwLzhwOzv0Ryf6SY,!Ayo1BuvhEztcHy5dIrjyOPy39SWts8Y,G2K1Tzmj,!Ixj6S,D1,!DLzv5N1S,RTyy7,A1Ezt5,L1,E4Ivt7Ptn2U1,Ezu7Izr9Uzg3,!Ae4kKzvbPzspR1S,!EtkiIzveWvh2,H1,C1Hyac,B1bCzEztzFxGrLkMgNdP6R4T1Vzij,!EISTzvg,Dzq2Tzul,A1,Ew58Izg5,K1,Eb47O1,R1,SzuuTyig,E1Gyh4,EznkLzucN1Sily,By6n,B1,O1,ItnmOzup,!AtwfB8CyehEzurFxnjHtosI5J2Kp61MykfP1Rv6vSTd7iYv2b,CdHc9rK1,Eyg3IzuzY,Mb7a,O1,I1,!AzpgH1IzncS,C1,!DHs43Rzw2Szfe,E1Izw5,!EznzIzrzLzur,D1,!IdzxS,N1,En55I3LzelO1Pvhy,!Ave7Ezv6IhjfSY,H1,CTlo9,Azq3EzwcI1Othg,!C3LST1,Eqp0,A1Eqp1,D1,A4O1Pzny,Hy4eRymoUi23,Swc7,A1,Lxl0RzvoSsx8,A1Odrx,!Bt0xC5DFtv1M3RzwnSW1Y,EzojLzvbNw1sSyir,!Htac,Azv4E3I2Y1,!Bw1wEzvoIzwtS,DGzr3Kzo9LonyP1,AtptEtysIzwvLzr4,!Br70Cy75EzsvGyqoIzwwLv5gOsxzP1STWome,BzeoGzvyXzw3,!DFuy3HyecKp73Rv7xSzhnWwxsYyic,!Spdp,!BzpnEzx2Iv8wSY,Auw3Ozww,O1,!B1Izx3Tjnv,A7E6IehpK5M4Y1,Ksrk,N1,I1,!Ezx6IzvmSY,!EtbjHqrvIz8bLzvuNzsjS,Nzq3Pzx8R2T1,!PtvjRzx9S,E1,BzvqGzweWyhh,!A1EzxgIzxePzxcS,A1xBtx8C1iDviG1hI1cK1aL15MwNnOlPjRbSzx7T8U5V3W1,S917,I1,Gime,!Gzwk,D1NzozRSzwn,Ae0h,W1,R1,O1,Apkq,AnfgY,!AkmgB8kE7F3IvgiJ2L1Nzt1SWtfg,T1,H1,Av58Y,!Etc5J6L1Nzt5S,G3NzpbT1,EzxpUzs5,I1Y,N1,AxpoO1,!Ez7qIzy1LzjvS,!LzwnNztcRzy1Szx5,!DHs62Rzy1S,E1Izy4,Lzq0Rzw7,!E4L2U1,D6G1,Grwf,N1,A1Uzya,Ap7dEzx6Iziv,!H2LztmP1S,!Gt9nLS,IxvkY,G1,!Pv93,!S1,!F3ysGxpw,Rwz0Uy7f,Nyhl,A1,C1,L1,O1,C6Sw0aUzyhV1,AdEbH9I8O1Uw37,Gzt0Itpw,A1,!Bv88EzyvFus4HytaIv5nSY,B1dDh25FzpiG1cIyKzgvMuNnPiSzxzT4V2W1Yzq9,!EzxqItkgSY,EzxqIwhr,!BymeEzxsIu44L1Sn12Y,K3M1,Lszw,A1Iym0,!CyhmLk3tSr57W1,KzqhLzz1T1,!Ezp3S,H1,T1,G1Ugb3,Yzac,STzy9,E1Izx4,C1,Y1,Rsnu,H1,Be2zCcfoKlqsL7M3T1,O1,!ST1,!EzxzFylqIzzhLyw2Ozxq,S1,!Az8nEztlIv6dY,H1,AzzjEIOzzj,C2T1,!EzyiIzznMzyfNS,AqEmNiP8S6T2Ush9W1,!Ezt4LztyS,!EzrjLzybNzv0Uzyo,K2T1,!Nz1eRzzqS,Awk0Oz2m,L1,DxhzE3IzzvOzy4U1,IzzdOymw,OzslRdw3,!B1Oi1mRzzwS,E1Izvw,Czy2DynaTzyk,DN1Rzzz,Lv2f,A1,!Bzzx,!C44tE4H2ItlqLzmzPytcSY1,G1,Syle,A1,!E1,!EpfqIu5hLws6Ph3iST1Y,E2mzI100b,Aj5lClDhFqbrGgKdN6P2V1,!ETzvj,!A1E100cISU1006,CL1,SejlTxub,E100fI2O1,Oxcb,N1,A1,AO2vx,!LT1,A1,IxuzOy02,D1,I1,!E100pO1S,L1,!BvasEzsmHs8sIzbvLzzeMypcY1,A8voCUzv2,I1,G3T1,AsruE100vIzrr,!H1Pr85S,BiDzzdGfKzrnLxpcMcN3OzfgP1Ui3qVzzdWuoeYzse,!IlhaLzzl,L1Tzw7,!DLyxnS,A2E1I1013,R1,U1,Ktp9T1,!AzsqMvhgOzohPyulS,GT1017,!Hz4nSTvhi,C4D100qGtsaM3N2T1,Hc9n,C1,A2jE1pI11OeU3Y1,E101gIuxzLcn4OjtkY,!B1S,!EzviI101gSWw8j,O1,C1K,E101lIq48,Nwdu,Ep3bOq8b,!BvasD3E2Fxt9Hr83I1LveqSWw8pYzmq,!E100iIymwLzohSY,F1,L101nTos3,!BytaDR101oS,E1Izxo,L1,!B1MynjPbwdS,!EzlbI101uMyqdSWyjq,!GKNihbSjvbT1,Ax93Iz1rYob8,Dzrt,!F2N1S,D41e,A101yE2I1Owkc,InlzY,D1GrtyT1020,BoClDhFfIt36LeMaN8P3R1Tkcp,!BvbaDLyypR1022ST1022,Ezy4Hzv6I1025Tzf2,!Fzh5NzmrS1Tzj3Zzxa,Op97,Bzx4GkchI102aP1,Ai5jE5I3O1U101e,IwntYzne,SzeiTzpx,AwlpE101c,!E1009Gz2uI102dL4M3P2R1,AbhE8bH8aI6xO4zR11UbY1,ByzcSo8lVzrq,Byam,IztoRzq8Uua6,A100rO5ugUzr9,!Dyl4S,Ovt5,AzlsL1Pym9Trfi,Rxos,A1,T1,Itrj,O1,N1,H1,C1,A1CzqfE101wI102w,Bykv,M1,E1,!S1,Ofhl,M1Ox7m,Iznb,D1,Rfah,E1,!BpCoDnEgjhGpr5HmLkNhP101rQad1RbS7T5U3V1X102e,!M101yS,E1I1012S102d,S1,U9rv,NznvT1,Aik4Eyqs,A4E103eI2LydlR1,Nx7a,I1,Szmj,Ose7,G1,E1,B5P4SzygT1Uzks,!A101tSUzmp,L1,E101vRzfy,T1,Ivf3L3N1,PzqqSzqr,A1I1jm,N103pSbvqV100v,MnkyNyed,A2E103nI1Uxbv,CzyzGa96,E1,L1Oyru,SyyvTpwi,I1Ux5m,N102r,Az3jO1,M3P1,Uqfc,O1,I1,C1,Nzao,CseiOq9rR1029,A1,I3R1,S5T1,DzewI7qlT102x,D103dLgMbN2OzvnR1Ujos,IwyuUunf,Rxev,!SU1,T1,AqfgE1049I103m,L2RxfxT1,A10EvHtLqO7R6U1,CzzwN104i,!SU5v3,R9lk,A1O103h,A4B3CbvjP1Rj5yVh0b,Lyyd,Py8d,I1,Izu5,R1,C3T1,Dsd4S1001,I1,A8R6spS3V1,Mr4d,E102vI104zTzx4,A104hC1Eyj7I1050R104a,EdI4O3U1,HyfrOwli,!E1055I1053Oj15S,T1,I1,Yd47,O1,L1,P1,E8q4,D1,I1Ozif,CN105bSzzmZzg8,!EflnI1OzsoS,CdDaM6NvmxP3R1,Md4,Eyr1L104iX104n,OyoqUzt9,Az9qEa07,Szwe,A5I4L3OdavR2U1,Asea,R1,E1R104pU104t,N1,Aueu,A1058Vpue,D104tPziw,A1Ot8v,E5L4O3R1U1002,Ai8m,A103rI105y,M1,E3U1,Svnh,EwpdIwczU1,Unvg,E1,Baf0,I1,Rrar,E1,D7F5H3T1,Iob8,R1,E100iO,DzmpN4R2T1,EzymIqvk,N106eO1048V1,!E106gI1Lzt8S,T1,C1,Cw0x,G1049N1,AzdtE3OwspU1,Dxwv,G1,N1,I1,Nch7Tzyl,!Hzj1STzzx,AuuiT1V1066,R103t,E3xn,Ex87,T1,U1,A100aG,N1T104z,AmaaEk1I1,E106xGxcw,C1052R105lTnd8,A1,R1,E1T9j2,BdCcE9M6N5T1,Nxn2Xzst,AiEgI2O1060U1,Bl0i,I1,Atq1D1,Gt6yIwq5Kz0o,LsoaM106l,I1,N4R3X1,Izdr,E3t6Iwdr,Bzp7N107hO105b,E105dI1,G3S1,Czka,A1,D7NzvxR3T1,Rn2v,Cf57,G2NS1,O1,R1,Ib9r,L1,Ab9mM1073Szuu,I1,S3wd,D1074,N1,O1,H1,C1,!O1ST3z0,CcLaN8S7T1,Sy8d,O1,Ipx3,T1,C3L1Nyb2,AvEnI6U1,S107jTxl4,Ttgf,D107lRdmw,A3E2Ivq8O1Ul0r,E9ik,A107pIz6jU105k,CM1,I1,T1,CzrmT107s,I1,E106tIqar,A107wB2D1Gxa3Nows,C9P5R1Vzw1Xzqm,Gy1nLx9x,!A1T108m,N1085R1,Izbg,NpctR1,Azq1Yrgo,Npcv,E1Lzs0PopzTgnm,Iqa1,C1,M103tN1,Bci5C1048DwrfF7s8Gt9pJz2mLdij,I2O1,AbE9H8Lyh6O6R1Udg7,C1082Txlw,O106xTu4h,I1,T1,GrlvN107zP1,G1011Uvg2,A6E2IztrO1Uzqy,Roql,ExtlU1,L108bMuzcT1,BzzzPofm,I1,Azr4IpyeR1,!I104qO107nS,R9rdT1,Zzjy,S108iTpyi,Uzee,E107fIqdl,E109iI109bV1,AC6GxdpI5N4Q3R1T109j,Axs0EyvsRvcw,E109fL1088T107p,I1Y,R1,A1E109iN109rS103zZ104u,EqqoI1Y,D1Sr7hT108t,A1094E105m,I1,C1Ixy8Lzt1N105a,I6b2T107y,L1,A1E109qFzt0,I1,C1,A1062E1,Lq9bTzrd,A103hE102dIz21,A2V1,I1,CqllD102xT1,G1098N1Trfc,!AlewS,N1,N10abO1Vzge,AzjfE1087I1,E1095T1,U1,T1,Ty01,A1Udek,AaI3R1,A108uE108eI10aiP105n,M1Rh1j,!A1aC17EzHyIsKprbOpPjT3U1Ymru,S10agXseo,Azh1D10al,Uzo2,AqrsOzdh,E1,N1,A1,F5MtagR1,E108oMoj9N7R1S109nXwii,A9mj,M109wR1,Hmnt,S1,E1,E4R1,N10aySzsmZzlv,E100dI1T1093,L1Tv9r,!N106dRS10a6T1095,E1Y,Ann,NxhbPy8fT1,CqtdHwpz,Scj0,A1N107n,A3E1IwckO215,AqEiHcI9L7O5R1UxteYyw3,Bbjf,S105mT10aeZzm8,!I1S,N1,!A1E10biI10aiS,B1,Lzm3M6Nz7jR1,RgkfSpy5,E109gI10bkTxa9,O1069V103u,I1,S1T1032,N4R1,I10a1U10az,CyubR10b0S1,Aoke,C1,AaE5I3O1,AuozOpw9Rtw7,E9lpO10av,!A8rB8kC7dD6vE6hF6bG62H5yI5lJ5dK59L4qM3oN3kO3aP2wR2pS1cTlUeV3W2Z1,AOzznU1065,E1,N1,A1E102m,OzluV1051,!E10buFwkbI1O10ab,S1,D4E103iS1,!C729S,L1,A1074CzfoI1031Y1,N1,Ay3xH,RwmvT1Uzif,A1063IU10bg,B1Lzh8MvaxS103z,AzphE9I5O3U1,!LzhfN107o,EjmnIzwz,!EuedFy43I10cgL1S,AztqE10cfOztq,Ozyv,Imdy,R1,I3O1,C9H8K6R5T1,I50jY,IprhY,R1,I1082O1,R4T1,N1052,!E1S,EyhcI100h,F1,!A10c7I1S,R1,!E1070IvjsLzzsY,A8D6O2S1,!DyrtR10cySTzjz,BsdpN1092,!A1E10bxIzxmS,R1,EzkgN10d5,E1094I1,!AqluE10boI10d6,C2X1,Cr26,A10b4EyzxI106d,G1,A1,Av2qE9I5L103iO4R1Ul96,F1,A10ceOlps,!BvmuC1E10dhHyutIvk9Lcz0PuepSY,R1,B1040N10diO10bcV106h,!E10cdI1S,T1,S1,E1,A6G1H10dl,Dxo4,I1,GT10dn,!Azf2CzuyE109pIzyaLzirO10bzS,C3N2T1,Azeo,Y1,I1Kikf,LTzwp,A1IU10do,Izvu,Azv7E10buI10dy,!D77aN2ST1,Dry1,Y1,R88u,Y1,P1Y10dl,D1054N1Tzv2,Mzw6T1063,!SUhcq,L1,A3E10e7ItdgY1,!N1Xzwa,DTvfw,CN10edZ108l,!E2I1O104aSYypo,R1,AgHeIaO5U1,!E10dbIpu2SY,AzrwEk6oIzecYzzl,D105hT10dj,DO1029,N10elS108t,!E2I1O102bSY,R1,AttgI5O10dnU1,H1,!Az1gE10a0I105jS,N1,A1Ry53,CwD10bxFdKcLbP4T1U10eq,Cytx,E10emL10dfS1093Zqvo,I1Y,!B105fEN10baR1STzyv,IzjzO10exY,!A16h,!E10f1HywdIvltL2S1Ts17WzhoY,DR1,!A10ecEwadI10f1R10d3S,N10f3T1,!A10dfE10dyI10f3S106r,N1,A9E5I3O1,A109wO1053,E10dgU1,!ST1Wz2o,!AgL1023M4O10f7P1S,Hugi,CztsKzokT1,Mzmb,A1L10e7,Nud6W10fc,R8w1,A5E3Iz8eLyppO2U1,Hwnd,C10fdR106xW10fg,G10fhWnao,E10avI10fbOvceY,A10emE3Izh3O2R1,Az8xIy7aLv8y,A10ayOz98,!L1,!Endv,Gz8tK10e4T,Aic2E102mI1,!AyuwE10fuIvroSY,OudyRu90,F10fsM10fs,O1,Izx5O1,Nv3w,E1,E1,Az1kR1,Ew4uT10fz,Nwb7,A101jI1,OyprUxsc,O10f5R1,!C6E5H3PyocT1Uzc7,Atpl,!BsCrDnFmGkKjLhNgPfRcS2T1U100zWrk0,Ogt8,N1059,L102zOn5mS2U1,Ethf,I1,Ixn4,H2T1,!E10giIp2bS,Trhc,S1,I1,N1,I1,D6M1,Lvk9Trtk,Bzk0,Nnzq,Lyjr,H1,BhCdD6Gq4sL5M4N3T1,DN10go,Ne9s,O1,I1,L1,L1Tz2s,OzapY,Bvsu,Az9zM1,Ryow,C1,U1,A1,E1,R1,!AfE1091IaL9N10ciO7Re2wU1,Emc7,!Gz0bRvt0S,Blu9L2R1Uzko,D10blN104d,Rv5p,A1I1088Uufj,I29,Ick1,L1,I1,L4T10flV1,B10hiS104l,A10cwEzi3U1,Suw0,LdsvO1,Rfpt,O1,Exv3U104r,F2P1,N10htV1085,!E10hvI1O10g2S,T1,C1,U1,Maix,O1,L1,E8q2,Ie2,Nhdm,E1,D8F6a7G5S4T3V1,I109gLiMeN1O109gP10i3Rd1s,Iv10,M1T10gt,I1,Rrl9T10gn,AzEyHwIrLpO5R2U1,X10gp,U1,L1,Myq8,O1,L1,P1,E5I1,Eq5eIgx9,F1,Erj5I10di,I1088,Pkdm,I1,C1,Grto,O1,EhahR10e2,P1,DFaG6zfL9M8N5R3T10drX1,MqjN10itR10d3S10hyTzs3,Nw7m,U1,C1T104m,Awo9E10ir,I1,C1N10hfR10d9X10i7,Dyp7T10h4,I1O1090,AzcuU1,AaE7I4L1Uykq,O10j8Vq7t,Hzhv,P1V10f0,U1040Wzvx,A2O1,E10ibIzpoLxjqO5R1,Rh0h,!Wvrw,Y1,T10auV1,Cx2wX10im,I1,!E10jaI10ii,O1,Dyjq,O1,R1,E1,A9L7R5T1,Hl8e,G1T10jo,Nwre,A1,M1,AiE6I4O10ixU1Yew1,A10i7E10hrIp5q,S1,O1,P1,Brz9,M1,U1,IfyiUqct,EaarIuqq,L1,!EqgqI10k5S,D1S10fy,L3N1,E1,C8D7FjnqGSahvT1,McN1Ouxv,Mz42,A107pE10j6Oze2U1,I10dsRnfyTk2yWvvgY,E10kcG10daN107g,Yxt4,B1,B1Yxt4,E10kaO1088,I1Y,R1,U1,Ny0jX1,AaI9O6U1Y10dv,Oyr3,Che1Sxy5,C10f8J2L10jrNRze3S1,IgppL3v,Mcpw,O1,!C1Spg1,D10ktI1,CwbxL5N1,L10kvR10ec,E1,D1M10kx,AaE10efI4O1,!IwnmL10jmN10gbS,L1,A1E10l1,R1,A10jyI10huU1,L10jqT1,RdzsVww3,Eaof,M1Tdil,A4O3U1,E10jkIzvv,NzxbS10fk,A1,D3G1,R1VosvX103f,Iykh,S1,A1,Tyze,O1,I1,R1,R5T1,S10id,R1,Njx1,E1,M1,O1,N1,E1O96mYy07,N10kxSzl4Y108y,A1,!E10m0Fz8rS,R1,E1,Ly1bR10kvS26W1,!Fzi3S,Eb8qO1,AhEfH9Ir5yL7O3R1,A10cp,U1,Eb62Ixz3,Ay4gG1,Nhx0,A1,A10ipM1,A10idE4Iy0zO1,Ek6n,F10ksL1T8m6,B10goPosq,I1,A1048HvrtOx5eR1,E10cy,R1,!A10mcDR10miS,E1I10mlU10lj,B10kzTfvc,I1O10hd,S1,Cad7,I1,V1,!E10mkUn,CaD8Ltz3N5R2SzhrX1,A6pfOzgf,Nu5nZ105p,EywgIxz4,Apy8Onn9,F10m1Ny3cP8lv,S10ltZrrx,!I1S,L1,A1,L10m4Uszn,C1,A1,I4T1Uy4b,C1,E1I10mzY,Rx2lTrse,N10n8Uzq4,O1,I1,M10dhT1,C10n9R10mf,G1003,N1,K10miN1082,A4nuE2I1O10niUdrm,AaI6O5R1U10jx,Am5f,T1,El6l,L1,S3T1,B1Rsfk,Muw6Sn51,!A1dC1aEyHxIwLvMuOtPjT8U2W2dyY1,NwclX10my,Rk92,C102bN,I1R65i,A4E3H1Izi1Oy5z,E10ejN10ny,E10luI1T10j4,N1,Syvd,O1,U1,I10mgT1,R1Szr3,E6I1,P10ji,A1,D10mmF10mmV10nz,AzjfE2I1Oz66,!A7iB72C60D5sE5gF55G4zH4gI40J3yL3nM3aN30O2vP26Q24R1ySjTeV5W1,!R1S,A10m4E10gm,N1,!STsam,DR1,L10oeR10n1T10jm,!A1E10ncI10ohS,T1,N1,E1,!DJyv3L10n6M1N10jvRS10jgToy3,N10ngTx8u,A1,AztlC1E10iqN10op,AkmcE4I1Y109t,!AzxuE10nlIr5eS,T1,N10ljU10ok,O1Tuk8,I1O10b9,N10owT1,Ax8wEz33I1,R6S1,B10fhN10ozO10mtV10aa,!A10nsE10nhI1O10n8,S1,S1,E1,EoI10p3LeO6R1Uzg9,Itor,Txnw,A1,Bv8d,P103sR1,Ay23Ev83,Gxlu,E1,EwmeI101n,!L9M9a8N7O5R4S2V1,CyhzTy52,A1E10erO10pd,M1,A4E1,!E17I15PfR1S,!H10phLS,Atuc,Nf08,E63tH62tI1Oyxg,Ovgw,IzfoO1,I10pgYzas,!F2L10obN10l0RS10otT1,E10lqI10abTzw4,B10o5C1,R10h7T10pr,A1,IzitO1,DIwc9R10pu,C10p6E10hqN10ai,Euo3,!A7B4E3FyhmI2Lzv0P1SY,!DOnpoRzraS,C102dN10q2,E2I1Y,C10kzMvzw,Up1o,Iu1vO1,M10gu,A1,!A10okE10oqI10m5,S1,S1,!A103qE10q3,S1,I10meU1,N10fsSo93Z10kn,I1,A6L3R1,Uw97,Obb6,I2qx,T1,AlqbB4J3NqduP1Y10qj,C10ooT10kv,A1,Nvl7,G2U1Yzs7,A10qoE5O1,Aw00Ox9o,Ayx0E10quI10qs,!L1S,L1,!E10qxI10bfO10p4S,I2Y1,B10hgL10k0N10my,A1E10mxI10qyOrkc,V1,E4I1,A1iB1hC1fD10qzE1bF12GzIyJ4tjLyhdMwNuPlRbTaV1,B10dpVm7f,I1,T1,P1,E1,!E4svI10r7S,!FwzhL10e2R10r6S,E1IxcxOzsi,D3S1,C10gpN1,N10rbU10ha,O1,I1,C1R102a,E5I1,N41g,I1,A10njTpw3,N1,A3E1,Ar6nO10fcU10qr,R1,R1,CjH10rmLvrpP9S10jdT4U1,L10esR10qsTva1Unc,Nzxk,I1,A1,R1,E1,AphBg0CfaDexEewFejGeaIe5Ke2Ld4McnNboP2eQ10ruRvS7T6Z1,J10r3,A1,R1,Eprw,B1,Tl3b,D2L1,A5E1,E10r0IvuqY,!B1S,DRw0n,E1Ivut,!E10o8G1I10s9MzgsS,!Iud4S,L10s9N1,!A10qoE10r7I10scST10o6,W1,O1,E10sdL1,!E10rbIry9Lyu0SY,!I10ptP1Y,!Ez9tIw4eSY,!DvqiK10a5,!GHjidK2LzxlNhvbP10ppS1,J56h,!HnkdN10nwY,A2D10smEF10slM10k2T1,Kukf,C1,U1,!B1E10mtI10sr,H1T8el,!CzeoHuu1STw92,!A10r6Bq4rE10rpFzfnI10suS,BpCetxDvl2GmIkLgMeNbPw93R8S3T2Y1,!E10r5I10swSWu72,!DrwmS,DR1,IxesO10dq,!H1,!Bir7E3Iw4xPd8lS1Y,R6T1,E10kwNv6u,Aqr0,!T1,!ByzoE10rfI3S1Y,E10pkIm7l,R1,Nux9RS10sc,E10t8N10dvSzgo,!HzjfO10e2,!B4E3H8p0I2L10rxMw6bN10omS1,N10rfP7RT1,!EzapFyl1HulzI10dyS,E8uhRw6j,L2T1,AfD10siE4L1P10skRcl4V10bs,!Etx6L885N10osS,T1,E10ldL10s5Nvsp,A10rxEt4rI1Y,!M1Suo0Wvup,!HjjgPw3m,!EzmzL10s9S,G1,E10ljN1,EwemI10tr,!BzdxEv7gI2L1MzibSY,DulkE6G1IuuhK10tsNw4g,E10rqI10tuL10svP10bl,!E10txIsiqSY,L1,!E10nzIsisY,H1S10t4,Aw9mL10feOw9c,DRu3yS,!A10sdB2E1Gu7gI10u1MzikYw9e,H1,!R10u2,!E1L10sp,C3H1,!DLxh6ST10u4,E1I10u7,Dsd5FpGukzLyilMmNfPeRcSaT3V1Zj43,!Teto,!E10t5I10uaS1,Nw2rP1Szgc,Lnsn,!Fym0LzzeMziwP1Sjd7T10q7,D1EN,!D10ueE10uhI10ufS,N1,Bi83Lsw5O6Pzg6R3Tjs5U1,A1nE11IaO1U2h0,E10uhIy2z,T1,I1,R1,A1O10tt,I10toO10tm,M1,C10qdSpni,!I1L10tcS,C10suT1,N1,A1,H1,MzvnNyomP1S10qn,A8E10lwO1,!CnugF10cr,B10uxS10u5,A10hfI2L10p9U1,B1,P106j,Gyhd,A3E2O1,CD10v3S10ur,!I1L1007SY,H1,!ENuwsST10ea,CxdmN10m8T10ua,A2I1,I10v9L7P4V1,!E10vaI10qsS,Nza2S10r4T1,O1,CzdyN10vgSxbkZ10qj,!E10viI1Lzh6OzuaS,L1,I4O1,Lzuo,Cou0E10vcZ106f,I1Y,A3R1,T1,E1,C1002Tyc3,E10viN10voS10pzZ10me,My5j,I1,LxnwM1,E5I4O1Y,H1Rz8b,T1,Txmz,C10rlE10vqOzyrS10us,I1Y,N1,O1Y104g,!R1095S10uw,A1U10qb,I1,DzwxS1,Ledq,I10rnO1,T1,!A1L10j3S,M1,O1,AgEfHbO7T1,BvMpP1,Shq0,E1,H1,T1,Ryz5S1,!A10vuSU10vk,G1,O1,Pu8j,E1,E2O1,D10wnN10wqS,E10umI1,Sp11,I10s8O1,S3T1,D10w3S10sl,O1,R1,H1,T1,EhGeLbN10sbP6R1,Pj6l,Exl3,R1,O1,G1,E1,R6T1,Oy74,L1,C1,Y1,A10sgE10v7I10xbM10x9T10gd,ChizE10x4S1Z10sg,A10woE10t5I1O10naY,!C4Mwa8N1Sl9yTyr9,O1,!E10xiI10xgR1S,LTzyn,A1E10xgI10oc,M10xhP1,CSxdpZ10rt,I1,T1,E1,Tzyg,!AjE10xrH9I10xpLm64O6R2SY1,Lh3n,Y1,T1,C1,E10xmI10wzMyw8,S1T10aa,LrbiT10vp,!A1S,C1,A6E4I1R1025,Hmi8,C1,O1,D1OxssT10h5,A10y2C10trD10y2E10xwSz6q,E10cpI1Y,E10twG1,I10xcThv8,!C5R2S1,U10xp,M10doSzk8,E10hd,N1,A3E1,Zz11,Ryex,A1,!A10xsIzlnS,CzwuE10yaS10xcT10wkZ10sr,!E10yhI1O101cSY,M1,Y1,Tyx0,A100tT10au,I1,D8N4P8g7S3V1,Cmf9Gyw1X10xw,SwskZ10pf,E10ykI1,A10g2I10br,S2T1,!E1S,A6H1Oz02,!A1yC18DyEpFoGkIjKhO8T1Ulzv,S10y4T10mk,I1,L1,!E1056I1Oxl8S,H1,Enhh,Y1,M1,A10z4E10x2I10z6O1,G1X10yd,N1,H8rl,E10x5I2P1U25e,L10dv,Ck3xSpbcZ10ug,I1,T1,C10ceZ10aa,!A2I1L10maS,M1,A7E1Oz0c,O10kaT1,A10yvIxj0Y,G1,Y1,B50C4qExhgK10yoL4cM3aNqPlRdS4Z1,A38aC2ykE2j3F2iwG2irH2amI250J24wK22oL1z7M1xmN1vaO1n1P1czQ1bxR1buTxaU7sV7kW56Y1,Dzl3E10yj,N103uR1,E10y9N10zsS10yx,Lfjf,U1,E10zwI3O1Y10ky,L10u4U10j0,C1,A1,!E1100I10zyN1S,R1ST10nl,!ST10ai,!FzmuPp3e,!E1104I1102O10ktSTzls,!A10u9Ct6eDFxb5Lz1nM10uzS2T1Ww5a,A4E1I1104O1048,!E1107I1105LwasS,!Exb9IiznS,!ExbaI1107S,L1105R1,O4R3U1,RT10y3,A1I1109,!E110eI110cL1N110aS,!AnBjEeI110fL9O4SU1,Hywq,A1,M1,!E110fOfjlS,M10rhT1,N104nS1,H10g3,T1,Y1,H1,R1,R1,A1CulbO10yl,!E110pI8O10nqSY1,N1003,R1,!L10zfN10w4U1,T1,DR110uT110uY,E10sqFxdiL10ziNx5z,!Bw82E2I1LojSY,C10f8LzxoO10yu,!Fx99I1Lzn8SU10dc,AlEfhkHaI6K3NygeO9vvT1,!Pxc3S,!ESz03,A1,I1,!L1114N1,A1115Iipf,R110oT1,AfgcE1Iyt0R10x3Y,F1I110c,Lvft,Twf1,A1K10zr,I1,Efw2,!A5Bw8kGwhpL2M1RolfS,InxxR111fS10xc,A111gLf8l,Azv9Owj7,DNwv2R111i,Afga,!S111kU10zv,ArlhE1Ilo9,!BunrE111qI10m8S,R1,E10xrP110r,I1Lzzy,!K105wL10jsP10je,A10ouIz3e,!BbC7y3EaF10yzG9I10meL7O5P3RzzwS2W1,!STz7u,GeL2N1P10z1,!B110aH110y,!Al0fDvzxNOq2yR111wSU10mp,!G10ysS,N1,A4E3I1,!I1028S,!PonyR1S,!E1126I1124Ks8fO10peSU10wc,A30t,E1,Tqun,Sj9e,!B3N2R1127Sx9qY1,E7ksO1114,Ate6,M1,!O1108P3S1,H10xqIz9f,B110sT1,Sn6u,E1,Ewg5Nzns,!A4E111eF2I1SY,G10wtIc,!HI10zr,!E112eI10zs,!H1I10ztOy9c,E10wqS3T1,L112nWv1e,!HwdoI112qMzr9,!A7Bw6dE10ukI3N10y1O2Y1,D10er,U1,Nzo8Owlo,Kpc5S1121,AtCsEnIjKdL5M3O2U1,Upc7,D1,C112uO112xU112x,!LxegNsxhSkx2,A2I1,B111fL10u1N4R1Suez,C1131K1131L1125,!A1132E111zInvqS,R1,U1,A4O1Ucgq,!A111kDI1113LyurN10yiR1136S10y3,Ihpi,X1,L112dN1139,!E1127I113cPuwiS,DR1,!A3E1I1118OxplS,!AdB8E7I111pMw55O5P1S,Rcn0,O1,E10xqO1,DL10y2N48zR10pd,Brq6E10vdN113l,E111wIwafY,!E3I2L1O113lRzo7SY,Svgj,!G112pR1102S,!A1E112kFxerI113pL108qS10oe,B1123G112rT112r,DR1051S112u,CNvkoS113e,A3E2I1,CS10y3T112vZt7l,A10ysI1Uusf,Ow5n,L2M1R112z,V1120,A113xI10utU10y7,A3I2OR1,!AumtB113uDjGfIeKcN8Rt2qSttdT1U104xYwjeZryl,Rzyu,E1,!D1L10ynS,!Tvq2,!DLlbmRdrhS1T104zWyut,L1138Nt0uU10lg,O1,N114aOzelR1147S113f,ExfdI10ou,!A7E5H3I2P1Rs9ySpzi,I2eh,A113iEyayI10vnUxf8,T1,D3M113hN1,OeacUyw4,Ew6cG8f7L1132N10zr,I1OYkgb,!STx12,E1,FzphN114m,Aj45Ej45,Dzp8,!A1S,C1,A1,H4iw,S1,!AdblI1S,!C114sK114sST114s,N114tP10rxUz6o,!A1O112rS,DlG1109,A110yEn6kN114z,A2E112vI1Y10q3,!A114yE1139,S10np,R1,A1,T1,A1,T1,E1,M1,!A114qI9O1U1151,NpekR10w3,Fzuc,!A2EzmnIwo3L8jzN110mR1108SU1Y,!AyBxDvE1139GtIsLrMnNkOjPhReS4T1WzstZ112i,AydgIj1i,!E115hI115fM1SWxci,!LxsgST115e,!E1I114i,!DFxdrLzrqMuzxR115gS,A113vE1IwhfY,!K5S3T1,M115iR115j,Uzpq,Anu6,M1,E1,!Azrw,!D2E115tI115rS1,DR1,!DR115rSTl3r,E1I115u,Oxoh,E4IwjiL2O1Y,!AcEzr5ObST1,Twee,Ix6nO108sY,G1,O1,M107c,Y1,G1162L3Mp28N1,!Aw6jEk29I1165L114qN111fO1S,!G10z2N8P1157R10s0ST1,!A1165E114gS,N1,R1,!E1S,Rq0d,EN116d,EzqiIw87Y,!D3E1159I2N1PvrcSzl7,!BrgyT111l,DM10ndR116eS,Rt35,E1,NT10tl,A10zzE1,!CwkiD3E1153I116lM1N112jST10niWzqp,!Ozu8S,N1,I116qYxsq,A1,!AbEaI5L10tkMzv9O3P1U116iWykqY10zy,!B6eC5qD5pE5lF5hG5bH5aI4vJ115xK4qL3vM3cN2qO116pP2gR1eS17TuUlVhWdX1Z7np,Hzgf,C1,T1,O1,H1,AzzvW116eX1163,EwgeO1,K1160R115t,R113tS,!At7oE1I10rl,Ppai,A4H2U1,Tv4v,!E1SW109u,!I10c8S,!Aww0E1179I1177M1123Sq2eWxea,Ojhp,Ow59Rzxd,!E1172Svrz,S1,A1,Eww5,!Tvee,!Al6wD6E116aFxfoG3Iw40J2L10u9OyxqS1Y,!DLubqR117eS,!E1HzxlI113ePpau,!E117kI10bpS,Ewo4L111s,!BmChHzoyKfLeMdPcR5S3T2WwcrZ1,Ewl8L1166,Izz6Rn5s,T1,!AhqlI114tS,C1Qy84,Buck,A1,O19d,I10pkOrrz,H1,Th0y,B5Ck8gL4P2S1,EaI8O1,E1180IdN1Y,Izq9,N1,A111qI112yO1R10e2U1157,H4T1,!DlunIh94S,!E116zIrnmS,E8dx,G1,Ptp9,O1,!B1,!A4E116jFzv3Iy0mSy0lT29iY1,!E114aI10svRujv,!E1177Izo1Lex2S,L1,A1U112m,T1,Ew86H5O1,!DI118hL118fMdN7PwteST1,Lx47,L1,F118iI1,!T109e,N1,E1Is5c,E7ijIzyb,A118nL10rvM1,!M3SU1,GfftI1155N1155,N117y,O1,Ai2f,T1,C1,E1,I1,G1,!EM7N1,NwzlT10zp,U1,M1,N6e3,E1,R1,E1,F1,M6N1Usfr,AvcvO1,Slyl,C1,A1Ifcf,DR119cS118f,!E1Il9oSY,H1,MpqdP1,A1,A119hE10o5OzxhR1,Islz,!Ev9cS,K1,NR1,E10ftRzm4,NT1,A3E1,Cp1x,Og58,!E10abS,T1,LnrlN3S1,E115vIla5Y,!Glk6S,O1,N3T1,O1,R105c,Sr1i,E1,C1,IsvnO1,AilnH6LzuaO5R1,Ofs9,!C1E11a0I11a0T10xu,Wuul,E1,P1,Esq3H115oY1,O10b2,T1,Eyq2,G1,N1,E118eI118cU119s,Ew3nS1,A3I1,!C1bD10yxF18G12K11MvNuOqPfR117qSdT9U7V1X1129,E10grO103k,A114cC116aO10bcU117t,CD119pU114w,I1O10xo,R1,!A1193E1190In0pSTl8pU1Y11ap,E48lI111m,H10s1,C10nlIM2P1STcme,!O101x,!A1wEbFaI9L5O2Pl5vS1,Lrmq,Ah3aI116r,R1,E1141U119y,!B119eMpbnN1172ST1,!A1E119xI11b2S,!E11b5I11b3SU110z,T1,DH11b3R3S1,R11b4T11a7,A1Ejlr,Ls4yRhsu,B10ud,I1,D1,N1,A1,M1,A7IuxqO1,!R1S,!A10vrE11acI117eR116rS,!EdIuu0LbO2ST1U1140,BmEkP1,Lywt,E11bjIx8jU1,!A119yE11boI11bmL10ygR119oS,C119pT1,B10ybC3IuppN1,E11bnIr7Y,C1T111l,O10tdY,!EzxdFvsqHs6eIpxwL1N1172O10yrS,DN3R1,GIxy9O10zk,N1,!IxybS,N1,!E11c0L10l7O10zoS,L1,Ev00I1,!A1181E8I6O4R1S,N10g6U11bu,F10v5O1S1162,A11aiI1O10zu,R1,B1M11aySafxT11c4,E11bzSv1v,E11ahI1,!Ia45S,Vnci,O1,N1,Y1,N113tR5S1TxyzU11an,Ux5w,E2i1I11abO1,!A11bsE11bcI11chL10zbS,M10rtN1,B1163L112wN11ckO1T11alV11ax,!Eur2I1O11at,CtyqG11bmTkv6,!E11coHwlsI11cmS,DR1,!A3E1H119hIuv3LwdkSY,A11b1E11alI10p1,E11ciI10k8O112nR1Tzk3,!A13CzymDqElFtkqIbnNjOdPbRtbgS7T3U1,A7tg,Indb,C2P119zS1,E11ctFzrr,R3z3,AwkvE2H1Iky7Ozx2,Uo4t,CsznGtyrI11d1Lx7uM10d3,I114aO1,I11czOs5bPfwyT1W111p,I3kr,!LvanNvwgST11d1,E1,CN10pt,E11c6I1,Ig13O11d5,A11cu,A10u4,H1,T1,H1,B7D6F5P1T11br,Rgzm,E1,T11chV1,A1176I1U11an,G10jv,Bte7L11acThvg,A1GIOmscU11cp,R10y,A1E11dkI114g,N3T1,!A6E11cjI1Lz57O11bxSTszw,R11brT10jt,!P10ulS,!A2E1I1193S,E105kI114mO10hw,N1,EzpzO11db,N1,Rdy7,O1,H1,C1,I1,E8I6OvnlS1,Uzrd,!C118cEFx7mI11byN11d4P10vpQ1RyzbS11d9Zkod,Rvrl,T1,E11c1LyksN11d7P87sS1T11e4,ArnjE11dz,I1Y,R1,!O1S,BtezCxrjEww6Fil3GxmpN11dcT1,SxuhZ10p7,!I1L1117S,R1,AcE9I4O1Y,L11eeN11eeR11ci,A1,I1,A1iB1hC1fE16G12I10qMvNsPiR4SlpsT1V8je,!C11deE,A1,LstvR1,E1I110r,E112dI11efY,E11enO11cyR10kq,!B1159C2EMgymT1,I8voY,N1,O1,CrbrE116nFxrfL11dfM1NxjwS,N11etO11cqSz8b,D1p,!A7CqrpE10o0I3O2SU1Y,L11e0SbT1,C10ryE11erS1198Z10pu,A11ebI1O112rU11e5Y,Hira,O1,T1,N4R1,Hqw3,!Bxk9E11f8I11f6S,R1,!E1S,Ov54,L1O1088,A1115H1I11bpYt4y,Cs7m,A1,Nb1u,!I1169R2SY1,U7,L1,Awtm,M1,M1,A1,O10pfR1,A11d6I11akO11di,R1,D1,Bzrt,A1,N1,N1,A1,C1Fw64,O1,R1,D1Moah,EaY1,L10vi,L1,Y1,E11ecH1,RrucT1,E1,R49s,LzshO11clY1,Cx61,!Pxlq,OwhlZm2l,!C10DwFuGpHcL10diM6P4R3S2V8l6Z1,E11gaO7we,D1X10yh,A3O1Y11fv,!A1bC1aH17O107yR1ST113h,Ojxg,C11g3G103vT1,K10rj,O1,O1,A119zEm3vIu4y,Apa2R1,!B3I10yeL113hSU1,A11ftT1,A95C8nD8mE88F85G7zI7yK8omL5tM56N3yO3vP3sQ3rR26S1rTaU8W11goX1,A1176,R1,C1,AiaaEi5bI117nO1,S1,Mno3S1,O10yv,D1,!CU11b6,I11h1P80fU11gr,I2O1U11g5,A6E11faI4L1,LvpnS11g8,O1,G11g5T1,!Gkut,H11fr,T1,R1,O1,!E11g5Fx35I11haL103iS5W1,!A7E111zK1,!Auz0C3io,Guu5,R1,U1,T1,A1,M1,Cwx7EIz87LiN8R11brT7U1W7o0,!Gt0mS,R1,!IhcoL11g7S,L1,!A1S,C1,E11hoI1,E6R1,Rn9rT1,A113nE,A434Opaz,!Lpbn,N11ep,V11ho,L1,!E1,!S1,N1190R1Sxgo,E4,!Ay6qE11fzI11i3S1,G11h5LR11i2,T11hrWwxi,R1,O1,!F1,E1,!A6C1S,Ozjs,R1,Ax9u,EmtdR1,IyixOz2s,A11gbC100zE11i8S11cpZ1194,!I1SU11hiY,G1,O1,AzjqYzm6,H1,!A11c0I11fr,C1,I1,My69T1,E11iiSzwsZ11du,B11daE2I1Y,Hz2k,P1,O1,BjChDgGzk0LcN7igPaR4S1,Uyz9,E1IzbjS10n1Y,P1,BoeaF10deT,R11cs,O1R11ds,F10dh,!A1T106d,N1,Oj5t,H10hi,T1,I1,!AaB11huF8I5M110vOj60ST4Uj5uW1,!A10lgS,C1,Mkjv,A2O1,ELq69,C11f2Ox6mSzwoT11ig,Ur8e,HrdjL115bO1,U112jYiji,C5vkM11ib,E1,L1,R5b8,O1,Usgv,Bhe6,A1Uvuc,A10ihEwpy,Umc7,C11flS11e1,I1,D1,O1,I1,R1,L5w7,I1,Tlz4,S1,A1,E6H4I111vL1,Ny1d,A1,CwqjGnwgM1,E1,STiol,!E11kcIj7rST1060,B11auT1,A1,!Cz5xE4PxlzT1,AthnRij5,CyDxEuFsGnv1Hmr5JrLpMoNnPbR7S2T1,!A12EwseI11O1S,I11kjP10n7,A1kE19I15M2O1,Re0g,U1,A1E11kjI11kdP11hp,A11kkIzl5,Rxfj,!Iyd0L117iSY,!A2xB2wC2vE2uF11jjG2tI2oLnkxM2mN2fO1uR7S4T3U2W1Y,Nwbc,E1,!A1121E11kqS,N1,I1,IphtOzd3,B5M2Z1,NvoxRS11k0Tv8q,!E1Hwx4I10w0L11jjN11g8Sx7o,K1,EpytItf0,FV1,!B11k1E11l4S,Azm3Rthf,T1,O1,H4M1,Ilhq,!BwunFxwaR1SW108o,E1,L1,Or7x,R1,B3E1,BvjoJw1x,A1,M1,Jw20,A1M11jk,M1,!A4N11guSU1,!Atm8E11juIqdnS,DR11lkSoa9,E1Ix4e,!CglzDwjnEG4K3L11k9N1S,Y8l3,A11gnIzpqY11l7,Efr1Heoj,Dtbj,I1,F11gq,L1,U1,Ega8,Auz4E11l0,R1,!CbL11ctNaP9R7S4T3U1,!HwhvL11kmS,Enz0InyxYoi4,!A11gbD2LgubSjfsT1,EnzbIyegY,L1,!T1,!T109hWx1k,R1,E1,H1,O7s8,A1gC1dE1bG16L11ltMzNoOcR9S6T2X1,!DIz97P113zS,E1I11meOxr4,A11lqE11m7I11hvOy8z,C1X11lm,AahbCT11liU11gp,A10g8Uze6,!B1E11mlIwyfLwnfSY,A11ilE11iy,A11hwR1,!B1E11efFwrtGamjL11l7N11hwP1148Wx8a,H1,G1,!N11mnU1,AaI9N7O1P11dp,!Fxv0L108zSW106v,!T1,H1,!FnzrST10zy,D1,N1,!A1,!E11n0G5I11myS1,!LlNx8lR9S11ldU1Wgm6,!DzdbE11n2I11n0S,DzdcL1,Hv6uOnw4,!AqyeE11n5I11n3N11lnS,L3S2V11m5W1,!BijzE11m0F114rIxs6Lwo1SWzdsY,DNwvm,!E1I11n7S,D3P11enT1,DN2sv,!E1I11naS,!CzxvO10ri,!Fo09P2S1,Dv05,O1,!E11hhI11nfO108z,H1,A9E5N3OdvtS1W,Tjz7,E4a7I11jg,C11lyF2Lla6P11niV1,!E11nnIwzhLqd3SY,T1,P1tj,E11nmI11eiO1,T1,Y1,Migz,Bno2,E1,L1,Smwv,A1,H3L1,C8E7KnfcLzn9P1S11jpT1170X10m5,IzpdO1U11nr,B1,E11lxG11o0I11o1,!A11meDHtw1R11o0S,E1I11o3,L1,T1,TzavU11n9,!IaupL11msO1Py74W108b,H1,G1,!AmczBzusE11mjI11oaNSqjh,!ApBj1xE11o9MbNaSvm2T6U2V11mpW1,!MsvjS,!E11n8F10b6I11odO11mmS,H11nkT1,!M3Py7cS1W108j,A1cEzIwO5U1,E11ofR11mj,E1I10zk,!G1S,Iuhm,A11kgU11nf,!E11ooHxznI11omK1168N1PiwzS38xTx48Wtsx,B1P11g2,U11l2,A119gO1,L1,Idb3OzyeUz0z,OlwvR1,!Hwi5T1,!Bg0pC4E11npH114cI11krO10rnS1Y,R1,E1,D1K11ow,B116pF11c0,I1L11ox,Dwk8GhJ11o2LgMdN3R1S11nkY11o2,!E11nwI11p1L11nmSWz31,T1,Cx5qR1,A1,C11azK10t8,A1,!Cid0SY,!CD11b2E11h1N11o9,C10wsL11p7S116v,E3I2O1U11ofY,S102k,Te7f,I1,C1,L1,A1,Li3e,!A11otE10tuIybxS,D1,Ivrt,X1,O1R10th,C7G6I4T1Xwgc,E11pmIO11dfU11pg,AyzmEyjzIeO2S1,Nwfz,A1Ejbc,!LmMiR3S1,A8aE54I3hO2uR1dUtWpY1,R9hj,Uy0q,B1,I1,F1,AzqaO1,I1,DR11pzTzw0,E11m1Itk2,!E11q5I11q3STtnx,K1,C1,A1Ox5t,!E6I11arL5SrilT1,Aeb4Oeb4,!A11pqK2ST1,Ij6v,W1,Y1,D1R11qb,!W4,E2Y1,L1,!DLuunM11qaR11b7SWlsj,Iwnc,!I11qjT1,A11jyB10mlD4E3I1zkY1,A10kbRico,Ljtm,Nzwd,A1,!DL11qnS,E1,!C1E11qtI11qrS,!B7C6DI11qsL11dmM4P118eR1S,!A10erE11qvIuycS,F1,!Euz7IvrjL10vwS,R1,Sjrb,I1,A11ndI11px,!Ev6gF2L11plN11maRzckSW1,T1,E11mdI1124,E7H2L11mfO11oyR1,K11r2P11ji,!DFzisL10w6R11r3S,D117r,B11pkG11q8N1,DRvlx,!A2E1IuwdS,!A11pmE11q5H11r8I11raM11eaSYx6n,!A7Bdz3D11qcE6I11bvL2ST1,R4e9,!DlwbE11rfH116vI11bxLvhiM10fwSWxyg,R1,!L110oS,!L1S,A11qsE1,AzjqE4R1,E11jcNrlw,E10jeI1Y,S11q5T11rj,U1,I10kvLvbg,Vydq,R102j,!A2ClpoE1,Kx3lN,R1,O1,!Cx77DKwo8LaO8P7R11rsS4ToycW1,Dy3vN11cg,C11pyT10f1,A1,R1,C1L1044R11hvTzbc,AIkcrOU11m8,N1,A1,ArBlE9I8O4P1,M11gf,!E11s7I11s5Oi8hSUy3d,A11rnT1,!Bx26SY,R1,E1,!A10ugDI11ooS,O11o6U11rs,!EydwI11scLkq7S,EwbhLv4s,E11k7L11qzNxxgT10o0,E11raI1Y,!E24yMvvvT11rf,A1080,L1,U1,B1,A1,G11skN1,N1,!E11rjI1L11fiSY10dg,!AlCjDgEfFeGdH102zIx4lKcL10xqM10h8NaP119kS9T1WfwsY,A38o,!Tk3y,A11r4Ey3vIwzmL11jgY1,Arb5E11r2O10mj,!Izj7T1Y,EyefP11st,O1,!C7I11svL11frOvn8P5S3T1,Igh1,D11s0M1,!D10wiL10f8Sqy3,Vxdy,I1,A4E3I11t3L11t2O11t1R1,A11sfEt14I11t4L11ca,U1,!A11s6S1,A11t5C11ouFzxoS11nfT11s8U11nf,!A11o5E11ojI1O11gyS,N1,A11rmE11p9I11duO11h7,Lsi9,!A11r7L1SV11l7,!DHvm9S,A11t8E1Iyc1,A11muE11muIymoOor1,B11rtN11saT106c,A1E11tfIzv3,E11tgV11jo,!E11tlI11tjPszuS,P1,EwcpI3L11smU1Y,Rlff,A1,L1,!AgB10pqE11ryF11grHfIdLbMaR8ST4U1,Z11rs,!A3xB3rC3iD37E2zF2xG2oKqbgL2gM1oN12PuRoSlT2V11scZ1,IzlgLpay,E11sbS11tf,Olqa,!T1,!Ik2n,!Ewx6F5I4LwutS2Y1,!E11stIx0sMokSY,T1,D3S1,!E11ttNz2qS,O1,C1,C1,!E11t0Ix5cS,N1,A1,G1,G1,A6I11u1O1Y,Am9y,Htj0,L10rkP1,C3HwscO1S11c0,!H10x4S,!DR1S,E1I11uh,I11u9L1Y,!A10eoD1I11uaSY,I10nsL11pg,!Htsf,!AC10oeDHu2lI11umLwviNvq9P2S1,!E11toI11ueSY,F1T11umU11um,!E11dkST11dj,Ha1f,T1,EwviI11usL11lg,!A4E2G1SU11tu,!E11uwI11uuR11swST11tv,!DR11utST1,!E1F10h5I11uwSqzzWuex,L1T11uw,MwriY11uw,!DNj3hR11uxS,O11e9,L10s8MwrlN1,A4E3I11v2O1,!N11m2S,T11d2,OxcoU1,B10s3N11rdT10wc,A1,!Duk1R1S,DwlyN11va,A11tjOxct,!A118qB1E11u6G11q7H10cpI11vbM10juSW10ff,!E11vaI10l7S,CD1,!A11qbE11ueI1OznmSY11uv,AcBaDE7I6L4U1Y11uw,Wxb4,A1,Lx65,!Ed5z,Iy6zO1,H4L3N11vjT1,CzvdK11vkL,L10qfY13d,!A2E11vqI11voLwwkO1S102k,AwreO11s3,AO10iqU11sw,T1,!N1S,Lmjg,O1,O1,!R1042,E11vzIy6jY1,Gy4jRjz4,!AeBbCaE7F4M2O1P11r5ST10s0,I118yT11v1,!AzmpDL10i9M11cyR11vzST1Y,!DLwwyS,E1I11gn,!A11w2E11uzI11w4M10knSU1,Cy6eE11nyG10p8N11w6S10jj,!A11qcR11w4S,A119mE1I1179,M10b3P1011,A11fgEt43Iyio,!A11fhL1S,L1,!I1O11vkUy7k,!Ay1nD103qEcG9I8L10prN6O5S1T11i7U11viY,E11srOl5f,!H10jw,!Bx6fE11vbH2I11h0L11jaMuxcRx7fS1,Uvp7,R1,A5yeI10q9,!AxegB2E11wmIwt5LwxgP1Sr1nWxi8Y,!E11wdI11vmY,!E11vhH2I11wmL11naS1,!KL7MN11wlT1,!E11wgI11jz,Z1,O104kR10fu,Rmo,LfigUvby,Aw4a,!A11j9CsmqN11wvS,I10qlN1051,C11w6E11opL11vhN11s6,I1Y,T1,F1,E10tmI11w0O1,N10ql,N1,A11q7I1O10qe,Hyr6,C1,T1,O1,!I10vjSY,M1,Y1,Czr2GxpcILzh1N1ST102r,E11w7I11hwL11rl,D10ik,IxdaO11we,!A11taI2Ovt3P11f1T1,!ArCqDpEpxqFoGnHazhImKlLgMdN9O5P4S1W88c,DR11wiS,Ev16N11xj,!B9nkE2I1Lx63O11veW1108Y,!H1S,D10gt,!A1R11s5SU11l7,!CE11xfI,!E11wjIlchO11vxS,T1,N1,E1,Dyc3,!A1Iy98,!EI11tn,!IsqmS1T11xgU11xn,D11sc,EhnkI1O11w6,!DR11xwS11x4,A11goE1I11xz,U1,Ts7t,F10cyN1,Dya3F10cz,!E2I1,!O117y,!A11jmE11y4I1K11y4O11y4,!Lg4nNS,O105i,EL11xb,C2L1O1113,!Sta5,E1,S1,I1N11yb,Ivri,E11ufI11ygO1119,Ol30R1,!EbI8O4R3SU1,Ly9fS,!A10doC10EyIxMtNrOpPnQkRgSeT2U1Y,!E11snI11ylP106rU11jc,!A10td,H11xtS2T1,A10bxE11wkI11yoM11ymT11ph,A3w4,I1,R1,A1I11yjY,A10c2E11usI11yt,N11yvS6T2Z1,!E11yxI1Lt56S,B11x9L1,CS11ppT11xy,!I1S,!DM1R11yxS,Tids,O1,N11z3P1,DRt9u,E1I11z4,!A9E6H10tlI3ST1,!A11xiB105oDwx5E11v5Hya7Ivw0L11l0M11yzStuzU11jxW111vY,A11x2H1,!EkvcIvr3L11xtN11uiSY,H1,Lrs7,I1,!I11usSY,M11zbT1,N11jzS1,DyiyY11ze,Az3kE1I2oa,!AxypB6E11ycI3MwqrN1S,E11xeI11ziL11tr,CcGaPxkgR2S1T11qyZwy8,C10lfS10lf,I1,R1,A1,G11ypRqrhW10js,!EpapI11k9Lrb9S,!E11zsItolL114rSY,DL2R1,A10l5E11zq,E1,Nviy,O1,M11yxU11h5,O1,Ozus,E1,!CxutFm7kH11kqM10ojP1W10hw,!E11z2Fm7lH4IknbL4klS1Wx14Y,!AeBv4aEbH9Ix2nL11lwM7N1PvzlRzlmSY,E1113Pt74,LN11yy,LohvS11vw,!A2I11vzO1S,C1GqwlN11r6,I101kY,L1,I1,A1209I11r5O11w1,M1,S1,A1,H5L1,I11wuP1,AeE111hIaO1,!E11zdIxj9Lx1eO10hgSxdg,!A6jB69C65D60E5xF5vG5qI5mK5hL54M4kN46O3wP33QvpwR1zS1wT1eU10VwWhX2Y1,Uxug,Arf7C1,E1,!I110iSY,!A119sDL11niR1S,!ELR11zaST11jj,D120oTyn6,Chc3,N1,O1,R1,B1LzmaPu4cSynfTyng,A7I6O1,E1L11v6O11k6Y11h1,AvgxE11nt,!I11mfU10x0,LxptY120y,A1,!A11ehBy65E11zxI11lmL4M10plS3W1,B11nqT1204,L11ziO11xuV11zi,!A2I1O11zeS,EiH9I11lqK4T1,Nxwm,A1,!C1M10psP1a,!A11zmCzjmDMv7xOvvlR1218S1,!ItcbL11zw,L1R11zx,!A1L11o7S,N1,O1,R120m,I2O1,N121jT1,!A11zvE9I1Uzpd,!A11aoKxhtS,C1,I1,F1,A11zjEss0,I1Y,D1,E10etI10ox,M1,!A11v7O1S,!C1,At0sE5I1OerwU121n,Zyny,A1,L1Rio1,N11mkS120tT1210,!A120cE1222I1S,DR1,!B4E1H11hkI1222L11owSk2s,A103oEuif,DE11msR1222,!A11b9B2E1Fyd7I11mpLvveM10qoSW10m9,!E11xhO114zS,R1,!O1R11xiS,K1228L7N4Pwq1T1,C5n1,E1,!E122eI122cL122bS,L1,EgivI122e,Ngxt,N2yj,I1,L1,!E121eIxlaL11t7O1S,!C10l5E7Lwv5M6O5P1RvvtSW10mo,Ew5rH121mI122l,T120oZ11ta,E11ugI1Y,!E11uhI2L1N11xy,L1,I1,!SU1,GI10hy,N1O11zj,!E122wI1O1213S,T1,S121xT11y2,A1,N1,I1,Liuk,C6LtguM2T1X11ks,!As7vL121n,C11zxT1,DN1,!E1I1235S,D1,Iv4aN1,Nnpr,Osc5,!A11kjI1S,T1,B11u0P1,I1,LcehTdax,E8O7R2U1,Chjq,S1,A122bI1207,E11ziI123jT1,C1,EaofI4U1,C11vqP11a6,B11u6L123lS122o,E123mNtiq,A1221E122kI11v9,!A3E2O121zR1S,C11vvR1,U5ft,!E122bI121nT,G2Nzj4X1,Os7lV1229,I1,B122aT1,!A1E122tI123yS,M1,R1,B122eN1242O120r,A122eE121yI1,S1,EdIaO4U1,Nd7m,!E122oI11liO122f,S1,S1,E1,E5R1,P10q0S2z5,Myo3,I2U1,Uqpj,L1,Os7q,T1,N124jO11ebV11e6,!E124lI1Or62S,E1101L5S3T1,A11dpE122hI11olO11bj,T1,A1In5aOwlvUn69,Mhho,Rzst,B11v9O122lV11v3,I1O11rq,S1,A5hpE123oI124t,!ST1,G6S3T1,Rqva,Tmxh,G2N1Uhhc,Aqm6E122vI124z,T1,Az0aEdI6O3U1,Ic5sUzh4,T1,A1,C1wsM1253N11o7,!I10x4L123rN120g,C1221T1,N1,E1,Cz29R1,Rbjq,CubeE5qsRhk5,Chm2Nn1m,A1,D11shT10p3,B11vzTti6,!A1E11a9I125hS,T1,A123vE123fIimsO123e,L11oqN5R2S1,AbEaI9L7O1,!I107sS,L1,A1,U1,X1,AghyI5qz,E2H1O11ke,Ohar,H1,I1138,T1,N1,A1,T1,S1,Atb5E123xI1261,C1260U1238,I1,N1,A1,B6D5R1,Lq70,A125pE1231,S1,S120iT125b,I1,T1,R4S1,A7E1,!A3eC30D2uE2tF2bG25H22I1vL1sM1eN1bO1aPuSnTlU9V1,C3vG10r1K126eQ3pS1,AIS125bUipm,HquzI11eq,E126hI2O1,S11y8Z1,A1200DR126j,E1I11r6O11tw,!Aht3BybqDwauE3LgxhNaanP1R10gwS3o8TU10y1,!E1256IxikM10v7Y,H1S125v,R3dd,O1,T1,Hx5i,AIvcg,!ST1,A1,C4M1,!E125tI126yLxn7OqvbS,A11r2E122yI126z,S1T11su,!T10lx,!L4R2S1,Ixku,Aw2sE2O1,DRxomY1273,!E1I1276N110kS,L1,B6mC62D5pF5lG5dI4zJ4xM4oNsPlSjTgUbV4W1Yps0,Rzuk,E1,H1Ly2g,!E1267I127cLlhjMro3S,!A11ioO11v3S,N1,A125rE60mIyi1Y,R1,O3U1,E127aN127jS126j,!A11gnE126eI1M126bSY,C9D8S3T1,H110zK110z,C1,Lro0U1,Dx6dEbeh,Ax5pE11ukI11cr,!A123lSWxcx,!DHmbpI127rL2N1ST10xv,!A127eO123n,A127rO11p2,L1,A1,Lra7,!E126fI127xWyf0,S1,I1,L1,Tzne,N265,I11o7O1281,L1R1282,A11yrO11y2,L1,A6Bkx3E5O3U1,DRxppS,!A11flE1I1289,H1,!E128dIrnxSa26Y,A1247C2D1,!A123iG128bN10u3S,N1,!Asng,D1,!LSTfgd,A1E128g,M1,E1,N1,A8HpkmI6O1,Aqq8,!Ed6cIz10Oxm3U127mY,Evgu,L1,P4S3T1,Npun,!I1S,A1aB17C1107D16E13F12HzIyKk67LuMnNiP8S3T1V1128W128mY128s,!Enj7I1259S,!Ox9eS,I7k6,C1,Azz5,L1,L1282U1,G1,HwtpOzjd,I10yzO11qv,B127iCaD10reG123eL9M7N3Ro14T2Xn3hZ1,D11q3Lwp5S11s8,!M10xqP98,!S1,O10pcUwjv,E6l8L1,AyicE11tz,A11vrE129a,L1218N2T1,A8E6O4R10amU1,Rq4e,O108e,T1,A1,!DP128oR1S,A109vI111iOuvb,A125bN1T128m,F124yO9cfPnl6,R1,O1,C11xjD129nL,A1I1041,N1,E129qO1,Ex0q,Mv9o,H2O1,CzpbG10a2I129yL102fM4P8g3T1,A1oe,M1,O1,IfLcO4R1,ExgoL128mNyf3Sz02,!I10ueT11x4Y,!EwulI2LvtnS1Y,Ikj9,N1,A126kI1,Ey5aOz2t,!R11jhS,!E1S,N1,L4R1Tens,R106o,Swsv,Cjva,A10EwHfI12afKcL9O4T3U2Y1,Mdf2,E129aI1U1121,E12agNqxvST12a9,Rny9,!A1S,H85w,DN4R2ST1,C10ah,Epyx,P1,O1Rsuf,E126qI11vbU1,A11thOws8U1250,DI1,I11bsM,C11cdL2R1,Rws4,EaI12azL6O2U1,M1ss,!E12b1F102mI12azM10ziS,DR1S12a3,E1I12b1,H10tk,!Cq1eP1,Y1,Myaw,!A124kO1S,!N1S,!EaG7L4N126iO1RxhiS,Lq60,A10mlO1295,R1,D1,Bq17D892,A5E2Y1,Oejr,R1,Y1,H1,T1,O1,D1,O1,E11utGwwf,N1Tcy9,N12bqOoooU125x,!E12alI1S,A11z7E12btI126o,B1G129u,AshgB129vI5L3O1,Rh8m,P1,O1,Oxlh,E12a7H2R1,Rsq7S11z0T1,E10xlI11wk,H127q,T1,N1R10a1T10vb,!Ax2eE5L12apM4N127eO1S,Ux33,L1,O1,T1,O1,AzmdI12c1R1Y,N12ccT1,!E12b7I12ccR12aeS,T1,E1Upcj,C11vjD12bpM11dw,AsisDxb5E12acI5K2O1Upz4,!D12biLwa1Sxq9X11ul,!I11v7,T1,C12cfR1,!D12bvS,Lq7e,Y1,N1,A10zpE1OaxgTdru,!DSTvvyX12bw,C6mfN12csT12bs,BzexI10p4,A12btE3I2O1Y,!A12c5I11s9SY,D1L12csS12c1,EynzImisY,A12bxYpxg,!AeEdH9IwkkL5O3P2ST1Wxzw,Edv4,U1,Dwhw,A1E11h9,CtcpM11u0,B125i,O1,H1,P1,A1,K1,E1,D1,I1,Ltii,A2E1,Hr1w,A1,T1,C1Mds7,!A11dsZ12cl,L121a,U1,C11qqM1,A11wcE4FylwI1,BpigL89q,Lpi5,AfwoCq72EnHxavKcMf6qO8T3U2Y1,I89f,E1I11yc,A11vkU1281,A11n2C1U1282,M12cxN124u,R12bh,E1239H5I3O2U1,LsrkNtta,!A1E12e1I12dzS,H1,P1Vp1i,M1Nv9x,E124pV12d4,L1,S10s7T12c7Z11p0,!I1L12cr,!L1,A1U12be,A5E12d3I1,A55B4wC3vD3tE3oF3dG32H2wI2oJ117oK12dbL2hM26N1uO1tP1cQ1aR18SkTdU8V1Wwiv,Rxy2,E1,T1,I1221LN1R12ec,Ls7h,E4lt,I11mpPuwm,A4E125hI3L2O1,A12csH1K12ei,!DzwoE,Dtcz,O1,L1O12ci,I8eU12dt,K12drL1S,Uy6o,!B1E12etI12erS,DR12eqY1,!E1IvnuO3kxSY11zx,A10gfL1,Ofhq,B1M12ecPtap,A12eeN12ey,!E12dtI1S11zn,P1Z,Ldqj,Bmr8Zess,A2IjlvO1Y1206,CbflN1262S10y2,Azog,L1,L1,O1,C1LtntM11qbN11wuPfh3SygtTdqs,!E12f7H7I6O1,L110r,!E12fdI12fbP1S,!H1L1216STxvlY12et,Dux9,OkqhT,O1,!H1Oy1l,!DMvgdR12ffS1,E1I12fiO125f,A6L1,E12bjIn,E12duS129p,R12enU12dv,E1,B5G11ssNxsaP4S3TxbzV1,DLvjz,!Exvp,!E2I12frS1T11sv,AxvgC19D18Fv8fG15I13K12a1LyMwN121oOtPjTgU4V110zW1Y12fq,C12dvTrmb,N1,E12buIp8hO12c8,!A11tbE12erFyqyI120gL1Mvk0S,Lt1y,E12duI12fyK2U1,!DN12fxO12duR12fxS,E1I12g0,G1,LzghOv04R11pb,Ejo3,!B2DHgf9I12g4LsirN12beP1RS12az,E12g3L11y6,F1,N12g8S10z6,L12g6Y,!E12f4I12g9L11laS,DR12ecT1,!E1I12gbS,EdsdP1,A1289Hksr,!E12ggFw22Syqw,E12fwI12br,C3Dw87K2N1,!DI12ghS1216,DE1R12gg,E12buG129k,ExifL12f5N1,!A11ppBzomE3FyouI1L123fO12euSWboeY,Sw0eT1,Hr48,AuCqDnEkFiG12gmIhLgMcN8S2T1,E12gnI10b0,M1,O1,S1,O1,N1,Hfpt,P1,A10ieI127rO1,A4Stz6T1,A12cuTwi7,!I12cxMu85OyzxP2S1Wlom,A9tE87I2rO19UdY1,V10mn,!D107eE1IrchS,DqytR1,T11ye,Mhaa,M1,Sxww,!E12hbI12h9ST1,Rzxi,I1246,E12h4I12h4R1,O3R1,Ivp9,M1,A1,Sl7q,U1,M1,A1,G1,U1,S1,B11huN8RzxwT1,AlEkIiKgOcU1,A12a8E12a8,T1,!EI12awLST12g6,I12hvS12dkU12hl,Adx9I12fpO1,L1,L12gxU1,I12hzSvdsU12hp,!C2O1S,!DLxivN1026R1SWyp2,Ez1dI7hlO11x0,F1N122mS12gv,Rz10,U1,C1,RT12ce,A1E12i4I12g1O125gU12h4,L1,!AgBmn5E9FytaI7L11n9O4SU1,!Ah1hE3m9I12i9Sxv7,H11neK1,!Ayv4E12h5S,AyvlF1OdugTuab,Rxid,!BvmmGxynH1L1258RxieS,!L1206STtv5,D12idR11b0,P9sf,By3f,E12ihI1,A4E12iiI3L1,!Ort9,!Bxj0D1Rq3eSW1162,E1I1237,L1Rtdw,AzpwI11ikY123t,F1Swth,I12iiL125tY,E12eiI11i2,N1,E1,G1,!A12i7I1L11nxO126mS,R1U12h6,!E12j0I12iyL124sS,!SU23t,A1227IO126aT1U12i5,L1,BeEcImp6MbO5P4U1,!B125qS,I10asR12i6,!A11ugDFyreLs3eR12j3SskjU123w,A12e3E12h1I12a0,!T1,!S1,!ET121a,!A1L12ibS,C1N12jc,E12jeItko,!E12i8I12jdL1S,DL1,A11wuE1Iyu1Y,!AdDcEbG8I5N1S,Ew8I12jh,!EyuyI12jdP1S,Ofe5,C1,N46lR12hn,L12go,L1T11wr,MxpuT12gi,!I1L12iaN12ez,AtwzE12jo,D2N1T10yv,E12in,G1,R1,A1,A12i5H1,Etks,N1,E1,Nzg3,I1,H1,C1,A1,!C9Efm9F12haG6J11djM1P11a8SvdlT12k3,AlEjIfO1U49,Ixik,!K1,!E12kbIxr3Lxl5M118sS1Y,Npi0Swv1,DyryT12jc,E2I1O12il,!E114iO11wkS,E11x8Owg2,L12itOz3c,B1Rxmv,Ujte,N1253P12kg,I122aO12jj,!O122bP11glT1,Eh3k,!A6B5CvouDxilEx54HyppI4Kxv9OrlmPltzS2Tpr4U125dV1,Pyfh,N6tiT11xs,E1ItfpS,Odn,U1,Exn5I12jf,!O11fz,!B10rcD1H120cNl7rR12ksS,E1I125f,L1,A1dBrD1139E1238FoGlI8nlKkMjNbOaP8Q6R5T1V12ko,!E12jgIxnjY,!E12juI12kzLxlvS,H12kyLR12ky,S12k7V12jf,Cvs1R12c1,A3Eu4jI2L12fcO1Upes,C10gmH6K5S1,G12k6R11mf,A1,E12l5L1,!A11ynEydtI6bS125x,Ewn6,R2Y1,!E12l3N12lcS,E12leI1Y,!E6O3ST1U12lb,!E12jwS,O1,D1S,!E1,A3rB3aC38F36G34I33L2yM2gN22P20QzlxRlSeT5X1Ys4x,!E12keIxsdL12c7SY,G1K12jm,!O11ps,Br2n,!DjoyE12llI12jiN3S2T2zxY1,!I1160L12fxSY,!D1Nvb1T12d4Z12cd,!N11yeS,O1,!M1S,E1,F11yiV1,IoyqY,T1,AxnvE8L3N1R126o,Ilj6,Dlav,ErcyIxsuY,!G1LxmxS,ImubLy2i,ExvjOv65,Ez7oI12m4,E12dyG12f1N12m6,Lmjr,!E12l1H126x,!B5E12i7FxfjG4I3J11fmK2NrxsS1Y,LtrrP12m7,Tm7f,!E12gdIxiwY,H1,!C1STwkc,BgC12ksDfE12knGdLcN6R5S4T1X12lh,E12koO117z,!F1P3s0Sv,AuEkI3O1Y129j,!E12mgR12mgS,E12loI12dd,!CE12mcS12leT1,!A12gaI1OSU12gtY,N1,A1,B11o6P1,E12mnTxao,S1,A1,Un6c,A12iuO1,!CfgaEmx0T10nm,R3py,!A12l8B115hC5DF3S2W1Y,Syxy,O1,I12jdN12dsO12kuS12ldU12mr,L2O1U12m5,!Ayun,C1E12evF122iN12n3S12lw,!E12lyI2tsSY,H1,P1,A1,R1,!G1L106yS,Ag9qEdH9I7O1P12n7Y,!A111eI128q,C1E12n3S12hkZ12dz,SvzuU11q6,I2O1Y,N1T12nc,M1299N1,Dxe5,I1,!Ilfa,!C2N126lS1T2o6,A5E12lgI12nkO1,C11guE13I12nlK12mmL11ypMxN12huPcR1Tybv,Kur8,I1,D1,D1R6m,Tzuz,ST12nc,I1,Z1,G11m1M6oT1,A6E5I1U6l,A1h5C1h0E177Hy3Iu5M10qjOndR6vS67U2eW1fYbZ1,N12mwT10b8,EI1,U1,E12jtQ1,I1,!M112xS,D12b5O1,ExpzF123kL12mpN12je,I1Y,H12o4L1Sg0e,!L12lc,H11zvI12j5,A1,T1,N1,!LqhoS,A125mE1U7bq,M12ngN12oc,G10beU12o7,!A125qE12oiI12ogO1S,R1,E1,M12nlX1206,Ajl3,!DERS,A1,Nus9,A1,I109n,R1,AE11fhI12orU12iz,!C12muST1,Iz78,N1,E1,!G1,A5O1,M1,S12cl,A1,Ray0SzuyU11se,AevuE12myI12p2,G1,U1,F1,I1,R1,T1,N1,Ai5jEd48,MsfqP1,Ecsg,Sdc7T1V27a,L12pgM3N1O12op,AeE6H128hIjlkLf9qO1R4gm,M106zN11cg,Tjfn,S1,E3I1R12o4,Ejku,Ccm2,Fjl3N2X1,I128t,L1,I1,M1Saum,In42,M1,Rtuw,T1,C10ldL1N12o9,A6E4I1,Mlae,A1,L1,Zcj5,T12q0V12om,A1,G12ppP,A4E2I1O12p7Uziw,Tt3r,F1,Egbv,!SW1,T1,H1,BdcwG1,E6I1O11g8,Opli,H1,T1,A1I12pg,F129jR1Sjjs,Olum,C1,M12ne,O1,!S3T1,O1,R1,Iivn,EIkey,R1,U1,T1,A1,I1,C8L7N1,A118n,T1,Djk0N1,AjI4O1,O9df,I1,T1,A1,Tcbo,R1,X12pt,O1,D1,A1,Ropb,R2T1,Rcez,E1,W1,Czlx,S11wp,I1,C1,Ec9o,R1,Fi1xG1,A7E4O1,AcHzv8O9R1U11ho,Izvm,U1,!Fu4n,E1,D11g2P12fkR1T104o,Chzz,E1,P1,AdduD12rvFkrtLcheS1Vzpq,T10b2,H1,C12rmG1,MjjlY100o,A9E5I2O1,F12qh,Gzzx,E1,R1,C4ipG1Np0cR11vl,A8utOs3j,M10n3,I104iO11i6,L12rmR12re,A1Opso,I125bO4yt,F12rhN1ParbU10tz,Ci9c,U1,R1,!AfEbHaI9L8M6O4T1,Hyo8,U10dt,C1,N12f8T12sk,E1,L1,O1Rin6,A5I1,!B3rC3cD38E35F2vG2sH2nIyvcL2fM1rN1nO1lP13Q11RpS9T8V1Wztl,A1,E43I3vR1,!Lso5S,A4hC4dE4cL4bN49P47S12fwT2U1V12rx,G124j,N1,Fzb9,Akw9ExxfI1,!E12t2L1S,L1R12t0,L12t0Ts7p,A1IU12s8,C1,I1,L1,A12gnE12szI12k1,!N1S,!EGsd5LS,LrxbT12o7,A2E1,EbI6L12t3O4R1,C10t4K12tbQ12tb,A1,Axhv,N12thRb0i,!T12t3,N1,E1,E1,!E12tnI5ST1,N100b,E1,E1,!AsBdIbLaMP4T1,Hyyw,S1Tyyx,Dxj4,Au3tI1,Ej5h,B1,R1,O1,A7L12scR5S1Uj92,E104e,D1,A11pfE12u3,T1,N123bP1,E12u6Ikic,T1,A1,M1,I1,T11fz,A1,D1,O1,Nu79,A1,M3P1,Ne,M2U1,Ed6i,Oyzo,T1,L8q2S1,EjLeO5R4U1,Exix,I1,Ex,L1,W1,O1,N1,Idvg,A1,U1,Rzpp,A12taE12v0O1,AzCdHbK6Q3T1,A12tcE12v2,T1,P1,Rcve,Dau5S124c,U1,R124fT124e,I1,Pi3dR11pk,Amib,R1,!E1,T1,L1,U10zw,T1,Tjaj,N2R1,Sz0o,E2I1,AiDhJfMdOcU7V1,N12vmOx38,E12mtI1,T1,C1,Rcry,E2Id72Ld71O1,F1R11px,DI12vs,L12u7N12vu,E2GzvfI1,!D1254M1254R1254S,Is9j,B12uaT1256,A1,N1,E1G11qcK12ue,Vd7e,C1259Y125b,E2I125cO1Uzvw,A11xgE12w6,R1,E1,I7L4T1,U112m,Lubj,A1,G3T11zpV1,I1,A12upD125m,N1,Tjsn,R1,S11i7,B6E4It7uO2Pb6lU1,Z1j,Y1,L1,E7,H1,T1,L125yS1,Nqeg,T125yU1,O1,R2s,E1,W1,P1n,I1,C1,I1,AfCu17EbI7bnN8S5T1,E124nIcrq,G1,O1,L1,A12vhI12t2,A128hE12x8,L2S1,Zwej,I1,A3T1,T5vl,A1,I1,C1,Hr70,C1,Rd8u,A2P1V126r,E5O1,AiegEaR1,OhP1T12qm,Ug,!E12xpI12xnOxjhS,Ob2w,CcvbS12c9,F11kjI1,G5M4R3T1Y,Az2x,I8tc,L1q,I1,M8eaRz03,L1z,I1,G11sbM1S1277,A12wcD,E1,G1,A1Mpid,A9E8I5Od7iU1,HdK127ePcS1,L11wy,CvysIizc,D127hU127f,N1S127h,U39,B1,AcyiI1,A6E4R1U11sp,H8O11sqT1,Ejq0Ocks,H1O4ps,!DdaiST1,A127mIte0,L1,I1,IjhlW127u,A2E2vjO1,DN127w,E1,D127yE12qz,K2R1,DSgaz,A2E1,B4vC3uD39Eda7F32G2zI2yK2xL2mM2bN1tP18R12SoTfUcV7W1,Au5p,Atw5L1,!Dz0tN11kmS,Eb16,Ct1iN12yz,E12z1I1,!B3R1S,E12z3H128a,Ch04K128bL7N6P2nR2S128bT1,A12aeE12si,F11ld,I1,T1,RqepT4U1,Iteq,M1,O1,D10hf,L1,O1,W11s1,O1,N1,A12asE12xqI12ve,F12zgV1,E1,Gd4z,I1,I3L1OxnwT12zl,Ujer,G12t3,Dyw8I1T,Eo4y,E1,!AlCiHfKcL6M5N3S1,Sl0a,DNR,E1,T1,A4B8r9DxxdLxnuNxnnT1,Cw0jD1297,Ae5fMfxeN1Smu7,D1299Kwhb,N1,E1304I129bY,D1,CyfsO1,Hwhg,S1,Ae62E8I6O3U1,E130aNxzo,Kzv1,!E12jr,C12ywD1,G12t8N1,Ecmq,L1,D1E130h,DudcL12puN8O7R12tvSxvkU4W1X12s4,E129p,E12yeI130iK1,C1I12tcK12usNl,Cj7vKtbwTj7v,A1DEygi,G2lL12uv,F129w,I12r9,L1,D4E3G12tmL1,IjfvSw1c,A9E7I2OmubU1,A12c4T12a2,E1I12wr,G1,Fxmp,!A12z9I130xS,D1T,L1,A12zcE1312T,DxzoE10h0I12aaN1,L1263,S1,S1,E1,N1,I1T12agY,Exn2Oznf,T1,CxoyDfFeIbLh9lNxthR9S3T1,A29E1jI1eL14OvRjU1,Fue8N12al,L73,I2U1,B8wy,E131iO1t,C3I2L1,Cbb1Da8uN10ruOr2n,Ajxq,T1,I11vwUjhv,!I2P11ncST1,I131nP16,E12zkH12axI131oK12axT8x7,Oxr1,L1,A1303Y,H1,Id1p,R1,O1,G1,A7C5E1,G12uuS12b7,G12w8K12w8LiNhPdRcSbT2U1,Swjb,Em,E1324I12pr,R1,O1Uxny,S1,N12s1,O1,M1,!L130uN12xjT130b,N1,I1,A1Id1f,E5T1,AeLdN9R1,E4fI132f,G1,N1,E1,L1,A123wD,E1Iti3,C1317G1Nbc5,R11wy,E1,Rsdr,E1,T1,C1,S10dbTr6q,A2G12x3I1M12w2T3xY,T12cj,Vd2y,Izp4LeNbP9R3S2U1,K7y,C1W7z,D1y,R119f,L1,A1,C131oL4V1,Rcp8,O1,Pw3s,A1,R1,G1,O1,E1,K12xmR1S10lh,E11xqI123w,T1,S1,IxrdOd9t,N1,I3O1,!E1322I133kL1325,H1,C1,R1,ArEpIkLiObR5U1,LR10xzT1323,A1E10e8IU133i,Ssic,I1,C1,L12d1M1,U1,C1,!Iks5L132i,L1,I1,!AgnlF10unLdfdNaR4V1,FugxT1323,I1,I93,C133eF1,I1,P1345S1,DIea2My3gR5S1,!E11ljL11f9N12zi,N1Ryyg,!A1Nyk7S,Aggn,B1,Cw4yM1NykaP11q2,Dn4a,Ayk3Gyl5S12yoTyspU1Y11q5,Bom8Txsh,AaE7I4O2U1,S11g3,E1,L1T11qa,E134nId3o,E134oIz6v,C1,R1,Fzqv,L134pN12dz,E134tIw9l,T1,C1,E1,L1Oxqp,A10ibE134yI11z8,Oipr,Icwn,C1,R1,T12e9,B133fT10ii,A1,C1,I1,N1,E7I6OmxeU1,O12fs,I1,S1,S1,S12ej,L10cpN1T9wq,Nwmp,C12stI1,C12enMd9z,A2E12epI1,Uufh,Dy1j,N1,E1,H1,A133zItl5,S1,I1,M1,E5O1,T5f,AiEgLcObR2U1,ByE131jFxI12woMnP1,Nwd6,AxttIjhcR1,E1,Ndax,O1,I1,T1,I1,N12fcReby,A12hfI131x,M1,R1Uug5,Ed6jI4O1Uxtz,No0k,E1,E8ko,R95,E1,U1,NmybUtho,O1,I1,C920,Dxsb,O924,I1,T1,U1,T1,E136qT136m,N1,I1,A1I8l5Ucm3,I5R1,E136vM12g0,M1,CfEeIdOda9T3U1,Ij81Mcsz,L12g4Onzm,P1,M1N12acS12g7,I8le,C12g9D1,Ld1,Sxg8,R1,E1,L4V1,A6IxvhO1,AcE9R1,NoR12gh,E137cItms,C1,N1,Y12gm,E5I2O1,C1iD1dF18G16Jdb0N15Q12SkT7V1,Dctj,K12gqLzh8Pe3fR1,Hifn,G1,I1,R1,Y1,CcmL12gu,O937,B1,E3O1Uynh,K137qR1S7a,G11l3,A1,NctPwzlR1Tzxv,Ae8h,N1R137v,E1,!A3eCynmD3dE3aF39I38L33M24NjOhPcR7SU4V1Y,Ch91T1328Z136k,E135wI12el,T1,Ed9zI12ha,A2D1,Pxw1,P1T11iq,S6mb,D12hgN1386,PebkS2W1,MxybSjfk,Lk4h,A1,T1,S1,AfEbI9O6U5Y1,I133rU12yb,Vci,I1Uxub,T1,B138iE138lI12w8L138iR12vxS12hsTl8e,Mai5,O1,!T1,F11tjL5R4S1T132f,A6pE6aH50I4oL47OqRaT9U1Yphq,Axy1P12hy,A1372E11k9,T1,N1,M4N2m4R1321T12i2U1,Ajcs,Izv5,A12i0E135a,Rdx,E1,H1,D4LpxjP1,Ojo5,P1,M1R12ia,A104fE9I4K12idL8g3O1,A12idNuj5,L12ifNe6,LdkkRef2,E3I2O1,Vb,EdcwI1Uuja,R12gw,Agjx,R1,T1,S1,C5N1,Amw9O1,Ava5E139k,I1Oiqa,Ecpy,!E139nI2rtS,Hbk2T1,Edj1,R1,P1,C4G138rP1R133yT1384,!DzvtS,D1,D137vS138yU123y,E139wI1342U111i,!D11vlG9eS,D1Yxxv,E100aI5O4R3U1,I8e,D139xReyl,P2R1,E139tI12ul,H1,T1,A11ykO1,AubmO131gU1255V124l,O10sk,Rud7Tkej,A8H8nfL4O3R2U1,Pg9a,O1,L1,E1,V1,!E13a6G13acI13aeN138s,Wy4m,A1,E4I13ajO3R1,Ub9k,Hf15L35c,P1,Pqra,AwmgD4M2Sbg9X1,Adx,N1,N133iR13an,Eit5I2OnleU1,Rbf3,A10i1,!D13arE13alI13atN1397,!SU135q,D1,UnfgW12nk,A2O1,AbfgI7L6O5R1,Fgh3SmczVbdw,N1,Is1zP11wqYbcb,E138yG13b0I13b2,E13b1N1P13b1T,A3EkffI1Ywsf,AedxIw8kO124g,A10hv,Rd80,U1,E3O1Ug8k,DNybv,I1NpfpR13a5S13agYbcl,!NsmwS,N1,AxojO13a8,Pd91Wxx8,P8if,C135qVbcc,DgghO10nc,E3I2O1,Ck7s,I1,L1,B1,AdIbLaO9R5U1,NT135y,A1313Pbbs,A2E1Uf4q,Rctq,A13brC1Lbr7Ry03T13brX12l2,Rye7,OqcvRpg9T,EkruI2O1Ryf6,D13ayG1269Z12ur,U13by,Fsnj,!A127eIyb4S,D1,F3N1T122k,O13c5R13a5,Ang3Eec0,A3Eya3O2R1Uuap,P11u6,P1Rk37,A97pCborEfHcIbKwnwLaO126uP12tuT3U1,KvwfX133x,Ubo3,R1,N13bdO12qtW13ca,A4E10drH2O1Rypl,S12lnTrfl,Aba0,T126wY,A12voI125jN13bk,Ee55,D13chL13ch,O1R11y4,A5E4H3I12x5O1Rmbc,!A2wB2pC2eD25E20F1wG1oHca4I1mJy9rL1iM1hN1dPyQbcyRvSeT9U8V7W1,Iouf,EumnR1,V11yf,R1,A12lzI13cr,N1,AtzeE13cv,G2R1,C7E5I1,Nhw,I1,M1R12m7,ChyR1,E1,Oegd,L1,A4n7,E2I1Ojd1,!A13d7B4bC41Dbc6EF3xL3vM3oN3mP3lRjSaT5V1,Si6,O1,N1,Elt,G2L1,!A10zh,Tdop,N1,E1,R1,E1,F1,E13dkI13bu,T1,S1,E1Ndcn,Ngb1,I1M12mw,O101q,L1,Ry32,A1,Lldo,P1,Ay36,R1,U1V4y,Nd45,I1,M1,I1,HaI8L50O5R1Uded,Iik,U1,A6r,CdpiLy2f,O1,Ugbm,G1,N1,Bqj6,A8spI1,Reh6,I4Ows0R2U1,CdGbMaPg4S8T1,Iuof,A16D15E13e8FzGvLqjcMtN13dhPrR86S2V1,Oy0bRddc,Mef3,I13cwK13eiT2U1,!A12ns,C1,I1,T1,S1,E1,A13d2E11q9I13eq,L1390T1,B1,!A13d5CaEywoG102vI12zdM4N13d7T12o1U1,C13ahZ12o3,I1,T1,A1,I129aM1P1397Wnee,E13f1T,M1,A1SwgvW,E13f4Ly2zNcsm,A5E2I1Ubup,N13e7RTzzc,A1L12oeY,Lbe7,Fzng,I1,Bei3EL4P3T1,!E13fcI13faNxrf,A6iE26IvOiR8U2Y1,Rhge,A1,Hdv2,M2N12ooT1,E13feI115tY,A13dtE138w,G129yR3S2T1,Ol1j,L13b1N1,C119cO1,Y138u,B13e0F1T12ow,Cjq,I2U1,B10sd,A13e3E13ftRdet,T1,C1,A4E1,Adg7,R1,R1,Lgdd,L1,Ty1t,T1,A5E3I1,Aq8uE13chM13ev,Y1,O1,H12nrI10m7L1,B5Oxy6P1,A10nu,R1,U1,Melh,H8hL7bO2U1,A10g6D,E1I13cbUjwv,Cie,R1,O1,N1228,E1,T1,H1,G1,A2xI1,Iem4,Idi0,R1,P1,R1,Ifun,S1,U1,E4H1,A13f9E13gzO134n,I1,CnDlFiLcRbT3V1,!E13h2LmqsS,L1,B13crL13fm,A1,C1,O1,PekiV1,A6I1,U1,AjwdO12vtRwyk,Ptsm,A1,B1e,A1,C3Soz8T1,U12qm,D12qpL1,!E139aL13g2N13crT2a,N1,Ly5t,A4E2O1,I12bxPy5i,M1,BvibL,A1,N1,O1,I1,T1,Ly5qP1,Tdkp,E2I1Ujwz,Cjwz,R1,Cy97NuryR13h1,D12r8I12r7R12r8,A53O1,Scxf,S1,E1,Rdlq,E7Iy3zL5Ojx9R2U1,Dmmf,R1,O1,A1,R1,ApCgEeO12wvP6T1,A2uC2rD2nL2iM25N1dQ14R13SyT10onVsX1,LwzoR12lvT11q,L110iScx6Teqt,Iz4y,L1,I1O1367,Ojdz,I1,E104rIkde,H2T1,Mtty,Ey4hO1,H1,AvjcI131e,R1,O1,DyesIfK12s1LeMbN10fjS7T4V1Z12s1,R12s2Sjnu,Ljm,Nzo1,G1,Ls7,I1,MejkT1,A7DE6I4L13i3Mt9N11ulR1Ty71,I12vdL12saM12saTy4u,DtueIggi,!L13hoN13edST124t,L3N2R12sdSwjpT1Xybe,Gx0g,Y139r,O1,B1,Prsu,Terp,G6M3P2S225T1,Dy8oX12sl,Cj8,N1,A4E3I1Ytur,E13jiS12sp,S1,U1,A13hvN,E1,E1T12su,S1,DTjnl,A13i0Iq3z,V1,E3I1O13it,E13jtUdhe,Cooz,T13eu,A1,N1,H4IdizU1,C12t6EbG7K12t6M6T1,Imtl,L1,I1,S1,G13cyNyrc,ClIy80L6qfN13k5R6S2U1,!Dxa5I13k4SZfd7,Uekq,E2Q1,E13k9L124i,D1,N1,E1Vzxi,CyzzZz5u,T55,I1,Aeq9E8I4O3U1,Lpf,L1,I1,F1,D12tsN13j4,L13kjNghz,E13knS12q0,L4N3R2S1,A1vE1nI1jL18OkR9U1,L124z,N1,Av01E13ks,L1,I3L1R76,Obpa,R1,N13gk,A1,!M1,E1Y,E10maL1Rdk1,E6I13kaT1,Md74,N2R1,Chte,I1,M1,F12ueM1Rbpi,Il9fO138x,R1,O1,M1Z12uj,A1O107lU13fk,Rjmh,E1,DqTygdV1W12fq,DF127o,E1I13bc,C10ht,I1,T1,A1,M1,E6f,C7D12uwM2S4dT1,E11ve,NyszP12uy,U1,D10td,A5E4O2U1,Du58,LR1,!Stx7,N5xhS1,D12v6S,!ERT13kz,A1,A6E4I3L1,A19EzIvLqOnR9U1,Eep,N1,K1,L12veR13m4,LyapV12vf,Py80,CepiE13e1L13ktNzra,!Oxmh,!E13mcI2S1Y,D1G13ma,P11co,Eut8,M12vnNworV1,!Cwn0ST1285,CcIbLaM9N5P4R2S114bT1,F129aI11cuY,H1,E13mlT1,L1R13mmT12vt,E13mnF128u,M13mlP1,Luwn,A1O135q,T9m,I1,A7Dyc3EdueL5R3S1W13g6,Dy8lG13h1,N1PR12w2S4hnTz2q,Nkj2,E1,G1,O1,DF129r,E1,!DL12w9S,E1I13n1,S1,L11dfM6NbtbO6l3P4RyavU1,A13gjO11rm,Izsb,R1T,M3N13n8R1Sz2v,Ylbg,L1,O1,R1,I11ab,Hdgq,R11xz,E1,T1,D6G5P4S1,A12ErIpOfUbY1,LjggX13ms,Mioa,L10soR13lg,C106e,A3ElboO2Y1,E13nqL,Fjm,I1,T1,A4N1Odu4,MesfO10ybRy5q,E2I1,A13m7CwleE13hxL1371,A136lOy5c,I1,!E1259Igo1L13mjN13j8S,M1,L3R1,A13k2I6O1Y1395,Ok4c,N1,Auf7,E1G10u2,N1,Ma9S12ih,U1,B12xiC137d,AiozI4L2O1,B13hvTzqj,A1,N1,I1,G1,U12xp,U1n,S12is,IyadS1,Cjjx,A1D12xu,Ea4,Rz6S13hv,E6mOycy,A6E4L3O2R1,AbBaM9P1,Ph3,R1,O1,X12y3,Inc,R1,T1,S1,E5I93dU1,Esa,A12y9E93fU1,Azr9E13p4,M1,R1,E93jL4O1,Idfe,T1,A1,R1,Iu9,B1,Iygl,B1,A3I1,Ilg6,T1,R12b7,E93wI1,Ud4v,R1,L12ysRul,P4T2U1,Ev4yI12qz,G1,EteiI1,L1,D12z0Ty7r,Pncu,U1,EyorR1,G9leL5N4R1,Mdtb,E2I1,L9hi,C1,N113f,E1IvsO8i,C19D13FxGtHoImJms2OddsSgT5U3V1,A13l8E13nzI13q3M13q1T13q1,S1Z130z,!I1S,N1,Rj6w,D13q6L139e,A2O1,Uvfa,A13lz,C1,E13qfI1,N1,Adg7Idu1,O2R1,!E13q9U10mt,X1,E1O13n9S23,A12fbL13p5,D13qjI1Y,G13pnR1,E13qfN13qoV13p1Z13lr,!A2E124vI1RqhkSY,E13piV13pq,L1Rxvl,Lh8l,A1E13qqI13ml,S1,R1,A5E1Oalk,A3dC39D32F2vG2tL2mM26NuOqPnQmRgSdT8V1,E13qzT13qw,N1,I1Ydel,Itu,F1,!I1L13pnN13mc,T1,DyggS1,Av15O6U1,Ei7n,DN1T,Mz6zN1P13qb,!E13j2L12bkN13mj,D1G13mzK13r9,N1Sk6f,Ddht,E1,A130iIyqiL1N13rc,Tz8mW1,Iyn5O1,E9I6N1Odgs,Er0dI13riYqg,Nl1,Bc13C13ltD2I13rmMes5S12dlTz7hU1WcdYyfj,!A13pxE13rnI13rlST,N1,E13rpH13jb,E12m0,D13roR3S2V1,!H13r0Tst,Ez8cI1310,A3DS13rkT2V1,E9nc,Nk6y,E1K1314,E13jpH12ulN13n6,I1Y,!L1N13n8,A13qbE1,BypyInf2,E13s3K13s0,DNu3e,E1,T1,!Eoku,A13qiE12o3I13s6,BeCcK8M7N6S3T2V1,AkofK13s7,S7mk,DL12cl,A13qnE1I13sb,A13jqB131lC4O3V1,K11ip,C1,AvEnI8O3U1Y10yg,H12fq,Ndrj,Ixnw,A133uD,E1,G1,Pdq8,E1246L123o,DR1,E1I13sp,!A5F12fjI4L12d1N1S,DTu43,E1,E13svI12ga,K2R1,Ckm7K13ka,Hxw,C1E13szT1326,CiD13rcGhKujvLgN8PewaR4S3T1,I13szT,Uk3,N2S1,A68,H1,A132cC132b,I1,Dzqh,L10l6O1T132g,Ojtu,Awy3E13tb,N1,O1,I1,D132mT1,Cu9I132mR13rz,Okpm,B1,!A1,AhCfDdEv8uLbMaN5R4S12fjT1W13th,Ij4dL132s,Ddh6E13tmGys9,Kkcm,A1,T1,Aykx,G1,E12zvI1R13nz,!A13s3E13s9I13trT,L9N8S5T2X1,R6z,Fv6qS13tg,E2I1,D13tvEv0rT11c0,Tc05,I1,V1336,I1,D6L5N3O1306R10qdT1UeunVdwwW13ng,Fa9bS13soZym6,Edg5,A16EmIcO3U2Y1,I13lgMw4T8x5,Sb3r,S1,E1,Odg1,V12jp,R113t,W2d3,S1,C6Ev4eG5R4U3W1,X11yq,E1,E7ws,Acnk,U1,H4P3Q1,L1,E13uoIe7,Rd56,I10zpT2U1,AkEbI4O1Uee,Tdq3,C1,E1,B13t6N13tw,A1E13uw,V1,R1,E1T999,Ajw2Rjyq,J7S2T1,Pv7w,U1,C1,!A13tfE13v5,N1,E1Pm4,Gwuu,MevsT13tl,A1,Xrmh,O1,D1,O1,H1,Dyh7G2cI8N6T1,A5vt,T1,N1,E1,T1,Ydow,BmCjF5n3IyjiPgR7S2W12pxX1,DN134uR134v,Akpg,Lc57,Iza,L2S1,Me0a,A1,I1,A4Ddr8EewgL1T1353,Udi8,E1O117y,Su79T1,Ee81Rpty,CzcmG1358IdLcR5S2T1V1358Y13p7,!N12hqST,IykbP119g,E1,M113,R1,EjceO1,D135fS119m,A1,O13u3U1,Uhx,C8F5S2T1,DknvEyk8Gzd1NbOymdR1,Uvf1,K13wcT1,C1L13qnNjivTv9a,C135oI13ltN12qrUk0gY11f,N10jf,A1E13wjI13wh,S1,A1,W135t,GzdbMezf,A7E3I13n7O2U1,EI13va,C135xSwx9T1,E13wrU135x,Adj3I2L1,E13wtT1360,E13bcIkbwL2PzkuS1T1360,Nnjv,E1,D1,E1,Tk6y,C1,I1,Ireq,D1,U1,T136a,I1,D1,E1,Rlxo,Sdyj,E1,S1,S1,A5O1,R139,E13xgU1,S1,D13qoT13nb,N1,E1T13w3,CnDkGdlyJhMdP7S4T1,Pef9,I1,C1Tu8y,C136wM136wN1VbyiZ136w,E1186,E13xrL1,E13xsT11b6,C1,U1,E13xvIdg4,S1,S1,E1Ijwk,M1u,A1E10xl,R1,Iw0P1378,Nhm,U1,O1,P122l,A13whEsp3Ohz7,BhCdyhDeFaG7M6N3P131iS2TrwV1,A16rEoIkO1U12sj,CkugS5c,I1,L1,Kyw9,L12xnT137l,A1,U1,T1,C1Igvw,EG137q,B8C7N2R1Zyqm,A2kE28I25L1xO1rRcU1,Fbf,I1,Tdde,L2N1,A139zE13yqI13ul,N1,O1,I1,T1,Nk63S1,E136t,A8E2I1O13p2,U1,EzfiIgwd,Ike2K1387Ni00T1387V1Z1387,!A13xbI12jbY,S136mT13x2Z140,!I1L13xm,!AvzpE13z4I13uzS,N1,O1,C69D6L4S1,I33,A1,Z122,I1,N1,Iew,T9do,C2S1,G4N1Rv9eVqg,Ck2k,EecvL9O2Y1,E3e,E1Rdzt,L13qyV13ts,Etmf,Rf5g,G7t,I1,I12u0L4O3R1,Ry7d,E1,N1,Sjs,E2I1Udxg,Rkey,A1,E1,Rrhn,O1,F1,N1,T139aX139a,N5a6,V1059,A1398E1G133i,Ck53,A5E4I2U1,K131,R1,I13nl,N1T5ae,Sc9a,R1Vubo,A5Ek2I3O1,I13z9,Aj8kNpiq,AaruE140i,T1,N1,E1S139s,S1,E1,A8E7Oxe9R1,Ueco,Vv27,R1,A13rcI140q,T1,S1,V15t,L1,E191Ojq2,E13s3T140u,N1,I1,A1I9fd,!E1412F12ntOymuR1S,EcI9O7P6T1,Uf6i,O1Ufr,W164,E1S13ae,Ee36I1O9mo,Re8u,A1,A24C1tD1rE1qF1lG1gH1dI19L13MwNz8mPnQmS8T6V3W1,M13ajT5tf,E4w5Y1,A13zoDz01,Tphe,!G12n4H1S,Ezu0,!L1401N1RS140j,!E1P12n7S,D6FypfG4M13arNkgmP1S11jmVytu,!A13x7Ilpr,C1,I1,T1,N1,A1,F141oT141o,G141cN13uj,B13w0L13t2M3O2P13b0U1Vzna,Fypp,E141vI12m5Y,H13b3T13b3,F3L2S1,A2yEnHlIeO5U1,Ercr,B140bRveu,Adsg,A2T13b9V1,C12waIjcv,Ab3rI13bbY13va,F1,S1,E1427I1Ulsv,E1428O13ww,DyueFaI1429L7N6T2V1W8atY11a,L178Ryo2Tx2t,Ly6tOyq6,EdgxO1,F13xq,I1,T1,N1,E1,Mxnm,E12wtW142g,E142kU11ek,T1,P1,Uyma,P1,A7E6I3U1,AgEf3aHeI9R1,Cjy2E142r,Nt8,O1,L142rM142rR3S1T142rW2lj,D13c2I142tMi5N,Ee6g,Mf3gR1,Tya,C1,E1FveiL121,A11ftI16k,!I10zk,S2T1,A9yl,E1435I3ge,I100gV1,!D13puM141xS,E1I13z3,I1437L1,!ST1,!E141rI1439U142jY,AiCn5aEhGfIlriLcN9P8R6T2WyqpX1,DL141wN,E1,E143fP,Esuc,Cyr3D13coK14cM13coP3R2V1,AyrjDL13ur,F13svP12p6,Cdh2DR13wxW1423,Ucj5,A5E4I3O2R1U142n,K12y1,!E143oI143mL12nxS,T1,H1N13cx,F12qiKuf1,C5F13cyG2L13r4N1Z13cz,E143tF10c0,L1,L1,I1,C13d4Nm7a,A10yI1U143w,K13d6Ovaq,Atf9I11baO1,P12poR13va,A1,B13qoL104,A1,I1,Eykl,!E13aaI1,Ceg7D,D2I1V197,C142tSv60,!E12lkL142uN13zj,D1,G13x7N1R13dk,Ai5eB12ysC9Iys9L5N4P8qpR13dkU1W8cy,!A13foI144dS,K1,A142rCE144h,I1,Al0oF1,I1Tdht,A5C1N143m,Itte,L143oR1,Lpn,N13l,A1,M1,S1,T1,I6KzqbR1T13e0,AxgU144t,AfdaEbHv0cI9Ln4mO2R1U13y9,Rdhk,A1,D1,T11ca,BogxCzknI12zbN2R1T13z8Y13e8,IroyY13q4,D1,A1E13wdP12qrRm4,Tz13,Cyt2N1Tzl1,A13ggEy72I1455,!P1S,N13egP1,I12zkP12qxTe4a,Tn79,C1N145b,A3EzjmIm8pU1,F143x,C13juDvi9F1N145e,L1106,AgEdIbO8R4U2Y1,L11vnT13ep,A1,I1,T1,N1,A1,IdibT1,Dh7S1T13z7,!E145gF12rx,S1,S1,E1,C1,Lvip,GK,Vkky,R1,R1aw,O1,E3P1,Ssu,Sz21,I1,A3R1,E144oP1,Pe8s,E1,C14,E1Ic4l,Ak7d,C4P2T1,BoCjI1c9LiNhPcR7S1,TzumY13fl,Tep,AnzqE1P145hRibi,A3E1Onzo,Tj2,E1,Ha31,T1,A1T10vz,M4P1,Ojs,R1,H1,C1,Mrt,E1,T1,M8N4S1,!A4nC46E3kH3aI34K30L2yM2wN2uO2iP20T1fUjWfY1,K146uTduh,A1458E13pr,Gz5mN13g6,C3GywaIf7kK11p2Lf7jM2N1PfaaRtcS13g6U1313X13g7,!A145bE146rI146z,H1,C1,B13xlN13ga,A1D13gcT13gcUysx,A3Cdj4MkxN1S1c3To23,O111k,!A132kI1433S,K1,N1,D1478Tdiu,A1,F11p6,E2I1Ox4r,AatE8I5O131hR1,!L1ceT13gn,L12rqO13v5,E1,D2hE145dL3M1NywtPfatRz3hTyve,Ede0,Ar0aE147l,H1,C1,Anrd,!G5L147pR1412U2W1,Iypn,Mch8,O85,A13gvE147t,T1,A1,F4L1,S1,L13h5Rkn0,E1,C19xDaI132aM9N3V1,DyvyT13h8,A1N12hq,E1483Msox,Dz5iU9og,I1483W2quY,S13zsT1,EzesL146qS1T1ri,A8E6I5O4U1,CznvF13hfN142gR132jTcef,I1488P12it,A1bE15HwIsOmR3U2WpxnY1,Adoo,T1,S1,R1,E1,D1I13hn,A146sE148iU12mj,Ek93,Il4pT1,N4RyxvS3T1,Cdun,Que,I13hvNh61Y141u,C3Lk7N2R1,Ie6b,T1,B177Il1S13hz,I141N2R1Xts,A1474Sekt,C1483I12ke,A7E3I2O1,I148vT13i4,T1bq,N1,A1,I11zcL13e0M13i8N13i8P13i8R1Y,Dz1v,E1,H1T13ib,Lyx0N8R4S1TkgdVfhiX13ic,A147gI10eaY,Hyuy,N13ifR2T1Vg29,!D13ig,D13ihTxqj,ChlhD13iiL,A4D3E2I12usL1P148dT13ii,Oy9j,S1,E1,L1,I13s4O1,Lo6s,E1456,L128,Dw7qNukv,D11zvEdbiH1418,E5F4L3N2S1Tz5k,!T140s,D13iwE149p,L12kp,D1,Ht3s,K28L2NRvmnT1,Nzh2,MoxN7O6R2U1Vzvc,T11ry,T1,AzprEq23I1U149w,AuEnHiIcO4R1,A134a,Lm59,E1,K144aU14a1,E4I2O1,IzpyO134f,!A1bbB18tC11gDutErsFphGo3HmmIj8JizKinLhpMg0NffOejPblQb8R88S3aT1vU1lV1aW7Y2Z1,Rw8cT14a3,A1,I141iRo5xU142wW14a5,I141m,G1125,N1,A3I1,Ig32,E7IpytO6R2U1Y1445,Uzq1,Iz1f,Njov,A133sI141sM143pU1,L14ahV144r,R1,AcmdH6L5O3U1,R13zzT1419,!SV1490,A11t1I13aiY13vr,A3I10wyO2R1,Ime3Oyz9U14ap,Ir6jL1OybbRxwq,To5qZ1450,!A13jwDS,A13jxE1I14at,D1,A1E130rOcez,A5I105O1444R1,P14awV10l1,A1L14b0,Tqep,Dw97S1,Aza3L1V149f,E4I12x8O1Rw8w,Pz4x,A1,FzxiG1367N14b0T,AofqE2I1Ot1a,K11f4,Nxq8R1,A1O134k,Ayz2LhmoUlfl,!C1M1343P10x3S,DR1,I12mfY13y2,L145nN13vzS111fT1,E3I1Rzig,Ixn6T145p,C12xiR14bg,A1,Txtu,H1,G1SwvrV13yn,!I141iS,R1,!A14b5E13ldI14boS,T1,A3O1S14a4Uyzi,AbE9I6O1U12xr,NjpbTz79,OrctT14br,Ir79O1,D14awL1477,A14bwImfaU14bw,R1,!Iqw9S,D1,G1469I14a9N1Rco8T12x7,A1EzrwIv7lOv6tRr79,EyxyL143dP14b5,E1ImfhOwdqU14c3,!Cr7kEcHaI9Oz0cP7T3Urp8W1,E1321OobkUcny,R1,C14c2G12wnL141lM14b8,Ro5iS143vWr7d,A12lwEo5kH3I2O1R10r1Uo53,F141oRzru,Lzsr,L1,A3E1I12dy,!A14bjB21C1uD1qEz82F1oG1iH1cKbkiL18M15O113aPzRnSaT5W1,IM1459U14bk,A14ceCD14bhN13o3S146oT13tdU146o,GomqU14c9,I2O1Y10sl,C148eE4L11zdN1Rsu8S14bkT13tg,Sd1pT149eZ13nf,!EdejI1O1253,N1,!A1I14bpS,Edf8H13ua,!LSzqh,A146fO13dfU149w,I1,A146hN1O13dhU149y,!P13dk,!S1,I3O1,CD14bx,E12bt,T1,A12daI10zeOpz2,A132vR1,E1yqH1I143v,AdD7I6M145wO4T1,!DN13kgR14d1S,E1I1491,U13w6,S1T9,!O1,!SY148y,L1R14bbT1456,E9ol,G1M140bS14bpU14d3,A3EnqrO1,A14cuC6D13z7N1,D12tq,R1,O1R13hm,H1,!I127tS,H1,T1,I1O108h,G11yu,O13lvY1,C7fcT12eg,C8Ds71GfKq53L4P2S1,F13spN14c4,A147jI1,N14cmRex3T145p,A1,C1,EvtmI1,!E14doHpqc,S1,A1fB1bC1aD14dwEwGuIlN13iyO9S7T3U1,B140mG14d0N14a0U149z,!A13pbDF10m9L1308R14dyS,!Erp1I14e1S,R1,E1,B10v4,E14e3Uy3x,A1,!B1S,A4E1,U1,Uyvq,!SU122c,T1,C1,U1,R1,E14cpI13roPt2nY,A140hF2R1,!AjEiHfI14eiN13uwQ9T8U1,Iy1oU14do,NhjvR1,D12xtS1459Tv2aZuvf,EI1,L1,Ay98S145g,I1,P1,L14dsUx84,C1,I1,!AvoqE14dpI14euL14dfMnmcS,R1,E1,!A14evEdIaMnmfO7R4ST1,Ofde,R1,A13h6Igu2O142q,!ER14buS,A1Ixjj,L1,A5E4U1,A14egC13x5O1452,I1,R1,O1,B1r8D1r6Fto5G1r3H1r2I1qyK1qwL1meM1lkN55P2vR1bSrTcV5X1,!E14e5I10xxL12guS,N1,N14fdO1,E14d9I1,NakcT1,!LST14d8,A1E146fIua6,N1,I1,Ljhw,L1,AhvcE14fj,L1U145k,AI14bgO1U13og,!AaC6I4SU1,!A13t4E14frImogS,D1,N1,O1,B1L14edRukc,!EL14eeST14e8,SpnfT13s2,A2I1,!L146aN1,M14e0N148s,O1,T1,AupgO14d7,E145eS,AaI6O3R2U1,Ofal,L1,!E147zG1L14erN14bg,L14g6N1R14g5,E14foI14fp,I14blOwoa,T1,C1,I1,E14gbI1284Y,C1T1428,A14eaC,A14bdI1,Agdr,N1,I1,D1,!E14gnI14glSU1,!DaN8R6ST1,O144eU14fs,!A148kI14chL14f9,Abg4D1N14fqS14fq,Ryn8,Y1,Uthy,C1Y14gr,A13zjE1,!Ix2vO13joS,N149aR1U14f5,Co4e,I1,L1,O1,BlnvTf72,!DL13dnR14h0S,A2E1I14h3T14g5,LRT14fi,A12pmE14h3I113k,L1,A3E5j4I14h7U1,AveiEmGlIjKhLeOcP8S14g9U5V1,R13fb,Oz52S14bj,N14hcR6ueS14gx,!E14g7I1S,B4O3P1,Pzlm,DevtS1,CSx99Z13sb,!I1S,!L1S,K13zk,A2Y1,D13ma,R1,A1,!SU1,A14hnI13lo,L1,I13hmO1446Y,L2SvqgT1,Omjw,O1,Swdt,I1,U1,!AjDeE14fuGaI6M136hNzy7P4Q1ST13bgW14ap,DR14hxT12pb,E14fwH144pI14i0,N142mS1Zuyv,!E3I1O147zSWzn9Y,R1Urjo,Io3eO1,Uxn7,!C12vfS,!Bv4tN12ogTn36,L11ouS,E1414I14e2,CsbmLcoiS1,E3O1,A14htI14i3Y,D14gxG14g4R14ibST1,AyacE14ic,L1M145fR139zU148d,Im6oT131o,AaC6E4F13xgO2S1X,E14hbI14hb,!E14clI14ijY,H1,S1,A14ikI1,!AhI6Lh5xM5N1OzdrS13hyU14hsV140oYsrz,!I109f,!R1T13t7,A1Iqj1U14cy,L1,U1,!Cl6mL13nuS,I7j7,R1,T1,S1,N1,O1,A14e5I14ecO14h9,T1,A1,L1,I1,I14h0O14he,S1,S1,E1,R1,Pxvy,C140xM14hd,O1,Akca,AkwjCfDaMl41P5S4T2V1,L10t3,A1,I14j8U144xY,E14bbT1,!E14bcI1L14i4N14etSY,!A14d9CsErItx2O6S4T1,Aoba,D14inN1,!A14iyI1,C1,!F10urI1ST135fU14jn,Ltvw,I1,V1,E1,!E14ipIopqSY,T1,EN14fu,!E14isF136qI1SY,T1,!D6L4N1S,O10xdS1338,S1,!A1S,Tp1n,!A13d2N1S,C4hDxj2G42H145zI3yK3xL2xM2sN27P21Q20R1iSlTgU6V3W1,Ogf7,T1,AhllE10fb,!E14kbIqa7SY,!J134eN14jcP6xwR1S,E14i7Iv85,BuuvLN14jfR1391T1,S14j7V14ir,A2EI1,T1,!A1397E1Gz5eI14jh,M14a4,E1Iq6x,!E13q6I1453L13pkS,!A14jvE14jfIyprLlsvSUxl1Y,L2N1,AU14hsZ13vh,!I1S,!M8ytR1T14j2,G147rT14kg,E14giU14ey,M147rPwseT14it,EI1,C1D13oyU39n,MR14f3,DE14iq,!E1L13pxSY,R13ebT1,E1,AbD12zoIaL9O6U5V1,I13aq,!EL12b8T1,B142tC14k3,DE14l1R14l1T12kxU142c,!A2E1I7t4O14jdSU14k5,A14bcO1385,B147tT14iz,A1E14khI14kyY,EnsoN3R1S10buT14ic,!A14h9DF10tiS,E1I14la,Nkeg,U1,A12zhN14ccP1Rt4hS14gp,Gqu1MvxbS14brU13o8,G14kgI14kw,F10u3L129kN14lh,L14kiO138hUxeu,A14ewE14laS14caZ14fr,I1Y,U1,Q1,O1,C6L1,Ea7u,LrizM1,A14f3I3O1,!DR14lpStqu,E1Io04O14bp,R1,!AfE14kpIeL148oR4SU1,A1452E14ltO1495,E14luL1,AwDtEpGnIkOjT3U1,!E14m0H137cS,A1,D1,M14hw,A1,A14m1D147xN14d2,I1U14gc,R1,!C10j3N6P4T1,S14czZ14hb,!I1L14ktS,L1Tmtf,A13zpC144aD14m8F1316Ge4bL14lb,S13vzT124f,!A3E12rxI2L1496O1S,Ri3t,C14l8G12syN14mcT149g,E14kbO14a5,R1,A13ttE4I3U1,C14f6,Ev3gI14mjLx62,Ai7oC1488E14gm,I1Y147p,A127lI94i,L1,I1,M1,I1Mzz3T14dj,BwnfST14mi,A1E14mqI14mjY,D10ieE14emF8L14leS3T1,U12ya,I14mcS,Ai2nI14ht,L1,Eb3mI148eU1,O141zU140e,A14gfC2F1Lab3Nb3iS,LqzkT1405,U1,E8I3O1U13zr,Rz2e,A1,L1,L14m8U1,C1LsvwT14ie,S13gr,C1451E14ljS1X14mg,A3I1,N10y1,A14h5O13ad,C1,U1,L13x4,I1,LN14mcT1,!DM13c2R14nhST14nh,CukhF1430NwalO14ka,A3E2I1O14njT14ekU14nd,!ELST14mn,A1,R1,B1X14mv,AumyE14niIbwq,I696O14l3,C2G1,!E4I1SU14nr,A145gE132j,A1pB1jD1eE1dG1cI12J11MsNkOjRgSaT2V1Y,!ELN14mqT14i5,!ER13n8T14fu,A1,L1,A4L14n1U1,C1,L13ojN14mg,I1,!A14nlST1,R1,A14alD14o4N14mk,E2I1,Exj9,A147gE14m5,L1,U1,E14oaIwy4,A14asB2G1N148y,A14npI14o5Y10vv,R6ur,!AydpE119tI3LzpcM13uyR2SU1,Aocg,I1,V1,IjPdScT4U1,!E14odL11gh,H1,Nedn,A14mjI1,R1,Emrs,V1,!C6E3I1O105mST13ai,A147cOw9hU14lz,!L1S,L1N14kt,!AorfE8y5I1T,A536C4qD4pE4nG4hH4fI4cL3yN30R12SdT5X1,!A14inU14j6,C1,I1O14mb,!B13lyD117iL11c1N14lfT1,P14i5,R1,A1,H2aa,L14nkN14p7Oahk,!L14c1R13w6S,E14n4I2O1,H5N14m1P4T1,!I14pcN14g3S12oa,O1Slos,A3I1O143y,E14pbI14ihR1Uiu8,G14ofT14of,LN12voT14og,A1O14fd,!A3I1L14o2S14a6,R1,A14k9N14os,G141wI14ok,!Ak57S14aa,Y1,E3O1,!DGexzL14ciN5R1S,Orag,S1,!S1,I14pjY1,AvywGI14lm,S97p,N2O14fsS1,M14kt,!H13smIyc8L14crO12ifS,M1,A14pxE14prO14fw,!I1SY,R1,Awhu,I5O2R14ldU1,G12vpN14p6,AnEhHdIaO9T2U1,I6tm,Nifu,E1,R1,E1,F1,N1,A10ldO1,Szbp,I1,H25x,Xyg5,Aj2pE1,!C6D4GfkpL12s3P3ST1,!LeO1T14lh,E1I137xU14md,!A14oyDkyeEvfeFfbaIyvtLuavPwp3SY,!DR14qlSW1,Sk0w,!E14qnI14hzL14pa,C14prT1,N1,!A1S,Tdxn,L2N1,Tirk,R14m8T1,E1,!I12imO12syS,R1U14p8,!A14qyEcI6N3O1S,Y13kf,Ezmq,F146jP1,Egny,!E14mgI14qwO14h2SY,N1,Lvpw,L1,E1,!D12hlEG6I4N1ST14ac,I14p6N13kt,!A2E1Itw4Of4eSU14r4,AcE14gpIaL1,!E14ktIvo3S,R10mh,G1,!C134sI1L14rfSnvd,Szye,A1,L1,I3,A14rkI142xR1U3g2,B14q0T13yk,A1T10k8,C1,AlutI1,Sybm,E1,!R1,!E14rwI142wSY,R1,A1,Aw2a,!A14r9D5G2R14q0SY1,!U11ad,E14kiI149uY14d4,C2E14juF1N14s2,!S13rdU13uw,A5nbN14f5,CDzj2,!I1S,!L1,AqBnClDhE9I6O5T4Y1,E14o7I149kO14qh,!B14ewC135kST1,N12gqS14r4,Lifn,L1,E1,C1E14sc,N1,!A7EvajI6O1S,L1Mtjs,N14qwS14s4,!I1O13vcS,R1,E1,I1111O14py,G1L14r7,Azdh,L1M14ljO14snS119w,!A13snI14ojS,N1,A13fjI1U14aj,!E14g5Ir3r,C14goD1L9b5O14qp,!CT14qx,A14suEI1O14su,S1U14iv,!A10y8E13kqO1S,U1,Evf2Io2n,C14gvL1S14s7,AfEdGaI8L14t0OcbvT3U1,!E14t5G14b4I14t3R14phS,R14qm,L13sb,Mt8mT14r8,E14t5I1,!C14raE14ojI14szSY,T1,N1S14mb,E6I14tdM148mS4U1,AxtiE8IozgO1U14t4,!DE14tfI14tdL13yeS,L14ryRtnj,!A1E14thI14tfL14g9S,N1,I14otO14sp,B14rvN14scT1,!A1E14seI14tjO14rsS,B14g7N14tlO4T1V14ry,R12zk,!IyfxL14s7S,L1,A1,!AmCdEcI5O4TcleU1,E14rzI13jl,!ELviyM1,Iz9jOnlxU14sx,L1,L1S14b3,I13rh,A14riClzvL1,C11ghO13pj,A14saC14fmE14sg,I1Y14f3,!E14u2I104lL13fqS,L1,C14u0F3N14t3O1,A14bpE6I1,Au6uL14od,Auz3,R1,E1,L13dwP1,AiEfIdR6T5U1,E14u8I10r8,!C1Ngq5R4hnS,R13ygS,!R1,IddzY14fi,AI14q8O13x8,R1,A1,!E14ukI7xiO14srS,T1,C1,E1,D13y4F8P5S1,AcEaI1,Ey11,Axuv,!A14pnI14u0S14ff,R1,!A14ppI14u2S,E2R1,AilsC5I1O140zS121g,A5uB5iC4qD4aE48G3vK11mrL3iM3hN2oO2eP2aR1tS16TmV8X7Z1,Rxk8,A1,L1,L10q4U1,C147zSt70T14t2Z14q4,!I1L14tmS,O83oV14q3,I1,B5L3T1,N14u8T14sy,A1O14l3,R1,E1,F1,A6E14v2I1O10os,K14udO140fU14t6,Ez90Ipjo,I14trU1,!DF9a3L13hmPm3rR14vcS,E1I14vf,Bi7tN14rh,!A1E14ucI14vhN14qrS,C3D1Lvu7,T14pb,S14ptT14tmZ12xi,EzogI1,L1,I1,N5RT1,!E14vhL10qkS,Ir9iO1,N1,A1,A14mfI1123,N14vvT1,D123c,E1,I1,L1,S1,Y4z7,E1,!G14v3I1482,!A1E14w1IM14j3S,!DSTypx,GOo0o,N1,E3I1,E14w0L14utN14riS14n0,I1Yv9v,R1,A1Elzq,T1,A14isO14ma,U1,T1,E14ucIuda,B14j4MaN5P2T1,AxqhO11fvUuzk,AvCrEtacIpKkLiO14pnPqpwTgU2V1,N14wlV14vl,!R14unSU14wd,!E14vhI2O1SU14vr,C14qeT1,EwcwI1,!E14wrI13yoS,O1,O1,D1,L117oS,A14q8E1I14m1O13ju,C1,E11g9I1,ApcdL13qfT1,E14s9I12pkY,B14vcR1,!A14vcDL14juR14wyS,A2E1I14lzR14sb,DE14x0R14x1S,F14hh,A1,!E3I14x5S1,H1,Sylk,C2S1V1126,DL10ktR14x7,!E1I14xaL14k4S,G11er,!Id39S,R1,U1,A4E1,C26D25E14xeG23I1yLxMsOoRjTfU8W6XY1,O146aU13r2W14xf,O1,!GztuH14xhS,Aw2oE14vgI14xkM14xi,Aw2pE14tkI14xl,A14r1C13wxS2Z1,I1O12q5,N1,A1,A14vlS12obT14vsZ14su,!E14pkI1L14wcS,R1T14wt,A1OU14wy,B14khR14vw,A1,R1,E1,E14xwI5gO14lo,R1,U1,!ELRST14wf,Nqya,I1,G1,A1,V1,A6Iy2oO1,CjGfNbP13hwT8V1,GqL1,Ae5E9dI3fOuRsU1Yyfl,!Bnn7S,!E14yaI12opO14yaSY,K1,E14waN14iz,E14xaI1LxxnY14jj,A14xxL14ye,A1E14xyOnvp,!Ezu7,!A14wvD4EwbzI2d8M2S1Y,!U13sa,!F13leN14tvS1,Muk5,O1,!T1,!DR14ynS1,E1I14ja,!E14ytI101cL1S,!A14c7E14xnI14ysSU14xq,EwfpF2T1,!DL14loR14q9SW10nl,EzjdIwsvLuf8O14ov,!A14cbEivoI14ywS,N1,!E4G3I14yyO1SynzT14us,CnnoI14xzO14ti,!E14xvF13l9I14z0Syo1,!E14z3I14jlSTual,T1,O1,!C1,R107p,!S2W1,!B130rCbvgE14y2I14jrL14l1S,T1,!E14y4I14jtPxtyRy1mS,Ftu0LaN4R14z9S2T1V14py,!I278S,!DF117lL14m6Nz3cR1S,K14zaN14ze,Aum3E2I1,B2f0TqazW13jj,!Sybn,G1,N1,!A4E14yeI1On17SU14kaW13jnYzfw,!B14xmH14ziRy9lS,DT14zjY14hm,P14r1W14r1,Ijaa,A1,R1,!D1,!A7B106vE6Fzt2I102cO5PnuySY1,E14vrI11aeK9L1N11ipR13veTjduY,O14o5U14za,!F1S,Esju,!P1S,M1S14z3,I13lyU1,ByjiE5M13vlP1U14z4,!E14yvI14kkLrqwO14ujS,R1,!E1L14ygS,A14xyL14qrU14xy,E14rxG14x9N1505O14xz,G14xaN1506,ErosI1,!E14z2I1507L14ysN14vhS,N1,!A14doE14z4I1509O1S,!D8Ew8aG7I6L14yvN4ST1Y,N6fi,W11s8,A1,H1,C1,S1,DN1,E1I150i,!E8I104sP1S,L14r8Orr1,!R14ynS14la,DN1R150k,E14vyO103z,!E2I150oR1S14ld,!DM13p8R150nS,E1I150q,S1,U1,O1,!DH1R10btS,E150tI14yq,R1,A1,E14xbOw7g,E14ssL14zkN1161S14wb,C150vRj21,E14nwI1463O1,Owb2,O1,L1,NbktU14dt,!A10pzB2E13mrHj0bI10jxL14zrN14wgO1ST14eaU14lx,G1508T14eb,!A1E1503I1518L13zfOzulSW12f8,!Ax1wE1461I11bvL14o3O14ziSY,T1,G142tN1,DN10d6,G142vN151eO14zm,A3E2I1,!A13v0H14m5L14s3Tyt6,E14t9M150h,!E151jHy8uI1L102dSY,Ooxt,!BzC12jvDvEpFmHlIkK151iLiMdNtrpPbR5S4T2W1Y,BtleTu98,A13ujW1512,A14crO1,DRvq9STu9b,A14m9O12rz,!A5B3Cx80D13ltE2H13j3Iz6wO11kmR1SfioT104zU14mgW13jlY,E14tjL150bS11rr,!I1L146sSY,Ayjx,A133eO150n,!B2DF11a3L1Pu4yRfg0SWp3w,E151cI150wY,!AyuuE2I151wR1S,!Adj9H8P6Sz5fT1,A14j7R1500,DR151xSY1510,!Ay6uB133kC2DiwzE1F11a9I1520Mnx8O11kxTzvcWyg6,H1,E14ygI13v0O5vtU13vs,O10uw,L1OuboUw8m,A12kjE14xg,O2R1,Lz3j,W1,A13ofL101tO1R14ez,E14u3L150vN13nkSyzb,A11tiS13yy,G10j2O152a,E2I151dO1,N13nhR10i2,L14xrN,A2E1,!E151cI14n1N14xrS,F1,O1,O1,OzvyR1,I11ui,!C10xgH13q4I14o3K1Prxy,G13n4,Hz84I1,K152iN,R1,A13mxE13q9Hx74O1,Oysd,!A14g9BsCoDya7E151pFlIkLhMeP9S7T5W2YZ1,R1,G151xP151x,!Byp0DS152v,E1I152y,!A3E14usHxkvL1M14pzS,!AxubCzE5ST1,Hthe,C13y4G1K1531L1531R,N4foS145xT1531,E1I1486,!H10xy,!B134qDF12ttGmc6L2OyxhRwdxS1Y1534,E1IuitY,E10coI13pe,DNR1537S,E13qrI14nuOu42,!B3E2I13okL148cP12h5W1Y,R11pe,A1,O11va,Aoh1E14qa,Aon7Oxni,!Buk8F4G3L2Ss5mW1,B57C55D4zE4xF4pG4kH4jI48K44L3qM3jN38P2zR1zS1lTiUgVbWshmX7Y1,Iyp4Y,!Eyj0F12v7Hyh5I14emL1N14yuS14lk,!D153jST5cj,!E152hI153mL11viS,!E153pI153nL14qhR151pS,N1,O1,HO10pv,Ez31F11c0L5saN14k3S1,!ArwjE1521I1SY14ow,!E153vI153tLwa4SY,L1,A135gE1O151q,Rzyf,A1,O1,AflfO13xp,Fprk,O1,O1,ExytR1,!Ayf7B6C5E1546GpuhIsw8L152pM13snP1SWxo5,R1,E1,H1,!DRibbS,E1I1549,KqLpNoPlRiSfT3V1Z135u,E154dIz9iY,DE153f,E1Opf1,!B3E152nF1L105aStzlWn9q,!E154hI154fN154dS,L1,E152dIwwzY,!D10kjE2G1L13erS,!D13onE14vwLghvN10d3S,!E154mIwx2S11wvY,!E152uIz6zSY,!E154oL1537SY,L1,E152xI1,!DijnK6LN5P4RS14zkT154oV1Wr82,Tymp,Fz4i,E13wmI1,!E153oI10gpL1SY,!A1536E153pI154uM13tdST1,EmvbH1,A13yr,R1,A1,!E14wsI1540L153kN1509O152bSY,!D1S,I12i0,E1,H1,N1,E1,GbM8N14s8R6S1,Et9eI1557,M1,H10m3O1,!A153mE1545I155aL14s4M1542O153jS,R12f6,A1,D13phW13ph,U815,!I150cPyr7,!A3BxphC2D106kE155iHyz0I1081N150qS1Y,G10xo,N1,U1,U1,A1,H1,C1,S1,N1,!E155sI155qSW10e9,DR1,Rzr0,E1,M1,H1,!C1,!A8E6I14qhS1,CpDoFmK14nkLiS10mrT1,G150iN1560,!E1562I1S,Ttvk,E1,!L1,!C10mxD4NrzaST1,I13rp,!G1W155u,Lypb,E1I13rs,E3G1TW155x,!E154jIve6M13z2S,!E156dI156bL154dN1S,R1,!B14z0E1I14qxM13z5SW10lq,K142fS137yT1,A14fjE13s0Iza2,!B13cyH14tiL10klN151qPyzmST1,!A27B23C13zkD1zE1sF1rI1bK155jLjNdP155kR8S3T1,!E155dI10dcO156gSY,K1,A155eN155l,A140bO1,!B1DL14bnM13v5R156kS,E1I14r7,E156qI11haOY,!M1OS,Gbmu,G120t,N1,!A14k8E156vI1M10ghS,F1V155v,L142w,L1,A1,C1,A1,M1,A1,H1,E152eO155x,!IybvOmax,!C3E1220N2S1,!CnLjMhNgP10neRcT1U14rx,A155gN1575,!E1S,L1577T1,Rzvt,R1S156c,A1,R14omU14om,O1,!B3C11ijE156aH1Iva4L14u9M13vyS11ewWh3s,E153fI10jcY,!Dyz8L2N157fP102sZ1,K103tM157hP157h,Ombc,!S1,E1,!A157eC1E122hSmbe,Bs2yS156tT,O156mR152f,!T13uz,N1,U13h0,O1,R1,H1O,N12ajP12qp,Hol0,T1,I1,!AcB156kFbI9OmuqSmbrT5U4V142fW1,E1R13mwV1571,!H142hS13exT10oa,!E156nF1464I14j4L14d3S,AuEmLlNhR3T2W1581Y1,!E122zSl,H1K1063,!A14laD13twS,!DR1585ST10t3,E1I1588,!E11jcI1589L1S,F1,Ezon,L1,A1,!M1S,E156bI158fO155lS157i,C11g1E156y,!E13smI1Y,!BjnlP106gS1,H13gd,!C1Esy1G2mgIwxfN7hoS13fgY,A1309I14dn,DR65gT158k,T10tj,E1,Wupg,R1,O1,E6IzdzL4O1Y,I10opO142j,!Azw8T1,!Cyn1LaP3R13szS1Tp2bW12zi,E10arGzpfN158x,!E157sI1P10e9SWog1Ymba,!E1590IjtjSY14u2,!L2R1S,!E157iI1590T158z,DRywuY158z,!E1I11joSY,!E157yI1087SY,R1,E1,!A157iBo4iDR1594S,E1I14tr,!E159aI1598L1S,H9K7P4T1,A145bE10on,A155cI130zL157d,!ExlxI14twS,!MvasT,A1559Huac,L158wSyt6,A1I14u0O14c6,!B7C1439DF6H14ozL1582N5O11seRS4T3W1Y159f,!S1zW1529,R1,E1,E10bgN14u6S1597,E157vLyfsR1430,!E6H3I2L1437R13g5ST1Y,!BksrE153qI159o,!BkssZ1,C1lD1kF1gG1cL1bM18N16PvRrShT3Z1,I158lN145s,N1,U1,Eowu,!Az1mO10w0,!H2N1556S1,E1IymmL158i,!E124t,O1,!E124vP159zS1,!E14etI15a1L1593S,H151qI1597,F15a2P2S1,A12i6Owj3,!Dz06H13rjM1Soly,!LsxgS,E2I10syL13vlT1,!S2pV144o,E1I159eOb,!ADhE1255LdMaO7P10qiR3S1,!D10usS,A36E29ImO2Uzx3Y1,D14dvRyiiT15ab,N14uzU14v5,!A13v7E2I1SYydh,H159mK1Ozue,!H13xc,!S1,R1,E1I159lL154tY,W1078,Rgal,!P1T,!A3B106iL1599MwhfNxanO11tlRS1,O158kT15an,E1,DR3gc,!E1H14dhI15asS,W1,!SWysj,H1,DcE8G6I14lyO3T1,Dwgf,!SWyts,R1,E1I15a1,L4N1,E14xxIo9xY,!Dz14H14dsL1S,E1I15b4T10o8,E10bvIzgcLygwY,G10rwM15b4,A1,!A1593E156kG3H15a2LmjjMz5nSW1,Iyeb,Ao8x,!E15bdI15bbM15a3N156lS,Bna6R1S15af,I15abL104pO95,F159sN14vz,A13d0I1Y,!C6E4F3Izf3L1N156qSW14e5,DM14n4R15bfT15bf,G14f0,U15bhW15bh,A1,E15a3N3W1,!E15ahI10igL14gnSW10gtY,W1,Rik0,!A1I15bpW108u,!A15a2E9F11jzI5O3P1052SY1,C13z1DbE159nF13y0I10nnL1T15bqY,E153lN1572Sz8t,!I1L1562SY,B10ajP1,Et4tH10spI15bv,A1550Oumk,Rdqa,A14wjL2Rs8sU1,Husq,A145lO105d,A13y7L1,E153vG156lL15anN13xc,M13my,M1,A1,!S15aqTp9k,!DS1,A153uE1I14ws,!I13yf,!E15ccI15caL14z4P14ahS1,W1,I13x4Rz5j,Rxuc,Ru1a,E10s6,!C3HysgO1466T1333U2W1,Hnfn,!Az5gBkCjE15bdFhG11hlHs08IgJdLaMdh4O7P6R1011S2T1U14x9Wj64Y,Lza5R105v,!H142oK14u6O14xb,!DG2L14zfMydhPwgaR15anS1Y,A146cO1467,A15aiR14s5,!P1,!B3D124lE14icI10jjL81sM1418OydsS1T14xfY,C15clW1545,A15b3E15bmI10bvO1,E154lN15ctZ14nn,!B10m8E15boGgI1KutkL15beSTemhY,R1,E1L1574R1337,!C11DeEbG7IzckKnqbL14zqN5O15a8SnqmT1YZ15bx,!DO11vuR15cvS,E1I15cy,W8zo,A1E142w,!R1,I125o,A1,E154qI14i6,O144k,H1,Arxb,A13xdOue0,!D8H6L5M141sP3R15d7ST2W1,A15bmE1I13yjR14dgY,C15c9S15cg,Ryhc,E158oH8bT15db,!A3C2DL10qiN1RS1589W13va,!AB15ceE157hF11loI15dfL1509,!E15diIyxjL14ihSY,DR155v,!A13ucE1F11lrI15diS,!D133uE5H4I15djP3S1557T1,!C12vwEzz5GyqzIzirL14ilW1410Y,H1,Ms9t,E1,G1,A1,!DN1S,!A14xuI15drN150gS,W1,A1E143p,R1,N159tT15cw,!E15crI1S3f,!DR1S,Lxc4,E148lO1,O10tz,O1,!D1GS,E10fyN1,!D3S,T1,U1,Ar2nOw8z,T1,!A15dkDfEcHaI6O3S1Y,E1464I14yuOnvh,S155yY15e9,E1,C14j4E1566L15cyNbqn,E15egI1O15dvY,!A157uCuEpH6I15efL5N3ST1,!DR13veS,E1I15eh,R89k,N15eiS,!A2E1Z14wv,C45D3pE3kF3hG3dK3cL2uM2rN1pP1nR1bS12T6V4Z1,!E15eoSWsvs,D1L15b1,E10gjN11jq,E15aoI1Y,L1,G1358,B2E1,N1505,O1,G1,E1,!B1F110sN15a7Sz3y,!E125uS,Mzgj,A1,!B10ogE15dwF136oH10hgIx91L14k2R1S9cz,T13kr,S1,A1,RhsmS,E1,D15f5F6L3V1,E15d4H1589I15f8,N15faS1Z155x,!E15fcH14hzI1Kmi6L48P108mS,N1,!A15e6E15feI127oSY,!Foj5Kmi9,N1R15eg,A4B3E1Mwws,!E15ebF11npI15fgL13h0M15e8SW11mj,R1,E1R155e,!E156qI15fjO15deS,!D2K10bvN10vtST1,!D15fjE15fjS,N1,I1L13pwO11z0,A15eiOpjnU149e,A3o0H1O149fR12y2Uppv,!E157jH10rwL15ebN15b0W10kx,DN1,NvfvR15fn,R15euT15fr,A2E152pO1,EpocI14xm,E1030,A15fvE157q,!H2I1M144hTvilY,KzhbM15fx,R1,A11zeI13hmO1,!BfCdEbH14ydI5onL8M144lN10p6P7Ryy3S4W1Y,E7er,H1,T1,A1,DN15g5,E10i3K15emL15etN15bi,E2I1Y,!A14a0H143rK14xw,!E6usFz9gG5H13o5Ii29L2M144uP13mtS1W11neY,L15g9R15g9,A1,!H1582,!DdE15faF157uI15ccL4MwxsP1582R2S1Z136r,Hq43,T1,I1,!M1,!A14tzB10pqE15gmI141tL142sMva5P7hvS1Y,L11hz,O1,BqixDyycH1,G15gmS14a1,A15fjO15gkX15fv,A2EnxjO1,L15gmR15cs,A15fqO1,Gw5f,N1,E14dhO15d8,Nuy0T15fx,A1E15ac,E3h0I14a6L14f0,E14adO151q,!H1T152o,EpwzO13yy,!AfBcD1416E15fxFaH9oI8L7M5O11zzP4R10s1S2TsnkU151tW1,I141u,!LdlSV1W12hy,D1,E158zL15h4N15h7S15gs,!E15g2H11s8I1L14m8R13pcSv9lW14jwY,E9qhM15g0Soz9T15h7,!I15h9W1231,I2Y1,!N15haRST15h9,!E15g7F11plI15hcL1546P10xlS,P1,I1,!E15dtI15hfS,E5H2T1,Iitu,H1,!E15hlF144cIux5L143rSW1Y,!H1S,D11EKjLgMeN154aRbS5T1,Dv9o,D13nm,L2N1,E13j3,!E15hsI15hqS12bs,!A34B2zD14v6E2uF1440G15hpK2tL2kM2cN27O1cP15hpR6S15cmT10yyU3V2W1,Ksq5,H14mt,T1,Gnc5,!A10kaP10xxST,Sbv4T10gm,!E15i0F11q7I10ejSY,H1,C8I6N5P4S3T1,!EsqwI15i1SY,H1,K159iT1,!A14vjE15gzF144xI152oS,K1,!C106uS,!E15h2I15i7LyodS,T1,D14lrS,!E1,H1,C1,AaC8N7S5T1,Go7aH15h8,G159uKz1y,E15haO14c6,!B13k1I12atL1SWu7zY,T1,!R15fcS,!A15gwE1H5i9I1534ST130o,C10y9EzhvG7N6S3T1,!Dx1oE1447F11qvHwsgI15imL15h7N15dwS,G1,EH11t6,N2T1U14cu,!E15ajI15iqL15hbNizq,ArEeI6O2U15irY1,Fqop,Nmy,I1,K1,R1,E1,D1,S15htZ15if,!E15isImkuY,S1,DLaN4R3S1Tpe1,O11e6,D1,N1,Cyne,E1N15j8,E15h4I1,!D15j7N15j7S,A5C1455E15j8L2N1T15djVww7,AftEcuH8zI4qO1kRkU9Y1,M14jgN15idP10ykU15j4,AcvcEcpvI13ndO1,H1,T1,N1,E152jI15j8Y,N1,A14btE1R131w,I151bOwu6,H1,BftrD75iG3L10n0N15jkP1T12tb,I9w9O1,EI15jfO157eY,L1,L14kq,A1,H1,I4T1Yrgh,H1,Ic6v,D1,A1,EtpiI15jq,R12u9,E1,H1I15av,GpnhP8R5S4T1X15bq,A12ypI15axO1U15j8,BxitNhR1,N14l3,R1,E1,T1,S1,I1O14oe,H1,!P1S,M15kbN15je,D10b3T13wj,!E15ioI11deSY,H1,P1,A1,R1,ArayOinf,H1,Cui5G3I15koL15kkP1S15jnT1277,A15iiEaI9O1Y15k4,!E15ixIO11peSU15kg,T1,L3S1,A1bEnIfUY1,!E15jnI155cM149bS11s9,T1,H1K15kt,E15j4I15kt,O15c5,Zoq2,!O2R1,Thic,!I1K1119S,L113v,L113wN15l0,!A2E15iyM1046SU1,G15l2K15l3QefsT15dm,C15l0K15l3N15l3,!O1P111fS,G15k8R15ff,A13mtO15l2,!A2Bz7cE15lbI15l9L13mtMypdSyxgW1,L13ux,E1U1,!D3EenaM1N15crR14ew,Moxa,H1M10hy,A15jaH15ik,G1,A1T10jf,!E15kdI15liO15jdS,D15lhL15llP1T15dx,!E15lmI15lkL15ljM158kN10u0PzpkS,!Bwy3CrF146hGqHnI14ejKlL15lnMiNhPfR9S7T4U2W1Y15lj,P26n,E1,L1,!E15lrI15lpL12dlS,I103yO15lqY,!B10uxE13ncL1NubxS,!A10wvTzn7,!HL12dpN4R2S1,C14yyH14st,G113c,!E1437F153iHk3iI114nL72oSTciW6fsY,W1,!E15ktI15lyO1S,DK15lxL1P15de,!N147qST157w,!L15kmR15k3,N1,A1E15fi,M1,B15l7K15m4,Vnst,I1,!D146cNn2hY138c,R1,E1Ry49,!E15m3H4S1070T1,!I15maT15ma,!AkCjE13o6GiHLeNdO9PR8S2T1UmonW15mb,L15ds,!C15ktS,DE,E1I10p2,!E15mgP1S,D15mhR15miT14zn,D15miE6K15mbL15m1N5P2R1,!B145mS,!ExeeH15mkL15daS,!OphuSU128g,!CN14hkS,A15mnE15lqH2I1U128i,B158k,M1,I1,!E159oI14xvS,!DF7r6L1M15hqS,Zk6e,!E2I15mwO1S,Kk9j,!D12ufIyutK15a0,!B10weEyqnI14y1L12evN15i9Sui6,G1K15a2,!NSe4c,!E1299F11vbQs7uS,H1,!N4P15igR3S15liT1,!E15l1I10pqL15ekS,!BlC112uDkGhHeI10fvKaL9MxqsN8R15m7U2W1,B4a5,R1,E1R4a7,T1,A15n9H,A15naC1HK10pb,!ST155d,A15l9E1,Imp9Y,!M1,!O15lcP108fS,A15ldC6G15mkKi8fL4M2P1Rlzb,A1yC1vE16IzLyytOdPy38T9U1W133r,Lof7,G1I15mkJ15mk,A1,C1524Kxr9,I1,D1,A15lzE15lzI15lzR15mr,F1Tprh,Ss0b,T1,A1,B1K10w8R15mw,R4ju,R14it,A1,D1,A15nyN1,A5I1,A13tnD15b4I10pwYsk4Z15n4,A14k9O15o1,E1,T1,A151aE151a,I1,!A3PwvfST1,B15nbE144t,Uddb,Ay79E2F15o9I144vZ1,T7z8,BrC48vDoFmG1153IiMcNbP5R2S1X15njY155zZ156o,T1242U15ec,!O1S,L1T1562,!I15fbS15mhW14r6,A1I15btO15c9,E13o9R1U15oh,Idh8,H1,C1H1568,!O13coS,B15bqI15hs,E1,G1,N15opT1,Kczq,A14q2,D1,N1,AO15ou,V1,T1,I4S1,I148fN15o2,H15ls,T1,A3I1,E13qx,HafeP1,!E15noI15p6ST15os,K15p5O1,!E15o3F11xhI10w2L15c2SY,T1,G158j,AvBsCpDoE15p9IkK15p9LjMcN8O8knP6R4S2T15odU1,I15ocL15b6,L1T144h,E1,U13x0,V1,O1,E15pkI15piU58g,!G1SZ110f,U58i,K1U58j,!A11ckST15p8,N1,O1,!A152tI1S,C14blL1,CF144nN15psT15os,!A15kpE15puI1Kww3OgxhSY,AEIO,N13rwR1,!A1E15oqI10wpSY,Ivq6Y,!C5E12fuFvn9G2K1N15ibS,!L15csPj2rS,!I7xoS,N1,O1,A15kaC1,!I15j7N15q1S,R1,E1,!H1I15q4S,I14fdZ10ow,BuDrGpKnLiNbPaR6T2Z1,!C15pvS,EI15q1Y1,T1,O1,H15nf,T1,!N1R14r7,A13qrC13k6,Tpu7,CS1525,!E14vjF158cI15htS,I1,B1,L15p6R15p7Tv59,!DL15dhR15qlSTxcv,A156bE15qm,L1,A4E3I15qqK15qpU1,N159tO11ir,E121o,E13r3O1,E3L1,Ev11S,A14epO115v,DT15dc,!A15evE1I15qyOs7yS,!A15qaO152gS,Ln16,I1O11sbY15ly,H1Lc8i,Ap2pE15r1I15hx,R1,E13htO1,!P1Txfu,Hmqr,C1,E1I12jlOkmpY,Lwi3,E1,H1,T1,N1,A1,!Cy9lE13l5GmI14zoKlLkMiNhPeSaT7X1,!LiuvS,!L1S,I1,A14mqNlhl,A16D12i5E15F14I13M10NvO5R2S15emU1Wq95Y1586,E145kIso2,H1,C1,C1,Izei,R1,E1,T1,E103fT1,I1,E11r4,Hpc2,P1,O1,P1,Lc8j,Y1,T1,C1,A1,A13pjO153q,E15s5I14zpP14sy,EuqdI15j2,D4I15sbM3S2T1,AaO1,E14i6R14cw,A15q7E15s4I15s4,G2L14pkS1T15bf,A159nE15scO1Uxon,Y14cb,Z1,DlG7M3Z1,A45E37I2aL26OxUtWnY1,A11btBytwCuntDse2EqibFp76Go0jHmf2Ikm0JkcoKjy1Liz5Mgm8New5OdmjPa3aQ9xgR8c6S4svT34nU1daVu9W98X7sY50Z1';
@@ -6,5 +6,10 @@ export {
   scrabble_words,
   scrabble_letters,
   scrabble_words_tiny,
-  scrabble_letters_tiny
+  scrabble_letters_tiny,
+  is_word,
+  words_with_prefix,
+  anagrams_of,
+  words_matching,
+  score_word
 } from './functions';
@@ -35,6 +35,9 @@ let audioplayer: AudioContext;
 // Track if a sound is currently playing
 let isPlaying: boolean;
 
+// The samples behind the waves of baked Sounds, so that they are not sampled again
+const bakedWaves = new WeakMap<Wave, Float32Array>();
+
 // Instantiates new audio context
 function init_audioCtx(): void {
   audioplayer = new window.AudioContext();
@@ -118,10 +121,10 @@ function convertToArrayBuffer(blob: Blob): Promise<ArrayBuffer> {
     .then((response) => response.arrayBuffer());
 }
 
-function save(audioBuffer: AudioBuffer) {
-  const array = audioBuffer.getChannelData(0);
-  const duration = array.length / FS;
-  recorded_sound = make_sound((t) => {
+// Makes a wave that reads from samples taken at FS,
+// linearly interpolating between neighbouring samples
+function samples_to_wave(array: Float32Array): Wave {
+  return (t) => {
     const index = t * FS;
     const lowerIndex = Math.floor(index);
     const upperIndex = lowerIndex + 1;
@@ -129,7 +132,22 @@ function save(audioBuffer: AudioBuffer) {
     const upper = array[upperIndex] ? array[upperIndex] : 0;
     const lower = array[lowerIndex] ? array[lowerIndex] : 0;
     return lower * (1 - ratio) + upper * ratio;
-  }, duration);
+  };
+}
+
+// Returns a function that gives the i-th sample of a wave,
+// reading the samples of baked waves instead of calling them
+function get_sampler(wave: Wave): (i: number) => number {
+  const samples = bakedWaves.get(wave);
+  return samples === undefined
+    ? (i) => wave(i / FS)
+    : (i) => (i < samples.length ? samples[i] : 0);
+}
+
+function save(audioBuffer: AudioBuffer) {
+  const array = audioBuffer.getChannelData(0);
+  const duration = array.length / FS;
+  recorded_sound = make_sound(samples_to_wave(array), duration);
 }
 
 /**
@@ -381,10 +399,10 @@ export function play_in_tab(sound: Sound): Sound {
     let Lprev_value = 0;
     let Rprev_value = 0;
 
-    const left_wave = get_left_wave(sound);
-    const right_wave = get_right_wave(sound);
+    const left_sample = get_sampler(get_left_wave(sound));
+    const right_sample = get_sampler(get_right_wave(sound));
     for (let i = 0; i < len; i += 1) {
-      Ltemp = left_wave(i / FS);
+      Ltemp = left_sample(i);
       // clip amplitude
       if (Ltemp > 1) {
         channel[2 * i] = 1;
@@ -404,7 +422,7 @@ export function play_in_tab(sound: Sound): Sound {
 
       Lprev_value = channel[2 * i];
 
-      Rtemp = right_wave(i / FS);
+      Rtemp = right_sample(i);
       // clip amplitude
       if (Rtemp > 1) {
         channel[2 * i + 1] = 1;
@@ -479,10 +497,10 @@ export function play(sound: Sound): Sound {
     let Lprev_value = 0;
     let Rprev_value = 0;
 
-    const left_wave = get_left_wave(sound);
-    const right_wave = get_right_wave(sound);
+    const left_sample = get_sampler(get_left_wave(sound));
+    const right_sample = get_sampler(get_right_wave(sound));
     for (let i = 0; i < len; i += 1) {
-      Ltemp = left_wave(i / FS);
+      Ltemp = left_sample(i);
       // clip amplitude
       if (Ltemp > 1) {
         channel[2 * i] = 1;
@@ -502,7 +520,7 @@ export function play(sound: Sound): Sound {
 
       Lprev_value = channel[2 * i];
 
-      Rtemp = right_wave(i / FS);
+      Rtemp = right_sample(i);
       // clip amplitude
       if (Rtemp > 1) {
         channel[2 * i + 1] = 1;
@@ -556,6 +574,41 @@ export function stop(): void {
   isPlaying = false;
 }
 
+/**
+ * Samples the given Sound once and returns a Sound with the same
+ * duration whose waves read from the samples, linearly interpolating
+ * between them. Sounds made by combining many Sounds can be slow to play;
+ * baking such a Sound makes later uses of it fast, and playing a baked
+ * Sound does not sample it again.
+ *
+ * @param sound the Sound to be baked
+ * @return the baked Sound
+ * @example const song = bake(consecutively(list(piano(60, 1), piano(64, 1), piano(67, 1))));
+ */
+export function bake(sound: Sound): Sound {
+  if (!is_sound(sound)) {
+    throw new Error(`${bake.name} is expecting sound, but encountered ${sound}`);
+  }
+  const duration = get_duration(sound);
+  const len = Math.ceil(FS * duration);
+
+  function bake_wave(wave: Wave): Wave {
+    const samples = new Float32Array(len);
+    for (let i = 0; i < len; i += 1) {
+      samples[i] = Math.max(-1, Math.min(1, wave(i / FS)));
+    }
+    const baked_wave = samples_to_wave(samples);
+    bakedWaves.set(baked_wave, samples);
+    return baked_wave;
+  }
+
+  // Not made with make_stereo_sound, which would wrap the baked waves
+  return pair(
+    pair(bake_wave(get_left_wave(sound)), bake_wave(get_right_wave(sound))),
+    duration
+  );
+}
+
 // Stereo only functions
 
 /**
@@ -29,6 +29,7 @@ export {
   play_waves,
   play,
   stop,
+  bake,
   // Recording
   init_record,
   record,
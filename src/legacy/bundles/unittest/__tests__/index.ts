@@ -6,12 +6,19 @@ beforeEach(() => {
   testing.testContext.suiteResults = {
     name: '',
     results: [],
+    suites: [],
+    error: '',
     total: 0,
     passed: 0,
+    skipped: 0,
+    runtime: 0,
   };
   testing.testContext.allResults.results = [];
   testing.testContext.runtime = 0;
   testing.testContext.called = false;
+  testing.testContext.currentSuite = null;
+  testing.testContext.suites = [];
+  testing.testContext.focused = false;
 });
 
 test('context is created correctly', () => {
@@ -31,6 +38,135 @@ test('context fails correctly', () => {
   expect(testing.testContext.suiteResults.total).toEqual(1);
 });
 
+test('describe can be called more than once', () => {
+  testing.describe('First', () => testing.it('passes', () => {}));
+  testing.describe('Second', () => testing.it('fails', () => asserts.assert_equals(0, 1)));
+
+  const [first, second] = testing.testContext.allResults.results;
+  expect(first.passed).toEqual(1);
+  expect(second.name).toEqual('Second');
+  expect(second.results[0].status).toEqual('failed');
+  expect(testing.testContext.suiteResults).toBe(second);
+});
+
+test('suites can be nested', () => {
+  testing.describe('Outer', () => {
+    testing.it('outer test', () => {});
+    testing.describe('Inner', () => {
+      testing.it('inner test', () => {});
+      testing.it('failing inner test', () => asserts.assert_equals(0, 1));
+    });
+  });
+
+  const { suiteResults } = testing.testContext;
+  expect(testing.testContext.allResults.results).toHaveLength(1);
+  expect(suiteResults.results.map(({ name }) => name)).toEqual(['outer test']);
+  expect(suiteResults.suites[0].name).toEqual('Inner');
+  expect(suiteResults.suites[0].passed).toEqual(1);
+  expect(suiteResults.total).toEqual(3);
+  expect(suiteResults.passed).toEqual(2);
+});
+
+test('hooks run in order around each test', () => {
+  const calls: string[] = [];
+  testing.describe('Outer', () => {
+    testing.before_all(() => calls.push('before all'));
+    testing.after_all(() => calls.push('after all'));
+    testing.before_each(() => calls.push('outer before'));
+    testing.after_each(() => calls.push('outer after'));
+    testing.describe('Inner', () => {
+      testing.before_each(() => calls.push('inner before'));
+      testing.after_each(() => calls.push('inner after'));
+      testing.it('test', () => calls.push('test'));
+    });
+  });
+
+  expect(calls).toEqual([
+    'before all',
+    'outer before',
+    'inner before',
+    'test',
+    'inner after',
+    'outer after',
+    'after all',
+  ]);
+});
+
+test('failing hooks fail the tests', () => {
+  testing.describe('Each', () => {
+    testing.after_each(() => asserts.assert_equals(0, 1));
+    testing.it('test', () => {});
+  });
+  expect(testing.testContext.suiteResults.results[0].status).toEqual('failed');
+
+  const test = jest.fn();
+  testing.describe('All', () => {
+    testing.before_all(() => asserts.assert_equals(0, 1));
+    testing.it('test', test);
+  });
+  expect(test).not.toHaveBeenCalled();
+  expect(testing.testContext.suiteResults.error).toContain('before_all failed');
+  expect(testing.testContext.suiteResults.results[0].status).toEqual('failed');
+});
+
+test('skipped tests and suites are not run', () => {
+  const test = jest.fn();
+  testing.describe('Suite', () => {
+    testing.it_skip('skipped test', test);
+    testing.describe_skip('skipped suite', () => {
+      testing.it('test', test);
+    });
+    testing.it('test', () => {});
+  });
+
+  const { suiteResults } = testing.testContext;
+  expect(test).not.toHaveBeenCalled();
+  expect(suiteResults.results[0].status).toEqual('skipped');
+  expect(suiteResults.suites[0].results[0].status).toEqual('skipped');
+  expect(suiteResults.skipped).toEqual(2);
+  expect(suiteResults.passed).toEqual(1);
+});
+
+test('only runs the marked tests and suites', () => {
+  const test = jest.fn();
+  const focusedTest = jest.fn();
+  testing.describe('Suite', () => {
+    testing.it('test', test);
+    testing.it_only('focused test', focusedTest);
+    testing.describe_only('focused suite', () => {
+      testing.it('test in focused suite', focusedTest);
+    });
+    testing.describe('other suite', () => {
+      testing.it('test', test);
+    });
+  });
+
+  expect(test).not.toHaveBeenCalled();
+  expect(focusedTest).toHaveBeenCalledTimes(2);
+  expect(testing.testContext.suiteResults.skipped).toEqual(2);
+});
+
+test('only in one top-level suite skips the other top-level suites', () => {
+  const test = jest.fn();
+  const focusedTest = jest.fn();
+  testing.describe('Before', () => testing.it('test', test));
+  testing.describe_only('Focused', () => testing.it('focused test', focusedTest));
+  testing.describe('After', () => testing.it('test', test));
+
+  const [before, focused, after] = testing.testContext.allResults.results;
+  expect(focusedTest).toHaveBeenCalledTimes(1);
+  expect(focused.passed).toEqual(1);
+  expect(before.name).toEqual('Before');
+  expect(before.results[0].status).toEqual('skipped');
+  expect(after.results[0].status).toEqual('skipped');
+  // Suites described before the focused one have already run
+  expect(test).toHaveBeenCalledTimes(1);
+});
+
+test('it must be called inside describe', () => {
+  expect(() => testing.it('test', () => {})).toThrow('inside describe');
+});
+
 test('assert works', () => {
   expect(() => asserts.assert(() => true)).not.toThrow();
   expect(() => asserts.assert(() => false)).toThrow('Assert failed');
@@ -42,6 +178,12 @@ test('assert_equals works', () => {
   expect(() => asserts.assert_equals(1.00000000001, 1)).not.toThrow();
 });
 
+test('assert_equals uses the equals method of values that have one', () => {
+  const value = (n: number) => ({ n, equals: (other: any) => other.n === n });
+  expect(() => asserts.assert_equals(value(1), value(1))).not.toThrow();
+  expect(() => asserts.assert_equals(value(1), value(2))).toThrow('Expected');
+});
+
 test('assert_contains works', () => {
   const list1 = list(1, 2, 3);
   expect(() => asserts.assert_contains(list1, 2)).not.toThrow();
@@ -0,0 +1,74 @@
+import { head, is_list, length, list, tail } from 'js-slang/dist/stdlib/list';
+import { assert_equals } from '../asserts';
+import * as testing from '../functions';
+import * as properties from '../properties';
+
+beforeEach(() => {
+  properties.set_seed(42);
+});
+
+test('for_all passes when the property holds', () => {
+  expect(properties.for_all(properties.gen_int(-10, 10), (x) => x * x >= 0)).toBe(true);
+});
+
+test('generators respect their bounds', () => {
+  const check = (gen, pred) => expect(properties.for_all(gen, pred, 200)).toBe(true);
+  check(properties.gen_int(3, 5), (x) => Number.isInteger(x) && x >= 3 && x <= 5);
+  check(properties.gen_float(-1, 1), (x) => x >= -1 && x < 1);
+  check(properties.gen_string(4), (s) => typeof s === 'string' && s.length <= 4);
+  check(properties.gen_list(properties.gen_int(0, 1), 3), (xs) => is_list(xs) && length(xs) <= 3);
+  check(properties.gen_pair(properties.gen_int(0, 0), properties.gen_string(0)), (p) => head(p) === 0 && tail(p) as unknown === '');
+});
+
+test('the same seed generates the same inputs', () => {
+  const inputs: number[][] = [[], []];
+  inputs.forEach((values) => {
+    properties.set_seed(7);
+    properties.for_all(properties.gen_float(0, 1), (x) => values.push(x) > 0, 10);
+  });
+  expect(inputs[0]).toEqual(inputs[1]);
+  expect(new Set(inputs[0]).size).toEqual(10);
+});
+
+test('failing integers are shrunk to the smallest counterexample', () => {
+  expect(() => properties.for_all(properties.gen_int(-1000, 1000), (x) => x < 17))
+    .toThrow('Smallest counterexample: 17');
+});
+
+test('failing lists are shrunk', () => {
+  const gen = properties.gen_list(properties.gen_int(0, 100), 20);
+  expect(() => properties.for_all(gen, (xs) => length(xs) < 3))
+    .toThrow('Smallest counterexample: [0, [0, [0, null]]]');
+});
+
+test('failing strings are shrunk', () => {
+  expect(() => properties.for_all(properties.gen_string(10), (s) => !s.includes('z')))
+    .toThrow('Smallest counterexample: "z"');
+});
+
+test('errors thrown by the predicate are reported', () => {
+  expect(() => properties.for_all(properties.gen_int(0, 100), (x) => assert_equals(x, x + 1)))
+    .toThrow(/Smallest counterexample: 0: Expected/);
+});
+
+test('failed properties show up as failed tests', () => {
+  testing.describe('Properties', () => {
+    testing.it('lists are empty', () => properties.for_all(
+      properties.gen_list(properties.gen_int(0, 9), 5),
+      (xs) => length(xs) === 0
+    ));
+  });
+
+  const [result] = testing.testContext.suiteResults.results;
+  expect(result.status).toEqual('failed');
+  expect(result.error).toContain('Smallest counterexample: [0, null]');
+});
+
+test('for_all checks its arguments', () => {
+  expect(() => properties.for_all(list(1) as any, () => true))
+    .toThrow('for_all expects a generator');
+  expect(() => properties.for_all(properties.gen_int(0, 1), () => true, 0))
+    .toThrow('positive integer number of runs');
+  expect(() => properties.gen_int(2, 1))
+    .toThrow('gen_int expects integers');
+});
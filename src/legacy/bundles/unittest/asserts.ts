@@ -12,7 +12,8 @@ export function assert(pred: () => boolean) {
 }
 
 /**
- * Asserts the equality (===) of two parameters.
+ * Asserts the equality (===) of two parameters. Values that provide their own
+ * `equals` method, such as Runes, are compared using that method instead.
  * @param expected The expected value.
  * @param received The given value.
  * @returns
@@ -24,6 +25,13 @@ export function assert_equals(expected: any, received: any) {
   if (typeof expected !== typeof received) {
     fail();
   }
+  // values such as Runes define their own structural equality
+  if (typeof expected?.equals === 'function') {
+    if (!expected.equals(received)) {
+      fail();
+    }
+    return;
+  }
   // approx checking for floats
   if (typeof expected === 'number' && !Number.isInteger(expected)) {
     if (Math.abs(expected - received) > 0.001) {
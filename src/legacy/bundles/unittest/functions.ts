@@ -1,8 +1,18 @@
 import context from '../../typings/js-slang/context';
 
-import type { TestContext, TestSuite, Test } from './types';
+import type {
+  TestContext,
+  TestSuite,
+  Test,
+  Hook,
+  TestMode,
+  TestDefinition,
+  SuiteDefinition,
+  SuiteResult,
+  TestResult
+} from './types';
 
-const handleErr = (err: any) => {
+export const handleErr = (err: any) => {
   if (err.error && err.error.message) {
     return (err.error as Error).message;
   }
@@ -12,25 +22,215 @@ const handleErr = (err: any) => {
   throw err;
 };
 
+const emptySuiteResult = (name: string): SuiteResult => ({
+  name,
+  results: [],
+  suites: [],
+  error: '',
+  total: 0,
+  passed: 0,
+  skipped: 0,
+  runtime: 0,
+});
+
+/**
+ * Checks if any test or suite in the given suite is marked `only`.
+ */
+const containsOnly = (suite: SuiteDefinition): boolean => suite.children.some(
+  (child) => child.mode === 'only' || (child.type === 'suite' && containsOnly(child))
+);
+
+/**
+ * Decides which tests of a suite are run:
+ * - `skipped` is true when the suite or one of its ancestors is marked `skip`
+ * - `focused` is true when the top-level suite contains tests or suites marked `only`
+ * - `selected` is true when the suite or one of its ancestors is marked `only`
+ */
+type RunOptions = {
+  skipped: boolean;
+  focused: boolean;
+  selected: boolean;
+  beforeEach: Hook[];
+  afterEach: Hook[];
+};
+
+const shouldRun = (child: SuiteDefinition | TestDefinition, options: RunOptions) => {
+  if (options.skipped || child.mode === 'skip') return false;
+  return !options.focused || options.selected || child.mode === 'only'
+    || (child.type === 'suite' && containsOnly(child));
+};
+
+/**
+ * Records every test in the suite as skipped, or as failed with the given
+ * error if the suite could not be set up.
+ */
+function reportNotRun(suite: SuiteDefinition, error: string): SuiteResult {
+  const suiteResult = emptySuiteResult(suite.name);
+  suite.children.forEach((child) => {
+    if (child.type === 'suite') {
+      const childResult = reportNotRun(child, error);
+      suiteResult.suites.push(childResult);
+      suiteResult.total += childResult.total;
+      suiteResult.skipped += childResult.skipped;
+    } else {
+      suiteResult.results.push({
+        name: child.name,
+        error,
+        status: error ? 'failed' : 'skipped',
+        runtime: 0,
+      });
+      suiteResult.total += 1;
+      if (!error) suiteResult.skipped += 1;
+    }
+  });
+  return suiteResult;
+}
+
+function runTest(test: TestDefinition, options: RunOptions): TestResult {
+  const starttime = performance.now();
+  let error = '';
+
+  try {
+    options.beforeEach.forEach((hook) => hook());
+    test.test();
+  } catch (err: any) {
+    error = handleErr(err);
+  }
+
+  // after_each hooks run even when the test fails, but only the first error is reported
+  options.afterEach.forEach((hook) => {
+    try {
+      hook();
+    } catch (err: any) {
+      const hookError = handleErr(err);
+      if (!error) error = hookError;
+    }
+  });
+
+  return {
+    name: test.name,
+    error,
+    status: error ? 'failed' : 'passed',
+    runtime: performance.now() - starttime,
+  };
+}
+
+function runSuite(suite: SuiteDefinition, options: RunOptions): SuiteResult {
+  const runnable = suite.children.filter((child) => shouldRun(child, options));
+  if (runnable.length === 0) {
+    return reportNotRun(suite, '');
+  }
+
+  const starttime = performance.now();
+  try {
+    suite.beforeAll.forEach((hook) => hook());
+  } catch (err: any) {
+    const error = `before_all failed: ${handleErr(err)}`;
+    return {
+      ...reportNotRun(suite, error),
+      error,
+    };
+  }
+
+  const suiteResult = emptySuiteResult(suite.name);
+  const childOptions: RunOptions = {
+    ...options,
+    beforeEach: [...options.beforeEach, ...suite.beforeEach],
+    afterEach: [...suite.afterEach, ...options.afterEach],
+  };
+
+  suite.children.forEach((child) => {
+    const run = runnable.includes(child);
+    if (child.type === 'suite') {
+      const childResult = run
+        ? runSuite(child, {
+          ...childOptions,
+          selected: options.selected || child.mode === 'only',
+        })
+        : reportNotRun(child, '');
+      suiteResult.suites.push(childResult);
+      suiteResult.total += childResult.total;
+      suiteResult.passed += childResult.passed;
+      suiteResult.skipped += childResult.skipped;
+    } else {
+      const testResult = run
+        ? runTest(child, childOptions)
+        : {
+          name: child.name,
+          error: '',
+          status: 'skipped' as const,
+          runtime: 0,
+        };
+      suiteResult.results.push(testResult);
+      suiteResult.total += 1;
+      if (testResult.status === 'passed') suiteResult.passed += 1;
+      if (testResult.status === 'skipped') suiteResult.skipped += 1;
+    }
+  });
+
+  try {
+    suite.afterAll.forEach((hook) => hook());
+  } catch (err: any) {
+    suiteResult.error = `after_all failed: ${handleErr(err)}`;
+  }
+
+  suiteResult.runtime = performance.now() - starttime;
+  return suiteResult;
+}
+
 export const testContext: TestContext = {
   called: false,
-  describe(msg: string, suite: TestSuite) {
-    if (this.called) {
-      throw new Error(`${describe.name} can only be called once per program!`);
+  describe(msg: string, suite: TestSuite, mode: TestMode = 'normal') {
+    const definition: SuiteDefinition = {
+      type: 'suite',
+      name: msg,
+      mode,
+      children: [],
+      beforeAll: [],
+      afterAll: [],
+      beforeEach: [],
+      afterEach: [],
+    };
+
+    const parent = this.currentSuite;
+    if (parent !== null) {
+      parent.children.push(definition);
+    }
+
+    // Run the body of the suite to collect its tests, hooks and nested suites
+    this.currentSuite = definition;
+    try {
+      suite();
+    } finally {
+      this.currentSuite = parent;
+    }
+
+    // Nested suites are run as part of their top-level suite
+    if (parent !== null) {
+      return this.allResults;
     }
 
     this.called = true;
 
     const starttime = performance.now();
-    this.suiteResults = {
-      name: msg,
-      results: [],
-      total: 0,
-      passed: 0,
-    };
-
-    suite();
+    const focused = containsOnly(definition);
+    if (!this.focused && (mode === 'only' || focused)) {
+      // The earlier suites have already run, but are reported as skipped
+      // so that `only` has the same effect wherever it appears
+      this.focused = true;
+      this.allResults.results = this.suites.map((other) => reportNotRun(other, ''));
+    }
+    this.suites.push(definition);
 
+    this.suiteResults = this.focused && mode !== 'only' && !focused
+      ? reportNotRun(definition, '')
+      : runSuite(definition, {
+        skipped: mode === 'skip',
+        focused,
+        selected: !focused,
+        beforeEach: [],
+        afterEach: [],
+      });
     this.allResults.results.push(this.suiteResults);
 
     const endtime = performance.now();
@@ -38,31 +238,35 @@ export const testContext: TestContext = {
     return this.allResults;
   },
 
-  it(msg: string, test: Test) {
-    const name = `${msg}`;
-    let error = '';
-    this.suiteResults.total += 1;
-
-    try {
-      test();
-      this.suiteResults.passed += 1;
-    } catch (err: any) {
-      error = handleErr(err);
+  it(msg: string, test: Test, mode: TestMode = 'normal') {
+    if (this.currentSuite === null) {
+      throw new Error(`${it.name} can only be called inside ${describe.name}!`);
     }
 
-    this.suiteResults.results.push({
-      name,
-      error,
+    this.currentSuite.children.push({
+      type: 'test',
+      name: `${msg}`,
+      test,
+      mode,
     });
   },
 
-  suiteResults: {
-    name: '',
-    results: [],
-    total: 0,
-    passed: 0,
+  addHook(kind, hook) {
+    if (this.currentSuite === null) {
+      throw new Error(`Hooks can only be added inside ${describe.name}!`);
+    }
+
+    this.currentSuite[kind].push(hook);
   },
 
+  currentSuite: null,
+
+  suites: [],
+
+  focused: false,
+
+  suiteResults: emptySuiteResult(''),
+
   allResults: {
     results: [],
     toReplString: () =>
@@ -84,10 +288,88 @@ export function it(msg: string, func: Test) {
 }
 
 /**
- * Describes a test suite.
+ * Defines a single test that is not run.
+ * @param str Description for this test.
+ * @param func Function containing tests.
+ */
+export function it_skip(msg: string, func: Test) {
+  testContext.it(msg, func, 'skip');
+}
+
+/**
+ * Defines a single test. If a suite contains tests or suites defined with
+ * `it_only` or `describe_only`, only those are run. Top-level suites that
+ * contain none of them are reported as skipped, even if they were described
+ * first.
+ * @param str Description for this test.
+ * @param func Function containing tests.
+ */
+export function it_only(msg: string, func: Test) {
+  testContext.it(msg, func, 'only');
+}
+
+/**
+ * Describes a test suite. Suites can be nested, and a program can describe
+ * several suites.
  * @param str Description for this test.
  * @param func Function containing tests.
  */
 export function describe(msg: string, func: TestSuite) {
   return testContext.describe(msg, func);
 }
+
+/**
+ * Describes a test suite whose tests are not run.
+ * @param str Description for this test.
+ * @param func Function containing tests.
+ */
+export function describe_skip(msg: string, func: TestSuite) {
+  return testContext.describe(msg, func, 'skip');
+}
+
+/**
+ * Describes a test suite. If a suite contains tests or suites defined with
+ * `it_only` or `describe_only`, only those are run. Top-level suites that
+ * contain none of them are reported as skipped, even if they were described
+ * first.
+ * @param str Description for this test.
+ * @param func Function containing tests.
+ */
+export function describe_only(msg: string, func: TestSuite) {
+  return testContext.describe(msg, func, 'only');
+}
+
+/**
+ * Registers a function to be run before each test in the current suite,
+ * including the tests of nested suites.
+ * @param func Function to run.
+ */
+export function before_each(func: Hook) {
+  testContext.addHook('beforeEach', func);
+}
+
+/**
+ * Registers a function to be run after each test in the current suite,
+ * including the tests of nested suites. It is run even if the test fails.
+ * @param func Function to run.
+ */
+export function after_each(func: Hook) {
+  testContext.addHook('afterEach', func);
+}
+
+/**
+ * Registers a function to be run once before the tests in the current suite.
+ * If it fails, the tests in the suite are not run.
+ * @param func Function to run.
+ */
+export function before_all(func: Hook) {
+  testContext.addHook('beforeAll', func);
+}
+
+/**
+ * Registers a function to be run once after the tests in the current suite.
+ * @param func Function to run.
+ */
+export function after_all(func: Hook) {
+  testContext.addHook('afterAll', func);
+}
@@ -11,8 +11,28 @@ import {
   assert_greater_equals,
   assert_length,
 } from './asserts';
-import { it, describe } from './functions';
+import {
+  it,
+  it_only,
+  it_skip,
+  describe,
+  describe_only,
+  describe_skip,
+  before_each,
+  after_each,
+  before_all,
+  after_all,
+} from './functions';
 import { mock_fn } from './mocks';
+import {
+  for_all,
+  gen_float,
+  gen_int,
+  gen_list,
+  gen_pair,
+  gen_string,
+  set_seed,
+} from './properties';
 /**
  * Increment a number by a value of 1.
  * @param x the number to be incremented
@@ -25,7 +45,15 @@ function sample_function(x: number) {
 export default {
   sample_function,
   it,
+  it_only,
+  it_skip,
   describe,
+  describe_only,
+  describe_skip,
+  before_each,
+  after_each,
+  before_all,
+  after_all,
   assert_equals,
   assert_not_equals,
   assert_contains,
@@ -33,4 +61,11 @@ export default {
   assert_greater_equals,
   assert_length,
   mock_fn,
+  for_all,
+  gen_float,
+  gen_int,
+  gen_list,
+  gen_pair,
+  gen_string,
+  set_seed,
 };
@@ -0,0 +1,294 @@
+import { head, is_pair, list_to_vector, pair, tail, vector_to_list, type Pair } from 'js-slang/dist/stdlib/list';
+import { stringify } from 'js-slang/dist/utils/stringify';
+import { handleErr } from './functions';
+import type { Generator } from './types';
+
+// The largest number of smaller inputs tried while shrinking a counterexample
+const MAX_SHRINKS = 1000;
+
+// Seed used by every call to for_all, or null to pick a new seed for each call
+let seed: number | null = null;
+
+/**
+ * Mulberry32, a small and fast PRNG with a 32-bit state.
+ * @param state The seed of the PRNG.
+ * @returns A function returning numbers in [0, 1).
+ */
+function mulberry32(state: number) {
+  let a = state >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const makeGenerator = <T>(
+  generate: Generator<T>['generate'],
+  shrink: Generator<T>['shrink']
+): Generator<T> => ({
+  generate,
+  shrink,
+  toReplString: () => '<Generator>',
+});
+
+const isGenerator = (value: any): value is Generator => typeof value?.generate === 'function'
+  && typeof value?.shrink === 'function';
+
+const throwIfNotGenerator = (name: string, value: any) => {
+  if (!isGenerator(value)) {
+    throw new Error(`${name} expects a generator, got \`${stringify(value)}\`.`);
+  }
+};
+
+const throwIfNotRange = (name: string, min: any, max: any, integers: boolean) => {
+  const isValid = (n: any) => typeof n === 'number' && (integers ? Number.isInteger(n) : Number.isFinite(n));
+  if (!isValid(min) || !isValid(max) || min > max) {
+    throw new Error(`${name} expects ${integers ? 'integers' : 'numbers'} \`min\` and \`max\` with min <= max.`);
+  }
+};
+
+/**
+ * The number in [min, max] closest to 0, which inputs are shrunk towards.
+ */
+const shrinkTarget = (min: number, max: number) => Math.min(Math.max(0, min), max);
+
+/**
+ * Integers between the target and the value, starting with the target and
+ * halving the distance to the value each time.
+ */
+function shrinkInteger(value: number, target: number): number[] {
+  const candidates: number[] = [];
+  let diff = value - target;
+  while (diff !== 0) {
+    candidates.push(value - diff);
+    diff = Math.trunc(diff / 2);
+  }
+  return candidates;
+}
+
+function shrinkFloat(value: number, min: number, max: number): number[] {
+  const target = shrinkTarget(min, max);
+  if (value === target) {
+    return [];
+  }
+
+  const candidates = [target];
+  const truncated = Math.trunc(value);
+  if (truncated !== value && truncated >= min && truncated <= max) {
+    candidates.push(truncated);
+  }
+  let diff = (value - target) / 2;
+  for (let i = 0; i < 16 && value - diff !== value; i += 1) {
+    candidates.push(value - diff);
+    diff /= 2;
+  }
+  return candidates;
+}
+
+/**
+ * Shorter arrays with chunks of elements removed, largest chunks first,
+ * followed by arrays with a single element shrunk.
+ */
+function shrinkArray<T>(values: T[], shrinkElement: (value: T) => T[]): T[][] {
+  const candidates: T[][] = [];
+  for (let chunk = values.length; chunk > 0; chunk = Math.floor(chunk / 2)) {
+    for (let start = 0; start + chunk <= values.length; start += chunk) {
+      candidates.push([...values.slice(0, start), ...values.slice(start + chunk)]);
+    }
+  }
+  values.forEach((value, i) => {
+    shrinkElement(value)
+      .forEach((smaller) => {
+        candidates.push([...values.slice(0, i), smaller, ...values.slice(i + 1)]);
+      });
+  });
+  return candidates;
+}
+
+/**
+ * Checks the predicate on a single input.
+ * @returns null if the property holds, or the reason it does not.
+ */
+function check(predicate: (value: any) => boolean | void, value: any): string | null {
+  try {
+    return predicate(value) === false ? '' : null;
+  } catch (err: any) {
+    return `: ${handleErr(err)}`;
+  }
+}
+
+/**
+ * Repeatedly replaces the failing input with the first smaller input that also
+ * fails, until no smaller input fails.
+ */
+function shrinkFailure(generator: Generator, predicate: (value: any) => boolean | void, value: any, reason: string) {
+  let smallest = value;
+  let smallestReason = reason;
+  let attempts = 0;
+  let shrunk = true;
+
+  while (shrunk && attempts < MAX_SHRINKS) {
+    shrunk = false;
+    for (const candidate of generator.shrink(smallest)) {
+      attempts += 1;
+      const candidateReason = check(predicate, candidate);
+      if (candidateReason !== null) {
+        smallest = candidate;
+        smallestReason = candidateReason;
+        shrunk = true;
+        break;
+      }
+      if (attempts >= MAX_SHRINKS) break;
+    }
+  }
+
+  return [smallest, smallestReason] as const;
+}
+
+/**
+ * Sets the seed used to generate inputs in every following call to `for_all`,
+ * so that failing runs can be reproduced.
+ * @param new_seed An integer.
+ */
+export function set_seed(new_seed: number) {
+  if (!Number.isInteger(new_seed)) {
+    throw new Error(`${set_seed.name} expects an integer, got \`${stringify(new_seed)}\`.`);
+  }
+  seed = new_seed;
+}
+
+/**
+ * Creates a generator of integers in [min, max]. Failing integers are shrunk
+ * towards 0.
+ * @param min The smallest integer generated.
+ * @param max The largest integer generated.
+ * @returns The generator.
+ */
+export function gen_int(min: number, max: number): Generator<number> {
+  throwIfNotRange(gen_int.name, min, max, true);
+  return makeGenerator(
+    (random) => min + Math.floor(random() * (max - min + 1)),
+    (value) => shrinkInteger(value, shrinkTarget(min, max))
+  );
+}
+
+/**
+ * Creates a generator of numbers in [min, max). Failing numbers are shrunk
+ * towards 0.
+ * @param min The smallest number generated.
+ * @param max The upper bound of the numbers generated.
+ * @returns The generator.
+ */
+export function gen_float(min: number, max: number): Generator<number> {
+  throwIfNotRange(gen_float.name, min, max, false);
+  return makeGenerator(
+    (random) => min + random() * (max - min),
+    (value) => shrinkFloat(value, min, max)
+  );
+}
+
+/**
+ * Creates a generator of strings of printable ASCII characters, with at most
+ * `max_length` characters. Failing strings are shrunk by removing characters
+ * and by replacing characters with `a`.
+ * @param max_length The largest length of the strings generated.
+ * @returns The generator.
+ */
+export function gen_string(max_length: number): Generator<string> {
+  throwIfNotRange(gen_string.name, 0, max_length, true);
+  const char = gen_int(32, 126);
+  return makeGenerator(
+    (random) => {
+      const length = Math.floor(random() * (max_length + 1));
+      return String.fromCharCode(...Array.from({ length }, () => char.generate(random)));
+    },
+    (value) => shrinkArray(
+      Array.from(value, (c) => c.charCodeAt(0)),
+      (code) => shrinkInteger(code, 97)
+    )
+      .map((codes) => String.fromCharCode(...codes))
+  );
+}
+
+/**
+ * Creates a generator of lists with at most `max_length` elements, each
+ * produced by the given generator. Failing lists are shrunk by removing
+ * elements and by shrinking the elements.
+ * @param generator The generator of the elements.
+ * @param max_length The largest length of the lists generated.
+ * @returns The generator.
+ */
+export function gen_list(generator: Generator, max_length: number): Generator {
+  throwIfNotGenerator(gen_list.name, generator);
+  throwIfNotRange(gen_list.name, 0, max_length, true);
+  return makeGenerator(
+    (random) => {
+      const length = Math.floor(random() * (max_length + 1));
+      return vector_to_list(Array.from({ length }, () => generator.generate(random)));
+    },
+    (value) => shrinkArray(list_to_vector(value), generator.shrink)
+      .map(vector_to_list)
+  );
+}
+
+/**
+ * Creates a generator of pairs, whose head and tail are produced by the given
+ * generators. Failing pairs are shrunk by shrinking the head, then the tail.
+ * @param head_generator The generator of the heads.
+ * @param tail_generator The generator of the tails.
+ * @returns The generator.
+ */
+export function gen_pair(head_generator: Generator, tail_generator: Generator): Generator<Pair<any, any>> {
+  throwIfNotGenerator(gen_pair.name, head_generator);
+  throwIfNotGenerator(gen_pair.name, tail_generator);
+  return makeGenerator(
+    (random) => pair(head_generator.generate(random), tail_generator.generate(random)),
+    (value) => (is_pair(value)
+      ? [
+        ...head_generator.shrink(head(value))
+          .map((h) => pair(h, tail(value))),
+        ...tail_generator.shrink(tail(value))
+          .map((t) => pair(head(value), t)),
+      ]
+      : [])
+  );
+}
+
+/**
+ * Checks that the predicate holds for `runs` inputs produced by the generator.
+ * The property fails if the predicate returns false or throws an error, for
+ * example from a failed assertion. The failing input is then shrunk, and the
+ * smallest input found to fail is reported in the error thrown, so that a
+ * failing `for_all` in `it` shows the counterexample in the test results.
+ * @param generator The generator of the inputs.
+ * @param predicate A function taking an input and returning true/false.
+ * @param runs The number of inputs to check, 100 by default.
+ * @returns true if the property holds for every input.
+ */
+export function for_all(generator: Generator, predicate: (value: any) => boolean | void, runs: number = 100) {
+  throwIfNotGenerator(for_all.name, generator);
+  if (typeof predicate !== 'function') {
+    throw new Error(`${for_all.name} expects a predicate function, got \`${stringify(predicate)}\`.`);
+  }
+  if (!Number.isInteger(runs) || runs < 1) {
+    throw new Error(`${for_all.name} expects a positive integer number of runs, got \`${stringify(runs)}\`.`);
+  }
+
+  const runSeed = seed ?? Math.floor(Math.random() * 2 ** 32);
+  const random = mulberry32(runSeed);
+  for (let run = 1; run <= runs; run += 1) {
+    const value = generator.generate(random);
+    const reason = check(predicate, value);
+    if (reason !== null) {
+      const [smallest, smallestReason] = shrinkFailure(generator, predicate, value, reason);
+      throw new Error(
+        `Property failed after ${run} ${run === 1 ? 'run' : 'runs'} (seed ${runSeed}). `
+        + `Smallest counterexample: ${stringify(smallest)}${smallestReason}`
+      );
+    }
+  }
+  return true;
+}
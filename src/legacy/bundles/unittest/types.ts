@@ -4,27 +4,77 @@ export type ErrorLogger = (
 ) => void;
 export type Test = () => void;
 export type TestSuite = () => void;
+export type Hook = () => void;
+/**
+ * Tests and suites marked `skip` are not run, and when any test or suite in a
+ * program is marked `only`, just those tests and suites are run.
+ */
+export type TestMode = 'normal' | 'only' | 'skip';
+export type TestDefinition = {
+  type: 'test';
+  name: string;
+  test: Test;
+  mode: TestMode;
+};
+export type SuiteDefinition = {
+  type: 'suite';
+  name: string;
+  mode: TestMode;
+  // tests and nested suites, in the order they were defined
+  children: (SuiteDefinition | TestDefinition)[];
+  beforeAll: Hook[];
+  afterAll: Hook[];
+  beforeEach: Hook[];
+  afterEach: Hook[];
+};
 export type TestContext = {
   called: boolean;
-  describe: (msg: string, tests: TestSuite) => Results;
-  it: (msg: string, test: Test) => void;
-  // This holds the result of a single suite and is cleared on every run
+  describe: (msg: string, tests: TestSuite, mode?: TestMode) => Results;
+  it: (msg: string, test: Test, mode?: TestMode) => void;
+  addHook: (kind: 'afterAll' | 'afterEach' | 'beforeAll' | 'beforeEach', hook: Hook) => void;
+  // The suite whose body is currently being run to collect its tests
+  currentSuite: SuiteDefinition | null;
+  // Every top-level suite described so far
+  suites: SuiteDefinition[];
+  // Whether a top-level suite is marked `only` or contains tests or suites marked `only`
+  focused: boolean;
+  // This holds the result of the latest top-level suite
   suiteResults: SuiteResult;
-  // This holds the results of the entire suite
+  // This holds the results of every top-level suite
   allResults: Results;
   runtime: number;
 };
+export type TestStatus = 'failed' | 'passed' | 'skipped';
 export type TestResult = {
   name: string;
   error: string;
+  status: TestStatus;
+  // Time taken by the test and its before_each and after_each hooks, in ms
+  runtime: number;
 };
 export type SuiteResult = {
   name: string;
   results: TestResult[];
+  suites: SuiteResult[];
+  // Error thrown by a before_all or after_all hook of this suite
+  error: string;
+  // Counts include the tests of nested suites
   total: number;
   passed: number;
+  skipped: number;
+  runtime: number;
 };
 export type Results = {
   results: SuiteResult[];
   toReplString: () => string;
 };
+/**
+ * Produces random values for property-based tests, and smaller variants of a
+ * value for shrinking failing inputs.
+ */
+export type Generator<T = any> = {
+  generate: (random: () => number) => T;
+  // Smaller values to try in place of the given value, simplest first
+  shrink: (value: T) => T[];
+  toReplString: () => string;
+};
@@ -0,0 +1,105 @@
+import { GifEncoder, saveInBackground } from '../animationExport';
+import { quantize, writeLzw } from '../animationExport/gif';
+import { ByteWriter } from '../byteWriter';
+
+/**
+ * Reads back the sub-blocks written by writeLzw and decodes them.
+ */
+function decodeLzw(data: Uint8Array): number[] {
+  const minCodeSize = data[0];
+  const bytes: number[] = [];
+  let offset = 1;
+  while (data[offset] !== 0) {
+    bytes.push(...data.subarray(offset + 1, offset + 1 + data[offset]));
+    offset += data[offset] + 1;
+  }
+
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let table: number[][] = [];
+  let codeSize = minCodeSize + 1;
+  let previous: number[] | null = null;
+  const output: number[] = [];
+  let position = 0;
+  const readCode = () => {
+    let code = 0;
+    for (let i = 0; i < codeSize; i += 1, position += 1) {
+      code |= ((bytes[position >> 3] >> (position & 7)) & 1) << i;
+    }
+    return code;
+  };
+
+  for (;;) {
+    const code = readCode();
+    if (code === clearCode) {
+      table = Array.from({ length: endCode + 1 }, (_, i) => [i]);
+      codeSize = minCodeSize + 1;
+      previous = null;
+    } else if (code === endCode) {
+      return output;
+    } else {
+      const entry: number[] = code < table.length ? table[code] : [...previous!, previous![0]];
+      output.push(...entry);
+      if (previous !== null) {
+        table.push([...previous, entry[0]]);
+      }
+      if (table.length === 1 << codeSize && codeSize < 12) codeSize += 1;
+      previous = entry;
+    }
+  }
+}
+
+describe('writeLzw', () => {
+  test.each([
+    ['a single pixel', [7]],
+    ['repeated pixels', new Array(5000).fill(3)],
+    ['enough codes to fill the table', Array.from({ length: 40000 }, (_, i) => (i * 7919) % 251)]
+  ])('round trips %s', (_, indices) => {
+    const writer = new ByteWriter();
+    writeLzw(new Uint8Array(indices), writer);
+    expect(decodeLzw(writer.toBytes())).toEqual(indices);
+  });
+});
+
+describe('quantize', () => {
+  test('keeps images with few colours exact', () => {
+    const pixels = [255, 0, 0, 255, 0, 0, 255, 255, 255, 0, 0, 255];
+    const { palette, indices } = quantize(pixels);
+    const colors = Array.from(indices, (i) => Array.from(palette.subarray(i * 3, i * 3 + 3)));
+    expect(colors).toEqual([[255, 0, 0], [0, 0, 255], [255, 0, 0]]);
+  });
+
+  test('draws transparent pixels over white', () => {
+    const { palette, indices } = quantize([0, 0, 0, 0]);
+    expect(Array.from(palette.subarray(indices[0] * 3, indices[0] * 3 + 3))).toEqual([255, 255, 255]);
+  });
+});
+
+describe('GifEncoder', () => {
+  test('writes one image per frame', () => {
+    const encoder = new GifEncoder(2, 1);
+    encoder.addFrame([0, 0, 0, 255, 255, 255, 255, 255], 10);
+    encoder.addFrame([255, 255, 255, 255, 0, 0, 0, 255], 10);
+    const gif = encoder.finish();
+
+    expect(String.fromCharCode(...gif.subarray(0, 6))).toEqual('GIF89a');
+    expect([gif[6], gif[7], gif[8], gif[9]]).toEqual([2, 0, 1, 0]);
+    expect(gif[gif.length - 1]).toEqual(0x3b);
+  });
+
+  test('rejects frames of the wrong size', () => {
+    const encoder = new GifEncoder(2, 2);
+    expect(() => encoder.addFrame([0, 0, 0, 255], 10))
+      .toThrow('Expected 16 bytes of pixels, got 4');
+  });
+});
+
+test('saveInBackground logs failed saves', async () => {
+  const error = jest.spyOn(console, 'error')
+    .mockImplementation(jest.fn());
+  saveInBackground(Promise.reject(new Error('Disk full')), 'save_rune_svg');
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  expect(error)
+    .toHaveBeenCalledWith('save_rune_svg was unable to save the file: Disk full');
+  error.mockRestore();
+});
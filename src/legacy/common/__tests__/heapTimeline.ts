@@ -0,0 +1,145 @@
+import {
+  assignCommand,
+  HeapTimeline,
+  popCommand,
+  pushCommand,
+  validateTimeline,
+  type HeapCommand,
+  type TimelineRules
+} from '../heapTimeline';
+
+const rules: TimelineRules = {
+  types: ['Initialize Memory', 'New', 'Start', 'Mark', 'End'],
+  initType: 'Initialize Memory',
+  phases: [{
+    start: ['Start'],
+    end: ['End'],
+    inner: ['Mark']
+  }]
+};
+
+function command(type: string, left = -1, sizeLeft = 0): HeapCommand {
+  return {
+    type,
+    heap: [],
+    left,
+    right: -1,
+    sizeLeft,
+    sizeRight: 0,
+    desc: '',
+    leftDesc: '',
+    rightDesc: ''
+  };
+}
+
+function timelineOf(...types: string[]) {
+  const timeline = new HeapTimeline({ TAG_SLOT: 0, SIZE_SLOT: 1 }, ['flips']);
+  timeline.initialize(64, 4);
+  types.forEach((type) => timeline.record(command(type)));
+  return timeline;
+}
+
+describe('HeapTimeline', () => {
+  test('trims memory to a whole number of nodes', () => {
+    const timeline = new HeapTimeline({});
+    timeline.initialize(70, 4);
+    expect(timeline.memorySize).toEqual(68);
+    expect(timeline.regions).toEqual([{ title: 'Memory', start: 0, end: 68 }]);
+  });
+
+  test('copies the heap of each recorded command', () => {
+    const timeline = timelineOf();
+    const heap = [1, 2, 3];
+    timeline.record({ ...command('New'), heap });
+    heap[0] = 9;
+    expect(timeline.commands[0].heap).toEqual([1, 2, 3]);
+  });
+
+  test('marks the most recent command', () => {
+    const timeline = timelineOf('Initialize Memory', 'Start');
+    timeline.mark('flips');
+    expect(timeline.toData().markers.flips).toEqual([1]);
+  });
+
+  test('only moves slots with non negative offsets', () => {
+    const timeline = timelineOf();
+    timeline.updateSlots({ TAG_SLOT: -1, SIZE_SLOT: 3 });
+    expect(timeline.getSlotList()).toEqual([0, 3]);
+  });
+
+  test('lays out memory in rows of the column size', () => {
+    const timeline = timelineOf();
+    const matrix = timeline.getMatrix(16, 64);
+    expect(matrix.length).toEqual(2);
+    expect(matrix[0][0]).toEqual(16);
+    expect(matrix[1][15]).toEqual(63);
+  });
+});
+
+describe('command builders', () => {
+  test('highlight the words of the operand stack they change', () => {
+    expect(pushCommand('Push', 4, 9, []))
+      .toMatchObject({ type: 'Push', left: 4, right: 9, sizeLeft: 1, sizeRight: 1 });
+    expect(popCommand('Pop', 12, 4, 9, []))
+      .toMatchObject({ type: 'Pop', left: 4, right: 9, desc: 'Pop OS from memory 4, with value 12.' });
+    expect(assignCommand('Assign', 12, 4, []))
+      .toMatchObject({ type: 'Assign', left: 4, right: -1, desc: 'Assign memory [4] with 12.' });
+  });
+
+  test('record commands that pass validation', () => {
+    const timeline = timelineOf('Initialize Memory');
+    timeline.record(pushCommand('New', 60, 63, []));
+    timeline.record(assignCommand('New', 12, 63, []));
+    expect(validateTimeline(timeline.toData(), rules)).toEqual([]);
+  });
+});
+
+describe('validateTimeline', () => {
+  test('accepts a consistent timeline', () => {
+    const timeline = timelineOf('Initialize Memory', 'New', 'Start', 'Mark', 'End', 'New');
+    expect(validateTimeline(timeline.toData(), rules)).toEqual([]);
+  });
+
+  test('requires memory to be initialized first', () => {
+    const timeline = timelineOf('New', 'Initialize Memory');
+    const messages = validateTimeline(timeline.toData(), rules)
+      .map(({ message }) => message);
+    expect(messages).toEqual([
+      'Step 0 (New) should be Initialize Memory, call initialize_memory before anything else.',
+      'Step 1 (Initialize Memory) initializes memory again, initialize_memory should only be called once.'
+    ]);
+  });
+
+  test('flags unknown command types', () => {
+    const timeline = timelineOf('Initialize Memory', 'Flip');
+    expect(validateTimeline(timeline.toData(), rules)).toEqual([{
+      step: 1,
+      message: 'Step 1 (Flip) is not a known command type.'
+    }]);
+  });
+
+  test('flags highlights outside of memory', () => {
+    const timeline = timelineOf('Initialize Memory');
+    timeline.record(command('New', 62, 4));
+    expect(validateTimeline(timeline.toData(), rules)).toEqual([{
+      step: 1,
+      message: 'Step 1 (New) highlights [62, 66), which is outside the memory of size 64.'
+    }]);
+  });
+
+  test('flags commands outside of a collection', () => {
+    const timeline = timelineOf('Initialize Memory', 'Mark', 'End');
+    expect(validateTimeline(timeline.toData(), rules)).toEqual([
+      { step: 1, message: 'Step 1 (Mark) can only happen during a collection.' },
+      { step: 2, message: 'Step 2 (End) ends a collection that was never started.' }
+    ]);
+  });
+
+  test('flags collections that overlap or never end', () => {
+    const timeline = timelineOf('Initialize Memory', 'Start', 'Start');
+    expect(validateTimeline(timeline.toData(), rules)).toEqual([
+      { step: 2, message: 'Step 2 (Start) starts a collection while the collection started at step 1 has not ended.' },
+      { step: 2, message: 'The collection started at step 2 never ends.' }
+    ]);
+  });
+});
@@ -0,0 +1,25 @@
+import { crc32, createZip } from '../zip';
+
+describe('createZip', () => {
+  test('computes the standard CRC-32', () => {
+    expect(crc32(new TextEncoder()
+      .encode('123456789')))
+      .toEqual(0xcbf43926);
+  });
+
+  test('lists every file in the central directory', () => {
+    const zip = createZip([
+      { name: 'a.png', data: new Uint8Array([1, 2, 3]) },
+      { name: 'b.png', data: new Uint8Array([4]) }
+    ]);
+    const view = new DataView(zip.buffer);
+    const end = zip.length - 22;
+
+    expect(view.getUint32(0, true)).toEqual(0x04034b50);
+    expect(view.getUint32(end, true)).toEqual(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toEqual(2);
+    const directory = view.getUint32(end + 16, true);
+    expect(view.getUint32(directory, true)).toEqual(0x02014b50);
+    expect(String.fromCharCode(...zip.subarray(directory + 46, directory + 51))).toEqual('a.png');
+  });
+});
@@ -0,0 +1,216 @@
+import { ByteWriter } from '../byteWriter';
+
+const PALETTE_SIZE = 256;
+const MIN_CODE_SIZE = 8;
+const MAX_CODES = 4096;
+
+/**
+ * Colours are bucketed by their top 5 bits per channel before choosing a palette.
+ */
+const bucketOf = (r: number, g: number, b: number) => ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+
+type IndexedFrame = {
+  /** RGB triples, PALETTE_SIZE of them */
+  palette: Uint8Array;
+  /** Palette index of each pixel */
+  indices: Uint8Array;
+};
+
+/**
+ * Reduces an RGBA image to at most 256 colours, keeping the most common
+ * colours. Transparent pixels are drawn over white.
+ */
+export function quantize(pixels: ArrayLike<number>): IndexedFrame {
+  const count = pixels.length / 4;
+  const rgb = new Uint8Array(count * 3);
+  const buckets = new Uint32Array(count);
+  const frequency = new Uint32Array(1 << 15);
+  const sums = new Uint32Array((1 << 15) * 3);
+
+  for (let i = 0; i < count; i += 1) {
+    const alpha = pixels[i * 4 + 3] / 255;
+    const r = Math.round(pixels[i * 4] * alpha + 255 * (1 - alpha));
+    const g = Math.round(pixels[i * 4 + 1] * alpha + 255 * (1 - alpha));
+    const b = Math.round(pixels[i * 4 + 2] * alpha + 255 * (1 - alpha));
+    const bucket = bucketOf(r, g, b);
+    rgb[i * 3] = r;
+    rgb[i * 3 + 1] = g;
+    rgb[i * 3 + 2] = b;
+    buckets[i] = bucket;
+    frequency[bucket] += 1;
+    sums[bucket * 3] += r;
+    sums[bucket * 3 + 1] += g;
+    sums[bucket * 3 + 2] += b;
+  }
+
+  const used: number[] = [];
+  frequency.forEach((n, bucket) => {
+    if (n > 0) used.push(bucket);
+  });
+  used.sort((a, b) => frequency[b] - frequency[a]);
+
+  const palette = new Uint8Array(PALETTE_SIZE * 3);
+  const colors = used.slice(0, PALETTE_SIZE);
+  const indexOfBucket = new Int16Array(1 << 15)
+    .fill(-1);
+  colors.forEach((bucket, index) => {
+    const n = frequency[bucket];
+    palette[index * 3] = Math.round(sums[bucket * 3] / n);
+    palette[index * 3 + 1] = Math.round(sums[bucket * 3 + 1] / n);
+    palette[index * 3 + 2] = Math.round(sums[bucket * 3 + 2] / n);
+    indexOfBucket[bucket] = index;
+  });
+
+  const nearest = (r: number, g: number, b: number) => {
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let index = 0; index < colors.length; index += 1) {
+      const dr = palette[index * 3] - r;
+      const dg = palette[index * 3 + 1] - g;
+      const db = palette[index * 3 + 2] - b;
+      const distance = dr * dr + dg * dg + db * db;
+      if (distance < bestDistance) {
+        best = index;
+        bestDistance = distance;
+      }
+    }
+    return best;
+  };
+
+  const indices = new Uint8Array(count);
+  for (let i = 0; i < count; i += 1) {
+    const bucket = buckets[i];
+    if (indexOfBucket[bucket] < 0) {
+      // Only buckets that did not make it into the palette get here, once each
+      indexOfBucket[bucket] = nearest(rgb[i * 3], rgb[i * 3 + 1], rgb[i * 3 + 2]);
+    }
+    indices[i] = indexOfBucket[bucket];
+  }
+  return {
+    palette,
+    indices
+  };
+}
+
+/**
+ * Compresses palette indices with the variable width LZW used by GIF, and
+ * writes them as data sub-blocks of at most 255 bytes.
+ */
+export function writeLzw(indices: Uint8Array, writer: ByteWriter): void {
+  const clearCode = 1 << MIN_CODE_SIZE;
+  const endCode = clearCode + 1;
+  const table = new Map<number, number>();
+  let nextCode = endCode + 1;
+  let codeSize = MIN_CODE_SIZE + 1;
+
+  let block: number[] = [];
+  let bits = 0;
+  let bitCount = 0;
+  const flushBlock = () => {
+    writer.u8(block.length);
+    writer.bytes(block);
+    block = [];
+  };
+  const emit = (code: number) => {
+    bits |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block.push(bits & 0xff);
+      bits >>>= 8;
+      bitCount -= 8;
+      if (block.length === 255) flushBlock();
+    }
+  };
+
+  writer.u8(MIN_CODE_SIZE);
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i += 1) {
+    const index = indices[i];
+    const key = (prefix << 8) | index;
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+    } else {
+      emit(prefix);
+      if (nextCode === MAX_CODES) {
+        // The table is full, so start over with an empty one
+        emit(clearCode);
+        table.clear();
+        nextCode = endCode + 1;
+        codeSize = MIN_CODE_SIZE + 1;
+      } else {
+        // The decoder adds this code one step later, so widen before adding
+        if (nextCode >= 1 << codeSize) codeSize += 1;
+        table.set(key, nextCode);
+        nextCode += 1;
+      }
+      prefix = index;
+    }
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) {
+    block.push(bits & 0xff);
+  }
+  if (block.length > 0) flushBlock();
+  writer.u8(0);
+}
+
+/**
+ * Writes an animated GIF that loops forever. Every frame has its own palette
+ * of up to 256 colours.
+ */
+export class GifEncoder {
+  private readonly writer = new ByteWriter();
+
+  constructor(private readonly width: number, private readonly height: number) {
+    const { writer } = this;
+    writer.ascii('GIF89a');
+    writer.u16(width);
+    writer.u16(height);
+    // No global colour table, 8 bits per primary colour
+    writer.u8(0x70);
+    writer.u8(0);
+    writer.u8(0);
+
+    // Netscape extension to loop forever
+    writer.bytes([0x21, 0xff, 11]);
+    writer.ascii('NETSCAPE2.0');
+    writer.bytes([3, 1]);
+    writer.u16(0);
+    writer.u8(0);
+  }
+
+  /**
+   * @param pixels RGBA pixels of the frame, row by row.
+   * @param delay How long the frame is shown, in hundredths of a second.
+   */
+  addFrame(pixels: ArrayLike<number>, delay: number): void {
+    const { writer, width, height } = this;
+    if (pixels.length !== width * height * 4) {
+      throw new Error(`Expected ${width * height * 4} bytes of pixels, got ${pixels.length}`);
+    }
+    const { palette, indices } = quantize(pixels);
+
+    // Graphic control extension, for the delay
+    writer.bytes([0x21, 0xf9, 4, 0]);
+    writer.u16(delay);
+    writer.bytes([0, 0]);
+
+    // Image descriptor with a local colour table of 2^8 colours
+    writer.u8(0x2c);
+    writer.u16(0);
+    writer.u16(0);
+    writer.u16(width);
+    writer.u16(height);
+    writer.u8(0x87);
+    writer.bytes(palette);
+    writeLzw(indices, writer);
+  }
+
+  finish(): Uint8Array<ArrayBuffer> {
+    this.writer.u8(0x3b);
+    return this.writer.toBytes();
+  }
+}
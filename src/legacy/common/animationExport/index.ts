@@ -0,0 +1,185 @@
+import save from 'save-file';
+import type { glAnimation } from '../../typings/anim_types';
+import { createZip, type ZipEntry } from '../zip';
+import { GifEncoder } from './gif';
+
+export { GifEncoder } from './gif';
+
+/**
+ * `gif` is an animated GIF, `png` a zip of one PNG image per frame and `webm` a video.
+ */
+export type AnimationFormat = 'gif' | 'png' | 'webm';
+
+export const ANIMATION_FORMATS: Record<AnimationFormat, { label: string; extension: string }> = {
+  gif: {
+    label: 'GIF',
+    extension: 'gif'
+  },
+  png: {
+    label: 'PNG frames',
+    extension: 'zip'
+  },
+  webm: {
+    label: 'WebM',
+    extension: 'webm'
+  }
+};
+
+export const isAnimationFormat = (format: unknown): format is AnimationFormat => typeof format === 'string'
+  && Object.keys(ANIMATION_FORMATS)
+    .includes(format);
+
+/**
+ * Number of frames drawn for an animation, at least one.
+ */
+export function frameCount(animation: glAnimation): number {
+  return Math.max(1, Math.round(animation.duration * animation.fps));
+}
+
+/**
+ * Draws frames of an animation onto a canvas that is not attached to the page.
+ * Animations draw with WebGL, so each frame is copied onto a 2D canvas
+ * straight away, before the browser is free to clear the WebGL canvas.
+ */
+function createFrameRenderer(animation: glAnimation, size: number) {
+  const glCanvas = document.createElement('canvas');
+  glCanvas.width = size;
+  glCanvas.height = size;
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const context = canvas.getContext('2d');
+  if (context === null) {
+    throw new Error('Unable to create a canvas to draw the animation on.');
+  }
+
+  const render = (frame: number) => {
+    animation.getFrame(frame / animation.fps)
+      .draw(glCanvas);
+    context.fillStyle = 'white';
+    context.fillRect(0, 0, size, size);
+    context.drawImage(glCanvas, 0, 0);
+  };
+  return {
+    canvas,
+    context,
+    render
+  };
+}
+
+const toBlob = (canvas: HTMLCanvasElement) => new Promise<Blob>((resolve, reject) => canvas.toBlob((blob) => {
+  if (blob === null) {
+    reject(new Error('Unable to convert a frame of the animation into a PNG image.'));
+  } else {
+    resolve(blob);
+  }
+}, 'image/png'));
+
+async function encodeGif(animation: glAnimation, size: number): Promise<Blob> {
+  const { context, render } = createFrameRenderer(animation, size);
+  const encoder = new GifEncoder(size, size);
+  // Browsers slow down frames shorter than 2 hundredths of a second
+  const delay = Math.max(2, Math.round(100 / animation.fps));
+  for (let frame = 0; frame < frameCount(animation); frame += 1) {
+    render(frame);
+    encoder.addFrame(context.getImageData(0, 0, size, size).data, delay);
+    // Encoding a frame takes a while, so let the page respond in between
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+  return new Blob([encoder.finish()], { type: 'image/gif' });
+}
+
+async function encodePngFrames(animation: glAnimation, size: number): Promise<Blob> {
+  const { canvas, render } = createFrameRenderer(animation, size);
+  const count = frameCount(animation);
+  const digits = `${count - 1}`.length;
+  const entries: ZipEntry[] = [];
+  for (let frame = 0; frame < count; frame += 1) {
+    render(frame);
+    const blob = await toBlob(canvas);
+    entries.push({
+      name: `frame_${`${frame}`.padStart(digits, '0')}.png`,
+      data: new Uint8Array(await blob.arrayBuffer())
+    });
+  }
+  return new Blob([createZip(entries)], { type: 'application/zip' });
+}
+
+/**
+ * Records the frames with the browser's MediaRecorder. The recorder timestamps
+ * frames as they arrive, so this takes as long as the animation itself.
+ */
+async function recordWebm(animation: glAnimation, size: number): Promise<Blob> {
+  if (typeof MediaRecorder === 'undefined' || !MediaRecorder.isTypeSupported('video/webm')) {
+    throw new Error('This browser is unable to record WebM videos.');
+  }
+  const { canvas, render } = createFrameRenderer(animation, size);
+  const stream = canvas.captureStream(0);
+  const [track] = stream.getVideoTracks() as CanvasCaptureMediaStreamTrack[];
+  const recorder = new MediaRecorder(stream, { mimeType: 'video/webm' });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => chunks.push(event.data);
+  const stopped = new Promise((resolve) => {
+    recorder.onstop = resolve;
+  });
+
+  recorder.start();
+  for (let frame = 0; frame < frameCount(animation); frame += 1) {
+    render(frame);
+    track.requestFrame();
+    await new Promise((resolve) => setTimeout(resolve, 1000 / animation.fps));
+  }
+  recorder.stop();
+  await stopped;
+  track.stop();
+  return new Blob(chunks, { type: 'video/webm' });
+}
+
+/**
+ * Draws every frame of an animation at its frame rate and encodes them in the
+ * given format.
+ * @param animation The animation to export
+ * @param format The format of the file
+ * @param size The width and height of the frames in pixels
+ */
+export function exportAnimation(
+  animation: glAnimation,
+  format: AnimationFormat,
+  size: number = 512
+): Promise<Blob> {
+  switch (format) {
+    case 'gif':
+      return encodeGif(animation, size);
+    case 'png':
+      return encodePngFrames(animation, size);
+    case 'webm':
+      return recordWebm(animation, size);
+  }
+}
+
+/**
+ * Exports an animation and downloads it to the user's device.
+ * @param animation The animation to download
+ * @param format The format of the file
+ * @param name File name, without extension
+ */
+export async function saveAnimation(
+  animation: glAnimation,
+  format: AnimationFormat,
+  name: string = 'Source Academy Animation'
+): Promise<void> {
+  const blob = await exportAnimation(animation, format);
+  await save(blob, `${name}.${ANIMATION_FORMATS[format].extension}`);
+}
+
+/**
+ * Lets a save carry on after the Source function that started it returns, as
+ * Source programs cannot wait for it. A failed save is logged to the console.
+ * @param saving The save that was started
+ * @param caller Name of the Source function, for the error message
+ */
+export function saveInBackground(saving: Promise<void>, caller: string): void {
+  saving.catch((error: Error) => {
+    console.error(`${caller} was unable to save the file: ${error.message}`);
+  });
+}
@@ -0,0 +1,54 @@
+/**
+ * Growable buffer of bytes, written in little endian order as used by binary
+ * file formats such as GIF and zip.
+ */
+export class ByteWriter {
+  private buffer = new Uint8Array(1024);
+  private size = 0;
+
+  get length(): number {
+    return this.size;
+  }
+
+  private reserve(extra: number): void {
+    if (this.size + extra <= this.buffer.length) return;
+    let capacity = this.buffer.length * 2;
+    while (capacity < this.size + extra) {
+      capacity *= 2;
+    }
+    const buffer = new Uint8Array(capacity);
+    buffer.set(this.buffer.subarray(0, this.size));
+    this.buffer = buffer;
+  }
+
+  u8(value: number): void {
+    this.reserve(1);
+    this.buffer[this.size++] = value & 0xff;
+  }
+
+  u16(value: number): void {
+    this.u8(value);
+    this.u8(value >>> 8);
+  }
+
+  u32(value: number): void {
+    this.u16(value);
+    this.u16(value >>> 16);
+  }
+
+  bytes(data: ArrayLike<number>): void {
+    this.reserve(data.length);
+    this.buffer.set(data, this.size);
+    this.size += data.length;
+  }
+
+  ascii(text: string): void {
+    for (let i = 0; i < text.length; i += 1) {
+      this.u8(text.charCodeAt(i));
+    }
+  }
+
+  toBytes(): Uint8Array<ArrayBuffer> {
+    return this.buffer.slice(0, this.size);
+  }
+}
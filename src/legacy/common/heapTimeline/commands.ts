@@ -0,0 +1,77 @@
+import type { HeapCommand, Memory } from './types';
+
+/**
+ * Commands that the garbage collectors record in the same way. Each module
+ * adds its own fields, such as its queue or its semispaces, before recording.
+ */
+
+/**
+ * Pushing the address of a new child onto the operand stack of a node.
+ */
+export function pushCommand<Type extends string>(
+  type: Type,
+  left: number,
+  right: number,
+  heap: Memory
+): HeapCommand<Type> {
+  return {
+    type,
+    heap,
+    left,
+    right,
+    sizeLeft: 1,
+    sizeRight: 1,
+    desc: `Push OS update memory ${left} and ${right}.`,
+    leftDesc: 'last child address slot',
+    rightDesc: 'new child pushed'
+  };
+}
+
+/**
+ * Popping the address stored at `left` off the operand stack of a node.
+ *
+ * @param res The address that was popped.
+ */
+export function popCommand<Type extends string>(
+  type: Type,
+  res: number,
+  left: number,
+  right: number,
+  heap: Memory
+): HeapCommand<Type> {
+  return {
+    type,
+    heap,
+    left,
+    right,
+    sizeLeft: 1,
+    sizeRight: 1,
+    desc: `Pop OS from memory ${left}, with value ${res}.`,
+    leftDesc: 'popped memory',
+    rightDesc: 'last child address slot'
+  };
+}
+
+/**
+ * Storing an address in the word at `left`.
+ *
+ * @param res The address that was stored.
+ */
+export function assignCommand<Type extends string>(
+  type: Type,
+  res: number,
+  left: number,
+  heap: Memory
+): HeapCommand<Type> {
+  return {
+    type,
+    heap,
+    left,
+    right: -1,
+    sizeLeft: 1,
+    sizeRight: 1,
+    desc: `Assign memory [${left}] with ${res}.`,
+    leftDesc: 'assigned memory',
+    rightDesc: ''
+  };
+}
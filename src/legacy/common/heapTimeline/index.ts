@@ -0,0 +1,145 @@
+import type {
+  HeapCommand,
+  HeapRegion,
+  HeapTimelineData,
+  Memory,
+  MemoryHeaps,
+  Tag
+} from './types';
+
+export * from './types';
+export { assignCommand, popCommand, pushCommand } from './commands';
+export { validateTimeline } from './validate';
+
+const COLUMN = 32;
+
+/**
+ * Lays out the addresses in [start, end) as rows of the given length.
+ */
+export function layoutMemory(start: number, end: number, column: number): MemoryHeaps {
+  const matrix: MemoryHeaps = [];
+  for (let i = start; i < end; i += column) {
+    const row: Memory = [];
+    for (let j = i; j < i + column && j < end; j += 1) {
+      row.push(j);
+    }
+    matrix.push(row);
+  }
+  return matrix;
+}
+
+/**
+ * Records the state of a heap step by step, for the garbage collector
+ * visualisers. Each module keeps one timeline, which is filled in by the
+ * program calling the module functions and drawn by the tab afterwards.
+ */
+export class HeapTimeline<C extends HeapCommand = HeapCommand> {
+  memorySize: number = -99;
+  nodeSize: number = 0;
+  readonly column: number = COLUMN;
+  tags: Tag[] = [];
+  types: string[] = [];
+  slots: Record<string, number>;
+  roots: number[] = [];
+  regions: HeapRegion[] = [];
+  markers: Record<string, number[]> = {};
+  memoryHeaps: MemoryHeaps = [];
+  readonly commands: C[] = [];
+
+  /**
+   * @param slots Default offset of each slot within a node, in the order returned by get_slots.
+   * @param markers Names of the lists of steps marked on the slider.
+   */
+  constructor(slots: Record<string, number>, markers: string[] = []) {
+    this.slots = { ...slots };
+    markers.forEach((name) => {
+      this.markers[name] = [];
+    });
+  }
+
+  get rows(): number {
+    return this.memorySize / this.column;
+  }
+
+  /**
+   * Sets the size of memory, trimmed to a whole number of nodes.
+   *
+   * @param memorySize Number of words of memory.
+   * @param nodeSize Number of words in a node, 1 if nodes have variable size.
+   * @param regions Grids to draw memory as, by default one grid for all of memory.
+   */
+  initialize(
+    memorySize: number,
+    nodeSize: number = 1,
+    regions?: HeapRegion[]
+  ): void {
+    this.nodeSize = nodeSize;
+    this.memorySize = memorySize - (memorySize % nodeSize);
+    this.regions = regions ?? [{ title: 'Memory', start: 0, end: this.memorySize }];
+  }
+
+  setTags(tags: Tag[], types: string[]): void {
+    this.tags = tags;
+    this.types = types;
+  }
+
+  /**
+   * Moves slots within a node. Negative offsets leave the slot unchanged.
+   */
+  updateSlots(offsets: Record<string, number>): void {
+    Object.entries(offsets)
+      .forEach(([name, offset]) => {
+        if (offset >= 0) {
+          this.slots[name] = offset;
+        }
+      });
+  }
+
+  getSlotList(): number[] {
+    return Object.values(this.slots);
+  }
+
+  /**
+   * Appends a command, taking a copy of the heap so that later changes to
+   * the heap do not affect earlier steps.
+   */
+  record(command: C): void {
+    this.commands.push({
+      ...command,
+      heap: [...command.heap]
+    });
+  }
+
+  /**
+   * Marks the most recent command in a list of markers.
+   */
+  mark(name: string): void {
+    if (!this.markers[name]) {
+      this.markers[name] = [];
+    }
+    this.markers[name].push(this.commands.length - 1);
+  }
+
+  last(): C | undefined {
+    return this.commands[this.commands.length - 1];
+  }
+
+  getMatrix(start: number, end: number): MemoryHeaps {
+    return layoutMemory(start, end, this.column);
+  }
+
+  toData(): HeapTimelineData<C> {
+    return {
+      memorySize: this.memorySize,
+      nodeSize: this.nodeSize,
+      column: this.column,
+      tags: this.tags,
+      types: this.types,
+      slots: this.slots,
+      roots: this.roots,
+      regions: this.regions,
+      markers: this.markers,
+      commands: this.commands
+    };
+  }
+}
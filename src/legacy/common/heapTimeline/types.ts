@@ -0,0 +1,73 @@
+export type Memory = number[];
+export type MemoryHeaps = Memory[];
+export type Tag = number;
+
+/**
+ * One step of a heap timeline: a snapshot of the heap after the command ran,
+ * with up to two highlighted ranges of memory.
+ */
+export type HeapCommand<Type extends string = string> = {
+  type: Type;
+  heap: Memory;
+  /** Start of the first highlighted range, -1 for none */
+  left: number;
+  /** Start of the second highlighted range, -1 for none */
+  right: number;
+  sizeLeft: number;
+  sizeRight: number;
+  desc: string;
+  leftDesc: string;
+  rightDesc: string;
+};
+
+/**
+ * A contiguous part of memory drawn as its own grid, such as a semispace or
+ * a generation.
+ */
+export type HeapRegion = {
+  title: string;
+  start: number;
+  end: number;
+};
+
+/**
+ * A collection, delimited by a start and an end command.
+ * Commands listed in `inner` may only appear while a collection is running.
+ */
+export type PhaseRule = {
+  start: string[];
+  end: string[];
+  inner?: string[];
+};
+
+export type TimelineRules = {
+  /** Every command type the module can record */
+  types: string[];
+  /** Type of the command recorded by initialize_memory */
+  initType: string;
+  phases?: PhaseRule[];
+};
+
+export type TimelineIssue = {
+  /** Step the issue was found at, -1 if it concerns the whole timeline */
+  step: number;
+  message: string;
+};
+
+/**
+ * Everything the tab needs to draw a timeline. Only contains plain data, so
+ * that it can be exported as JSON.
+ */
+export type HeapTimelineData<C extends HeapCommand = HeapCommand> = {
+  memorySize: number;
+  nodeSize: number;
+  column: number;
+  tags: Tag[];
+  types: string[];
+  slots: Record<string, number>;
+  roots: number[];
+  regions: HeapRegion[];
+  /** Named lists of steps to mark on the slider, such as the start of each collection */
+  markers: Record<string, number[]>;
+  commands: C[];
+};
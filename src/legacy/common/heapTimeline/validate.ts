@@ -0,0 +1,142 @@
+import type {
+  HeapCommand,
+  HeapTimelineData,
+  PhaseRule,
+  TimelineIssue,
+  TimelineRules
+} from './types';
+
+function describe(step: number, command: HeapCommand): string {
+  return `Step ${step} (${command.type})`;
+}
+
+function checkRange(
+  step: number,
+  command: HeapCommand,
+  start: number,
+  size: number,
+  memorySize: number
+): TimelineIssue[] {
+  if (size < 0) {
+    return [{
+      step,
+      message: `${describe(step, command)} highlights a range of negative size ${size}.`
+    }];
+  }
+  if (start < 0 || size === 0) return [];
+  if (start + size > memorySize) {
+    return [{
+      step,
+      message: `${describe(step, command)} highlights [${start}, ${start + size}), which is outside the memory of size ${memorySize}.`
+    }];
+  }
+  return [];
+}
+
+function checkPhases(
+  commands: HeapCommand[],
+  phases: PhaseRule[]
+): TimelineIssue[] {
+  const issues: TimelineIssue[] = [];
+  let current: { rule: PhaseRule; step: number } | null = null;
+
+  for (let step = 0; step < commands.length; step += 1) {
+    const command = commands[step];
+    const started = phases.find((rule) => rule.start.includes(command.type));
+    if (started) {
+      if (current) {
+        issues.push({
+          step,
+          message: `${describe(step, command)} starts a collection while the collection started at step ${current.step} has not ended.`
+        });
+      }
+      current = { rule: started, step };
+      continue;
+    }
+
+    if (phases.some((rule) => rule.end.includes(command.type))) {
+      if (!current) {
+        issues.push({
+          step,
+          message: `${describe(step, command)} ends a collection that was never started.`
+        });
+      } else if (!current.rule.end.includes(command.type)) {
+        issues.push({
+          step,
+          message: `${describe(step, command)} cannot end the collection started at step ${current.step}, expected ${current.rule.end.join(' or ')}.`
+        });
+      }
+      current = null;
+      continue;
+    }
+
+    if (!current && phases.some((rule) => rule.inner?.includes(command.type))) {
+      issues.push({
+        step,
+        message: `${describe(step, command)} can only happen during a collection.`
+      });
+    }
+  }
+
+  if (current) {
+    issues.push({
+      step: current.step,
+      message: `The collection started at step ${current.step} never ends.`
+    });
+  }
+  return issues;
+}
+
+/**
+ * Checks that a recorded timeline is consistent, so that mistakes in the
+ * program driving the visualiser are reported instead of drawn.
+ *
+ * @param timeline Timeline to check.
+ * @param rules Command types and collections of the module.
+ * @returns Issues found, empty if the timeline is consistent.
+ */
+export function validateTimeline(
+  timeline: HeapTimelineData,
+  rules: TimelineRules
+): TimelineIssue[] {
+  const { commands, memorySize } = timeline;
+  if (commands.length === 0) return [];
+
+  const issues: TimelineIssue[] = [];
+  if (commands[0].type !== rules.initType) {
+    issues.push({
+      step: 0,
+      message: `${describe(0, commands[0])} should be ${rules.initType}, call initialize_memory before anything else.`
+    });
+  }
+
+  commands.forEach((command, step) => {
+    if (!rules.types.includes(command.type)) {
+      issues.push({
+        step,
+        message: `${describe(step, command)} is not a known command type.`
+      });
+    }
+    if (step > 0 && command.type === rules.initType) {
+      issues.push({
+        step,
+        message: `${describe(step, command)} initializes memory again, initialize_memory should only be called once.`
+      });
+    }
+    if (command.heap.length > memorySize) {
+      issues.push({
+        step,
+        message: `${describe(step, command)} has a heap of ${command.heap.length} words, but the memory size is ${memorySize}.`
+      });
+    }
+    issues.push(
+      ...checkRange(step, command, command.left, command.sizeLeft, memorySize),
+      ...checkRange(step, command, command.right, command.sizeRight, memorySize)
+    );
+  });
+
+  if (rules.phases) {
+    issues.push(...checkPhases(commands, rules.phases));
+  }
+  return issues.sort((a, b) => a.step - b.step);
+}
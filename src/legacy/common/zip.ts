@@ -0,0 +1,94 @@
+import { ByteWriter } from './byteWriter';
+
+export type ZipEntry = {
+  name: string;
+  data: Uint8Array;
+};
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n += 1) {
+    let c = n;
+    for (let k = 0; k < 8; k += 1) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c;
+  }
+  return table;
+})();
+
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i += 1) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Packs files into a zip archive without compressing them, which is all that
+ * is needed for files that are already compressed such as PNG images.
+ */
+export function createZip(entries: ZipEntry[]): Uint8Array<ArrayBuffer> {
+  const writer = new ByteWriter();
+  // 1 January 1980, the earliest date a zip file can hold
+  const time = 0;
+  const date = (1 << 5) | 1;
+  const encoder = new TextEncoder();
+
+  const headers = entries.map(({ name, data }) => {
+    const header = {
+      name: encoder.encode(name),
+      crc: crc32(data),
+      size: data.length,
+      offset: writer.length
+    };
+    writer.u32(0x04034b50);
+    writer.u16(20);
+    writer.u16(0);
+    writer.u16(0);
+    writer.u16(time);
+    writer.u16(date);
+    writer.u32(header.crc);
+    writer.u32(header.size);
+    writer.u32(header.size);
+    writer.u16(header.name.length);
+    writer.u16(0);
+    writer.bytes(header.name);
+    writer.bytes(data);
+    return header;
+  });
+
+  const directoryOffset = writer.length;
+  headers.forEach(({ name, crc, size, offset }) => {
+    writer.u32(0x02014b50);
+    writer.u16(20);
+    writer.u16(20);
+    writer.u16(0);
+    writer.u16(0);
+    writer.u16(time);
+    writer.u16(date);
+    writer.u32(crc);
+    writer.u32(size);
+    writer.u32(size);
+    writer.u16(name.length);
+    writer.u16(0);
+    writer.u16(0);
+    writer.u16(0);
+    writer.u16(0);
+    writer.u32(0);
+    writer.u32(offset);
+    writer.bytes(name);
+  });
+  const directorySize = writer.length - directoryOffset;
+
+  writer.u32(0x06054b50);
+  writer.u16(0);
+  writer.u16(0);
+  writer.u16(headers.length);
+  writer.u16(headers.length);
+  writer.u32(directorySize);
+  writer.u32(directoryOffset);
+  writer.u16(0);
+  return writer.toBytes();
+}
@@ -1,6 +1,6 @@
 import { Slider } from '@blueprintjs/core';
 import React from 'react';
-import type { CurveDrawn } from '../../bundles/curve/curves_webgl';
+import type { CurveDrawn, SurfaceDrawn } from '../../bundles/curve/curves_webgl';
 import { degreesToRadians } from '../../common/utilities';
 import PlayButton from '../common/PlayButton';
 import WebGLCanvas from '../common/WebglCanvas';
@@ -23,11 +23,11 @@ type State = {
 };
 
 type Props = {
-  curve: CurveDrawn;
+  curve: CurveDrawn | SurfaceDrawn;
 };
 
 /**
- * Canvas to display 3D Curves.
+ * Canvas to display 3D Curves and Surfaces.
  *
  * Uses WebGLCanvas internally.
  */
@@ -0,0 +1,99 @@
+import React from 'react';
+import { TIMELINE_RULES, type CommandHeapObject } from '../../bundles/generational_gc/types';
+import type { HeapTimelineData } from '../../common/heapTimeline';
+import HeapTimelineView, { HeapLegend } from '../common/HeapTimelineView';
+import { ThemeColor } from './style';
+
+type Props = {
+  children?: never;
+  className?: string;
+  debuggerContext: any;
+};
+
+const collectionColor = {
+  minor: ThemeColor.ORANGE,
+  major: ThemeColor.RED
+};
+
+const description = (
+  <p>
+    This is a visualiser for generational garbage collection. Minor collections
+    only collect the young generation, and promote nodes that survive to the
+    old generation. Major collections collect the whole heap.
+  </p>
+);
+
+const getHeading = ({ collection, type }: CommandHeapObject) => (
+  collection ? `[${collection} collection] ${type}` : type
+);
+
+const getHeadingColor = ({ collection }: CommandHeapObject) => (
+  collection ? collectionColor[collection] : undefined
+);
+
+const renderRememberedLegend = ({ remembered }: CommandHeapObject) => remembered.length > 0 && (
+  <HeapLegend color={ThemeColor.PURPLE} description="remembered set" />
+);
+
+const GenerationalGc = ({ debuggerContext }: Props) => {
+  const timeline: HeapTimelineData<CommandHeapObject> | undefined
+    = debuggerContext?.result?.value?.get_timeline?.();
+
+  if (!timeline || timeline.commands.length === 0) {
+    return (
+      <div>
+        {description}
+        <p> Calls the function init() at the end of your code to start. </p>
+      </div>
+    );
+  }
+
+  const { TAG_SLOT, SIZE_SLOT } = timeline.slots;
+  const getBackgroundColor = (index: number, command: CommandHeapObject) => {
+    const { left, right, sizeLeft, sizeRight, remembered } = command;
+    const highlighted = (index >= left && index < left + sizeLeft)
+      || (index >= right && index < right + sizeRight);
+    if (
+      !highlighted
+      && remembered.some((node) => index >= node + TAG_SLOT && index <= node + SIZE_SLOT)
+    ) {
+      return ThemeColor.PURPLE;
+    }
+    return undefined;
+  };
+
+  return (
+    <HeapTimelineView<CommandHeapObject>
+      timeline={timeline}
+      rules={TIMELINE_RULES}
+      description={description}
+      exportName="generational_gc"
+      markerLabels={{ majorCollections: 'M', minorCollections: 'm' }}
+      getHeading={getHeading}
+      getHeadingColor={getHeadingColor}
+      getBackgroundColor={getBackgroundColor}
+      renderCommandLegend={renderRememberedLegend}
+      legend={
+        <div
+          style={{
+            display: 'flex',
+            flexDirection: 'row',
+            marginTop: 10
+          }}
+        >
+          <HeapLegend color={collectionColor.minor} description="minor collection (m)" />
+          <HeapLegend color={collectionColor.major} description="major collection (M)" />
+        </div>
+      }
+    />
+  );
+};
+
+export default {
+  toSpawn: () => true,
+  body: (debuggerContext: any) => (
+    <GenerationalGc debuggerContext={debuggerContext} />
+  ),
+  label: 'Generational Garbage Collector',
+  iconName: 'heat-grid'
+};
@@ -0,0 +1,92 @@
+import React from 'react';
+import { TIMELINE_RULES, type CommandHeapObject } from '../../bundles/ref_count/types';
+import type { HeapTimelineData } from '../../common/heapTimeline';
+import HeapTimelineView, { HeapLegend } from '../common/HeapTimelineView';
+import { ThemeColor } from './style';
+
+type Props = {
+  children?: never;
+  className?: string;
+  debuggerContext: any;
+};
+
+const description = (
+  <p>
+    This is a visualiser for reference counting garbage collection. Nodes that
+    are unreachable but never freed because they reference each other in a
+    cycle are highlighted as leaked.
+  </p>
+);
+
+const renderLeakLegend = ({ leaked }: CommandHeapObject) => leaked.length > 0 && (
+  <HeapLegend color={ThemeColor.PURPLE} description="leaked by a cycle" />
+);
+
+const RefCount = ({ debuggerContext }: Props) => {
+  const timeline: HeapTimelineData<CommandHeapObject> | undefined
+    = debuggerContext?.result?.value?.get_timeline?.();
+
+  if (!timeline || timeline.commands.length === 0) {
+    return (
+      <div>
+        {description}
+        <p> Calls the function init() at the end of your code to start. </p>
+      </div>
+    );
+  }
+
+  const { tags, nodeSize } = timeline;
+  const { TAG_SLOT, COUNT_SLOT } = timeline.slots;
+
+  const getMemoryColor = (index: number, { heap }: CommandHeapObject) => {
+    if (!tags.includes(heap[index - COUNT_SLOT + TAG_SLOT])) return undefined;
+    return heap[index] === 0 ? ThemeColor.BLACK : ThemeColor.ORANGE;
+  };
+
+  const getBackgroundColor = (index: number, command: CommandHeapObject) => {
+    const { left, right, sizeLeft, sizeRight, leaked } = command;
+    const highlighted = (index >= left && index < left + sizeLeft)
+      || (index >= right && index < right + sizeRight);
+    if (!highlighted && leaked.some((node) => index >= node && index < node + nodeSize)) {
+      return ThemeColor.PURPLE;
+    }
+    return undefined;
+  };
+
+  return (
+    <HeapTimelineView<CommandHeapObject>
+      timeline={timeline}
+      rules={TIMELINE_RULES}
+      description={description}
+      exportName="ref_count"
+      markerLabels={{ leaks: '!' }}
+      getMemoryColor={getMemoryColor}
+      getBackgroundColor={getBackgroundColor}
+      renderCommandLegend={renderLeakLegend}
+      legend={
+        <div
+          style={{
+            display: 'flex',
+            flexDirection: 'row',
+            marginTop: 10
+          }}
+        >
+          <div style={{ flex: 1 }}>
+            <span> COUNT_SLOT: </span>
+          </div>
+          <HeapLegend color={ThemeColor.ORANGE} description="referenced" />
+          <HeapLegend color={ThemeColor.BLACK} description="count is 0" />
+        </div>
+      }
+    />
+  );
+};
+
+export default {
+  toSpawn: () => true,
+  body: (debuggerContext: any) => (
+    <RefCount debuggerContext={debuggerContext} />
+  ),
+  label: 'Reference Counting Garbage Collector',
+  iconName: 'heat-grid'
+};
@@ -0,0 +1,14 @@
+export enum ThemeColor {
+  BLUE = 'lightblue',
+  PINK = 'salmon',
+  GREY = '#707070',
+  GREEN = '#42a870',
+  YELLOW = '#f0d60e',
+  ORANGE = 'orange',
+  PURPLE = '#9d3be0',
+  BLACK = 'black',
+}
+
+export const FONT = {
+  SMALL: 10
+};
@@ -8,7 +8,13 @@ import type { DebuggerContext } from '../../../../typings/type_helpers';
 
 import { ColorSensorPanel } from '../TabPanels/ColorSensorPanel';
 import { ConsolePanel } from '../TabPanels/ConsolePanel';
+import { DebuggerPanel } from '../TabPanels/DebuggerPanel';
+import { GyroSensorPanel } from '../TabPanels/GyroSensorPanel';
+import { LedPanel } from '../TabPanels/LedPanel';
 import { MotorPidPanel } from '../TabPanels/MotorPidPanel';
+import { ReplayPanel } from '../TabPanels/ReplayPanel';
+import { SpeakerPanel } from '../TabPanels/SpeakerPanel';
+import { TouchSensorPanel } from '../TabPanels/TouchSensorPanel';
 import { UltrasonicSensorPanel } from '../TabPanels/UltrasonicSensorPanel';
 import { WheelPidPanel } from '../TabPanels/WheelPidPanel';
 
@@ -112,7 +118,13 @@ export const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
           <Tab id="motorPid" title="Motor PID" panel={<MotorPidPanel ev3={ev3}/>} />
           <Tab id="colorSensor" title="Color Sensor" panel={<ColorSensorPanel ev3={ev3}/>}/>
           <Tab id="ultrasonicSensor" title="Ultrasonic Sensor" panel={<UltrasonicSensorPanel ev3={ev3}/>}/>
+          <Tab id="gyroSensor" title="Gyro Sensor" panel={<GyroSensorPanel ev3={ev3}/>}/>
+          <Tab id="touchSensor" title="Touch Sensor" panel={<TouchSensorPanel ev3={ev3}/>}/>
+          <Tab id="leds" title="LEDs" panel={<LedPanel ev3={ev3}/>}/>
+          <Tab id="speaker" title="Speaker" panel={<SpeakerPanel ev3={ev3}/>}/>
           <Tab id="consolePanel" title="Console" panel={<ConsolePanel robot_console={robotConsole}/>} />
+          <Tab id="debugger" title="Debugger" panel={<DebuggerPanel world={world}/>} />
+          <Tab id="replay" title="Replay" panel={<ReplayPanel world={world} ev3={ev3}/>} />
         </Tabs>
       </div>
     </div>
@@ -0,0 +1,135 @@
+import { Button, ButtonGroup, NumericInput } from '@blueprintjs/core';
+import { IconNames } from '@blueprintjs/icons';
+import React, { useState, type CSSProperties } from 'react';
+import {
+  program_controller_identifier,
+  type Program,
+} from '../../../../bundles/robot_simulation/controllers/program/Program';
+import type { World } from '../../../../bundles/robot_simulation/engine';
+import { useFetchFromSimulation } from '../../hooks/fetchFromSimulation';
+import { TabWrapper } from './tabComponents/Wrapper';
+
+const RowStyle: CSSProperties = {
+  display: 'flex',
+  flexDirection: 'row',
+  gap: '0.6rem',
+};
+
+const ColumnStyle: CSSProperties = {
+  flex: 1,
+  maxHeight: 120,
+  overflowY: 'auto',
+};
+
+const lineStyle = (isCurrent: boolean, isError: boolean): CSSProperties => ({
+  fontFamily: 'monospace',
+  whiteSpace: 'pre',
+  cursor: 'pointer',
+  backgroundColor: isError
+    ? 'rgba(205, 66, 70, 0.4)'
+    : isCurrent
+      ? 'rgba(45, 114, 210, 0.4)'
+      : undefined,
+});
+
+export const DebuggerPanel: React.FC<{ world: World }> = ({ world }) => {
+  const program = world.controllers.controllers.find(
+    (controller) => controller.name === program_controller_identifier
+  ) as Program | undefined;
+  const [targetLine, setTargetLine] = useState(1);
+
+  const [, state] = useFetchFromSimulation(() => {
+    if (program === undefined) {
+      return null;
+    }
+    return {
+      isPaused: program.isDebugPaused,
+      isFinished: program.isFinished,
+      line: program.getCurrentLine(),
+      breakpoints: new Set(program.breakpoints),
+      stash: program.getStash(),
+      environments: program.getEnvironments(),
+      error: program.error,
+    };
+  }, 200);
+
+  if (program === undefined) {
+    return (
+      <TabWrapper>
+        Program not found. Did you add the program to the world using addControllerToWorld(createCSE(), world);
+      </TabWrapper>
+    );
+  }
+
+  if (state === null) {
+    return <TabWrapper>Loading debugger</TabWrapper>;
+  }
+
+  const { isPaused, isFinished, line, breakpoints, stash, environments, error } = state;
+  const status = error !== null
+    ? error.message
+    : isFinished
+      ? 'Finished'
+      : isPaused
+        ? `Paused at line ${line ?? '?'}`
+        : 'Running';
+
+  return (
+    <TabWrapper>
+      <div style={RowStyle}>
+        <ButtonGroup>
+          {isPaused
+            ? <Button icon={IconNames.PLAY} text="Resume" onClick={() => program.debugResume()} />
+            : <Button icon={IconNames.PAUSE} text="Pause" onClick={() => program.debugPause()} />}
+          <Button icon={IconNames.STEP_FORWARD} text="Step" disabled={!isPaused} onClick={() => program.debugStep()} />
+          <Button icon={IconNames.FAST_FORWARD} text="Run to line" onClick={() => program.debugRunToLine(targetLine)} />
+        </ButtonGroup>
+        <NumericInput
+          value={targetLine}
+          min={1}
+          max={program.code.split('\n').length}
+          onValueChange={(value) => setTargetLine(value)}
+          style={{ width: 60 }}
+        />
+        <span>{status}</span>
+      </div>
+      <div style={RowStyle}>
+        <div style={ColumnStyle}>
+          {program.code.split('\n')
+            .map((code, i) => {
+              const lineNumber = i + 1;
+              return (
+                <div
+                  key={lineNumber}
+                  style={lineStyle(isPaused && lineNumber === line, lineNumber === error?.line)}
+                  onClick={() => program.toggleBreakpoint(lineNumber)}
+                  title="Click to toggle a breakpoint"
+                >
+                  {breakpoints.has(lineNumber) ? '●' : ' '} {String(lineNumber)
+                    .padStart(3)} {code}
+                </div>
+              );
+            })}
+        </div>
+        <div style={ColumnStyle}>
+          <strong>Stash</strong>
+          <ul>
+            {stash.map((value, i) => <li key={i}>{value}</li>)}
+          </ul>
+        </div>
+        <div style={ColumnStyle}>
+          <strong>Environment</strong>
+          {environments.map((environment, i) => (
+            <div key={i}>
+              <em>{environment.name}</em>
+              <ul>
+                {Object.entries(environment.bindings)
+                  .map(([name, value]) => <li key={name}>{name}: {value}</li>)}
+              </ul>
+            </div>
+          ))}
+        </div>
+      </div>
+    </TabWrapper>
+  );
+};
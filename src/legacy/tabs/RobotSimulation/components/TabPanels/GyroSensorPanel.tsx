@@ -0,0 +1,41 @@
+import React from 'react';
+import type { DefaultEv3 } from '../../../../bundles/robot_simulation/controllers/ev3/ev3/default/ev3';
+import { useFetchFromSimulation } from '../../hooks/fetchFromSimulation';
+import { LastUpdated } from './tabComponents/LastUpdated';
+import { TabWrapper } from './tabComponents/Wrapper';
+
+export const GyroSensorPanel: React.FC<{ ev3?: DefaultEv3 }> = ({ ev3 }) => {
+  const gyroSensor = ev3?.get('gyroSensor');
+  const [timing, reading] = useFetchFromSimulation(() => {
+    if (gyroSensor === undefined) {
+      return null;
+    }
+    return gyroSensor.sense();
+  }, 1000);
+
+  if (!ev3) {
+    return (
+      <TabWrapper>
+        EV3 not found in context. Did you call saveToContext('ev3', ev3);
+      </TabWrapper>
+    );
+  }
+
+  if (timing === null) {
+    return <TabWrapper>Loading gyro sensor</TabWrapper>;
+  }
+
+  if (reading === null) {
+    return <TabWrapper>Gyro sensor not found</TabWrapper>;
+  }
+
+  return (
+    <TabWrapper>
+      <LastUpdated time={timing} />
+      <div>
+        <p>Angle: {reading.angle.toFixed(1)}°</p>
+        <p>Rate: {reading.rate.toFixed(1)}°/s</p>
+      </div>
+    </TabWrapper>
+  );
+};
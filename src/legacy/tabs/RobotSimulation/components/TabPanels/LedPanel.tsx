@@ -0,0 +1,59 @@
+import React, { type CSSProperties } from 'react';
+import type { DefaultEv3 } from '../../../../bundles/robot_simulation/controllers/ev3/ev3/default/ev3';
+import { ledNames } from '../../../../bundles/robot_simulation/controllers/ev3/ev3/default/types';
+import { useFetchFromSimulation } from '../../hooks/fetchFromSimulation';
+import { LastUpdated } from './tabComponents/LastUpdated';
+import { TabWrapper } from './tabComponents/Wrapper';
+
+const RowStyle: CSSProperties = {
+  display: 'flex',
+  flexDirection: 'row',
+  gap: '1.2rem',
+};
+
+const lightStyle = (color: string, opacity: number): CSSProperties => ({
+  width: 24,
+  height: 24,
+  borderRadius: '50%',
+  backgroundColor: color,
+  opacity: Math.max(opacity, 0.1),
+  boxShadow: `0 0 ${12 * opacity}px ${color}`,
+});
+
+export const LedPanel: React.FC<{ ev3?: DefaultEv3 }> = ({ ev3 }) => {
+  const [timing, brightnesses] = useFetchFromSimulation(() => {
+    if (ev3 === undefined) {
+      return null;
+    }
+    return ledNames.map((name) => ev3.get(name).getBrightness());
+  }, 200);
+
+  if (!ev3) {
+    return (
+      <TabWrapper>
+        EV3 not found in context. Did you call saveToContext('ev3', ev3);
+      </TabWrapper>
+    );
+  }
+
+  if (timing === null || brightnesses === null) {
+    return <TabWrapper>Loading LEDs</TabWrapper>;
+  }
+
+  return (
+    <TabWrapper>
+      <LastUpdated time={timing} />
+      <div style={RowStyle}>
+        {ledNames.map((name, i) => {
+          const { color, maxBrightness } = ev3.get(name).config;
+          return (
+            <div key={name}>
+              <div style={lightStyle(color, brightnesses[i] / maxBrightness)} />
+              <p>{name}: {brightnesses[i]}</p>
+            </div>
+          );
+        })}
+      </div>
+    </TabWrapper>
+  );
+};
@@ -0,0 +1,153 @@
+import { Button, ButtonGroup, HTMLSelect, Slider } from '@blueprintjs/core';
+import { IconNames } from '@blueprintjs/icons';
+import React, { useState, type ChangeEvent, type CSSProperties } from 'react';
+import save from 'save-file';
+import type { DefaultEv3 } from '../../../../bundles/robot_simulation/controllers/ev3/ev3/default/ev3';
+import { createEv3RecordingChannels } from '../../../../bundles/robot_simulation/controllers/ev3/ev3/default/recording';
+import type { World } from '../../../../bundles/robot_simulation/engine';
+import { checkRecordingBodies, parseRecording, type SimulationRecording } from '../../../../bundles/robot_simulation/engine/Recording';
+import { useFetchFromSimulation } from '../../hooks/fetchFromSimulation';
+import { TabWrapper } from './tabComponents/Wrapper';
+
+const RowStyle: CSSProperties = {
+  display: 'flex',
+  flexDirection: 'row',
+  alignItems: 'center',
+  gap: '0.6rem',
+};
+
+const speeds = [0.25, 0.5, 1, 2, 4];
+
+export const ReplayPanel: React.FC<{ world: World; ev3?: DefaultEv3 }> = ({ world, ev3 }) => {
+  const [recording, setRecording] = useState<SimulationRecording | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const [, state] = useFetchFromSimulation(() => ({
+    isRecording: world.recorder !== null,
+    recordedFrames: world.recorder?.frames.length ?? 0,
+    replayer: world.replayer,
+    frame: world.replayer?.getFrameIndex() ?? 0,
+    isPlaying: world.replayer?.isPlaying ?? false,
+    values: world.replayer?.getChannelValues() ?? {},
+  }), 100);
+
+  const channels = () => (ev3 === undefined ? {} : createEv3RecordingChannels(ev3));
+
+  const startRecording = () => {
+    world.startRecording(channels());
+    setError(null);
+  };
+
+  const stopRecording = () => {
+    setRecording(world.stopRecording());
+  };
+
+  const exportRecording = async () => {
+    if (recording !== null) {
+      await save(JSON.stringify(recording), 'Robot Simulation Recording.json');
+    }
+  };
+
+  const importRecording = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file === undefined) {
+      return;
+    }
+    try {
+      const imported = parseRecording(await file.text());
+      checkRecordingBodies(imported, world.physics);
+      setRecording(imported);
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const startReplay = () => {
+    if (recording === null) {
+      return;
+    }
+    try {
+      world.startReplay(recording, channels());
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  if (state === null) {
+    return <TabWrapper>Loading replay</TabWrapper>;
+  }
+
+  const { isRecording, recordedFrames, replayer, frame, isPlaying, values } = state;
+
+  if (replayer !== null) {
+    const lastFrame = Math.max(replayer.getFrameCount() - 1, 0);
+    return (
+      <TabWrapper>
+        <div style={RowStyle}>
+          <ButtonGroup>
+            {isPlaying
+              ? <Button icon={IconNames.PAUSE} text="Pause" onClick={() => { replayer.isPlaying = false; }} />
+              : (
+                <Button
+                  icon={IconNames.PLAY}
+                  text="Play"
+                  onClick={() => {
+                    if (frame === lastFrame) {
+                      replayer.seek(0);
+                    }
+                    replayer.isPlaying = true;
+                  }}
+                />
+              )}
+            <Button icon={IconNames.CROSS} text="Exit replay" onClick={() => world.stopReplay()} />
+          </ButtonGroup>
+          <HTMLSelect
+            value={replayer.speed}
+            onChange={(e) => { replayer.speed = Number(e.currentTarget.value); }}
+            options={speeds.map((speed) => ({ value: speed, label: `${speed}x` }))}
+          />
+          <span>Frame {frame} / {lastFrame}</span>
+        </div>
+        <Slider
+          min={0}
+          max={lastFrame}
+          value={frame}
+          labelRenderer={false}
+          onChange={(value) => {
+            replayer.isPlaying = false;
+            replayer.seek(value);
+          }}
+        />
+        <div style={RowStyle}>
+          {Object.entries(values)
+            .map(([name, value]) => <span key={name}>{name}: {value.toFixed(2)}</span>)}
+        </div>
+      </TabWrapper>
+    );
+  }
+
+  return (
+    <TabWrapper>
+      <div style={RowStyle}>
+        <ButtonGroup>
+          {isRecording
+            ? <Button icon={IconNames.STOP} text="Stop recording" onClick={stopRecording} />
+            : <Button icon={IconNames.RECORD} text="Start recording" onClick={startRecording} />}
+          <Button icon={IconNames.PLAY} text="Replay" disabled={recording === null} onClick={startReplay} />
+          <Button icon={IconNames.EXPORT} text="Export" disabled={recording === null} onClick={exportRecording} />
+        </ButtonGroup>
+        <input type="file" accept=".json,application/json" onChange={importRecording} />
+      </div>
+      <p>
+        {isRecording
+          ? `Recording: ${recordedFrames} frames`
+          : recording === null
+            ? 'No recording. Start recording, or import a recording exported before.'
+            : `Recording of ${recording.frames.length} frames (${(recording.frames.length * recording.timestep / 1000).toFixed(1)}s)`}
+      </p>
+      {error !== null && <p>{error}</p>}
+    </TabWrapper>
+  );
+};
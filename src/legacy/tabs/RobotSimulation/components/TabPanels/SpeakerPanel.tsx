@@ -0,0 +1,62 @@
+import React from 'react';
+import type { SpeakerOutput } from '../../../../bundles/robot_simulation/controllers/ev3/components/Speaker';
+import type { DefaultEv3 } from '../../../../bundles/robot_simulation/controllers/ev3/ev3/default/ev3';
+import { useFetchFromSimulation } from '../../hooks/fetchFromSimulation';
+import { LastUpdated } from './tabComponents/LastUpdated';
+import { TabWrapper } from './tabComponents/Wrapper';
+
+const getOutputString = (output: SpeakerOutput) => {
+  const timeString = `${(output.time / 1000).toFixed(2)}s`;
+  if (output.type === 'speech') {
+    return `[${timeString}] Said: "${output.text}"`;
+  }
+  const frequencies = output.tones.map((tone) => `${tone.frequency}Hz`)
+    .join(', ');
+  return `[${timeString}] Played ${output.tones.length} tones: ${frequencies}`;
+};
+
+export const SpeakerPanel: React.FC<{ ev3?: DefaultEv3 }> = ({ ev3 }) => {
+  const speaker = ev3?.get('speaker');
+  const [timing, outputs] = useFetchFromSimulation(() => {
+    if (speaker === undefined) {
+      return null;
+    }
+    return [...speaker.outputs];
+  }, 1000);
+
+  if (!ev3) {
+    return (
+      <TabWrapper>
+        EV3 not found in context. Did you call saveToContext('ev3', ev3);
+      </TabWrapper>
+    );
+  }
+
+  if (timing === null) {
+    return <TabWrapper>Loading speaker</TabWrapper>;
+  }
+
+  if (outputs === null) {
+    return <TabWrapper>Speaker not found</TabWrapper>;
+  }
+
+  if (outputs.length === 0) {
+    return (
+      <TabWrapper>
+        <LastUpdated time={timing} />
+        <p>The EV3 has not played anything yet</p>
+      </TabWrapper>
+    );
+  }
+
+  return (
+    <TabWrapper>
+      <LastUpdated time={timing} />
+      <ul>
+        {outputs.map((output, i) => (
+          <li key={i}>{getOutputString(output)}</li>
+        ))}
+      </ul>
+    </TabWrapper>
+  );
+};
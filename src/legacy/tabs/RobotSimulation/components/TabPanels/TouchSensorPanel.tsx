@@ -0,0 +1,41 @@
+import React from 'react';
+import type { DefaultEv3 } from '../../../../bundles/robot_simulation/controllers/ev3/ev3/default/ev3';
+import { useFetchFromSimulation } from '../../hooks/fetchFromSimulation';
+import { LastUpdated } from './tabComponents/LastUpdated';
+import { TabWrapper } from './tabComponents/Wrapper';
+
+export const TouchSensorPanel: React.FC<{ ev3?: DefaultEv3 }> = ({ ev3 }) => {
+  const touchSensor = ev3?.get('touchSensor');
+  const [timing, pressed] = useFetchFromSimulation(() => {
+    if (touchSensor === undefined) {
+      return null;
+    }
+    return touchSensor.sense();
+  }, 1000);
+
+  if (!ev3) {
+    return (
+      <TabWrapper>
+        EV3 not found in context. Did you call saveToContext('ev3', ev3);
+      </TabWrapper>
+    );
+  }
+
+  if (timing === null) {
+    return <TabWrapper>Loading touch sensor</TabWrapper>;
+  }
+
+  if (pressed === null || touchSensor === undefined) {
+    return <TabWrapper>Touch sensor not found</TabWrapper>;
+  }
+
+  return (
+    <TabWrapper>
+      <LastUpdated time={timing} />
+      <div>
+        <p>Port: {touchSensor.config.port}</p>
+        <p>Pressed: {pressed ? 'Yes' : 'No'}</p>
+      </div>
+    </TabWrapper>
+  );
+};
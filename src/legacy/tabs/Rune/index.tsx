@@ -1,10 +1,12 @@
 import { type RuneModuleState, isHollusionRune } from '../../bundles/rune/functions';
+import { NormalRune } from '../../bundles/rune/rune';
 import { glAnimation } from '../../typings/anim_types';
 import { getModuleState, type DebuggerContext, type ModuleTab } from '../../typings/type_helpers';
 import AnimationCanvas from '../common/AnimationCanvas';
 import MultiItemDisplay from '../common/MultItemDisplay';
 import WebGLCanvas from '../common/WebglCanvas';
 import HollusionCanvas from './hollusion_canvas';
+import RuneCanvas from './rune_canvas';
 
 export const RuneTab: ModuleTab = ({ context }) => {
   const { drawnRunes } = getModuleState<RuneModuleState>(context, 'rune');
@@ -21,6 +23,11 @@ export const RuneTab: ModuleTab = ({ context }) => {
         <HollusionCanvas rune={rune} key={elemKey} />
       );
     }
+    if (rune instanceof NormalRune) {
+      return (
+        <RuneCanvas rune={rune} key={elemKey} />
+      );
+    }
     return (
       <WebGLCanvas
         ref={(r) => {
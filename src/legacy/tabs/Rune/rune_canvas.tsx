@@ -0,0 +1,56 @@
+import { Button, ButtonGroup } from '@blueprintjs/core';
+import { IconNames } from '@blueprintjs/icons';
+import React from 'react';
+import type { NormalRune } from '../../bundles/rune/rune';
+import { saveRunePng, saveRuneSvg } from '../../bundles/rune/runes_export';
+import WebGLCanvas from '../common/WebglCanvas';
+import { BP_TEXT_MARGIN } from '../common/css_constants';
+
+/**
+ * Canvas used to display basic runes, with buttons to download the rune as an
+ * image
+ */
+export default function RuneCanvas({ rune }: { rune: NormalRune }) {
+  const [saveError, setSaveError] = React.useState<unknown>();
+
+  const onSave = (saveRune: typeof saveRuneSvg) => () => {
+    setSaveError(undefined);
+    saveRune(rune.rune, 512)
+      .catch(setSaveError);
+  };
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        gap: 10
+      }}
+    >
+      <WebGLCanvas
+        ref={(r) => {
+          if (r) {
+            rune.draw(r);
+          }
+        }}
+      />
+      <ButtonGroup>
+        <Button icon={IconNames.DOWNLOAD} onClick={onSave(saveRuneSvg)}>
+          SVG
+        </Button>
+        <Button icon={IconNames.DOWNLOAD} onClick={onSave(saveRunePng)}>
+          PNG
+        </Button>
+      </ButtonGroup>
+      {saveError !== undefined && (
+        <code style={{
+          color: 'red',
+          paddingBottom: BP_TEXT_MARGIN
+        }}>
+          Unable to save the rune: {String(saveError)}
+        </code>
+      )}
+    </div>
+  );
+}
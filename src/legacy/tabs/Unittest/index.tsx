@@ -1,5 +1,7 @@
+import { Classes, Intent, Tree, type TreeNodeInfo } from '@blueprintjs/core';
+import { IconNames } from '@blueprintjs/icons';
 import React from 'react';
-import type { SuiteResult, TestContext } from '../../bundles/unittest/types';
+import type { SuiteResult, TestContext, TestResult } from '../../bundles/unittest/types';
 import { getModuleState, type DebuggerContext } from '../../typings/type_helpers';
 
 /**
@@ -11,72 +13,106 @@ type Props = {
   context: TestContext;
 };
 
+type State = {
+  // Ids of the nodes whose expanded state differs from the default
+  toggled: Set<string>;
+};
+
+const formatRuntime = (runtime: number) => `${runtime.toFixed(1)} ms`;
+
+const testIcons = {
+  passed: IconNames.TICK_CIRCLE,
+  failed: IconNames.ERROR,
+  skipped: IconNames.DISABLE,
+};
+
+const testIntents = {
+  passed: Intent.SUCCESS,
+  failed: Intent.DANGER,
+  skipped: Intent.NONE,
+};
+
 /**
- * Converts the results of a test suite run into a table format in its own div.
+ * Converts the result of a single test into a tree node. Failed tests can be
+ * expanded to show their error.
  */
-function suiteResultToDiv(suiteResult: SuiteResult) {
-  const { name, results, total, passed } = suiteResult;
-  if (results.length === 0) {
-    return <div>
-      Your test suite did not contain any tests!
-    </div>;
-  }
-
-  const colfixed = {
-    border: '1px solid gray',
-    overflow: 'hidden',
-    width: 200,
-  };
-  const colauto = {
-    border: '1px solid gray',
-    overflow: 'hidden',
-    width: 'auto',
+function testResultToNode(
+  { name, error, status, runtime }: TestResult,
+  id: string,
+  isToggled: (id: string) => boolean
+): TreeNodeInfo {
+  return {
+    id,
+    label: name,
+    icon: testIcons[status],
+    secondaryLabel: status === 'skipped' ? 'Skipped' : formatRuntime(runtime),
+    className: Classes.intentClass(testIntents[status]),
+    hasCaret: status === 'failed',
+    isExpanded: isToggled(id),
+    childNodes: status === 'failed'
+      ? [{
+        id: `${id}/error`,
+        label: <span className={Classes.TEXT_MUTED} style={{ whiteSpace: 'pre-wrap' }}>{error}</span>,
+      }]
+      : undefined,
   };
+}
 
-  const rows = results.map(({ name: testname, error }, index) => (
-    <tr key={index}>
-      <td style={colfixed}>{testname}</td>
-      <td style={colauto}>{error || 'Passed.'}</td>
-    </tr>
-  ));
+/**
+ * Converts the results of a test suite run into a tree node. Suites are
+ * expanded unless every test in them passed.
+ */
+function suiteResultToNode(
+  suiteResult: SuiteResult,
+  id: string,
+  isToggled: (id: string) => boolean
+): TreeNodeInfo {
+  const { name, results, suites, error, total, passed, skipped, runtime } = suiteResult;
+  const failed = total - passed - skipped;
 
-  const tablestyle = {
-    'table-layout': 'fixed',
-    width: '100%',
-  };
-  const table = (
-    <table style={tablestyle}>
-      <thead>
-        <tr>
-          <th style={colfixed}>Test case</th>
-          <th style={colauto}>Messages</th>
-        </tr>
-      </thead>
-      <tbody>{rows}</tbody>
-    </table>
-  );
-
-  const suitestyle = {
-    border: '1px solid white',
-    padding: 5,
-    margin: 5,
+  const childNodes = [
+    ...(error
+      ? [{
+        id: `${id}/error`,
+        label: <span className={Classes.TEXT_MUTED}>{error}</span>,
+        icon: IconNames.WARNING_SIGN,
+      }]
+      : []),
+    ...results.map((result, i) => testResultToNode(result, `${id}/test${i}`, isToggled)),
+    ...suites.map((suite, i) => suiteResultToNode(suite, `${id}/suite${i}`, isToggled)),
+  ];
+
+  return {
+    id,
+    label: <strong>{name}</strong>,
+    icon: failed > 0 || error ? IconNames.FOLDER_OPEN : IconNames.FOLDER_CLOSE,
+    secondaryLabel: `${passed}/${total - skipped} passed · ${formatRuntime(runtime)}`,
+    className: Classes.intentClass(failed > 0 || error ? Intent.DANGER : Intent.SUCCESS),
+    hasCaret: childNodes.length > 0,
+    isExpanded: (failed > 0 || error !== '') !== isToggled(id),
+    childNodes,
   };
-  return (
-    <div style={suitestyle} key={name}>
-      <p>
-        <strong>{name}</strong>
-      </p>
-      <p>
-        Passed testcases: {passed}/{total}
-      </p>
-      {table}
-    </div>
-  );
 }
 
-class TestSuitesTab extends React.PureComponent<Props> {
+class TestSuitesTab extends React.PureComponent<Props, State> {
+  constructor(props: Props) {
+    super(props);
+    this.state = { toggled: new Set() };
+  }
+
+  private toggleNode = (node: TreeNodeInfo) => {
+    this.setState(({ toggled }) => {
+      const newToggled = new Set(toggled);
+      const id = node.id.toString();
+      if (!newToggled.delete(id)) {
+        newToggled.add(id);
+      }
+      return { toggled: newToggled };
+    });
+  };
+
   public render() {
-    const { context: { suiteResults, called } } = this.props;
+    const { context: { allResults, called, runtime } } = this.props;
 
     if (!called) {
       return <div>
@@ -84,12 +120,22 @@ class TestSuitesTab extends React.PureComponent<Props> {
       </div>;
     }
 
-    const block = suiteResultToDiv(suiteResults);
+    const isToggled = (id: string) => this.state.toggled.has(id);
+    const nodes = allResults.results.map((suite, i) => suiteResultToNode(suite, `suite${i}`, isToggled));
+    const total = allResults.results.reduce((sum, suite) => sum + suite.total - suite.skipped, 0);
+    const passed = allResults.results.reduce((sum, suite) => sum + suite.passed, 0);
 
     return (
       <div>
-        <p>The following is a report of your tests.</p>
-        {block}
+        <p>
+          The following is a report of your tests. Passed testcases: {passed}/{total}, in {formatRuntime(runtime)}.
+        </p>
+        <Tree
+          contents={nodes}
+          onNodeClick={this.toggleNode}
+          onNodeCollapse={this.toggleNode}
+          onNodeExpand={this.toggleNode}
+        />
       </div>
     );
   }
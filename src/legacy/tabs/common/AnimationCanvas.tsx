@@ -1,7 +1,8 @@
-import { Icon, Slider, Tooltip } from '@blueprintjs/core';
+import { HTMLSelect, Icon, Slider, Spinner, Tooltip } from '@blueprintjs/core';
 import { IconNames } from '@blueprintjs/icons';
 import React from 'react';
-import { type glAnimation } from '../../typings/anim_types';
+import { ANIMATION_FORMATS, saveAnimation, type AnimationFormat } from '../../common/animationExport';
+import type { glAnimation } from '../../typings/anim_types';
 import AutoLoopSwitch from './AutoLoopSwitch';
 import ButtonComponent from './ButtonComponent';
 import PlayButton from './PlayButton';
@@ -25,6 +26,14 @@ type AnimCanvasState = {
   /** Whether auto loop is enabled */
   isAutoLooping: boolean;
 
+  /** Format the animation is exported in */
+  exportFormat: AnimationFormat;
+
+  /** Whether the animation is being exported */
+  isExporting: boolean;
+
+  exportError?: any;
+
   errored?: any;
 };
 
@@ -63,7 +72,9 @@ export default class AnimationCanvas extends React.Component<
       animTimestamp: 0,
       isPlaying: false,
       wasPlaying: false,
-      isAutoLooping: true
+      isAutoLooping: true,
+      exportFormat: 'gif',
+      isExporting: false
     };
 
     this.canvas = null;
@@ -238,6 +249,34 @@ export default class AnimationCanvas extends React.Component<
     }));
   };
 
+  /**
+   * Export format onChange callback
+   */
+  private onFormatChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    this.setState({
+      exportFormat: event.currentTarget.value as AnimationFormat
+    });
+  };
+
+  /**
+   * Export button click handler. Frames are drawn on a separate canvas, so
+   * playback is left as it is.
+   */
+  private onExportButtonClick = () => {
+    this.setState({
+      isExporting: true,
+      exportError: undefined
+    }, async () => {
+      try {
+        await saveAnimation(this.props.animation, this.state.exportFormat);
+      } catch (error) {
+        this.setState({ exportError: error });
+      } finally {
+        this.setState({ isExporting: false });
+      }
+    });
+  };
+
   public render() {
     return <div
       style={{
@@ -294,8 +333,47 @@ export default class AnimationCanvas extends React.Component<
             disabled={Boolean(this.state.errored)}
             onChange={ this.onSwitchChange }
           />
+          <HTMLSelect
+            minimal
+            value={ this.state.exportFormat }
+            disabled={Boolean(this.state.errored) || this.state.isExporting}
+            onChange={ this.onFormatChange }
+          >
+            {Object.entries(ANIMATION_FORMATS)
+              .map(([format, { label }]) => (
+                <option key={format} value={format}>{label}</option>
+              ))}
+          </HTMLSelect>
+          <Tooltip
+            content="Export"
+            placement="top"
+          >
+            <ButtonComponent
+              disabled={Boolean(this.state.errored) || this.state.isExporting}
+              onClick={this.onExportButtonClick}
+            >
+              {this.state.isExporting
+                ? <Spinner size={16} />
+                : <Icon icon={ IconNames.EXPORT } />}
+            </ButtonComponent>
+          </Tooltip>
         </div>
       </div>
+      {this.state.exportError && (
+        <div
+          style={{
+            display: 'flex',
+            justifyContent: 'center',
+            paddingBottom: BP_TEXT_MARGIN
+          }}
+        >
+          <code style={{
+            color: 'red'
+          }}>
+            Unable to export the animation: {this.state.exportError.toString()}
+          </code>
+        </div>
+      )}
       <div
         style={{
           display: 'flex',
@@ -0,0 +1,377 @@
+import { Button, Callout, HTMLSelect, Icon, Slider } from '@blueprintjs/core';
+import { IconNames } from '@blueprintjs/icons';
+import React from 'react';
+import save from 'save-file';
+import {
+  layoutMemory,
+  validateTimeline,
+  type HeapCommand,
+  type HeapRegion,
+  type HeapTimelineData,
+  type TimelineIssue,
+  type TimelineRules
+} from '../../common/heapTimeline';
+
+export enum HeapColor {
+  BLUE = 'lightblue',
+  PINK = 'salmon',
+  GREY = '#707070',
+  GREEN = '#42a870',
+  YELLOW = '#f0d60e',
+}
+
+const ALL_COMMANDS = 'All commands';
+
+type Props<C extends HeapCommand> = {
+  timeline: HeapTimelineData<C>;
+  rules: TimelineRules;
+  /** Introduction shown above the current step */
+  description: React.ReactNode;
+  /** File name of the exported timeline, without extension */
+  exportName: string;
+  /** Label drawn on the slider at the steps of each list of markers */
+  markerLabels?: Record<string, string>;
+  /** Colour of a word, undefined to use the default colours */
+  getMemoryColor?: (index: number, command: C) => string | undefined;
+  /** Highlight of a word, undefined to highlight the command's left and right ranges */
+  getBackgroundColor?: (index: number, command: C) => string | undefined;
+  getRegionTitle?: (region: HeapRegion, command: C) => string;
+  getHeading?: (command: C) => string;
+  getHeadingColor?: (command: C) => string | undefined;
+  /** Extra legend entries for the current step */
+  renderCommandLegend?: (command: C) => React.ReactNode;
+  /** Extra information shown under the memory grids */
+  renderCommandDetails?: (command: C) => React.ReactNode;
+  /** Extra legend rows shown at the bottom */
+  legend?: React.ReactNode;
+};
+
+type State = {
+  value: number;
+  searchType: string;
+  issues: TimelineIssue[];
+};
+
+export const HeapLegend = ({ color, description }: { color: string; description: string }) => (
+  <div style={{ flex: 1 }}>
+    <canvas
+      width={10}
+      height={10}
+      style={{
+        backgroundColor: color
+      }}
+    />
+    <span> {description} </span>
+  </div>
+);
+
+/**
+ * Steps through a heap timeline recorded by one of the garbage collector
+ * modules, drawing memory as grids of words.
+ *
+ * The arrow keys step through the timeline, Home and End jump to either end,
+ * and Page Up and Page Down jump between commands of the searched type.
+ */
+export default class HeapTimelineView<C extends HeapCommand> extends React.Component<
+  Props<C>,
+  State
+> {
+  constructor(props: Props<C>) {
+    super(props);
+
+    this.state = {
+      value: 0,
+      searchType: ALL_COMMANDS,
+      issues: validateTimeline(props.timeline, props.rules)
+    };
+  }
+
+  private setStep = (step: number) => {
+    const { commands } = this.props.timeline;
+    this.setState({ value: Math.max(0, Math.min(step, commands.length - 1)) });
+  };
+
+  private handlePlus = () => {
+    this.setStep(this.state.value + 1);
+  };
+
+  private handleMinus = () => {
+    this.setStep(this.state.value - 1);
+  };
+
+  private getMatches = (): number[] => {
+    const { searchType } = this.state;
+    const { commands } = this.props.timeline;
+    if (searchType === ALL_COMMANDS) return [];
+    return commands
+      .map((command, step) => (command.type === searchType ? step : -1))
+      .filter((step) => step >= 0);
+  };
+
+  private nextMatch = () => {
+    const { value } = this.state;
+    const next = this.getMatches()
+      .find((step) => step > value);
+    if (next !== undefined) this.setStep(next);
+  };
+
+  private previousMatch = () => {
+    const { value } = this.state;
+    const previous = this.getMatches()
+      .reverse()
+      .find((step) => step < value);
+    if (previous !== undefined) this.setStep(previous);
+  };
+
+  private handleSearch = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const { value } = this.state;
+    const searchType = event.currentTarget.value;
+    this.setState({ searchType }, () => {
+      const matches = this.getMatches();
+      const next = matches.find((step) => step >= value) ?? matches[0];
+      if (next !== undefined) this.setStep(next);
+    });
+  };
+
+  private handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    const { commands } = this.props.timeline;
+    const handlers: Record<string, () => void> = {
+      ArrowLeft: this.handleMinus,
+      ArrowRight: this.handlePlus,
+      Home: () => this.setStep(0),
+      End: () => this.setStep(commands.length - 1),
+      PageUp: this.previousMatch,
+      PageDown: this.nextMatch
+    };
+    const handler = handlers[event.key];
+    if (handler) {
+      event.preventDefault();
+      handler();
+    }
+  };
+
+  private handleExport = () => {
+    const { timeline, exportName } = this.props;
+    const { issues } = this.state;
+    return save(
+      new Blob([JSON.stringify({ ...timeline, issues }, null, 2)], {
+        type: 'application/json'
+      }),
+      `${exportName}.json`
+    );
+  };
+
+  private isTag = (value: number) => this.props.timeline.tags?.includes(value) ?? false;
+
+  private getMemoryColor = (index: number, command: C) => {
+    const custom = this.props.getMemoryColor?.(index, command);
+    if (custom !== undefined) return custom;
+
+    const value = command.heap ? command.heap[index] : 0;
+    if (!value) {
+      return HeapColor.GREY;
+    }
+    if (this.isTag(value)) {
+      return HeapColor.PINK;
+    }
+    return HeapColor.BLUE;
+  };
+
+  private getBackgroundColor = (index: number, command: C) => {
+    const custom = this.props.getBackgroundColor?.(index, command);
+    if (custom !== undefined) return custom;
+
+    const { left, right, sizeLeft, sizeRight } = command;
+    if (index >= left && index < left + sizeLeft) {
+      return HeapColor.GREEN;
+    }
+    if (index >= right && index < right + sizeRight) {
+      return HeapColor.YELLOW;
+    }
+    return '';
+  };
+
+  private renderLabel = (val: number) => {
+    const { markers } = this.props.timeline;
+    const { markerLabels = {} } = this.props;
+    const name = Object.keys(markerLabels)
+      .find((marker) => markers[marker]?.includes(val));
+    return name ? markerLabels[name] : `${val}`;
+  };
+
+  private renderIssues = () => {
+    const { issues } = this.state;
+    if (issues.length === 0) return null;
+    return (
+      <Callout intent="danger" title="This timeline is inconsistent">
+        {issues.map((issue, i) => (
+          <div key={i}>
+            {issue.step >= 0
+              ? (
+                <a onClick={() => this.setStep(issue.step)}>{issue.message}</a>
+              )
+              : issue.message}
+          </div>
+        ))}
+      </Callout>
+    );
+  };
+
+  private renderRegion = (region: HeapRegion, command: C) => {
+    const { timeline, getRegionTitle } = this.props;
+    const matrix = layoutMemory(region.start, region.end, timeline.column);
+
+    return (
+      <div key={region.start}>
+        {timeline.regions.length > 1 && (
+          <h3>{getRegionTitle ? getRegionTitle(region, command) : region.title}</h3>
+        )}
+        {matrix.map((row) => (
+          <div
+            key={row[0]}
+            style={{
+              display: 'flex',
+              flexDirection: 'row'
+            }}
+          >
+            <span style={{ width: 30 }}> {row[0]} </span>
+            {row.map((index) => (
+              <div
+                key={index}
+                style={{
+                  width: 14,
+                  backgroundColor: this.getBackgroundColor(index, command)
+                }}
+              >
+                <canvas
+                  width={10}
+                  height={10}
+                  style={{
+                    backgroundColor: this.getMemoryColor(index, command)
+                  }}
+                />
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  public render() {
+    const {
+      timeline,
+      rules,
+      description,
+      getHeading,
+      getHeadingColor,
+      renderCommandLegend,
+      renderCommandDetails,
+      legend
+    } = this.props;
+    const { value, searchType } = this.state;
+    const { commands, markers } = timeline;
+    const command = commands[value];
+    const searchTypes = rules.types.filter((type) => commands.some((c) => c.type === type));
+    const matches = this.getMatches();
+
+    return (
+      <div
+        tabIndex={0}
+        onKeyDown={this.handleKeyDown}
+        style={{ outline: 'none' }}
+      >
+        <div>
+          {description}
+          {this.renderIssues()}
+          <h3 style={{ color: getHeadingColor?.(command) }}>
+            {getHeading ? getHeading(command) : command.type}
+          </h3>
+          <p> {command.desc} </p>
+          <div
+            style={{
+              display: 'flex',
+              flexDirection: 'row',
+              marginTop: 10
+            }}
+          >
+            {command.leftDesc && (
+              <HeapLegend color={HeapColor.GREEN} description={command.leftDesc} />
+            )}
+            {command.rightDesc && (
+              <HeapLegend color={HeapColor.YELLOW} description={command.rightDesc} />
+            )}
+            {renderCommandLegend?.(command)}
+          </div>
+          <br />
+          <p>
+            Current step:
+            {'   '}
+            <Icon icon="remove" onClick={this.handleMinus} />
+            {'   '}
+            {value}
+            {'   '}
+            <Icon icon="add" onClick={this.handlePlus} />
+          </p>
+          <div style={{ padding: 5 }}>
+            <Slider
+              disabled={commands.length <= 1}
+              min={0}
+              max={commands.length - 1}
+              onChange={this.setStep}
+              value={value}
+              labelValues={Object.values(markers)
+                .flat()}
+              labelRenderer={this.renderLabel}
+            />
+          </div>
+          <div
+            style={{
+              display: 'flex',
+              flexDirection: 'row',
+              alignItems: 'center',
+              gap: 5
+            }}
+          >
+            <HTMLSelect value={searchType} onChange={this.handleSearch}>
+              {[ALL_COMMANDS, ...searchTypes].map((type) => (
+                <option key={type} value={type}>{type}</option>
+              ))}
+            </HTMLSelect>
+            <Button
+              icon={IconNames.CHEVRON_LEFT}
+              disabled={matches.length === 0}
+              onClick={this.previousMatch}
+            />
+            <Button
+              icon={IconNames.CHEVRON_RIGHT}
+              disabled={matches.length === 0}
+              onClick={this.nextMatch}
+            />
+            {searchType !== ALL_COMMANDS && <span> {matches.length} found </span>}
+            <div style={{ flex: 1 }} />
+            <Button icon={IconNames.EXPORT} onClick={this.handleExport}>
+              Export JSON
+            </Button>
+          </div>
+        </div>
+        <div>
+          {timeline.regions.map((region) => this.renderRegion(region, command))}
+          {renderCommandDetails?.(command)}
+        </div>
+        <div
+          style={{
+            display: 'flex',
+            flexDirection: 'row',
+            marginTop: 10
+          }}
+        >
+          <HeapLegend color={HeapColor.BLUE} description="defined" />
+          <HeapLegend color={HeapColor.PINK} description="tag" />
+          <HeapLegend color={HeapColor.GREY} description="empty or undefined" />
+        </div>
+        {legend}
+      </div>
+    );
+  }
+}
@@ -0,0 +1,106 @@
+import { plugin as SoundWebHostPlugin } from '..';
+
+jest.mock('conductor/dist/conduit/rpc', () => ({
+  makeRpc: jest.fn()
+}));
+
+class MockMediaRecorder {
+  static instances: MockMediaRecorder[] = [];
+
+  state: 'inactive' | 'recording' = 'inactive';
+  ondataavailable: ((e: { data: Blob }) => void) | null = null;
+  onstop: (() => void) | null = null;
+
+  constructor() {
+    MockMediaRecorder.instances.push(this);
+  }
+
+  start() {
+    this.state = 'recording';
+  }
+
+  stop() {
+    this.state = 'inactive';
+    this.ondataavailable?.({ data: new Blob([new Uint8Array(4)]) });
+    this.onstop?.();
+  }
+}
+
+class MockAudioContext {
+  currentTime = 0;
+  destination = {};
+
+  constructor(public options?: { sampleRate: number }) {}
+
+  createOscillator() {
+    return {
+      frequency: { value: 0 },
+      connect: jest.fn(),
+      disconnect: jest.fn(),
+      start: jest.fn(),
+      stop: jest.fn()
+    };
+  }
+
+  decodeAudioData() {
+    // a recording of one second at the requested sample rate
+    return Promise.resolve({ getChannelData: () => new Float32Array(this.options!.sampleRate) });
+  }
+
+  close() {
+    return Promise.resolve();
+  }
+}
+
+Object.assign(globalThis, {
+  AudioContext: MockAudioContext,
+  MediaRecorder: MockMediaRecorder
+});
+Object.defineProperty(navigator, 'mediaDevices', {
+  value: { getUserMedia: () => Promise.resolve({}) }
+});
+// jsdom's Blob cannot be read back
+Blob.prototype.arrayBuffer = () => Promise.resolve(new ArrayBuffer(4));
+
+let host: InstanceType<typeof SoundWebHostPlugin>;
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+beforeEach(async () => {
+  MockMediaRecorder.instances = [];
+  host = new SoundWebHostPlugin({} as any, [{} as any]);
+  await host.initRecord();
+});
+
+test('overlapping recordings each finish with their own recorder', async () => {
+  const first = host.record(0, 8000, 0, 0.05);
+  const second = host.record(1, 8000, 0, 0.05);
+
+  await expect(first).resolves.toHaveLength(8000);
+  await expect(second).resolves.toHaveLength(8000);
+  expect(MockMediaRecorder.instances.map(recorder => recorder.state))
+    .toEqual(['inactive', 'inactive']);
+});
+
+test('stopping a recording leaves the others running', async () => {
+  const first = host.record(0, 8000, 0);
+  host.record(1, 8000, 0);
+  // wait for the recording signal to finish
+  await sleep(150);
+
+  host.stopRecording(0);
+  await expect(first).resolves.toHaveLength(8000);
+  expect(MockMediaRecorder.instances.map(recorder => recorder.state))
+    .toEqual(['inactive', 'recording']);
+  host.stopRecording(1);
+});
+
+test('stopping a recording before it begins rejects it', async () => {
+  const recording = host.record(0, 8000, 0);
+  host.stopRecording(0);
+  await expect(recording).rejects.toThrow('Recording was stopped before it began');
+  expect(MockMediaRecorder.instances[0].state)
+    .toBe('inactive');
+});
@@ -0,0 +1,83 @@
+import { act } from 'react';
+import { createRoot, type Root } from 'react-dom/client';
+import type { DebuggerContext } from '../../../../../legacy/typings/type_helpers';
+import { audioBufferToWav } from '../../../runnerPlugin/wav';
+import type { DisplayedSound, ISoundDisplay } from '../../../types/ISoundDisplay';
+import { setSoundDisplay } from '../display';
+import SoundTabModule from '../tab';
+
+class MockDisplay implements ISoundDisplay {
+  displayedSounds: readonly DisplayedSound[] = [];
+  playbackErrors: readonly string[] = [];
+  listeners = new Set<() => void>();
+
+  subscribeDisplayedSounds(listener: () => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  clearDisplayedSounds() {
+    this.displayedSounds = [];
+    this.playbackErrors = [];
+    this.listeners.forEach(listener => listener());
+  }
+
+  show(sounds: readonly DisplayedSound[], errors: readonly string[]) {
+    this.displayedSounds = sounds;
+    this.playbackErrors = errors;
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+const context = {} as DebuggerContext;
+let display: MockDisplay;
+let container: HTMLDivElement;
+let root: Root;
+
+beforeAll(() => {
+  (globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+  URL.createObjectURL = () => 'blob:sound';
+  URL.revokeObjectURL = () => {};
+  // jsdom cannot draw, so the waveform previews are left blank
+  HTMLCanvasElement.prototype.getContext = () => null;
+});
+
+beforeEach(() => {
+  display = new MockDisplay();
+  setSoundDisplay(display);
+  container = document.createElement('div');
+  root = createRoot(container);
+});
+
+afterEach(() => {
+  act(() => root.unmount());
+});
+
+test('the tab only spawns once the host plugin has something to show', () => {
+  expect(SoundTabModule.toSpawn(context))
+    .toBe(false);
+  display.show([], ['oops']);
+  expect(SoundTabModule.toSpawn(context))
+    .toBe(true);
+});
+
+test('the tab shows the sounds and errors of the registered host plugin', async () => {
+  await act(async () => root.render(SoundTabModule.body(context)));
+  expect(container.querySelectorAll('audio'))
+    .toHaveLength(0);
+
+  const wavBuffer = audioBufferToWav(8000, [new Float32Array(4000)]);
+  await act(async () => display.show([{ id: 0, wavBuffer }, { id: 1, wavBuffer }], ['oops']));
+  expect(container.querySelectorAll('audio'))
+    .toHaveLength(2);
+  expect(container.textContent)
+    .toContain('Playback stopped: oops');
+
+  await act(async () => container.querySelector('button')!.click());
+  expect(container.querySelectorAll('audio'))
+    .toHaveLength(0);
+  expect(container.textContent)
+    .not.toContain('oops');
+});
@@ -0,0 +1,48 @@
+import { audioBufferToWav } from '../../../runnerPlugin/wav';
+import { getWavDuration, getWaveformPeaks } from '../waveform';
+
+test('getWavDuration reads the length of the clip', () => {
+  const wav = audioBufferToWav(8000, [new Float32Array(4000)]);
+  expect(getWavDuration(wav))
+    .toEqual(0.5);
+
+  const stereo = audioBufferToWav(8000, [new Float32Array(8000), new Float32Array(8000)]);
+  expect(getWavDuration(stereo))
+    .toEqual(1);
+});
+
+test('getWaveformPeaks finds the extremes of each slice', () => {
+  const samples = new Float32Array([0.5, -0.25, 1, 0, 0, 0, -1, 0.75]);
+  const peaks = getWaveformPeaks(audioBufferToWav(8000, [samples]), 4);
+
+  expect(peaks)
+    .toHaveLength(4);
+  expect(peaks[0][0])
+    .toBeCloseTo(-0.25, 3);
+  expect(peaks[0][1])
+    .toBeCloseTo(0.5, 3);
+  expect(peaks[1])
+    .toEqual([0, 1]);
+  expect(peaks[2])
+    .toEqual([0, 0]);
+  expect(peaks[3][0])
+    .toEqual(-1);
+  expect(peaks[3][1])
+    .toBeCloseTo(0.75, 3);
+});
+
+test('getWaveformPeaks considers every channel', () => {
+  const left = new Float32Array([0.5, 0.5]);
+  const right = new Float32Array([-0.5, -0.5]);
+  const [[min, max]] = getWaveformPeaks(audioBufferToWav(8000, [left, right]), 1);
+
+  expect(min)
+    .toBeCloseTo(-0.5, 3);
+  expect(max)
+    .toBeCloseTo(0.5, 3);
+});
+
+test('getWaveformPeaks rejects other formats', () => {
+  expect(() => getWaveformPeaks(new ArrayBuffer(10), 4))
+    .toThrow('Expected a 16-bit PCM WAV file');
+});
@@ -0,0 +1,18 @@
+import type { ISoundDisplay } from '../../types/ISoundDisplay';
+
+let currentDisplay: ISoundDisplay | undefined;
+
+/**
+ * Makes `display` the one shown by the Sound tab. The host plugin registers
+ * itself when it is created, so the tab follows the latest program run.
+ */
+export function setSoundDisplay(display: ISoundDisplay) {
+  currentDisplay = display;
+}
+
+/**
+ * The display registered by the most recently created host plugin, if any.
+ */
+export function getSoundDisplay(): ISoundDisplay | undefined {
+  return currentDisplay;
+}
@@ -1,46 +1,217 @@
-import type { IChannel, IConduit } from "conductor/dist/conduit";
-import { SoundModuleString } from "../../strings";
-import { makeRpc } from "conductor/dist/conduit/rpc";
-import type { ISoundHostRpc } from "../../types/ISoundHostRpc";
+import type { IChannel, IConduit } from 'conductor/dist/conduit';
+import { makeRpc } from 'conductor/dist/conduit/rpc';
+import { SoundModuleString } from '../../strings';
+import type { DisplayedSound, ISoundDisplay } from '../../types/ISoundDisplay';
+import type { ISoundHostRpc } from '../../types/ISoundHostRpc';
+import { setSoundDisplay } from './display';
 
-class SoundWebHostPlugin {
-    audioplayer: AudioContext = new AudioContext();
+// there is a beep signal at the beginning and end
+// of each recording
+const RECORDING_SIGNAL_DURATION_MS = 100;
+const RECORDING_SIGNAL_FREQUENCY = 1200;
 
-    isPlaying: boolean = false;
+type PlayStream = {
+  /** The sample rate of the blocks */
+  fs: number;
+  /** When the next block should start, in audio context time */
+  nextStartTime: number;
+  /** Blocks that have been scheduled but have not finished playing */
+  sources: Set<AudioBufferSourceNode>;
+  /** Whether the runner has sent the last block */
+  ended: boolean;
+};
 
-    async record(_fs: number, duration?: number) {
-        //
+function delay(ms: number) {
+  return new Promise<void>((resolve) => setTimeout(resolve, ms));
+}
+
+class SoundWebHostPlugin implements ISoundDisplay {
+  audioplayer: AudioContext = new AudioContext();
+
+  isPlaying: boolean = false;
+
+  microphone?: MediaStream;
+
+  // recorders of recordings that have not been stopped, by recording id
+  recorders: Map<number, MediaRecorder> = new Map();
+
+  streams: Map<number, PlayStream> = new Map();
+
+  displayedSounds: readonly DisplayedSound[] = [];
+
+  playbackErrors: readonly string[] = [];
+
+  private nextSoundId = 0;
+
+  private readonly displayListeners = new Set<() => void>();
+
+  async initRecord(): Promise<boolean> {
+    try {
+      this.microphone = await navigator.mediaDevices.getUserMedia({ audio: true });
+      return true;
+    } catch {
+      this.microphone = undefined;
+      return false;
+    }
+  }
+
+  playRecordingSignal() {
+    const oscillator = this.audioplayer.createOscillator();
+    oscillator.frequency.value = RECORDING_SIGNAL_FREQUENCY;
+    oscillator.connect(this.audioplayer.destination);
+    oscillator.onended = () => {
+      oscillator.disconnect(this.audioplayer.destination);
+    };
+    oscillator.start();
+    oscillator.stop(this.audioplayer.currentTime + RECORDING_SIGNAL_DURATION_MS / 1000);
+  }
+
+  async record(recordingId: number, fs: number, buffer: number, duration?: number): Promise<Float32Array> {
+    if (this.microphone === undefined) {
+      throw new Error('Call init_record(); to obtain permission to use microphone');
     }
 
-    play(channel: Float32Array, fs: number) {
-        const buf = this.audioplayer.createBuffer(1, channel.length, fs);
-        buf.copyToChannel(channel, 0);
-        const src = this.audioplayer.createBufferSource();
-        src.buffer = buf;
-        src.connect(this.audioplayer.destination);
-        src.onended = () => {
-            src.disconnect(this.audioplayer.destination);
-        };
-        src.start();
+    const recorder = new MediaRecorder(this.microphone);
+    this.recorders.set(recordingId, recorder);
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => {
+      if (e.data.size) chunks.push(e.data);
+    };
+    const stopped = new Promise<void>((resolve) => {
+      recorder.onstop = () => resolve();
+    });
+
+    await delay(RECORDING_SIGNAL_DURATION_MS + buffer * 1000);
+    if (this.recorders.get(recordingId) !== recorder) {
+      throw new Error('Recording was stopped before it began');
+    }
+    this.playRecordingSignal();
+    recorder.start();
+    if (duration !== undefined) {
+      await delay(duration * 1000);
+      this.stopRecording(recordingId);
     }
+    await stopped;
 
-    displaySound(wavBuffer: ArrayBuffer) {
-        //
+    // decoding through a context running at fs resamples the recording for us
+    const decoder = new AudioContext({ sampleRate: fs });
+    try {
+      const audioBuffer = await decoder.decodeAudioData(await new Blob(chunks).arrayBuffer());
+      return audioBuffer.getChannelData(0);
+    } finally {
+      decoder.close();
     }
+  }
 
-    stop() {
-        this.audioplayer.close();
+  stopRecording(recordingId: number) {
+    const recorder = this.recorders.get(recordingId);
+    this.recorders.delete(recordingId);
+    if (recorder?.state === 'recording') {
+      recorder.stop();
+      this.playRecordingSignal();
     }
+  }
+
+  beginStream(streamId: number, fs: number) {
+    this.streams.set(streamId, {
+      fs,
+      nextStartTime: 0,
+      sources: new Set(),
+      ended: false,
+    });
+  }
+
+  appendStream(streamId: number, channels: Float32Array[]) {
+    const stream = this.streams.get(streamId);
+    // blocks of cancelled streams may still be in flight
+    if (stream === undefined || channels[0].length === 0) return;
+
+    const buf = this.audioplayer.createBuffer(channels.length, channels[0].length, stream.fs);
+    channels.forEach((channel, i) => buf.copyToChannel(channel, i));
+    const src = this.audioplayer.createBufferSource();
+    src.buffer = buf;
+    src.connect(this.audioplayer.destination);
+    src.onended = () => {
+      src.disconnect(this.audioplayer.destination);
+      stream.sources.delete(src);
+      this.cleanUpStream(streamId, stream);
+    };
+
+    // queue the block right after the previous one, unless the runner fell behind
+    const startTime = Math.max(stream.nextStartTime, this.audioplayer.currentTime);
+    src.start(startTime);
+    stream.nextStartTime = startTime + buf.duration;
+    stream.sources.add(src);
+  }
+
+  endStream(streamId: number) {
+    const stream = this.streams.get(streamId);
+    if (stream === undefined) return;
+    stream.ended = true;
+    this.cleanUpStream(streamId, stream);
+  }
 
-    static readonly channelAttach = [SoundModuleString.SOUND_CHANNEL];
-    constructor(conduit: IConduit, [soundChannel]: IChannel<any>[]) {
-        makeRpc<ISoundHostRpc, {}>(soundChannel, {
-            $play: this.play.bind(this),
-            $displaySound: this.displaySound.bind(this),
-            $stop: this.stop.bind(this),
-            record: this.record.bind(this),
-        });
+  failStream(streamId: number, message: string) {
+    // blocks that are already queued still play, like the end of a stream
+    this.endStream(streamId);
+    this.playbackErrors = [...this.playbackErrors, message];
+    this.notifyDisplayListeners();
+  }
+
+  private cleanUpStream(streamId: number, stream: PlayStream) {
+    if (stream.ended && stream.sources.size === 0 && this.streams.get(streamId) === stream) {
+      this.streams.delete(streamId);
     }
+  }
+
+  displaySound(wavBuffer: ArrayBuffer) {
+    this.displayedSounds = [...this.displayedSounds, { id: this.nextSoundId++, wavBuffer }];
+    this.notifyDisplayListeners();
+  }
+
+  clearDisplayedSounds() {
+    this.displayedSounds = [];
+    this.playbackErrors = [];
+    this.notifyDisplayListeners();
+  }
+
+  subscribeDisplayedSounds(listener: () => void) {
+    this.displayListeners.add(listener);
+    return () => {
+      this.displayListeners.delete(listener);
+    };
+  }
+
+  private notifyDisplayListeners() {
+    this.displayListeners.forEach((listener) => listener());
+  }
+
+  stop() {
+    this.streams.forEach((stream) => {
+      stream.sources.forEach((src) => {
+        src.onended = null;
+        src.stop();
+        src.disconnect(this.audioplayer.destination);
+      });
+    });
+    this.streams.clear();
+  }
+
+  static readonly channelAttach = [SoundModuleString.SOUND_CHANNEL];
+  constructor(conduit: IConduit, [soundChannel]: IChannel<any>[]) {
+    makeRpc<ISoundHostRpc, {}>(soundChannel, {
+      $playStreamBegin: this.beginStream.bind(this),
+      $playStreamAppend: this.appendStream.bind(this),
+      $playStreamEnd: this.endStream.bind(this),
+      $playStreamError: this.failStream.bind(this),
+      $displaySound: this.displaySound.bind(this),
+      $stop: this.stop.bind(this),
+      initRecord: this.initRecord.bind(this),
+      record: this.record.bind(this),
+      $stopRecording: this.stopRecording.bind(this),
+    });
+    setSoundDisplay(this);
+  }
 }
 
 export { SoundWebHostPlugin as plugin };
@@ -0,0 +1,174 @@
+import { AnchorButton, Button, Callout, Card, Colors, Intent } from '@blueprintjs/core';
+import { IconNames } from '@blueprintjs/icons';
+import React from 'react';
+import type { DebuggerContext, ModuleTab } from '../../../../legacy/typings/type_helpers';
+import type { DisplayedSound, ISoundDisplay } from '../../types/ISoundDisplay';
+import { getSoundDisplay } from './display';
+import { getWavDuration, getWaveformPeaks } from './waveform';
+
+const PREVIEW_WIDTH = 400;
+const PREVIEW_HEIGHT = 60;
+
+type WaveformPreviewProps = {
+  wavBuffer: ArrayBuffer
+};
+
+/**
+ * Draws the amplitude envelope of a clip
+ */
+const WaveformPreview = ({ wavBuffer }: WaveformPreviewProps) => {
+  const canvasRef = React.useRef<HTMLCanvasElement>(null);
+
+  React.useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    ctx.clearRect(0, 0, PREVIEW_WIDTH, PREVIEW_HEIGHT);
+    ctx.fillStyle = Colors.BLUE4;
+    getWaveformPeaks(wavBuffer, PREVIEW_WIDTH)
+      .forEach(([min, max], x) => {
+        const top = ((1 - max) * PREVIEW_HEIGHT) / 2;
+        const bottom = ((1 - min) * PREVIEW_HEIGHT) / 2;
+        ctx.fillRect(x, top, 1, Math.max(1, bottom - top));
+      });
+  }, [wavBuffer]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={PREVIEW_WIDTH}
+      height={PREVIEW_HEIGHT}
+      style={{ width: '100%', height: PREVIEW_HEIGHT }}
+    />
+  );
+};
+
+type SoundClipProps = {
+  sound: DisplayedSound,
+  index: number
+};
+
+const SoundClip = ({ sound: { wavBuffer }, index }: SoundClipProps) => {
+  const [url, setUrl] = React.useState<string>();
+
+  React.useEffect(() => {
+    const objectUrl = URL.createObjectURL(new Blob([wavBuffer], { type: 'audio/wav' }));
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [wavBuffer]);
+
+  const name = `Sound ${index + 1}`;
+
+  return (
+    <Card style={{ marginBottom: 10 }}>
+      <div
+        style={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center'
+        }}
+      >
+        <h4 style={{ margin: 0 }}>
+          {name} ({getWavDuration(wavBuffer).toFixed(2)}s)
+        </h4>
+        <AnchorButton
+          minimal
+          icon={IconNames.DOWNLOAD}
+          href={url}
+          download={`sound_${index + 1}.wav`}
+          disabled={url === undefined}
+          title={`Download ${name}`}
+        />
+      </div>
+      <WaveformPreview wavBuffer={wavBuffer} />
+      <audio
+        src={url}
+        controls
+        className="sound-tab-player"
+        style={{ width: '100%' }}
+      />
+    </Card>
+  );
+};
+
+type SoundDisplayProps = {
+  display: ISoundDisplay
+};
+
+const SoundDisplay = ({ display }: SoundDisplayProps) => {
+  const subscribe = React.useCallback(
+    (listener: () => void) => display.subscribeDisplayedSounds(listener),
+    [display]
+  );
+  const sounds = React.useSyncExternalStore(subscribe, () => display.displayedSounds);
+  const errors = React.useSyncExternalStore(subscribe, () => display.playbackErrors);
+
+  return (
+    <div>
+      <p id="sound-default-text">
+        The sound tab gives you control over your custom sounds. You can play,
+        pause, adjust the volume and download your sounds.
+      </p>
+      <Button
+        icon={IconNames.TRASH}
+        onClick={() => display.clearDisplayedSounds()}
+        disabled={sounds.length === 0 && errors.length === 0}
+        style={{ marginBottom: 10 }}
+      >
+        Clear all
+      </Button>
+      {errors.map((error, index) => (
+        <Callout key={index} intent={Intent.DANGER} style={{ marginBottom: 10 }}>
+          Playback stopped: {error}
+        </Callout>
+      ))}
+      {sounds.map((sound, index) => (
+        <SoundClip key={sound.id} sound={sound} index={index} />
+      ))}
+    </div>
+  );
+};
+
+/**
+ * Tab for Source Academy Sounds Module. The sounds come from the host plugin
+ * rather than the module state, so the debugger context is not used.
+ * @author Koh Shang Hui
+ * @author Samyukta Sounderraman
+ */
+export const SoundTab: ModuleTab = () => {
+  const display = getSoundDisplay();
+  return display === undefined ? null : <SoundDisplay display={display} />;
+};
+
+export default {
+  /**
+   * This function will be called to determine if the component will be
+   * rendered.
+   * @returns {boolean}
+   */
+  toSpawn(_context: DebuggerContext) {
+    const display = getSoundDisplay();
+    return display !== undefined
+      && (display.displayedSounds.length > 0 || display.playbackErrors.length > 0);
+  },
+  /**
+   * This function will be called to render the module tab in the side contents
+   * on Source Academy frontend.
+   * @param {DebuggerContext} context
+   */
+  body(context: DebuggerContext) {
+    return <SoundTab context={context} />;
+  },
+
+  /**
+   * The Tab's icon tooltip in the side contents on Source Academy frontend.
+   */
+  label: 'Sounds',
+
+  /**
+   * BlueprintJS IconName element's name, used to render the icon which will be
+   * displayed in the side contents panel.
+   * @see https://blueprintjs.com/docs/#icons
+   */
+  iconName: 'music'
+};
@@ -0,0 +1,67 @@
+/**
+ * Helpers for reading back the 16-bit PCM WAV files written by
+ * `audioBufferToWav`, used by the Sound tab to preview clips.
+ */
+
+const HEADER_LENGTH = 44;
+
+type WavInfo = {
+  channels: number;
+  sampleRate: number;
+  frames: number;
+};
+
+function readWavInfo(view: DataView): WavInfo {
+  if (view.byteLength < HEADER_LENGTH || view.getUint16(34, true) !== 16) {
+    throw new Error('Expected a 16-bit PCM WAV file');
+  }
+  const channels = view.getUint16(22, true);
+  const sampleRate = view.getUint32(24, true);
+  const dataLength = Math.min(view.getUint32(40, true), view.byteLength - HEADER_LENGTH);
+  return {
+    channels,
+    sampleRate,
+    frames: Math.floor(dataLength / (channels * 2))
+  };
+}
+
+/**
+ * Computes the duration of a WAV file.
+ * @param wavBuffer the WAV file
+ * @returns the duration in seconds
+ */
+export function getWavDuration(wavBuffer: ArrayBuffer): number {
+  const { sampleRate, frames } = readWavInfo(new DataView(wavBuffer));
+  return frames / sampleRate;
+}
+
+/**
+ * Splits a WAV file into `buckets` equal slices of time and finds the lowest
+ * and highest amplitude across all channels within each slice.
+ * @param wavBuffer the WAV file
+ * @param buckets the number of slices, usually the width of the preview in pixels
+ * @returns one `[min, max]` pair per slice, with amplitudes in [-1, 1]
+ */
+export function getWaveformPeaks(wavBuffer: ArrayBuffer, buckets: number): [number, number][] {
+  const view = new DataView(wavBuffer);
+  const { channels, frames } = readWavInfo(view);
+  const peaks: [number, number][] = [];
+
+  for (let bucket = 0; bucket < buckets; bucket++) {
+    const start = Math.floor((bucket * frames) / buckets);
+    const end = Math.max(start + 1, Math.floor(((bucket + 1) * frames) / buckets));
+    let min = 0;
+    let max = 0;
+    for (let frame = start; frame < Math.min(end, frames); frame++) {
+      for (let channel = 0; channel < channels; channel++) {
+        const sample = view.getInt16(HEADER_LENGTH + (frame * channels + channel) * 2, true);
+        const amp = sample < 0 ? sample / 0x8000 : sample / 0x7fff;
+        if (amp < min) min = amp;
+        if (amp > max) max = amp;
+      }
+    }
+    peaks.push([min, max]);
+  }
+
+  return peaks;
+}
@@ -0,0 +1,85 @@
+import { list } from 'js-slang/dist/stdlib/list';
+import { plugin as SoundModulePlugin } from '..';
+
+const mockHost = {
+  $playStreamBegin: jest.fn(),
+  $playStreamAppend: jest.fn(),
+  $playStreamEnd: jest.fn()
+};
+
+jest.mock('conductor/dist/conduit/rpc', () => ({
+  makeRpc: () => mockHost
+}));
+
+let sound: InstanceType<typeof SoundModulePlugin>;
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  Object.values(mockHost)
+    .forEach(fn => fn.mockReset());
+  sound = new SoundModulePlugin({} as any, [{} as any]);
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+test('bake samples the wave once', () => {
+  const wave = jest.fn((t: number) => Math.sin(2 * Math.PI * 440 * t));
+  const baked = sound.bake(sound.make_sound(wave, 0.5));
+
+  expect(wave).toHaveBeenCalledTimes(22050);
+  expect(sound.get_duration(baked))
+    .toEqual(0.5);
+
+  const bakedWave = sound.get_wave(baked);
+  expect(bakedWave(100 / 44100))
+    .toBeCloseTo(wave(100 / 44100));
+  expect(bakedWave(0.5))
+    .toEqual(0);
+});
+
+test('baked waves interpolate between samples', () => {
+  const baked = sound.bake(sound.make_sound(t => t * 44100, 4 / 44100));
+  // amplitudes are clipped to 1 when sampling
+  expect(sound.get_wave(baked)(0.5 / 44100))
+    .toBeCloseTo(0.5);
+});
+
+test('bake keeps both channels of a Stereo Sound', () => {
+  const baked = sound.bake(sound.make_stereo_sound(() => 0.5, () => -0.5, 1));
+  expect(sound.get_left_wave(baked)(0.5))
+    .toBeCloseTo(0.5);
+  expect(sound.get_right_wave(baked)(0.5))
+    .toBeCloseTo(-0.5);
+});
+
+test('playing a baked Sound reuses its samples', () => {
+  const wave = jest.fn(() => 0.25);
+  const baked = sound.bake(sound.make_sound(wave, 1));
+  wave.mockClear();
+
+  sound.play(baked);
+  jest.runAllTimers();
+
+  expect(wave).not.toHaveBeenCalled();
+  const samples = mockHost.$playStreamAppend.mock.calls.flatMap(([, [block]]) => Array.from(block));
+  expect(samples)
+    .toHaveLength(44100);
+  expect(samples.every(amp => amp === 0.25))
+    .toBe(true);
+});
+
+test('baked Sounds can be combined like any other Sound', () => {
+  const baked = sound.bake(sound.make_sound(() => 1, 1));
+  const joined = sound.consecutively(list(baked, sound.make_sound(() => -1, 1)));
+  expect(sound.get_wave(joined)(0.5))
+    .toEqual(1);
+  expect(sound.get_wave(joined)(1.5))
+    .toEqual(-1);
+});
+
+test('bake rejects non-Sounds', () => {
+  expect(() => sound.bake(42 as any))
+    .toThrow('bake is expecting sound, but encountered 42');
+});
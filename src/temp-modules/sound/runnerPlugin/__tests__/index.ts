@@ -0,0 +1,176 @@
+import { plugin as SoundModulePlugin } from '..';
+import type { ISoundHostRpc } from '../../types/ISoundHostRpc';
+
+type MockHost = { [K in keyof ISoundHostRpc]: jest.Mock };
+
+const mockHost: MockHost = {
+  $playStreamBegin: jest.fn(),
+  $playStreamAppend: jest.fn(),
+  $playStreamEnd: jest.fn(),
+  $playStreamError: jest.fn(),
+  $displaySound: jest.fn(),
+  $stop: jest.fn(),
+  initRecord: jest.fn(),
+  record: jest.fn(),
+  $stopRecording: jest.fn()
+};
+
+jest.mock('conductor/dist/conduit/rpc', () => ({
+  makeRpc: () => mockHost
+}));
+
+// Lets pending promise callbacks run
+const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+/**
+ * Creates a recording that can be finished from the test
+ */
+function deferRecording() {
+  let resolve!: (samples: Float32Array) => void;
+  let reject!: (error: Error) => void;
+  const recording = new Promise<Float32Array>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  mockHost.record.mockReturnValueOnce(recording);
+  return { resolve, reject };
+}
+
+let sound: InstanceType<typeof SoundModulePlugin>;
+
+beforeEach(() => {
+  Object.values(mockHost)
+    .forEach(fn => fn.mockReset());
+  sound = new SoundModulePlugin({} as any, [{} as any]);
+});
+
+async function grantPermission(granted: boolean) {
+  mockHost.initRecord.mockResolvedValueOnce(granted);
+  expect(sound.init_record())
+    .toEqual('obtaining recording permission');
+  await flushPromises();
+}
+
+describe('recording permission', () => {
+  test('recording before init_record throws', () => {
+    expect(() => sound.record_for(1, 0))
+      .toThrow('Call init_record(); to obtain permission to use microphone');
+    expect(() => sound.record(0))
+      .toThrow('Call init_record(); to obtain permission to use microphone');
+    expect(mockHost.record).not.toHaveBeenCalled();
+  });
+
+  test('recording after permission is denied throws', async () => {
+    await grantPermission(false);
+    expect(() => sound.record_for(1, 0))
+      .toThrow('Permission has been denied.');
+  });
+
+  test('errors while asking for permission are reported when recording', async () => {
+    mockHost.initRecord.mockRejectedValueOnce(new Error('host disconnected'));
+    sound.init_record();
+    await flushPromises();
+    expect(() => sound.record_for(1, 0))
+      .toThrow('Unable to obtain permission to use microphone: host disconnected');
+  });
+});
+
+describe('record_for', () => {
+  beforeEach(() => grantPermission(true));
+
+  test('asks the host for a recording of the given duration', () => {
+    deferRecording();
+    sound.record_for(2, 0.5);
+    expect(mockHost.record).toHaveBeenCalledWith(0, 44100, 0.5, 2);
+  });
+
+  test('promise throws until the recording arrives', async () => {
+    const { resolve } = deferRecording();
+    const promise = sound.record_for(1, 0);
+    expect(() => promise())
+      .toThrow('recording still being processed');
+
+    resolve(new Float32Array(44100).fill(0.5));
+    await flushPromises();
+
+    const recorded = promise();
+    expect(sound.is_sound(recorded))
+      .toBe(true);
+    expect(sound.get_duration(recorded))
+      .toEqual(1);
+    expect(sound.get_wave(recorded)(0.25))
+      .toBeCloseTo(0.5);
+    expect(sound.get_wave(recorded)(1))
+      .toEqual(0);
+  });
+
+  test('wave interpolates between samples', async () => {
+    const { resolve } = deferRecording();
+    const promise = sound.record_for(1, 0);
+    resolve(new Float32Array([0, 1, 0, -1]));
+    await flushPromises();
+
+    const wave = sound.get_wave(promise());
+    expect(wave(0.5 / 44100))
+      .toBeCloseTo(0.5);
+    expect(wave(2.5 / 44100))
+      .toBeCloseTo(-0.5);
+  });
+
+  test('promise rethrows errors from the host', async () => {
+    const { reject } = deferRecording();
+    const promise = sound.record_for(1, 0);
+    reject(new Error('microphone unplugged'));
+    await flushPromises();
+
+    expect(() => promise())
+      .toThrow('microphone unplugged');
+  });
+
+  test('each recording keeps its own Sound', async () => {
+    const first = deferRecording();
+    const second = deferRecording();
+    const promise1 = sound.record_for(1, 0);
+    const promise2 = sound.record_for(1, 0);
+
+    first.resolve(new Float32Array(44100));
+    second.resolve(new Float32Array(88200));
+    await flushPromises();
+
+    expect(sound.get_duration(promise1()))
+      .toEqual(1);
+    expect(sound.get_duration(promise2()))
+      .toEqual(2);
+  });
+});
+
+describe('record', () => {
+  beforeEach(() => grantPermission(true));
+
+  test('stop function stops the recording on the host', async () => {
+    const { resolve } = deferRecording();
+    const stop = sound.record(0.5);
+    expect(mockHost.record).toHaveBeenCalledWith(0, 44100, 0.5);
+    expect(mockHost.$stopRecording).not.toHaveBeenCalled();
+
+    const promise = stop();
+    expect(mockHost.$stopRecording).toHaveBeenCalledWith(0);
+
+    resolve(new Float32Array(22050));
+    await flushPromises();
+    expect(sound.get_duration(promise()))
+      .toEqual(0.5);
+  });
+
+  test('each stop function stops its own recording', () => {
+    deferRecording();
+    deferRecording();
+    const stop1 = sound.record(0);
+    const stop2 = sound.record(0);
+
+    stop1();
+    expect(mockHost.$stopRecording).toHaveBeenCalledWith(0);
+    stop2();
+    expect(mockHost.$stopRecording).toHaveBeenCalledWith(1);
+  });
+});
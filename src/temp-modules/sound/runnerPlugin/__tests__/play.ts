@@ -0,0 +1,94 @@
+import { plugin as SoundModulePlugin } from '..';
+
+const mockHost = {
+  $playStreamBegin: jest.fn(),
+  $playStreamAppend: jest.fn(),
+  $playStreamEnd: jest.fn(),
+  $playStreamError: jest.fn(),
+  $stop: jest.fn()
+};
+
+jest.mock('conductor/dist/conduit/rpc', () => ({
+  makeRpc: () => mockHost
+}));
+
+let sound: InstanceType<typeof SoundModulePlugin>;
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  Object.values(mockHost)
+    .forEach(fn => fn.mockReset());
+  sound = new SoundModulePlugin({} as any, [{} as any]);
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+// 44100 samples: two full blocks of 16384 and one of 11332
+const oneSecond = () => sound.make_sound(t => t, 1);
+
+test('play sends the first block right away', () => {
+  sound.play(oneSecond());
+
+  expect(mockHost.$playStreamBegin).toHaveBeenCalledWith(0, 44100);
+  expect(mockHost.$playStreamAppend).toHaveBeenCalledTimes(1);
+  const [[streamId, [block]]] = mockHost.$playStreamAppend.mock.calls;
+  expect(streamId)
+    .toEqual(0);
+  expect(block)
+    .toHaveLength(16384);
+  expect(mockHost.$playStreamEnd).not.toHaveBeenCalled();
+});
+
+test('play streams the remaining blocks in order', () => {
+  sound.play(oneSecond());
+  jest.runAllTimers();
+
+  const blocks = mockHost.$playStreamAppend.mock.calls.map(([, [block]]) => block);
+  expect(blocks.map(block => block.length))
+    .toEqual([16384, 16384, 11332]);
+  expect(blocks[1][0])
+    .toBeCloseTo(16384 / 44100);
+  expect(mockHost.$playStreamEnd).toHaveBeenCalledWith(0);
+});
+
+test('each call to play gets its own stream', () => {
+  sound.play(oneSecond());
+  sound.play(oneSecond());
+  jest.runAllTimers();
+
+  expect(mockHost.$playStreamBegin.mock.calls.map(([id]) => id))
+    .toEqual([0, 1]);
+  expect(mockHost.$playStreamEnd.mock.calls.map(([id]) => id))
+    .toEqual([0, 1]);
+});
+
+test('stop cancels streams that are still being sent', () => {
+  sound.play(oneSecond());
+  sound.stop();
+  jest.runAllTimers();
+
+  expect(mockHost.$stop).toHaveBeenCalledTimes(1);
+  expect(mockHost.$playStreamAppend).toHaveBeenCalledTimes(1);
+});
+
+test('errors in later blocks are reported to the host', () => {
+  sound.play(sound.make_sound(t => {
+    if (t > 0.5) throw new Error('bad wave');
+    return 0;
+  }, 1));
+
+  expect(() => jest.runAllTimers()).not.toThrow();
+  expect(mockHost.$playStreamError).toHaveBeenCalledWith(0, 'bad wave');
+  expect(mockHost.$playStreamEnd).not.toHaveBeenCalled();
+});
+
+test('errors in the first block are thrown by play', () => {
+  expect(() => sound.play(sound.make_sound(() => {
+    throw new Error('bad wave');
+  }, 1)))
+    .toThrow('bad wave');
+  expect(mockHost.$playStreamEnd).toHaveBeenCalledWith(0);
+  expect(mockHost.$playStreamError).not.toHaveBeenCalled();
+});
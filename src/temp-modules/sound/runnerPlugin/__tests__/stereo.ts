@@ -0,0 +1,161 @@
+import { list, pair } from 'js-slang/dist/stdlib/list';
+import { plugin as SoundModulePlugin } from '..';
+import type { AnySound } from '../types';
+
+const mockHost = {
+  $playStreamBegin: jest.fn(),
+  $playStreamAppend: jest.fn(),
+  $playStreamEnd: jest.fn(),
+  $displaySound: jest.fn()
+};
+
+jest.mock('conductor/dist/conduit/rpc', () => ({
+  makeRpc: () => mockHost
+}));
+
+let sound: InstanceType<typeof SoundModulePlugin>;
+
+beforeEach(() => {
+  Object.values(mockHost)
+    .forEach(fn => fn.mockReset());
+  sound = new SoundModulePlugin({} as any, [{} as any]);
+});
+
+const left = (t: number) => (t < 1 ? 0.5 : -0.5);
+const right = (_t: number) => 0.25;
+
+test('make_stereo_sound and its accessors', () => {
+  const stereo = sound.make_stereo_sound(left, right, 2);
+  expect(sound.is_sound(stereo))
+    .toBe(true);
+  expect(sound.get_duration(stereo))
+    .toEqual(2);
+  expect(sound.get_left_wave(stereo)(0))
+    .toEqual(0.5);
+  expect(sound.get_right_wave(stereo)(0))
+    .toEqual(0.25);
+  expect(sound.get_wave(stereo)(0))
+    .toEqual(0.375);
+  expect(sound.get_left_wave(stereo)(2))
+    .toEqual(0);
+});
+
+test('a mono Sound plays the same wave on both sides', () => {
+  const mono = sound.make_sound(left, 2);
+  expect(sound.get_left_wave(mono)(1.5))
+    .toEqual(-0.5);
+  expect(sound.get_right_wave(mono)(1.5))
+    .toEqual(-0.5);
+});
+
+test('is_sound rejects malformed Stereo Sounds', () => {
+  expect(sound.is_sound(pair(pair(left, 1), 2)))
+    .toBe(false);
+  expect(sound.is_sound(pair(pair(left, right), 'long')))
+    .toBe(false);
+});
+
+test('sample produces one channel per wave', () => {
+  expect(sound.sample(sound.make_sound(left, 1), 10))
+    .toHaveLength(1);
+
+  const [l, r] = sound.sample(sound.make_stereo_sound(left, right, 1), 10);
+  expect(l)
+    .toEqual(new Float32Array(10).fill(0.5));
+  expect(r)
+    .toEqual(new Float32Array(10).fill(0.25));
+});
+
+test('play sends every channel to the host', () => {
+  sound.play(sound.make_stereo_sound(left, right, 1));
+  const [[, channels]] = mockHost.$playStreamAppend.mock.calls;
+  expect(channels)
+    .toHaveLength(2);
+  expect(channels[0][0])
+    .toEqual(0.5);
+  expect(channels[1][0])
+    .toEqual(0.25);
+});
+
+test('play_in_tab writes a stereo WAV file', () => {
+  sound.play_in_tab(sound.make_stereo_sound(left, right, 1));
+  const [[wavBuffer]] = mockHost.$displaySound.mock.calls;
+  expect(new DataView(wavBuffer).getUint16(22, true))
+    .toEqual(2);
+});
+
+test('consecutively with a Stereo Sound is stereo', () => {
+  const joined = sound.consecutively(list<AnySound>(
+    sound.make_sound(() => 1, 1),
+    sound.make_stereo_sound(left, right, 2)
+  ));
+  expect(sound.get_duration(joined))
+    .toEqual(3);
+  expect(sound.get_left_wave(joined)(0.5))
+    .toEqual(1);
+  expect(sound.get_right_wave(joined)(0.5))
+    .toEqual(1);
+  expect(sound.get_left_wave(joined)(1.5))
+    .toEqual(0.5);
+  expect(sound.get_right_wave(joined)(1.5))
+    .toEqual(0.25);
+});
+
+test('simultaneously normalises each channel', () => {
+  const mixed = sound.simultaneously(list<AnySound>(
+    sound.make_sound(() => 1, 1),
+    sound.make_stereo_sound(() => 1, () => -1, 1)
+  ));
+  expect(sound.get_left_wave(mixed)(0.5))
+    .toEqual(1);
+  expect(sound.get_right_wave(mixed)(0.5))
+    .toEqual(0);
+});
+
+test('adsr applies the envelope to both channels', () => {
+  const enveloped = sound.adsr(0.5, 0, 1, 0)(sound.make_stereo_sound(() => 1, () => -1, 2));
+  expect(sound.get_left_wave(enveloped)(0.5))
+    .toBeCloseTo(0.5);
+  expect(sound.get_right_wave(enveloped)(0.5))
+    .toBeCloseTo(-0.5);
+});
+
+test('squash averages the channels', () => {
+  const squashed = sound.squash(sound.make_stereo_sound(left, right, 2));
+  expect(sound.get_left_wave(squashed)(0))
+    .toEqual(0.375);
+  expect(sound.get_right_wave(squashed)(0))
+    .toEqual(0.375);
+});
+
+test('pan moves a Sound between the channels', () => {
+  const tone = sound.make_sound(() => 1, 1);
+
+  const hardLeft = sound.pan(-1)(tone);
+  expect(sound.get_left_wave(hardLeft)(0))
+    .toEqual(1);
+  expect(sound.get_right_wave(hardLeft)(0))
+    .toEqual(0);
+
+  const centred = sound.pan(0)(tone);
+  expect(sound.get_left_wave(centred)(0))
+    .toEqual(0.5);
+  expect(sound.get_right_wave(centred)(0))
+    .toEqual(0.5);
+
+  const beyondRight = sound.pan(5)(tone);
+  expect(sound.get_right_wave(beyondRight)(0))
+    .toEqual(1);
+});
+
+test('pan_mod follows the modulator over time', () => {
+  const panned = sound.pan_mod(sound.make_sound(t => (t < 0.5 ? -1 : 1), 1))(sound.make_sound(() => 1, 1));
+  expect(sound.get_left_wave(panned)(0.25))
+    .toEqual(1);
+  expect(sound.get_right_wave(panned)(0.25))
+    .toEqual(0);
+  expect(sound.get_left_wave(panned)(0.75))
+    .toEqual(0);
+  expect(sound.get_right_wave(panned)(0.75))
+    .toEqual(1);
+});
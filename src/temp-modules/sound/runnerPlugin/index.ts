@@ -8,6 +8,11 @@
  * A Sound is a pair(wave, duration) where duration is the length of the sound in seconds.
  * The constructor make_sound and accessors get_wave and get_duration are provided.
  *
+ * A Stereo Sound is a pair(pair(left_wave, right_wave), duration), with one wave
+ * for each channel. It is made with make_stereo_sound, and its waves are accessed with
+ * get_left_wave and get_right_wave. All other functions accept both kinds of Sound;
+ * combining a Sound with a Stereo Sound plays the Sound on both channels.
+ *
  * Sound Discipline:
  * For all sounds, the wave function applied to and time `t` beyond its duration returns 0, that is:
  * `(get_wave(sound))(get_duration(sound) + x) === 0` for any x >= 0.
@@ -19,15 +24,18 @@
  * Finally, the provided `play` function takes in a Sound and plays it using your
  * computer's sound system.
  *
+ * Sounds made by combining many other Sounds can be slow to sample. `bake` samples
+ * a Sound once and returns an equivalent Sound that reads from the samples.
+ *
  * @module sound
  * @author Koh Shang Hui
  * @author Samyukta Sounderraman
  */
 
 import type { IChannel, IConduit } from 'conductor/dist/conduit';
+import { makeRpc } from 'conductor/dist/conduit/rpc';
 import type { Remote } from 'conductor/dist/conduit/rpc/types/Remote';
 import type { IPlugin } from 'conductor/dist/conduit/types/IPlugin';
-import { makeRpc } from 'conductor/dist/conduit/rpc';
 import {
   pair,
   head,
@@ -37,58 +45,73 @@ import {
   is_null,
   is_pair,
   accumulate,
-  type List
+  type List,
+  type Pair
 } from 'js-slang/dist/stdlib/list';
 
-import { audioBufferToWav } from "./wav";
+import { SoundModuleString } from '../strings';
+import type { ISoundHostRpc } from '../types/ISoundHostRpc';
 import type {
   Wave,
   Sound,
+  StereoSound,
+  AnySound,
   SoundProducer,
   SoundTransformer
 } from './types';
-import { SoundModuleString } from '../strings';
-import type { ISoundHostRpc } from '../types/ISoundHostRpc';
+import { audioBufferToWav } from './wav';
 
 // Global Constants and Variables
 const FS: number = 44100; // Output sample rate
 const fourier_expansion_level: number = 5; // fourier expansion level
+const PLAY_BLOCK_SIZE: number = 16384; // samples per block when streaming to the host
+
+// The samples behind the waves of baked Sounds, so that they are not sampled again
+const bakedWaves = new WeakMap<Wave, { samples: Float32Array, fs: number }>();
 
 class SoundModulePlugin implements IPlugin {
   readonly name = SoundModuleString.SOUND_MODULE_NAME;
   readonly host: Remote<ISoundHostRpc>;
 
   readonly exports = [
-    "adsr",
-    "bell",
-    "cello",
-    "consecutively",
-    "get_duration",
-    "get_wave",
-    "init_record",
-    "is_sound",
-    "letter_name_to_frequency",
-    "letter_name_to_midi_note",
-    "make_sound",
-    "midi_note_to_frequency",
-    "noise_sound",
-    "phase_mod",
-    "piano",
-    "play_in_tab",
-    "play",
-    "play_wave",
-    "record",
-    "record_for",
-    "sawtooth_sound",
-    "silence_sound",
-    "simultaneously",
-    "sine_sound",
-    "square_sound",
-    "stacking_adsr",
-    "stop",
-    "triangle_sound",
-    "trombone",
-    "violin"
+    'adsr',
+    'bake',
+    'bell',
+    'cello',
+    'consecutively',
+    'get_duration',
+    'get_left_wave',
+    'get_right_wave',
+    'get_wave',
+    'init_record',
+    'is_sound',
+    'letter_name_to_frequency',
+    'letter_name_to_midi_note',
+    'make_sound',
+    'make_stereo_sound',
+    'midi_note_to_frequency',
+    'noise_sound',
+    'pan',
+    'pan_mod',
+    'phase_mod',
+    'piano',
+    'play_in_tab',
+    'play',
+    'play_wave',
+    'play_waves',
+    'record',
+    'record_for',
+    'sawtooth_sound',
+    'silence_sound',
+    'simultaneously',
+    'sine_sound',
+    'square_sound',
+    'squash',
+    'stacking_adsr',
+    'stop',
+    'triangle_sound',
+    'trombone',
+    'violin'
   ];
 
   // linear decay from 1 to 0 over decay_period
@@ -101,6 +124,105 @@ class SoundModulePlugin implements IPlugin {
     };
   }
 
+  private nextStreamId = 0;
+
+  private nextRecordingId = 0;
+
+  // timers that send the next block of each stream still being sent
+  private readonly activeStreams = new Map<number, ReturnType<typeof setTimeout>>();
+
+  // permission initially undefined
+  // set to true by granting microphone permission
+  // set to false by denying microphone permission
+  private recordPermission: boolean | undefined;
+
+  // set when asking for permission failed, rather than being denied
+  private recordPermissionError: unknown;
+
+  // check_permission is called whenever we try
+  // to record a sound
+  private checkPermission() {
+    if (this.recordPermission === undefined) {
+      throw new Error(
+        'Call init_record(); to obtain permission to use microphone'
+      );
+    } else if (this.recordPermissionError !== undefined) {
+      throw new Error(`Unable to obtain permission to use microphone: ${this.recordPermissionError}`);
+    } else if (this.recordPermission === false) {
+      throw new Error(`Permission has been denied.\n
+        Re-start browser and call init_record();\n
+        to obtain permission to use microphone.`);
+    } // (permission === true): do nothing
+  }
+
+  /**
+   * Turns samples into a wave that linearly
+   * interpolates between neighbouring samples.
+   * @param samples the samples
+   * @param fs the sampling frequency of the samples
+   * @returns the wave
+   */
+  static samplesToWave(samples: Float32Array, fs: number): Wave {
+    return (t: number) => {
+      const index = t * fs;
+      const lowerIndex = Math.floor(index);
+      const upperIndex = lowerIndex + 1;
+      const ratio = index - lowerIndex;
+      const upper = samples[upperIndex] ? samples[upperIndex] : 0;
+      const lower = samples[lowerIndex] ? samples[lowerIndex] : 0;
+      return lower * (1 - ratio) + upper * ratio;
+    };
+  }
+
+  /**
+   * Waits for the host to deliver a recording and returns
+   * the Sound promise that is handed to the user.
+   * @param recording samples promised by the host
+   * @returns nullary function which returns the recorded Sound
+   */
+  private promiseSound(recording: Promise<Float32Array>): () => Sound {
+    let recordedSound: Sound | undefined;
+    let recordingError: unknown;
+    recording.then(
+      (samples) => {
+        // recordings have one channel, so they are mono Sounds
+        recordedSound = SoundModulePlugin.makeBakedSound([samples], FS, samples.length / FS) as Sound;
+      },
+      (error) => {
+        recordingError = error;
+      }
+    );
+    return () => {
+      if (recordingError !== undefined) {
+        throw recordingError;
+      } else if (recordedSound === undefined) {
+        throw new Error('recording still being processed');
+      } else {
+        return recordedSound;
+      }
+    };
+  }
+
+  /**
+   * Initialize recording by obtaining permission
+   * to use the default device microphone
+   *
+   * @returns string "obtaining recording permission"
+   */
+  init_record(): string {
+    this.recordPermissionError = undefined;
+    this.host.initRecord()
+      .then((granted) => {
+        this.recordPermission = granted;
+      })
+      .catch((error) => {
+        // reported by the next call to record or record_for
+        this.recordPermission = false;
+        this.recordPermissionError = error instanceof Error ? error.message : error;
+      });
+    return 'obtaining recording permission';
+  }
+
   /**
    * Records a sound until the returned stop function is called.
    * Takes a <CODE>buffer</CODE> duration (in seconds) as argument, and
@@ -118,11 +240,14 @@ class SoundModulePlugin implements IPlugin {
    * <CODE>stop()</CODE> stops the recording and
    * returns a Sound promise: a nullary function that returns the recorded Sound
    */
-  record(buffer: number): Sound {
-    // TODO
-    throw new Error("unimplemented");
-    const recording = this.host.record(FS);
-    return recording;
+  record(buffer: number): () => () => Sound {
+    this.checkPermission();
+    const recordingId = this.nextRecordingId++;
+    const promise = this.promiseSound(this.host.record(recordingId, FS, buffer));
+    return () => {
+      this.host.$stopRecording(recordingId);
+      return promise;
+    };
   }
 
   /**
@@ -138,11 +263,9 @@ class SoundModulePlugin implements IPlugin {
    * @param buffer pause before recording, in seconds
    * @return <CODE>promise</CODE>: nullary function which returns recorded Sound
    */
-  record_for(duration: number, buffer: number): Sound {
-    // TODO
-    throw new Error("unimplemented");
-    const recording = this.host.record(FS, duration);
-    return recording;
+  record_for(duration: number, buffer: number): () => Sound {
+    this.checkPermission();
+    return this.promiseSound(this.host.record(this.nextRecordingId++, FS, buffer, duration));
   }
 
   /**
@@ -164,15 +287,117 @@ class SoundModulePlugin implements IPlugin {
     return pair((t: number) => (t >= duration ? 0 : wave(t)), duration);
   }
 
+  /**
+   * Makes a Stereo Sound with given wave functions and duration.
+   * The wave functions are functions: number -> number
+   * that take in a non-negative input time and return an amplitude
+   * between -1 and 1.
+   *
+   * @param left_wave wave function of the left channel of the Sound
+   * @param right_wave wave function of the right channel of the Sound
+   * @param duration duration of the Sound
+   * @return resulting Stereo Sound
+   * @example const s = make_stereo_sound(t => math_sin(2 * math_PI * 440 * t), t => math_sin(2 * math_PI * 300 * t), 5);
+   */
+  make_stereo_sound(left_wave: Wave, right_wave: Wave, duration: number): StereoSound {
+    if (duration < 0) {
+      throw new Error('Sound duration must be greater than or equal to 0');
+    }
+
+    return pair(
+      pair(
+        (t: number) => (t >= duration ? 0 : left_wave(t)),
+        (t: number) => (t >= duration ? 0 : right_wave(t))
+      ),
+      duration
+    );
+  }
+
+  /**
+   * Returns the waves of a Sound, one for each of its channels.
+   * @param sound the Sound
+   * @returns one wave for a Sound, two waves (left, right) for a Stereo Sound
+   */
+  static getWaves(sound: AnySound): Wave[] {
+    const waves: Pair<Wave, Wave> | Wave = head<Pair<Wave, Wave> | Wave>(sound);
+    return is_pair(waves) ? [head(waves), tail(waves)] : [waves];
+  }
+
+  /**
+   * Makes a Sound with one channel for each given wave.
+   * @param waves one wave, or two waves (left, right)
+   * @param duration duration of the Sound
+   * @returns a Sound for one wave, a Stereo Sound for two waves
+   */
+  makeSoundFromWaves(waves: Wave[], duration: number): AnySound {
+    return waves.length === 1
+      ? this.make_sound(waves[0], duration)
+      : this.make_stereo_sound(waves[0], waves[1], duration);
+  }
+
+  /**
+   * Applies `combine` to the corresponding channels of the given Sounds.
+   * If any of the Sounds is a Stereo Sound, the other Sounds are played
+   * on both channels and the result is a Stereo Sound.
+   * @param sounds the Sounds to be combined
+   * @param combine makes the wave of a channel from the waves of that channel
+   * @param duration duration of the resulting Sound
+   * @returns the combined Sound
+   */
+  combineChannels(
+    sounds: AnySound[],
+    combine: (waves: Wave[]) => Wave,
+    duration: number
+  ): AnySound {
+    const channelWaves = sounds.map(SoundModulePlugin.getWaves);
+    const channels = Math.max(...channelWaves.map((waves) => waves.length));
+    const combined: Wave[] = [];
+    for (let channel = 0; channel < channels; ++channel) {
+      combined.push(combine(channelWaves.map((waves) => waves[waves.length === 1 ? 0 : channel])));
+    }
+    return this.makeSoundFromWaves(combined, duration);
+  }
+
   /**
    * Accesses the wave function of a given Sound.
+   * For a Stereo Sound, this is the average of its left and right waves.
    *
    * @param sound given Sound
    * @return the wave function of the Sound
    * @example get_wave(make_sound(t => Math_sin(2 * Math_PI * 440 * t), 5)); // Returns t => Math_sin(2 * Math_PI * 440 * t)
    */
-  get_wave(sound: Sound): Wave {
-    return head(sound);
+  get_wave(sound: AnySound): Wave {
+    const waves = SoundModulePlugin.getWaves(sound);
+    if (waves.length === 1) {
+      return waves[0];
+    }
+    const [left, right] = waves;
+    return (t: number) => 0.5 * (left(t) + right(t));
+  }
+
+  /**
+   * Accesses the left wave function of a given Sound.
+   * For a Sound that is not a Stereo Sound, this is its wave.
+   *
+   * @param sound given Sound
+   * @return the left wave function of the Sound
+   * @example get_left_wave(make_stereo_sound(t => math_sin(2 * math_PI * 440 * t), t => 0, 5)); // Returns t => math_sin(2 * math_PI * 440 * t)
+   */
+  get_left_wave(sound: AnySound): Wave {
+    return SoundModulePlugin.getWaves(sound)[0];
+  }
+
+  /**
+   * Accesses the right wave function of a given Sound.
+   * For a Sound that is not a Stereo Sound, this is its wave.
+   *
+   * @param sound given Sound
+   * @return the right wave function of the Sound
+   * @example get_right_wave(make_stereo_sound(t => 0, t => math_sin(2 * math_PI * 440 * t), 5)); // Returns t => math_sin(2 * math_PI * 440 * t)
+   */
+  get_right_wave(sound: AnySound): Wave {
+    const waves = SoundModulePlugin.getWaves(sound);
+    return waves[waves.length - 1];
   }
 
   /**
@@ -182,7 +407,7 @@ class SoundModulePlugin implements IPlugin {
    * @return the duration of the Sound
    * @example get_duration(make_sound(t => Math_sin(2 * Math_PI * 440 * t), 5)); // Returns 5
    */
-  get_duration(sound: Sound): number {
+  get_duration(sound: AnySound): number {
     return tail(sound);
   }
 
@@ -193,46 +418,144 @@ class SoundModulePlugin implements IPlugin {
    * @return true if x is a Sound, false otherwise
    * @example is_sound(make_sound(t => 0, 2)); // Returns true
    */
-  is_sound(x: any): x is Sound {
-    return (
-      is_pair(x)
-      && typeof this.get_wave(x) === 'function'
-      && typeof this.get_duration(x) === 'number'
-    );
+  is_sound(x: any): x is AnySound {
+    if (!is_pair(x) || typeof tail(x) !== 'number') {
+      return false;
+    }
+    const waves = head(x);
+    return is_pair(waves)
+      ? typeof head(waves) === 'function' && typeof tail(waves) === 'function'
+      : typeof waves === 'function';
   }
 
   /**
    * Samples a given Sound.
    * @param sound the Sound to be sampled
    * @param fs the sampling frequency
-   * @returns {Float32Array} the sound samples
-   */
-  sample(sound: Sound, fs: number): Float32Array {
-    const wave = this.get_wave(sound);
-    const duration = this.get_duration(sound);
-    const numSamples = Math.ceil(fs * duration);
-    const channel = new Float32Array(numSamples);
-    for (let i = 0; i < numSamples; ++i) {
+   * @returns {Float32Array[]} the sound samples, one array for each channel
+   */
+  sample(sound: AnySound, fs: number): Float32Array[] {
+    const numSamples = Math.ceil(fs * this.get_duration(sound));
+    return SoundModulePlugin.sampleWaves(SoundModulePlugin.getWaves(sound), fs, 0, numSamples);
+  }
+
+  /**
+   * Samples the given waves from sample `start` (inclusive) to sample `end` (exclusive).
+   * @param waves the waves to be sampled, one for each channel
+   * @param fs the sampling frequency
+   * @param start the index of the first sample
+   * @param end the index after the last sample
+   * @returns {Float32Array[]} the sound samples, one array for each channel
+   */
+  static sampleWaves(waves: Wave[], fs: number, start: number, end: number): Float32Array[] {
+    return waves.map((wave) => {
+      const channel = new Float32Array(end - start);
+      const baked = bakedWaves.get(wave);
+      if (baked !== undefined && baked.fs === fs) {
+        // baked samples have already been clipped
+        channel.set(baked.samples.subarray(start, Math.min(end, baked.samples.length)));
+        return channel;
+      }
+      for (let i = start; i < end; ++i) {
         let amp = wave(i / fs);
         if (amp > 1) {
-            amp = 1;
+          amp = 1;
         } else if (amp < -1) {
-            amp = -1;
+          amp = -1;
         }
-        channel[i] = amp;
+        channel[i - start] = amp;
+      }
+      return channel;
+    });
+  }
+
+  /**
+   * Makes a Sound with one channel for each array of samples, whose waves
+   * read from the samples. Playing the Sound reuses the samples.
+   * @param channels the samples of each channel
+   * @param fs the sampling frequency of the samples
+   * @param duration the duration of the Sound
+   * @returns the baked Sound
+   */
+  static makeBakedSound(channels: Float32Array[], fs: number, duration: number): AnySound {
+    const waves = channels.map((samples) => {
+      const wave = SoundModulePlugin.samplesToWave(samples, fs);
+      bakedWaves.set(wave, { samples, fs });
+      return wave;
+    });
+    return waves.length === 1
+      ? pair(waves[0], duration)
+      : pair(pair(waves[0], waves[1]), duration);
+  }
+
+  /**
+   * Samples the given Sound once and returns a Sound with the same
+   * duration whose wave reads from the samples, linearly interpolating
+   * between them. Sounds made by combining many Sounds can be slow to play;
+   * baking such a Sound makes later uses of it fast, and playing a baked
+   * Sound does not sample it again.
+   *
+   * @param sound the Sound to be baked
+   * @return the baked Sound
+   * @example const song = bake(consecutively(list(piano(60, 1), piano(64, 1), piano(67, 1))));
+   */
+  bake(sound: AnySound): AnySound {
+    if (!this.is_sound(sound)) {
+      throw new Error(`${this.bake.name} is expecting sound, but encountered ${sound}`);
     }
-    return channel;
+    return SoundModulePlugin.makeBakedSound(this.sample(sound, FS), FS, this.get_duration(sound));
+  }
+
+  /**
+   * Samples the given Sound in blocks of PLAY_BLOCK_SIZE samples and
+   * streams them to the host. The first block is sent right away so that
+   * playback can start; the rest are sampled one block per task. Errors
+   * while sampling the rest are reported to the host, which shows them.
+   * @param sound the Sound to be streamed
+   * @param fs the sampling frequency
+   */
+  private streamSound(sound: AnySound, fs: number) {
+    const streamId = this.nextStreamId++;
+    const waves = SoundModulePlugin.getWaves(sound);
+    const numSamples = Math.ceil(fs * this.get_duration(sound));
+
+    const sendFrom = (start: number) => {
+      this.activeStreams.delete(streamId);
+      const end = Math.min(start + PLAY_BLOCK_SIZE, numSamples);
+      let block: Float32Array[];
+      try {
+        block = SoundModulePlugin.sampleWaves(waves, fs, start, end);
+      } catch (error) {
+        if (start === 0) {
+          // the first block is sampled by play itself, so the program sees the error
+          this.host.$playStreamEnd(streamId);
+          throw error;
+        }
+        // later blocks are sampled in timers, where a thrown error would be lost
+        this.host.$playStreamError(streamId, error instanceof Error ? error.message : String(error));
+        return;
+      }
+      this.host.$playStreamAppend(streamId, block);
+      if (end < numSamples) {
+        this.activeStreams.set(streamId, setTimeout(() => sendFrom(end), 0));
+      } else {
+        this.host.$playStreamEnd(streamId);
+      }
+    };
+
+    this.host.$playStreamBegin(streamId, fs);
+    sendFrom(0);
   }
 
   /**
-   * Converts an array of sound samples to wav format.
-   * @param channel the sound channel to be converted
+   * Converts sound samples to wav format.
+   * @param channels the sound channels to be converted
    * @param fs the sampling frequency
    * @returns {ArrayBuffer} the wav file
    */
-  static channelToWav(channel: Float32Array, fs: number): ArrayBuffer {
-      const buffer = audioBufferToWav(fs, [channel]);
-      return buffer;
+  static channelsToWav(channels: Float32Array[], fs: number): ArrayBuffer {
+    const buffer = audioBufferToWav(fs, channels);
+    return buffer;
   }
 
   /**
@@ -247,6 +570,20 @@ class SoundModulePlugin implements IPlugin {
     return this.play(this.make_sound(wave, duration));
   }
 
+  /**
+   * Plays the given two Waves using the computer’s sound device, for the duration
+   * given in seconds. The first Wave is for the left channel, the second for the
+   * right channel.
+   *
+   * @param wave1 the wave function to play on the left channel, starting at 0
+   * @param wave2 the wave function to play on the right channel, starting at 0
+   * @return the resulting Stereo Sound
+   * @example play_waves(t => math_sin(t * 3000), t => math_sin(t * 6000), 5);
+   */
+  play_waves(wave1: Wave, wave2: Wave, duration: number): StereoSound {
+    return this.play(this.make_stereo_sound(wave1, wave2, duration));
+  }
+
   /**
    * Plays the given Sound using the computer’s sound device.
    * The sound is added to a list of sounds to be played one-at-a-time
@@ -256,7 +593,7 @@ class SoundModulePlugin implements IPlugin {
    * @return the given Sound
    * @example play_in_tab(sine_sound(440, 5));
    */
-  play_in_tab(sound: Sound): Sound {
+  play_in_tab<T extends AnySound>(sound: T): T {
     // Type-check sound
     if (!this.is_sound(sound)) {
       throw new Error(`${this.play_in_tab.name} is expecting sound, but encountered ${sound}`);
@@ -265,8 +602,8 @@ class SoundModulePlugin implements IPlugin {
     } else if (this.get_duration(sound) === 0) {
       return sound;
     } else {
-      const channel = this.sample(sound, FS);
-      const wavBuffer = SoundModulePlugin.channelToWav(channel, FS);
+      const channels = this.sample(sound, FS);
+      const wavBuffer = SoundModulePlugin.channelsToWav(channels, FS);
       this.host.$displaySound(wavBuffer);
       return sound;
     }
@@ -280,7 +617,7 @@ class SoundModulePlugin implements IPlugin {
    * @return the given Sound
    * @example play(sine_sound(440, 5));
    */
-  play(sound: Sound): Sound {
+  play<T extends AnySound>(sound: T): T {
     // Type-check sound
     if (!this.is_sound(sound)) {
       throw new Error(
@@ -291,8 +628,7 @@ class SoundModulePlugin implements IPlugin {
     } else if (this.get_duration(sound) === 0) {
       return sound;
     } else {
-      const channel = this.sample(sound, FS);
-      this.host.$play(channel, FS);
+      this.streamSound(sound, FS);
       return sound;
     }
   }
@@ -301,6 +637,8 @@ class SoundModulePlugin implements IPlugin {
    * Stops all currently playing sounds.
    */
   stop(): void {
+    this.activeStreams.forEach((timer) => clearTimeout(timer));
+    this.activeStreams.clear();
     this.host.$stop();
   }
 
@@ -416,15 +754,16 @@ class SoundModulePlugin implements IPlugin {
    * @return the combined Sound
    * @example consecutively(list(sine_sound(200, 2), sine_sound(400, 3)));
    */
-  consecutively(list_of_sounds: List): Sound {
-    const consec_two = (ss1: Sound, ss2: Sound) => {
-      const wave1 = this.get_wave(ss1);
-      const wave2 = this.get_wave(ss2);
+  consecutively(list_of_sounds: List): AnySound {
+    const consec_two = (ss1: AnySound, ss2: AnySound) => {
       const dur1 = this.get_duration(ss1);
       const dur2 = this.get_duration(ss2);
-      const new_wave = (t: number) => (t < dur1 ? wave1(t) : wave2(t - dur1));
-      return this.make_sound(new_wave, dur1 + dur2);
-    }
+      return this.combineChannels(
+        [ss1, ss2],
+        ([wave1, wave2]) => (t: number) => (t < dur1 ? wave1(t) : wave2(t - dur1)),
+        dur1 + dur2
+      );
+    };
     return accumulate(consec_two, this.silence_sound(0), list_of_sounds);
   }
 
@@ -439,24 +778,27 @@ class SoundModulePlugin implements IPlugin {
    * @return the combined Sound
    * @example simultaneously(list(sine_sound(200, 2), sine_sound(400, 3)))
    */
-  simultaneously(list_of_sounds: List): Sound {
-    const simul_two = (ss1: Sound, ss2: Sound) => {
-      const wave1 = this.get_wave(ss1);
-      const wave2 = this.get_wave(ss2);
+  simultaneously(list_of_sounds: List): AnySound {
+    const simul_two = (ss1: AnySound, ss2: AnySound) => {
       const dur1 = this.get_duration(ss1);
       const dur2 = this.get_duration(ss2);
-      // new_wave assumes sound discipline (ie, wave(t) = 0 after t > dur)
-      const new_wave = (t: number) => wave1(t) + wave2(t);
       // new_dur is higher of the two dur
       const new_dur = dur1 < dur2 ? dur2 : dur1;
-      return this.make_sound(new_wave, new_dur);
-    }
+      return this.combineChannels(
+        [ss1, ss2],
+        // new wave assumes sound discipline (ie, wave(t) = 0 after t > dur)
+        ([wave1, wave2]) => (t: number) => wave1(t) + wave2(t),
+        new_dur
+      );
+    };
 
-    const mushed_sounds = accumulate(simul_two, this.silence_sound(0), list_of_sounds);
+    const mushed_sounds: AnySound = accumulate(simul_two, this.silence_sound(0), list_of_sounds);
     const len = length(list_of_sounds);
-    const normalised_wave = (t: number) => head(mushed_sounds)(t) / len;
-    const highest_duration = tail(mushed_sounds);
-    return this.make_sound(normalised_wave, highest_duration);
+    return this.combineChannels(
+      [mushed_sounds],
+      ([wave]) => (t: number) => wave(t) / len,
+      this.get_duration(mushed_sounds)
+    );
   }
 
   /**
@@ -481,12 +823,11 @@ class SoundModulePlugin implements IPlugin {
     release_ratio: number
   ): SoundTransformer {
     return (sound) => {
-      const wave = this.get_wave(sound);
       const duration = this.get_duration(sound);
       const attack_time = duration * attack_ratio;
       const decay_time = duration * decay_ratio;
       const release_time = duration * release_ratio;
-      return this.make_sound((x) => {
+      return this.combineChannels([sound], ([wave]) => (x) => {
         if (x < attack_time) {
           return wave(x) * (x / attack_time);
         }
@@ -530,7 +871,7 @@ class SoundModulePlugin implements IPlugin {
     base_frequency: number,
     duration: number,
     envelopes: List
-  ): Sound {
+  ): AnySound {
     function zip(lst: List, n: number) {
       if (is_null(lst)) {
         return lst;
@@ -566,12 +907,62 @@ class SoundModulePlugin implements IPlugin {
     duration: number,
     amount: number
   ): SoundTransformer {
-    return (modulator: Sound) => this.make_sound(
-      (t) => Math.sin(2 * Math.PI * t * freq + amount * this.get_wave(modulator)(t)),
+    return (modulator: AnySound) => this.combineChannels(
+      [modulator],
+      ([wave]) => (t) => Math.sin(2 * Math.PI * t * freq + amount * wave(t)),
       duration
     );
   }
 
+  /**
+   * Centers a Sound by averaging its left and right channels,
+   * resulting in an effectively mono Sound.
+   *
+   * @param sound the Sound to be squashed
+   * @return a new Sound with the left and right channels averaged
+   * @example squash(make_stereo_sound(t => math_sin(2 * math_PI * 440 * t), t => 0, 5));
+   */
+  squash(sound: AnySound): Sound {
+    return this.make_sound(this.get_wave(sound), this.get_duration(sound));
+  }
+
+  /**
+   * Returns a Sound transformer that pans a Sound based on the pan amount.
+   * The input Sound is first squashed to mono.
+   * An amount of `-1` is a hard left pan, `0` is balanced, `1` is hard right pan.
+   *
+   * @param amount the pan amount, from -1 to 1
+   * @return a Sound transformer that pans a Sound
+   * @example pan(-0.5)(sine_sound(440, 5));
+   */
+  pan(amount: number): SoundTransformer {
+    const clamped = Math.max(-1, Math.min(1, amount));
+    return this.pan_mod(this.make_sound((_t) => clamped, Infinity));
+  }
+
+  /**
+   * Returns a Sound transformer that uses a Sound to pan another Sound.
+   * The modulator is treated as a mono Sound and its output is used to pan
+   * an input Sound.
+   * `-1` is a hard left pan, `0` is balanced, `1` is hard right pan.
+   *
+   * @param modulator the Sound used to modulate the pan of another Sound
+   * @return a Sound transformer that pans a Sound
+   * @example pan_mod(sine_sound(1, 5))(sine_sound(440, 5));
+   */
+  pan_mod(modulator: AnySound): SoundTransformer {
+    const modulator_wave = this.get_wave(modulator);
+    const amount = (t: number) => Math.max(-1, Math.min(1, modulator_wave(t)));
+    return (sound) => {
+      const wave = this.get_wave(sound);
+      return this.make_stereo_sound(
+        (t) => ((1 - amount(t)) / 2) * wave(t),
+        (t) => ((1 + amount(t)) / 2) * wave(t),
+        this.get_duration(sound)
+      );
+    };
+  }
+
   /**
    * Converts a letter name to its corresponding MIDI note.
    * The letter name is represented in standard pitch notation.
@@ -666,7 +1057,7 @@ class SoundModulePlugin implements IPlugin {
    * @return Sound resulting bell Sound with given pitch and duration
    * @example bell(40, 1);
    */
-  bell(note: number, duration: number): Sound {
+  bell(note: number, duration: number): AnySound {
     return this.stacking_adsr(
       this.square_sound,
       this.midi_note_to_frequency(note),
@@ -688,7 +1079,7 @@ class SoundModulePlugin implements IPlugin {
    * @return Sound resulting cello Sound with given pitch and duration
    * @example cello(36, 5);
    */
-  cello(note: number, duration: number): Sound {
+  cello(note: number, duration: number): AnySound {
     return this.stacking_adsr(
       this.square_sound,
       this.midi_note_to_frequency(note),
@@ -705,7 +1096,7 @@ class SoundModulePlugin implements IPlugin {
    * @return Sound resulting piano Sound with given pitch and duration
    * @example piano(48, 5);
    */
-  piano(note: number, duration: number): Sound {
+  piano(note: number, duration: number): AnySound {
     return this.stacking_adsr(
       this.triangle_sound,
       this.midi_note_to_frequency(note),
@@ -722,7 +1113,7 @@ class SoundModulePlugin implements IPlugin {
    * @return Sound resulting trombone Sound with given pitch and duration
    * @example trombone(60, 2);
    */
-  trombone(note: number, duration: number): Sound {
+  trombone(note: number, duration: number): AnySound {
     return this.stacking_adsr(
       this.square_sound,
       this.midi_note_to_frequency(note),
@@ -739,7 +1130,7 @@ class SoundModulePlugin implements IPlugin {
    * @return Sound resulting violin Sound with given pitch and duration
    * @example violin(53, 4);
    */
-  violin(note: number, duration: number): Sound {
+  violin(note: number, duration: number): AnySound {
     return this.stacking_adsr(
       this.sawtooth_sound,
       this.midi_note_to_frequency(note),
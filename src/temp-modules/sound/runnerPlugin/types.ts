@@ -2,8 +2,11 @@ import type { Pair } from 'js-slang/dist/stdlib/list';
 
 export type Wave = (...t: any) => number;
 export type Sound = Pair<Wave, number>;
+export type StereoSound = Pair<Pair<Wave, Wave>, number>;
+// Most functions of the sound module accept both kinds of Sound
+export type AnySound = Sound | StereoSound;
 export type SoundProducer = (...t: any) => Sound;
-export type SoundTransformer = (s: Sound) => Sound;
+export type SoundTransformer = (s: AnySound) => AnySound;
 export type ErrorLogger = (
   error: string[] | string,
   isSlangError?: boolean
@@ -0,0 +1,36 @@
+export interface DisplayedSound {
+  /** Identifies the clip across re-renders of the tab */
+  readonly id: number;
+  /** The WAV file sent by `play_in_tab` */
+  readonly wavBuffer: ArrayBuffer;
+}
+
+/**
+ * The sounds a host has received through `$displaySound`, and the errors
+ * that stopped playback, as seen by the Sound tab.
+ */
+export interface ISoundDisplay {
+  /**
+   * The received sounds, oldest first. The array is replaced rather than
+   * mutated whenever it changes.
+   */
+  readonly displayedSounds: readonly DisplayedSound[];
+
+  /**
+   * Errors that stopped sounds partway through playback, oldest first.
+   * The array is replaced rather than mutated whenever it changes.
+   */
+  readonly playbackErrors: readonly string[];
+
+  /**
+   * Registers a listener that is called whenever `displayedSounds` or
+   * `playbackErrors` changes.
+   * @returns a function that unregisters the listener
+   */
+  subscribeDisplayedSounds(listener: () => void): () => void;
+
+  /**
+   * Removes all received sounds and playback errors.
+   */
+  clearDisplayedSounds(): void;
+}
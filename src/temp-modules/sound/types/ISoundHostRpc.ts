@@ -1,6 +1,66 @@
 export interface ISoundHostRpc {
-  $play(sound: Float32Array, fs: number): void;
+  /**
+   * Starts a stream of sound samples, to be played on top of any sounds
+   * that are currently playing. The samples follow in blocks through
+   * `$playStreamAppend`; playback starts as soon as the first block arrives.
+   * @param streamId identifies the stream in later calls
+   * @param fs the sample rate of the samples
+   */
+  $playStreamBegin(streamId: number, fs: number): void;
+
+  /**
+   * Queues the next block of a stream for playback.
+   * Blocks for streams that are not playing (e.g. after `$stop`) are ignored.
+   * @param streamId the stream the block belongs to
+   * @param channels the samples of each channel, all of the same length
+   */
+  $playStreamAppend(streamId: number, channels: Float32Array[]): void;
+
+  /**
+   * Marks that all blocks of a stream have been sent.
+   * @param streamId the stream that has ended
+   */
+  $playStreamEnd(streamId: number): void;
+
+  /**
+   * Ends a stream early because a block after the first could not be
+   * sampled. The host stops queueing the stream and shows the error, as the
+   * program that called `play` has already moved on.
+   * @param streamId the stream that failed
+   * @param message the error raised while sampling
+   */
+  $playStreamError(streamId: number, message: string): void;
+
   $displaySound(wavBuffer: ArrayBuffer): void;
+
+  /**
+   * Stops all currently playing sounds and cancels their streams.
+   */
   $stop(): void;
-  record(fs: number, duration?: number): any;
+
+  /**
+   * Asks for permission to use the host's microphone.
+   * @returns whether permission was granted
+   */
+  initRecord(): Promise<boolean>;
+
+  /**
+   * Records from the microphone. Recording starts after `buffer` seconds and
+   * runs for `duration` seconds, or until `$stopRecording` is called if no
+   * duration is given. Each recording uses its own recorder, so recordings
+   * may overlap.
+   * @param recordingId identifies the recording in `$stopRecording`
+   * @param fs the sample rate the recording should be returned at
+   * @param buffer pause before recording, in seconds
+   * @param duration length of the recording, in seconds
+   * @returns the recorded (mono) samples at sample rate `fs`; rejects if the
+   * recording is stopped before it begins
+   */
+  record(recordingId: number, fs: number, buffer: number, duration?: number): Promise<Float32Array>;
+
+  /**
+   * Stops a recording started by `record`.
+   * @param recordingId the recording to stop
+   */
+  $stopRecording(recordingId: number): void;
 }